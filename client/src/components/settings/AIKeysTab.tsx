@@ -8,11 +8,36 @@ interface ProviderConfig {
   enabled?: boolean;
 }
 
+interface PiiPolicy {
+  enabled: boolean;
+  emails: boolean;
+  phones: boolean;
+  names: boolean;
+  customFields: string[];
+  scrubLocal: boolean;
+}
+
 interface LLMConfig {
   providers: Record<string, ProviderConfig & { connected?: boolean }>;
   routing: Record<string, string | { primary: string; fallback?: string }>;
+  pii_policy?: PiiPolicy;
 }
 
+const DEFAULT_PII_POLICY: PiiPolicy = {
+  enabled: false,
+  emails: true,
+  phones: true,
+  names: true,
+  customFields: [],
+  scrubLocal: false,
+};
+
+const PII_DETECTORS: Array<{ key: 'emails' | 'phones' | 'names'; label: string; description: string }> = [
+  { key: 'emails', label: 'Email addresses', description: 'Any email address in prompts, transcripts and CRM data' },
+  { key: 'phones', label: 'Phone numbers', description: 'Formatted phone numbers (bare CRM record IDs are kept)' },
+  { key: 'names', label: 'Person names', description: 'Full names of contacts, reps and workspace members' },
+];
+
 interface ProviderMeta {
   key: string;
   label: string;
@@ -211,6 +236,10 @@ export default function AIKeysTab() {
     extraction: 'fireworks/deepseek-v3-0324',
   });
   const [routingDirty, setRoutingDirty] = useState(false);
+  const [piiPolicy, setPiiPolicy] = useState<PiiPolicy>(DEFAULT_PII_POLICY);
+  const [customFieldsText, setCustomFieldsText] = useState('');
+  const [piiDirty, setPiiDirty] = useState(false);
+  const [savingPii, setSavingPii] = useState(false);
 
   const loadConfig = useCallback(async () => {
     try {
@@ -252,6 +281,11 @@ export default function AIKeysTab() {
         reasoning: reasonRoute || 'anthropic/claude-sonnet-4-20250514',
         extraction: extractRoute || 'fireworks/deepseek-v3-0324',
       });
+
+      const policy = { ...DEFAULT_PII_POLICY, ...(config.pii_policy ?? {}) };
+      setPiiPolicy(policy);
+      setCustomFieldsText(policy.customFields.join(', '));
+      setPiiDirty(false);
     } catch (e: any) {
       setError(e?.message ?? 'Failed to load config');
     } finally {
@@ -320,6 +354,38 @@ export default function AIKeysTab() {
     }
   };
 
+  const handlePiiChange = (field: keyof Omit<PiiPolicy, 'customFields'>, value: boolean) => {
+    setPiiPolicy(prev => ({ ...prev, [field]: value }));
+    setPiiDirty(true);
+    setSuccessMsg(null);
+  };
+
+  const handleSavePii = async () => {
+    setSavingPii(true);
+    setError(null);
+    try {
+      const customFields = customFieldsText.split(',').map(f => f.trim()).filter(Boolean);
+      await api.post('/llm/config', { pii_policy: { ...piiPolicy, customFields } });
+      setPiiPolicy(prev => ({ ...prev, customFields }));
+      setPiiDirty(false);
+      setSuccessMsg('Data privacy settings saved');
+      setTimeout(() => setSuccessMsg(null), 3000);
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to save data privacy settings');
+    } finally {
+      setSavingPii(false);
+    }
+  };
+
+  const renderToggle = (on: boolean, onClick: () => void) => (
+    <div
+      onClick={onClick}
+      style={{ width: 34, height: 18, borderRadius: 9, background: on ? colors.accent : colors.border, position: 'relative', cursor: 'pointer', transition: 'background 0.2s', flexShrink: 0 }}
+    >
+      <div style={{ width: 12, height: 12, borderRadius: '50%', background: '#fff', position: 'absolute', top: 3, left: on ? 19 : 3, transition: 'left 0.2s' }} />
+    </div>
+  );
+
   const isConnected = (pKey: string) => {
     return connectedProviders[pKey] || (providers[pKey]?.enabled && !!providers[pKey]?.apiKey);
   };
@@ -566,6 +632,67 @@ export default function AIKeysTab() {
           })}
         </div>
       </div>
+
+      {/* Data privacy (PII) section */}
+      <div style={{ borderTop: `1px solid ${colors.border}`, paddingTop: 32, marginBottom: 32 }}>
+        <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', marginBottom: 20 }}>
+          <div>
+            <h2 style={{ fontSize: 16, fontWeight: 600, color: colors.text, margin: 0, marginBottom: 4 }}>Data Privacy</h2>
+            <p style={{ fontSize: 12, color: colors.textMuted, margin: 0, lineHeight: 1.5 }}>
+              Replace personal data with placeholders before prompts are sent to AI providers. Responses are restored
+              before you see them. Training data and MCP logs are always stored with these values removed.
+            </p>
+          </div>
+          <button
+            onClick={handleSavePii}
+            disabled={savingPii || !piiDirty}
+            style={{ padding: '7px 16px', background: piiDirty ? colors.accent : colors.surfaceRaised, border: `1px solid ${piiDirty ? colors.accent : colors.border}`, borderRadius: 5, color: piiDirty ? '#fff' : colors.textMuted, fontSize: 12, fontWeight: 500, cursor: piiDirty && !savingPii ? 'pointer' : 'default', fontFamily: fonts.sans, flexShrink: 0 }}
+          >
+            {savingPii ? 'Saving…' : 'Save Privacy'}
+          </button>
+        </div>
+
+        <div style={{ background: colors.surface, border: `1px solid ${piiPolicy.enabled ? colors.green : colors.border}`, borderRadius: 8, padding: '14px 18px', display: 'flex', flexDirection: 'column', gap: 14 }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 16 }}>
+            <div>
+              <div style={{ fontSize: 13, fontWeight: 600, color: colors.text }}>Scrub prompts sent to providers</div>
+              <div style={{ fontSize: 11, color: colors.textMuted }}>Applies to every model call in this workspace</div>
+            </div>
+            {renderToggle(piiPolicy.enabled, () => handlePiiChange('enabled', !piiPolicy.enabled))}
+          </div>
+
+          {PII_DETECTORS.map(detector => (
+            <div key={detector.key} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 16 }}>
+              <div>
+                <div style={{ fontSize: 12, color: colors.text }}>{detector.label}</div>
+                <div style={{ fontSize: 11, color: colors.textMuted }}>{detector.description}</div>
+              </div>
+              {renderToggle(piiPolicy[detector.key], () => handlePiiChange(detector.key, !piiPolicy[detector.key]))}
+            </div>
+          ))}
+
+          <div>
+            <div style={{ fontSize: 12, color: colors.text, marginBottom: 4 }}>Custom fields</div>
+            <input
+              value={customFieldsText}
+              onChange={e => { setCustomFieldsText(e.target.value); setPiiDirty(true); setSuccessMsg(null); }}
+              placeholder="e.g. personal_phone, home_address"
+              style={{ width: '100%', boxSizing: 'border-box', background: colors.bg, border: `1px solid ${colors.border}`, borderRadius: 5, padding: '7px 10px', fontSize: 12, color: colors.text, fontFamily: fonts.mono, outline: 'none' }}
+            />
+            <div style={{ fontSize: 11, color: colors.textMuted, marginTop: 4 }}>
+              Comma-separated CRM custom field keys whose values should never leave Pandora
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 16 }}>
+            <div>
+              <div style={{ fontSize: 12, color: colors.text }}>Also scrub on-prem (local) model calls</div>
+              <div style={{ fontSize: 11, color: colors.textMuted }}>Local models run on your infrastructure and are exempt by default</div>
+            </div>
+            {renderToggle(piiPolicy.scrubLocal, () => handlePiiChange('scrubLocal', !piiPolicy.scrubLocal))}
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
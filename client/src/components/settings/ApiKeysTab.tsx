@@ -0,0 +1,547 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useWorkspace } from '../../context/WorkspaceContext';
+import { colors, fonts } from '../../styles/theme';
+import Toast from '../Toast';
+import { api } from '../../lib/api';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  ip_allowlist: string[];
+  rate_limit_per_minute: number | null;
+  expires_at: string | null;
+  rotated_from: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+}
+
+type KeyStatus = 'active' | 'expiring' | 'expired' | 'revoked';
+
+const STATUS_STYLE: Record<KeyStatus, { label: string; bg: string; fg: string }> = {
+  active: { label: 'Active', bg: '#dcfce7', fg: '#16a34a' },
+  expiring: { label: 'Expiring', bg: '#fef9c3', fg: '#a16207' },
+  expired: { label: 'Expired', bg: '#f3f4f6', fg: '#6b7280' },
+  revoked: { label: 'Revoked', bg: '#fee2e2', fg: '#dc2626' },
+};
+
+const EXPIRING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+function keyStatus(key: ApiKey): KeyStatus {
+  if (key.revoked_at) return 'revoked';
+  if (!key.expires_at) return 'active';
+  const remaining = new Date(key.expires_at).getTime() - Date.now();
+  if (remaining <= 0) return 'expired';
+  return remaining < EXPIRING_WINDOW_MS ? 'expiring' : 'active';
+}
+
+function groupScopes(scopes: string[]): Array<[string, string[]]> {
+  const groups = new Map<string, string[]>();
+  for (const scope of scopes) {
+    const domain = scope.split('.')[0];
+    groups.set(domain, [...(groups.get(domain) || []), scope]);
+  }
+  return [...groups.entries()];
+}
+
+export default function ApiKeysTab() {
+  const { currentWorkspace } = useWorkspace();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  const [newName, setNewName] = useState('');
+  const [newScopes, setNewScopes] = useState<string[]>([]);
+  const [newIps, setNewIps] = useState('');
+  const [newRateLimit, setNewRateLimit] = useState('');
+  const [newExpiry, setNewExpiry] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [secretModal, setSecretModal] = useState<{ secret: string; name: string; rotated: boolean } | null>(null);
+  const [secretCopied, setSecretCopied] = useState(false);
+  const [closeWarning, setCloseWarning] = useState(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [revokeConfirmId, setRevokeConfirmId] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await api.get('/api-keys');
+      setKeys(Array.isArray(data?.keys) ? data.keys : []);
+      setAvailableScopes(Array.isArray(data?.available_scopes) ? data.available_scopes : []);
+    } catch {
+      setToast({ message: 'Failed to load API keys', type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (currentWorkspace?.id) loadKeys();
+  }, [currentWorkspace?.id, loadKeys]);
+
+  const showSecret = (secret: string, name: string, rotated: boolean) => {
+    setSecretModal({ secret, name, rotated });
+    setSecretCopied(false);
+    setCloseWarning(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      setToast({ message: 'Key name is required', type: 'error' });
+      return;
+    }
+    if (newScopes.length === 0) {
+      setToast({ message: 'Select at least one scope', type: 'error' });
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const data = await api.post('/api-keys', {
+        name: newName.trim(),
+        scopes: newScopes,
+        ip_allowlist: newIps.split(/[\s,]+/).map(s => s.trim()).filter(Boolean),
+        rate_limit_per_minute: newRateLimit ? Number(newRateLimit) : null,
+        expires_at: newExpiry ? new Date(`${newExpiry}T23:59:59`).toISOString() : null,
+      });
+      showSecret(data.secret, data.key.name, false);
+      setNewName('');
+      setNewScopes([]);
+      setNewIps('');
+      setNewRateLimit('');
+      setNewExpiry('');
+      await loadKeys();
+    } catch (err: any) {
+      setToast({ message: err?.message || 'Failed to create API key', type: 'error' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRotate = async (key: ApiKey) => {
+    setBusyId(key.id);
+    try {
+      const data = await api.post(`/api-keys/${key.id}/rotate`, { grace_hours: 24 });
+      showSecret(data.secret, key.name, true);
+      await loadKeys();
+    } catch (err: any) {
+      setToast({ message: err?.message || 'Failed to rotate API key', type: 'error' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    setBusyId(key.id);
+    try {
+      await api.delete(`/api-keys/${key.id}`);
+      setToast({ message: `Revoked ${key.name}`, type: 'success' });
+      await loadKeys();
+    } catch {
+      setToast({ message: 'Failed to revoke API key', type: 'error' });
+    } finally {
+      setBusyId(null);
+      setRevokeConfirmId(null);
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!secretModal) return;
+    await navigator.clipboard.writeText(secretModal.secret);
+    setSecretCopied(true);
+  };
+
+  const handleCloseSecretModal = () => {
+    if (!secretCopied && !closeWarning) {
+      setCloseWarning(true);
+    } else {
+      setSecretModal(null);
+      setCloseWarning(false);
+    }
+  };
+
+  const formatDate = (iso: string | null) => {
+    if (!iso) return '—';
+    return new Date(iso).toLocaleString();
+  };
+
+  const cell: React.CSSProperties = {
+    padding: '10px 12px',
+    fontSize: 13,
+    color: colors.text,
+    borderBottom: `1px solid ${colors.border}`,
+    fontFamily: fonts.sans,
+    verticalAlign: 'middle',
+  };
+
+  const th: React.CSSProperties = {
+    ...cell,
+    fontWeight: 600,
+    color: colors.textMuted,
+    fontSize: 11,
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    background: colors.surface,
+  };
+
+  const input: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    borderRadius: 6,
+    border: `1px solid ${colors.border}`,
+    background: colors.bg,
+    color: colors.text,
+    fontSize: 13,
+    fontFamily: fonts.sans,
+    boxSizing: 'border-box',
+  };
+
+  const label: React.CSSProperties = {
+    display: 'block',
+    fontSize: 12,
+    fontWeight: 600,
+    color: colors.textMuted,
+    marginBottom: 6,
+    fontFamily: fonts.sans,
+  };
+
+  const btn = (variant: 'primary' | 'danger' | 'ghost'): React.CSSProperties => ({
+    padding: '6px 14px',
+    borderRadius: 6,
+    border: 'none',
+    cursor: 'pointer',
+    fontSize: 13,
+    fontWeight: 500,
+    fontFamily: fonts.sans,
+    background:
+      variant === 'primary' ? colors.accent :
+      variant === 'danger' ? '#dc2626' :
+      'transparent',
+    color:
+      variant === 'ghost' ? colors.textMuted : '#fff',
+    transition: 'opacity 0.15s',
+  });
+
+  return (
+    <div style={{ maxWidth: 860 }}>
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      {/* Header */}
+      <div style={{ marginBottom: 28 }}>
+        <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: colors.text, fontFamily: fonts.sans }}>
+          API Keys
+        </h2>
+        <p style={{ margin: '6px 0 0', fontSize: 14, color: colors.textMuted, fontFamily: fonts.sans }}>
+          Issue a key per integration with only the permissions it needs. Rotating keeps the old key working for 24 hours so consumers can switch over.
+        </p>
+      </div>
+
+      {/* Key List */}
+      <section style={{ marginBottom: 36 }}>
+        <h3 style={{ margin: '0 0 12px', fontSize: 15, fontWeight: 600, color: colors.text, fontFamily: fonts.sans }}>
+          Keys
+        </h3>
+
+        {loading ? (
+          <p style={{ color: colors.textMuted, fontSize: 13, fontFamily: fonts.sans }}>Loading…</p>
+        ) : keys.length === 0 ? (
+          <div style={{
+            border: `1px dashed ${colors.border}`,
+            borderRadius: 8,
+            padding: '24px',
+            textAlign: 'center',
+            color: colors.textMuted,
+            fontSize: 13,
+            fontFamily: fonts.sans,
+          }}>
+            No API keys yet. Create one below.
+          </div>
+        ) : (
+          <div style={{ border: `1px solid ${colors.border}`, borderRadius: 8, overflow: 'hidden' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={th}>Key</th>
+                  <th style={{ ...th, width: 90 }}>Status</th>
+                  <th style={{ ...th, width: 150 }}>Last Used</th>
+                  <th style={{ ...th, width: 150 }}>Expires</th>
+                  <th style={{ ...th, width: 150 }}>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map(key => {
+                  const status = keyStatus(key);
+                  const style = STATUS_STYLE[status];
+                  const usable = status === 'active' || status === 'expiring';
+                  return (
+                    <tr key={key.id} style={{ opacity: usable ? 1 : 0.6 }}>
+                      <td style={cell}>
+                        <div style={{ fontWeight: 600 }}>{key.name}</div>
+                        <div style={{ fontFamily: 'monospace', fontSize: 11, color: colors.textMuted, marginTop: 2 }}>
+                          {key.key_prefix}…
+                          {key.ip_allowlist.length > 0 && ` · ${key.ip_allowlist.length} IP rule${key.ip_allowlist.length === 1 ? '' : 's'}`}
+                          {key.rate_limit_per_minute && ` · ${key.rate_limit_per_minute}/min`}
+                        </div>
+                        <div style={{ marginTop: 4 }}>
+                          {key.scopes.map(scope => (
+                            <span key={scope} style={{
+                              display: 'inline-block', fontSize: 10, background: `${colors.accent}20`,
+                              color: colors.accent, borderRadius: 4, padding: '1px 6px', marginRight: 4, marginTop: 2,
+                            }}>
+                              {scope}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td style={cell}>
+                        <span style={{
+                          display: 'inline-block',
+                          padding: '2px 8px',
+                          borderRadius: 4,
+                          fontSize: 12,
+                          fontWeight: 600,
+                          background: style.bg,
+                          color: style.fg,
+                        }}>
+                          {style.label}
+                        </span>
+                      </td>
+                      <td style={{ ...cell, fontSize: 12, color: colors.textMuted }}>
+                        {formatDate(key.last_used_at)}
+                        {key.last_used_ip && <div style={{ fontFamily: 'monospace', fontSize: 11 }}>{key.last_used_ip}</div>}
+                      </td>
+                      <td style={{ ...cell, fontSize: 12, color: colors.textMuted }}>
+                        {key.revoked_at ? formatDate(key.revoked_at) : key.expires_at ? formatDate(key.expires_at) : 'Never'}
+                      </td>
+                      <td style={cell}>
+                        {usable && (
+                          revokeConfirmId === key.id ? (
+                            <div style={{ display: 'flex', gap: 6 }}>
+                              <button style={{ ...btn('danger'), padding: '4px 10px', fontSize: 12 }} onClick={() => handleRevoke(key)} disabled={busyId === key.id}>
+                                {busyId === key.id ? '…' : 'Confirm'}
+                              </button>
+                              <button style={{ ...btn('ghost'), padding: '4px 8px', fontSize: 12 }} onClick={() => setRevokeConfirmId(null)}>
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div style={{ display: 'flex', gap: 6 }}>
+                              <button style={{ ...btn('primary'), padding: '4px 10px', fontSize: 12 }} onClick={() => handleRotate(key)} disabled={busyId === key.id}>
+                                {busyId === key.id ? '…' : 'Rotate'}
+                              </button>
+                              <button
+                                style={{ ...btn('ghost'), padding: '4px 8px', fontSize: 12, border: `1px solid ${colors.border}`, color: '#dc2626' }}
+                                onClick={() => setRevokeConfirmId(key.id)}
+                              >
+                                Revoke
+                              </button>
+                            </div>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Create Key */}
+      <section>
+        <h3 style={{ margin: '0 0 12px', fontSize: 15, fontWeight: 600, color: colors.text, fontFamily: fonts.sans }}>
+          Create Key
+        </h3>
+        <form onSubmit={handleCreate}>
+          <div style={{ marginBottom: 16 }}>
+            <label style={label}>Name</label>
+            <input
+              style={input}
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="e.g. Warehouse sync"
+              maxLength={100}
+            />
+          </div>
+
+          <div style={{ marginBottom: 16 }}>
+            <label style={label}>Scopes</label>
+            <div style={{ border: `1px solid ${colors.border}`, borderRadius: 8, padding: '10px 14px' }}>
+              {groupScopes(availableScopes).map(([domain, scopes]) => (
+                <div key={domain} style={{ display: 'flex', gap: 12, padding: '4px 0', alignItems: 'baseline' }}>
+                  <span style={{ width: 90, flexShrink: 0, fontSize: 12, fontWeight: 600, color: colors.textMuted, fontFamily: fonts.sans, textTransform: 'capitalize' }}>
+                    {domain}
+                  </span>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10 }}>
+                    {scopes.map(scope => (
+                      <label key={scope} style={{ display: 'flex', alignItems: 'center', gap: 5, fontSize: 12, fontFamily: fonts.sans, cursor: 'pointer', color: colors.text }}>
+                        <input
+                          type="checkbox"
+                          checked={newScopes.includes(scope)}
+                          onChange={e => {
+                            if (e.target.checked) setNewScopes(prev => [...prev, scope]);
+                            else setNewScopes(prev => prev.filter(s => s !== scope));
+                          }}
+                        />
+                        {scope.slice(domain.length + 1)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: 12, marginBottom: 20 }}>
+            <div>
+              <label style={label}>IP allowlist (optional)</label>
+              <input
+                style={input}
+                value={newIps}
+                onChange={e => setNewIps(e.target.value)}
+                placeholder="203.0.113.0/24, 198.51.100.7"
+              />
+            </div>
+            <div>
+              <label style={label}>Requests / minute</label>
+              <input
+                style={input}
+                type="number"
+                min={1}
+                value={newRateLimit}
+                onChange={e => setNewRateLimit(e.target.value)}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label style={label}>Expires</label>
+              <input
+                style={input}
+                type="date"
+                value={newExpiry}
+                onChange={e => setNewExpiry(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            style={btn('primary')}
+            disabled={submitting || !newName.trim() || newScopes.length === 0}
+          >
+            {submitting ? 'Creating…' : 'Create Key'}
+          </button>
+        </form>
+      </section>
+
+      {/* Secret Reveal Modal */}
+      {secretModal && (
+        <div style={{
+          position: 'fixed', inset: 0, zIndex: 9999,
+          background: 'rgba(0,0,0,0.55)',
+          display: 'flex', alignItems: 'center', justifyContent: 'center',
+        }}>
+          <div style={{
+            background: colors.surface,
+            borderRadius: 12,
+            padding: '32px 36px',
+            maxWidth: 520,
+            width: '90%',
+            boxShadow: '0 20px 60px rgba(0,0,0,0.35)',
+            fontFamily: fonts.sans,
+          }}>
+            <h3 style={{ margin: '0 0 6px', fontSize: 18, fontWeight: 700, color: colors.text }}>
+              {secretModal.rotated ? 'Key Rotated' : 'Key Created'}
+            </h3>
+            <p style={{ margin: '0 0 4px', fontSize: 13, color: colors.textMuted }}>
+              {secretModal.name}
+            </p>
+
+            <div style={{
+              marginTop: 20,
+              padding: '12px 16px',
+              background: '#fef9c3',
+              border: '1px solid #fbbf24',
+              borderRadius: 8,
+              marginBottom: 16,
+            }}>
+              <p style={{ margin: 0, fontSize: 13, fontWeight: 700, color: '#92400e' }}>
+                ⚠ This key will not be shown again. Copy it now.
+              </p>
+              <p style={{ margin: '4px 0 0', fontSize: 12, color: '#92400e' }}>
+                {secretModal.rotated
+                  ? 'The previous key keeps working for 24 hours. Update your integration before then.'
+                  : <>Send it as <code>Authorization: Bearer &lt;key&gt;</code>.</>}
+              </p>
+            </div>
+
+            <div style={{
+              background: colors.bg,
+              border: `1px solid ${colors.border}`,
+              borderRadius: 6,
+              padding: '10px 14px',
+              fontFamily: 'monospace',
+              fontSize: 13,
+              wordBreak: 'break-all',
+              color: colors.text,
+              marginBottom: 16,
+              userSelect: 'all',
+            }}>
+              {secretModal.secret}
+            </div>
+
+            {closeWarning && (
+              <div style={{
+                marginBottom: 14,
+                padding: '10px 14px',
+                background: '#fee2e2',
+                border: '1px solid #fca5a5',
+                borderRadius: 6,
+                fontSize: 13,
+                color: '#991b1b',
+                fontWeight: 600,
+              }}>
+                Are you sure? The key cannot be recovered after closing this dialog.
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+              <button
+                style={{
+                  ...btn('ghost'),
+                  border: `1px solid ${colors.border}`,
+                  color: secretCopied ? '#16a34a' : colors.text,
+                }}
+                onClick={handleCopySecret}
+              >
+                {secretCopied ? 'Copied ✓' : 'Copy Key'}
+              </button>
+              <button
+                style={{
+                  ...btn(secretCopied ? 'primary' : 'danger'),
+                  opacity: secretCopied ? 1 : 0.85,
+                }}
+                onClick={handleCloseSecretModal}
+              >
+                {secretCopied ? 'Done' : (closeWarning ? 'Yes, close anyway' : 'Close')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
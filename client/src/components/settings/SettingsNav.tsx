@@ -37,6 +37,7 @@ const ADVANCED_SECTIONS: NavSection[] = [
       { key: 'crm-sync',          label: 'CRM Sync',         icon: 'refresh',      adminOnly: true },
       { key: 'deal-fields',       label: 'Deal Fields',      icon: 'edit',         adminOnly: true },
       { key: 'webhooks',          label: 'Webhooks',         icon: 'transfer',     adminOnly: true },
+      { key: 'api-keys',          label: 'API Keys',         icon: '🔑',           adminOnly: true },
       { key: 'claude',            label: 'Claude',           icon: '✦',            adminOnly: true },
     ],
   },
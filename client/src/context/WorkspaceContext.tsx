@@ -149,6 +149,11 @@ export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
 
     if (!res.ok) {
       const data = await res.json().catch(() => ({}));
+      // Password login is disabled for this domain — hand off to the IdP
+      if (data.code === 'SSO_REQUIRED' && data.sso_url) {
+        window.location.href = data.sso_url;
+        return;
+      }
       throw new Error(data.error || 'Login failed');
     }
 
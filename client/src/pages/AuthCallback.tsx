@@ -16,8 +16,11 @@ export default function AuthCallback() {
       return;
     }
 
+    const returnTo = params.get('return_to');
+    const destination = returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/';
+
     handleCallback(session)
-      .then(() => navigate('/', { replace: true }))
+      .then(() => navigate(destination, { replace: true }))
       .catch(() => setError('Failed to sign in. Please try again.'));
   }, [handleCallback, navigate]);
 
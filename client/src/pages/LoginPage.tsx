@@ -5,6 +5,14 @@ import { api } from '../lib/api';
 
 type Screen = 'email' | 'name' | 'join' | 'forgot' | 'forgot-sent';
 
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  SSO_NOT_CONFIGURED: 'Single sign-on is not set up for this email domain.',
+  SSO_USER_NOT_PROVISIONED: 'Your account has not been provisioned yet. Ask your administrator for access.',
+  SSO_USER_DEACTIVATED: 'Your account has been deactivated by your identity provider.',
+  SSO_DOMAIN_NOT_VERIFIED: 'Your email domain is not verified for single sign-on.',
+  SSO_STATE_INVALID: 'Your sign-in attempt expired. Please try again.',
+};
+
 export default function LoginPage() {
   const { login, joinWorkspace, isAuthenticated, workspaces, selectWorkspace } = useWorkspace();
   const [screen, setScreen] = useState<Screen>('email');
@@ -12,7 +20,10 @@ export default function LoginPage() {
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [apiKey, setApiKey] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState(() => {
+    const ssoError = new URLSearchParams(window.location.search).get('sso_error');
+    return ssoError ? SSO_ERROR_MESSAGES[ssoError] || 'Single sign-on failed. Please try again or contact your administrator.' : '';
+  });
   const [loading, setLoading] = useState(false);
 
   if (isAuthenticated && workspaces.length === 0) {
@@ -225,6 +236,20 @@ export default function LoginPage() {
         >
           Forgot password?
         </button>
+        <button
+          type="button"
+          onClick={() => {
+            if (!email.trim()) { setError('Enter your work email to continue with SSO'); return; }
+            window.location.href = `/api/auth/sso/start?email=${encodeURIComponent(email.trim())}`;
+          }}
+          style={{
+            padding: '8px 20px', background: 'none', color: colors.text,
+            border: `1px solid ${colors.border}`, borderRadius: 6,
+            fontSize: 13, fontWeight: 600, cursor: 'pointer', fontFamily: fonts.sans,
+          }}
+        >
+          Continue with SSO
+        </button>
       </form>
       <p style={{ textAlign: 'center', margin: '16px 0 0', fontSize: 12, color: colors.textMuted }}>
         <a href="/help" target="_blank" rel="noopener noreferrer" style={{ color: colors.accent, textDecoration: 'none' }}>
@@ -9,7 +9,7 @@ import Toast from '../components/Toast';
 interface Channel {
   id: string;
   name: string;
-  channel_type: 'slack' | 'email' | 'webhook';
+  channel_type: 'slack' | 'teams' | 'email' | 'webhook';
   config: any;
   is_active: boolean;
   verified_at: string | null;
@@ -99,8 +99,8 @@ function formatTrigger(rule: Rule): string {
   return rule.trigger_type;
 }
 
-const channelTypeIcon: Record<string, string> = { slack: '#', email: '✉', webhook: '⚡' };
-const channelTypeLabel: Record<string, string> = { slack: 'Slack', email: 'Email', webhook: 'Webhook' };
+const channelTypeIcon: Record<string, string> = { slack: '#', teams: 'T', email: '✉', webhook: '⚡' };
+const channelTypeLabel: Record<string, string> = { slack: 'Slack', teams: 'Microsoft Teams', email: 'Email', webhook: 'Webhook' };
 
 const inputStyle: React.CSSProperties = {
   background: colors.surfaceRaised, border: `1px solid ${colors.border}`, borderRadius: 6,
@@ -298,7 +298,7 @@ export default function PushPage() {
         <div>
           <h1 style={{ fontSize: 22, fontWeight: 700, color: colors.text, margin: 0 }}>Push</h1>
           <p style={{ fontSize: 13, color: colors.textMuted, marginTop: 4 }}>
-            Deliver findings to Slack, email, or webhooks
+            Deliver findings to Slack, Microsoft Teams, email, or webhooks
           </p>
         </div>
         {activeTab === 'channels' && (
@@ -460,7 +460,7 @@ function ChannelsTab({ channels, onEdit, onDelete }: {
         <p style={{ fontSize: 32, marginBottom: 12 }}>📡</p>
         <p style={{ fontSize: 15, color: colors.textSecondary }}>No delivery channels yet</p>
         <p style={{ fontSize: 12, color: colors.textMuted, marginTop: 6 }}>
-          Add a Slack, email, or webhook channel to start receiving findings.
+          Add a Slack, Teams, email, or webhook channel to start receiving findings.
         </p>
       </div>
     );
@@ -505,7 +505,7 @@ function ChannelsTab({ channels, onEdit, onDelete }: {
               </div>
               <div style={{ fontSize: 11, color: colors.textMuted, marginTop: 4 }}>
                 Last used: {timeAgo(ch.last_used_at)}
-                {ch.channel_type === 'slack' && ch.config?.webhook_url && (
+                {(ch.channel_type === 'slack' || ch.channel_type === 'teams') && ch.config?.webhook_url && (
                   <span style={{ marginLeft: 8, fontFamily: fonts.mono, fontSize: 10, color: colors.textDim }}>
                     {ch.config.webhook_url.substring(0, 40)}…
                   </span>
@@ -539,7 +539,7 @@ function ChannelDrawer({ channel, onClose, onSaved, setToast, isMobile }: {
 }) {
   const isEdit = !!channel;
   const [step, setStep] = useState(isEdit ? 2 : 1);
-  const [channelType, setChannelType] = useState<'slack' | 'email' | 'webhook'>(channel?.channel_type || 'slack');
+  const [channelType, setChannelType] = useState<'slack' | 'teams' | 'email' | 'webhook'>(channel?.channel_type || 'slack');
   const [name, setName] = useState(channel?.name || '');
   const [webhookUrl, setWebhookUrl] = useState(channel?.config?.webhook_url || '');
   const [endpointUrl, setEndpointUrl] = useState(channel?.config?.endpoint_url || '');
@@ -561,14 +561,14 @@ function ChannelDrawer({ channel, onClose, onSaved, setToast, isMobile }: {
   }, [onClose]);
 
   const buildConfig = () => {
-    if (channelType === 'slack') return { webhook_url: webhookUrl };
+    if (channelType === 'slack' || channelType === 'teams') return { webhook_url: webhookUrl };
     if (channelType === 'email') return { recipients, from_name: fromName };
     return { endpoint_url: endpointUrl, ...(secret ? { secret } : {}) };
   };
 
   const canProceedStep2 = () => {
     if (!name.trim()) return false;
-    if (channelType === 'slack' && !webhookUrl.trim()) return false;
+    if ((channelType === 'slack' || channelType === 'teams') && !webhookUrl.trim()) return false;
     if (channelType === 'email' && recipients.length === 0) return false;
     if (channelType === 'webhook' && !endpointUrl.trim()) return false;
     return true;
@@ -647,10 +647,11 @@ function ChannelDrawer({ channel, onClose, onSaved, setToast, isMobile }: {
               <p style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 16 }}>
                 Select a channel type
               </p>
-              {(['slack', 'email', 'webhook'] as const).map(type => {
+              {(['slack', 'teams', 'email', 'webhook'] as const).map(type => {
                 const active = channelType === type;
                 const descriptions: Record<string, string> = {
                   slack: 'Send findings to a Slack channel via incoming webhook',
+                  teams: 'Post Adaptive Cards to a Teams channel via incoming webhook or Workflows',
                   email: 'Email digests to one or more recipients',
                   webhook: 'POST JSON payloads to any HTTP endpoint',
                 };
@@ -708,6 +709,21 @@ function ChannelDrawer({ channel, onClose, onSaved, setToast, isMobile }: {
                 </div>
               )}
 
+              {channelType === 'teams' && (
+                <div style={{ marginTop: 16 }}>
+                  <label style={{ fontSize: 12, color: colors.textSecondary, fontWeight: 600, marginBottom: 4, display: 'block' }}>
+                    Webhook URL
+                  </label>
+                  <input style={{ ...inputStyle, fontFamily: fonts.mono, fontSize: 12 }}
+                    value={webhookUrl}
+                    onChange={e => { setWebhookUrl(e.target.value); setConfigChanged(true); }}
+                    placeholder="https://yourorg.webhook.office.com/webhookb2/..." />
+                  <p style={{ fontSize: 11, color: colors.textMuted, marginTop: 4 }}>
+                    In Teams, add an Incoming Webhook (or a Workflows "post to a channel when a webhook request is received" flow) and paste its URL.
+                  </p>
+                </div>
+              )}
+
               {channelType === 'email' && (
                 <>
                   <div style={{ marginTop: 16 }}>
@@ -15,6 +15,7 @@ import { CRMSyncTab } from '../components/settings/CRMSyncTab';
 import NotificationsTab from '../components/settings/NotificationsTab';
 import SalesRosterTab from '../components/settings/SalesRosterTab';
 import WebhooksTab from '../components/settings/WebhooksTab';
+import ApiKeysTab from '../components/settings/ApiKeysTab';
 import SetupChecklistTab from '../components/settings/SetupChecklistTab';
 import DimensionBuilder from './DimensionBuilder';
 import TokenUsagePage from './admin/TokenUsagePage';
@@ -30,9 +31,9 @@ import PipelineValueTab from '../components/settings/PipelineValueTab';
 import CalibrationTab from '../components/settings/CalibrationTab';
 import ForwardDeployTab from '../components/settings/ForwardDeployTab';
 
-type SettingsTab = 'profile' | 'security' | 'preferences' | 'workspaces' | 'setup' | 'members' | 'sales-roster' | 'roles' | 'notifications' | 'features' | 'pipeline-config' | 'crm-sync' | 'deal-fields' | 'methodology' | 'automations' | 'agentic-actions' | 'webhooks' | 'billing' | 'dimensions' | 'segments' | 'token-usage' | 'ai-keys' | 'claude' | 'calibration' | 'connectors' | 'connectors-health' | 'forward-deploy';
+type SettingsTab = 'profile' | 'security' | 'preferences' | 'workspaces' | 'setup' | 'members' | 'sales-roster' | 'roles' | 'notifications' | 'features' | 'pipeline-config' | 'crm-sync' | 'deal-fields' | 'methodology' | 'automations' | 'agentic-actions' | 'webhooks' | 'api-keys' | 'billing' | 'dimensions' | 'segments' | 'token-usage' | 'ai-keys' | 'claude' | 'calibration' | 'connectors' | 'connectors-health' | 'forward-deploy';
 
-const adminTabs: SettingsTab[] = ['setup', 'members', 'sales-roster', 'roles', 'notifications', 'features', 'pipeline-config', 'crm-sync', 'deal-fields', 'methodology', 'automations', 'agentic-actions', 'webhooks', 'billing', 'dimensions', 'segments', 'token-usage', 'ai-keys', 'claude', 'calibration', 'connectors', 'connectors-health', 'forward-deploy'];
+const adminTabs: SettingsTab[] = ['setup', 'members', 'sales-roster', 'roles', 'notifications', 'features', 'pipeline-config', 'crm-sync', 'deal-fields', 'methodology', 'automations', 'agentic-actions', 'webhooks', 'api-keys', 'billing', 'dimensions', 'segments', 'token-usage', 'ai-keys', 'claude', 'calibration', 'connectors', 'connectors-health', 'forward-deploy'];
 
 export default function SettingsPage() {
   const { tab } = useParams<{ tab?: string }>();
@@ -64,7 +65,7 @@ export default function SettingsPage() {
   }, [tab, navigate]);
 
   const isValidTab = (tabKey: string): boolean => {
-    const validTabs: SettingsTab[] = ['profile', 'security', 'preferences', 'workspaces', 'setup', 'members', 'sales-roster', 'roles', 'notifications', 'features', 'pipeline-config', 'crm-sync', 'deal-fields', 'methodology', 'automations', 'agentic-actions', 'webhooks', 'billing', 'dimensions', 'segments', 'token-usage', 'ai-keys', 'claude', 'calibration', 'connectors', 'connectors-health', 'forward-deploy'];
+    const validTabs: SettingsTab[] = ['profile', 'security', 'preferences', 'workspaces', 'setup', 'members', 'sales-roster', 'roles', 'notifications', 'features', 'pipeline-config', 'crm-sync', 'deal-fields', 'methodology', 'automations', 'agentic-actions', 'webhooks', 'api-keys', 'billing', 'dimensions', 'segments', 'token-usage', 'ai-keys', 'claude', 'calibration', 'connectors', 'connectors-health', 'forward-deploy'];
     return validTabs.includes(tabKey as SettingsTab);
   };
 
@@ -113,6 +114,8 @@ export default function SettingsPage() {
         return isAdmin ? <AgenticActionsTab /> : null;
       case 'webhooks':
         return isAdmin ? <WebhooksTab /> : null;
+      case 'api-keys':
+        return isAdmin ? <ApiKeysTab /> : null;
       case 'billing':
         return isAdmin ? <BillingTab /> : null;
       case 'segments':
@@ -0,0 +1,38 @@
+-- Migration 220: Multi-currency deals and FX rate tables
+-- deals.amount is stored in the workspace reporting currency so every existing
+-- SUM(amount) stays correct; the CRM's native value is kept alongside it.
+-- Reporting currency lives in context_layer.definitions.workspace_config.currency
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS currency_code TEXT;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS amount_original NUMERIC;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+
+COMMENT ON COLUMN deals.amount IS 'Deal amount in the workspace reporting currency (converted from amount_original at fx_rate)';
+COMMENT ON COLUMN deals.currency_code IS 'ISO 4217 code of the CRM amount (HubSpot deal_currency_code, Salesforce CurrencyIsoCode, Pipedrive currency). NULL = reporting currency';
+COMMENT ON COLUMN deals.amount_original IS 'Deal amount as stored in the CRM, in currency_code';
+COMMENT ON COLUMN deals.fx_rate IS 'Reporting-currency units per unit of currency_code used for amount. NULL = no rate available, amount left unconverted';
+
+CREATE INDEX IF NOT EXISTS idx_deals_currency ON deals(workspace_id, currency_code) WHERE currency_code IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+
+  -- 1 unit of currency_code = rate units of base_currency, effective from rate_date
+  base_currency TEXT NOT NULL,
+  currency_code TEXT NOT NULL,
+  rate_date DATE NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (workspace_id, base_currency, currency_code, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_lookup ON fx_rates(workspace_id, currency_code, rate_date DESC);
+
+COMMENT ON TABLE fx_rates IS 'Dated FX rates per workspace (manual entry or CSV upload) used to convert deal amounts to the reporting currency';
+COMMENT ON COLUMN fx_rates.rate IS 'Units of base_currency per 1 unit of currency_code';
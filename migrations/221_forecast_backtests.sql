@@ -0,0 +1,28 @@
+-- Migration 221: Forecast backtests
+-- Replays reconstructed historical pipeline snapshots through Monte Carlo and the
+-- forecast-rollup methods (as of each snapshot date, no future data) and stores
+-- calibration against actual closed-won per quarter and segment.
+
+CREATE TABLE IF NOT EXISTS forecast_backtests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  params JSONB NOT NULL DEFAULT '{}',
+
+  -- One entry per quarter x segment x method: predicted quantiles vs actual
+  results JSONB NOT NULL DEFAULT '[]',
+  -- Calibration per segment x method: interval coverage, MAPE, pinball loss, bias
+  calibration JSONB NOT NULL DEFAULT '[]',
+  warnings JSONB NOT NULL DEFAULT '[]',
+
+  error TEXT,
+  triggered_by TEXT,
+  job_id UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_backtests_workspace ON forecast_backtests(workspace_id, created_at DESC);
+
+COMMENT ON TABLE forecast_backtests IS 'Forecast backtest runs: historical as-of replays of monte-carlo-forecast and forecast-rollup scored against actual closed-won';
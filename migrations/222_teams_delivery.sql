@@ -0,0 +1,13 @@
+-- Migration 222: Microsoft Teams delivery channel
+-- Teams is reached through an incoming webhook (classic connector or Workflows)
+-- posting Adaptive Cards. The workspace default webhook lives in
+-- workspaces.settings.teams_webhook_url; push channels, digests and report
+-- templates can point at their own webhook.
+
+ALTER TABLE delivery_channels DROP CONSTRAINT IF EXISTS delivery_channels_channel_type_check;
+ALTER TABLE delivery_channels ADD CONSTRAINT delivery_channels_channel_type_check
+  CHECK (channel_type IN ('slack', 'teams', 'email', 'webhook'));
+
+ALTER TABLE investigation_digest_subscriptions ADD COLUMN IF NOT EXISTS teams_webhook_url TEXT;
+
+COMMENT ON COLUMN investigation_digest_subscriptions.teams_webhook_url IS 'Microsoft Teams incoming webhook URL for the weekly digest card';
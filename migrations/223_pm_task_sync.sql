@@ -0,0 +1,32 @@
+-- Migration 223: Two-way PM task status sync
+-- Jira, Asana and Linear adapters report the ticket's state back to Pandora.
+-- When a ticket is closed the originating action is resolved; when the action
+-- is resolved in Pandora the ticket is closed. pm_task_references was only
+-- defined under server/migrations, so it is (re)declared here idempotently.
+
+CREATE TABLE IF NOT EXISTS pm_task_references (
+  id SERIAL PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  source_action_id TEXT NOT NULL,
+  connector_type TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP,
+  UNIQUE(workspace_id, source_action_id)
+);
+
+ALTER TABLE pm_task_references ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+  CHECK (status IN ('open', 'completed', 'canceled'));
+ALTER TABLE pm_task_references ADD COLUMN IF NOT EXISTS external_status TEXT;
+ALTER TABLE pm_task_references ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE pm_task_references ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ;
+ALTER TABLE pm_task_references ADD COLUMN IF NOT EXISTS sync_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_pm_task_references_open
+  ON pm_task_references(workspace_id, last_synced_at NULLS FIRST)
+  WHERE status = 'open';
+
+COMMENT ON COLUMN pm_task_references.status IS 'Normalized ticket state: open, completed, canceled';
+COMMENT ON COLUMN pm_task_references.external_status IS 'Tool-native status label at last sync (e.g. "Done", "In Review")';
+COMMENT ON COLUMN pm_task_references.last_synced_at IS 'When the ticket status was last read from the PM tool';
@@ -0,0 +1,82 @@
+-- Migration 224: SAML/OIDC single sign-on and SCIM provisioning
+-- An SSO connection belongs to the workspace whose admins configure it and can
+-- grant membership to additional workspaces of the same organization. Email
+-- domains are claimed by a connection once verified via a DNS TXT record;
+-- verified domains can enforce SSO (password login disabled).
+
+CREATE TABLE IF NOT EXISTS sso_connections (
+  id                           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id                 UUID NOT NULL UNIQUE REFERENCES workspaces(id) ON DELETE CASCADE,
+  name                         TEXT NOT NULL,
+  protocol                     TEXT NOT NULL CHECK (protocol IN ('oidc', 'saml')),
+  enabled                      BOOLEAN NOT NULL DEFAULT true,
+  enforce_sso                  BOOLEAN NOT NULL DEFAULT false,
+  jit_provisioning             BOOLEAN NOT NULL DEFAULT true,
+  default_role                 TEXT NOT NULL DEFAULT 'member',
+  role_mapping                 JSONB NOT NULL DEFAULT '{}',
+  workspace_ids                UUID[] NOT NULL DEFAULT '{}',
+
+  -- OIDC
+  oidc_issuer                  TEXT,
+  oidc_client_id               TEXT,
+  oidc_client_secret           TEXT,     -- encrypted with encryptCredentials()
+  oidc_groups_claim            TEXT NOT NULL DEFAULT 'groups',
+
+  -- SAML 2.0
+  saml_entry_point             TEXT,
+  saml_idp_issuer              TEXT,
+  saml_idp_cert                TEXT,
+  saml_groups_attribute        TEXT NOT NULL DEFAULT 'groups',
+
+  -- SCIM 2.0
+  scim_token_hash              TEXT UNIQUE,
+  scim_token_created_at        TIMESTAMPTZ,
+
+  created_by                   UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at                   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at                   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sso_domains (
+  domain                       TEXT PRIMARY KEY,
+  connection_id                UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+  verification_token           TEXT NOT NULL,
+  verified_at                  TIMESTAMPTZ,
+  created_at                   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_domains_connection ON sso_domains(connection_id);
+
+-- Links an IdP subject (OIDC sub, SAML NameID, SCIM externalId) to a Pandora user
+CREATE TABLE IF NOT EXISTS sso_identities (
+  id                           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id                UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+  user_id                      UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  subject                      TEXT NOT NULL,
+  external_id                  TEXT,
+  active                       BOOLEAN NOT NULL DEFAULT true,
+  provisioned_by               TEXT NOT NULL DEFAULT 'jit' CHECK (provisioned_by IN ('jit', 'scim')),
+  last_login_at                TIMESTAMPTZ,
+  created_at                   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at                   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (connection_id, subject),
+  UNIQUE (connection_id, user_id)
+);
+
+-- Pending login requests: OIDC state/nonce/PKCE verifier and SAML AuthnRequest IDs
+CREATE TABLE IF NOT EXISTS sso_auth_requests (
+  id                           TEXT PRIMARY KEY,
+  connection_id                UUID NOT NULL REFERENCES sso_connections(id) ON DELETE CASCADE,
+  nonce                        TEXT,
+  code_verifier                TEXT,
+  return_to                    TEXT,
+  created_at                   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at                   TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '10 minutes'
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_auth_requests_expires ON sso_auth_requests(expires_at);
+
+COMMENT ON TABLE sso_connections IS 'Per-organization OIDC/SAML identity provider configuration and SCIM credentials';
+COMMENT ON COLUMN sso_connections.role_mapping IS 'IdP group or SCIM role value -> system role (admin, manager, analyst, member, viewer)';
+COMMENT ON COLUMN sso_connections.workspace_ids IS 'Additional workspaces SSO users are provisioned into, besides workspace_id';
+COMMENT ON COLUMN sso_domains.verification_token IS 'Expected in a DNS TXT record: pandora-verification=<token>';
@@ -0,0 +1,46 @@
+-- Migration 225: Semantic search index
+-- Chunked text from call transcripts, documents, findings and workspace
+-- memory with a keyword (tsvector) and an embedding (pgvector) representation,
+-- so chat can rank by BM25-style keyword match and by meaning together.
+-- The embedding column is untyped because the dimension depends on the
+-- workspace's embedding model; HNSW indexes are partial per dimension.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS search_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('conversation', 'document', 'finding', 'memory')),
+  source_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  embedding VECTOR,
+  embedding_model TEXT,
+  embedding_dims INTEGER,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(workspace_id, source_type, source_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_chunks_tsv ON search_chunks USING GIN (tsv);
+CREATE INDEX IF NOT EXISTS idx_search_chunks_source ON search_chunks(workspace_id, source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_search_chunks_pending
+  ON search_chunks(workspace_id)
+  WHERE embedding IS NULL;
+
+-- Common embedding sizes: nomic/gte-base (768), bge-large/mxbai (1024), OpenAI 3-small (1536)
+CREATE INDEX IF NOT EXISTS idx_search_chunks_embedding_768
+  ON search_chunks USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+  WHERE embedding_dims = 768;
+CREATE INDEX IF NOT EXISTS idx_search_chunks_embedding_1024
+  ON search_chunks USING hnsw ((embedding::vector(1024)) vector_cosine_ops)
+  WHERE embedding_dims = 1024;
+CREATE INDEX IF NOT EXISTS idx_search_chunks_embedding_1536
+  ON search_chunks USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_dims = 1536;
+
+COMMENT ON COLUMN search_chunks.content_hash IS 'md5 of content; unchanged chunks keep their embedding on re-index';
+COMMENT ON COLUMN search_chunks.metadata IS 'Citation fields: title, date, url, speakers, deal_id, account_id';
+COMMENT ON COLUMN search_chunks.embedding_model IS 'provider/model that produced the embedding; chunks from another model are re-embedded';
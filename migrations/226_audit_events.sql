@@ -0,0 +1,84 @@
+-- Migration 226: Unified, append-only workspace audit log
+-- audit_log (migration 152) only held impersonation events. It becomes the
+-- single audit stream for auth, membership, config, governance, CRM writes,
+-- SQL workspace queries, exports and impersonation.
+--
+-- Rows are immutable: UPDATE and TRUNCATE are rejected, and DELETE is only
+-- allowed for the retention purge (which sets pandora.audit_purge) or when
+-- the whole workspace is being deleted. Actor and target are denormalized so
+-- deleting a user never rewrites history, hence the user FKs are dropped.
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_actor_id_fkey;
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_target_id_fkey;
+ALTER TABLE audit_log ALTER COLUMN actor_id DROP NOT NULL;
+
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS actor_email TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS actor_type TEXT NOT NULL DEFAULT 'user'
+  CHECK (actor_type IN ('user', 'api_key', 'system', 'scim'));
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS category TEXT GENERATED ALWAYS AS (split_part(action, '.', 1)) STORED;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS resource_type TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS resource_id TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS outcome TEXT NOT NULL DEFAULT 'success'
+  CHECK (outcome IN ('success', 'failure', 'denied'));
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS ip_address TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS user_agent TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_category
+  ON audit_log (workspace_id, category, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_resource
+  ON audit_log (workspace_id, resource_type, resource_id);
+
+CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF current_setting('pandora.audit_purge', true) = 'on'
+       OR NOT EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id) THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+  RAISE EXCEPTION 'audit_log is append-only: % is not allowed', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_no_update ON audit_log;
+CREATE TRIGGER audit_log_no_update
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+
+-- Every CRM write-back (skills, actions, workflow rules, manual pushes) lands
+-- in crm_write_log from many call sites; mirror each one into the audit stream.
+CREATE OR REPLACE FUNCTION crm_write_log_audit() RETURNS trigger AS $$
+DECLARE
+  row_json JSONB := to_jsonb(NEW);
+BEGIN
+  INSERT INTO audit_log (workspace_id, actor_id, actor_type, action, resource_type, resource_id, outcome, metadata)
+  VALUES (
+    NEW.workspace_id,
+    NULL,
+    'system',
+    'crm_write.executed',
+    'crm_write_log',
+    NEW.id::text,
+    CASE WHEN row_json->>'status' = 'failed' OR row_json->>'success' = 'false' THEN 'failure' ELSE 'success' END,
+    row_json - 'id' - 'workspace_id' - 'response'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS crm_write_log_audit ON crm_write_log;
+CREATE TRIGGER crm_write_log_audit
+  AFTER INSERT ON crm_write_log
+  FOR EACH ROW EXECUTE FUNCTION crm_write_log_audit();
+
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS audit_retention_days INTEGER NOT NULL DEFAULT 365
+  CHECK (audit_retention_days >= 90);
+
+COMMENT ON COLUMN audit_log.action IS 'Dotted event name, e.g. member.role_changed, crm_write.reversed; category is the first segment';
+COMMENT ON COLUMN audit_log.actor_type IS 'user (session), api_key, system (scheduler, skills) or scim (IdP provisioning)';
+COMMENT ON COLUMN workspaces.audit_retention_days IS 'Audit events older than this are purged nightly (minimum 90 days)';
@@ -0,0 +1,12 @@
+-- Migration 227: Per-workspace PII policy for LLM calls
+-- Read by llm/pii-scrubber.ts. Shape:
+--   { "enabled": bool,        -- scrub prompts before provider calls (default false)
+--     "emails": bool, "phones": bool, "names": bool,   -- detectors (default true)
+--     "customFields": ["ssn", ...],                   -- custom_fields keys treated as PII
+--     "scrubLocal": bool }    -- also scrub calls to the workspace's local provider
+-- Training pairs and mcp_calls are stored scrubbed with the enabled detectors
+-- regardless of "enabled".
+
+ALTER TABLE llm_configs ADD COLUMN IF NOT EXISTS pii_policy JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN llm_configs.pii_policy IS 'PII scrubbing policy: enabled, emails, phones, names, customFields, scrubLocal';
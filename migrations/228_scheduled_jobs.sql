@@ -0,0 +1,53 @@
+-- Migration 228: Cluster-safe scheduled jobs
+-- Used by scheduling/cluster-scheduler.ts. Every replica runs the same cron
+-- timers; a fire only executes on the replica whose INSERT into
+-- scheduled_job_runs wins the (job_key, fire_time) unique constraint.
+--
+-- scheduled_jobs has one row per job with its next and last fire, so any
+-- replica can report schedule state and detect fires missed while no replica
+-- was running. workspace_id is NULL for global (cross-workspace) jobs.
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  job_key          TEXT PRIMARY KEY,
+  workspace_id     UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+  cron             TEXT NOT NULL,
+  timezone         TEXT NOT NULL DEFAULT 'UTC',
+  catch_up         TEXT NOT NULL DEFAULT 'skip' CHECK (catch_up IN ('skip', 'run_once')),
+  description      TEXT,
+  active           BOOLEAN NOT NULL DEFAULT true,
+  next_fire_at     TIMESTAMPTZ,
+  last_fire_at     TIMESTAMPTZ,
+  last_status      TEXT,
+  last_error       TEXT,
+  last_duration_ms INTEGER,
+  registered_by    TEXT,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_workspace
+  ON scheduled_jobs (workspace_id) WHERE active = true;
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  id               BIGSERIAL PRIMARY KEY,
+  job_key          TEXT NOT NULL,
+  workspace_id     UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+  fire_time        TIMESTAMPTZ NOT NULL,
+  reason           TEXT NOT NULL DEFAULT 'scheduled' CHECK (reason IN ('scheduled', 'catch_up')),
+  status           TEXT NOT NULL
+    CHECK (status IN ('running', 'succeeded', 'failed', 'missed', 'abandoned')),
+  owner            TEXT,
+  started_at       TIMESTAMPTZ,
+  finished_at      TIMESTAMPTZ,
+  lease_expires_at TIMESTAMPTZ,
+  error            TEXT,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (job_key, fire_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_running
+  ON scheduled_job_runs (lease_expires_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_created
+  ON scheduled_job_runs (created_at);
+
+COMMENT ON TABLE scheduled_job_runs IS 'One row per claimed or missed fire; the unique key makes each fire run on exactly one replica';
@@ -0,0 +1,34 @@
+-- Migration 229: Skill run record/replay
+-- skill_run_recordings holds the tape of a recorded run (business context,
+-- compute step outputs, LLM request hashes + responses, tool results) and of
+-- every replay of it. Replays never write skill_runs; their output, replay
+-- summary and diff against the source run live here. Used by
+-- skills/run-recording.ts.
+
+CREATE TABLE IF NOT EXISTS skill_run_recordings (
+  run_id         UUID PRIMARY KEY,
+  workspace_id   UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  skill_id       TEXT NOT NULL,
+  mode           TEXT NOT NULL CHECK (mode IN ('record', 'replay')),
+  source_run_id  UUID,
+  status         TEXT,
+  recording      JSONB NOT NULL,
+  output         JSONB,
+  summary        JSONB,
+  diff           JSONB,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_run_recordings_skill
+  ON skill_run_recordings (workspace_id, skill_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_skill_run_recordings_source
+  ON skill_run_recordings (source_run_id) WHERE source_run_id IS NOT NULL;
+
+-- Per-workspace opt-in for recording scheduled runs of a skill
+CREATE TABLE IF NOT EXISTS skill_recording_settings (
+  workspace_id      UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  skill_id          TEXT NOT NULL,
+  record_scheduled  BOOLEAN NOT NULL DEFAULT false,
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, skill_id)
+);
@@ -0,0 +1,26 @@
+-- Migration 230: Deal field-change and time-based workflow triggers
+-- New trigger types, read by workflow/deal-triggers.ts. trigger_config shapes:
+--   deal_field_changed: { "fields": ["amount", "close_date"] }        -- deal columns
+--   stage_entered / stage_exited: { "stages": ["negotiation"] }       -- normalized or raw stage names; empty = any
+--   no_activity: { "days": 14, "schedule": "0 8 * * *", "timezone": "UTC" }
+--   scheduled: { "schedule": "0 9 * * 1", "timezone": "America/New_York" }
+
+ALTER TABLE workflow_rules DROP CONSTRAINT IF EXISTS workflow_rules_trigger_type_check;
+ALTER TABLE workflow_rules ADD CONSTRAINT workflow_rules_trigger_type_check CHECK (trigger_type IN (
+  'skill_run', 'finding_created', 'agent_run', 'crm_sync', 'manual',
+  'deal_field_changed', 'stage_entered', 'stage_exited', 'no_activity', 'scheduled'
+));
+
+ALTER TABLE workflow_rules ADD COLUMN IF NOT EXISTS trigger_config JSONB NOT NULL DEFAULT '{}';
+
+-- One row per (rule, deal, triggering event) so a change detected twice, or a
+-- deal that stays quiet across several no_activity sweeps, fires only once.
+CREATE TABLE IF NOT EXISTS workflow_rule_firings (
+  workflow_rule_id UUID NOT NULL REFERENCES workflow_rules(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  event_key TEXT NOT NULL,   -- e.g. 'amount@2026-03-05T10:28:41.000Z', 'no_activity@<last activity>'
+  fired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workflow_rule_id, deal_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_rule_firings_fired ON workflow_rule_firings(fired_at);
@@ -0,0 +1,54 @@
+-- Migration 231: Territory model and account assignment
+-- Territories form a tree per workspace. Each carries a rule set over account
+-- fields, read by territories/resolver.ts:
+--   { "match": "all" | "any",
+--     "conditions": [ { "field": "country", "op": "in", "value": ["US", "CA"] },
+--                     { "field": "employee_count", "op": "between", "value": [200, 1000] },
+--                     { "field": "domain", "op": "in", "value": ["acme.com", "globex.com"] } ] }
+-- An empty rule set matches every account (catch-all). Accounts resolve to the
+-- deepest matching territory; siblings are tried in priority order.
+
+CREATE TABLE IF NOT EXISTS territories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES territories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  rules JSONB NOT NULL DEFAULT '{}',
+  priority INTEGER NOT NULL DEFAULT 100,   -- lower is tried first among siblings
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_territories_workspace ON territories(workspace_id, parent_id);
+
+-- Reps working a territory. rep_name matches deals.owner / rep_quotas.rep_name.
+CREATE TABLE IF NOT EXISTS territory_reps (
+  territory_id UUID NOT NULL REFERENCES territories(id) ON DELETE CASCADE,
+  rep_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'owner' CHECK (role IN ('owner', 'overlay')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (territory_id, rep_name)
+);
+
+-- Territory quota per quota period
+CREATE TABLE IF NOT EXISTS territory_quotas (
+  territory_id UUID NOT NULL REFERENCES territories(id) ON DELETE CASCADE,
+  period_id UUID NOT NULL REFERENCES quota_periods(id) ON DELETE CASCADE,
+  quota_amount NUMERIC(15,2) NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (territory_id, period_id)
+);
+
+-- Resolved territory per account. source = 'manual' pins the assignment so
+-- rule resolution after sync leaves it alone.
+CREATE TABLE IF NOT EXISTS account_territories (
+  account_id UUID PRIMARY KEY REFERENCES accounts(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  territory_id UUID REFERENCES territories(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'rule' CHECK (source IN ('rule', 'manual')),
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_territories_territory ON account_territories(workspace_id, territory_id);
@@ -0,0 +1,37 @@
+-- Migration 232: Deal splits and revenue crediting
+-- Splits come from Salesforce OpportunitySplit, HubSpot deal collaborators, or
+-- the quota importer. `rep` uses the same identity format as deals.owner for
+-- the source (Salesforce: owner email, else name; HubSpot: owner name), so
+-- credited rows group with owner-based queries.
+
+CREATE TABLE IF NOT EXISTS deal_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  rep TEXT NOT NULL,
+  rep_email TEXT,
+  split_type TEXT NOT NULL CHECK (split_type IN ('revenue', 'overlay')),
+  split_percent NUMERIC(6,2) NOT NULL CHECK (split_percent > 0 AND split_percent <= 100),
+  source TEXT NOT NULL CHECK (source IN ('salesforce', 'hubspot', 'upload', 'manual')),
+  source_ref TEXT,            -- OpportunitySplit Id, HubSpot owner id, upload batch id
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (deal_id, rep, split_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_splits_workspace_rep ON deal_splits(workspace_id, LOWER(rep));
+
+-- One credit line per (deal, rep, split type). Deals without revenue splits
+-- credit 100% revenue to the deal owner; overlay splits are always additive.
+CREATE OR REPLACE VIEW deal_credits AS
+SELECT s.workspace_id, s.deal_id, s.rep, s.rep_email, s.split_type, s.split_percent, s.source
+FROM deal_splits s
+UNION ALL
+SELECT d.workspace_id, d.id, d.owner, d.owner_email, 'revenue', 100.00::numeric(6,2), 'owner'
+FROM deals d
+WHERE d.owner IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM deal_splits s WHERE s.deal_id = d.id AND s.split_type = 'revenue'
+  );
+
+COMMENT ON VIEW deal_credits IS 'Revenue and overlay credit lines per deal; owner gets 100% revenue when no revenue splits exist';
@@ -0,0 +1,43 @@
+-- Migration 233: Products and deal line items
+-- Synced from HubSpot (products, line_items) and Salesforce (Product2,
+-- OpportunityLineItem). Line items keep name/sku even without a product
+-- match so ad-hoc line items still roll up by name.
+
+CREATE TABLE IF NOT EXISTS products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sku TEXT,
+  family TEXT,
+  unit_price NUMERIC,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  source_data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (workspace_id, source, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS deal_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sku TEXT,
+  quantity NUMERIC NOT NULL DEFAULT 1,
+  unit_price NUMERIC,
+  list_price NUMERIC,
+  discount_percent NUMERIC,     -- 0–100
+  amount NUMERIC NOT NULL DEFAULT 0,  -- net line total after discount
+  source_data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (workspace_id, source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_line_items_deal ON deal_line_items(deal_id);
+CREATE INDEX IF NOT EXISTS idx_deal_line_items_product ON deal_line_items(workspace_id, product_id);
@@ -0,0 +1,14 @@
+-- Migration 234: Microsoft 365 (Outlook) calendar and email metadata
+-- Outlook events share calendar_events with Google Calendar; google_event_id
+-- holds the provider's event id and `source` tells the two apart.
+-- Email metadata (no bodies) is stored in activities with source 'microsoft-365'.
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'google';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_source
+  ON calendar_events(workspace_id, source);
+
+-- Email linker scans unlinked Outlook emails on every sync
+CREATE INDEX IF NOT EXISTS idx_activities_unlinked_m365_email
+  ON activities(workspace_id, timestamp)
+  WHERE source = 'microsoft-365' AND contact_id IS NULL;
@@ -0,0 +1,187 @@
+-- Migration 235: Data subject requests (GDPR/CCPA export and erasure)
+-- A DSR locates every record referencing a person, exports them as a JSON
+-- bundle or erases/pseudonymizes them, and leaves a suppression so later
+-- syncs don't bring the person back.
+--
+-- The subject's email is never stored: requests and suppressions hold the
+-- SHA-256 of the lowercased address. Contacts, activities and conversations
+-- are written by many sync paths, so suppression is enforced by triggers
+-- rather than in each connector. Erasure sets pandora.dsr_erasure for its
+-- transaction to bypass them.
+
+CREATE TABLE IF NOT EXISTS data_subject_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  request_type TEXT NOT NULL CHECK (request_type IN ('export', 'erasure')),
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'completed', 'failed')),
+  subject_email_hash TEXT NOT NULL,
+  subject_label TEXT NOT NULL,              -- masked email, e.g. j***@acme.com
+  pseudonym TEXT,                           -- replacement text used by erasure
+  requested_by UUID,
+  requested_by_email TEXT,
+  report JSONB,                             -- per-store matched/affected/remaining counts
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_dsr_workspace
+  ON data_subject_requests (workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dsr_subject
+  ON data_subject_requests (workspace_id, subject_email_hash);
+
+CREATE TABLE IF NOT EXISTS dsr_suppressions (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email_hash TEXT NOT NULL,
+  request_id UUID REFERENCES data_subject_requests(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, email_hash)
+);
+
+-- Rows erased by a DSR keep their personal fields on re-sync
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS dsr_redacted_at TIMESTAMPTZ;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS dsr_redacted_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION dsr_email_hash(email TEXT) RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(lower(trim(email)), 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION dsr_is_suppressed(ws UUID, email TEXT) RETURNS BOOLEAN AS $$
+  SELECT email IS NOT NULL AND EXISTS (
+    SELECT 1 FROM dsr_suppressions WHERE workspace_id = ws AND email_hash = dsr_email_hash(email)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Case-insensitive replacement of each regex pattern; JSONB callers pass
+-- col::text and cast the result back
+CREATE OR REPLACE FUNCTION dsr_redact(input TEXT, patterns TEXT[], replacement TEXT) RETURNS TEXT AS $$
+DECLARE
+  result TEXT := input;
+  pattern TEXT;
+BEGIN
+  IF input IS NULL THEN
+    RETURN NULL;
+  END IF;
+  FOREACH pattern IN ARRAY patterns LOOP
+    result := regexp_replace(result, pattern, replacement, 'gi');
+  END LOOP;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Contacts: suppressed emails are never written, and re-syncs of a
+-- pseudonymized row keep its redacted personal fields
+CREATE OR REPLACE FUNCTION contacts_dsr_suppress() RETURNS trigger AS $$
+BEGIN
+  IF current_setting('pandora.dsr_erasure', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.dsr_redacted_at IS NOT NULL THEN
+    NEW.email := OLD.email;
+    NEW.first_name := OLD.first_name;
+    NEW.last_name := OLD.last_name;
+    NEW.title := OLD.title;
+    NEW.phone := OLD.phone;
+    NEW.source_data := OLD.source_data;
+    NEW.custom_fields := OLD.custom_fields;
+    NEW.dsr_redacted_at := OLD.dsr_redacted_at;
+    RETURN NEW;
+  END IF;
+  IF dsr_is_suppressed(NEW.workspace_id, NEW.email) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS contacts_dsr_suppress ON contacts;
+CREATE TRIGGER contacts_dsr_suppress
+  BEFORE INSERT OR UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION contacts_dsr_suppress();
+
+-- Activities: skip any activity tied to an erased contact or naming a
+-- suppressed email in its actor or source payload (email headers, invitees)
+CREATE OR REPLACE FUNCTION activities_dsr_suppress() RETURNS trigger AS $$
+BEGIN
+  IF current_setting('pandora.dsr_erasure', true) = 'on'
+     OR NOT EXISTS (SELECT 1 FROM dsr_suppressions WHERE workspace_id = NEW.workspace_id) THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.contact_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM contacts WHERE id = NEW.contact_id AND dsr_redacted_at IS NOT NULL) THEN
+    RETURN NULL;
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM regexp_matches(
+      COALESCE(NEW.actor, '') || ' ' || COALESCE(NEW.source_data::text, ''),
+      '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}', 'g'
+    ) AS m(parts)
+    WHERE dsr_is_suppressed(NEW.workspace_id, m.parts[1])
+  ) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS activities_dsr_suppress ON activities;
+CREATE TRIGGER activities_dsr_suppress
+  BEFORE INSERT OR UPDATE ON activities
+  FOR EACH ROW EXECUTE FUNCTION activities_dsr_suppress();
+
+-- Conversations: the call is kept for deal context, but a suppressed
+-- participant is replaced and the transcript, summary and speaker data are
+-- dropped. Previously erased calls keep their redacted content on re-sync.
+CREATE OR REPLACE FUNCTION conversations_dsr_suppress() RETURNS trigger AS $$
+BEGIN
+  IF current_setting('pandora.dsr_erasure', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.dsr_redacted_at IS NOT NULL THEN
+    NEW.participants := OLD.participants;
+    NEW.transcript_text := OLD.transcript_text;
+    NEW.summary := OLD.summary;
+    NEW.title := OLD.title;
+    NEW.source_data := OLD.source_data;
+    NEW.action_items := OLD.action_items;
+    NEW.dsr_redacted_at := OLD.dsr_redacted_at;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.participants) <> 'array'
+     OR NOT EXISTS (SELECT 1 FROM dsr_suppressions WHERE workspace_id = NEW.workspace_id)
+     OR NOT EXISTS (
+       SELECT 1 FROM jsonb_array_elements(NEW.participants) p
+       WHERE dsr_is_suppressed(NEW.workspace_id, p->>'email')
+     ) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.participants := (
+    SELECT jsonb_agg(
+      CASE WHEN dsr_is_suppressed(NEW.workspace_id, p->>'email')
+        THEN jsonb_build_object('name', 'Redacted', 'email', NULL, 'affiliation', p->'affiliation', 'redacted', true)
+        ELSE p
+      END
+    )
+    FROM jsonb_array_elements(NEW.participants) p
+  );
+  NEW.transcript_text := NULL;
+  NEW.summary := NULL;
+  NEW.action_items := '[]'::jsonb;
+  NEW.source_data := NEW.source_data - 'sentences' - 'parties' - 'participants' - 'attendees' - 'speakers' - 'transcript';
+  NEW.dsr_redacted_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS conversations_dsr_suppress ON conversations;
+CREATE TRIGGER conversations_dsr_suppress
+  BEFORE INSERT OR UPDATE ON conversations
+  FOR EACH ROW EXECUTE FUNCTION conversations_dsr_suppress();
+
+COMMENT ON TABLE data_subject_requests IS 'GDPR/CCPA export and erasure requests with their verification report';
+COMMENT ON TABLE dsr_suppressions IS 'Hashed emails of erased data subjects; enforced on contacts, activities and conversations by triggers';
@@ -0,0 +1,33 @@
+-- Migration 236: Scoped, rotatable workspace API keys
+-- Many named keys per workspace, each limited to a set of PermissionSet
+-- scopes, with optional IP allowlist, expiry and per-key rate limit.
+--
+-- Only the SHA-256 of a key is stored; the plaintext is shown once at
+-- creation. Rotation issues a successor with the same settings and shortens
+-- the old key's expiry to a grace window so consumers can move over.
+-- The legacy workspaces.api_key keeps its full-access behaviour.
+
+CREATE TABLE IF NOT EXISTS workspace_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,                 -- first characters, for display
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',      -- PermissionSet keys, e.g. data.deals_view
+  ip_allowlist TEXT[] NOT NULL DEFAULT '{}', -- IPs or CIDRs; empty = any
+  rate_limit_per_minute INTEGER CHECK (rate_limit_per_minute IS NULL OR rate_limit_per_minute > 0),
+  expires_at TIMESTAMPTZ,
+  rotated_from UUID REFERENCES workspace_api_keys(id) ON DELETE SET NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  last_used_ip TEXT,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_api_keys_workspace
+  ON workspace_api_keys (workspace_id, created_at DESC);
+
+COMMENT ON TABLE workspace_api_keys IS 'Scoped workspace API keys; plaintext is never stored';
+COMMENT ON COLUMN workspace_api_keys.rotated_from IS 'Key this one replaced; the old key stays valid until its expires_at';
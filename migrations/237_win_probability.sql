@@ -0,0 +1,30 @@
+-- Migration 237: Trained win-probability model
+-- A per-workspace logistic regression fit on snapshots of historical closed
+-- deals, with cross-validated AUC and a calibration curve. Every training
+-- run is kept; the latest row is the one in use. When there are too few
+-- closed deals the run is stored as insufficient_data and deal scoring falls
+-- back to the weighted ai_score.
+
+CREATE TABLE IF NOT EXISTS win_probability_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('active', 'insufficient_data')),
+  reason TEXT,                              -- why training was skipped
+  closed_deals INTEGER NOT NULL DEFAULT 0,
+  won_deals INTEGER NOT NULL DEFAULT 0,
+  lost_deals INTEGER NOT NULL DEFAULT 0,
+  samples INTEGER NOT NULL DEFAULT 0,       -- deal snapshots used for training
+  cv_auc NUMERIC,
+  brier NUMERIC,
+  calibration_curve JSONB,                  -- reliability bins from out-of-fold predictions
+  model JSONB,                              -- features, standardization, weights, Platt scaling
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_win_probability_models_workspace
+  ON win_probability_models (workspace_id, trained_at DESC);
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS win_probability NUMERIC;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS win_probability_method TEXT; -- 'model' | 'weighted_score'
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS win_probability_drivers JSONB;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS win_probability_updated_at TIMESTAMPTZ;
@@ -0,0 +1,26 @@
+-- Migration 238: Customer health scores
+-- Written by the customer-health skill: one row per customer account per
+-- run. Health combines engagement recency, conversation sentiment, open
+-- support/PM tickets and stakeholder turnover; renewal_probability is the
+-- health-adjusted chance the next renewal closes, read by the Monte Carlo
+-- renewal component. accounts.health_score is the ICP account score and is
+-- left untouched.
+
+CREATE TABLE IF NOT EXISTS customer_health_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('healthy', 'watch', 'at_risk', 'critical')),
+  dimensions JSONB NOT NULL DEFAULT '{}',   -- per-dimension score, null when no signal
+  drivers JSONB NOT NULL DEFAULT '[]',      -- what pulled the score down, worst first
+  arr NUMERIC,
+  renewal_date DATE,
+  renewal_date_source TEXT,                 -- renewal_deal | custom_field | assumed_annual
+  renewal_deal_id UUID REFERENCES deals(id) ON DELETE SET NULL,
+  renewal_probability NUMERIC,
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_health_scores_account
+  ON customer_health_scores (workspace_id, account_id, scored_at DESC);
@@ -0,0 +1,58 @@
+-- Migration 239: DSR suppression for calendar events
+-- Calendar syncs (Google, Outlook) upsert attendee lists verbatim, so an
+-- erased subject would come back on the next sync. The trigger replaces a
+-- suppressed attendee with a redacted entry, drops a suppressed organizer or
+-- creator email, and keeps the redacted title/description of events a DSR
+-- erasure already rewrote. Erasure sets pandora.dsr_erasure to bypass it.
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS dsr_redacted_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION calendar_events_dsr_suppress() RETURNS trigger AS $$
+BEGIN
+  IF current_setting('pandora.dsr_erasure', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.dsr_redacted_at IS NOT NULL THEN
+    NEW.title := OLD.title;
+    NEW.description := OLD.description;
+    NEW.location := OLD.location;
+    NEW.dsr_redacted_at := OLD.dsr_redacted_at;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM dsr_suppressions WHERE workspace_id = NEW.workspace_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF dsr_is_suppressed(NEW.workspace_id, NEW.organizer_email) THEN
+    NEW.organizer_email := NULL;
+  END IF;
+  IF dsr_is_suppressed(NEW.workspace_id, NEW.creator_email) THEN
+    NEW.creator_email := NULL;
+  END IF;
+
+  IF jsonb_typeof(NEW.attendees) = 'array' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.attendees) a
+    WHERE dsr_is_suppressed(NEW.workspace_id, a->>'email')
+  ) THEN
+    NEW.attendees := (
+      SELECT jsonb_agg(
+        CASE WHEN dsr_is_suppressed(NEW.workspace_id, a->>'email')
+          THEN jsonb_build_object('email', NULL, 'displayName', 'Redacted', 'responseStatus', a->'responseStatus', 'redacted', true)
+          ELSE a
+        END
+      )
+      FROM jsonb_array_elements(NEW.attendees) a
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS calendar_events_dsr_suppress ON calendar_events;
+CREATE TRIGGER calendar_events_dsr_suppress
+  BEFORE INSERT OR UPDATE ON calendar_events
+  FOR EACH ROW EXECUTE FUNCTION calendar_events_dsr_suppress();
+
+COMMENT ON TABLE dsr_suppressions IS 'Hashed emails of erased data subjects; enforced on contacts, activities, conversations and calendar events by triggers';
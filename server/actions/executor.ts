@@ -156,6 +156,9 @@ export async function executeAction(
     import('../webhooks/action-events.js')
       .then(m => m.emitActionCompletedEvent(workspaceId, action, actor))
       .catch(() => {});
+    import('../services/pm-task-service.js')
+      .then(m => m.closePMTaskForAction(workspaceId, actionId))
+      .catch(() => {});
   } else {
     // Partial failure — log results but keep action open/in_progress
     await db.query(`
@@ -6,6 +6,7 @@
  */
 
 import type { Pool } from 'pg';
+import { isOpsAction, type ActionType } from './types.js';
 
 export interface ExtractedAction {
   action_type: string;
@@ -108,6 +109,18 @@ export async function insertExtractedActions(
             AND target_deal_id = $3
             AND execution_status = 'open'
         `, [workspaceId, skillId, dealId]);
+      } else if (accountId) {
+        await db.query(`
+          UPDATE actions
+          SET execution_status = 'superseded',
+              dismissed_reason = 'superseded',
+              updated_at = now()
+          WHERE workspace_id = $1
+            AND source_skill = $2
+            AND target_account_id = $3
+            AND target_deal_id IS NULL
+            AND execution_status = 'open'
+        `, [workspaceId, skillId, accountId]);
       }
 
       const metadata: Record<string, any> = {};
@@ -147,6 +160,14 @@ export async function insertExtractedActions(
         VALUES ($1, $2, 'created', 'system', 'open')
       `, [workspaceId, result.rows[0].id]);
 
+      // Ops actions also land in the workspace's PM tool (Jira, Asana, Linear, Monday)
+      if (isOpsAction(action.action_type as ActionType)) {
+        const actionId = result.rows[0].id;
+        import('../services/pm-task-service.js')
+          .then(m => m.pushOpsActionToPM(workspaceId, actionId))
+          .catch(err => console.warn(`[Actions Extractor] PM task push failed for ${actionId}:`, err));
+      }
+
       inserted++;
     } catch (err) {
       console.error(`[Actions Extractor] Failed to insert action "${action.title}":`, err);
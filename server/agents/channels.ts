@@ -3,6 +3,7 @@
  *
  * Delivers agent outputs to various channels:
  * - Slack messages + file attachments
+ * - Microsoft Teams Adaptive Cards (incoming webhook)
  * - Workspace downloads (persistent files)
  * - Command Center findings extraction
  * - Email (stub for future)
@@ -12,6 +13,7 @@ import { randomUUID } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { query } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
 import type { AgentRunResult, SkillOutput } from './types.js';
 import type { SkillEvidence } from '../skills/types.js';
 import {
@@ -32,8 +34,10 @@ import {
 } from '../connectors/slack/client.js';
 import { getSlackAppClient } from '../connectors/slack/slack-app-client.js';
 import { formatAgentWithEvidence } from '../skills/formatters/slack-formatter.js';
+import { formatAgentTeamsCard } from '../skills/formatters/teams-formatter.js';
+import { getTeamsWebhook, postCardToTeams } from '../connectors/teams/client.js';
 
-export type DeliveryChannel = 'slack' | 'download' | 'command_center' | 'email';
+export type DeliveryChannel = 'slack' | 'teams' | 'download' | 'command_center' | 'email';
 
 export interface DeliveryResult {
   channel: DeliveryChannel;
@@ -52,6 +56,7 @@ export interface ChannelDeliveryOptions {
   channels: DeliveryChannel[];
   formats?: ('xlsx' | 'pdf' | 'slack_blocks' | 'command_center')[]; // For download channel
   slack_channel?: string; // Override default channel
+  teams_webhook_url?: string; // Override workspace Teams webhook
   download_ttl_hours?: number; // File expiry time (null = permanent)
   extract_findings?: boolean; // Extract findings to findings table
 }
@@ -88,6 +93,15 @@ export async function deliverToChannels(
           );
           break;
 
+        case 'teams':
+          result = await deliverToTeams(
+            agentRunResult,
+            workspaceId,
+            agentName,
+            options.teams_webhook_url
+          );
+          break;
+
         case 'download':
           result = await deliverToDownloads(
             agentRunResult,
@@ -163,6 +177,7 @@ async function assembleRendererInput(
 
   const workspace = workspaceResult.rows[0];
   const voiceConfig = workspace.settings?.voice;
+  const currency = await configLoader.getReportingCurrency(workspaceId);
 
   // Build AgentOutput structure
   const skillEvidence: SkillEvidence[] = agentRunResult.skillEvidence
@@ -203,6 +218,7 @@ async function assembleRendererInput(
       name: workspace.name,
       branding: workspace.branding,
       voice: voiceConfig,
+      currency,
     },
     options: { detail_level: 'standard' } as any,
   };
@@ -311,6 +327,65 @@ async function deliverToSlack(
   };
 }
 
+/**
+ * Post an agent briefing card to Microsoft Teams. Honors the same
+ * notification preferences as Slack delivery. Shared by multi-channel
+ * delivery and the legacy single-channel path in AgentRuntime.
+ */
+export async function sendAgentTeamsCard(
+  workspaceId: string,
+  agentName: string,
+  narrative: string,
+  skillEvidence?: Record<string, SkillEvidence>,
+  webhookOverride?: string
+): Promise<DeliveryResult> {
+  const { getNotificationPreferences, getCategoryRule } = await import('../notifications/preferences.js');
+  try {
+    const prefs = await getNotificationPreferences(workspaceId);
+    if (!prefs.enabled) {
+      return { channel: 'teams', status: 'skipped', metadata: { error: 'notifications_disabled' } };
+    }
+    if (!getCategoryRule(prefs, 'agent_briefing_ready').enabled) {
+      return { channel: 'teams', status: 'skipped', metadata: { error: 'category_disabled' } };
+    }
+  } catch (err) {
+    console.warn('[channels] Error checking notification prefs, proceeding with send:', err);
+  }
+
+  const webhookUrl = webhookOverride || (await getTeamsWebhook(workspaceId));
+  if (!webhookUrl) {
+    return {
+      channel: 'teams',
+      status: 'failed',
+      metadata: { error: 'No Teams webhook configured for workspace' },
+    };
+  }
+
+  await postCardToTeams(webhookUrl, formatAgentTeamsCard(narrative, skillEvidence, agentName));
+  return { channel: 'teams', status: 'success', metadata: {} };
+}
+
+/**
+ * Deliver to Microsoft Teams via incoming webhook
+ */
+async function deliverToTeams(
+  agentRunResult: AgentRunResult,
+  workspaceId: string,
+  agentName: string,
+  webhookOverride?: string
+): Promise<DeliveryResult> {
+  if (!agentRunResult.synthesizedOutput) {
+    return { channel: 'teams', status: 'skipped', metadata: { error: 'No synthesized output' } };
+  }
+  return sendAgentTeamsCard(
+    workspaceId,
+    agentName,
+    agentRunResult.synthesizedOutput,
+    agentRunResult.skillEvidence,
+    webhookOverride
+  );
+}
+
 /**
  * Deliver to workspace downloads (persistent files)
  */
@@ -6,8 +6,8 @@
  * and how to structure the narrative.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { createLogger } from '../utils/logger.js';
+import { callLLM } from '../utils/llm-router.js';
 import { PANDORA_VOICE_STANDARD } from '../lib/voice-standard.js';
 import type {
   EditorialInput,
@@ -19,7 +19,6 @@ import type { SectionContent, MetricCard, DealCard } from '../reports/types.js';
 import type { SkillEvidence, EvidenceClaim } from '../skills/types.js';
 
 const logger = createLogger('EditorialSynthesizer');
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
 
 /**
  * Editorial synthesis: One Claude call to produce the entire briefing.
@@ -41,25 +40,25 @@ export async function editorialSynthesize(
   const systemPrompt = buildSystemPrompt(input);
   const userPrompt = buildUserPrompt(input);
 
-  // Call Claude with structured output
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
-    system: systemPrompt,
+  // Call the LLM with structured output
+  const response = await callLLM(input.workspaceId, 'reason', {
+    maxTokens: 4096,
+    systemPrompt,
     messages: [
       {
         role: 'user',
         content: userPrompt,
       },
     ],
+    _tracking: { workspaceId: input.workspaceId, phase: 'briefing', stepName: 'editorial-synthesis' },
   });
 
   const usage = response.usage;
-  const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
+  const responseText = response.content || '';
 
-  logger.info('[EditorialSynthesize] Claude response received', {
-    input_tokens: usage.input_tokens,
-    output_tokens: usage.output_tokens,
+  logger.info('[EditorialSynthesize] LLM response received', {
+    input_tokens: usage.input,
+    output_tokens: usage.output,
     response_length: responseText.length,
   });
 
@@ -77,7 +76,7 @@ export async function editorialSynthesize(
     sections_dropped: input.availableSections
       .map(s => s.id)
       .filter(id => !parsedOutput.sections.find(sec => sec.section_id === id)),
-    tokens_used: usage.input_tokens + usage.output_tokens,
+    tokens_used: usage.input + usage.output,
     synthesis_duration_ms: synthesisTime,
   };
 
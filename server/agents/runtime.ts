@@ -27,7 +27,7 @@ import {
 } from '../connectors/slack/client.js';
 import { getSlackAppClient } from '../connectors/slack/slack-app-client.js';
 import { formatAgentWithEvidence } from '../skills/formatters/slack-formatter.js';
-import { deliverToChannels, type DeliveryChannel } from './channels.js';
+import { deliverToChannels, sendAgentTeamsCard, type DeliveryChannel } from './channels.js';
 import { getConsultantContext } from '../skills/consultant-context.js';
 import { getAgent } from './agent-service.js';
 import { sanitizeForPrompt } from '../utils/sanitize-for-prompt.js';
@@ -477,6 +477,7 @@ export class AgentRuntime {
               channels: deliveryConfig.channels || ['slack'],
               formats: deliveryConfig.formats,
               download_ttl_hours: deliveryConfig.download_ttl_hours,
+              teams_webhook_url: deliveryConfig.teams_webhook_url,
               extract_findings: deliveryConfig.extract_findings !== false,
             }
           );
@@ -745,6 +746,15 @@ export class AgentRuntime {
         console.log(`[Agent] Delivered to Slack for workspace ${workspaceId}`);
         break;
       }
+      case 'teams': {
+        const result = await sendAgentTeamsCard(workspaceId, agentName, output, evidence, delivery.teamsWebhookUrl);
+        if (result.status !== 'success') {
+          console.log(`[Agent] Teams delivery ${result.status} (${result.metadata?.error}) for workspace ${workspaceId}`);
+        } else {
+          console.log(`[Agent] Delivered to Teams for workspace ${workspaceId}`);
+        }
+        break;
+      }
       case 'email':
         console.warn('[Agent] Email delivery not yet implemented');
         break;
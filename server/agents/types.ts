@@ -59,9 +59,10 @@ export interface AgentTrigger {
 }
 
 export interface AgentDelivery {
-  channel: 'slack' | 'email' | 'api';
+  channel: 'slack' | 'teams' | 'email' | 'api';
   slackWebhookUrl?: string;
   slackChannel?: string;
+  teamsWebhookUrl?: string;
   emailTo?: string[];
   emailSubject?: string;
   format: 'slack' | 'markdown' | 'html';
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for customer-health.ts
+ *
+ * Tests dimension reweighting when signals are missing, driver ordering,
+ * renewal-date resolution and the health-adjusted renewal probability.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  renewalProbability,
+  resolveRenewalDate,
+  riskLevelFor,
+  scoreCustomerHealth,
+  type CustomerSignals,
+} from '../customer-health.js';
+
+vi.mock('../../db.js', () => ({ query: vi.fn() }));
+
+const NOW = new Date('2026-10-01T00:00:00Z');
+
+function signals(overrides: Partial<CustomerSignals> = {}): CustomerSignals {
+  return {
+    accountId: 'acct-1',
+    accountName: 'Acme',
+    owner: 'rep@example.com',
+    arr: 120000,
+    renewalDate: '2026-11-15',
+    renewalDateSource: 'renewal_deal',
+    renewalDealId: 'deal-1',
+    renewalDealName: 'Acme Renewal',
+    daysSinceActivity: 5,
+    activities30d: 6,
+    activitiesPrior60d: 10,
+    conversations90d: 0,
+    positiveConversations: 0,
+    negativeConversations: 0,
+    decliningConversations: 0,
+    tickets: null,
+    stakeholders: null,
+    ...overrides,
+  };
+}
+
+describe('scoreCustomerHealth', () => {
+  it('scores only the dimensions with data', () => {
+    const health = scoreCustomerHealth(signals(), 0.85, NOW);
+    expect(health.dimensions).toEqual({ engagement: 100, sentiment: null, support: null, stakeholders: null });
+    expect(health.score).toBe(100);
+    expect(health.risk_level).toBe('healthy');
+    expect(health.days_to_renewal).toBe(45);
+  });
+
+  it('ranks drivers by weighted shortfall and flags a churning account', () => {
+    const health = scoreCustomerHealth(signals({
+      daysSinceActivity: 75,
+      activities30d: 0,
+      activitiesPrior60d: 2,
+      conversations90d: 3,
+      negativeConversations: 2,
+      decliningConversations: 1,
+      tickets: { open: 3, highPriorityOpen: 1, overdue: 1 },
+      stakeholders: { checked: 3, criticalDepartures: 1, otherDepartures: 0, roleChanges: 0 },
+    }), 0.85, NOW);
+
+    expect(health.risk_level).toBe('critical');
+    expect(health.drivers.map(d => d.dimension)).toEqual(['sentiment', 'engagement', 'support', 'stakeholders']);
+    expect(health.renewal_probability).toBeLessThan(0.5);
+  });
+});
+
+describe('renewalProbability', () => {
+  it('keeps the base rate at 70 and moves monotonically with health', () => {
+    expect(renewalProbability(70, 0.85)).toBeCloseTo(0.85, 2);
+    expect(renewalProbability(95, 0.85)).toBeGreaterThan(0.85);
+    expect(renewalProbability(20, 0.85)).toBeLessThan(0.3);
+    expect(renewalProbability(0, 0.5)).toBe(0.05);
+  });
+
+  it('maps scores to risk levels', () => {
+    expect(riskLevelFor(70)).toBe('healthy');
+    expect(riskLevelFor(55)).toBe('watch');
+    expect(riskLevelFor(30)).toBe('at_risk');
+    expect(riskLevelFor(29)).toBe('critical');
+  });
+});
+
+describe('resolveRenewalDate', () => {
+  it('prefers the renewal deal, then a custom field, then the next contract anniversary', () => {
+    expect(resolveRenewalDate('2026-12-01', {}, null, NOW)).toEqual({ date: '2026-12-01', source: 'renewal_deal' });
+    expect(resolveRenewalDate(null, { Contract_End_Date: '2027-02-01' }, '2025-01-10', NOW))
+      .toEqual({ date: '2027-02-01', source: 'custom_field' });
+    expect(resolveRenewalDate(null, {}, '2024-03-10', NOW)).toEqual({ date: '2027-03-10', source: 'assumed_annual' });
+    expect(resolveRenewalDate(null, {}, null, NOW)).toEqual({ date: null, source: null });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for discount-analytics.ts
+ *
+ * Tests discount derivation precedence, fiscal quarter-end proximity,
+ * win-rate elasticity and end-of-quarter spike detection.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildDealDiscounts,
+  deriveDiscount,
+  discountElasticity,
+  fiscalQuarterFor,
+  quarterEndProximity,
+  quarterEndSpikes,
+  type DealDiscountInput,
+} from '../discount-analytics.js';
+
+vi.mock('../../db.js', () => ({ query: vi.fn() }));
+vi.mock('../../config/workspace-config-loader.js', () => ({ configLoader: {} }));
+
+function input(overrides: Partial<DealDiscountInput> = {}): DealDiscountInput {
+  return {
+    dealId: 'deal-1',
+    dealName: 'Acme',
+    owner: 'rep@example.com',
+    amount: 80000,
+    stage: 'closed_won',
+    closeDate: '2026-06-25',
+    createdAt: '2026-03-27',
+    lineItemList: null,
+    lineItemNet: null,
+    customFields: {},
+    firstAmount: null,
+    pricingMentions: 0,
+    ...overrides,
+  };
+}
+
+describe('deriveDiscount', () => {
+  it('prefers line items, then custom fields, then amount history', () => {
+    expect(deriveDiscount(input({ lineItemList: 100000, lineItemNet: 75000, customFields: { discount: 10 } })))
+      .toEqual({ pct: 25, source: 'line_items', listAmount: 100000 });
+    expect(deriveDiscount(input({ customFields: { Discount__c: '0.2', discount_amount: 5000 } })))
+      .toEqual({ pct: 20, source: 'custom_field', listAmount: 100000 });
+    expect(deriveDiscount(input({ customFields: { list_price: 100000 } }))?.pct).toBe(20);
+    expect(deriveDiscount(input({ firstAmount: 100000 }))).toEqual({ pct: 20, source: 'amount_history', listAmount: 100000 });
+  });
+
+  it('treats amount increases as no discount and returns null without a source', () => {
+    expect(deriveDiscount(input({ firstAmount: 50000 }))?.pct).toBe(0);
+    expect(deriveDiscount(input())).toBeNull();
+  });
+});
+
+describe('quarterEndProximity', () => {
+  it('uses the fiscal calendar', () => {
+    expect(quarterEndProximity(new Date('2026-06-25'))).toEqual({ daysToQuarterEnd: 5, bucket: 'final_2_weeks' });
+    expect(quarterEndProximity(new Date('2026-06-10')).bucket).toBe('final_month');
+    expect(quarterEndProximity(new Date('2026-04-15')).bucket).toBe('earlier');
+
+    // Fiscal year starting February: Feb-Apr is Q1 of FY2027
+    const q = fiscalQuarterFor(new Date('2026-04-20'), 2);
+    expect(q.label).toBe('FY2027 Q1');
+    expect(q.end.toISOString().slice(0, 10)).toBe('2026-04-30');
+    expect(fiscalQuarterFor(new Date('2026-01-15'), 2).label).toBe('FY2026 Q4');
+  });
+});
+
+describe('discountElasticity and quarterEndSpikes', () => {
+  const deals = buildDealDiscounts([
+    input({ dealId: 'a', firstAmount: 80000, closeDate: '2026-05-01' }),
+    input({ dealId: 'b', firstAmount: 80000, closeDate: '2026-05-05' }),
+    input({ dealId: 'c', firstAmount: 160000, closeDate: '2026-06-22' }),
+    input({ dealId: 'd', firstAmount: 160000, closeDate: '2026-06-24' }),
+    input({ dealId: 'e', firstAmount: 133333, closeDate: '2026-06-28' }),
+    input({ dealId: 'f', firstAmount: 160000, stage: 'closed_lost', closeDate: '2026-06-28' }),
+    input({ dealId: 'g', firstAmount: 160000, stage: 'closed_lost', closeDate: '2026-06-29' }),
+  ]);
+
+  it('measures win rate falling as discount rises', () => {
+    const elasticity = discountElasticity(deals);
+    expect(elasticity.closed_deals).toBe(7);
+    expect(elasticity.by_bucket.find(b => b.bucket === 'none')).toMatchObject({ deals: 2, win_rate: 1, median_cycle_days: 37 });
+    expect(elasticity.by_bucket.find(b => b.bucket === '30+')?.win_rate).toBe(0.6);
+    expect(elasticity.win_rate_change_per_10pts).toBeLessThan(0);
+  });
+
+  it('flags discounts concentrated in the final two weeks of the quarter', () => {
+    const spikes = quarterEndSpikes(deals.filter(d => d.stage === 'closed_won'));
+    expect(spikes.final_2_weeks_avg_discount).toBeCloseTo(46.7, 1);
+    expect(spikes.rest_of_quarter_avg_discount).toBe(0);
+    expect(spikes.spike_detected).toBe(true);
+    expect(spikes.by_quarter).toHaveLength(1);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for forecast-backtest.ts
+ *
+ * Tests quarter selection, parameter clamping, pinball loss, calibration
+ * aggregation and that as-of fitting ignores deals closed after the snapshot.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  completedQuarters,
+  resolveBacktestParams,
+  pinballLoss,
+  computeCalibration,
+  fitDistributionsAsOf,
+  stageWinRatesAsOf,
+  type BacktestPrediction,
+  type HistoricalDeal,
+} from '../forecast-backtest.js';
+
+vi.mock('../../db.js', () => ({ query: vi.fn() }));
+vi.mock('../field-history-queries.js', () => ({ reconstructDealStateAtDate: vi.fn() }));
+
+function prediction(overrides: Partial<BacktestPrediction> = {}): BacktestPrediction {
+  return {
+    quarterLabel: 'Q1 2026',
+    quarterStart: '2026-01-01',
+    quarterEnd: '2026-03-31',
+    snapshotDate: '2026-01-01',
+    segment: 'all',
+    method: 'monte_carlo',
+    p10: 80,
+    p25: 90,
+    p50: 100,
+    p75: 110,
+    p90: 120,
+    actual: 100,
+    closedWonAtSnapshot: 0,
+    openDeals: 10,
+    openPipeline: 400,
+    ...overrides,
+  };
+}
+
+function deal(id: string, overrides: Partial<HistoricalDeal> = {}): HistoricalDeal {
+  return {
+    id,
+    name: id,
+    amount: 10000,
+    createdAt: new Date('2025-06-01T00:00:00Z'),
+    closedAt: null,
+    closeDate: null,
+    stageNormalized: 'proposal',
+    owner: 'rep@example.com',
+    pipeline: 'New Business',
+    ...overrides,
+  };
+}
+
+describe('completedQuarters', () => {
+  it('returns the quarters that ended before now, oldest first', () => {
+    const quarters = completedQuarters(new Date('2026-05-10T12:00:00Z'), 3);
+    expect(quarters.map(q => q.label)).toEqual(['Q3 2025', 'Q4 2025', 'Q1 2026']);
+    expect(quarters[2].start.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(quarters[2].end.toISOString()).toBe('2026-03-31T23:59:59.999Z');
+  });
+});
+
+describe('resolveBacktestParams', () => {
+  it('applies defaults and clamps out-of-range values', () => {
+    expect(resolveBacktestParams()).toEqual({
+      quarters: 4,
+      snapshotOffsetDays: 0,
+      iterations: 2000,
+      segmentBy: null,
+      lookbackMonths: 24,
+    });
+    const params = resolveBacktestParams({ quarters: 40, iterations: 5, segmentBy: 'region' as any });
+    expect(params.quarters).toBe(12);
+    expect(params.iterations).toBe(100);
+    expect(params.segmentBy).toBeNull();
+  });
+});
+
+describe('pinballLoss', () => {
+  it('penalizes under- and over-prediction asymmetrically', () => {
+    expect(pinballLoss(100, 80, 0.9)).toBeCloseTo(18);
+    expect(pinballLoss(100, 120, 0.9)).toBeCloseTo(2);
+    expect(pinballLoss(100, 100, 0.5)).toBe(0);
+  });
+});
+
+describe('computeCalibration', () => {
+  it('computes coverage, MAPE and bias per segment and method', () => {
+    const [cal] = computeCalibration([
+      prediction({ actual: 100 }),
+      prediction({ quarterLabel: 'Q2 2026', actual: 150 }),
+    ]);
+    expect(cal.quarters).toBe(2);
+    expect(cal.coverage80).toBe(0.5);
+    expect(cal.coverage50).toBe(0.5);
+    expect(cal.mape).toBeCloseTo((0 + 50 / 150) / 2);
+    expect(cal.bias).toBeCloseTo((0 - 50 / 150) / 2);
+  });
+
+  it('leaves coverage null for point-estimate methods and sorts the team segment first', () => {
+    const calibration = computeCalibration([
+      prediction({ segment: 'Renewals', method: 'rollup_stage_weighted', p10: null, p25: null, p75: null, p90: null }),
+      prediction({ method: 'rollup_stage_weighted', p10: null, p25: null, p75: null, p90: null }),
+      prediction(),
+    ]);
+    expect(calibration.map(c => `${c.segment}/${c.method}`)).toEqual([
+      'all/monte_carlo',
+      'all/rollup_stage_weighted',
+      'Renewals/rollup_stage_weighted',
+    ]);
+    expect(calibration[1].coverage80).toBeNull();
+    expect(calibration[1].pinballLoss).toBe(0);
+  });
+});
+
+describe('as-of fitting', () => {
+  const asOf = new Date('2026-01-01T00:00:00Z');
+  const history = [
+    deal('won-before', { stageNormalized: 'closed_won', amount: 50000, closedAt: new Date('2025-10-01T00:00:00Z') }),
+    deal('lost-before', { stageNormalized: 'closed_lost', closedAt: new Date('2025-11-01T00:00:00Z') }),
+    deal('won-after', { stageNormalized: 'closed_won', amount: 900000, closedAt: new Date('2026-02-01T00:00:00Z') }),
+  ];
+
+  it('only fits on deals closed before the snapshot', () => {
+    const { distributions, closedDealCount } = fitDistributionsAsOf(history, asOf, 24);
+    expect(closedDealCount).toBe(2);
+    expect(distributions.dealSize.sampleSize).toBe(2);
+    expect(distributions.slippage.closed_won).toBeUndefined();
+  });
+
+  it('does not count later outcomes in stage win rates', () => {
+    const visits = history.map(d => ({ dealId: d.id, stageNormalized: 'proposal', enteredAt: new Date('2025-07-01T00:00:00Z') }));
+    const { overall } = stageWinRatesAsOf(history, visits, asOf);
+    expect(overall).toBe(0.5);
+  });
+});
@@ -2,6 +2,8 @@ import { query } from '../db.js';
 import { configLoader } from '../config/workspace-config-loader.js';
 import type { SurvivalCurve } from './survival-curve.js';
 import { resolveWorkspaceIntelligence } from '../lib/workspace-intelligence.js';
+import { buildTerritoryTree } from '../territories/resolver.js';
+import type { TerritoryNode } from '../territories/types.js';
 
 interface GroupStats {
   count: number;
@@ -1982,3 +1984,372 @@ export async function enrichMismatchedDeals(
     };
   });
 }
+
+// ============================================================================
+// Territory Rollups
+// ============================================================================
+
+export interface TerritoryRollupRow {
+  id: string;
+  name: string;
+  parentId: string | null;
+  depth: number;
+  reps: string[];
+  accountCount: number;
+  openDeals: number;
+  pipeline: number;
+  commit: number;
+  closedWon: number;
+  quota: number | null;
+  remaining: number | null;
+  coverageRatio: number | null;
+  attainment: number | null;
+}
+
+export interface TerritoryRollup {
+  periodStart: string;
+  periodEnd: string;
+  coverageTarget: number;
+  territories: TerritoryRollupRow[];
+  unassigned: { accountCount: number; openDeals: number; pipeline: number; closedWon: number };
+}
+
+/**
+ * Pipeline, coverage and attainment per territory for deals closing in the
+ * period. Parents include their descendants; a parent without its own quota
+ * for the period uses the sum of its children's.
+ */
+export async function territoryRollup(
+  workspaceId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  quotaPeriodId?: string | null
+): Promise<TerritoryRollup> {
+  const [territoriesResult, repsResult, accountsResult, dealsResult, quotasResult] = await Promise.all([
+    query<{ id: string; parent_id: string | null; name: string; rules: any; priority: number }>(
+      `SELECT id, parent_id, name, rules, priority FROM territories WHERE workspace_id = $1 AND is_active = true`,
+      [workspaceId]
+    ),
+    query<{ territory_id: string; rep_name: string }>(
+      `SELECT tr.territory_id, tr.rep_name
+       FROM territory_reps tr JOIN territories t ON t.id = tr.territory_id
+       WHERE t.workspace_id = $1
+       ORDER BY tr.role, tr.rep_name`,
+      [workspaceId]
+    ),
+    query<{ territory_id: string | null; n: number }>(
+      `SELECT at.territory_id, COUNT(*)::integer AS n
+       FROM accounts a
+       LEFT JOIN account_territories at ON at.account_id = a.id
+       WHERE a.workspace_id = $1
+       GROUP BY at.territory_id`,
+      [workspaceId]
+    ),
+    query(
+      `SELECT at.territory_id,
+         COUNT(*) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')) AS open_deals,
+         COALESCE(SUM(d.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')), 0) AS pipeline,
+         COALESCE(SUM(d.amount) FILTER (WHERE d.forecast_category = 'commit' AND d.stage_normalized NOT IN ('closed_won', 'closed_lost')), 0) AS commit_value,
+         COALESCE(SUM(d.amount) FILTER (WHERE d.stage_normalized = 'closed_won'), 0) AS closed_won
+       FROM deals d
+       LEFT JOIN account_territories at ON at.account_id = d.account_id
+       WHERE d.workspace_id = $1
+         AND d.close_date BETWEEN $2 AND $3
+       GROUP BY at.territory_id`,
+      [workspaceId, periodStart, periodEnd]
+    ),
+    quotaPeriodId
+      ? query<{ territory_id: string; quota_amount: string }>(
+          `SELECT territory_id, quota_amount FROM territory_quotas WHERE period_id = $1`,
+          [quotaPeriodId]
+        )
+      : Promise.resolve({ rows: [] as Array<{ territory_id: string; quota_amount: string }> }),
+  ]);
+
+  const coverageTarget = await configLoader.getCoverageTarget(workspaceId);
+
+  const accountCounts = new Map(accountsResult.rows.map(r => [r.territory_id, r.n]));
+  const dealStats = new Map(dealsResult.rows.map((r: any) => [r.territory_id as string | null, {
+    openDeals: parseInt(r.open_deals, 10) || 0,
+    pipeline: parseFloat(r.pipeline) || 0,
+    commit: parseFloat(r.commit_value) || 0,
+    closedWon: parseFloat(r.closed_won) || 0,
+  }]));
+  const quotas = new Map(quotasResult.rows.map(r => [r.territory_id, parseFloat(r.quota_amount)]));
+
+  const ids = new Set(territoriesResult.rows.map(r => r.id));
+  const tree = buildTerritoryTree(territoriesResult.rows.filter(r => !r.parent_id || ids.has(r.parent_id)));
+  const rows: TerritoryRollupRow[] = [];
+
+  const visit = (node: TerritoryNode, depth: number): TerritoryRollupRow => {
+    const own = dealStats.get(node.id);
+    const row: TerritoryRollupRow = {
+      id: node.id,
+      name: node.name,
+      parentId: node.parent_id,
+      depth,
+      reps: repsResult.rows.filter(r => r.territory_id === node.id).map(r => r.rep_name),
+      accountCount: accountCounts.get(node.id) ?? 0,
+      openDeals: own?.openDeals ?? 0,
+      pipeline: own?.pipeline ?? 0,
+      commit: own?.commit ?? 0,
+      closedWon: own?.closedWon ?? 0,
+      quota: quotas.get(node.id) ?? null,
+      remaining: null,
+      coverageRatio: null,
+      attainment: null,
+    };
+    rows.push(row);
+
+    let childQuota: number | null = null;
+    for (const child of node.children) {
+      const c = visit(child, depth + 1);
+      row.accountCount += c.accountCount;
+      row.openDeals += c.openDeals;
+      row.pipeline += c.pipeline;
+      row.commit += c.commit;
+      row.closedWon += c.closedWon;
+      if (c.quota !== null) childQuota = (childQuota ?? 0) + c.quota;
+    }
+    if (row.quota === null) row.quota = childQuota;
+
+    if (row.quota !== null) {
+      row.remaining = row.quota - row.closedWon;
+      row.coverageRatio = row.remaining > 0 ? row.pipeline / row.remaining : null;
+      row.attainment = row.quota > 0 ? row.closedWon / row.quota : null;
+    }
+    return row;
+  };
+  tree.forEach(root => visit(root, 0));
+
+  const unassignedDeals = dealStats.get(null);
+  return {
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    coverageTarget,
+    territories: rows.map(r => ({ ...r, pipeline: Math.round(r.pipeline), commit: Math.round(r.commit), closedWon: Math.round(r.closedWon) })),
+    unassigned: {
+      accountCount: accountCounts.get(null) ?? 0,
+      openDeals: unassignedDeals?.openDeals ?? 0,
+      pipeline: Math.round(unassignedDeals?.pipeline ?? 0),
+      closedWon: Math.round(unassignedDeals?.closedWon ?? 0),
+    },
+  };
+}
+
+// ─── Product mix (deal line items) ───────────────────────────────────────────
+
+export interface ProductMixFilters {
+  /** Close-date window; applies to open and closed deals alike */
+  start?: Date;
+  end?: Date;
+  pipelines?: string[];
+  /** Deal owner name or email */
+  owner?: string;
+  /** Case-insensitive substring match on product name or SKU */
+  product?: string;
+}
+
+export interface ProductMixRow {
+  product: string;
+  sku: string | null;
+  family: string | null;
+  openDeals: number;
+  openPipeline: number;
+  wonDeals: number;
+  lostDeals: number;
+  winRate: number | null;
+  wonAmount: number;
+  /** Average won line revenue per deal for this product */
+  asp: number | null;
+  avgDiscountPercent: number | null;
+  /** Share of won deals with line items that included this product */
+  attachRate: number | null;
+}
+
+export interface ProductMix {
+  products: ProductMixRow[];
+  coverage: {
+    openDeals: number;
+    openDealsWithLineItems: number;
+    wonDealsWithLineItems: number;
+    /** Share of open deal amount on deals that carry line items */
+    openAmountCoverage: number | null;
+  };
+}
+
+export interface ProductForecastRow {
+  product: string;
+  closedWon: number;
+  commit: number;
+  bestCase: number;
+  pipeline: number;
+  openPipeline: number;
+  openDeals: number;
+  shareOfOpenPipeline: number | null;
+}
+
+function productMixDealFilter(filters: ProductMixFilters, params: unknown[]): string {
+  const clauses: string[] = [];
+  if (filters.start) {
+    params.push(filters.start);
+    clauses.push(`d.close_date >= $${params.length}`);
+  }
+  if (filters.end) {
+    params.push(filters.end);
+    clauses.push(`d.close_date <= $${params.length}`);
+  }
+  if (filters.pipelines && filters.pipelines.length > 0) {
+    params.push(filters.pipelines);
+    clauses.push(`d.pipeline = ANY($${params.length})`);
+  }
+  if (filters.owner) {
+    params.push(filters.owner.toLowerCase());
+    clauses.push(`(LOWER(d.owner) = $${params.length} OR LOWER(d.owner_email) = $${params.length})`);
+  }
+  return clauses.map(c => ` AND ${c}`).join('');
+}
+
+// One row per (deal, product): quantities and amounts summed across the deal's lines
+const DEAL_PRODUCT_LINES_CTE = `
+  lines AS (
+    SELECT li.deal_id,
+      COALESCE(p.name, li.name) AS product,
+      MAX(COALESCE(p.sku, li.sku)) AS sku,
+      MAX(p.family) AS family,
+      SUM(li.amount) AS amount,
+      AVG(li.discount_percent) AS discount_percent
+    FROM deal_line_items li
+    LEFT JOIN products p ON p.id = li.product_id
+    WHERE li.workspace_id = $1
+    GROUP BY li.deal_id, COALESCE(p.name, li.name)
+  )`;
+
+/**
+ * Pipeline, win rate, ASP, discount and attach rate per product from deal
+ * line items. Deals without line items are excluded from product rows and
+ * reported in `coverage` so callers can caveat partial adoption.
+ */
+export async function productMix(workspaceId: string, filters: ProductMixFilters = {}): Promise<ProductMix> {
+  const params: unknown[] = [workspaceId];
+  const dealFilter = productMixDealFilter(filters, params);
+  const dealParams = [...params];
+  let productFilter = '';
+  if (filters.product) {
+    params.push(`%${filters.product.toLowerCase()}%`);
+    productFilter = ` AND (LOWER(l.product) LIKE $${params.length} OR LOWER(COALESCE(l.sku, '')) LIKE $${params.length})`;
+  }
+
+  const [productsResult, coverageResult] = await Promise.all([
+    query(
+      `WITH ${DEAL_PRODUCT_LINES_CTE}
+       SELECT l.product, MAX(l.sku) AS sku, MAX(l.family) AS family,
+         COUNT(*) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')) AS open_deals,
+         COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')), 0) AS open_pipeline,
+         COUNT(*) FILTER (WHERE d.stage_normalized = 'closed_won') AS won_deals,
+         COUNT(*) FILTER (WHERE d.stage_normalized = 'closed_lost') AS lost_deals,
+         COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized = 'closed_won'), 0) AS won_amount,
+         AVG(l.discount_percent) AS avg_discount
+       FROM lines l
+       JOIN deals d ON d.id = l.deal_id
+       WHERE d.workspace_id = $1${dealFilter}${productFilter}
+       GROUP BY l.product
+       ORDER BY open_pipeline DESC, won_amount DESC`,
+      params
+    ),
+    query(
+      `SELECT
+         COUNT(*) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')) AS open_deals,
+         COUNT(*) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost') AND li.has_lines) AS open_with_lines,
+         COUNT(*) FILTER (WHERE d.stage_normalized = 'closed_won' AND li.has_lines) AS won_with_lines,
+         COALESCE(SUM(d.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')), 0) AS open_amount,
+         COALESCE(SUM(d.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost') AND li.has_lines), 0) AS open_amount_with_lines
+       FROM deals d
+       LEFT JOIN LATERAL (
+         SELECT true AS has_lines FROM deal_line_items x WHERE x.deal_id = d.id LIMIT 1
+       ) li ON true
+       WHERE d.workspace_id = $1${dealFilter}`,
+      dealParams
+    ),
+  ]);
+
+  const cov = coverageResult.rows[0] ?? {};
+  const wonWithLines = parseInt(cov.won_with_lines, 10) || 0;
+  const openAmount = parseFloat(cov.open_amount) || 0;
+
+  return {
+    products: productsResult.rows.map((r: any) => {
+      const wonDeals = parseInt(r.won_deals, 10) || 0;
+      const lostDeals = parseInt(r.lost_deals, 10) || 0;
+      const wonAmount = parseFloat(r.won_amount) || 0;
+      return {
+        product: r.product,
+        sku: r.sku,
+        family: r.family,
+        openDeals: parseInt(r.open_deals, 10) || 0,
+        openPipeline: Math.round(parseFloat(r.open_pipeline) || 0),
+        wonDeals,
+        lostDeals,
+        winRate: wonDeals + lostDeals > 0 ? Math.round((wonDeals / (wonDeals + lostDeals)) * 1000) / 1000 : null,
+        wonAmount: Math.round(wonAmount),
+        asp: wonDeals > 0 ? Math.round(wonAmount / wonDeals) : null,
+        avgDiscountPercent: r.avg_discount !== null ? Math.round(parseFloat(r.avg_discount) * 10) / 10 : null,
+        attachRate: wonWithLines > 0 ? Math.round((wonDeals / wonWithLines) * 1000) / 1000 : null,
+      };
+    }),
+    coverage: {
+      openDeals: parseInt(cov.open_deals, 10) || 0,
+      openDealsWithLineItems: parseInt(cov.open_with_lines, 10) || 0,
+      wonDealsWithLineItems: wonWithLines,
+      openAmountCoverage: openAmount > 0
+        ? Math.round(((parseFloat(cov.open_amount_with_lines) || 0) / openAmount) * 1000) / 1000
+        : null,
+    },
+  };
+}
+
+/**
+ * Line-item revenue per product by forecast category for deals closing in
+ * the window: closed won by stage, open deals by forecast category.
+ */
+export async function productForecastBreakdown(
+  workspaceId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  filters: Omit<ProductMixFilters, 'start' | 'end' | 'product'> = {}
+): Promise<ProductForecastRow[]> {
+  const params: unknown[] = [workspaceId];
+  const dealFilter = productMixDealFilter({ ...filters, start: periodStart, end: periodEnd }, params);
+
+  const result = await query(
+    `WITH ${DEAL_PRODUCT_LINES_CTE}
+     SELECT l.product,
+       COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized = 'closed_won'), 0) AS closed_won,
+       COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost') AND d.forecast_category = 'commit'), 0) AS commit_value,
+       COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost') AND d.forecast_category = 'best_case'), 0) AS best_case,
+       COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost') AND d.forecast_category = 'pipeline'), 0) AS pipeline,
+       COALESCE(SUM(l.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')), 0) AS open_pipeline,
+       COUNT(*) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')) AS open_deals
+     FROM lines l
+     JOIN deals d ON d.id = l.deal_id
+     WHERE d.workspace_id = $1${dealFilter}
+     GROUP BY l.product
+     ORDER BY open_pipeline DESC, closed_won DESC`,
+    params
+  );
+
+  const totalOpen = result.rows.reduce((sum: number, r: any) => sum + (parseFloat(r.open_pipeline) || 0), 0);
+  return result.rows.map((r: any) => {
+    const openPipeline = parseFloat(r.open_pipeline) || 0;
+    return {
+      product: r.product,
+      closedWon: Math.round(parseFloat(r.closed_won) || 0),
+      commit: Math.round(parseFloat(r.commit_value) || 0),
+      bestCase: Math.round(parseFloat(r.best_case) || 0),
+      pipeline: Math.round(parseFloat(r.pipeline) || 0),
+      openPipeline: Math.round(openPipeline),
+      openDeals: parseInt(r.open_deals, 10) || 0,
+      shareOfOpenPipeline: totalOpen > 0 ? Math.round((openPipeline / totalOpen) * 1000) / 1000 : null,
+    };
+  });
+}
@@ -0,0 +1,517 @@
+/**
+ * Customer Health & Renewal Risk
+ *
+ * Scores post-sale accounts (any account with a closed-won deal) 0-100 from
+ * four signals, each optional:
+ *   - Engagement   (30%) — recency and trend of activities and calls
+ *   - Sentiment    (25%) — enriched conversation sentiment, last 90 days
+ *   - Support      (20%) — open, high-priority and overdue tickets (tasks table)
+ *   - Stakeholders (25%) — LinkedIn departures/role changes on the renewal deal
+ *
+ * Dimensions without data are dropped and the rest reweighted. Health then
+ * shifts the workspace's historical renewal rate into a per-account renewal
+ * probability, which the Monte Carlo renewal component consumes.
+ */
+
+import { query } from '../db.js';
+
+export type CustomerRiskLevel = 'healthy' | 'watch' | 'at_risk' | 'critical';
+export type HealthDimension = 'engagement' | 'sentiment' | 'support' | 'stakeholders';
+export type RenewalDateSource = 'renewal_deal' | 'custom_field' | 'assumed_annual';
+
+export interface CustomerSignals {
+  accountId: string;
+  accountName: string;
+  owner: string | null;
+  arr: number;
+  renewalDate: string | null;
+  renewalDateSource: RenewalDateSource | null;
+  renewalDealId: string | null;
+  renewalDealName: string | null;
+  daysSinceActivity: number | null;
+  activities30d: number;
+  activitiesPrior60d: number;
+  conversations90d: number;
+  positiveConversations: number;
+  negativeConversations: number;
+  decliningConversations: number;
+  /** null when the workspace has no tickets linked to accounts */
+  tickets: { open: number; highPriorityOpen: number; overdue: number } | null;
+  /** null when stakeholders were not checked */
+  stakeholders: { checked: number; criticalDepartures: number; otherDepartures: number; roleChanges: number } | null;
+}
+
+export interface HealthDriver {
+  dimension: HealthDimension;
+  score: number;
+  detail: string;
+}
+
+export interface CustomerHealth {
+  account_id: string;
+  account_name: string;
+  owner: string | null;
+  arr: number;
+  score: number;
+  risk_level: CustomerRiskLevel;
+  dimensions: Record<HealthDimension, number | null>;
+  drivers: HealthDriver[];
+  renewal_date: string | null;
+  renewal_date_source: RenewalDateSource | null;
+  renewal_deal_id: string | null;
+  renewal_deal_name: string | null;
+  days_to_renewal: number | null;
+  renewal_probability: number;
+}
+
+export interface CustomerHealthOptions {
+  renewalWindowDays: number;
+  maxStakeholderChecks: number;
+}
+
+const WEIGHTS: Record<HealthDimension, number> = {
+  engagement: 0.30,
+  sentiment: 0.25,
+  support: 0.20,
+  stakeholders: 0.25,
+};
+
+const DEFAULT_RENEWAL_RATE = 0.85;
+const MIN_RENEWALS_FOR_BASE_RATE = 10;
+const MAX_CUSTOMERS = 1000;
+const DAY_MS = 86400000;
+
+const RENEWAL_PATTERN = 'renew|retention';
+const RENEWAL_DATE_FIELD = /renewal_date|contract_end_date|renewal_due_date/i;
+
+// ─── Scoring (pure) ──────────────────────────────────────────────────────────
+
+function clamp(n: number, min = 0, max = 100): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+function engagementScore(s: CustomerSignals): { score: number; detail: string | null } {
+  if (s.daysSinceActivity === null) return { score: 0, detail: 'No recorded activity or calls' };
+
+  const d = s.daysSinceActivity;
+  let score = d < 14 ? 100 : d < 30 ? 80 : d < 60 ? 50 : d < 90 ? 25 : 0;
+  let detail = d >= 30 ? `No activity in ${Math.round(d)} days` : null;
+
+  // Falling off a previously steady cadence
+  const priorMonthly = s.activitiesPrior60d / 2;
+  if (priorMonthly >= 2 && s.activities30d < priorMonthly / 2) {
+    score -= 20;
+    detail = `Activity down to ${s.activities30d} in the last 30 days from ~${Math.round(priorMonthly)}/month`;
+  }
+  return { score: clamp(score), detail };
+}
+
+function sentimentScore(s: CustomerSignals): { score: number; detail: string | null } | null {
+  const rated = s.positiveConversations + s.negativeConversations;
+  if (s.conversations90d === 0) return null;
+
+  let score = 50 + (rated > 0 ? (50 * (s.positiveConversations - s.negativeConversations)) / s.conversations90d : 0);
+  score -= Math.min(30, s.decliningConversations * 10);
+
+  let detail: string | null = null;
+  if (s.negativeConversations > 0) {
+    detail = `${s.negativeConversations} of ${s.conversations90d} recent calls negative`;
+  } else if (s.decliningConversations > 0) {
+    detail = `Sentiment declining on ${s.decliningConversations} recent call${s.decliningConversations === 1 ? '' : 's'}`;
+  }
+  return { score: clamp(score), detail };
+}
+
+function supportScore(s: CustomerSignals): { score: number; detail: string | null } | null {
+  if (!s.tickets) return null;
+  const { open, highPriorityOpen, overdue } = s.tickets;
+  const score = 100 - 10 * open - 20 * highPriorityOpen - 15 * overdue;
+  const parts: string[] = [];
+  if (open > 0) parts.push(`${open} open ticket${open === 1 ? '' : 's'}`);
+  if (highPriorityOpen > 0) parts.push(`${highPriorityOpen} high priority`);
+  if (overdue > 0) parts.push(`${overdue} overdue`);
+  return { score: clamp(score), detail: parts.length ? parts.join(', ') : null };
+}
+
+function stakeholderScore(s: CustomerSignals): { score: number; detail: string | null } | null {
+  if (!s.stakeholders || s.stakeholders.checked === 0) return null;
+  const { criticalDepartures, otherDepartures, roleChanges } = s.stakeholders;
+  const score = 100 - 50 * criticalDepartures - 25 * otherDepartures - 10 * roleChanges;
+  const parts: string[] = [];
+  if (criticalDepartures > 0) parts.push(`${criticalDepartures} champion/economic buyer departed`);
+  if (otherDepartures > 0) parts.push(`${otherDepartures} other stakeholder${otherDepartures === 1 ? '' : 's'} departed`);
+  if (roleChanges > 0) parts.push(`${roleChanges} role change${roleChanges === 1 ? '' : 's'}`);
+  return { score: clamp(score), detail: parts.length ? parts.join(', ') : null };
+}
+
+export function riskLevelFor(score: number): CustomerRiskLevel {
+  if (score >= 70) return 'healthy';
+  if (score >= 50) return 'watch';
+  if (score >= 30) return 'at_risk';
+  return 'critical';
+}
+
+/**
+ * Shift the base renewal rate in log-odds by health: a score of 70 keeps the
+ * base rate, each 15 points above or below moves it by one logit.
+ */
+export function renewalProbability(score: number, baseRate: number): number {
+  const base = Math.min(0.99, Math.max(0.01, baseRate));
+  const z = Math.log(base / (1 - base)) + (score - 70) / 15;
+  const p = 1 / (1 + Math.exp(-z));
+  return Math.round(Math.min(0.99, Math.max(0.05, p)) * 1000) / 1000;
+}
+
+export function scoreCustomerHealth(s: CustomerSignals, baseRenewalRate: number, now = new Date()): CustomerHealth {
+  const results: Record<HealthDimension, { score: number; detail: string | null } | null> = {
+    engagement: engagementScore(s),
+    sentiment: sentimentScore(s),
+    support: supportScore(s),
+    stakeholders: stakeholderScore(s),
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  const dimensions = {} as Record<HealthDimension, number | null>;
+  const drivers: HealthDriver[] = [];
+  for (const dim of Object.keys(WEIGHTS) as HealthDimension[]) {
+    const r = results[dim];
+    dimensions[dim] = r ? Math.round(r.score) : null;
+    if (!r) continue;
+    weighted += r.score * WEIGHTS[dim];
+    totalWeight += WEIGHTS[dim];
+    if (r.detail && r.score < 70) drivers.push({ dimension: dim, score: Math.round(r.score), detail: r.detail });
+  }
+  // Worst weighted shortfall first
+  drivers.sort((a, b) => WEIGHTS[b.dimension] * (100 - b.score) - WEIGHTS[a.dimension] * (100 - a.score));
+
+  const score = Math.round(totalWeight > 0 ? weighted / totalWeight : 0);
+  const daysToRenewal = s.renewalDate
+    ? Math.ceil((new Date(s.renewalDate).getTime() - now.getTime()) / DAY_MS)
+    : null;
+
+  return {
+    account_id: s.accountId,
+    account_name: s.accountName,
+    owner: s.owner,
+    arr: s.arr,
+    score,
+    risk_level: riskLevelFor(score),
+    dimensions,
+    drivers,
+    renewal_date: s.renewalDate,
+    renewal_date_source: s.renewalDateSource,
+    renewal_deal_id: s.renewalDealId,
+    renewal_deal_name: s.renewalDealName,
+    days_to_renewal: daysToRenewal,
+    renewal_probability: renewalProbability(score, baseRenewalRate),
+  };
+}
+
+/**
+ * Next renewal date: an open renewal deal, else a renewal/contract-end
+ * custom field on the account, else a year after the latest closed-won deal
+ * (rolled forward to the next anniversary).
+ */
+export function resolveRenewalDate(
+  renewalDealCloseDate: string | null,
+  accountCustomFields: Record<string, unknown>,
+  lastWonDate: string | null,
+  now = new Date()
+): { date: string | null; source: RenewalDateSource | null } {
+  const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+  if (renewalDealCloseDate) return { date: iso(new Date(renewalDealCloseDate)), source: 'renewal_deal' };
+
+  const key = Object.keys(accountCustomFields || {}).find(k => RENEWAL_DATE_FIELD.test(k));
+  if (key && accountCustomFields[key]) {
+    const parsed = new Date(String(accountCustomFields[key]));
+    if (!isNaN(parsed.getTime())) return { date: iso(parsed), source: 'custom_field' };
+  }
+
+  if (lastWonDate) {
+    const anniversary = new Date(lastWonDate);
+    if (isNaN(anniversary.getTime())) return { date: null, source: null };
+    do {
+      anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+    } while (anniversary.getTime() < now.getTime() - DAY_MS);
+    return { date: iso(anniversary), source: 'assumed_annual' };
+  }
+
+  return { date: null, source: null };
+}
+
+// ─── Data gathering ──────────────────────────────────────────────────────────
+
+/** Share of closed renewal deals won in the last two years, or the default */
+export async function loadBaseRenewalRate(workspaceId: string): Promise<{ rate: number; closedRenewals: number; source: 'historical' | 'default' }> {
+  const result = await query<{ won: string; total: string }>(
+    `SELECT COUNT(*) FILTER (WHERE stage_normalized = 'closed_won') AS won, COUNT(*) AS total
+     FROM deals
+     WHERE workspace_id = $1
+       AND stage_normalized IN ('closed_won', 'closed_lost')
+       AND close_date >= CURRENT_DATE - INTERVAL '24 months'
+       AND (pipeline ~* $2 OR custom_fields->>'dealtype' ~* $2 OR name ~* $2)`,
+    [workspaceId, RENEWAL_PATTERN]
+  );
+  const won = parseInt(result.rows[0]?.won || '0', 10);
+  const total = parseInt(result.rows[0]?.total || '0', 10);
+  if (total < MIN_RENEWALS_FOR_BASE_RATE) return { rate: DEFAULT_RENEWAL_RATE, closedRenewals: total, source: 'default' };
+  return { rate: won / total, closedRenewals: total, source: 'historical' };
+}
+
+export async function gatherCustomerSignals(workspaceId: string): Promise<CustomerSignals[]> {
+  const customers = await query<{
+    id: string; name: string | null; owner: string | null; custom_fields: Record<string, unknown> | null;
+    arr: string | null; last_won_date: string | null;
+  }>(
+    `SELECT a.id, a.name, a.owner, a.custom_fields,
+            COALESCE(
+              SUM(d.amount) FILTER (WHERE d.close_date >= CURRENT_DATE - INTERVAL '12 months'),
+              (ARRAY_AGG(d.amount ORDER BY d.close_date DESC NULLS LAST))[1]
+            ) AS arr,
+            MAX(d.close_date)::text AS last_won_date
+     FROM accounts a
+     JOIN deals d ON d.account_id = a.id AND d.workspace_id = a.workspace_id
+     WHERE a.workspace_id = $1 AND d.stage_normalized = 'closed_won'
+     GROUP BY a.id, a.name, a.owner, a.custom_fields
+     ORDER BY arr DESC NULLS LAST
+     LIMIT ${MAX_CUSTOMERS}`,
+    [workspaceId]
+  );
+  if (customers.rows.length === 0) return [];
+  const accountIds = customers.rows.map(r => r.id);
+
+  const [renewals, activity, sentiment, tickets, hasTickets] = await Promise.all([
+    query<{ id: string; account_id: string; name: string; close_date: string | null }>(
+      `SELECT DISTINCT ON (account_id) id, account_id, name, close_date::text
+       FROM deals
+       WHERE workspace_id = $1 AND account_id = ANY($2)
+         AND stage_normalized NOT IN ('closed_won', 'closed_lost')
+         AND (pipeline ~* $3 OR custom_fields->>'dealtype' ~* $3 OR name ~* $3)
+       ORDER BY account_id, close_date ASC NULLS LAST`,
+      [workspaceId, accountIds, RENEWAL_PATTERN]
+    ),
+    query<{ account_id: string; last_touch: Date | null; recent: string; prior: string }>(
+      `SELECT account_id,
+              MAX(ts) AS last_touch,
+              COUNT(*) FILTER (WHERE ts >= NOW() - INTERVAL '30 days') AS recent,
+              COUNT(*) FILTER (WHERE ts < NOW() - INTERVAL '30 days' AND ts >= NOW() - INTERVAL '90 days') AS prior
+       FROM (
+         SELECT COALESCE(a.account_id, d.account_id) AS account_id, a.timestamp AS ts
+         FROM activities a LEFT JOIN deals d ON d.id = a.deal_id
+         WHERE a.workspace_id = $1 AND a.timestamp >= NOW() - INTERVAL '365 days'
+         UNION ALL
+         SELECT COALESCE(c.account_id, d.account_id), c.call_date
+         FROM conversations c LEFT JOIN deals d ON d.id = c.deal_id
+         WHERE c.workspace_id = $1 AND c.call_date >= NOW() - INTERVAL '365 days'
+       ) touches
+       WHERE account_id = ANY($2) AND ts <= NOW()
+       GROUP BY account_id`,
+      [workspaceId, accountIds]
+    ),
+    query<{ account_id: string; conversations: string; positive: string; negative: string; declining: string }>(
+      `SELECT COALESCE(c.account_id, d.account_id) AS account_id,
+              COUNT(*) AS conversations,
+              COUNT(*) FILTER (WHERE ce.sentiment = 'positive') AS positive,
+              COUNT(*) FILTER (WHERE ce.sentiment = 'negative') AS negative,
+              COUNT(*) FILTER (WHERE ce.sentiment_vs_prior = 'declining') AS declining
+       FROM conversations c
+       LEFT JOIN deals d ON d.id = c.deal_id
+       JOIN LATERAL (
+         SELECT sentiment, sentiment_vs_prior FROM conversation_enrichments
+         WHERE conversation_id = c.id ORDER BY enrichment_version DESC LIMIT 1
+       ) ce ON TRUE
+       WHERE c.workspace_id = $1
+         AND c.call_date >= NOW() - INTERVAL '90 days'
+         AND COALESCE(c.account_id, d.account_id) = ANY($2)
+       GROUP BY 1`,
+      [workspaceId, accountIds]
+    ),
+    query<{ account_id: string; open: string; high_priority_open: string; overdue: string }>(
+      `SELECT account_id,
+              COUNT(*) FILTER (WHERE is_open) AS open,
+              COUNT(*) FILTER (WHERE is_open AND priority ~* 'high|urgent|critical|highest|p0|p1') AS high_priority_open,
+              COUNT(*) FILTER (WHERE is_open AND due_date < CURRENT_DATE) AS overdue
+       FROM (
+         SELECT account_id, priority, due_date,
+                completed_date IS NULL AND COALESCE(status, '') !~* 'done|complete|closed|resolved|cancel' AS is_open
+         FROM tasks
+         WHERE workspace_id = $1 AND account_id = ANY($2)
+       ) t
+       GROUP BY account_id`,
+      [workspaceId, accountIds]
+    ),
+    query<{ present: boolean }>(
+      `SELECT EXISTS (SELECT 1 FROM tasks WHERE workspace_id = $1 AND account_id IS NOT NULL) AS present`,
+      [workspaceId]
+    ),
+  ]);
+
+  const byAccount = <T extends { account_id: string }>(rows: T[]) => new Map(rows.map(r => [r.account_id, r]));
+  const renewalMap = byAccount(renewals.rows);
+  const activityMap = byAccount(activity.rows);
+  const sentimentMap = byAccount(sentiment.rows);
+  const ticketMap = byAccount(tickets.rows);
+  const ticketsTracked = hasTickets.rows[0]?.present === true;
+  const now = Date.now();
+
+  return customers.rows.map(c => {
+    const renewal = renewalMap.get(c.id);
+    const touch = activityMap.get(c.id);
+    const sent = sentimentMap.get(c.id);
+    const ticket = ticketMap.get(c.id);
+    const renewalDate = resolveRenewalDate(renewal?.close_date ?? null, c.custom_fields || {}, c.last_won_date);
+
+    return {
+      accountId: c.id,
+      accountName: c.name || 'Unnamed account',
+      owner: c.owner,
+      arr: parseFloat(c.arr || '0') || 0,
+      renewalDate: renewalDate.date,
+      renewalDateSource: renewalDate.source,
+      renewalDealId: renewal?.id ?? null,
+      renewalDealName: renewal?.name ?? null,
+      daysSinceActivity: touch?.last_touch ? (now - new Date(touch.last_touch).getTime()) / DAY_MS : null,
+      activities30d: parseInt(touch?.recent || '0', 10),
+      activitiesPrior60d: parseInt(touch?.prior || '0', 10),
+      conversations90d: parseInt(sent?.conversations || '0', 10),
+      positiveConversations: parseInt(sent?.positive || '0', 10),
+      negativeConversations: parseInt(sent?.negative || '0', 10),
+      decliningConversations: parseInt(sent?.declining || '0', 10),
+      tickets: ticketsTracked
+        ? {
+            open: parseInt(ticket?.open || '0', 10),
+            highPriorityOpen: parseInt(ticket?.high_priority_open || '0', 10),
+            overdue: parseInt(ticket?.overdue || '0', 10),
+          }
+        : null,
+      stakeholders: null,
+    };
+  });
+}
+
+/**
+ * LinkedIn turnover check for the renewal deals closest to the window, largest
+ * first. Each contact is a rate-limited API call, so only a few deals are
+ * checked per run; skipped entirely when LinkedIn is not configured.
+ */
+export async function checkRenewalStakeholders(
+  workspaceId: string,
+  signals: CustomerSignals[],
+  options: CustomerHealthOptions
+): Promise<number> {
+  const { getLinkedInClient } = await import('../connectors/linkedin/client.js');
+  if (!getLinkedInClient().isConfigured() || options.maxStakeholderChecks <= 0) return 0;
+
+  const { getStakeholderChecker } = await import('../connectors/linkedin/stakeholder-checker.js');
+  const checker = getStakeholderChecker();
+  const now = Date.now();
+
+  const candidates = signals
+    .filter(s => s.renewalDealId && s.renewalDate)
+    .filter(s => {
+      const days = (new Date(s.renewalDate!).getTime() - now) / DAY_MS;
+      return days >= 0 && days <= options.renewalWindowDays;
+    })
+    .sort((a, b) => b.arr - a.arr)
+    .slice(0, options.maxStakeholderChecks);
+
+  let checked = 0;
+  for (const s of candidates) {
+    try {
+      const result = await checker.checkDeal(workspaceId, s.renewalDealId!);
+      const departed = result.contacts.filter(c => c.linkedin_status === 'departed');
+      const critical = departed.filter(c => c.role === 'champion' || c.role === 'economic_buyer').length;
+      s.stakeholders = {
+        checked: result.contacts.filter(c => c.linkedin_status !== 'no_linkedin_url' && c.linkedin_status !== 'unknown').length,
+        criticalDepartures: critical,
+        otherDepartures: departed.length - critical,
+        roleChanges: result.risk_summary.role_changes,
+      };
+      checked++;
+    } catch (err) {
+      console.warn(`[CustomerHealth] Stakeholder check failed for ${s.accountName}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return checked;
+}
+
+export async function persistCustomerHealth(workspaceId: string, scores: CustomerHealth[]): Promise<void> {
+  if (scores.length === 0) return;
+  await query(
+    `INSERT INTO customer_health_scores (
+       workspace_id, account_id, score, risk_level, dimensions, drivers, arr,
+       renewal_date, renewal_date_source, renewal_deal_id, renewal_probability
+     )
+     SELECT $1, s.account_id, s.score, s.risk_level, s.dimensions, s.drivers, s.arr,
+            s.renewal_date, s.renewal_date_source, s.renewal_deal_id, s.renewal_probability
+     FROM jsonb_to_recordset($2::jsonb) AS s(
+       account_id UUID, score INT, risk_level TEXT, dimensions JSONB, drivers JSONB, arr NUMERIC,
+       renewal_date DATE, renewal_date_source TEXT, renewal_deal_id UUID, renewal_probability NUMERIC
+     )`,
+    [workspaceId, JSON.stringify(scores)]
+  );
+}
+
+/** Latest renewal probability per account, if scored within maxAgeDays */
+export async function loadRenewalProbabilities(
+  workspaceId: string,
+  accountIds: string[],
+  maxAgeDays = 14
+): Promise<Map<string, number>> {
+  if (accountIds.length === 0) return new Map();
+  const result = await query<{ account_id: string; renewal_probability: string }>(
+    `SELECT DISTINCT ON (account_id) account_id, renewal_probability
+     FROM customer_health_scores
+     WHERE workspace_id = $1 AND account_id = ANY($2)
+       AND scored_at >= NOW() - make_interval(days => $3)
+       AND renewal_probability IS NOT NULL
+     ORDER BY account_id, scored_at DESC`,
+    [workspaceId, accountIds, maxAgeDays]
+  );
+  return new Map(result.rows.map(r => [r.account_id, parseFloat(r.renewal_probability)]));
+}
+
+export async function computeCustomerHealth(workspaceId: string, options: CustomerHealthOptions) {
+  const [signals, baseRate] = await Promise.all([
+    gatherCustomerSignals(workspaceId),
+    loadBaseRenewalRate(workspaceId),
+  ]);
+  const stakeholdersChecked = await checkRenewalStakeholders(workspaceId, signals, options);
+
+  const scores = signals.map(s => scoreCustomerHealth(s, baseRate.rate));
+  await persistCustomerHealth(workspaceId, scores);
+
+  const inWindow = scores.filter(s =>
+    s.days_to_renewal !== null && s.days_to_renewal >= 0 && s.days_to_renewal <= options.renewalWindowDays
+  );
+  const atRiskRenewals = inWindow
+    .filter(s => s.risk_level === 'at_risk' || s.risk_level === 'critical')
+    .sort((a, b) => b.arr - a.arr);
+
+  const distribution: Record<CustomerRiskLevel, number> = { healthy: 0, watch: 0, at_risk: 0, critical: 0 };
+  for (const s of scores) distribution[s.risk_level]++;
+
+  return {
+    customers_scored: scores.length,
+    avg_score: scores.length ? Math.round(scores.reduce((sum, s) => sum + s.score, 0) / scores.length) : 0,
+    distribution,
+    renewal_window_days: options.renewalWindowDays,
+    renewals_in_window: inWindow.length,
+    arr_in_window: inWindow.reduce((sum, s) => sum + s.arr, 0),
+    at_risk_renewals: atRiskRenewals.slice(0, 25),
+    arr_at_risk: atRiskRenewals.reduce((sum, s) => sum + s.arr, 0),
+    expected_renewal_arr: inWindow.reduce((sum, s) => sum + s.arr * s.renewal_probability, 0),
+    base_renewal_rate: Math.round(baseRate.rate * 1000) / 1000,
+    base_renewal_rate_source: baseRate.source,
+    stakeholders_checked: stakeholdersChecked,
+    signal_coverage: {
+      sentiment: scores.filter(s => s.dimensions.sentiment !== null).length,
+      support: scores.filter(s => s.dimensions.support !== null).length,
+      stakeholders: scores.filter(s => s.dimensions.stakeholders !== null).length,
+    },
+  };
+}
+
+export type CustomerHealthResult = Awaited<ReturnType<typeof computeCustomerHealth>>;
@@ -0,0 +1,433 @@
+/**
+ * Discount & Pricing Analytics
+ *
+ * Derives a discount % per deal from the best available source:
+ *   1. Line items      — list price × quantity vs net line totals
+ *   2. Custom fields   — a mapped discount % field, or list amount vs amount
+ *   3. Amount history  — first recorded amount vs current amount
+ * Pricing mentions from conversation signals are attached as context.
+ *
+ * Reports the discount distribution by rep, deal-size segment and
+ * quarter-end proximity, win-rate and cycle-time elasticity to discount,
+ * end-of-quarter discount spikes, and open deals over the workspace's
+ * discount guardrail.
+ */
+
+import { query } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
+import { classifyDealSizeBand } from './survival-data.js';
+
+export type DiscountSource = 'line_items' | 'custom_field' | 'amount_history';
+export type DiscountBucket = 'none' | '1-10' | '10-20' | '20-30' | '30+';
+export type QuarterEndBucket = 'final_2_weeks' | 'final_month' | 'earlier';
+
+export interface DealDiscountInput {
+  dealId: string;
+  dealName: string;
+  owner: string | null;
+  amount: number;
+  stage: string | null;
+  closeDate: string | null;
+  createdAt: string | null;
+  /** Line-item totals; null when the deal has no priced line items */
+  lineItemList: number | null;
+  lineItemNet: number | null;
+  customFields: Record<string, unknown>;
+  /** Earliest amount recorded in field history */
+  firstAmount: number | null;
+  pricingMentions: number;
+}
+
+export interface DealDiscount {
+  deal_id: string;
+  deal_name: string;
+  owner: string | null;
+  amount: number;
+  stage: string | null;
+  close_date: string | null;
+  discount_pct: number;
+  source: DiscountSource;
+  list_amount: number;
+  segment: string;
+  quarter_end_bucket: QuarterEndBucket | null;
+  cycle_days: number | null;
+  pricing_mentions: number;
+}
+
+export interface DiscountGroup {
+  key: string;
+  deals: number;
+  avg_discount: number;
+  median_discount: number;
+  /** Won / closed among the group's closed deals; null with none closed */
+  win_rate: number | null;
+}
+
+export interface DiscountAnalyticsOptions {
+  lookbackMonths: number;
+}
+
+const DAY_MS = 86400000;
+const DISCOUNT_PCT_FIELD = /discount/i;
+/** Discount fields holding dollars or approvals rather than a percentage */
+const DISCOUNT_NON_PCT_FIELD = /amount|value|approv/i;
+const LIST_AMOUNT_FIELD = /list.?(price|amount|value)|gross.?(amount|value)/i;
+const BUCKETS: DiscountBucket[] = ['none', '1-10', '10-20', '20-30', '30+'];
+/** Final-two-weeks average must exceed the rest of the quarter by this many points */
+const SPIKE_MIN_POINTS = 5;
+const SPIKE_MIN_DEALS = 3;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const isClosed = (stage: string | null) => stage === 'closed_won' || stage === 'closed_lost';
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/[%,$\s]/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+/** Least-squares slope of y on x; 0 when x has no spread */
+function slope(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i] - mx) * (ys[i] - my);
+    den += (xs[i] - mx) ** 2;
+  }
+  return den > 0 ? num / den : 0;
+}
+
+// ─── Pure helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Discount % for a deal from line items, then mapped custom fields, then the
+ * drop from the first recorded amount. Amount increases count as no discount.
+ */
+export function deriveDiscount(input: DealDiscountInput): { pct: number; source: DiscountSource; listAmount: number } | null {
+  const clamp = (pct: number) => round1(Math.min(100, Math.max(0, pct)));
+
+  if (input.lineItemList && input.lineItemList > 0 && input.lineItemNet !== null) {
+    return {
+      pct: clamp((1 - input.lineItemNet / input.lineItemList) * 100),
+      source: 'line_items',
+      listAmount: input.lineItemList,
+    };
+  }
+
+  const fields = input.customFields || {};
+  const discountKey = Object.keys(fields).find(k => {
+    const value = toNumber(fields[k]);
+    return DISCOUNT_PCT_FIELD.test(k) && !DISCOUNT_NON_PCT_FIELD.test(k) && value !== null && value >= 0 && value <= 100;
+  });
+  if (discountKey) {
+    let pct = toNumber(fields[discountKey])!;
+    // Fractions (0.15) are stored as well as percentages (15)
+    if (pct > 0 && pct < 1) pct *= 100;
+    const listAmount = pct < 100 ? input.amount / (1 - pct / 100) : input.amount;
+    return { pct: clamp(pct), source: 'custom_field', listAmount };
+  }
+  const listKey = Object.keys(fields).find(k => LIST_AMOUNT_FIELD.test(k) && (toNumber(fields[k]) ?? 0) > 0);
+  if (listKey) {
+    const listAmount = toNumber(fields[listKey])!;
+    return { pct: clamp((1 - input.amount / listAmount) * 100), source: 'custom_field', listAmount };
+  }
+
+  if (input.firstAmount && input.firstAmount > 0) {
+    return {
+      pct: clamp((1 - input.amount / input.firstAmount) * 100),
+      source: 'amount_history',
+      listAmount: Math.max(input.firstAmount, input.amount),
+    };
+  }
+
+  return null;
+}
+
+export function discountBucket(pct: number): DiscountBucket {
+  if (pct < 1) return 'none';
+  if (pct < 10) return '1-10';
+  if (pct < 20) return '10-20';
+  if (pct < 30) return '20-30';
+  return '30+';
+}
+
+/** Fiscal quarter containing `date`, given the fiscal year's first month (1-12) */
+export function fiscalQuarterFor(date: Date, fiscalYearStartMonth = 1): { label: string; start: Date; end: Date } {
+  const month = date.getUTCMonth();
+  const offset = (month - (fiscalYearStartMonth - 1) + 12) % 12;
+  const startMonth = month - (offset % 3);
+  const start = new Date(Date.UTC(date.getUTCFullYear(), startMonth, 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), startMonth + 3, 0));
+  const fiscalYear = date.getUTCFullYear() + (fiscalYearStartMonth > 1 && month >= fiscalYearStartMonth - 1 ? 1 : 0);
+  return { label: `FY${fiscalYear} Q${Math.floor(offset / 3) + 1}`, start, end };
+}
+
+export function quarterEndProximity(date: Date, fiscalYearStartMonth = 1): { daysToQuarterEnd: number; bucket: QuarterEndBucket } {
+  const { end } = fiscalQuarterFor(date, fiscalYearStartMonth);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const daysToQuarterEnd = Math.round((end.getTime() - day) / DAY_MS);
+  const bucket: QuarterEndBucket = daysToQuarterEnd < 14 ? 'final_2_weeks' : daysToQuarterEnd < 31 ? 'final_month' : 'earlier';
+  return { daysToQuarterEnd, bucket };
+}
+
+export function groupDiscounts(deals: DealDiscount[], keyFn: (d: DealDiscount) => string | null): DiscountGroup[] {
+  const groups = new Map<string, DealDiscount[]>();
+  for (const d of deals) {
+    const key = keyFn(d);
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(d);
+  }
+
+  return [...groups.entries()]
+    .map(([key, members]) => {
+      const closed = members.filter(d => isClosed(d.stage));
+      const pcts = members.map(d => d.discount_pct);
+      return {
+        key,
+        deals: members.length,
+        avg_discount: round1(mean(pcts)),
+        median_discount: round1(median(pcts)),
+        win_rate: closed.length
+          ? Math.round((closed.filter(d => d.stage === 'closed_won').length / closed.length) * 1000) / 1000
+          : null,
+      };
+    })
+    .sort((a, b) => b.avg_discount - a.avg_discount);
+}
+
+/**
+ * Win rate and cycle time per discount bucket for closed deals, plus the
+ * least-squares change per 10 points of discount.
+ */
+export function discountElasticity(closedDeals: DealDiscount[]) {
+  const byBucket = BUCKETS.map(bucket => {
+    const members = closedDeals.filter(d => discountBucket(d.discount_pct) === bucket);
+    const won = members.filter(d => d.stage === 'closed_won');
+    const cycles = won.map(d => d.cycle_days).filter((c): c is number => c !== null);
+    return {
+      bucket,
+      deals: members.length,
+      win_rate: members.length ? Math.round((won.length / members.length) * 1000) / 1000 : null,
+      median_cycle_days: cycles.length ? Math.round(median(cycles)) : null,
+    };
+  });
+
+  const wonWithCycle = closedDeals.filter(d => d.stage === 'closed_won' && d.cycle_days !== null);
+  return {
+    closed_deals: closedDeals.length,
+    by_bucket: byBucket,
+    win_rate_change_per_10pts: Math.round(
+      slope(closedDeals.map(d => d.discount_pct), closedDeals.map(d => (d.stage === 'closed_won' ? 1 : 0))) * 10 * 1000
+    ) / 1000,
+    cycle_days_change_per_10pts: round1(
+      slope(wonWithCycle.map(d => d.discount_pct), wonWithCycle.map(d => d.cycle_days as number)) * 10
+    ),
+  };
+}
+
+/**
+ * Average discount on won deals closed in a quarter's final two weeks vs
+ * the rest of that quarter. A spike needs enough late deals and a gap of
+ * at least SPIKE_MIN_POINTS.
+ */
+export function quarterEndSpikes(wonDeals: DealDiscount[], fiscalYearStartMonth = 1) {
+  const quarters = new Map<string, { late: number[]; rest: number[] }>();
+  for (const d of wonDeals) {
+    if (!d.close_date) continue;
+    const closeDate = new Date(d.close_date);
+    const { label } = fiscalQuarterFor(closeDate, fiscalYearStartMonth);
+    const { bucket } = quarterEndProximity(closeDate, fiscalYearStartMonth);
+    if (!quarters.has(label)) quarters.set(label, { late: [], rest: [] });
+    quarters.get(label)![bucket === 'final_2_weeks' ? 'late' : 'rest'].push(d.discount_pct);
+  }
+
+  const isSpike = (late: number[], rest: number[]) =>
+    late.length >= SPIKE_MIN_DEALS && rest.length > 0 && mean(late) - mean(rest) >= SPIKE_MIN_POINTS;
+
+  const byQuarter = [...quarters.entries()]
+    .map(([quarter, { late, rest }]) => ({
+      quarter,
+      final_2_weeks_deals: late.length,
+      final_2_weeks_avg_discount: late.length ? round1(mean(late)) : null,
+      rest_of_quarter_avg_discount: rest.length ? round1(mean(rest)) : null,
+      spike: isSpike(late, rest),
+    }))
+    .sort((a, b) => a.quarter.localeCompare(b.quarter));
+
+  const allLate = [...quarters.values()].flatMap(q => q.late);
+  const allRest = [...quarters.values()].flatMap(q => q.rest);
+  return {
+    final_2_weeks_avg_discount: allLate.length ? round1(mean(allLate)) : null,
+    rest_of_quarter_avg_discount: allRest.length ? round1(mean(allRest)) : null,
+    spike_detected: isSpike(allLate, allRest),
+    spike_quarters: byQuarter.filter(q => q.spike).length,
+    by_quarter: byQuarter,
+  };
+}
+
+/** Attach discount, segment, quarter-end bucket and cycle time to each deal with a derivable discount */
+export function buildDealDiscounts(inputs: DealDiscountInput[], fiscalYearStartMonth = 1): DealDiscount[] {
+  const amounts = inputs.map(i => i.amount).sort((a, b) => a - b);
+  const quartile = (q: number) => amounts.length ? amounts[Math.min(amounts.length - 1, Math.floor(amounts.length * q))] : 0;
+  const sizeDistribution = { p25: quartile(0.25), p75: quartile(0.75) };
+
+  const deals: DealDiscount[] = [];
+  for (const input of inputs) {
+    const discount = deriveDiscount(input);
+    if (!discount) continue;
+    const closed = isClosed(input.stage);
+    const closeDate = input.closeDate ? new Date(input.closeDate) : null;
+    const createdAt = input.createdAt ? new Date(input.createdAt) : null;
+    deals.push({
+      deal_id: input.dealId,
+      deal_name: input.dealName,
+      owner: input.owner,
+      amount: input.amount,
+      stage: input.stage,
+      close_date: input.closeDate,
+      discount_pct: discount.pct,
+      source: discount.source,
+      list_amount: Math.round(discount.listAmount),
+      segment: classifyDealSizeBand(input.amount, sizeDistribution),
+      quarter_end_bucket: closed && closeDate ? quarterEndProximity(closeDate, fiscalYearStartMonth).bucket : null,
+      cycle_days: closed && closeDate && createdAt
+        ? Math.max(0, Math.round((closeDate.getTime() - createdAt.getTime()) / DAY_MS))
+        : null,
+      pricing_mentions: input.pricingMentions,
+    });
+  }
+  return deals;
+}
+
+// ─── Data gathering ──────────────────────────────────────────────────────────
+
+export async function gatherDealDiscountInputs(workspaceId: string, lookbackMonths: number): Promise<DealDiscountInput[]> {
+  const result = await query<{
+    id: string;
+    name: string;
+    owner: string | null;
+    amount: string;
+    stage_normalized: string | null;
+    close_date: string | null;
+    created_at: string | null;
+    custom_fields: Record<string, unknown> | null;
+    list_total: string | null;
+    net_total: string | null;
+    first_amount: string | null;
+    pricing_mentions: string;
+  }>(
+    `SELECT d.id, d.name, d.owner, d.amount, d.stage_normalized, d.close_date, d.created_at, d.custom_fields,
+            li.list_total, li.net_total, fh.first_amount, COALESCE(cs.mentions, 0) AS pricing_mentions
+     FROM deals d
+     LEFT JOIN LATERAL (
+       SELECT SUM(l.quantity * COALESCE(l.list_price, l.unit_price)) AS list_total, SUM(l.amount) AS net_total
+       FROM deal_line_items l
+       WHERE l.workspace_id = d.workspace_id AND l.deal_id = d.id
+     ) li ON true
+     LEFT JOIN LATERAL (
+       SELECT COALESCE(NULLIF(h.from_value, ''), h.to_value) AS first_amount
+       FROM deal_field_history h
+       WHERE h.deal_id = d.id AND h.field_name = 'amount'
+       ORDER BY h.changed_at ASC
+       LIMIT 1
+     ) fh ON true
+     LEFT JOIN LATERAL (
+       SELECT COUNT(*) AS mentions
+       FROM conversation_signals s
+       WHERE s.workspace_id = d.workspace_id AND s.deal_id = d.id AND s.signal_type = 'pricing_discussed'
+     ) cs ON true
+     WHERE d.workspace_id = $1
+       AND d.amount > 0
+       AND (
+         d.stage_normalized NOT IN ('closed_won', 'closed_lost')
+         OR d.close_date >= CURRENT_DATE - ($2 || ' months')::interval
+       )`,
+    [workspaceId, String(lookbackMonths)]
+  );
+
+  return result.rows.map(r => ({
+    dealId: r.id,
+    dealName: r.name,
+    owner: r.owner,
+    amount: parseFloat(r.amount),
+    stage: r.stage_normalized,
+    closeDate: r.close_date,
+    createdAt: r.created_at,
+    lineItemList: toNumber(r.list_total),
+    lineItemNet: toNumber(r.net_total),
+    customFields: r.custom_fields || {},
+    firstAmount: toNumber(r.first_amount),
+    pricingMentions: parseInt(r.pricing_mentions, 10) || 0,
+  }));
+}
+
+export async function computeDiscountAnalytics(workspaceId: string, options: DiscountAnalyticsOptions) {
+  const [inputs, guardrail, config] = await Promise.all([
+    gatherDealDiscountInputs(workspaceId, options.lookbackMonths),
+    configLoader.getDiscountGuardrail(workspaceId),
+    configLoader.getConfig(workspaceId),
+  ]);
+  const fiscalYearStartMonth = config.cadence?.fiscal_year_start_month || 1;
+
+  const deals = buildDealDiscounts(inputs, fiscalYearStartMonth);
+  const closed = deals.filter(d => isClosed(d.stage));
+  const won = closed.filter(d => d.stage === 'closed_won');
+  const pcts = deals.map(d => d.discount_pct);
+
+  const distribution = Object.fromEntries(BUCKETS.map(b => [b, 0])) as Record<DiscountBucket, number>;
+  for (const d of deals) distribution[discountBucket(d.discount_pct)]++;
+
+  const overGuardrail = deals
+    .filter(d => !isClosed(d.stage) && d.discount_pct > guardrail.pct)
+    .sort((a, b) => b.list_amount - b.amount - (a.list_amount - a.amount));
+
+  const withMentions = deals.filter(d => d.pricing_mentions > 0);
+  const withoutMentions = deals.filter(d => d.pricing_mentions === 0);
+
+  return {
+    lookback_months: options.lookbackMonths,
+    guardrail_pct: guardrail.pct,
+    guardrail_source: guardrail.source,
+    deals_considered: inputs.length,
+    deals_with_discount: deals.length,
+    source_coverage: {
+      line_items: deals.filter(d => d.source === 'line_items').length,
+      custom_field: deals.filter(d => d.source === 'custom_field').length,
+      amount_history: deals.filter(d => d.source === 'amount_history').length,
+    },
+    overall: {
+      avg_discount: round1(mean(pcts)),
+      median_discount: round1(median(pcts)),
+      distribution,
+    },
+    by_rep: groupDiscounts(deals, d => d.owner).slice(0, 15),
+    by_segment: groupDiscounts(deals, d => d.segment),
+    by_quarter_end_proximity: groupDiscounts(closed, d => d.quarter_end_bucket),
+    elasticity: discountElasticity(closed),
+    quarter_end_spike: quarterEndSpikes(won, fiscalYearStartMonth),
+    pricing_discussion: {
+      deals_with_pricing_mentions: withMentions.length,
+      avg_discount_with_mentions: withMentions.length ? round1(mean(withMentions.map(d => d.discount_pct))) : null,
+      avg_discount_without_mentions: withoutMentions.length ? round1(mean(withoutMentions.map(d => d.discount_pct))) : null,
+    },
+    over_guardrail: overGuardrail.slice(0, 25),
+    over_guardrail_count: overGuardrail.length,
+    over_guardrail_amount: overGuardrail.reduce((sum, d) => sum + d.amount, 0),
+  };
+}
+
+export type DiscountAnalyticsResult = Awaited<ReturnType<typeof computeDiscountAnalytics>>;
@@ -0,0 +1,719 @@
+/**
+ * Forecast Backtesting
+ *
+ * Replays completed quarters to measure how well monte-carlo-forecast and the
+ * forecast-rollup methods would have called them. For each quarter the open
+ * pipeline is reconstructed as of the snapshot date from deal_stage_history /
+ * deal_field_history, distributions are re-fitted from deals that had closed
+ * by that date (no future leakage), and each method's P10/P50/P90 is scored
+ * against actual closed-won.
+ *
+ * Methods:
+ * - monte_carlo           runSimulation() on the as-of pipeline and distributions
+ * - rollup_tte            forecast-rollup survival-curve bear/base/bull
+ * - rollup_category       forecast-rollup CRM category sums (needs forecast category history)
+ * - rollup_stage_weighted open pipeline × as-of stage win rates (point estimate)
+ *
+ * Known approximations: owner and pipeline are current values, and close time
+ * comes from deal_outcomes / stage history, falling back to close_date.
+ */
+
+import { query } from '../db.js';
+import { reconstructDealStateAtDate } from './field-history-queries.js';
+import { runSimulation, type OpenDeal } from './monte-carlo-engine.js';
+import {
+  computeKaplanMeier,
+  conditionalWinProbability,
+  expectedValueInWindow,
+  assessDataTier,
+  type DealObservation,
+} from './survival-curve.js';
+import type {
+  FittedDistributions,
+  LogNormalDistribution,
+  NormalDistribution,
+  PipelineRateDistribution,
+} from './monte-carlo-distributions.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type BacktestMethod = 'monte_carlo' | 'rollup_tte' | 'rollup_category' | 'rollup_stage_weighted';
+export type BacktestSegmentBy = 'pipeline' | 'owner';
+
+export interface BacktestOptions {
+  quarters?: number;             // completed quarters to replay (default 4)
+  snapshotOffsetDays?: number;   // days after quarter start to take the snapshot (default 0)
+  iterations?: number;           // Monte Carlo iterations per snapshot (default 2000)
+  segmentBy?: BacktestSegmentBy | null;
+  lookbackMonths?: number;       // history used for as-of fitting (default 24)
+}
+
+export type BacktestParams = Required<BacktestOptions>;
+
+export interface BacktestPrediction {
+  quarterLabel: string;
+  quarterStart: string;          // YYYY-MM-DD
+  quarterEnd: string;
+  snapshotDate: string;
+  segment: string;               // 'all' or the segment value
+  method: BacktestMethod;
+  p10: number | null;
+  p25: number | null;
+  p50: number;
+  p75: number | null;
+  p90: number | null;
+  actual: number;
+  closedWonAtSnapshot: number;
+  openDeals: number;
+  openPipeline: number;
+}
+
+export interface BacktestCalibration {
+  segment: string;
+  method: BacktestMethod;
+  quarters: number;
+  coverage80: number | null;      // share of quarters with actual in [P10, P90], target 0.8
+  coverage50: number | null;      // share of quarters with actual in [P25, P75], target 0.5
+  mape: number | null;            // mean |P50 - actual| / actual
+  bias: number | null;            // mean (P50 - actual) / actual, positive = over-forecast
+  pinballLoss: number | null;     // mean quantile loss over available quantiles
+  pinballLossScaled: number | null; // pinballLoss / mean actual
+}
+
+export interface ForecastBacktestResult {
+  params: BacktestParams;
+  results: BacktestPrediction[];
+  calibration: BacktestCalibration[];
+  warnings: string[];
+}
+
+export interface HistoricalDeal {
+  id: string;
+  name: string;
+  amount: number;
+  createdAt: Date;
+  closedAt: Date | null;          // when the deal reached its current closed stage
+  closeDate: Date | null;
+  stageNormalized: string | null;
+  owner: string | null;
+  pipeline: string | null;
+}
+
+export interface StageVisit {
+  dealId: string;
+  stageNormalized: string;
+  enteredAt: Date;
+}
+
+interface BacktestQuarter {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_BACKTEST_PARAMS: BacktestParams = {
+  quarters: 4,
+  snapshotOffsetDays: 0,
+  iterations: 2000,
+  segmentBy: null,
+  lookbackMonths: 24,
+};
+
+const MAX_SEGMENTS = 10;
+const DAY_MS = 86400000;
+const CLOSED_STAGES = new Set(['closed_won', 'closed_lost']);
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function stdev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return (b.getTime() - a.getTime()) / DAY_MS;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const d = new Date(date);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+function dateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function fitLogNormal(values: number[], fallbackMedian: number, reliableAt: number): LogNormalDistribution {
+  if (values.length === 0) {
+    return { mu: Math.log(fallbackMedian), sigma: 0.8, median: fallbackMedian, sampleSize: 0, isReliable: false };
+  }
+  const logs = values.map(v => Math.log(v));
+  const mu = mean(logs);
+  return {
+    mu,
+    sigma: Math.max(stdev(logs), 0.1),
+    median: Math.exp(mu),
+    sampleSize: values.length,
+    isReliable: values.length >= reliableAt,
+  };
+}
+
+export function resolveBacktestParams(options: BacktestOptions = {}): BacktestParams {
+  return {
+    quarters: Math.min(12, Math.max(1, Math.floor(options.quarters ?? DEFAULT_BACKTEST_PARAMS.quarters))),
+    snapshotOffsetDays: Math.min(60, Math.max(0, Math.floor(options.snapshotOffsetDays ?? DEFAULT_BACKTEST_PARAMS.snapshotOffsetDays))),
+    iterations: Math.min(10000, Math.max(100, Math.floor(options.iterations ?? DEFAULT_BACKTEST_PARAMS.iterations))),
+    segmentBy: options.segmentBy === 'pipeline' || options.segmentBy === 'owner' ? options.segmentBy : null,
+    lookbackMonths: Math.min(48, Math.max(6, Math.floor(options.lookbackMonths ?? DEFAULT_BACKTEST_PARAMS.lookbackMonths))),
+  };
+}
+
+/**
+ * The `count` most recent calendar quarters that ended before `now`, oldest first.
+ */
+export function completedQuarters(now: Date, count: number): BacktestQuarter[] {
+  const currentStart = new Date(Date.UTC(now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) * 3, 1));
+  const quarters: BacktestQuarter[] = [];
+  for (let i = count; i >= 1; i--) {
+    const start = addMonths(currentStart, -3 * i);
+    const end = new Date(addMonths(start, 3).getTime() - 1);
+    quarters.push({
+      label: `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${start.getUTCFullYear()}`,
+      start,
+      end,
+    });
+  }
+  return quarters;
+}
+
+// ─── As-of Fitting ────────────────────────────────────────────────────────────
+
+/**
+ * Fit Monte Carlo distributions using only what was known at `asOf`:
+ * deals closed before it and pipeline created before it. Mirrors the live
+ * fitters in monte-carlo-distributions.ts with NOW() replaced by asOf.
+ */
+export function fitDistributionsAsOf(
+  history: HistoricalDeal[],
+  asOf: Date,
+  lookbackMonths: number
+): { distributions: FittedDistributions; closedDealCount: number } {
+  const windowStart = addMonths(asOf, -lookbackMonths);
+  const closed = history.filter(d => d.closedAt && d.closedAt < asOf && d.closedAt >= windowStart);
+  const won = closed.filter(d => d.stageNormalized === 'closed_won');
+
+  // Deal size — closed-won amounts, falling back to all closed amounts
+  let sizes = won.map(d => d.amount).filter(a => a > 0);
+  if (sizes.length < 5) sizes = sizes.concat(closed.filter(d => d.stageNormalized !== 'closed_won').map(d => d.amount).filter(a => a > 0));
+  const dealSize = fitLogNormal(sizes, 75000, 20);
+
+  // Cycle length — created to closed, excluding > 2 years
+  const cycles = closed
+    .map(d => daysBetween(d.createdAt, d.closedAt!))
+    .filter(days => days > 0 && days <= 730);
+  const cycleLength = cycles.length > 0
+    ? fitLogNormal(cycles, 90, 20)
+    : { mu: Math.log(90), sigma: 0.6, median: 90, sampleSize: 0, isReliable: false };
+
+  // Close date slippage — keyed by outcome stage, like fitCloseSlippageDistribution
+  const slippage: Record<string, NormalDistribution> = {};
+  for (const stage of CLOSED_STAGES) {
+    const values = closed
+      .filter(d => d.stageNormalized === stage && d.closeDate)
+      .map(d => daysBetween(d.closeDate!, d.closedAt!))
+      .filter(days => days >= -365 && days <= 365);
+    if (values.length === 0) continue;
+    slippage[stage] = {
+      mean: mean(values),
+      sigma: values.length > 1 ? Math.max(stdev(values), 7) : 21,
+      sampleSize: values.length,
+      isReliable: values.length >= 10,
+    };
+  }
+
+  // Pipeline creation rates — per owner per month over the prior 12 months
+  const rateWindowStart = addMonths(asOf, -12);
+  const repMonths = new Map<string, { months: Map<string, number>; firstDealAt: Date }>();
+  for (const d of history) {
+    if (!d.owner || d.createdAt >= asOf || d.createdAt < rateWindowStart) continue;
+    const rep = repMonths.get(d.owner) ?? { months: new Map<string, number>(), firstDealAt: d.createdAt };
+    const month = d.createdAt.toISOString().slice(0, 7);
+    rep.months.set(month, (rep.months.get(month) ?? 0) + 1);
+    if (d.createdAt < rep.firstDealAt) rep.firstDealAt = d.createdAt;
+    repMonths.set(d.owner, rep);
+  }
+  const allCounts = [...repMonths.values()].flatMap(r => [...r.months.values()]);
+  const teamMean = allCounts.length > 0 ? mean(allCounts) : 2;
+  const pipelineRates: Record<string, PipelineRateDistribution> = {};
+  for (const [owner, rep] of repMonths) {
+    const counts = [...rep.months.values()];
+    const monthsSinceHire = Math.floor(daysBetween(rep.firstDealAt, asOf) / 30);
+    const rampFactor = monthsSinceHire <= 2 ? 0.25 : monthsSinceHire <= 4 ? 0.5 : monthsSinceHire <= 5 ? 0.75 : 1.0;
+    pipelineRates[owner] = counts.length < 3
+      ? { mean: teamMean, sigma: Math.max(teamMean * 0.5, 0.5), sampleSize: counts.length, isReliable: false, rampFactor }
+      : { mean: mean(counts), sigma: Math.max(stdev(counts), 0.5), sampleSize: counts.length, isReliable: counts.length >= 6, rampFactor };
+  }
+
+  // Survival curve — deals still open at asOf are censored at their age then
+  const observations: DealObservation[] = history
+    .filter(d => d.createdAt < asOf && d.createdAt >= windowStart && d.amount > 0)
+    .map(d => {
+      const closedByThen = d.closedAt != null && d.closedAt < asOf;
+      return {
+        dealId: d.id,
+        daysOpen: Math.max(0, daysBetween(d.createdAt, closedByThen ? d.closedAt! : asOf)),
+        event: closedByThen && d.stageNormalized === 'closed_won',
+        amount: d.amount,
+      };
+    });
+
+  return {
+    distributions: {
+      survivalCurve: computeKaplanMeier(observations),
+      stageCurves: null,
+      dealSize,
+      cycleLength,
+      slippage,
+      pipelineRates,
+    },
+    closedDealCount: closed.length,
+  };
+}
+
+/**
+ * Win rate per stage among deals that had closed by `asOf`, counting each
+ * stage a deal had entered. Stages with fewer than 5 closed deals fall back
+ * to the overall win rate.
+ */
+export function stageWinRatesAsOf(
+  history: HistoricalDeal[],
+  visits: StageVisit[],
+  asOf: Date
+): { rates: Record<string, number>; overall: number } {
+  const closedBefore = new Map(
+    history.filter(d => d.closedAt && d.closedAt < asOf).map(d => [d.id, d.stageNormalized === 'closed_won'])
+  );
+  const totals: Record<string, { won: number; closed: number }> = {};
+  const seen = new Set<string>();
+  for (const v of visits) {
+    if (v.enteredAt >= asOf || CLOSED_STAGES.has(v.stageNormalized)) continue;
+    const won = closedBefore.get(v.dealId);
+    if (won === undefined) continue;
+    const key = `${v.dealId}:${v.stageNormalized}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    totals[v.stageNormalized] = totals[v.stageNormalized] ?? { won: 0, closed: 0 };
+    totals[v.stageNormalized].closed++;
+    if (won) totals[v.stageNormalized].won++;
+  }
+
+  const outcomes = [...closedBefore.values()];
+  const overall = outcomes.length > 0 ? outcomes.filter(Boolean).length / outcomes.length : 0.25;
+  const rates: Record<string, number> = {};
+  for (const [stage, t] of Object.entries(totals)) {
+    rates[stage] = t.closed >= 5 ? t.won / t.closed : overall;
+  }
+  return { rates, overall };
+}
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+/**
+ * Quantile (pinball) loss of a single prediction at quantile q.
+ */
+export function pinballLoss(actual: number, predicted: number, q: number): number {
+  const diff = actual - predicted;
+  return diff >= 0 ? q * diff : (q - 1) * diff;
+}
+
+/**
+ * Aggregate predictions into calibration metrics per segment and method.
+ */
+export function computeCalibration(predictions: BacktestPrediction[]): BacktestCalibration[] {
+  const groups = new Map<string, BacktestPrediction[]>();
+  for (const p of predictions) {
+    const key = `${p.segment}\u0000${p.method}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(p);
+  }
+
+  const calibration: BacktestCalibration[] = [];
+  for (const rows of groups.values()) {
+    const interval80 = rows.filter(r => r.p10 != null && r.p90 != null);
+    const interval50 = rows.filter(r => r.p25 != null && r.p75 != null);
+    const withActual = rows.filter(r => r.actual > 0);
+
+    const losses = rows.map(r => {
+      const parts = [pinballLoss(r.actual, r.p50, 0.5)];
+      if (r.p10 != null) parts.push(pinballLoss(r.actual, r.p10, 0.1));
+      if (r.p90 != null) parts.push(pinballLoss(r.actual, r.p90, 0.9));
+      return mean(parts);
+    });
+    const pinball = rows.length > 0 ? mean(losses) : null;
+    const meanActual = mean(rows.map(r => r.actual));
+
+    calibration.push({
+      segment: rows[0].segment,
+      method: rows[0].method,
+      quarters: rows.length,
+      coverage80: interval80.length > 0
+        ? interval80.filter(r => r.actual >= r.p10! && r.actual <= r.p90!).length / interval80.length
+        : null,
+      coverage50: interval50.length > 0
+        ? interval50.filter(r => r.actual >= r.p25! && r.actual <= r.p75!).length / interval50.length
+        : null,
+      mape: withActual.length > 0 ? mean(withActual.map(r => Math.abs(r.p50 - r.actual) / r.actual)) : null,
+      bias: withActual.length > 0 ? mean(withActual.map(r => (r.p50 - r.actual) / r.actual)) : null,
+      pinballLoss: pinball,
+      pinballLossScaled: pinball != null && meanActual > 0 ? pinball / meanActual : null,
+    });
+  }
+
+  return calibration.sort((a, b) =>
+    a.segment === b.segment ? a.method.localeCompare(b.method) : a.segment === 'all' ? -1 : b.segment === 'all' ? 1 : a.segment.localeCompare(b.segment)
+  );
+}
+
+// ─── Data Loading ─────────────────────────────────────────────────────────────
+
+async function loadHistory(workspaceId: string, since: Date): Promise<HistoricalDeal[]> {
+  const result = await query<{
+    id: string;
+    name: string | null;
+    amount: number | null;
+    created_at: string;
+    closed_at: string | null;
+    close_date: string | null;
+    stage_normalized: string | null;
+    owner: string | null;
+    pipeline: string | null;
+  }>(
+    `SELECT d.id, d.name, d.amount::float AS amount, d.created_at, d.close_date::text AS close_date,
+            d.stage_normalized, d.owner, d.pipeline,
+            CASE WHEN d.stage_normalized IN ('closed_won', 'closed_lost') THEN COALESCE(
+              (SELECT MAX(o.closed_at) FROM deal_outcomes o
+               WHERE o.workspace_id = d.workspace_id AND o.deal_id = d.id),
+              (SELECT MIN(h.entered_at) FROM deal_stage_history h
+               WHERE h.workspace_id = d.workspace_id AND h.deal_id = d.id AND h.stage_normalized = d.stage_normalized),
+              d.close_date::timestamptz
+            ) END AS closed_at
+     FROM deals d
+     WHERE d.workspace_id = $1
+       AND d.created_at IS NOT NULL
+       AND (d.created_at >= $2 OR d.close_date >= $2::date OR d.stage_normalized NOT IN ('closed_won', 'closed_lost'))`,
+    [workspaceId, since.toISOString()]
+  );
+
+  return result.rows.map(r => ({
+    id: r.id,
+    name: r.name ?? '',
+    amount: Number(r.amount) || 0,
+    createdAt: new Date(r.created_at),
+    closedAt: r.closed_at ? new Date(r.closed_at) : null,
+    closeDate: r.close_date ? new Date(r.close_date) : null,
+    stageNormalized: r.stage_normalized,
+    owner: r.owner,
+    pipeline: r.pipeline,
+  }));
+}
+
+async function loadStageVisits(workspaceId: string, before: Date): Promise<StageVisit[]> {
+  const result = await query<{ deal_id: string; stage_normalized: string; entered_at: string }>(
+    `SELECT deal_id, stage_normalized, entered_at
+     FROM deal_stage_history
+     WHERE workspace_id = $1 AND entered_at < $2 AND stage_normalized IS NOT NULL`,
+    [workspaceId, before.toISOString()]
+  );
+  return result.rows.map(r => ({ dealId: r.deal_id, stageNormalized: r.stage_normalized, enteredAt: new Date(r.entered_at) }));
+}
+
+// ─── Method Predictions ───────────────────────────────────────────────────────
+
+interface SnapshotDeal extends OpenDeal {
+  forecastCategory: string | null;
+}
+
+function normalizeCategory(raw: string | null): string | null {
+  if (!raw) return null;
+  const cat = raw.trim().toLowerCase().replace(/\s+/g, '_');
+  if (cat === 'bestcase') return 'best_case';
+  return cat;
+}
+
+function predictQuarter(
+  quarter: BacktestQuarter,
+  asOf: Date,
+  openDeals: SnapshotDeal[],
+  closedWonAtSnapshot: number,
+  fitted: FittedDistributions,
+  stageRates: { rates: Record<string, number>; overall: number },
+  iterations: number
+): Array<Pick<BacktestPrediction, 'method' | 'p10' | 'p25' | 'p50' | 'p75' | 'p90'>> {
+  const predictions: Array<Pick<BacktestPrediction, 'method' | 'p10' | 'p25' | 'p50' | 'p75' | 'p90'>> = [];
+  const base = closedWonAtSnapshot;
+
+  const sim = runSimulation({
+    openDeals,
+    distributions: fitted,
+    riskAdjustments: {},
+    forecastWindowEnd: quarter.end,
+    today: asOf,
+    iterations,
+  }, null);
+  predictions.push({
+    method: 'monte_carlo',
+    p10: base + sim.p10,
+    p25: base + sim.p25,
+    p50: base + sim.p50,
+    p75: base + sim.p75,
+    p90: base + sim.p90,
+  });
+
+  // Rollup methods call the quarter from deals expected to close in it
+  const inQuarter = openDeals.filter(d => d.closeDate <= quarter.end);
+
+  const curve = fitted.survivalCurve;
+  if (assessDataTier(curve) >= 2) {
+    const daysRemaining = Math.max(1, Math.round(daysBetween(asOf, quarter.end)));
+    let bear = 0, baseCase = 0, bull = 0;
+    for (const d of inQuarter) {
+      const age = d.createdAt ? Math.max(0, daysBetween(d.createdAt, asOf)) : 0;
+      const { confidence } = conditionalWinProbability(curve, age);
+      bear += d.amount * confidence.lower;
+      baseCase += expectedValueInWindow(curve, age, daysRemaining, d.amount).expectedValue;
+      bull += d.amount * confidence.upper;
+    }
+    predictions.push({ method: 'rollup_tte', p10: base + bear, p25: null, p50: base + baseCase, p75: null, p90: base + bull });
+  }
+
+  if (inQuarter.some(d => d.forecastCategory)) {
+    const sums: Record<string, number> = { commit: 0, best_case: 0, pipeline: 0 };
+    for (const d of inQuarter) {
+      const cat = d.forecastCategory ?? 'pipeline';
+      if (cat in sums) sums[cat] += d.amount;
+    }
+    predictions.push({
+      method: 'rollup_category',
+      p10: base + sums.commit,
+      p25: null,
+      p50: base + sums.commit + sums.best_case,
+      p75: null,
+      p90: base + sums.commit + sums.best_case + sums.pipeline,
+    });
+  }
+
+  const weighted = inQuarter.reduce((s, d) => s + d.amount * (stageRates.rates[d.stageNormalized] ?? stageRates.overall), 0);
+  predictions.push({ method: 'rollup_stage_weighted', p10: null, p25: null, p50: base + weighted, p75: null, p90: null });
+
+  return predictions;
+}
+
+// ─── Orchestration ────────────────────────────────────────────────────────────
+
+export async function runForecastBacktest(
+  workspaceId: string,
+  options: BacktestOptions = {},
+  now: Date = new Date()
+): Promise<ForecastBacktestResult> {
+  const params = resolveBacktestParams(options);
+  const quarters = completedQuarters(now, params.quarters);
+  const warnings: string[] = [];
+  const results: BacktestPrediction[] = [];
+
+  const earliest = addMonths(quarters[0].start, -params.lookbackMonths);
+  const [history, visits] = await Promise.all([
+    loadHistory(workspaceId, earliest),
+    loadStageVisits(workspaceId, quarters[quarters.length - 1].end),
+  ]);
+
+  if (visits.length === 0) {
+    warnings.push('No stage history found — snapshots use current stages and are approximate.');
+  }
+
+  const segmentOf = (d: HistoricalDeal): string =>
+    params.segmentBy === 'owner' ? (d.owner || 'Unassigned') : (d.pipeline || 'Default');
+
+  for (const quarter of quarters) {
+    const asOf = new Date(quarter.start.getTime() + params.snapshotOffsetDays * DAY_MS);
+
+    const candidates = history.filter(d => d.createdAt <= asOf && (!d.closedAt || d.closedAt > asOf));
+    const stateMap = await reconstructDealStateAtDate(workspaceId, candidates.map(d => d.id), asOf);
+    const byId = new Map(candidates.map(d => [d.id, d]));
+
+    const snapshot: Array<{ deal: SnapshotDeal; source: HistoricalDeal }> = [];
+    for (const state of stateMap.values()) {
+      const source = byId.get(state.dealId);
+      if (!source || !state.wasOpenOnDate || !state.amount || state.amount <= 0) continue;
+      snapshot.push({
+        source,
+        deal: {
+          id: state.dealId,
+          name: source.name,
+          amount: state.amount,
+          stageNormalized: state.stageNormalized ?? 'unknown',
+          closeDate: state.closeDate ?? quarter.end,
+          createdAt: source.createdAt,
+          ownerEmail: source.owner,
+          probability: null,
+          forecastCategory: normalizeCategory(state.forecastCategory),
+        },
+      });
+    }
+
+    const wonInQuarter = history.filter(d =>
+      d.stageNormalized === 'closed_won' && d.closeDate && d.closeDate >= quarter.start && d.closeDate <= quarter.end
+    );
+
+    const segments: Array<{ key: string; match: (d: HistoricalDeal) => boolean }> = [{ key: 'all', match: () => true }];
+    if (params.segmentBy) {
+      const volume = new Map<string, number>();
+      for (const d of [...wonInQuarter, ...snapshot.map(s => s.source)]) {
+        volume.set(segmentOf(d), (volume.get(segmentOf(d)) ?? 0) + d.amount);
+      }
+      const top = [...volume.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_SEGMENTS);
+      if (volume.size > MAX_SEGMENTS) {
+        warnings.push(`${quarter.label}: only the ${MAX_SEGMENTS} largest ${params.segmentBy} segments were backtested.`);
+      }
+      for (const [key] of top) segments.push({ key, match: d => segmentOf(d) === key });
+    }
+
+    for (const segment of segments) {
+      const segHistory = segment.key === 'all' ? history : history.filter(segment.match);
+      const segOpen = snapshot.filter(s => segment.match(s.source)).map(s => s.deal);
+      const segWon = wonInQuarter.filter(segment.match);
+      const actual = segWon.reduce((s, d) => s + d.amount, 0);
+      const closedWonAtSnapshot = segWon.filter(d => d.closedAt && d.closedAt <= asOf).reduce((s, d) => s + d.amount, 0);
+
+      if (segOpen.length === 0 && actual === 0) continue;
+
+      const { distributions, closedDealCount } = fitDistributionsAsOf(segHistory, asOf, params.lookbackMonths);
+      if (segment.key === 'all' && closedDealCount < 20) {
+        warnings.push(`${quarter.label}: only ${closedDealCount} deals had closed before the snapshot — distributions are unreliable.`);
+      }
+      const stageRates = stageWinRatesAsOf(segHistory, visits, asOf);
+
+      const predictions = predictQuarter(quarter, asOf, segOpen, closedWonAtSnapshot, distributions, stageRates, params.iterations);
+      for (const p of predictions) {
+        results.push({
+          quarterLabel: quarter.label,
+          quarterStart: dateKey(quarter.start),
+          quarterEnd: dateKey(quarter.end),
+          snapshotDate: dateKey(asOf),
+          segment: segment.key,
+          ...p,
+          actual,
+          closedWonAtSnapshot,
+          openDeals: segOpen.length,
+          openPipeline: segOpen.reduce((s, d) => s + d.amount, 0),
+        });
+      }
+    }
+  }
+
+  if (!results.some(r => r.method === 'rollup_category')) {
+    warnings.push('No forecast category field history — rollup_category could not be backtested.');
+  }
+
+  return { params, results, calibration: computeCalibration(results), warnings };
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+
+export interface ForecastBacktestRecord {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  params: BacktestParams;
+  results: BacktestPrediction[];
+  calibration: BacktestCalibration[];
+  warnings: string[];
+  error: string | null;
+  triggered_by: string | null;
+  job_id: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export async function createBacktest(
+  workspaceId: string,
+  params: BacktestParams,
+  triggeredBy: string | null
+): Promise<string> {
+  const result = await query<{ id: string }>(
+    `INSERT INTO forecast_backtests (workspace_id, status, params, triggered_by)
+     VALUES ($1, 'pending', $2, $3)
+     RETURNING id`,
+    [workspaceId, JSON.stringify(params), triggeredBy]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Run a stored backtest and record its results or failure.
+ */
+export async function executeBacktest(workspaceId: string, backtestId: string): Promise<ForecastBacktestResult> {
+  const row = await query<{ params: BacktestParams }>(
+    `UPDATE forecast_backtests SET status = 'running'
+     WHERE workspace_id = $1 AND id = $2
+     RETURNING params`,
+    [workspaceId, backtestId]
+  );
+  if (row.rows.length === 0) throw new Error(`Backtest ${backtestId} not found`);
+
+  try {
+    const result = await runForecastBacktest(workspaceId, row.rows[0].params);
+    await query(
+      `UPDATE forecast_backtests
+       SET status = 'completed', params = $3, results = $4, calibration = $5, warnings = $6, completed_at = NOW()
+       WHERE workspace_id = $1 AND id = $2`,
+      [
+        workspaceId, backtestId,
+        JSON.stringify(result.params),
+        JSON.stringify(result.results),
+        JSON.stringify(result.calibration),
+        JSON.stringify(result.warnings),
+      ]
+    );
+    console.log(`[ForecastBacktest] ${backtestId} completed — ${result.results.length} predictions`);
+    return result;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await query(
+      `UPDATE forecast_backtests SET status = 'failed', error = $3, completed_at = NOW()
+       WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, backtestId, message]
+    ).catch(() => {});
+    throw err;
+  }
+}
+
+export async function getBacktest(workspaceId: string, backtestId: string): Promise<ForecastBacktestRecord | null> {
+  const result = await query<ForecastBacktestRecord>(
+    `SELECT id, status, params, results, calibration, warnings, error, triggered_by, job_id, created_at, completed_at
+     FROM forecast_backtests
+     WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, backtestId]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function listBacktests(
+  workspaceId: string,
+  limit = 20
+): Promise<Array<Omit<ForecastBacktestRecord, 'results'>>> {
+  const result = await query<Omit<ForecastBacktestRecord, 'results'>>(
+    `SELECT id, status, params, calibration, warnings, error, triggered_by, job_id, created_at, completed_at
+     FROM forecast_backtests
+     WHERE workspace_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [workspaceId, limit]
+  );
+  return result.rows;
+}
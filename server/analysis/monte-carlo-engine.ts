@@ -20,6 +20,8 @@ export interface OpenDeal {
   createdAt?: Date;
   ownerEmail: string | null;
   probability: number | null;
+  /** Revenue credit shares (0–1); absent means 100% to ownerEmail */
+  credits?: Array<{ rep: string; share: number }>;
 }
 
 export interface DealRiskAdjustment {
@@ -36,6 +38,8 @@ export interface UpcomingRenewal {
   contractValue: number;
   expectedCloseDate: Date;
   owner: string | null;
+  /** Health-adjusted probability from the customer-health skill, when scored */
+  winProbability?: number;
 }
 
 export interface IterationRecord {
@@ -339,6 +343,14 @@ function runIterationWithDetail(
 
     existingRevenue += simulatedAmount;
     dealsWon.push(deal.id);
+
+    // Revenue splits only, so a rep's byRep never exceeds what they add to the total
+    const credits = deal.credits?.length
+      ? deal.credits
+      : deal.ownerEmail ? [{ rep: deal.ownerEmail, share: 1 }] : [];
+    for (const credit of credits) {
+      byRep[credit.rep] = (byRep[credit.rep] ?? 0) + simulatedAmount * credit.share;
+    }
   }
 
   const monthsRemaining = daysRemaining / 30;
@@ -349,8 +361,13 @@ function runIterationWithDetail(
       const renewalClose = toDate(renewal.expectedCloseDate);
       if (renewalClose > forecastEnd) continue;
 
-      const { probability: renewalWinProb } = conditionalWinProbability(inputs.distributions.survivalCurve, 0);
-      const clampedRenewalProb = Math.max(0.50, Math.min(0.95, renewalWinProb > 0 ? renewalWinProb : 0.75));
+      let clampedRenewalProb: number;
+      if (renewal.winProbability != null) {
+        clampedRenewalProb = Math.max(0.05, Math.min(0.99, renewal.winProbability));
+      } else {
+        const { probability: renewalWinProb } = conditionalWinProbability(inputs.distributions.survivalCurve, 0);
+        clampedRenewalProb = Math.max(0.50, Math.min(0.95, renewalWinProb > 0 ? renewalWinProb : 0.75));
+      }
 
       if (!sampleBernoulli(clampedRenewalProb)) continue;
 
@@ -419,7 +436,7 @@ function runIterationWithDetail(
           newDealsCreated++;
         }
       }
-      if (repRevenue > 0) byRep[repKey] = repRevenue;
+      if (repRevenue > 0) byRep[repKey] = (byRep[repKey] ?? 0) + repRevenue;
     }
   }
 
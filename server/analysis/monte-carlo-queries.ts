@@ -440,7 +440,7 @@ export function queryRepImpact(
 
   const avgContribution = iterations.reduce((s, r) => s + (r.byRep[repEmail] ?? 0), 0) / n;
 
-  // Remove rep's projected contribution from each iteration
+  // Remove rep's credited contribution (existing pipeline share + projected) from each iteration
   const withoutRep = iterations
     .map(r => r.total - (r.byRep[repEmail] ?? 0))
     .sort((a, b) => a - b);
@@ -7,6 +7,7 @@
 
 import { query } from '../db.js';
 import { getAverageTimeInStage, getRepStageMetrics } from './stage-history-queries.js';
+import { creditShareSubquery, getCreditingRules, resolveCreditScope, attainmentSplitTypes, type SplitType } from '../quotas/deal-splits.js';
 
 export interface RepMetrics {
   repName: string;
@@ -148,14 +149,21 @@ export async function repScorecard(
   dataAvailability: DataAvailability,
   staleDays: number = 14
 ): Promise<RepScorecardResult> {
-  // Get all reps from deals table
+  const creditingRules = await getCreditingRules(workspaceId);
+
+  // Get all reps from deals table, plus split-only reps (SEs, overlays)
   const repsResult = await query<{ owner: string }>(
     `SELECT DISTINCT owner
      FROM deals
      WHERE workspace_id = $1
        AND owner IS NOT NULL
-       AND owner != ''`,
-    [workspaceId]
+       AND owner != ''
+     UNION
+     SELECT DISTINCT rep
+     FROM deal_splits
+     WHERE workspace_id = $1
+       AND split_type = ANY($2::text[])`,
+    [workspaceId, attainmentSplitTypes(creditingRules)]
   );
 
   const repList = repsResult.rows.map(r => ({
@@ -167,10 +175,12 @@ export async function repScorecard(
   const repMetrics: RepMetrics[] = [];
 
   for (const rep of repList) {
+    const creditScope = await resolveCreditScope(workspaceId, rep.name, creditingRules);
     const metrics = await gatherRepMetrics(
       workspaceId,
       rep.name,
       rep.email,
+      creditScope,
       periodStart,
       periodEnd,
       changeWindowStart,
@@ -224,6 +234,7 @@ async function gatherRepMetrics(
   workspaceId: string,
   repName: string,
   repEmail: string | null,
+  creditScope: { reps: string[]; splitTypes: SplitType[] },
   periodStart: Date,
   periodEnd: Date,
   changeWindowStart: Date,
@@ -231,7 +242,8 @@ async function gatherRepMetrics(
   dataAvailability: DataAvailability,
   staleDays: number
 ): Promise<RepMetrics> {
-  // Results metrics
+  // Results metrics — amounts are the rep's credited share (splits, overlay,
+  // manager roll-up); counts and average deal size use whole deals
   const resultsResult = await query<{
     closed_won: number;
     closed_won_count: number;
@@ -241,18 +253,18 @@ async function gatherRepMetrics(
     avg_sales_cycle: number;
   }>(
     `SELECT
-      COALESCE(SUM(CASE WHEN stage_normalized = 'closed_won' THEN amount ELSE 0 END), 0) as closed_won,
-      COUNT(CASE WHEN stage_normalized = 'closed_won' THEN 1 END) as closed_won_count,
-      COUNT(CASE WHEN stage_normalized = 'closed_lost' THEN 1 END) as closed_lost_count,
-      COALESCE(SUM(CASE WHEN stage_normalized = 'closed_lost' THEN amount ELSE 0 END), 0) as closed_lost,
-      AVG(CASE WHEN stage_normalized = 'closed_won' THEN amount END) as avg_deal_size,
-      AVG(CASE WHEN stage_normalized = 'closed_won' AND close_date IS NOT NULL AND created_at IS NOT NULL
-        THEN EXTRACT(EPOCH FROM (close_date - created_at)) / 86400 END) as avg_sales_cycle
-    FROM deals
-    WHERE workspace_id = $1
-      AND owner = $2
-      AND close_date BETWEEN $3 AND $4`,
-    [workspaceId, repName, periodStart, periodEnd]
+      COALESCE(SUM(CASE WHEN d.stage_normalized = 'closed_won' THEN d.amount * cs.credit_share ELSE 0 END), 0) as closed_won,
+      COUNT(CASE WHEN d.stage_normalized = 'closed_won' THEN 1 END) as closed_won_count,
+      COUNT(CASE WHEN d.stage_normalized = 'closed_lost' THEN 1 END) as closed_lost_count,
+      COALESCE(SUM(CASE WHEN d.stage_normalized = 'closed_lost' THEN d.amount * cs.credit_share ELSE 0 END), 0) as closed_lost,
+      AVG(CASE WHEN d.stage_normalized = 'closed_won' THEN d.amount END) as avg_deal_size,
+      AVG(CASE WHEN d.stage_normalized = 'closed_won' AND d.close_date IS NOT NULL AND d.created_at IS NOT NULL
+        THEN EXTRACT(EPOCH FROM (d.close_date - d.created_at)) / 86400 END) as avg_sales_cycle
+    FROM deals d
+    JOIN ${creditShareSubquery('$1', '$4', '$5')} cs ON cs.deal_id = d.id
+    WHERE d.workspace_id = $1
+      AND d.close_date BETWEEN $2 AND $3`,
+    [workspaceId, periodStart, periodEnd, creditScope.reps, creditScope.splitTypes]
   );
 
   const results = resultsResult.rows[0] || {};
@@ -267,14 +279,14 @@ async function gatherRepMetrics(
     weighted_pipeline: number;
   }>(
     `SELECT
-      COALESCE(SUM(amount), 0) as open_pipeline,
+      COALESCE(SUM(d.amount * cs.credit_share), 0) as open_pipeline,
       COUNT(*) as open_deal_count,
-      COALESCE(SUM(amount * COALESCE(probability, 0) / 100.0), 0) as weighted_pipeline
-    FROM deals
-    WHERE workspace_id = $1
-      AND owner = $2
-      AND stage_normalized NOT IN ('closed_won', 'closed_lost')`,
-    [workspaceId, repName]
+      COALESCE(SUM(d.amount * cs.credit_share * COALESCE(d.probability, 0) / 100.0), 0) as weighted_pipeline
+    FROM deals d
+    JOIN ${creditShareSubquery('$1', '$2', '$3')} cs ON cs.deal_id = d.id
+    WHERE d.workspace_id = $1
+      AND d.stage_normalized NOT IN ('closed_won', 'closed_lost')`,
+    [workspaceId, creditScope.reps, creditScope.splitTypes]
   );
 
   const pipeline = pipelineResult.rows[0] || {};
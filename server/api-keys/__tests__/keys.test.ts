@@ -0,0 +1,90 @@
+/**
+ * Tests for scoped API key primitives: scopes, IP allowlists, route gating
+ * and rate limiting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  consumeRateLimit,
+  generateApiKey,
+  hashApiKey,
+  ipAllowed,
+  isScopedApiKey,
+  parseIpAllowlist,
+  parseScopes,
+  requiredRouteScope,
+  scopePermissions,
+} from '../keys.js';
+
+const WS = '6f1c1f4e-0b7a-4c1e-9a53-3c2f1d0e8b11';
+
+describe('generateApiKey', () => {
+  it('returns a prefixed key whose hash and display prefix match', () => {
+    const { key, prefix, hash } = generateApiKey();
+    expect(isScopedApiKey(key)).toBe(true);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(hash).toBe(hashApiKey(key));
+    expect(isScopedApiKey('a'.repeat(64))).toBe(false);
+  });
+});
+
+describe('scopes', () => {
+  it('accepts known permission keys and rejects unknown ones', () => {
+    expect(parseScopes(['data.deals_view', 'data.deals_view'])).toEqual({ scopes: ['data.deals_view'] });
+    expect(parseScopes(['data.everything'])).toHaveProperty('error');
+    expect(parseScopes([])).toHaveProperty('error');
+  });
+
+  it('rejects scopes the issuer does not hold', () => {
+    const issuer = scopePermissions(['data.deals_view', 'settings.manage']);
+    expect(parseScopes(['data.deals_view'], issuer)).toEqual({ scopes: ['data.deals_view'] });
+    expect(parseScopes(['settings.manage', 'members.change_roles', 'config.edit'], issuer)).toEqual({
+      error: 'Cannot grant scopes you do not hold: members.change_roles, config.edit',
+    });
+  });
+
+  it('grants only the listed permissions', () => {
+    const permissions = scopePermissions(['data.deals_view']);
+    expect(permissions['data.deals_view']).toBe(true);
+    expect(permissions['settings.manage']).toBe(false);
+  });
+});
+
+describe('IP allowlist', () => {
+  it('validates IPs and CIDRs', () => {
+    expect(parseIpAllowlist(['203.0.113.0/24', ' 2001:db8::1 '])).toEqual({ entries: ['203.0.113.0/24', '2001:db8::1'] });
+    expect(parseIpAllowlist(['203.0.113.0/33'])).toHaveProperty('error');
+    expect(parseIpAllowlist(['example.com'])).toHaveProperty('error');
+  });
+
+  it('matches subnets, exact addresses and IPv4-mapped IPv6', () => {
+    const list = ['203.0.113.0/24', '2001:db8::1'];
+    expect(ipAllowed('203.0.113.42', list)).toBe(true);
+    expect(ipAllowed('::ffff:203.0.113.42', list)).toBe(true);
+    expect(ipAllowed('2001:db8::1', list)).toBe(true);
+    expect(ipAllowed('198.51.100.1', list)).toBe(false);
+    expect(ipAllowed(undefined, list)).toBe(false);
+    expect(ipAllowed('198.51.100.1', [])).toBe(true);
+  });
+});
+
+describe('requiredRouteScope', () => {
+  it('maps reads and writes and denies unmapped endpoints', () => {
+    expect(requiredRouteScope(`/${WS}/deals/abc`, 'GET')).toBe('data.deals_view');
+    expect(requiredRouteScope(`/${WS}/deals/abc`, 'PATCH')).toBeNull();
+    expect(requiredRouteScope(`/${WS}/skills/pipeline-hygiene/run`, 'POST')).toBe('skills.run_manual');
+    expect(requiredRouteScope(`/${WS}/api-keys`, 'GET')).toBeNull();
+    expect(requiredRouteScope(`/${WS}`, 'GET')).toBeNull();
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('allows up to the limit per minute, then resets', () => {
+    const start = 1_000_000;
+    expect(consumeRateLimit('key-a', 2, start).allowed).toBe(true);
+    expect(consumeRateLimit('key-a', 2, start + 10).allowed).toBe(true);
+    expect(consumeRateLimit('key-a', 2, start + 20)).toEqual({ allowed: false, retryAfterSeconds: 60 });
+    expect(consumeRateLimit('key-a', 2, start + 60_000).allowed).toBe(true);
+    expect(consumeRateLimit('key-b', null).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Scoped API key primitives: generation, hashing, scope validation, IP
+ * allowlists, the route-to-scope map and per-key rate limiting.
+ *
+ * Scoped keys are deny-by-default: a workspace endpoint is reachable only if
+ * its first path segment is mapped below and the key holds the mapped
+ * permission. Routes guarded by requirePermission are checked again there.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { BlockList, isIP } from 'net';
+import { createPermissionSet, type PermissionSet } from '../permissions/types.js';
+
+export const API_KEY_PREFIX = 'pk_';
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export type PermissionKey = keyof PermissionSet;
+
+export const API_KEY_SCOPES = Object.keys(createPermissionSet()) as PermissionKey[];
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/** Scoped keys carry a prefix; legacy workspace keys are bare hex */
+export function isScopedApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Validate requested scopes. When the issuer's own permissions are given, a
+ * key may only carry scopes the issuer holds.
+ */
+export function parseScopes(
+  input: unknown,
+  issuerPermissions?: PermissionSet
+): { scopes: PermissionKey[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'scopes must be a non-empty array of permission keys' };
+  }
+  const unknown = input.filter(s => typeof s !== 'string' || !API_KEY_SCOPES.includes(s as PermissionKey));
+  if (unknown.length > 0) {
+    return { error: `Unknown scopes: ${unknown.join(', ')}` };
+  }
+  const scopes = [...new Set(input as PermissionKey[])];
+  if (issuerPermissions) {
+    const notHeld = scopes.filter(s => issuerPermissions[s] !== true);
+    if (notHeld.length > 0) {
+      return { error: `Cannot grant scopes you do not hold: ${notHeld.join(', ')}` };
+    }
+  }
+  return { scopes };
+}
+
+export function scopePermissions(scopes: string[]): PermissionSet {
+  const permissions = createPermissionSet(false);
+  for (const scope of scopes) {
+    if (scope in permissions) permissions[scope as PermissionKey] = true;
+  }
+  return permissions;
+}
+
+function splitEntry(entry: string): { address: string; prefix: number | null } {
+  const [address, prefix] = entry.split('/');
+  return { address, prefix: prefix === undefined ? null : Number(prefix) };
+}
+
+export function parseIpAllowlist(input: unknown): { entries: string[] } | { error: string } {
+  if (input === undefined || input === null) return { entries: [] };
+  if (!Array.isArray(input)) return { error: 'ip_allowlist must be an array of IPs or CIDRs' };
+
+  const entries: string[] = [];
+  for (const raw of input) {
+    const entry = typeof raw === 'string' ? raw.trim() : '';
+    const { address, prefix } = splitEntry(entry);
+    const family = isIP(address);
+    const maxPrefix = family === 6 ? 128 : 32;
+    if (!family || (prefix !== null && (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix))) {
+      return { error: `Invalid IP or CIDR: ${String(raw)}` };
+    }
+    entries.push(entry);
+  }
+  return { entries: [...new Set(entries)] };
+}
+
+export function ipAllowed(ip: string | undefined, allowlist: string[]): boolean {
+  if (allowlist.length === 0) return true;
+  if (!ip) return false;
+
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+  const address = ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+  const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+
+  const list = new BlockList();
+  for (const entry of allowlist) {
+    const { address: net, prefix } = splitEntry(entry);
+    const netFamily = isIP(net) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === null) list.addAddress(net, netFamily);
+    else list.addSubnet(net, prefix, netFamily);
+  }
+  return list.check(address, family);
+}
+
+interface RouteScope {
+  read: PermissionKey;
+  /** null: read-only for scoped keys */
+  write: PermissionKey | null;
+}
+
+const DEALS: RouteScope = { read: 'data.deals_view', write: null };
+const REPS: RouteScope = { read: 'data.reps_view_all', write: 'config.edit' };
+const SKILLS: RouteScope = { read: 'skills.view_results', write: 'skills.run_manual' };
+const AGENTS: RouteScope = { read: 'agents.view', write: 'agents.run' };
+const CONNECTORS: RouteScope = { read: 'connectors.view', write: 'connectors.trigger_sync' };
+const CONFIG: RouteScope = { read: 'config.view', write: 'config.edit' };
+
+const ROUTE_SCOPES: Record<string, RouteScope> = {
+  deals: DEALS,
+  pipeline: DEALS,
+  forecast: DEALS,
+  'monte-carlo': DEALS,
+  funnel: DEALS,
+  bowtie: DEALS,
+  conversations: DEALS,
+  conversation: DEALS,
+  scores: DEALS,
+  'prospect-scores': DEALS,
+  findings: DEALS,
+  dashboard: DEALS,
+  metrics: DEALS,
+  'chart-data': DEALS,
+  dimensions: DEALS,
+  'stage-benchmarks': DEALS,
+  accounts: { read: 'data.accounts_view', write: null },
+  'sales-reps': REPS,
+  'sales-roster': REPS,
+  targets: REPS,
+  quota: REPS,
+  quotas: REPS,
+  skills: SKILLS,
+  'skill-runs': SKILLS,
+  'skill-run-requests': { read: 'skills.view_results', write: 'skills.run_request' },
+  reports: SKILLS,
+  'report-documents': SKILLS,
+  generations: SKILLS,
+  deliverables: SKILLS,
+  'win-probability': SKILLS,
+  agents: AGENTS,
+  'agents-v2': AGENTS,
+  connectors: CONNECTORS,
+  config: CONFIG,
+  'workspace-config': CONFIG,
+  members: { read: 'members.view', write: 'members.change_roles' },
+  briefing: { read: 'briefing.view', write: null },
+  brief: { read: 'briefing.view', write: null },
+  export: { read: 'data.export', write: 'data.export' },
+};
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Permission a scoped key needs for a workspace request, or null when the
+ * endpoint is not exposed to scoped keys. `path` is relative to the mount
+ * point and starts with the workspace ID (/:workspaceId/deals/...).
+ */
+export function requiredRouteScope(path: string, method: string): PermissionKey | null {
+  const segment = path.split('/').filter(Boolean)[1];
+  const rule = segment ? ROUTE_SCOPES[segment] : undefined;
+  if (!rule) return null;
+  return READ_METHODS.has(method.toUpperCase()) ? rule.read : rule.write;
+}
+
+const WINDOW_MS = 60 * 1000;
+const windows = new Map<string, { start: number; count: number }>();
+
+/**
+ * Fixed one-minute window per key. In-process only, like the express rate
+ * limiters — each instance enforces the limit independently.
+ */
+export function consumeRateLimit(
+  keyId: string,
+  limitPerMinute: number | null,
+  now = Date.now()
+): { allowed: true } | { allowed: false; retryAfterSeconds: number } {
+  if (!limitPerMinute) return { allowed: true };
+
+  let window = windows.get(keyId);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(keyId, window);
+  }
+  window.count++;
+
+  if (window.count > limitPerMinute) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((window.start + WINDOW_MS - now) / 1000) };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,229 @@
+/**
+ * Workspace API key storage: issue, rotate, revoke, and resolve a presented
+ * key for authentication (cached briefly, like the legacy key lookup).
+ */
+
+import { query } from '../db.js';
+import type { PermissionSet } from '../permissions/types.js';
+import {
+  consumeRateLimit,
+  generateApiKey,
+  hashApiKey,
+  ipAllowed,
+  scopePermissions,
+  type PermissionKey,
+} from './keys.js';
+
+export interface ApiKeyRecord {
+  id: string;
+  workspace_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: PermissionKey[];
+  ip_allowlist: string[];
+  rate_limit_per_minute: number | null;
+  expires_at: string | null;
+  rotated_from: string | null;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+/** An authenticated scoped key, attached to the request as req.apiKey */
+export interface ResolvedApiKey {
+  id: string;
+  name: string;
+  workspace: { id: string; name: string };
+  scopes: PermissionKey[];
+  permissions: PermissionSet;
+  ipAllowlist: string[];
+  rateLimitPerMinute: number | null;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: PermissionKey[];
+  ipAllowlist: string[];
+  rateLimitPerMinute: number | null;
+  expiresAt: Date | null;
+}
+
+const RECORD_COLUMNS = `id, workspace_id, name, key_prefix, scopes, ip_allowlist, rate_limit_per_minute,
+  expires_at, rotated_from, created_by, created_at, last_used_at, last_used_ip, revoked_at, revoked_by`;
+
+const CACHE_TTL_MS = 60 * 1000;
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+const keyCache = new Map<string, { key: ResolvedApiKey; expiresAt: number }>();
+const lastUsedWrites = new Map<string, number>();
+
+function invalidateKey(keyId: string): void {
+  for (const [hash, entry] of keyCache) {
+    if (entry.key.id === keyId) keyCache.delete(hash);
+  }
+}
+
+export async function lookupApiKey(token: string): Promise<ResolvedApiKey | null> {
+  const hash = hashApiKey(token);
+  const cached = keyCache.get(hash);
+  if (cached && cached.expiresAt > Date.now()) return cached.key;
+
+  const result = await query<{
+    id: string; name: string; workspace_id: string; workspace_name: string; scopes: PermissionKey[];
+    ip_allowlist: string[]; rate_limit_per_minute: number | null; expires_at: Date | null;
+  }>(
+    `SELECT k.id, k.name, k.workspace_id, w.name AS workspace_name, k.scopes, k.ip_allowlist,
+            k.rate_limit_per_minute, k.expires_at
+     FROM workspace_api_keys k
+     JOIN workspaces w ON w.id = k.workspace_id
+     WHERE k.key_hash = $1
+       AND k.revoked_at IS NULL
+       AND (k.expires_at IS NULL OR k.expires_at > NOW())`,
+    [hash]
+  );
+
+  if (result.rows.length === 0) {
+    keyCache.delete(hash);
+    return null;
+  }
+
+  const row = result.rows[0];
+  const key: ResolvedApiKey = {
+    id: row.id,
+    name: row.name,
+    workspace: { id: row.workspace_id, name: row.workspace_name },
+    scopes: row.scopes,
+    permissions: scopePermissions(row.scopes),
+    ipAllowlist: row.ip_allowlist,
+    rateLimitPerMinute: row.rate_limit_per_minute,
+  };
+
+  // Never cache past the key's own expiry
+  const cacheUntil = Math.min(Date.now() + CACHE_TTL_MS, row.expires_at ? new Date(row.expires_at).getTime() : Infinity);
+  keyCache.set(hash, { key, expiresAt: cacheUntil });
+  return key;
+}
+
+/**
+ * Why a request with this key must be refused (IP allowlist, rate limit), or
+ * null to let it through. Records last use for allowed requests.
+ */
+export function checkApiKeyRequest(
+  key: ResolvedApiKey,
+  ip: string | undefined
+): { status: 403 | 429; error: string; retryAfterSeconds?: number } | null {
+  if (!ipAllowed(ip, key.ipAllowlist)) {
+    return { status: 403, error: 'Request IP is not in this API key\'s allowlist' };
+  }
+
+  const rate = consumeRateLimit(key.id, key.rateLimitPerMinute);
+  if (!rate.allowed) {
+    return { status: 429, error: 'API key rate limit exceeded', retryAfterSeconds: rate.retryAfterSeconds };
+  }
+
+  recordKeyUse(key.id, ip);
+  return null;
+}
+
+function recordKeyUse(keyId: string, ip: string | undefined): void {
+  const now = Date.now();
+  if ((lastUsedWrites.get(keyId) ?? 0) > now - LAST_USED_THROTTLE_MS) return;
+  lastUsedWrites.set(keyId, now);
+
+  query(
+    `UPDATE workspace_api_keys SET last_used_at = NOW(), last_used_ip = $2 WHERE id = $1`,
+    [keyId, ip || null]
+  ).catch(err => console.error('[api-keys] Failed to record key use:', err instanceof Error ? err.message : err));
+}
+
+export async function listApiKeys(workspaceId: string): Promise<ApiKeyRecord[]> {
+  const result = await query<ApiKeyRecord>(
+    `SELECT ${RECORD_COLUMNS} FROM workspace_api_keys
+     WHERE workspace_id = $1
+     ORDER BY revoked_at IS NOT NULL, created_at DESC`,
+    [workspaceId]
+  );
+  return result.rows;
+}
+
+export async function getApiKey(workspaceId: string, keyId: string): Promise<ApiKeyRecord | null> {
+  const result = await query<ApiKeyRecord>(
+    `SELECT ${RECORD_COLUMNS} FROM workspace_api_keys WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, keyId]
+  );
+  return result.rows[0] || null;
+}
+
+/** Returns the stored record and the plaintext key, which is never retrievable again */
+export async function createApiKey(
+  workspaceId: string,
+  input: ApiKeyInput,
+  createdBy: string | null,
+  rotatedFrom: string | null = null
+): Promise<{ record: ApiKeyRecord; secret: string }> {
+  const { key, prefix, hash } = generateApiKey();
+  const result = await query<ApiKeyRecord>(
+    `INSERT INTO workspace_api_keys (
+       workspace_id, name, key_prefix, key_hash, scopes, ip_allowlist, rate_limit_per_minute,
+       expires_at, rotated_from, created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING ${RECORD_COLUMNS}`,
+    [
+      workspaceId, input.name, prefix, hash, input.scopes, input.ipAllowlist, input.rateLimitPerMinute,
+      input.expiresAt, rotatedFrom, createdBy,
+    ]
+  );
+  return { record: result.rows[0], secret: key };
+}
+
+/**
+ * Issue a successor with the same settings and let the old key keep working
+ * for the grace period so consumers can switch without downtime
+ */
+export async function rotateApiKey(
+  workspaceId: string,
+  keyId: string,
+  graceHours: number,
+  rotatedBy: string | null
+): Promise<{ record: ApiKeyRecord; secret: string; previous: ApiKeyRecord } | null> {
+  const current = await getApiKey(workspaceId, keyId);
+  if (!current || current.revoked_at) return null;
+
+  const successor = await createApiKey(workspaceId, {
+    name: current.name,
+    scopes: current.scopes,
+    ipAllowlist: current.ip_allowlist,
+    rateLimitPerMinute: current.rate_limit_per_minute,
+    expiresAt: current.expires_at ? new Date(current.expires_at) : null,
+  }, rotatedBy, current.id);
+
+  const previous = await query<ApiKeyRecord>(
+    `UPDATE workspace_api_keys
+     SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + make_interval(hours => $3))
+     WHERE workspace_id = $1 AND id = $2
+     RETURNING ${RECORD_COLUMNS}`,
+    [workspaceId, keyId, graceHours]
+  );
+  invalidateKey(keyId);
+
+  return { ...successor, previous: previous.rows[0] };
+}
+
+export async function revokeApiKey(
+  workspaceId: string,
+  keyId: string,
+  revokedBy: string | null
+): Promise<ApiKeyRecord | null> {
+  const result = await query<ApiKeyRecord>(
+    `UPDATE workspace_api_keys
+     SET revoked_at = COALESCE(revoked_at, NOW()), revoked_by = COALESCE(revoked_by, $3)
+     WHERE workspace_id = $1 AND id = $2
+     RETURNING ${RECORD_COLUMNS}`,
+    [workspaceId, keyId, revokedBy]
+  );
+  invalidateKey(keyId);
+  return result.rows[0] || null;
+}
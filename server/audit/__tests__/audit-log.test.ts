@@ -0,0 +1,116 @@
+/**
+ * Tests for the workspace audit log: recording never breaks the caller,
+ * request actors, CSV export escaping and keyset pagination
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { query } from '../../db.js';
+import {
+  recordAuditEvent,
+  requestContext,
+  listAuditEvents,
+  auditEventToCsvRow,
+  type AuditEvent,
+} from '../audit-log.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+function fakeRequest(overrides: Record<string, any> = {}): any {
+  return {
+    params: { workspaceId: 'ws-1' },
+    ip: '10.0.0.1',
+    get: (name: string) => (name === 'user-agent' ? 'vitest' : undefined),
+    ...overrides,
+  };
+}
+
+function event(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id: '42',
+    workspace_id: 'ws-1',
+    created_at: '2026-01-05T10:00:00.000Z',
+    action: 'sql.query_executed',
+    category: 'sql',
+    outcome: 'success',
+    actor_type: 'user',
+    actor_id: 'user-1',
+    actor_email: 'dana@example.com',
+    target_id: null,
+    resource_type: null,
+    resource_id: null,
+    ip_address: '10.0.0.1',
+    user_agent: null,
+    metadata: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mockQuery.mockReset();
+});
+
+describe('recordAuditEvent', () => {
+  it('swallows insert failures', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(recordAuditEvent({ workspaceId: 'ws-1', action: 'member.invited' })).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('defaults to a system actor and truncates long metadata strings', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+    await recordAuditEvent({ workspaceId: 'ws-1', action: 'sql.query_executed', metadata: { sql: 'x'.repeat(20_000) } });
+
+    const params = mockQuery.mock.calls[0][1];
+    expect(params[3]).toBe('system');
+    expect(params[8]).toBe('success');
+    expect(JSON.parse(params[9]).sql.length).toBeLessThan(10_100);
+  });
+});
+
+describe('requestContext', () => {
+  it('distinguishes session users from API keys', () => {
+    const userCtx = requestContext(fakeRequest({ user: { user_id: 'user-1', email: 'dana@example.com' } }));
+    expect(userCtx).toEqual({
+      actor: { type: 'user', id: 'user-1', email: 'dana@example.com' },
+      ipAddress: '10.0.0.1',
+      userAgent: 'vitest',
+    });
+
+    expect(requestContext(fakeRequest({ authMethod: 'api_key' })).actor).toEqual({ type: 'api_key' });
+    expect(requestContext(fakeRequest({ authMethod: 'api_key', apiKey: { id: 'key-1' } })).actor)
+      .toEqual({ type: 'api_key', id: 'key-1' });
+  });
+});
+
+describe('listAuditEvents', () => {
+  it('returns a cursor only when another page exists', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [event({ id: '9' }), event({ id: '8' }), event({ id: '7' })] });
+
+    const page = await listAuditEvents('ws-1', { category: 'sql', limit: 2 });
+
+    expect(page.events.map(e => e.id)).toEqual(['9', '8']);
+    expect(page.next_cursor).toBe('8');
+    const [sql, values] = mockQuery.mock.calls[0];
+    expect(sql).toContain('category = $2');
+    expect(values).toEqual(['ws-1', 'sql', 3]);
+  });
+});
+
+describe('auditEventToCsvRow', () => {
+  it('quotes embedded commas and neutralizes spreadsheet formulas', () => {
+    const row = auditEventToCsvRow(event({
+      actor_email: '=HYPERLINK("http://evil")',
+      metadata: { sql: 'SELECT a, b FROM deals' },
+    }));
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(row).toContain('"{""sql"":""SELECT a, b FROM deals""}"');
+  });
+});
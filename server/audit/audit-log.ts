@@ -0,0 +1,295 @@
+/**
+ * Workspace Audit Log
+ *
+ * Single append-only stream of security-relevant events (SOC2 "who did
+ * what, when"). Event names are dotted — the first segment is the category:
+ *   auth.*          login, logout, password reset, SSO
+ *   member.*        invites, role/status changes, removals
+ *   config.*        workspace config and stage mapping edits
+ *   governance.*    approvals, rejections, rollbacks
+ *   crm_write.*     CRM write-backs and reversals
+ *   sql.*           SQL workspace queries
+ *   export.*        data exports and downloads
+ *   dsr.*           data subject (GDPR/CCPA) exports and erasures
+ *   api_key.*       scoped API key issue, rotation and revocation
+ *   impersonation.* admin impersonation sessions
+ *   audit.*         audit log exports and retention changes
+ *
+ * Recording never throws: a failed audit insert is logged and the caller's
+ * request proceeds.
+ */
+
+import type { Request } from 'express';
+import { query, getClient } from '../db.js';
+
+export type AuditActorType = 'user' | 'api_key' | 'system' | 'scim';
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+export interface AuditActor {
+  type: AuditActorType;
+  id?: string | null;
+  email?: string | null;
+}
+
+export interface AuditEventInput {
+  workspaceId: string;
+  action: string;
+  actor?: AuditActor | null;
+  targetUserId?: string | null;
+  resourceType?: string | null;
+  resourceId?: string | null;
+  outcome?: AuditOutcome;
+  metadata?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  workspace_id: string;
+  created_at: string;
+  action: string;
+  category: string;
+  outcome: AuditOutcome;
+  actor_type: AuditActorType;
+  actor_id: string | null;
+  actor_email: string | null;
+  target_id: string | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface AuditQueryFilters {
+  category?: string;
+  action?: string;
+  actorId?: string;
+  actorEmail?: string;
+  resourceType?: string;
+  resourceId?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  until?: string;
+  before?: string;
+  limit?: number;
+}
+
+const SYSTEM_ACTOR: AuditActor = { type: 'system' };
+const MAX_METADATA_STRING = 10_000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+export const MIN_RETENTION_DAYS = 90;
+export const MAX_RETENTION_DAYS = 3650;
+
+const AUDIT_COLUMNS = `id::text, workspace_id, created_at, action, category, outcome, actor_type, actor_id, actor_email,
+  target_id, resource_type, resource_id, ip_address, user_agent, metadata`;
+
+/**
+ * Long values (SQL text, payloads) are truncated so a single event stays small
+ */
+function boundMetadata(metadata: Record<string, unknown> | null | undefined): string | null {
+  if (!metadata) return null;
+  return JSON.stringify(metadata, (_key, value) =>
+    typeof value === 'string' && value.length > MAX_METADATA_STRING
+      ? `${value.slice(0, MAX_METADATA_STRING)}… [truncated ${value.length - MAX_METADATA_STRING} chars]`
+      : value
+  );
+}
+
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  const actor = event.actor || SYSTEM_ACTOR;
+  try {
+    await query(
+      `INSERT INTO audit_log (
+         workspace_id, actor_id, actor_email, actor_type, action, target_id,
+         resource_type, resource_id, outcome, metadata, ip_address, user_agent
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        event.workspaceId,
+        actor.id || null,
+        actor.email || null,
+        actor.type,
+        event.action,
+        event.targetUserId || null,
+        event.resourceType || null,
+        event.resourceId != null ? String(event.resourceId) : null,
+        event.outcome || 'success',
+        boundMetadata(event.metadata),
+        event.ipAddress || null,
+        event.userAgent || null,
+      ]
+    );
+  } catch (err) {
+    console.error(`[Audit] Failed to record ${event.action} for ${event.workspaceId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Actor, IP and user agent of an authenticated request
+ */
+export function requestContext(req: Request<any>): Pick<AuditEventInput, 'actor' | 'ipAddress' | 'userAgent'> {
+  // Legacy workspace keys have no key id; scoped keys carry theirs
+  const actor: AuditActor = req.authMethod === 'api_key'
+    ? (req.apiKey?.id ? { type: 'api_key', id: req.apiKey.id } : { type: 'api_key' })
+    : req.user
+    ? { type: 'user', id: req.user.user_id, email: req.user.email }
+    : SYSTEM_ACTOR;
+
+  return {
+    actor,
+    ipAddress: req.ip || null,
+    userAgent: req.get('user-agent')?.slice(0, 512) || null,
+  };
+}
+
+/**
+ * Record an event for the workspace in req.params.workspaceId (or event.workspaceId)
+ */
+export async function auditRequest(
+  req: Request<any>,
+  event: Omit<AuditEventInput, 'workspaceId' | 'actor' | 'ipAddress' | 'userAgent'> & { workspaceId?: string }
+): Promise<void> {
+  const workspaceId = event.workspaceId || (req.params.workspaceId as string) || req.workspace?.id;
+  if (!workspaceId) return;
+  await recordAuditEvent({ ...event, ...requestContext(req), workspaceId });
+}
+
+/**
+ * Record a user-level event (login, logout, password change) in every
+ * workspace the user is an active member of
+ */
+export async function recordUserAuditEvent(
+  userId: string,
+  event: Omit<AuditEventInput, 'workspaceId'>
+): Promise<void> {
+  try {
+    const memberships = await query<{ workspace_id: string }>(
+      `SELECT workspace_id FROM workspace_members WHERE user_id = $1 AND status = 'active'`,
+      [userId]
+    );
+    await Promise.all(memberships.rows.map(m => recordAuditEvent({ ...event, workspaceId: m.workspace_id })));
+  } catch (err) {
+    console.error(`[Audit] Failed to record ${event.action} for user ${userId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+function buildFilters(workspaceId: string, filters: AuditQueryFilters): { where: string; values: any[] } {
+  const values: any[] = [workspaceId];
+  const conditions = ['workspace_id = $1'];
+
+  if (filters.category) conditions.push(`category = $${values.push(filters.category)}`);
+  if (filters.action) conditions.push(`action = $${values.push(filters.action)}`);
+  if (filters.actorId) conditions.push(`actor_id = $${values.push(filters.actorId)}`);
+  if (filters.actorEmail) conditions.push(`actor_email ILIKE $${values.push(filters.actorEmail)}`);
+  if (filters.resourceType) conditions.push(`resource_type = $${values.push(filters.resourceType)}`);
+  if (filters.resourceId) conditions.push(`resource_id = $${values.push(filters.resourceId)}`);
+  if (filters.outcome) conditions.push(`outcome = $${values.push(filters.outcome)}`);
+  if (filters.since) conditions.push(`created_at >= $${values.push(filters.since)}`);
+  if (filters.until) conditions.push(`created_at <= $${values.push(filters.until)}`);
+  if (filters.before) conditions.push(`id < $${values.push(filters.before)}`);
+
+  return { where: conditions.join(' AND '), values };
+}
+
+/**
+ * Newest-first page of events. Pass the returned next_cursor as `before`.
+ */
+export async function listAuditEvents(
+  workspaceId: string,
+  filters: AuditQueryFilters = {}
+): Promise<{ events: AuditEvent[]; next_cursor: string | null }> {
+  const limit = Math.min(Math.max(filters.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const { where, values } = buildFilters(workspaceId, filters);
+
+  const result = await query<AuditEvent>(
+    `SELECT ${AUDIT_COLUMNS} FROM audit_log
+     WHERE ${where}
+     ORDER BY id DESC
+     LIMIT $${values.push(limit + 1)}`,
+    values
+  );
+
+  const events = result.rows.slice(0, limit);
+  return {
+    events,
+    next_cursor: result.rows.length > limit ? events[events.length - 1].id : null,
+  };
+}
+
+/**
+ * Iterate every matching event in pages, for export
+ */
+export async function* iterateAuditEvents(
+  workspaceId: string,
+  filters: Omit<AuditQueryFilters, 'before' | 'limit'> = {}
+): AsyncGenerator<AuditEvent> {
+  let before: string | undefined;
+  for (;;) {
+    const page = await listAuditEvents(workspaceId, { ...filters, before, limit: MAX_PAGE_SIZE });
+    for (const event of page.events) yield event;
+    if (!page.next_cursor) return;
+    before = page.next_cursor;
+  }
+}
+
+export const AUDIT_CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'id', 'created_at', 'category', 'action', 'outcome', 'actor_type', 'actor_id', 'actor_email',
+  'target_id', 'resource_type', 'resource_id', 'ip_address', 'user_agent', 'metadata',
+];
+
+function csvCell(value: unknown): string {
+  if (value == null) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Neutralize spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditEventToCsvRow(event: AuditEvent): string {
+  return AUDIT_CSV_COLUMNS.map(col => csvCell(event[col])).join(',');
+}
+
+export async function getAuditRetentionDays(workspaceId: string): Promise<number | null> {
+  const result = await query<{ audit_retention_days: number }>(
+    `SELECT audit_retention_days FROM workspaces WHERE id = $1`,
+    [workspaceId]
+  );
+  return result.rows[0]?.audit_retention_days ?? null;
+}
+
+export async function setAuditRetentionDays(workspaceId: string, days: number): Promise<void> {
+  await query(
+    `UPDATE workspaces SET audit_retention_days = $2, updated_at = NOW() WHERE id = $1`,
+    [workspaceId, days]
+  );
+}
+
+/**
+ * Delete events older than each workspace's retention period. The append-only
+ * trigger only permits deletes inside a transaction that sets pandora.audit_purge.
+ */
+export async function purgeExpiredAuditEvents(): Promise<number> {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query(`SET LOCAL pandora.audit_purge = 'on'`);
+    const result = await client.query(
+      `DELETE FROM audit_log a
+       USING workspaces w
+       WHERE w.id = a.workspace_id
+         AND a.created_at < NOW() - make_interval(days => w.audit_retention_days)`
+    );
+    await client.query('COMMIT');
+    return result.rowCount ?? 0;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
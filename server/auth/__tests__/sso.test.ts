@@ -0,0 +1,296 @@
+/**
+ * Unit tests for auth/sso.ts, auth/oidc.ts, auth/saml.ts and auth/scim.ts
+ *
+ * A local mock IdP signs OIDC ID tokens and SAML assertions with a freshly
+ * generated RSA key; discovery, JWKS and token endpoints are served by a
+ * stubbed fetch. Database access is mocked.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { signSamlPost } from '@node-saml/node-saml/lib/saml-post-signing.js';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { query } from '../../db.js';
+import { resolveSystemRole, provisionSSOUser, safeReturnTo, type SSOConnection } from '../sso.js';
+import { completeOIDCLogin } from '../oidc.js';
+import { completeSamlLogin, getSamlAcsUrl, getSamlEntityId } from '../saml.js';
+import { parseScimFilter, toScimUser, ScimError } from '../scim.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+const idpKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function connection(overrides: Partial<SSOConnection> = {}): SSOConnection {
+  return {
+    id: '11111111-1111-1111-1111-111111111111',
+    workspace_id: 'ws-1',
+    name: 'Acme',
+    protocol: 'oidc',
+    enabled: true,
+    enforce_sso: true,
+    jit_provisioning: true,
+    default_role: 'member',
+    role_mapping: { 'Pandora Admins': 'admin', 'RevOps': 'analyst' },
+    workspace_ids: [],
+    oidc_issuer: 'https://idp.acme.test',
+    oidc_client_id: 'pandora-client',
+    oidc_client_secret: null,
+    oidc_groups_claim: 'groups',
+    saml_entry_point: 'https://idp.acme.test/sso',
+    saml_idp_issuer: 'https://idp.acme.test',
+    saml_idp_cert: idpKeys.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    saml_groups_attribute: 'groups',
+    ...overrides,
+  };
+}
+
+describe('resolveSystemRole', () => {
+  it('maps IdP groups and picks the most privileged role', () => {
+    expect(resolveSystemRole(['Everyone', 'RevOps', 'Pandora Admins'], connection().role_mapping, 'member'))
+      .toEqual({ role: 'admin', mapped: true });
+  });
+
+  it('accepts system role names directly and is case-insensitive', () => {
+    expect(resolveSystemRole(['Viewer'], {}, 'member')).toEqual({ role: 'viewer', mapped: true });
+    expect(resolveSystemRole(['revops'], connection().role_mapping, 'member')).toEqual({ role: 'analyst', mapped: true });
+  });
+
+  it('falls back to the default role when nothing matches', () => {
+    expect(resolveSystemRole(['Everyone'], {}, 'viewer')).toEqual({ role: 'viewer', mapped: false });
+    expect(resolveSystemRole([], {}, 'not-a-role')).toEqual({ role: 'member', mapped: false });
+  });
+});
+
+describe('safeReturnTo', () => {
+  it('only allows same-origin relative paths', () => {
+    expect(safeReturnTo('/workspaces/1')).toBe('/workspaces/1');
+    expect(safeReturnTo('//evil.test')).toBeUndefined();
+    expect(safeReturnTo('https://evil.test')).toBeUndefined();
+    expect(safeReturnTo('/\\evil.test')).toBeUndefined();
+    expect(safeReturnTo('/%5Cevil.test')).toBeUndefined();
+    expect(safeReturnTo('/%5cevil.test')).toBeUndefined();
+    expect(safeReturnTo('/\tevil.test')).toBeUndefined();
+    expect(safeReturnTo('/%09/evil.test')).toBeUndefined();
+    expect(safeReturnTo('/%E0%A4%A')).toBeUndefined();
+    expect(safeReturnTo('/deals?q=a%20b#top')).toBe('/deals?q=a%20b#top');
+  });
+});
+
+describe('OIDC login against a mock IdP', () => {
+  const issuer = 'https://idp.acme.test';
+  const jwk = { ...idpKeys.publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' };
+  let idToken = '';
+
+  function signIdToken(claims: Record<string, unknown>, privateKey = idpKeys.privateKey) {
+    return jwt.sign(
+      { sub: 'okta|jane', email: 'jane@acme.test', name: 'Jane Doe', groups: ['RevOps'], nonce: 'n-1', ...claims },
+      privateKey,
+      { algorithm: 'RS256', keyid: 'key-1', issuer, audience: 'pandora-client', expiresIn: 300 }
+    );
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+      if (url.endsWith('/.well-known/openid-configuration')) {
+        return json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        });
+      }
+      if (url === `${issuer}/jwks`) return json({ keys: [jwk] });
+      if (url === `${issuer}/token`) {
+        const params = new URLSearchParams(String(init?.body));
+        if (params.get('code') !== 'auth-code' || params.get('code_verifier') !== 'verifier') {
+          return new Response('invalid_grant', { status: 400 });
+        }
+        return json({ id_token: idToken, access_token: 'at' });
+      }
+      return new Response('not found', { status: 404 });
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('exchanges the code and returns the verified identity', async () => {
+    idToken = signIdToken({});
+    const assertion = await completeOIDCLogin(connection(), { code: 'auth-code', codeVerifier: 'verifier', nonce: 'n-1' });
+    expect(assertion).toEqual({ subject: 'okta|jane', email: 'jane@acme.test', name: 'Jane Doe', groups: ['RevOps'] });
+  });
+
+  it('rejects a token with the wrong nonce', async () => {
+    idToken = signIdToken({ nonce: 'replayed' });
+    await expect(completeOIDCLogin(connection(), { code: 'auth-code', codeVerifier: 'verifier', nonce: 'n-1' }))
+      .rejects.toMatchObject({ code: 'SSO_INVALID_TOKEN' });
+  });
+
+  it('rejects a token not signed by the IdP key', async () => {
+    idToken = signIdToken({}, otherKeys.privateKey);
+    await expect(completeOIDCLogin(connection(), { code: 'auth-code', codeVerifier: 'verifier', nonce: 'n-1' }))
+      .rejects.toMatchObject({ code: 'SSO_INVALID_TOKEN' });
+  });
+
+  it('rejects emails the IdP marks as unverified', async () => {
+    idToken = signIdToken({ email_verified: false });
+    await expect(completeOIDCLogin(connection(), { code: 'auth-code', codeVerifier: 'verifier', nonce: 'n-1' }))
+      .rejects.toMatchObject({ code: 'SSO_EMAIL_UNVERIFIED' });
+  });
+});
+
+describe('SAML login against a mock IdP', () => {
+  const conn = connection({ protocol: 'saml' });
+
+  function samlResponse(options: { audience?: string; groups?: string[] } = {}) {
+    const now = new Date();
+    const iso = (offsetMs: number) => new Date(now.getTime() + offsetMs).toISOString();
+    const acs = getSamlAcsUrl(conn.id);
+    const groups = (options.groups || ['Pandora Admins', 'Everyone'])
+      .map(g => `<saml:AttributeValue>${g}</saml:AttributeValue>`).join('');
+
+    const xml =
+      `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_r${crypto.randomUUID()}" Version="2.0" IssueInstant="${iso(0)}" Destination="${acs}">` +
+      `<saml:Issuer>https://idp.acme.test</saml:Issuer>` +
+      `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>` +
+      `<saml:Assertion ID="_a${crypto.randomUUID()}" Version="2.0" IssueInstant="${iso(0)}">` +
+      `<saml:Issuer>https://idp.acme.test</saml:Issuer>` +
+      `<saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">jane@acme.test</saml:NameID>` +
+      `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData NotOnOrAfter="${iso(300_000)}" Recipient="${acs}"/></saml:SubjectConfirmation></saml:Subject>` +
+      `<saml:Conditions NotBefore="${iso(-60_000)}" NotOnOrAfter="${iso(300_000)}"><saml:AudienceRestriction><saml:Audience>${options.audience || getSamlEntityId(conn.id)}</saml:Audience></saml:AudienceRestriction></saml:Conditions>` +
+      `<saml:AuthnStatement AuthnInstant="${iso(0)}"><saml:AuthnContext><saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef></saml:AuthnContext></saml:AuthnStatement>` +
+      `<saml:AttributeStatement>` +
+      `<saml:Attribute Name="email"><saml:AttributeValue>jane@acme.test</saml:AttributeValue></saml:Attribute>` +
+      `<saml:Attribute Name="displayName"><saml:AttributeValue>Jane Doe</saml:AttributeValue></saml:Attribute>` +
+      `<saml:Attribute Name="groups">${groups}</saml:Attribute>` +
+      `</saml:AttributeStatement>` +
+      `</saml:Assertion>` +
+      `</samlp:Response>`;
+
+    return signSamlPost(xml, "/*[local-name(.)='Response']/*[local-name(.)='Assertion']", {
+      privateKey: idpKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      signatureAlgorithm: 'sha256',
+    });
+  }
+
+  const encode = (xml: string) => Buffer.from(xml).toString('base64');
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  it('accepts a signed IdP-initiated assertion', async () => {
+    const assertion = await completeSamlLogin(conn, encode(samlResponse()));
+    expect(assertion).toEqual({
+      subject: 'jane@acme.test',
+      email: 'jane@acme.test',
+      name: 'Jane Doe',
+      groups: ['Pandora Admins', 'Everyone'],
+    });
+  });
+
+  it('rejects an assertion modified after signing', async () => {
+    const tampered = samlResponse({ groups: ['Everyone'] }).replace('<saml:AttributeValue>Everyone', '<saml:AttributeValue>Pandora Admins');
+    await expect(completeSamlLogin(conn, encode(tampered))).rejects.toMatchObject({ code: 'SSO_INVALID_ASSERTION' });
+  });
+
+  it('rejects an assertion issued for another service provider', async () => {
+    await expect(completeSamlLogin(conn, encode(samlResponse({ audience: 'https://other.test/sp' }))))
+      .rejects.toMatchObject({ code: 'SSO_INVALID_ASSERTION' });
+  });
+});
+
+describe('provisionSSOUser', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('refuses emails outside the connection\'s verified domains', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+    await expect(provisionSSOUser(connection(), { subject: 's', email: 'x@gmail.com', groups: [] }))
+      .rejects.toMatchObject({ code: 'SSO_DOMAIN_NOT_VERIFIED' });
+  });
+
+  it('blocks identities deactivated via SCIM', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM sso_domains')) return { rows: [{ domain: 'acme.test' }] };
+      if (sql.includes('FROM sso_identities')) return { rows: [{ user_id: 'u-1', active: false }] };
+      return { rows: [] };
+    });
+    await expect(provisionSSOUser(connection(), { subject: 'okta|jane', email: 'jane@acme.test', groups: [] }))
+      .rejects.toMatchObject({ code: 'SSO_USER_DEACTIVATED' });
+  });
+
+  it('JIT-creates the user and grants the mapped role in each workspace', async () => {
+    const calls: { sql: string; params: any[] }[] = [];
+    mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+      calls.push({ sql, params });
+      if (sql.includes('FROM sso_domains')) return { rows: [{ domain: 'acme.test' }] };
+      if (sql.includes('INSERT INTO users')) {
+        return { rows: [{ id: 'u-new', email: params[0], name: params[1], account_type: 'standard' }] };
+      }
+      if (sql.includes('FROM workspace_roles')) {
+        return { rows: [{ id: `role-${params[0]}-${params[1]}`, system_type: params[1] }] };
+      }
+      return { rows: [] };
+    });
+
+    const user = await provisionSSOUser(
+      connection({ workspace_ids: ['ws-2'] }),
+      { subject: 'okta|jane', email: 'Jane@Acme.test', name: 'Jane Doe', groups: ['Pandora Admins'] }
+    );
+
+    expect(user).toMatchObject({ id: 'u-new', email: 'jane@acme.test', name: 'Jane Doe' });
+    const memberships = calls.filter(c => c.sql.includes('INSERT INTO workspace_members'));
+    expect(memberships.map(c => [c.params[0], c.params[2], c.params[3]])).toEqual([
+      ['ws-1', 'role-ws-1-admin', true],
+      ['ws-2', 'role-ws-2-admin', true],
+    ]);
+  });
+});
+
+describe('SCIM helpers', () => {
+  it('parses the equality filters IdPs send', () => {
+    expect(parseScimFilter('userName eq "Jane@Acme.test"')).toEqual({ column: 'email', value: 'jane@acme.test' });
+    expect(parseScimFilter('externalId eq "00u1"')).toEqual({ column: 'external_id', value: '00u1' });
+    expect(parseScimFilter(undefined)).toBeNull();
+  });
+
+  it('rejects unsupported filters as invalidFilter', () => {
+    expect(() => parseScimFilter('name.givenName co "J"')).toThrow(ScimError);
+    try {
+      parseScimFilter('active pr');
+    } catch (err) {
+      expect((err as ScimError).toJSON()).toMatchObject({ status: '400', scimType: 'invalidFilter' });
+    }
+  });
+
+  it('renders users as SCIM resources', () => {
+    const resource = toScimUser({
+      id: 'u-1',
+      email: 'jane@acme.test',
+      name: 'Jane Van Doe',
+      external_id: '00u1',
+      active: false,
+      role: 'analyst',
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-02T00:00:00Z',
+    });
+    expect(resource).toMatchObject({
+      id: 'u-1',
+      externalId: '00u1',
+      userName: 'jane@acme.test',
+      name: { givenName: 'Jane', familyName: 'Van Doe' },
+      active: false,
+      roles: [{ value: 'analyst', primary: true }],
+      meta: { resourceType: 'User' },
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * OpenID Connect login flow
+ *
+ * Authorization code flow with PKCE against the connection's issuer.
+ * - Discovery via {issuer}/.well-known/openid-configuration (cached 1h)
+ * - ID tokens verified against the issuer's JWKS (RS/ES/PS algorithms only)
+ * - state, nonce and code_verifier are kept in sso_auth_requests
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SSOError, getAppUrl, getOIDCClientSecret, type SSOAssertion, type SSOConnection } from './sso.js';
+
+interface OIDCDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+type JWK = crypto.webcrypto.JsonWebKey & { kid?: string };
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const discoveryCache = new Map<string, CacheEntry<OIDCDiscovery>>();
+const jwksCache = new Map<string, CacheEntry<JWK[]>>();
+
+const ALLOWED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256', 'PS384', 'PS512'];
+
+export function getOIDCRedirectUri(): string {
+  return `${getAppUrl()}/api/auth/sso/oidc/callback`;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new SSOError(`OIDC request to ${new URL(url).host} failed: ${response.status} ${text.slice(0, 200)}`, 'SSO_IDP_ERROR', 502);
+  }
+  return await response.json() as T;
+}
+
+export async function discover(issuer: string): Promise<OIDCDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const doc = await fetchJson<OIDCDiscovery>(`${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`);
+  discoveryCache.set(issuer, { value: doc, expiresAt: Date.now() + CACHE_TTL_MS });
+  return doc;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = (keys: JWK[]) =>
+    keys.find(k => (!kid || k.kid === kid) && (k.use === undefined || k.use === 'sig'));
+
+  let cached = jwksCache.get(jwksUri);
+  let key = cached && cached.expiresAt > Date.now() ? find(cached.value) : undefined;
+
+  // Unknown kid usually means the IdP rotated keys — refetch once
+  if (!key) {
+    const { keys } = await fetchJson<{ keys: JWK[] }>(jwksUri);
+    cached = { value: keys || [], expiresAt: Date.now() + CACHE_TTL_MS };
+    jwksCache.set(jwksUri, cached);
+    key = find(cached.value);
+  }
+
+  if (!key) {
+    throw new SSOError('No matching signing key in identity provider JWKS', 'SSO_INVALID_TOKEN', 401);
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+}
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export async function buildAuthorizationUrl(
+  connection: SSOConnection,
+  params: { state: string; nonce: string; codeChallenge: string; loginHint?: string }
+): Promise<string> {
+  if (!connection.oidc_issuer || !connection.oidc_client_id) {
+    throw new SSOError('OIDC connection is missing issuer or client ID', 'SSO_MISCONFIGURED', 500);
+  }
+
+  const doc = await discover(connection.oidc_issuer);
+  const url = new URL(doc.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', connection.oidc_client_id);
+  url.searchParams.set('redirect_uri', getOIDCRedirectUri());
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) url.searchParams.set('login_hint', params.loginHint);
+
+  return url.toString();
+}
+
+/**
+ * Exchange the authorization code and verify the ID token
+ */
+export async function completeOIDCLogin(
+  connection: SSOConnection,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<SSOAssertion> {
+  const doc = await discover(connection.oidc_issuer!);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: getOIDCRedirectUri(),
+    code_verifier: params.codeVerifier,
+    client_id: connection.oidc_client_id!,
+  });
+  const clientSecret = getOIDCClientSecret(connection);
+  if (clientSecret) body.set('client_secret', clientSecret);
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(doc.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body: body.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new SSOError('Identity provider did not return an ID token', 'SSO_INVALID_TOKEN', 401);
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, {
+    issuer: doc.issuer,
+    audience: connection.oidc_client_id!,
+    jwksUri: doc.jwks_uri,
+    nonce: params.nonce,
+  });
+
+  return claimsToAssertion(claims, connection.oidc_groups_claim);
+}
+
+export async function verifyIdToken(
+  idToken: string,
+  expected: { issuer: string; audience: string; jwksUri: string; nonce: string }
+): Promise<Record<string, any>> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded === 'string') {
+    throw new SSOError('Malformed ID token', 'SSO_INVALID_TOKEN', 401);
+  }
+
+  const key = await getSigningKey(expected.jwksUri, decoded.header.kid);
+
+  let claims: Record<string, any>;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ALLOWED_ALGORITHMS,
+      issuer: expected.issuer,
+      audience: expected.audience,
+      clockTolerance: 60,
+    }) as Record<string, any>;
+  } catch (err) {
+    throw new SSOError(`ID token verification failed: ${err instanceof Error ? err.message : String(err)}`, 'SSO_INVALID_TOKEN', 401);
+  }
+
+  if (claims.nonce !== expected.nonce) {
+    throw new SSOError('ID token nonce mismatch', 'SSO_INVALID_TOKEN', 401);
+  }
+
+  return claims;
+}
+
+export function claimsToAssertion(claims: Record<string, any>, groupsClaim = 'groups'): SSOAssertion {
+  if (claims.email && claims.email_verified === false) {
+    throw new SSOError('Identity provider reports the email as unverified', 'SSO_EMAIL_UNVERIFIED');
+  }
+
+  const rawGroups = claims[groupsClaim];
+  const groups = Array.isArray(rawGroups) ? rawGroups.map(String) : typeof rawGroups === 'string' ? [rawGroups] : [];
+
+  return {
+    subject: String(claims.sub),
+    email: String(claims.email || claims.preferred_username || ''),
+    name: claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || undefined,
+    groups,
+  };
+}
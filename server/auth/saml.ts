@@ -0,0 +1,143 @@
+/**
+ * SAML 2.0 login flow
+ *
+ * SP-initiated (HTTP-Redirect AuthnRequest) and IdP-initiated logins, with
+ * responses posted to a per-connection ACS endpoint. Signature, audience, and timing
+ * checks are delegated to @node-saml/node-saml; request IDs are tracked
+ * in sso_auth_requests so InResponseTo validation works across processes.
+ */
+
+import { SAML, ValidateInResponseTo, type CacheProvider, type Profile } from '@node-saml/node-saml';
+import { SSOError, consumeAuthRequest, createAuthRequest, getAppUrl, type SSOAssertion, type SSOConnection } from './sso.js';
+import { query } from '../db.js';
+
+const EMAIL_ATTRIBUTES = [
+  'email',
+  'mail',
+  'urn:oid:0.9.2342.19200300.100.1.3',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+];
+
+const NAME_ATTRIBUTES = [
+  'displayName',
+  'name',
+  'http://schemas.microsoft.com/identity/claims/displayname',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+];
+
+export function getSamlAcsUrl(connectionId: string): string {
+  return `${getAppUrl()}/api/auth/sso/saml/acs/${connectionId}`;
+}
+
+export function getSamlEntityId(connectionId: string): string {
+  return `${getAppUrl()}/api/auth/sso/saml/metadata/${connectionId}`;
+}
+
+/**
+ * node-saml cache backed by sso_auth_requests. Saved entries are AuthnRequest
+ * IDs; the ACS handler consumes them when the response comes back.
+ */
+function createRequestCache(connectionId: string): CacheProvider {
+  return {
+    async saveAsync(key: string, value: string) {
+      await createAuthRequest(connectionId, { id: key });
+      return { value, createdAt: Date.now() };
+    },
+    async getAsync(key: string) {
+      const result = await query<{ id: string }>(
+        `SELECT id FROM sso_auth_requests WHERE id = $1 AND connection_id = $2 AND expires_at > now()`,
+        [key, connectionId]
+      );
+      return result.rows[0] ? key : null;
+    },
+    async removeAsync(key: string | null) {
+      if (!key) return null;
+      const removed = await consumeAuthRequest(key);
+      return removed ? key : null;
+    },
+  };
+}
+
+export function createSamlClient(connection: SSOConnection): SAML {
+  if (!connection.saml_entry_point || !connection.saml_idp_cert) {
+    throw new SSOError('SAML connection is missing the IdP SSO URL or signing certificate', 'SSO_MISCONFIGURED', 500);
+  }
+
+  return new SAML({
+    entryPoint: connection.saml_entry_point,
+    issuer: getSamlEntityId(connection.id),
+    callbackUrl: getSamlAcsUrl(connection.id),
+    idpCert: connection.saml_idp_cert,
+    idpIssuer: connection.saml_idp_issuer || undefined,
+    audience: getSamlEntityId(connection.id),
+    identifierFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    acceptedClockSkewMs: 60_000,
+    validateInResponseTo: ValidateInResponseTo.ifPresent,
+    requestIdExpirationPeriodMs: 10 * 60 * 1000,
+    cacheProvider: createRequestCache(connection.id),
+    disableRequestedAuthnContext: true,
+  });
+}
+
+export async function buildSamlLoginUrl(connection: SSOConnection, relayState: string): Promise<string> {
+  return createSamlClient(connection).getAuthorizeUrlAsync(relayState, undefined, {});
+}
+
+/**
+ * Validate a posted SAMLResponse and extract the user
+ */
+export async function completeSamlLogin(connection: SSOConnection, samlResponse: string): Promise<SSOAssertion> {
+  let profile: Profile | null;
+  try {
+    ({ profile } = await createSamlClient(connection).validatePostResponseAsync({ SAMLResponse: samlResponse }));
+  } catch (err) {
+    throw new SSOError(`SAML response rejected: ${err instanceof Error ? err.message : String(err)}`, 'SSO_INVALID_ASSERTION', 401);
+  }
+
+  if (!profile) {
+    throw new SSOError('SAML response contained no assertion', 'SSO_INVALID_ASSERTION', 401);
+  }
+
+  return profileToAssertion(profile, connection.saml_groups_attribute);
+}
+
+export function profileToAssertion(profile: Profile, groupsAttribute = 'groups'): SSOAssertion {
+  const attr = (names: string[]): string | undefined => {
+    for (const name of names) {
+      const value = profile[name];
+      if (typeof value === 'string' && value) return value;
+      if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+    }
+    return undefined;
+  };
+
+  const nameIdIsEmail = profile.nameID?.includes('@');
+  const email = attr(EMAIL_ATTRIBUTES) || (nameIdIsEmail ? profile.nameID : '');
+
+  const rawGroups = profile[groupsAttribute];
+  const groups = Array.isArray(rawGroups) ? rawGroups.map(String) : typeof rawGroups === 'string' ? [rawGroups] : [];
+
+  const givenName = attr(['firstName', 'givenName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname']);
+  const surname = attr(['lastName', 'surname', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname']);
+
+  return {
+    subject: profile.nameID,
+    email: email || '',
+    name: attr(NAME_ATTRIBUTES) || [givenName, surname].filter(Boolean).join(' ') || undefined,
+    groups,
+  };
+}
+
+export function generateSamlMetadata(connection: SSOConnection): string {
+  const client = new SAML({
+    issuer: getSamlEntityId(connection.id),
+    callbackUrl: getSamlAcsUrl(connection.id),
+    // Metadata generation doesn't verify anything; the IdP cert may not be configured yet
+    idpCert: connection.saml_idp_cert || 'unset',
+    identifierFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    wantAssertionsSigned: true,
+  });
+  return client.generateServiceProviderMetadata(null);
+}
@@ -0,0 +1,423 @@
+/**
+ * SCIM 2.0 user provisioning (RFC 7643 / 7644)
+ *
+ * Users are scoped to the SSO connection that owns the bearer token: only
+ * users with an sso_identities row for the connection are visible. The SCIM
+ * id is the Pandora user id. Deactivation suspends the user's memberships in
+ * the connection's workspaces and ends their sessions; DELETE also removes
+ * those memberships and the identity link. The users row itself is kept,
+ * since the person may belong to unrelated workspaces.
+ */
+
+import { query } from '../db.js';
+import {
+  emailDomain,
+  resolveSystemRole,
+  syncWorkspaceMemberships,
+  suspendWorkspaceMemberships,
+  connectionWorkspaceIds,
+  getAppUrl,
+  type SSOConnection,
+} from './sso.js';
+import { revokeAllUserTokens } from './tokens.js';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_LIST_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_PATCH_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+export class ScimError extends Error {
+  constructor(public readonly status: number, message: string, public readonly scimType?: string) {
+    super(message);
+    this.name = 'ScimError';
+  }
+
+  toJSON() {
+    return {
+      schemas: [SCIM_ERROR_SCHEMA],
+      status: String(this.status),
+      ...(this.scimType ? { scimType: this.scimType } : {}),
+      detail: this.message,
+    };
+  }
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name: { formatted: string; givenName?: string; familyName?: string };
+  displayName: string;
+  emails: { value: string; type: string; primary: boolean }[];
+  active: boolean;
+  roles: { value: string; primary: boolean }[];
+  meta: { resourceType: 'User'; created: string; lastModified: string; location: string };
+}
+
+interface ScimUserRow {
+  id: string;
+  email: string;
+  name: string;
+  external_id: string | null;
+  active: boolean;
+  role: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// SCIM attributes we accept on create/replace/patch
+interface ScimUserInput {
+  userName?: string;
+  externalId?: string;
+  displayName?: string;
+  name?: { formatted?: string; givenName?: string; familyName?: string };
+  emails?: { value: string; primary?: boolean }[];
+  active?: boolean | string;
+  roles?: ({ value: string } | string)[];
+}
+
+function toBoolean(value: unknown): boolean {
+  // Azure AD sends "True"/"False" strings in PATCH operations
+  if (typeof value === 'string') return value.toLowerCase() === 'true';
+  return Boolean(value);
+}
+
+export function toScimUser(row: ScimUserRow): ScimUser {
+  const [givenName, ...rest] = (row.name || '').split(' ');
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id: row.id,
+    ...(row.external_id ? { externalId: row.external_id } : {}),
+    userName: row.email,
+    name: { formatted: row.name, givenName: givenName || undefined, familyName: rest.join(' ') || undefined },
+    displayName: row.name,
+    emails: [{ value: row.email, type: 'work', primary: true }],
+    active: row.active,
+    roles: row.role ? [{ value: row.role, primary: true }] : [],
+    meta: {
+      resourceType: 'User',
+      created: new Date(row.created_at).toISOString(),
+      lastModified: new Date(row.updated_at).toISOString(),
+      location: `${getAppUrl()}/scim/v2/Users/${row.id}`,
+    },
+  };
+}
+
+const USER_SELECT = `
+  SELECT u.id, u.email, u.name, i.external_id, i.active, i.created_at, i.updated_at,
+         (SELECT wr.system_type FROM workspace_members wm
+            JOIN workspace_roles wr ON wr.id = wm.role_id
+           WHERE wm.user_id = u.id AND wm.workspace_id = c.workspace_id) AS role
+  FROM sso_identities i
+  JOIN users u ON u.id = i.user_id
+  JOIN sso_connections c ON c.id = i.connection_id
+`;
+
+async function loadUser(connection: SSOConnection, userId: string): Promise<ScimUserRow> {
+  const result = await query<ScimUserRow>(
+    `${USER_SELECT} WHERE i.connection_id = $1 AND u.id::text = $2`,
+    [connection.id, userId]
+  );
+  if (!result.rows[0]) {
+    throw new ScimError(404, `User ${userId} not found`);
+  }
+  return result.rows[0];
+}
+
+/**
+ * Parse the filters IdPs actually send: `attr eq "value"` on userName,
+ * externalId or emails.value. Anything else is rejected as invalidFilter.
+ */
+export function parseScimFilter(filter: string | undefined): { column: 'email' | 'external_id'; value: string } | null {
+  if (!filter) return null;
+  const match = filter.trim().match(/^(userName|externalId|emails(?:\.value)?|emails\[type eq "work"\]\.value)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i);
+  if (!match) {
+    throw new ScimError(400, `Unsupported filter: ${filter}`, 'invalidFilter');
+  }
+  const attribute = match[1].toLowerCase();
+  const value = match[2].replace(/\\(.)/g, '$1');
+  return attribute === 'externalid'
+    ? { column: 'external_id', value }
+    : { column: 'email', value: value.toLowerCase() };
+}
+
+export async function listScimUsers(
+  connection: SSOConnection,
+  params: { filter?: string; startIndex?: number; count?: number }
+): Promise<{ schemas: string[]; totalResults: number; startIndex: number; itemsPerPage: number; Resources: ScimUser[] }> {
+  const filter = parseScimFilter(params.filter);
+  const startIndex = Math.max(1, params.startIndex || 1);
+  const count = Math.min(Math.max(0, params.count ?? 100), 500);
+
+  const where = ['i.connection_id = $1'];
+  const values: any[] = [connection.id];
+  if (filter) {
+    values.push(filter.value);
+    where.push(filter.column === 'email' ? `u.email = $2` : `i.external_id = $2`);
+  }
+
+  const total = await query<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM sso_identities i JOIN users u ON u.id = i.user_id WHERE ${where.join(' AND ')}`,
+    values
+  );
+
+  const rows = await query<ScimUserRow>(
+    `${USER_SELECT} WHERE ${where.join(' AND ')}
+     ORDER BY i.created_at, u.id
+     OFFSET ${startIndex - 1} LIMIT ${count}`,
+    values
+  );
+
+  return {
+    schemas: [SCIM_LIST_SCHEMA],
+    totalResults: parseInt(total.rows[0]?.count || '0', 10),
+    startIndex,
+    itemsPerPage: rows.rows.length,
+    Resources: rows.rows.map(toScimUser),
+  };
+}
+
+export async function getScimUser(connection: SSOConnection, userId: string): Promise<ScimUser> {
+  return toScimUser(await loadUser(connection, userId));
+}
+
+function primaryEmail(input: ScimUserInput): string {
+  const email = input.emails?.find(e => e.primary)?.value || input.emails?.[0]?.value || input.userName || '';
+  return email.trim().toLowerCase();
+}
+
+function displayName(input: ScimUserInput, fallback: string): string {
+  return (
+    input.displayName ||
+    input.name?.formatted ||
+    [input.name?.givenName, input.name?.familyName].filter(Boolean).join(' ') ||
+    fallback
+  ).trim();
+}
+
+function roleValues(input: ScimUserInput): string[] {
+  return (input.roles || []).map(r => (typeof r === 'string' ? r : r.value)).filter(Boolean);
+}
+
+async function assertVerifiedDomain(connection: SSOConnection, email: string): Promise<void> {
+  if (!email.includes('@')) {
+    throw new ScimError(400, 'userName must be an email address', 'invalidValue');
+  }
+  const result = await query<{ domain: string }>(
+    `SELECT domain FROM sso_domains WHERE connection_id = $1 AND domain = $2 AND verified_at IS NOT NULL`,
+    [connection.id, emailDomain(email)]
+  );
+  if (result.rows.length === 0) {
+    throw new ScimError(400, `Email domain ${emailDomain(email)} is not verified for this connection`, 'invalidValue');
+  }
+}
+
+async function applyActive(connection: SSOConnection, userId: string, active: boolean, roleValuesIn: string[]): Promise<void> {
+  await query(
+    `UPDATE sso_identities SET active = $3, updated_at = now() WHERE connection_id = $1 AND user_id = $2`,
+    [connection.id, userId, active]
+  );
+
+  if (active) {
+    const role = resolveSystemRole(roleValuesIn, connection.role_mapping, connection.default_role);
+    await syncWorkspaceMemberships(connection, userId, role, { reactivate: true });
+  } else {
+    await suspendWorkspaceMemberships(connection, userId);
+  }
+}
+
+export async function createScimUser(connection: SSOConnection, input: ScimUserInput): Promise<ScimUser> {
+  const email = primaryEmail(input);
+  if (!email) {
+    throw new ScimError(400, 'userName is required', 'invalidValue');
+  }
+  await assertVerifiedDomain(connection, email);
+
+  let userId = (await query<{ id: string }>(`SELECT id FROM users WHERE email = $1`, [email])).rows[0]?.id;
+
+  if (userId) {
+    const existing = await query(
+      `SELECT 1 FROM sso_identities WHERE connection_id = $1 AND user_id = $2`,
+      [connection.id, userId]
+    );
+    if (existing.rows.length > 0) {
+      throw new ScimError(409, `User ${email} already exists`, 'uniqueness');
+    }
+  } else {
+    userId = (await query<{ id: string }>(
+      `INSERT INTO users (email, name, account_type) VALUES ($1, $2, 'standard') RETURNING id`,
+      [email, displayName(input, email)]
+    )).rows[0].id;
+  }
+
+  await query(
+    `INSERT INTO sso_identities (connection_id, user_id, subject, external_id, provisioned_by)
+     VALUES ($1, $2, $3, $4, 'scim')`,
+    [connection.id, userId, email, input.externalId || null]
+  );
+
+  const active = input.active === undefined ? true : toBoolean(input.active);
+  await applyActive(connection, userId, active, roleValues(input));
+
+  return getScimUser(connection, userId);
+}
+
+/**
+ * PUT — replace the mutable attributes
+ */
+export async function replaceScimUser(connection: SSOConnection, userId: string, input: ScimUserInput): Promise<ScimUser> {
+  const current = await loadUser(connection, userId);
+  const email = primaryEmail(input) || current.email;
+
+  if (email !== current.email) {
+    await assertVerifiedDomain(connection, email);
+  }
+
+  await query(
+    `UPDATE users SET email = $2, name = $3, updated_at = now() WHERE id = $1`,
+    [userId, email, displayName(input, current.name)]
+  );
+  await query(
+    `UPDATE sso_identities SET external_id = $3, updated_at = now() WHERE connection_id = $1 AND user_id = $2`,
+    [connection.id, userId, input.externalId ?? current.external_id]
+  );
+
+  const active = input.active === undefined ? current.active : toBoolean(input.active);
+  if (active !== current.active || (active && input.roles)) {
+    await applyActive(connection, userId, active, roleValues(input));
+  }
+
+  return getScimUser(connection, userId);
+}
+
+/**
+ * PATCH — apply PatchOp operations (add/replace/remove) to a user
+ */
+export async function patchScimUser(
+  connection: SSOConnection,
+  userId: string,
+  body: { Operations?: { op: string; path?: string; value?: any }[] }
+): Promise<ScimUser> {
+  const current = await loadUser(connection, userId);
+  const [givenName, ...familyParts] = current.name.split(' ');
+
+  const next: ScimUserInput = {
+    userName: current.email,
+    externalId: current.external_id || undefined,
+    name: { givenName, familyName: familyParts.join(' ') },
+    active: current.active,
+  };
+  let rolesTouched = false;
+
+  for (const operation of body.Operations || []) {
+    const op = operation.op?.toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw new ScimError(400, `Unsupported op: ${operation.op}`, 'invalidSyntax');
+    }
+
+    // No path: value is a partial resource
+    const updates: Record<string, any> = operation.path
+      ? { [operation.path]: op === 'remove' ? undefined : operation.value }
+      : operation.value || {};
+
+    for (const [path, value] of Object.entries(updates)) {
+      switch (path.toLowerCase()) {
+        case 'active':
+          next.active = toBoolean(value);
+          break;
+        case 'username':
+          next.userName = value;
+          break;
+        case 'externalid':
+          next.externalId = value ?? undefined;
+          break;
+        case 'displayname':
+          next.displayName = value;
+          break;
+        case 'name':
+          next.name = { ...next.name, ...value };
+          next.displayName = undefined;
+          break;
+        case 'name.givenname':
+          next.name = { ...next.name, givenName: value };
+          next.displayName = undefined;
+          break;
+        case 'name.familyname':
+          next.name = { ...next.name, familyName: value };
+          next.displayName = undefined;
+          break;
+        case 'emails':
+          next.emails = value;
+          break;
+        case 'emails[type eq "work"].value':
+          next.emails = [{ value, primary: true }];
+          break;
+        case 'roles':
+          next.roles = value || [];
+          rolesTouched = true;
+          break;
+        default:
+          // Unknown attributes (enterprise extension etc.) are ignored, per common IdP practice
+          break;
+      }
+    }
+  }
+
+  if (!rolesTouched) {
+    next.roles = current.role ? [current.role] : undefined;
+  }
+
+  return replaceScimUser(connection, userId, next);
+}
+
+/**
+ * DELETE — remove the user's memberships in the connection's workspaces and
+ * the identity link; subsequent GETs return 404.
+ */
+export async function deleteScimUser(connection: SSOConnection, userId: string): Promise<void> {
+  await loadUser(connection, userId);
+
+  await query(
+    `DELETE FROM workspace_members WHERE user_id = $1 AND workspace_id = ANY($2::uuid[])`,
+    [userId, connectionWorkspaceIds(connection)]
+  );
+  await query(
+    `DELETE FROM sso_identities WHERE connection_id = $1 AND user_id = $2`,
+    [connection.id, userId]
+  );
+  await revokeAllUserTokens(userId);
+  await query(`DELETE FROM user_sessions WHERE user_id = $1`, [userId]);
+}
+
+export function serviceProviderConfig() {
+  return {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+    documentationUri: `${getAppUrl()}/help`,
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: 500 },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'OAuth Bearer Token',
+        description: 'SCIM token generated in Pandora workspace settings',
+        primary: true,
+      },
+    ],
+  };
+}
+
+export function userResourceType() {
+  return {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+    id: 'User',
+    name: 'User',
+    endpoint: '/Users',
+    schema: SCIM_USER_SCHEMA,
+    meta: { resourceType: 'ResourceType', location: `${getAppUrl()}/scim/v2/ResourceTypes/User` },
+  };
+}
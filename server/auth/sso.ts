@@ -0,0 +1,377 @@
+/**
+ * Single Sign-On core
+ *
+ * Shared by the OIDC and SAML login flows and the SCIM endpoint:
+ * - Connection and verified-domain lookup (domain-based SSO enforcement)
+ * - Mapping IdP groups / SCIM roles onto system roles
+ * - Provisioning users, identities and workspace memberships
+ * - Issuing the same access/refresh tokens as password login
+ */
+
+import crypto from 'crypto';
+import { query } from '../db.js';
+import { SYSTEM_ROLE_PERMISSIONS } from '../permissions/system-roles.js';
+import { decryptCredentials } from '../lib/encryption.js';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  storeRefreshToken,
+  revokeAllUserTokens,
+} from './tokens.js';
+
+export type SSOProtocol = 'oidc' | 'saml';
+
+export interface SSOConnection {
+  id: string;
+  workspace_id: string;
+  name: string;
+  protocol: SSOProtocol;
+  enabled: boolean;
+  enforce_sso: boolean;
+  jit_provisioning: boolean;
+  default_role: string;
+  role_mapping: Record<string, string>;
+  workspace_ids: string[];
+  oidc_issuer: string | null;
+  oidc_client_id: string | null;
+  oidc_client_secret: string | null;
+  oidc_groups_claim: string;
+  saml_entry_point: string | null;
+  saml_idp_issuer: string | null;
+  saml_idp_cert: string | null;
+  saml_groups_attribute: string;
+}
+
+export interface SSOAssertion {
+  subject: string;
+  email: string;
+  name?: string;
+  groups: string[];
+}
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  account_type: string;
+}
+
+export class SSOError extends Error {
+  constructor(message: string, public readonly code: string, public readonly status = 403) {
+    super(message);
+    this.name = 'SSOError';
+  }
+}
+
+// Highest privilege first — when several groups match, the strongest role wins
+const ROLE_PRECEDENCE = ['admin', 'manager', 'analyst', 'member', 'viewer'];
+
+export function getAppUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function emailDomain(email: string): string {
+  return email.trim().toLowerCase().split('@')[1] || '';
+}
+
+export async function getSSOConnection(connectionId: string): Promise<SSOConnection | null> {
+  const result = await query<SSOConnection>(
+    `SELECT * FROM sso_connections WHERE id = $1`,
+    [connectionId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Find the enabled connection that owns a verified email domain
+ */
+export async function findConnectionForEmail(email: string): Promise<SSOConnection | null> {
+  const domain = emailDomain(email);
+  if (!domain) return null;
+
+  const result = await query<SSOConnection>(
+    `SELECT c.*
+     FROM sso_domains d
+     JOIN sso_connections c ON c.id = d.connection_id
+     WHERE d.domain = $1 AND d.verified_at IS NOT NULL AND c.enabled = true`,
+    [domain]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Returns the SSO start URL when password auth is disabled for this email's domain
+ */
+export async function getEnforcedSSOUrl(email: string): Promise<string | null> {
+  const connection = await findConnectionForEmail(email);
+  if (!connection || !connection.enforce_sso) return null;
+  return `/api/auth/sso/start?connection_id=${connection.id}`;
+}
+
+export function getOIDCClientSecret(connection: SSOConnection): string {
+  if (!connection.oidc_client_secret) return '';
+  return decryptCredentials(connection.oidc_client_secret).clientSecret || '';
+}
+
+/**
+ * Resolve the system role for a set of IdP groups (or SCIM role values).
+ * Values may be mapped via role_mapping or name a system role directly.
+ */
+export function resolveSystemRole(
+  values: string[],
+  roleMapping: Record<string, string>,
+  defaultRole: string
+): { role: string; mapped: boolean } {
+  const candidates = new Set<string>();
+  const mappingLower = Object.fromEntries(
+    Object.entries(roleMapping || {}).map(([k, v]) => [k.toLowerCase(), v])
+  );
+
+  for (const raw of values) {
+    const value = raw.trim().toLowerCase();
+    const mapped = mappingLower[value] || (SYSTEM_ROLE_PERMISSIONS[value] ? value : null);
+    if (mapped && SYSTEM_ROLE_PERMISSIONS[mapped]) candidates.add(mapped);
+  }
+
+  const role = ROLE_PRECEDENCE.find(r => candidates.has(r));
+  if (role) return { role, mapped: true };
+
+  return { role: SYSTEM_ROLE_PERMISSIONS[defaultRole] ? defaultRole : 'member', mapped: false };
+}
+
+export function connectionWorkspaceIds(connection: Pick<SSOConnection, 'workspace_id' | 'workspace_ids'>): string[] {
+  return Array.from(new Set([connection.workspace_id, ...(connection.workspace_ids || [])]));
+}
+
+/**
+ * Find the role row for a system role in a workspace. Workspaces seeded with
+ * only admin/member/viewer fall back to member for manager and analyst.
+ */
+async function findWorkspaceRoleId(workspaceId: string, systemRole: string): Promise<string | null> {
+  const result = await query<{ id: string; system_type: string }>(
+    `SELECT id, system_type FROM workspace_roles
+     WHERE workspace_id = $1 AND is_system = true AND system_type IN ($2, 'member')`,
+    [workspaceId, systemRole]
+  );
+  const exact = result.rows.find(r => r.system_type === systemRole);
+  return (exact || result.rows[0])?.id || null;
+}
+
+/**
+ * Ensure the user is a member of every workspace the connection covers.
+ * New memberships are created active with the resolved role. Existing ones
+ * only change role when the IdP explicitly mapped one (mapped = true) and
+ * keep their status unless reactivate is set (SCIM active=true).
+ */
+export async function syncWorkspaceMemberships(
+  connection: Pick<SSOConnection, 'workspace_id' | 'workspace_ids'>,
+  userId: string,
+  role: { role: string; mapped: boolean },
+  options: { reactivate?: boolean } = {}
+): Promise<void> {
+  for (const workspaceId of connectionWorkspaceIds(connection)) {
+    const roleId = await findWorkspaceRoleId(workspaceId, role.role);
+    if (!roleId) continue;
+
+    await query(
+      `INSERT INTO workspace_members (workspace_id, user_id, role_id, status, accepted_at)
+       VALUES ($1, $2, $3, 'active', now())
+       ON CONFLICT (workspace_id, user_id) DO UPDATE SET
+         role_id = CASE WHEN $4 THEN EXCLUDED.role_id ELSE workspace_members.role_id END,
+         status = CASE WHEN $5 THEN 'active' ELSE workspace_members.status END,
+         accepted_at = COALESCE(workspace_members.accepted_at, now())`,
+      [workspaceId, userId, roleId, role.mapped, options.reactivate === true]
+    );
+  }
+}
+
+/**
+ * Suspend the user's memberships in the connection's workspaces and end their sessions
+ */
+export async function suspendWorkspaceMemberships(
+  connection: Pick<SSOConnection, 'workspace_id' | 'workspace_ids'>,
+  userId: string
+): Promise<void> {
+  await query(
+    `UPDATE workspace_members SET status = 'suspended'
+     WHERE user_id = $1 AND workspace_id = ANY($2::uuid[])`,
+    [userId, connectionWorkspaceIds(connection)]
+  );
+  await revokeAllUserTokens(userId);
+  await query(`DELETE FROM user_sessions WHERE user_id = $1`, [userId]);
+}
+
+/**
+ * Find or create the Pandora user for an IdP assertion.
+ * - The asserted email must belong to one of the connection's verified domains
+ * - A SCIM-deactivated identity can't sign in
+ * - Unknown users are created only when JIT provisioning is on
+ */
+export async function provisionSSOUser(connection: SSOConnection, assertion: SSOAssertion): Promise<SessionUser> {
+  const email = assertion.email.trim().toLowerCase();
+  if (!email || !email.includes('@')) {
+    throw new SSOError('Identity provider did not return an email address', 'SSO_NO_EMAIL', 400);
+  }
+
+  const domainResult = await query<{ domain: string }>(
+    `SELECT domain FROM sso_domains WHERE connection_id = $1 AND domain = $2 AND verified_at IS NOT NULL`,
+    [connection.id, emailDomain(email)]
+  );
+  if (domainResult.rows.length === 0) {
+    throw new SSOError(`Email domain ${emailDomain(email)} is not verified for this SSO connection`, 'SSO_DOMAIN_NOT_VERIFIED');
+  }
+
+  const identityResult = await query<{ user_id: string; active: boolean }>(
+    `SELECT user_id, active FROM sso_identities WHERE connection_id = $1 AND subject = $2`,
+    [connection.id, assertion.subject]
+  );
+  const identity = identityResult.rows[0];
+
+  if (identity && !identity.active) {
+    throw new SSOError('This account has been deactivated by your identity provider', 'SSO_USER_DEACTIVATED');
+  }
+
+  let user: SessionUser | undefined;
+
+  if (identity) {
+    user = (await query<SessionUser>(
+      `SELECT id, email, name, account_type FROM users WHERE id = $1`,
+      [identity.user_id]
+    )).rows[0];
+  }
+
+  if (!user) {
+    user = (await query<SessionUser>(
+      `SELECT id, email, name, account_type FROM users WHERE email = $1`,
+      [email]
+    )).rows[0];
+  }
+
+  if (user && !identity) {
+    // Linked under a different subject (e.g. SCIM userName vs OIDC sub) — honor its status
+    const linked = await query<{ active: boolean }>(
+      `SELECT active FROM sso_identities WHERE connection_id = $1 AND user_id = $2`,
+      [connection.id, user.id]
+    );
+    if (linked.rows[0] && !linked.rows[0].active) {
+      throw new SSOError('This account has been deactivated by your identity provider', 'SSO_USER_DEACTIVATED');
+    }
+  }
+
+  if (!user) {
+    if (!connection.jit_provisioning) {
+      throw new SSOError('No Pandora account exists for this user. Ask your admin to provision access.', 'SSO_USER_NOT_PROVISIONED');
+    }
+    user = (await query<SessionUser>(
+      `INSERT INTO users (email, name, account_type)
+       VALUES ($1, $2, 'standard')
+       RETURNING id, email, name, account_type`,
+      [email, assertion.name?.trim() || email]
+    )).rows[0];
+  }
+
+  await query(
+    `INSERT INTO sso_identities (connection_id, user_id, subject, last_login_at)
+     VALUES ($1, $2, $3, now())
+     ON CONFLICT (connection_id, user_id) DO UPDATE SET
+       subject = EXCLUDED.subject, last_login_at = now(), updated_at = now()`,
+    [connection.id, user.id, assertion.subject]
+  );
+
+  const role = resolveSystemRole(assertion.groups, connection.role_mapping, connection.default_role);
+  await syncWorkspaceMemberships(connection, user.id, role);
+
+  await query(`UPDATE users SET last_login_at = NOW() WHERE id = $1`, [user.id]);
+
+  return user;
+}
+
+/**
+ * Issue access + refresh tokens exactly as password login does
+ */
+export async function issueSession(user: SessionUser): Promise<{ accessToken: string; refreshToken: string }> {
+  const accessToken = generateAccessToken(user);
+  const refreshToken = generateRefreshToken();
+
+  await storeRefreshToken(user.id, refreshToken.hash);
+
+  // Store session for workspace middleware compatibility
+  await query(
+    `INSERT INTO user_sessions (user_id, token, expires_at)
+     VALUES ($1, $2, NOW() + INTERVAL '24 hours')
+     ON CONFLICT (token) DO UPDATE SET expires_at = NOW() + INTERVAL '24 hours'`,
+    [user.id, accessToken]
+  );
+
+  return { accessToken, refreshToken: refreshToken.raw };
+}
+
+/**
+ * Pending login request (OIDC state or SAML AuthnRequest ID)
+ */
+export async function createAuthRequest(
+  connectionId: string,
+  fields: { id?: string; nonce?: string; codeVerifier?: string; returnTo?: string } = {}
+): Promise<string> {
+  const id = fields.id || crypto.randomBytes(24).toString('base64url');
+  await query(
+    `INSERT INTO sso_auth_requests (id, connection_id, nonce, code_verifier, return_to)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [id, connectionId, fields.nonce || null, fields.codeVerifier || null, fields.returnTo || null]
+  );
+  return id;
+}
+
+/**
+ * Consume a pending login request (single use). Returns null if unknown or expired.
+ */
+export async function consumeAuthRequest(id: string): Promise<{
+  connection_id: string;
+  nonce: string | null;
+  code_verifier: string | null;
+  return_to: string | null;
+} | null> {
+  const result = await query<{ connection_id: string; nonce: string | null; code_verifier: string | null; return_to: string | null }>(
+    `DELETE FROM sso_auth_requests
+     WHERE id = $1 AND expires_at > now()
+     RETURNING connection_id, nonce, code_verifier, return_to`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Only same-origin relative paths are allowed as post-login destinations.
+ * Backslashes and control characters are rejected, raw or percent-encoded,
+ * since browsers normalise `/\host` into a protocol-relative URL.
+ */
+export function safeReturnTo(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.startsWith('/') || value.startsWith('//')) return undefined;
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+  if (/[\\\u0000-\u001f\u007f]/.test(value) || /[\\\u0000-\u001f\u007f]/.test(decoded)) return undefined;
+
+  const base = 'http://return-to.invalid';
+  const url = new URL(value, base);
+  return url.origin === base ? value : undefined;
+}
+
+export function hashScimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Resolve the connection that owns a SCIM bearer token
+ */
+export async function findConnectionByScimToken(token: string): Promise<SSOConnection | null> {
+  const result = await query<SSOConnection>(
+    `SELECT * FROM sso_connections WHERE scim_token_hash = $1`,
+    [hashScimToken(token)]
+  );
+  return result.rows[0] || null;
+}
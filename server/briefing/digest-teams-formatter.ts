@@ -0,0 +1,115 @@
+/**
+ * Microsoft Teams Formatter for Investigation Weekly Digest
+ *
+ * Generates an Adaptive Card for posting investigation summaries to a Teams
+ * incoming webhook. Same sections as digest-slack-formatter.ts.
+ */
+
+import { DigestData, InvestigationSummary } from './investigation-digest.js';
+import {
+  buildAdaptiveCard,
+  cardHeading,
+  cardSubheading,
+  cardText,
+  cardContext,
+  cardFacts,
+  openUrlAction,
+  type AdaptiveCard,
+  type AdaptiveCardElement,
+} from '../connectors/teams/client.js';
+
+function formatCurrency(value: number): string {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+function getTrendIcon(trend: 'improving' | 'worsening' | 'stable'): string {
+  switch (trend) {
+    case 'improving':
+      return '📉';
+    case 'worsening':
+      return '📈';
+    default:
+      return '➡️';
+  }
+}
+
+function buildInvestigationSections(investigations: InvestigationSummary[]): AdaptiveCardElement[] {
+  const elements: AdaptiveCardElement[] = [];
+
+  for (const inv of investigations) {
+    if (inv.runsCount === 0) {
+      elements.push(cardText(`**${inv.skillName}**\n\nℹ️ No investigations ran in the past 7 days`, true));
+      continue;
+    }
+
+    const deltaPrefix = inv.deltaAtRisk > 0 ? '+' : '';
+    const trendLabel = inv.trend.charAt(0).toUpperCase() + inv.trend.slice(1);
+
+    elements.push(cardText(`**${inv.skillName}** ${getTrendIcon(inv.trend)}`, true));
+    elements.push(cardFacts([
+      {
+        title: 'At-Risk',
+        value: `${inv.currentAtRisk}${inv.deltaAtRisk !== 0 ? ` (${deltaPrefix}${inv.deltaAtRisk} this week)` : ''}`,
+      },
+      { title: 'Trend', value: `${trendLabel} • ${inv.runsCount} run${inv.runsCount !== 1 ? 's' : ''}` },
+    ]));
+
+    if (inv.criticalFindings.length > 0) {
+      const findingsText = inv.criticalFindings
+        .map((f) => `- **${f.dealName}** (${formatCurrency(f.amount)}) — ${f.message}`)
+        .join('\n');
+      elements.push(cardText(`_Top Critical Findings:_\n\n${findingsText}`));
+    }
+  }
+
+  return elements;
+}
+
+export function formatDigestTeams(digest: DigestData): AdaptiveCard {
+  const appUrl = process.env.APP_URL || 'http://localhost:3000';
+  const historyUrl = `${appUrl}/investigation/history`;
+
+  const startDate = new Date(digest.periodStart).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  const endDate = new Date(digest.periodEnd).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const periodLabel = `${startDate} — ${endDate}`;
+
+  const totalRuns = digest.investigations.reduce((sum, inv) => sum + inv.runsCount, 0);
+  const totalAtRisk = digest.investigations.reduce((sum, inv) => sum + inv.currentAtRisk, 0);
+  const worseningCount = digest.investigations.filter((inv) => inv.trend === 'worsening').length;
+
+  const body: AdaptiveCardElement[] = [
+    cardHeading('📊 Weekly Investigation Digest'),
+    cardContext(`${digest.workspaceName} • ${periodLabel}`),
+    cardFacts([
+      { title: 'Total Investigations', value: String(totalRuns) },
+      { title: 'At-Risk Deals', value: String(totalAtRisk) },
+      { title: 'Worsening Trends', value: `${worseningCount > 0 ? '⚠️' : '✅'} ${worseningCount}` },
+    ]),
+    cardSubheading('Investigations'),
+    ...buildInvestigationSections(digest.investigations),
+  ];
+
+  if (digest.topCriticalFindings.length > 0) {
+    body.push(cardSubheading('Top Critical Findings'));
+    body.push(cardText(
+      digest.topCriticalFindings
+        .map((f) => `🔴 **${f.dealName}** (${formatCurrency(f.amount)})\n\n${f.message}`)
+        .join('\n\n')
+    ));
+  }
+
+  body.push(cardContext('_Generated by Pandora_'));
+
+  return buildAdaptiveCard(body, [openUrlAction('View Full History →', historyUrl)]);
+}
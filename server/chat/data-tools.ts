@@ -12,6 +12,7 @@ import type { PipelineResolution } from './pipeline-resolver.js';
 import { getToolFilters } from '../config/tool-filter-injector.js';
 import { configLoader } from '../config/workspace-config-loader.js';
 import { callLLM } from '../utils/llm-router.js';
+import { semanticSearch } from '../search/semantic-search.js';
 import { querySchema, type ObjectType, type FilterMode } from '../tools/schema-query.js';
 import { queryConversationSignals, type SignalQueryFilters } from '../signals/query-conversation-signals.js';
 import { queryActivitySignals, type ActivitySignalQueryFilters } from '../signals/query-activity-signals.js';
@@ -19,6 +20,8 @@ import { getWorkspaceContext } from './workspace-context.js';
 import { getCachedResult, setCachedResult } from './tool-result-cache.js';
 import { shouldCompress, compressToolResult } from './tool-result-compressor.js';
 import { formatCurrency } from '../utils/format-currency.js';
+import { creditShareSubquery, resolveCreditScope } from '../quotas/deal-splits.js';
+import { productMix } from '../analysis/aggregations.js';
 import { scoreIcpFit, scoreMultithreading, scoreConversationSentiment } from './scoring-tools.js';
 import { computeRepConversions, computeSourceConversion, detectProcessBlockers, detectBuyerSignals, checkStakeholderStatus, enrichMarketSignals } from './analysis-tools.js';
 import { queryDealOutcomes } from './query-deal-outcomes.js';
@@ -110,6 +113,8 @@ export interface DealRecord {
   id: string;
   name: string;
   amount: number;
+  amount_original: number | null;
+  currency_code: string | null;
   stage: string;
   stage_normalized: string;
   close_date: string | null;
@@ -129,6 +134,7 @@ export interface QueryDealsResult {
   deals: DealRecord[];
   total_count: number;
   total_amount: number;
+  currency: string;
   query_description: string;
 }
 
@@ -298,6 +304,8 @@ export async function executeDataTool(
         result = await computeMetricSegmented(workspaceId, params); break;
       case 'search_transcripts':
         result = await searchTranscripts(workspaceId, params); break;
+      case 'semantic_search':
+        result = await semanticSearchTool(workspaceId, params); break;
       case 'compute_forecast_accuracy':
         result = await computeForecastAccuracy(workspaceId, params); break;
       case 'compute_close_probability':
@@ -481,6 +489,10 @@ export async function executeDataTool(
         result = await getCrmSyncStatus(workspaceId, params); break;
       case 'query_quota_config':
         result = await queryQuotaConfig(workspaceId, params); break;
+      case 'query_line_items':
+        result = await queryLineItems(workspaceId, params); break;
+      case 'compute_product_metrics':
+        result = await computeProductMetrics(workspaceId, params); break;
 
       default:
         throw new Error(`Unknown tool: ${toolName}`);
@@ -662,7 +674,8 @@ async function queryDeals(workspaceId: string, params: Record<string, any>): Pro
   const totalAmount = parseFloat(countResult.rows[0]?.total_amt || '0');
 
   const rows = await query<any>(
-    `SELECT d.id, d.source_id, d.name, d.amount, COALESCE(d.stage, d.stage_normalized) as stage, d.stage_normalized,
+    `SELECT d.id, d.source_id, d.name, d.amount, d.amount_original, d.currency_code,
+            COALESCE(d.stage, d.stage_normalized) as stage, d.stage_normalized,
             d.close_date, d.owner as owner_name, d.owner as owner_email,
             a.name as account_name, d.account_id,
             d.probability, d.forecast_category,
@@ -689,12 +702,14 @@ async function queryDeals(workspaceId: string, params: Record<string, any>): Pro
   const description = descParts.length > 0
     ? `Deals matching: ${descParts.join(', ')}`
     : 'All deals';
+  const currency = await configLoader.getReportingCurrency(workspaceId);
 
   const result: any = {
     deals: rows.rows,
     total_count: totalCount,
     total_amount: totalAmount,
-    query_description: `${description} — ${totalCount} records, ${formatCurrency(totalAmount)} total`,
+    currency,
+    query_description: `${description} — ${totalCount} records, ${formatCurrency(totalAmount, currency)} total`,
   };
 
   const resolution: PipelineResolution | undefined = params._pipeline_resolution;
@@ -1176,9 +1191,15 @@ async function computeAttainment(workspaceId: string, params: Record<string, any
     }
   }
 
+  // Per-rep attainment counts the rep's credited share (splits, overlay and
+  // manager roll-up per the workspace crediting rules), not only owned deals
+  let creditJoin = '';
+  let creditedAmount = 'amount';
   if (params.owner_email) {
-    values.push(params.owner_email.toLowerCase());
-    conditions.push(`LOWER(owner) = $${values.length}`);
+    const creditScope = await resolveCreditScope(workspaceId, params.owner_email);
+    values.push(creditScope.reps, creditScope.splitTypes);
+    creditJoin = `JOIN ${creditShareSubquery('$1', `$${values.length - 1}`, `$${values.length}`)} cs ON cs.deal_id = deals.id`;
+    creditedAmount = 'amount * cs.credit_share';
   }
 
   const toolFilters = await getToolFilters(workspaceId, 'general', values.length + 1, 'deals').catch(() => ({ whereClause: '', params: [], paramOffset: values.length + 1, appliedRules: [] }));
@@ -1188,7 +1209,7 @@ async function computeAttainment(workspaceId: string, params: Record<string, any
   }
 
   const result = await query<{ amount: string; id: string; name: string }>(
-    `SELECT amount::text, id, name FROM deals WHERE ${conditions.join(' AND ')}`,
+    `SELECT (${creditedAmount})::text AS amount, id, name FROM deals ${creditJoin} WHERE ${conditions.join(' AND ')}`,
     values
   );
 
@@ -1208,7 +1229,7 @@ async function computeAttainment(workspaceId: string, params: Record<string, any
       id: r.id,
       name: r.name,
       amount: parseFloat(r.amount || '0'),
-      included_because: 'Closed won in period'
+      included_because: params.owner_email ? 'Closed won in period (credited share)' : 'Closed won in period'
     })),
     exclusions: [],
     record_count: result.rows.length,
@@ -2714,6 +2735,36 @@ async function searchTranscripts(workspaceId: string, params: Record<string, any
   };
 }
 
+// ─── Tool 12b: semantic_search ───────────────────────────────────────────────
+
+const SEMANTIC_SOURCE_TYPES = ['conversation', 'document', 'finding', 'memory'] as const;
+
+async function semanticSearchTool(workspaceId: string, params: Record<string, any>) {
+  if (!params.query) throw new Error('query is required for semantic_search');
+
+  const sourceTypes = Array.isArray(params.sources)
+    ? params.sources.filter((s: string) => (SEMANTIC_SOURCE_TYPES as readonly string[]).includes(s))
+    : undefined;
+
+  const result = await semanticSearch(workspaceId, String(params.query), {
+    sourceTypes,
+    dealId: params.deal_id,
+    accountId: params.account_id,
+    since: params.since,
+    until: params.until,
+    includeInternal: params.include_internal === true,
+    limit: params.max_results,
+  });
+
+  return {
+    chunks: result.results,
+    total_matches: result.results.length,
+    search_mode: result.mode,
+    ...(result.note ? { note: result.note } : {}),
+    query_description: `Semantic search for "${result.query}" — ${result.results.length} cited chunks (${result.mode})`,
+  };
+}
+
 // ─── Tool 13: compute_forecast_accuracy ───────────────────────────────────────
 
 async function computeForecastAccuracy(workspaceId: string, params: Record<string, any>) {
@@ -5153,6 +5204,7 @@ const CONNECTOR_CATEGORY_MAP: Record<string, string> = {
   monday: 'tasks',
   'google-drive': 'documents',
   'google-calendar': 'calendar',
+  'microsoft-365': 'calendar',
   csv_import: 'import',
   enrichment_config: 'enrichment',
 };
@@ -5314,3 +5366,108 @@ async function queryQuotaConfig(workspaceId: string, _params: Record<string, any
     query_description: `Quota config check: ${targetsWithAmount.length} target(s) with quota amounts configured (${activeTargets.length} active)`,
   };
 }
+
+// ─── Tool: query_line_items ──────────────────────────────────────────────────
+
+async function queryLineItems(workspaceId: string, params: Record<string, any>): Promise<any> {
+  const conditions: string[] = ['li.workspace_id = $1'];
+  const values: any[] = [workspaceId];
+
+  if (params.deal_id) {
+    values.push(params.deal_id);
+    conditions.push(`li.deal_id = $${values.length}`);
+  }
+  if (params.deal_name) {
+    values.push(`%${params.deal_name}%`);
+    conditions.push(`d.name ILIKE $${values.length}`);
+  }
+  if (params.product) {
+    values.push(`%${params.product}%`);
+    conditions.push(`(COALESCE(p.name, li.name) ILIKE $${values.length} OR COALESCE(p.sku, li.sku) ILIKE $${values.length})`);
+  }
+  if (params.owner_email) {
+    values.push(String(params.owner_email).toLowerCase());
+    conditions.push(`(LOWER(d.owner) = $${values.length} OR LOWER(d.owner_email) = $${values.length})`);
+  }
+  if (params.status === 'open') {
+    conditions.push(`d.stage_normalized NOT IN ('closed_won', 'closed_lost')`);
+  } else if (params.status === 'won') {
+    conditions.push(`d.stage_normalized = 'closed_won'`);
+  } else if (params.status === 'lost') {
+    conditions.push(`d.stage_normalized = 'closed_lost'`);
+  }
+
+  const limit = Math.min(Math.max(parseInt(params.limit, 10) || 50, 1), 200);
+  values.push(limit);
+
+  const result = await query<any>(
+    `SELECT li.deal_id, d.name AS deal_name, d.stage, d.close_date, d.owner,
+       COALESCE(p.name, li.name) AS product, COALESCE(p.sku, li.sku) AS sku, p.family,
+       li.quantity::float AS quantity, li.unit_price::float AS unit_price, li.list_price::float AS list_price,
+       li.discount_percent::float AS discount_percent, li.amount::float AS amount
+     FROM deal_line_items li
+     JOIN deals d ON d.id = li.deal_id
+     LEFT JOIN products p ON p.id = li.product_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY li.amount DESC NULLS LAST
+     LIMIT $${values.length}`,
+    values
+  );
+
+  const total = result.rows.reduce((sum: number, r: any) => sum + (r.amount || 0), 0);
+  return {
+    line_items: result.rows,
+    total_amount: total,
+    deal_count: new Set(result.rows.map((r: any) => r.deal_id)).size,
+    query_description: `${result.rows.length} line item(s)${params.product ? ` matching "${params.product}"` : ''} totaling ${formatCurrency(total)}`,
+  };
+}
+
+// ─── Tool: compute_product_metrics ───────────────────────────────────────────
+
+async function computeProductMetrics(workspaceId: string, params: Record<string, any>): Promise<any> {
+  let pipelines: string[] | undefined;
+  if (params.pipeline_name) {
+    const resolved = await resolvePipelineName(workspaceId, params.pipeline_name);
+    pipelines = resolved?.filter_field === 'pipeline' && resolved.filter_values.length > 0
+      ? resolved.filter_values.map(String)
+      : [params.pipeline_name];
+  }
+
+  const mix = await productMix(workspaceId, {
+    start: params.date_from ? new Date(params.date_from) : undefined,
+    end: params.date_to ? new Date(params.date_to) : undefined,
+    pipelines,
+    owner: params.owner_email,
+    product: params.product,
+  });
+
+  const sortKey = ({
+    pipeline: 'openPipeline',
+    win_rate: 'winRate',
+    asp: 'asp',
+    attach_rate: 'attachRate',
+    discount: 'avgDiscountPercent',
+  } as Record<string, keyof typeof mix.products[number]>)[params.sort_by] ?? 'openPipeline';
+  const products = [...mix.products]
+    .sort((a, b) => (Number(b[sortKey]) || 0) - (Number(a[sortKey]) || 0))
+    .slice(0, Math.min(parseInt(params.limit, 10) || 25, 100));
+
+  const coverageNote = mix.coverage.openAmountCoverage !== null && mix.coverage.openAmountCoverage < 0.8
+    ? `Only ${Math.round(mix.coverage.openAmountCoverage * 100)}% of open pipeline value is on deals with line items; product figures understate the total.`
+    : null;
+
+  return {
+    products,
+    coverage: mix.coverage,
+    ...(coverageNote ? { coverage_note: coverageNote } : {}),
+    definitions: {
+      win_rate: 'won / (won + lost) deals containing the product',
+      asp: 'average won line-item revenue per deal for the product',
+      attach_rate: 'share of won deals with line items that included the product',
+    },
+    query_description: mix.products.length === 0
+      ? 'No deal line items found — products/line items may not be synced for this workspace'
+      : `Product metrics for ${mix.products.length} product(s)${params.date_from || params.date_to ? ` closing ${params.date_from ?? '…'} to ${params.date_to ?? '…'}` : ''}`,
+  };
+}
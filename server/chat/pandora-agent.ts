@@ -141,7 +141,7 @@ const PANDORA_TOOLS: ToolDef[] = [
         summary_search: { type: 'string', description: 'Search in AI-generated summaries' },
         is_internal: { type: 'boolean', description: 'Filter internal vs external calls (default false = external only)' },
         min_duration_minutes: { type: 'number', description: 'Minimum call length in minutes' },
-        source: { type: 'string', enum: ['gong', 'fireflies'], description: 'Filter by source system' },
+        source: { type: 'string', enum: ['gong', 'fireflies', 'zoom', 'chorus'], description: 'Filter by source system' },
         include_transcript_excerpts: { type: 'boolean', description: 'Include relevant transcript segments (uses more tokens but enables content analysis)' },
         excerpt_keyword: { type: 'string', description: 'Keyword to center transcript excerpts around (use with include_transcript_excerpts)' },
         limit: { type: 'number', description: 'Max records (default 30)' },
@@ -326,6 +326,29 @@ const PANDORA_TOOLS: ToolDef[] = [
       required: ['query'],
     },
   },
+  {
+    name: 'semantic_search',
+    description:
+      "Search by meaning across call transcripts, documents (e.g. Google Drive), open findings and workspace memory. Combines keyword and embedding ranking, so it finds paraphrases that keyword search misses (\"pushed back on pricing\" matches \"too expensive for us this year\"). Returns cited chunks: each has a citation_id (S1, S2, ...), source type and id, title, date, url, speakers and the matching excerpt. Prefer this over search_transcripts for natural-language questions; cite chunks by citation_id in your answer.",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Natural-language question or topic' },
+        sources: {
+          type: 'array',
+          items: { type: 'string', enum: ['conversation', 'document', 'finding', 'memory'] },
+          description: 'Limit to these source types (default: all)',
+        },
+        deal_id: { type: 'string', description: 'Only chunks linked to this deal' },
+        account_id: { type: 'string', description: 'Only chunks linked to this account' },
+        since: { type: 'string', description: 'ISO date — sources dated after this' },
+        until: { type: 'string', description: 'ISO date — sources dated before this' },
+        include_internal: { type: 'boolean', description: 'Include internal meetings (default false)' },
+        max_results: { type: 'number', description: 'Max chunks to return (default 8, max 20)' },
+      },
+      required: ['query'],
+    },
+  },
   {
     name: 'compute_forecast_accuracy',
     description:
@@ -1207,6 +1230,45 @@ const PANDORA_TOOLS: ToolDef[] = [
       additionalProperties: false,
     },
   },
+
+  {
+    name: 'query_line_items',
+    description: 'Deal line items (products/SKUs on deals) with quantity, unit price, list price, discount and net amount. Use when asked what products are on a deal, which deals include a product, or "show me deals with the Analytics add-on".',
+    parameters: {
+      type: 'object',
+      properties: {
+        deal_id: { type: 'string', description: 'Line items on this deal' },
+        deal_name: { type: 'string', description: 'Partial match on deal name' },
+        product: { type: 'string', description: 'Partial match on product name or SKU' },
+        owner_email: { type: 'string', description: 'Scope to one rep' },
+        status: { type: 'string', enum: ['open', 'won', 'lost'], description: 'Filter by deal outcome' },
+        limit: { type: 'number', description: 'Max rows (default 50, max 200)' },
+      },
+      required: [],
+      // @ts-ignore
+      additionalProperties: false,
+    },
+  },
+
+  {
+    name: 'compute_product_metrics',
+    description: 'Product-level pipeline analytics from deal line items: open pipeline, won revenue, win rate, ASP, average discount and attach rate per product. Use for "how much pipeline is the Analytics add-on?", "which SKU has the worst win rate?", "what is our attach rate for Premium Support?". Reports line-item coverage so you can caveat when not every deal has line items.',
+    parameters: {
+      type: 'object',
+      properties: {
+        product: { type: 'string', description: 'Partial match on product name or SKU. Omit for all products.' },
+        date_from: { type: 'string', description: 'Close date on or after (ISO date)' },
+        date_to: { type: 'string', description: 'Close date on or before (ISO date)' },
+        owner_email: { type: 'string', description: 'Scope to one rep' },
+        pipeline_name: { type: 'string', description: 'Scope to one named pipeline' },
+        sort_by: { type: 'string', enum: ['pipeline', 'win_rate', 'asp', 'attach_rate', 'discount'], description: 'Sort order (default pipeline)' },
+        limit: { type: 'number', description: 'Max products (default 25)' },
+      },
+      required: [],
+      // @ts-ignore
+      additionalProperties: false,
+    },
+  },
 ];
 
 // ─── System prompt ────────────────────────────────────────────────────────────
@@ -1746,7 +1808,7 @@ Rules:
 - "analytical": multi-step analysis within one domain (e.g. "which reps have the best win rate?", "why is deal X stuck?")
 - "strategic": cross-domain, open-ended, advisory (e.g. "create a messaging framework", "what should we focus on this quarter?", "build an ABM playbook")
 
-Available tools: query_deals, query_accounts, query_conversations, get_skill_evidence, compute_metric, query_contacts, query_leads, query_activity_timeline, query_stage_history, compute_stage_benchmarks, query_field_history, compute_metric_segmented, search_transcripts, compute_forecast_accuracy, compute_close_probability, compute_pipeline_creation, compute_inqtr_close_rate, compute_competitive_rates, compute_activity_trend, compute_shrink_rate, infer_contact_role, query_activity_signals
+Available tools: query_deals, query_accounts, query_conversations, get_skill_evidence, compute_metric, query_contacts, query_leads, query_activity_timeline, query_stage_history, compute_stage_benchmarks, query_field_history, compute_metric_segmented, search_transcripts, semantic_search, compute_forecast_accuracy, compute_close_probability, compute_pipeline_creation, compute_inqtr_close_rate, compute_competitive_rates, compute_activity_trend, compute_shrink_rate, infer_contact_role, query_activity_signals
 
 Also include a confidence score (0.0–1.0) reflecting how certain you are of the question_type classification. Use low confidence (below 0.65) when the question is vague, uses ambiguous pronouns, or could reasonably fit multiple types.
 
@@ -2790,6 +2852,7 @@ const TOOL_DISPLAY_NAMES: Record<string, string> = {
   'query_stage_history': 'Checking stage history',
   'compute_metric': 'Computing metrics',
   'search_transcripts': 'Searching call transcripts',
+  'semantic_search': 'Searching calls, documents and findings',
   'get_crm_write_history': 'Reviewing CRM changes',
   'score_icp_fit': 'Scoring ICP fit',
   'query_accounts': 'Checking accounts',
@@ -2821,6 +2884,7 @@ function getResultSummary(result: any): string {
   if (result.pending_actions) return `${result.pending_actions.length} actions`;
   if (result.coverage_score !== undefined) return `Score: ${result.coverage_score}/100`;
   if (result.rules) return `${result.rules.length} rules`;
+  if (result.chunks) return `${result.chunks.length} cited chunks`;
   if (result.excerpts) return `${result.excerpts.length} excerpts`;
   if (result.accounts) return `${result.accounts.length} accounts`;
   if (result.conversations) return `${result.conversations.length} calls`;
@@ -2850,6 +2914,25 @@ function compressToolResult(toolName: string, result: any): any {
       return compressed;
     }
 
+    case 'semantic_search': {
+      const compressed: any = {
+        total_matches: result.total_matches,
+        search_mode: result.search_mode,
+        query_description: result.query_description,
+      };
+      if (Array.isArray(result.chunks)) {
+        compressed.chunks = result.chunks.map((c: any) => ({
+          citation_id: c.citation_id,
+          source_type: c.source_type,
+          title: c.title,
+          date: c.date,
+          url: c.url,
+          excerpt: typeof c.excerpt === 'string' ? c.excerpt.slice(0, 200) : c.excerpt,
+        }));
+      }
+      return compressed;
+    }
+
     case 'query_conversations': {
       const compressed: any = {
         total_count: result.total_count,
@@ -24,6 +24,7 @@ const COMPRESSION_THRESHOLDS: Record<string, number> = {
   query_stage_history: 4000,
   query_field_history: 2500,
   search_transcripts: 5000,
+  semantic_search: 5000,
   get_skill_evidence: 6000,
   query_conversation_signals: 3000,
   query_activity_signals: 3000,
@@ -163,6 +164,16 @@ ${data}`,
 
 Output valid JSON only. No markdown.
 
+Data:
+${data}`,
+
+    semantic_search: `Extract the most relevant cited chunks. Include:
+- total_matches, search_mode
+- For each chunk: citation_id, source_type, source_id, title, date, url, speakers, excerpt (keep the quote, max 300 chars each)
+- Keep citation_id exactly as given so the answer can cite it
+
+Output valid JSON only. No markdown.
+
 Data:
 ${data}`,
 
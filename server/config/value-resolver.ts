@@ -7,6 +7,10 @@
  * Resolves the economic value of a deal based on the pipeline's
  * value_field and value_formula config. Non-fatal: if field missing
  * or formula errors, falls back to deal.amount or 0.
+ *
+ * deal.amount is already in the workspace reporting currency; any other
+ * money field (custom ARR/ACV properties) is still in the deal's CRM
+ * currency, so it is scaled by deal.fx_rate.
  */
 
 import { PipelineConfig } from '../types/workspace-config.js';
@@ -34,7 +38,9 @@ export function resolveValue(
 
     if (value !== null && value !== undefined) {
       const num = Number(value);
-      if (!isNaN(num)) return num;
+      if (!isNaN(num)) {
+        return pipelineConfig.value_field === 'amount' ? num : num * fxRateOf(deal);
+      }
     }
 
     // Fallback to amount
@@ -80,8 +86,9 @@ function evaluateFormula(
 
   for (const varName of VARS) {
     const pattern = new RegExp(`\\{${varName}\\}`, 'g');
-    const value = getNestedField(deal, varName) || 0;
-    expr = expr.replace(pattern, String(Number(value)));
+    const value = Number(getNestedField(deal, varName) || 0);
+    const converted = NON_FX_VARS.has(varName) ? value : value * fxRateOf(deal);
+    expr = expr.replace(pattern, String(converted));
   }
 
   // Safe arithmetic evaluation
@@ -97,6 +104,17 @@ function evaluateFormula(
   return isNaN(result) || !isFinite(result) ? 0 : result;
 }
 
+// Variables that are not CRM-currency money values
+const NON_FX_VARS = new Set(['amount', 'contract_months']);
+
+/**
+ * Rate from the deal's CRM currency to the reporting currency (1 when unknown).
+ */
+function fxRateOf(deal: Record<string, any>): number {
+  const rate = Number(deal.fx_rate);
+  return Number.isFinite(rate) && rate > 0 ? rate : 1;
+}
+
 function getNestedField(
   obj: Record<string, any>,
   path: string
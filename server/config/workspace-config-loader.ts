@@ -14,6 +14,7 @@ import type {
   VoiceConfig,
   VoiceModifierConfig,
   NamedFilter,
+  CurrencyConfig,
 } from '../types/workspace-config.js';
 import { buildVoicePromptBlock } from './voice-prompt-block.js';
 import type { VoiceProfile } from '../voice/types.js';
@@ -21,6 +22,8 @@ import { DEFAULT_VOICE_PROFILE } from '../voice/types.js';
 import type { WorkspaceDocumentProfile, SectionPreferences } from '../types/document-profile.js';
 import { DEFAULT_DOCUMENT_PROFILE } from '../types/document-profile.js';
 
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
 /**
  * Default voice configuration for new workspaces
  */
@@ -430,6 +433,40 @@ export class WorkspaceConfigLoader {
     return config.thresholds.threading_requires_distinct || 'none';
   }
 
+  // ===== DISCOUNT GUARDRAIL =====
+
+  /**
+   * Get the discount % above which a deal is over the workspace guardrail:
+   * thresholds.discount_guardrail_pct, else the calibration answer to
+   * "What discount percentage requires approval?", else 20%.
+   */
+  async getDiscountGuardrail(
+    workspaceId: string
+  ): Promise<{ pct: number; source: 'config' | 'calibration' | 'default' }> {
+    const config = await this.getConfig(workspaceId);
+    const configured = config.thresholds?.discount_guardrail_pct;
+    if (typeof configured === 'number' && configured > 0) {
+      return { pct: configured, source: 'config' };
+    }
+
+    try {
+      const result = await query<{ answer: unknown }>(
+        `SELECT answer FROM calibration_checklist
+         WHERE workspace_id = $1 AND question_id = 'discount_approval_threshold'
+           AND status IN ('CONFIRMED', 'INFERRED')
+         LIMIT 1`,
+        [workspaceId]
+      );
+      const answer = result.rows[0]?.answer as any;
+      const value = parseFloat(answer?.value ?? answer);
+      if (Number.isFinite(value) && value > 0) return { pct: value, source: 'calibration' };
+    } catch (err) {
+      console.warn('[ConfigLoader] Failed to read discount approval threshold:', err instanceof Error ? err.message : err);
+    }
+
+    return { pct: 20, source: 'default' };
+  }
+
   // ===== DEFAULTS =====
 
   /**
@@ -673,6 +710,40 @@ export class WorkspaceConfigLoader {
     return updatedVoice as VoiceConfig & VoiceModifierConfig;
   }
 
+  // ===== CURRENCY =====
+
+  /**
+   * ISO 4217 reporting currency for the workspace. Default: 'USD'
+   */
+  async getReportingCurrency(workspaceId: string): Promise<string> {
+    const config = await this.getConfig(workspaceId);
+    return config.currency?.reporting_currency || DEFAULT_REPORTING_CURRENCY;
+  }
+
+  /**
+   * Update the reporting currency. Callers must reconvert deal amounts afterwards.
+   */
+  async updateCurrencyConfig(workspaceId: string, currency: CurrencyConfig): Promise<CurrencyConfig> {
+    // Write the whole config: workspaces still on defaults have no stored workspace_config to merge into
+    const currentConfig = await this.getConfig(workspaceId);
+    const updatedConfig: WorkspaceConfig = {
+      ...currentConfig,
+      currency,
+      updated_at: new Date(),
+    };
+
+    await query(
+      `UPDATE context_layer
+       SET definitions = jsonb_set(COALESCE(definitions, '{}'), '{workspace_config}', $2::jsonb),
+           updated_at = NOW()
+       WHERE workspace_id = $1`,
+      [workspaceId, JSON.stringify(updatedConfig)]
+    );
+
+    this.clearCache(workspaceId);
+    return currency;
+  }
+
   // ===== DOCUMENT PROFILE =====
 
   /**
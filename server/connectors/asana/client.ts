@@ -0,0 +1,210 @@
+/**
+ * Asana API Client
+ *
+ * Pure API client for the Asana REST API 1.0.
+ * Stateless - receives credentials per call.
+ *
+ * API Documentation: https://developers.asana.com/reference
+ *
+ * Key Patterns:
+ * - Base URL: https://app.asana.com/api/1.0
+ * - Authorization: Bearer {personal access token}
+ * - Request and response bodies are wrapped in { data: ... }
+ * - Everything is scoped to a workspace gid; projects contain sections
+ * - Tasks are closed with completed=true
+ */
+
+import { RateLimiter } from '../../utils/retry.js';
+
+export interface AsanaCredentials {
+  accessToken: string;
+  workspaceGid?: string;    // Defaults to the token owner's first workspace
+}
+
+export interface AsanaRef {
+  gid: string;
+  name: string;
+}
+
+export interface AsanaUser {
+  gid: string;
+  name: string;
+  email?: string;
+  workspaces?: AsanaRef[];
+}
+
+export interface AsanaTask {
+  gid: string;
+  name: string;
+  completed: boolean;
+  completed_at: string | null;
+  permalink_url?: string;
+  memberships?: { project: AsanaRef; section?: AsanaRef }[];
+}
+
+export class AsanaClient {
+  private readonly apiUrl = 'https://app.asana.com/api/1.0';
+  private rateLimiter = new RateLimiter(150, 60_000); // Asana free tier: 150 requests per minute
+
+  /**
+   * Execute a REST request against the Asana API and unwrap { data }
+   */
+  private async request<T = any>(
+    credentials: AsanaCredentials,
+    method: string,
+    path: string,
+    data?: unknown
+  ): Promise<T> {
+    return this.rateLimiter.execute(async () => {
+      return this.requestWithRetry<T>(credentials, method, path, data);
+    });
+  }
+
+  private async requestWithRetry<T>(
+    credentials: AsanaCredentials,
+    method: string,
+    path: string,
+    data?: unknown,
+    attempt = 1,
+    maxAttempts = 3
+  ): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${credentials.accessToken}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: data !== undefined ? JSON.stringify({ data }) : undefined,
+    });
+
+    // Handle 429 rate limit with exponential backoff
+    if (response.status === 429 && attempt < maxAttempts) {
+      const retryAfter = response.headers.get('Retry-After');
+      const delayMs = retryAfter
+        ? parseInt(retryAfter) * 1000
+        : Math.pow(2, attempt) * 1000;
+
+      console.warn(`[Asana Client] Rate limited (429), retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return this.requestWithRetry<T>(credentials, method, path, data, attempt + 1, maxAttempts);
+    }
+
+    const body = await response.json().catch(() => ({})) as any;
+
+    if (!response.ok) {
+      const message = body?.errors?.map((e: any) => e.message).join('; ');
+      throw new Error(`Asana HTTP error: ${response.status} ${response.statusText}${message ? ` - ${message}` : ''}`);
+    }
+
+    return body.data as T;
+  }
+
+  /**
+   * Test connection by fetching the token owner
+   */
+  async testConnection(credentials: AsanaCredentials): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    try {
+      const me = await this.getMe(credentials);
+      return {
+        success: true,
+        accountInfo: { gid: me.gid, name: me.name, email: me.email, workspaces: me.workspaces },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async getMe(credentials: AsanaCredentials): Promise<AsanaUser> {
+    return this.request<AsanaUser>(credentials, 'GET', '/users/me?opt_fields=name,email,workspaces.name');
+  }
+
+  /**
+   * Resolve the workspace gid, falling back to the token owner's first workspace
+   */
+  async resolveWorkspaceGid(credentials: AsanaCredentials): Promise<string> {
+    if (credentials.workspaceGid) return credentials.workspaceGid;
+    const me = await this.getMe(credentials);
+    const gid = me.workspaces?.[0]?.gid;
+    if (!gid) {
+      throw new Error('Asana user has no workspaces');
+    }
+    return gid;
+  }
+
+  /**
+   * Get active projects in the workspace
+   */
+  async getProjects(credentials: AsanaCredentials): Promise<AsanaRef[]> {
+    const workspaceGid = await this.resolveWorkspaceGid(credentials);
+    return this.request<AsanaRef[]>(
+      credentials,
+      'GET',
+      `/projects?workspace=${workspaceGid}&archived=false&limit=100`
+    );
+  }
+
+  /**
+   * Get sections of a project
+   */
+  async getSections(credentials: AsanaCredentials, projectGid: string): Promise<AsanaRef[]> {
+    return this.request<AsanaRef[]>(credentials, 'GET', `/projects/${projectGid}/sections`);
+  }
+
+  /**
+   * Create a section in a project
+   */
+  async createSection(credentials: AsanaCredentials, projectGid: string, name: string): Promise<string> {
+    const section = await this.request<AsanaRef>(credentials, 'POST', `/projects/${projectGid}/sections`, { name });
+    return section.gid;
+  }
+
+  /**
+   * Get users in the workspace
+   */
+  async getUsers(credentials: AsanaCredentials): Promise<AsanaUser[]> {
+    const workspaceGid = await this.resolveWorkspaceGid(credentials);
+    return this.request<AsanaUser[]>(
+      credentials,
+      'GET',
+      `/users?workspace=${workspaceGid}&opt_fields=name,email&limit=100`
+    );
+  }
+
+  /**
+   * Create a task. Assignee may be a user gid or an email address.
+   */
+  async createTask(credentials: AsanaCredentials, data: Record<string, any>): Promise<AsanaTask> {
+    return this.request<AsanaTask>(credentials, 'POST', '/tasks?opt_fields=name,completed,completed_at,permalink_url', data);
+  }
+
+  /**
+   * Update task fields
+   */
+  async updateTask(credentials: AsanaCredentials, taskGid: string, data: Record<string, any>): Promise<AsanaTask> {
+    return this.request<AsanaTask>(credentials, 'PUT', `/tasks/${taskGid}`, data);
+  }
+
+  /**
+   * Get a task's completion state and section membership
+   */
+  async getTask(credentials: AsanaCredentials, taskGid: string): Promise<AsanaTask> {
+    return this.request<AsanaTask>(
+      credentials,
+      'GET',
+      `/tasks/${taskGid}?opt_fields=name,completed,completed_at,permalink_url,memberships.project.name,memberships.section.name`
+    );
+  }
+
+  /**
+   * Set the current value of a goal's metric
+   */
+  async setGoalMetricValue(credentials: AsanaCredentials, goalGid: string, value: number): Promise<void> {
+    await this.request(credentials, 'POST', `/goals/${goalGid}/setMetricCurrentValue`, {
+      current_number_value: value,
+    });
+  }
+}
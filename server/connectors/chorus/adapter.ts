@@ -0,0 +1,89 @@
+/**
+ * Chorus Conversation Adapter
+ *
+ * Syncs Chorus engagements (meetings and dialer calls) with their
+ * transcripts. Credentials carry the Chorus API token as apiKey.
+ * sync.ts upserts conversations directly.
+ */
+
+import type { ConversationAdapter, SyncResult, NormalizedConversation } from '../adapters/types.js';
+import { ChorusClient } from './client.js';
+import { initialSync, incrementalSync } from './sync.js';
+import { transformChorusEngagement } from './transform.js';
+
+function clientFor(credentials: Record<string, any>): ChorusClient {
+  if (!credentials.apiKey) {
+    throw new Error('Chorus adapter requires apiKey in credentials');
+  }
+  return new ChorusClient(credentials.apiKey);
+}
+
+export class ChorusConversationAdapter implements ConversationAdapter {
+  readonly sourceType = 'chorus';
+  readonly category = 'conversations' as const;
+
+  async testConnection(credentials: Record<string, any>): Promise<{ success: boolean; error?: string }> {
+    try {
+      const result = await clientFor(credentials).testConnection();
+      return { success: result.success, error: result.error };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async health(credentials: Record<string, any>): Promise<{ healthy: boolean; details?: Record<string, any> }> {
+    try {
+      const result = await clientFor(credentials).testConnection();
+      return { healthy: result.success, details: result.error ? { error: result.error } : result.accountInfo };
+    } catch (error) {
+      return {
+        healthy: false,
+        details: { error: error instanceof Error ? error.message : String(error) },
+      };
+    }
+  }
+
+  transformConversation(raw: any, workspaceId: string, options?: any): NormalizedConversation {
+    return transformChorusEngagement(raw, workspaceId, options);
+  }
+
+  async initialSync(
+    credentials: Record<string, any>,
+    workspaceId: string,
+    options?: Record<string, any>
+  ): Promise<{ conversations?: SyncResult<NormalizedConversation> }> {
+    const result = await initialSync(clientFor(credentials), workspaceId, {
+      lookbackDays: options?.lookbackDays || 90,
+    });
+
+    console.log(`[Chorus Adapter] initialSync complete: ${result.recordsFetched} fetched, ${result.recordsStored} stored`);
+
+    return {
+      conversations: {
+        succeeded: [],
+        failed: result.errors.map(e => ({ record: null, error: e })),
+        totalAttempted: result.recordsFetched,
+      },
+    };
+  }
+
+  async incrementalSync(
+    credentials: Record<string, any>,
+    workspaceId: string,
+    lastSyncTime: Date
+  ): Promise<{ conversations?: SyncResult<NormalizedConversation> }> {
+    const result = await incrementalSync(clientFor(credentials), workspaceId, lastSyncTime);
+
+    console.log(`[Chorus Adapter] incrementalSync complete: ${result.recordsFetched} fetched, ${result.recordsStored} stored`);
+
+    return {
+      conversations: {
+        succeeded: [],
+        failed: result.errors.map(e => ({ record: null, error: e })),
+        totalAttempted: result.recordsFetched,
+      },
+    };
+  }
+}
+
+export const chorusAdapter = new ChorusConversationAdapter();
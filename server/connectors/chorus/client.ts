@@ -0,0 +1,105 @@
+import type { ChorusConversation, ChorusEngagement, ChorusUtterance } from './types.js';
+import type { TranscriptSegment } from '../shared/conversations.js';
+
+const API_BASE = 'https://chorus.ai';
+const MAX_PAGES = 200;
+
+/**
+ * Turn Chorus utterances into speaker turns. Utterances only carry a start
+ * time, so each ends where the next begins (the last one at recording end).
+ */
+export function utterancesToSegments(
+  utterances: ChorusUtterance[],
+  speakerNames: Map<string, string>,
+  recordingDuration?: number
+): TranscriptSegment[] {
+  const sorted = [...utterances].sort((a, b) => a.snippet_time - b.snippet_time);
+
+  return sorted
+    .map((u, i) => {
+      const next = sorted[i + 1];
+      const end = next ? next.snippet_time : Math.max(recordingDuration ?? 0, u.snippet_time);
+      const speaker = (u.speaker_id !== undefined && speakerNames.get(String(u.speaker_id)))
+        || u.speaker_name
+        || (u.speaker_type === 'rep' ? 'Rep' : u.speaker_type === 'prospect' ? 'Prospect' : 'Unknown');
+      return {
+        speaker_name: speaker,
+        start_time: u.snippet_time,
+        end_time: end,
+        text: (u.snippet || '').trim(),
+      };
+    })
+    .filter(s => s.text.length > 0);
+}
+
+export class ChorusClient {
+  private apiToken: string;
+
+  constructor(apiToken: string) {
+    this.apiToken = apiToken;
+  }
+
+  private async request<T>(path: string, params: Record<string, string> = {}, attempt = 0): Promise<T> {
+    const qs = new URLSearchParams(params).toString();
+    const response = await fetch(`${API_BASE}${path}${qs ? `?${qs}` : ''}`, {
+      headers: {
+        'Authorization': this.apiToken,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (response.status === 429 && attempt < 3) {
+      await new Promise(resolve => setTimeout(resolve, 2000 * (attempt + 1)));
+      return this.request<T>(path, params, attempt + 1);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Chorus API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      await this.request('/v3/engagements', { min_date: since.toISOString() });
+      return { success: true, accountInfo: {} };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Recorded engagements (meetings and dialer calls) since the given date.
+   */
+  async getEngagementsSince(since: Date): Promise<ChorusEngagement[]> {
+    const engagements: ChorusEngagement[] = [];
+    let continuationKey = '';
+    let pages = 0;
+
+    do {
+      const page = await this.request<{ engagements: ChorusEngagement[]; continuation_key?: string }>(
+        '/v3/engagements',
+        {
+          min_date: since.toISOString(),
+          ...(continuationKey ? { continuation_key: continuationKey } : {}),
+        }
+      );
+      engagements.push(...(page.engagements || []));
+      continuationKey = page.continuation_key || '';
+      pages++;
+    } while (continuationKey && pages < MAX_PAGES);
+
+    return engagements;
+  }
+
+  async getConversation(id: string): Promise<ChorusConversation | null> {
+    const result = await this.request<{ data?: ChorusConversation }>(`/api/v1/conversations/${encodeURIComponent(id)}`);
+    return result.data ?? null;
+  }
+}
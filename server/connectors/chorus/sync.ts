@@ -0,0 +1,86 @@
+import { ChorusClient, utterancesToSegments } from './client.js';
+import { transformChorusEngagement } from './transform.js';
+import type { SyncResult } from '../_interface.js';
+import { upsertConversations, type ConversationRecord, type TranscriptSegment } from '../shared/conversations.js';
+import { resolveWorkspaceDomains } from '../../analysis/conversation-internal-filter.js';
+
+// Store in small batches so one slow transcript fetch doesn't hold a transaction
+const STORE_BATCH_SIZE = 25;
+
+async function syncEngagementsSince(client: ChorusClient, workspaceId: string, since: Date): Promise<SyncResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+
+  const engagements = (await client.getEngagementsSince(since)).filter(e => !e.no_show);
+  const { domains: internalDomains } = await resolveWorkspaceDomains(workspaceId);
+
+  console.log(`[Chorus Sync] ${engagements.length} engagements since ${since.toISOString()}`);
+
+  let recordsStored = 0;
+  let batch: ConversationRecord[] = [];
+
+  for (const engagement of engagements) {
+    try {
+      let segments: TranscriptSegment[] = [];
+      try {
+        const conversation = await client.getConversation(engagement.engagement_id);
+        const recording = conversation?.attributes?.recording;
+        if (recording?.utterances?.length) {
+          const speakerNames = new Map<string, string>();
+          for (const p of conversation?.attributes?.participants || []) {
+            const speakerId = p.speaker_id ?? p.id;
+            if (speakerId !== undefined && p.name) speakerNames.set(String(speakerId), p.name);
+          }
+          segments = utterancesToSegments(recording.utterances, speakerNames, recording.duration ?? engagement.duration);
+        }
+      } catch (err: any) {
+        errors.push(`${engagement.engagement_id}: transcript ${err.message}`);
+      }
+
+      batch.push(transformChorusEngagement(engagement, workspaceId, { segments, internalDomains }));
+    } catch (err: any) {
+      console.error(`[Chorus Sync] Transform failed for engagement ${engagement.engagement_id}: ${err.message}`);
+      errors.push(`${engagement.engagement_id}: ${err.message}`);
+    }
+
+    if (batch.length >= STORE_BATCH_SIZE) {
+      recordsStored += await upsertConversations(batch);
+      batch = [];
+    }
+  }
+  recordsStored += await upsertConversations(batch);
+
+  console.log(`[Chorus Sync] ${recordsStored} conversations stored, ${errors.length} errors`);
+
+  return {
+    recordsFetched: engagements.length,
+    recordsStored,
+    errors,
+    duration: Date.now() - startTime,
+  };
+}
+
+export async function initialSync(
+  client: ChorusClient,
+  workspaceId: string,
+  options?: { lookbackDays?: number }
+): Promise<SyncResult> {
+  const days = options?.lookbackDays ?? 90;
+  console.log(`[Chorus Sync] Starting initial sync for workspace ${workspaceId} (lookback: ${days} days)`);
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  return syncEngagementsSince(client, workspaceId, since);
+}
+
+export async function incrementalSync(
+  client: ChorusClient,
+  workspaceId: string,
+  since: Date
+): Promise<SyncResult> {
+  console.log(`[Chorus Sync] Starting incremental sync for workspace ${workspaceId} since ${since.toISOString()}`);
+
+  // Transcripts are processed after the call ends; re-read the last day
+  const overlap = new Date(since.getTime() - 24 * 60 * 60 * 1000);
+  return syncEngagementsSince(client, workspaceId, overlap);
+}
@@ -0,0 +1,73 @@
+import type { ChorusEngagement } from './types.js';
+import {
+  affiliationFor,
+  formatTranscript,
+  speakerTimings,
+  type ConversationRecord,
+  type TranscriptSegment,
+} from '../shared/conversations.js';
+
+function participantAffiliation(type: string | undefined, email: string | null, internalDomains: string[]) {
+  if (type === 'rep') return 'Internal' as const;
+  if (type === 'prospect') return 'External' as const;
+  return affiliationFor(email, internalDomains);
+}
+
+export function transformChorusEngagement(
+  engagement: ChorusEngagement,
+  workspaceId: string,
+  options: { segments?: TranscriptSegment[]; internalDomains?: string[] } = {}
+): ConversationRecord {
+  const segments = options.segments || [];
+  const internalDomains = options.internalDomains || [];
+
+  const participants: ConversationRecord['participants'] = [];
+  const seen = new Set<string>();
+  for (const p of engagement.participants || []) {
+    const email = p.email?.toLowerCase() || null;
+    const key = email || p.name?.toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    participants.push({
+      name: p.name || null,
+      email,
+      title: p.title || null,
+      affiliation: participantAffiliation(p.type, email, internalDomains),
+    });
+  }
+
+  // Recording owner is the rep even when Chorus omits them from participants
+  const ownerEmail = engagement.user_email?.toLowerCase();
+  if (ownerEmail && !seen.has(ownerEmail)) {
+    participants.push({ name: engagement.user_name || null, email: ownerEmail, affiliation: 'Internal' });
+  }
+
+  return {
+    workspace_id: workspaceId,
+    source: 'chorus',
+    source_id: engagement.engagement_id,
+    source_data: {
+      ...engagement,
+      sentences: speakerTimings(segments),
+    },
+    title: engagement.subject || null,
+    call_date: engagement.date_time ? new Date(engagement.date_time * 1000) : null,
+    duration_seconds: Number.isFinite(engagement.duration) ? Math.round(engagement.duration!) : null,
+    participants,
+    transcript_text: formatTranscript(segments),
+    summary: null,
+    action_items: [],
+    objections: [],
+    sentiment_score: null,
+    talk_listen_ratio: null,
+    topics: [],
+    competitor_mentions: [],
+    custom_fields: {
+      url: engagement.url || null,
+      engagement_type: engagement.engagement_type || null,
+      user_email: engagement.user_email || null,
+      opportunity_id: engagement.opportunity_id || null,
+      account_id: engagement.account_id || null,
+    },
+  };
+}
@@ -0,0 +1,47 @@
+export interface ChorusParticipant {
+  name?: string;
+  email?: string;
+  type?: 'rep' | 'prospect' | 'other' | string;
+  company_name?: string;
+  title?: string;
+}
+
+export interface ChorusEngagement {
+  engagement_id: string;
+  engagement_type?: 'meeting' | 'dialer' | string;
+  subject?: string;
+  date_time: number; // epoch seconds
+  duration?: number; // seconds
+  url?: string;
+  user_id?: string;
+  user_email?: string;
+  user_name?: string;
+  account_id?: string | null;
+  account_name?: string | null;
+  opportunity_id?: string | null;
+  opportunity_name?: string | null;
+  language?: string;
+  no_show?: boolean;
+  participants?: ChorusParticipant[];
+}
+
+export interface ChorusUtterance {
+  speaker_id?: string | number;
+  speaker_type?: 'rep' | 'prospect' | string;
+  speaker_name?: string;
+  snippet_time: number; // seconds from start
+  snippet: string;
+}
+
+export interface ChorusConversation {
+  id: string;
+  attributes?: {
+    name?: string;
+    participants?: Array<ChorusParticipant & { speaker_id?: string | number; id?: string | number }>;
+    recording?: {
+      start_time?: number;
+      duration?: number;
+      utterances?: ChorusUtterance[];
+    };
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for HubSpot line-item normalization
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../db.js', () => ({ query: vi.fn() }));
+
+import { transformLineItem } from '../line-items.js';
+import { lineItemAmount } from '../../../products/line-items.js';
+
+describe('transformLineItem', () => {
+  it('maps product, quantity, price and percentage discount', () => {
+    const item = transformLineItem({
+      id: 'li-1',
+      properties: { name: 'Analytics add-on', hs_product_id: 'p-9', hs_sku: 'AN-01', quantity: '3', price: '1000', amount: '2700', hs_discount_percentage: '10' },
+    }, 'deal-1');
+
+    expect(item).toMatchObject({
+      source_id: 'li-1',
+      deal_source_id: 'deal-1',
+      product_source_id: 'p-9',
+      name: 'Analytics add-on',
+      sku: 'AN-01',
+      quantity: 3,
+      unit_price: 1000,
+      discount_percent: 10,
+      amount: 2700,
+    });
+  });
+
+  it('derives the discount percent from a per-unit absolute discount', () => {
+    const item = transformLineItem({ id: 'li-2', properties: { name: 'Seats', price: '200', discount: '50', quantity: null } }, 'deal-1');
+    expect(item.discount_percent).toBe(25);
+    expect(item.quantity).toBe(1);
+    expect(item.product_source_id).toBeNull();
+  });
+});
+
+describe('lineItemAmount', () => {
+  it('prefers the CRM amount and otherwise nets quantity × price of discount', () => {
+    expect(lineItemAmount({ amount: 500, quantity: 10, unit_price: 100 })).toBe(500);
+    expect(lineItemAmount({ quantity: 4, unit_price: 100, discount_percent: 25 })).toBe(300);
+    expect(lineItemAmount({ unit_price: 80 })).toBe(80);
+  });
+});
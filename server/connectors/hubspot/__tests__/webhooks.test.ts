@@ -0,0 +1,107 @@
+/**
+ * Unit tests for HubSpot webhooks.ts
+ *
+ * Tests request signature verification (v1/v2/v3) and grouping of webhook
+ * batches into per-portal change sets.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { verifyHubSpotSignature, groupHubSpotEvents, type HubSpotWebhookEvent } from '../webhooks.js';
+
+vi.mock('../../../db.js', () => ({ query: vi.fn() }));
+vi.mock('../../../sync/change-events.js', () => ({
+  completeChangeEvents: vi.fn(),
+  queueFallbackSync: vi.fn(),
+}));
+
+const batch: HubSpotWebhookEvent[] = JSON.parse(
+  readFileSync(fileURLToPath(new URL('./fixtures/webhook-batch.json', import.meta.url)), 'utf8')
+);
+
+const SECRET = 'test-client-secret';
+const URI = 'https://pandora.example.com/api/webhooks/hubspot';
+const BODY = JSON.stringify(batch);
+
+// ─── verifyHubSpotSignature ──────────────────────────────────────────────────
+
+describe('verifyHubSpotSignature', () => {
+  const now = 1760000500000;
+  const timestamp = String(now - 1000);
+  const v3 = crypto
+    .createHmac('sha256', SECRET)
+    .update(`POST${URI}${BODY}${timestamp}`)
+    .digest('base64');
+
+  it('accepts a valid v3 signature', () => {
+    expect(verifyHubSpotSignature({
+      method: 'post', uri: URI, rawBody: BODY, clientSecret: SECRET,
+      signatureV3: v3, timestamp, now,
+    })).toBe(true);
+  });
+
+  it('rejects a v3 signature when the body was altered', () => {
+    expect(verifyHubSpotSignature({
+      method: 'POST', uri: URI, rawBody: BODY.replace('closedwon', 'closedlost'), clientSecret: SECRET,
+      signatureV3: v3, timestamp, now,
+    })).toBe(false);
+  });
+
+  it('rejects a v3 signature older than five minutes', () => {
+    expect(verifyHubSpotSignature({
+      method: 'POST', uri: URI, rawBody: BODY, clientSecret: SECRET,
+      signatureV3: v3, timestamp, now: now + 6 * 60 * 1000,
+    })).toBe(false);
+  });
+
+  it('accepts legacy v1 and v2 signatures', () => {
+    const v1 = crypto.createHash('sha256').update(`${SECRET}${BODY}`).digest('hex');
+    const v2 = crypto.createHash('sha256').update(`${SECRET}POST${URI}${BODY}`).digest('hex');
+
+    expect(verifyHubSpotSignature({
+      method: 'POST', uri: URI, rawBody: BODY, clientSecret: SECRET, signature: v1, signatureVersion: 'v1',
+    })).toBe(true);
+    expect(verifyHubSpotSignature({
+      method: 'POST', uri: URI, rawBody: BODY, clientSecret: SECRET, signature: v2, signatureVersion: 'v2',
+    })).toBe(true);
+  });
+
+  it('rejects requests without a signature or secret', () => {
+    expect(verifyHubSpotSignature({ method: 'POST', uri: URI, rawBody: BODY, clientSecret: SECRET })).toBe(false);
+    expect(verifyHubSpotSignature({
+      method: 'POST', uri: URI, rawBody: BODY, clientSecret: '', signatureV3: v3, timestamp, now,
+    })).toBe(false);
+  });
+});
+
+// ─── groupHubSpotEvents ──────────────────────────────────────────────────────
+
+describe('groupHubSpotEvents', () => {
+  const grouped = groupHubSpotEvents(batch);
+
+  it('groups events by portal', () => {
+    expect(Array.from(grouped.keys()).sort()).toEqual([62515, 99887]);
+  });
+
+  it('dedupes records and follows association changes to both sides', () => {
+    const changeSet = grouped.get(62515)!;
+    expect(Array.from(changeSet.dealIds).sort()).toEqual(['9001', '9002', '9003']);
+    expect(Array.from(changeSet.contactIds)).toEqual(['501']);
+    expect(Array.from(changeSet.companyIds)).toEqual(['7001']);
+  });
+
+  it('keeps the latest dealstage change time and counts deletions', () => {
+    const changeSet = grouped.get(62515)!;
+    expect(changeSet.stageChangedAt.get('9001')?.getTime()).toBe(1760000300000);
+    expect(changeSet.stageChangedAt.has('9002')).toBe(false);
+    expect(changeSet.deletions).toBe(1);
+  });
+
+  it('ignores unsupported object types', () => {
+    const changeSet = grouped.get(99887)!;
+    expect(Array.from(changeSet.companyIds)).toEqual(['8100']);
+    expect(changeSet.dealIds.size + changeSet.contactIds.size).toBe(0);
+  });
+});
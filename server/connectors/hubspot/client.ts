@@ -2,6 +2,8 @@ import type {
   HubSpotDeal,
   HubSpotContact,
   HubSpotCompany,
+  HubSpotLineItem,
+  HubSpotProduct,
   HubSpotPipeline,
   HubSpotPipelineStage,
   HubSpotProperty,
@@ -11,6 +13,13 @@ import type {
 } from './types.js';
 import { hubspotFetch, hubspotSearchFetch } from '../../utils/throttle.js';
 
+const PRODUCT_PROPERTIES = ["name", "hs_sku", "price", "description"];
+
+const LINE_ITEM_PROPERTIES = [
+  "name", "hs_product_id", "hs_sku", "quantity", "price", "amount",
+  "discount", "hs_discount_percentage",
+];
+
 export class HubSpotClient {
   private baseUrl = "https://api.hubapi.com";
   private accessToken: string;
@@ -167,6 +176,7 @@ export class HubSpotClient {
       "hs_lastmodifieddate", "pipeline", "hubspot_owner_id",
       "hs_deal_stage_probability", "notes_last_updated",
       "closed_lost_reason", "closed_won_reason", "hs_closed_lost_competitor",
+      "deal_currency_code", "hs_all_collaborator_owner_ids",
       // Forecast category properties (custom properties, may not exist)
       "forecast_category", "hs_forecast_category",
     ];
@@ -299,6 +309,62 @@ export class HubSpotClient {
     return allCompanies;
   }
 
+  async getAllProducts(): Promise<HubSpotProduct[]> {
+    const products: HubSpotProduct[] = [];
+    let after: string | undefined;
+
+    do {
+      let endpoint = `/crm/v3/objects/products?limit=100&properties=${PRODUCT_PROPERTIES.join(",")}`;
+      if (after) endpoint += `&after=${after}`;
+      const response = await this.request<HubSpotListResponse<HubSpotProduct>>(endpoint);
+      products.push(...response.results);
+      after = response.paging?.next?.after;
+    } while (after);
+
+    return products;
+  }
+
+  /**
+   * All line items with their deal association (initial sync)
+   */
+  async getAllLineItems(): Promise<HubSpotLineItem[]> {
+    const lineItems: HubSpotLineItem[] = [];
+    let after: string | undefined;
+
+    do {
+      let endpoint = `/crm/v3/objects/line_items?limit=100&properties=${LINE_ITEM_PROPERTIES.join(",")}&associations=deals`;
+      if (after) endpoint += `&after=${after}`;
+      const response = await this.request<HubSpotListResponse<HubSpotLineItem>>(endpoint);
+      lineItems.push(...response.results);
+      after = response.paging?.next?.after;
+    } while (after);
+
+    return lineItems;
+  }
+
+  /**
+   * Line items for specific deals (incremental and webhook syncs)
+   * Returns a map of deal id -> line items
+   */
+  async getLineItemsForDeals(
+    dealIds: string[]
+  ): Promise<Map<string, Array<{ id: string; properties: Record<string, string | null> }>>> {
+    const byDeal = new Map<string, Array<{ id: string; properties: Record<string, string | null> }>>();
+    if (dealIds.length === 0) return byDeal;
+
+    const associations = await this.batchGetAssociations("deals", "line_items", dealIds);
+    const lineItemIds = [...new Set([...associations.values()].flat())];
+    const lineItems = await this.batchReadObjects("line_items", lineItemIds, LINE_ITEM_PROPERTIES);
+    const byId = new Map(lineItems.map(li => [li.id, li]));
+
+    for (const dealId of dealIds) {
+      byDeal.set(dealId, (associations.get(dealId) ?? [])
+        .map(id => byId.get(id))
+        .filter((li): li is { id: string; properties: Record<string, string | null> } => !!li));
+    }
+    return byDeal;
+  }
+
   async getPipelines(): Promise<HubSpotPipeline[]> {
     const response = await this.request<{ results: HubSpotPipeline[] }>("/crm/v3/pipelines/deals");
     return response.results;
@@ -514,6 +580,36 @@ export class HubSpotClient {
     );
   }
 
+  /**
+   * Fetch specific records by ID (used by webhook ingestion)
+   * HubSpot batch read allows up to 100 IDs per request; missing/archived IDs are omitted
+   */
+  async batchReadObjects(
+    objectType: "deals" | "contacts" | "companies" | "line_items",
+    ids: string[],
+    properties: string[]
+  ): Promise<Array<{ id: string; properties: Record<string, string | null> }>> {
+    const results: Array<{ id: string; properties: Record<string, string | null> }> = [];
+    const BATCH_SIZE = 100;
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const batch = ids.slice(i, i + BATCH_SIZE);
+      const response = await this.request<{ results: Array<{ id: string; properties: Record<string, string | null> }> }>(
+        `/crm/v3/objects/${objectType}/batch/read`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            inputs: batch.map(id => ({ id })),
+            properties,
+          }),
+        }
+      );
+      results.push(...response.results);
+    }
+
+    return results;
+  }
+
   async getOwners(): Promise<Array<{ id: string; firstName: string; lastName: string; email: string }>> {
     try {
       return await this.getOwnersViaOwnersApi();
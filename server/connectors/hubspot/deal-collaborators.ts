@@ -0,0 +1,49 @@
+/**
+ * Deal Collaborators → Overlay Splits
+ *
+ * HubSpot deal collaborators (hs_all_collaborator_owner_ids) carry no split
+ * percentage, so each collaborator other than the owner is stored as an
+ * overlay split at the workspace's collaborator_overlay_percent.
+ */
+
+import { getCreditingRules, replaceCrmDealSplits, type DealSplitInput } from '../../quotas/deal-splits.js';
+import type { NormalizedDeal } from './transform.js';
+
+export const COLLABORATORS_PROPERTY = 'hs_all_collaborator_owner_ids';
+
+export async function syncDealCollaborators(
+  workspaceId: string,
+  deals: NormalizedDeal[],
+  ownerMap: Map<string, { name: string; email: string }>
+): Promise<number> {
+  // Only deals fetched with the property; others keep their stored splits
+  const withProperty = deals.filter(d => d.source_data?.properties && COLLABORATORS_PROPERTY in d.source_data.properties);
+  if (withProperty.length === 0) return 0;
+
+  const rules = await getCreditingRules(workspaceId);
+  const splits: Array<DealSplitInput & { deal_source_id: string }> = [];
+
+  for (const deal of withProperty) {
+    const props = deal.source_data.properties;
+    const ownerId = props.hubspot_owner_id ? String(props.hubspot_owner_id) : null;
+    const collaboratorIds = String(props[COLLABORATORS_PROPERTY] ?? '')
+      .split(';')
+      .map(id => id.trim())
+      .filter(id => id && id !== ownerId);
+
+    for (const id of new Set(collaboratorIds)) {
+      const owner = ownerMap.get(id);
+      splits.push({
+        deal_source_id: deal.source_id,
+        // Same identity format as deals.owner for HubSpot
+        rep: owner?.name || id,
+        rep_email: owner?.email || null,
+        split_type: 'overlay',
+        split_percent: rules.collaborator_overlay_percent,
+        source_ref: id,
+      });
+    }
+  }
+
+  return replaceCrmDealSplits(workspaceId, 'hubspot', withProperty.map(d => d.source_id), splits);
+}
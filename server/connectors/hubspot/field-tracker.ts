@@ -0,0 +1,144 @@
+/**
+ * Deal Field Tracker
+ *
+ * Detects and records changes to tracked deal fields (amount, close date,
+ * forecast category) during incremental sync — the field-level
+ * counterpart of stage-tracker.ts. Rows land in deal_field_history under the
+ * same field names the HubSpot property-history backfill uses.
+ */
+
+import { query } from '../../db.js';
+
+/** Deal column → deal_field_history.field_name */
+export const TRACKED_DEAL_FIELDS = {
+  amount: 'amount',
+  close_date: 'closedate',
+  forecast_category: 'forecastcategory',
+} as const;
+
+export type TrackedDealField = keyof typeof TRACKED_DEAL_FIELDS;
+
+export interface FieldChange {
+  dealId: string;
+  dealSourceId: string;
+  workspaceId: string;
+  field: TrackedDealField;
+  fromValue: string | null;
+  toValue: string;
+  changedAt: Date;
+}
+
+export interface IncomingDealFields {
+  sourceId: string;
+  amount: number | null;
+  close_date: string | null;
+  forecast_category: string | null;
+}
+
+/**
+ * Render a deal value the way deal_field_history stores it (TEXT).
+ * Dates collapse to YYYY-MM-DD so a timestamp and a date for the same day compare equal.
+ */
+export function toHistoryValue(field: TrackedDealField, value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (field === 'close_date') {
+    // pg hands DATE columns back as local midnight — read the local calendar day
+    if (value instanceof Date) {
+      const pad = (n: number) => String(n).padStart(2, '0');
+      return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+    const text = String(value);
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? text : date.toISOString().split('T')[0];
+  }
+  if (field === 'amount') {
+    const num = Number(value);
+    return isNaN(num) ? String(value) : String(num);
+  }
+  return String(value);
+}
+
+/**
+ * Detect tracked field changes by comparing incoming deals to stored deals.
+ * MUST be called BEFORE the deal upsert to capture the previous values.
+ */
+export async function detectFieldChanges(
+  workspaceId: string,
+  incomingDeals: IncomingDealFields[]
+): Promise<FieldChange[]> {
+  if (incomingDeals.length === 0) return [];
+
+  const existingDeals = await query<{
+    id: string;
+    source_id: string;
+    amount: number | null;
+    close_date: string | Date | null;
+    forecast_category: string | null;
+  }>(
+    `SELECT id, source_id, amount, close_date, forecast_category
+     FROM deals
+     WHERE workspace_id = $1 AND source_id = ANY($2)`,
+    [workspaceId, incomingDeals.map(d => d.sourceId)]
+  );
+  const existingMap = new Map(existingDeals.rows.map(d => [d.source_id, d]));
+
+  const changes: FieldChange[] = [];
+  const now = new Date();
+
+  for (const incoming of incomingDeals) {
+    const existing = existingMap.get(incoming.sourceId);
+    if (!existing) continue; // New deal, nothing to compare against
+
+    for (const field of Object.keys(TRACKED_DEAL_FIELDS) as TrackedDealField[]) {
+      const fromValue = toHistoryValue(field, existing[field]);
+      const toValue = toHistoryValue(field, incoming[field]);
+      // Cleared fields aren't recorded — to_value is NOT NULL in the history table
+      if (toValue === null || fromValue === toValue) continue;
+
+      changes.push({
+        dealId: existing.id,
+        dealSourceId: incoming.sourceId,
+        workspaceId,
+        field,
+        fromValue,
+        toValue,
+        changedAt: now,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Record field changes to deal_field_history
+ */
+export async function recordFieldChanges(
+  changes: FieldChange[],
+  source: 'sync_detection' | 'manual' = 'sync_detection'
+): Promise<number> {
+  let recorded = 0;
+
+  for (const change of changes) {
+    const result = await query(
+      `INSERT INTO deal_field_history
+         (workspace_id, deal_id, deal_source_id, field_name, from_value, to_value, changed_at, source)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (deal_id, field_name, changed_at, to_value) DO NOTHING`,
+      [
+        change.workspaceId,
+        change.dealId,
+        change.dealSourceId,
+        TRACKED_DEAL_FIELDS[change.field],
+        change.fromValue,
+        change.toValue,
+        change.changedAt.toISOString(),
+        source,
+      ]
+    );
+    recorded += result.rowCount ?? 0;
+  }
+
+  return recorded;
+}
@@ -0,0 +1,92 @@
+/**
+ * Products & Line Items Sync
+ *
+ * Full syncs page through every product and line item; incremental and
+ * webhook syncs re-read line items only for the deals that changed.
+ * Requires the crm.objects.products.read / crm.schemas.line_items.read scopes.
+ */
+
+import type { HubSpotClient } from './client.js';
+import { query } from '../../db.js';
+import {
+  replaceDealLineItems,
+  toNumber,
+  upsertProducts,
+  type LineItemInput,
+} from '../../products/line-items.js';
+
+type LineItemRecord = { id: string; properties: Record<string, string | null | undefined> };
+
+export function transformLineItem(lineItem: LineItemRecord, dealSourceId: string): LineItemInput {
+  const props = lineItem.properties;
+  const unitPrice = toNumber(props.price);
+  // HubSpot stores either a percentage or a per-unit absolute discount
+  let discountPercent = toNumber(props.hs_discount_percentage);
+  const discount = toNumber(props.discount);
+  if (discountPercent === null && discount !== null && unitPrice) {
+    discountPercent = (discount / unitPrice) * 100;
+  }
+
+  return {
+    source_id: lineItem.id,
+    deal_source_id: dealSourceId,
+    product_source_id: props.hs_product_id || null,
+    name: props.name || props.hs_sku || 'Unnamed line item',
+    sku: props.hs_sku || null,
+    quantity: toNumber(props.quantity) ?? 1,
+    unit_price: unitPrice,
+    discount_percent: discountPercent,
+    amount: toNumber(props.amount),
+    source_data: { properties: props },
+  };
+}
+
+async function syncProducts(client: HubSpotClient, workspaceId: string): Promise<number> {
+  const products = await client.getAllProducts();
+  return upsertProducts(workspaceId, 'hubspot', products.map(p => ({
+    source_id: p.id,
+    name: p.properties.name || p.properties.hs_sku || `Product ${p.id}`,
+    sku: p.properties.hs_sku || null,
+    unit_price: toNumber(p.properties.price),
+    source_data: { properties: p.properties },
+  })));
+}
+
+/**
+ * Sync products, then line items for the given deals (all deals when omitted).
+ * Products are always refreshed first so line items can link to them.
+ */
+export async function syncHubSpotLineItems(
+  client: HubSpotClient,
+  workspaceId: string,
+  dealSourceIds?: string[]
+): Promise<{ products: number; lineItems: number }> {
+  const products = await syncProducts(client, workspaceId);
+
+  const items: LineItemInput[] = [];
+  let dealIds: string[];
+
+  if (dealSourceIds) {
+    const byDeal = await client.getLineItemsForDeals(dealSourceIds);
+    for (const [dealId, lineItems] of byDeal) {
+      items.push(...lineItems.map(li => transformLineItem(li, dealId)));
+    }
+    dealIds = dealSourceIds;
+  } else {
+    const lineItems = await client.getAllLineItems();
+    for (const li of lineItems) {
+      const dealId = li.associations?.deals?.results?.[0]?.id;
+      if (dealId) items.push(transformLineItem(li, dealId));
+    }
+    // Every synced deal, so deals whose line items were all removed are cleared
+    const deals = await query<{ source_id: string }>(
+      `SELECT source_id FROM deals WHERE workspace_id = $1 AND source = 'hubspot'`,
+      [workspaceId]
+    );
+    dealIds = deals.rows.map(d => d.source_id);
+  }
+
+  const lineItems = await replaceDealLineItems(workspaceId, 'hubspot', dealIds, items);
+  console.log(`[HubSpot Sync] Synced ${products} products and ${lineItems} line items`);
+  return { products, lineItems };
+}
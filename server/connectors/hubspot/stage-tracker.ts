@@ -91,7 +91,7 @@ export async function detectStageChanges(
  */
 export async function recordStageChanges(
   changes: StageChange[],
-  source: 'sync_detection' | 'hubspot_history' | 'salesforce_history' | 'manual' = 'sync_detection'
+  source: 'sync_detection' | 'hubspot_history' | 'salesforce_history' | 'pipedrive_history' | 'manual' = 'sync_detection'
 ): Promise<number> {
   if (changes.length === 0) return 0;
 
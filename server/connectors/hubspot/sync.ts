@@ -14,10 +14,14 @@ import {
 import type { SyncResult } from '../_interface.js';
 import { transformWithErrorCapture } from '../../utils/sync-helpers.js';
 import { detectStageChanges, recordStageChanges, updateDealStageCache } from './stage-tracker.js';
+import { detectFieldChanges, recordFieldChanges, type FieldChange } from './field-tracker.js';
+import { syncDealCollaborators } from './deal-collaborators.js';
+import { syncHubSpotLineItems } from './line-items.js';
 import { getStageMapping } from '../../config/index.js';
 import { inferAnalysisScopes, applyInferredScopes } from '../../config/scope-inference.js';
 import { stampAllDealsForWorkspace, stampDealScopes } from '../../config/scope-stamper.js';
 import { autoConfigurePipelineDefaults } from '../../chat/pipeline-resolver.js';
+import { applyDealCurrency } from '../../currency/fx-rates.js';
 
 const ACTIVITY_KEEP_FIELDS = new Set([
   'hs_activity_type',
@@ -488,28 +492,37 @@ async function upsertDeals(deals: NormalizedDeal[]): Promise<number> {
   return upsertInBatches(deals, async (batch) => {
     if (batch.length === 0) return 0;
 
+    const currencyValues = await applyDealCurrency(batch[0].workspace_id, batch);
+
     const client = await getClient();
     let stored = 0;
     try {
       await client.query('BEGIN');
 
-      for (const deal of batch) {
+      for (let i = 0; i < batch.length; i++) {
+        const deal = batch[i];
+        const fx = currencyValues[i];
         await client.query(
           `INSERT INTO deals (
             workspace_id, source, source_id, source_data,
             name, amount, stage, stage_normalized, close_date, owner, owner_email,
             probability, forecast_category, forecast_category_source, pipeline,
-            last_activity_date, custom_fields, next_steps, lead_source, created_at, updated_at
+            last_activity_date, custom_fields, next_steps, lead_source, created_at, updated_at,
+            currency_code, amount_original, fx_rate
           ) VALUES (
             $1, $2, $3, $4,
             $5, $6, $7, $8, $9, $10, $11,
             $12, $13, $14, $15,
-            $16, $17, $18, $19, COALESCE($20::timestamptz, NOW()), NOW()
+            $16, $17, $18, $19, COALESCE($20::timestamptz, NOW()), NOW(),
+            $21, $22, $23
           )
           ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
             source_data = EXCLUDED.source_data,
             name = EXCLUDED.name,
             amount = EXCLUDED.amount,
+            currency_code = EXCLUDED.currency_code,
+            amount_original = EXCLUDED.amount_original,
+            fx_rate = EXCLUDED.fx_rate,
             stage = EXCLUDED.stage,
             stage_normalized = EXCLUDED.stage_normalized,
             close_date = EXCLUDED.close_date,
@@ -526,10 +539,11 @@ async function upsertDeals(deals: NormalizedDeal[]): Promise<number> {
             updated_at = NOW()`,
           [
             deal.workspace_id, deal.source, deal.source_id, JSON.stringify(deal.source_data),
-            deal.name, deal.amount, deal.stage, deal.stage_normalized, deal.close_date, deal.owner, deal.owner_email,
+            deal.name, fx.amount, deal.stage, deal.stage_normalized, deal.close_date, deal.owner, deal.owner_email,
             deal.probability, deal.forecast_category, deal.forecast_category_source, deal.pipeline,
             deal.last_activity_date, JSON.stringify(deal.custom_fields), deal.next_steps, deal.lead_source,
             deal.source_created_at,
+            fx.currency_code, fx.amount_original, fx.fx_rate,
           ]
         );
         stored++;
@@ -760,6 +774,23 @@ export async function initialSync(
       errors.push(`Stage change detection failed: ${err.message}`);
     }
 
+    // Detect tracked field changes (amount, close date, forecast category) BEFORE upserting deals
+    let fieldChanges: FieldChange[] = [];
+    try {
+      fieldChanges = await detectFieldChanges(workspaceId, normalizedDeals.map(d => ({
+        sourceId: d.source_id,
+        amount: d.amount,
+        close_date: d.close_date,
+        forecast_category: d.forecast_category,
+      })));
+      if (fieldChanges.length > 0) {
+        await recordFieldChanges(fieldChanges, 'sync_detection');
+      }
+    } catch (err: any) {
+      console.error(`[HubSpot Sync] Field change detection failed:`, err.message);
+      errors.push(`Field change detection failed: ${err.message}`);
+    }
+
     const [dealsStored, contactsStored] = await Promise.all([
       upsertDeals(normalizedDeals).catch(err => {
         console.error(`[HubSpot Sync] Failed to store deals:`, err.message);
@@ -783,6 +814,12 @@ export async function initialSync(
       errors.push(`Stage cache update failed: ${err.message}`);
     }
 
+    if (stageChanges.length > 0 || fieldChanges.length > 0) {
+      import('../../workflow/trigger-manager.js')
+        .then(m => m.workflowTriggerManager.onDealChanges(workspaceId, stageChanges, fieldChanges))
+        .catch(() => {});
+    }
+
     // Backfill owner names for any records still showing numeric HubSpot owner IDs
     try {
       if (ownerMap.size > 0) {
@@ -795,6 +832,22 @@ export async function initialSync(
       console.warn(`[HubSpot Sync] Owner name backfill failed:`, err.message);
     }
 
+    // Deal collaborators → overlay splits
+    try {
+      await syncDealCollaborators(workspaceId, normalizedDeals, ownerMap);
+    } catch (err: any) {
+      console.warn(`[HubSpot Sync] Deal collaborator splits failed:`, err.message);
+      errors.push(`Deal collaborator splits failed: ${err.message}`);
+    }
+
+    // Products and deal line items
+    try {
+      await syncHubSpotLineItems(client, workspaceId);
+    } catch (err: any) {
+      console.warn(`[HubSpot Sync] Line item sync failed:`, err.message);
+      errors.push(`Line item sync failed: ${err.message}`);
+    }
+
     // Resolve account_source_id → account_id UUIDs and update FK columns
     try {
       const allAccountSourceIds = new Set<string>();
@@ -979,6 +1032,7 @@ export async function incrementalSync(
     "hs_lastmodifieddate", "pipeline", "hubspot_owner_id",
     "hs_deal_stage_probability", "notes_last_updated",
     "closed_lost_reason", "closed_won_reason", "hs_closed_lost_competitor",
+    "deal_currency_code", "hs_all_collaborator_owner_ids",
   ];
 
   const contactProps = [
@@ -1086,6 +1140,22 @@ export async function incrementalSync(
       console.warn(`[HubSpot Incremental Sync] Owner name backfill failed:`, err.message);
     }
 
+    try {
+      await syncDealCollaborators(workspaceId, normalizedDeals, ownerMap);
+    } catch (err: any) {
+      console.warn(`[HubSpot Incremental Sync] Deal collaborator splits failed:`, err.message);
+      errors.push(`Deal collaborator splits failed: ${err.message}`);
+    }
+
+    if (normalizedDeals.length > 0) {
+      try {
+        await syncHubSpotLineItems(hubspotClient, workspaceId, normalizedDeals.map(d => d.source_id));
+      } catch (err: any) {
+        console.warn(`[HubSpot Incremental Sync] Line item sync failed:`, err.message);
+        errors.push(`Line item sync failed: ${err.message}`);
+      }
+    }
+
     // Resolve FK associations
     try {
       const allAccountSourceIds = new Set<string>();
@@ -1183,6 +1253,241 @@ export async function incrementalSync(
   };
 }
 
+export interface RecordSyncTargets {
+  dealIds: string[];
+  contactIds: string[];
+  companyIds: string[];
+  /** When the source system recorded each deal's stage change (keyed by deal source_id) */
+  stageChangedAt?: Map<string, Date>;
+}
+
+export interface RecordSyncResult {
+  deals: string[];
+  contacts: string[];
+  accounts: string[];
+  stageChanges: number;
+  missing: number;
+  errors: string[];
+}
+
+/**
+ * Upsert a specific set of records (webhook ingestion).
+ * Runs the same transforms, stage detection and FK resolution as incrementalSync,
+ * but does NOT move last_sync_at — the heartbeat sync still owns the watermark,
+ * so anything missed here is picked up on the next incremental run.
+ */
+export async function syncHubSpotRecords(
+  hubspotClient: HubSpotClient,
+  workspaceId: string,
+  targets: RecordSyncTargets
+): Promise<RecordSyncResult> {
+  const errors: string[] = [];
+  const result: RecordSyncResult = { deals: [], contacts: [], accounts: [], stageChanges: 0, missing: 0, errors };
+
+  const [dealOptions, ownerMap, forecastConfig] = await Promise.all([
+    buildStageMaps(hubspotClient, workspaceId),
+    buildOwnerMap(hubspotClient, workspaceId),
+    getForecastConfig(workspaceId),
+  ]);
+  dealOptions.ownerMap = ownerMap;
+  dealOptions.forecastThresholds = forecastConfig;
+  dealOptions.forecastedPipelines = forecastConfig.forecasted_pipelines;
+  const contactOptions: ContactTransformOptions = { ownerMap };
+
+  const dealProps = [
+    "dealname", "amount", "dealstage", "closedate", "createdate",
+    "hs_lastmodifieddate", "pipeline", "hubspot_owner_id",
+    "hs_deal_stage_probability", "notes_last_updated",
+    "closed_lost_reason", "closed_won_reason", "hs_closed_lost_competitor",
+    "deal_currency_code", "hs_all_collaborator_owner_ids",
+    "forecast_category", "hs_forecast_category",
+  ];
+  const contactProps = [
+    "firstname", "lastname", "email", "phone", "company",
+    "jobtitle", "lifecyclestage", "hs_lead_status",
+    "createdate", "lastmodifieddate", "hubspot_owner_id",
+    "hs_analytics_source", "hubspotscore", "hs_buying_role",
+  ];
+  const companyProps = [
+    "name", "domain", "industry", "numberofemployees",
+    "annualrevenue", "city", "state", "country",
+    "createdate", "hs_lastmodifieddate",
+  ];
+
+  const [rawDeals, rawContacts, rawCompanies] = await Promise.all([
+    hubspotClient.batchReadObjects("deals", targets.dealIds, dealProps),
+    hubspotClient.batchReadObjects("contacts", targets.contactIds, contactProps),
+    hubspotClient.batchReadObjects("companies", targets.companyIds, companyProps),
+  ]);
+  result.missing =
+    targets.dealIds.length + targets.contactIds.length + targets.companyIds.length -
+    (rawDeals.length + rawContacts.length + rawCompanies.length);
+
+  // Batch read does not return associations — fetch them so account/contact FKs resolve
+  const dealIds = rawDeals.map(d => d.id);
+  const contactIds = rawContacts.map(c => c.id);
+  const [dealCompanies, dealContacts, contactCompanies] = await Promise.all([
+    hubspotClient.batchGetAssociations("deals", "companies", dealIds),
+    hubspotClient.batchGetAssociations("deals", "contacts", dealIds),
+    hubspotClient.batchGetAssociations("contacts", "companies", contactIds),
+  ]);
+  const toAssociation = (ids: string[] | undefined) => ({ results: (ids ?? []).map(id => ({ id })) });
+
+  const dealTransformResult = transformWithErrorCapture(
+    rawDeals,
+    (d) => transformDeal({
+      id: d.id,
+      properties: d.properties as any,
+      associations: { companies: toAssociation(dealCompanies.get(d.id)), contacts: toAssociation(dealContacts.get(d.id)) },
+    } as any, workspaceId, dealOptions),
+    'HubSpot Deals (Webhook)',
+    (d) => d.id
+  );
+  const contactTransformResult = transformWithErrorCapture(
+    rawContacts,
+    (c) => transformContact({
+      id: c.id,
+      properties: c.properties as any,
+      associations: { companies: toAssociation(contactCompanies.get(c.id)) },
+    } as any, workspaceId, contactOptions),
+    'HubSpot Contacts (Webhook)',
+    (c) => c.id
+  );
+  const accountTransformResult = transformWithErrorCapture(
+    rawCompanies,
+    (c) => transformCompany({ id: c.id, properties: c.properties as any } as any, workspaceId),
+    'HubSpot Companies (Webhook)',
+    (c) => c.id
+  );
+
+  for (const failed of [...dealTransformResult.failed, ...contactTransformResult.failed, ...accountTransformResult.failed]) {
+    errors.push(`Transform failed for ${failed.recordId}: ${failed.error}`);
+  }
+
+  const normalizedDeals = dealTransformResult.succeeded;
+  const normalizedContacts = contactTransformResult.succeeded;
+  const normalizedAccounts = accountTransformResult.succeeded;
+
+  await upsertAccounts(normalizedAccounts).catch(err => { errors.push(`Failed to store accounts: ${err.message}`); });
+
+  // Detect stage changes BEFORE upserting deals (must capture previous stage)
+  let stageChanges: Awaited<ReturnType<typeof detectStageChanges>> = [];
+  try {
+    stageChanges = await detectStageChanges(
+      workspaceId,
+      normalizedDeals.map(d => ({
+        sourceId: d.source_id,
+        stage: d.stage,
+        stage_normalized: d.stage_normalized,
+      })) as any
+    );
+
+    // Prefer the event timestamp over detection time so late deliveries land on the right day
+    stageChanges = stageChanges.map(change => {
+      const occurredAt = targets.stageChangedAt?.get(change.dealSourceId);
+      if (!occurredAt) return change;
+      const enteredPrevious = change.durationMs != null ? change.changedAt.getTime() - change.durationMs : null;
+      return {
+        ...change,
+        changedAt: occurredAt,
+        durationMs: enteredPrevious != null ? Math.max(0, occurredAt.getTime() - enteredPrevious) : null,
+      };
+    });
+
+    if (stageChanges.length > 0) {
+      result.stageChanges = await recordStageChanges(stageChanges, 'sync_detection');
+      import('../../webhooks/deal-events.js')
+        .then(m => m.emitDealStageChangedEvents(workspaceId, stageChanges))
+        .catch(() => {});
+    }
+  } catch (err: any) {
+    errors.push(`Stage change detection failed: ${err.message}`);
+  }
+
+  let fieldChanges: FieldChange[] = [];
+  try {
+    fieldChanges = await detectFieldChanges(workspaceId, normalizedDeals.map(d => ({
+      sourceId: d.source_id,
+      amount: d.amount,
+      close_date: d.close_date,
+      forecast_category: d.forecast_category,
+    })));
+    if (fieldChanges.length > 0) {
+      await recordFieldChanges(fieldChanges, 'sync_detection');
+    }
+  } catch (err: any) {
+    errors.push(`Field change detection failed: ${err.message}`);
+  }
+
+  await Promise.all([
+    upsertDeals(normalizedDeals).catch(err => { errors.push(`Failed to store deals: ${err.message}`); }),
+    upsertContacts(normalizedContacts).catch(err => { errors.push(`Failed to store contacts: ${err.message}`); }),
+  ]);
+
+  await syncDealCollaborators(workspaceId, normalizedDeals, ownerMap).catch(err => {
+    errors.push(`Deal collaborator splits failed: ${err.message}`);
+  });
+
+  if (normalizedDeals.length > 0) {
+    await syncHubSpotLineItems(hubspotClient, workspaceId, normalizedDeals.map(d => d.source_id)).catch(err => {
+      errors.push(`Line item sync failed: ${err.message}`);
+    });
+  }
+
+  if (stageChanges.length > 0) {
+    await updateDealStageCache(stageChanges).catch(err => {
+      errors.push(`Stage cache update failed: ${err.message}`);
+    });
+  }
+
+  if (stageChanges.length > 0 || fieldChanges.length > 0) {
+    import('../../workflow/trigger-manager.js')
+      .then(m => m.workflowTriggerManager.onDealChanges(workspaceId, stageChanges, fieldChanges))
+      .catch(() => {});
+  }
+
+  try {
+    const allAccountSourceIds = new Set<string>(normalizedAccounts.map(a => a.source_id));
+    const allContactSourceIds = new Set<string>(normalizedContacts.map(c => c.source_id));
+    for (const d of normalizedDeals) {
+      if (d.account_source_id) allAccountSourceIds.add(d.account_source_id);
+      for (const cId of d.contact_source_ids) allContactSourceIds.add(cId);
+    }
+    for (const c of normalizedContacts) {
+      if (c.account_source_id) allAccountSourceIds.add(c.account_source_id);
+    }
+
+    const [accountIdMap, contactIdMap] = await Promise.all([
+      resolveAccountIds(workspaceId, allAccountSourceIds),
+      resolveContactIds(workspaceId, allContactSourceIds),
+    ]);
+
+    await Promise.all([
+      updateDealForeignKeys(workspaceId, normalizedDeals, accountIdMap, contactIdMap),
+      updateContactAccountIds(workspaceId, normalizedContacts, accountIdMap),
+    ]);
+    await populateDealContactsFromAssociations(workspaceId, normalizedDeals, contactIdMap);
+
+    result.accounts = normalizedAccounts.map(a => accountIdMap.get(a.source_id)).filter((id): id is string => !!id);
+    result.contacts = normalizedContacts.map(c => contactIdMap.get(c.source_id)).filter((id): id is string => !!id);
+  } catch (err: any) {
+    errors.push(`FK resolution failed: ${err.message}`);
+  }
+
+  if (normalizedDeals.length > 0) {
+    const dealRows = await query<{ id: string }>(
+      `SELECT id FROM deals WHERE workspace_id = $1 AND source = 'hubspot' AND source_id = ANY($2)`,
+      [workspaceId, normalizedDeals.map(d => d.source_id)]
+    );
+    result.deals = dealRows.rows.map(r => r.id);
+    await stampDealScopes(workspaceId, result.deals).catch(err => {
+      console.error(`[HubSpot Sync] Webhook scope stamping failed for workspace=${workspaceId}:`, err instanceof Error ? err.message : err);
+    });
+  }
+
+  return result;
+}
+
 export async function backfillAssociations(
   hubspotClient: HubSpotClient,
   workspaceId: string
@@ -10,6 +10,7 @@ export interface NormalizedDeal {
   source_data: Record<string, any>;
   name: string | null;
   amount: number | null;
+  currency_code: string | null;
   stage: string | null;
   stage_normalized: string | null;
   close_date: string | null;
@@ -164,6 +165,7 @@ const CORE_DEAL_FIELDS = new Set([
   "hs_lastmodifieddate", "pipeline", "hubspot_owner_id",
   "hs_deal_stage_probability", "notes_last_updated",
   "closed_lost_reason", "closed_won_reason", "hs_closed_lost_competitor",
+  "deal_currency_code", "hs_all_collaborator_owner_ids",
 ]);
 
 const CORE_CONTACT_FIELDS = new Set([
@@ -389,6 +391,7 @@ export function transformDeal(
     },
     name: sanitizeText(props.dealname),
     amount: sanitizeNumber(props.amount),
+    currency_code: sanitizeText(props.deal_currency_code) || null,
     stage: resolvedStage,
     stage_normalized: normalizeStage(resolvedStage, options?.customStageMapping),
     close_date: sanitizeDate(props.closedate),
@@ -14,6 +14,7 @@ export interface HubSpotDeal {
     closed_lost_reason?: string;
     closed_won_reason?: string;
     hs_closed_lost_competitor?: string;
+    deal_currency_code?: string;
     [key: string]: string | undefined;
   };
   associations?: {
@@ -64,6 +65,35 @@ export interface HubSpotCompany {
   };
 }
 
+export interface HubSpotProduct {
+  id: string;
+  properties: {
+    name?: string;
+    hs_sku?: string;
+    price?: string;
+    description?: string;
+    [key: string]: string | undefined;
+  };
+}
+
+export interface HubSpotLineItem {
+  id: string;
+  properties: {
+    name?: string;
+    hs_product_id?: string;
+    hs_sku?: string;
+    quantity?: string;
+    price?: string;
+    amount?: string;
+    discount?: string;
+    hs_discount_percentage?: string;
+    [key: string]: string | undefined;
+  };
+  associations?: {
+    deals?: { results: Array<{ id: string }> };
+  };
+}
+
 export interface HubSpotPipelineStage {
   id: string;
   label: string;
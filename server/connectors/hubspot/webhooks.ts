@@ -0,0 +1,267 @@
+/**
+ * HubSpot Webhook Ingestion
+ *
+ * Receives app webhook subscription events (deal/contact/company changes),
+ * verifies the request signature, and upserts just the changed records via
+ * syncHubSpotRecords. HubSpot batches up to 100 events per request and may
+ * send them across portals, so events are grouped by portal before processing.
+ *
+ * Signature docs: https://developers.hubspot.com/docs/api/webhooks/validating-requests
+ */
+
+import crypto from 'crypto';
+import { query } from '../../db.js';
+import { HubSpotClient } from './client.js';
+import { syncHubSpotRecords } from './sync.js';
+import { getConnectorCredentials } from '../../lib/credential-store.js';
+import { completeChangeEvents, queueFallbackSync } from '../../sync/change-events.js';
+
+const MAX_TIMESTAMP_SKEW_MS = 5 * 60 * 1000;
+
+export interface HubSpotWebhookEvent {
+  eventId: number;
+  subscriptionId: number;
+  portalId: number;
+  appId?: number;
+  occurredAt: number;
+  subscriptionType: string;      // e.g. 'deal.propertyChange', 'contact.creation', 'deal.associationChange'
+  attemptNumber?: number;
+  objectId?: number;
+  propertyName?: string;
+  propertyValue?: string;
+  changeSource?: string;
+  associationType?: string;      // e.g. 'DEAL_TO_COMPANY' on associationChange events
+  fromObjectId?: number;
+  toObjectId?: number;
+}
+
+export interface HubSpotChangeSet {
+  portalId: number;
+  dealIds: Set<string>;
+  contactIds: Set<string>;
+  companyIds: Set<string>;
+  stageChangedAt: Map<string, Date>;
+  deletions: number;
+}
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+export interface HubSpotSignatureInput {
+  method: string;
+  uri: string;                   // full request URL as HubSpot called it
+  rawBody: string;
+  clientSecret: string;
+  signature?: string;
+  signatureVersion?: string;
+  signatureV3?: string;
+  timestamp?: string;
+  now?: number;
+}
+
+function decodeUri(uri: string): string {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return uri;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Verify a HubSpot webhook request. Prefers v3 (HMAC + timestamp), falls back
+ * to v1/v2 (SHA-256 hash) for apps still on the legacy signature.
+ */
+export function verifyHubSpotSignature(input: HubSpotSignatureInput): boolean {
+  if (!input.clientSecret) return false;
+
+  if (input.signatureV3 && input.timestamp) {
+    const ts = Number(input.timestamp);
+    const now = input.now ?? Date.now();
+    if (!Number.isFinite(ts) || Math.abs(now - ts) > MAX_TIMESTAMP_SKEW_MS) return false;
+
+    const expected = crypto
+      .createHmac('sha256', input.clientSecret)
+      .update(`${input.method.toUpperCase()}${decodeUri(input.uri)}${input.rawBody}${input.timestamp}`)
+      .digest('base64');
+    return safeEqual(expected, input.signatureV3);
+  }
+
+  if (input.signature) {
+    const source = input.signatureVersion === 'v2'
+      ? `${input.clientSecret}${input.method.toUpperCase()}${input.uri}${input.rawBody}`
+      : `${input.clientSecret}${input.rawBody}`;
+    const expected = crypto.createHash('sha256').update(source).digest('hex');
+    return safeEqual(expected, input.signature);
+  }
+
+  return false;
+}
+
+// ============================================================================
+// Event Grouping
+// ============================================================================
+
+const OBJECT_PREFIXES: Record<string, 'dealIds' | 'contactIds' | 'companyIds'> = {
+  deal: 'dealIds',
+  contact: 'contactIds',
+  company: 'companyIds',
+};
+
+/**
+ * Collapse a webhook batch into the distinct records to refetch, per portal.
+ * HubSpot retries and fan-out mean the same object can appear many times.
+ */
+export function groupHubSpotEvents(events: HubSpotWebhookEvent[]): Map<number, HubSpotChangeSet> {
+  const byPortal = new Map<number, HubSpotChangeSet>();
+
+  for (const event of events) {
+    if (!event || typeof event.portalId !== 'number' || typeof event.subscriptionType !== 'string') continue;
+
+    let changeSet = byPortal.get(event.portalId);
+    if (!changeSet) {
+      changeSet = {
+        portalId: event.portalId,
+        dealIds: new Set(),
+        contactIds: new Set(),
+        companyIds: new Set(),
+        stageChangedAt: new Map(),
+        deletions: 0,
+      };
+      byPortal.set(event.portalId, changeSet);
+    }
+
+    const [objectType, action] = event.subscriptionType.split('.');
+    const bucket = OBJECT_PREFIXES[objectType];
+    if (!bucket) continue;
+
+    if (action === 'deletion' || action === 'privacyDeletion') {
+      // Deletions are reconciled by the scheduled sync; nothing to refetch
+      changeSet.deletions++;
+      continue;
+    }
+
+    if (action === 'associationChange') {
+      if (event.fromObjectId != null) changeSet[bucket].add(String(event.fromObjectId));
+      const toType = event.associationType?.split('_TO_')[1]?.toLowerCase();
+      const toBucket = toType ? OBJECT_PREFIXES[toType] : undefined;
+      if (toBucket && event.toObjectId != null) changeSet[toBucket].add(String(event.toObjectId));
+      continue;
+    }
+
+    if (event.objectId == null) continue;
+    const objectId = String(event.objectId);
+    changeSet[bucket].add(objectId);
+
+    if (objectType === 'deal' && event.propertyName === 'dealstage') {
+      const occurredAt = new Date(event.occurredAt);
+      const existing = changeSet.stageChangedAt.get(objectId);
+      if (!isNaN(occurredAt.getTime()) && (!existing || occurredAt > existing)) {
+        changeSet.stageChangedAt.set(objectId, occurredAt);
+      }
+    }
+  }
+
+  return byPortal;
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+async function findWorkspacesForPortal(portalId: number): Promise<string[]> {
+  const result = await query<{ workspace_id: string }>(
+    `SELECT workspace_id FROM connections
+     WHERE connector_name = 'hubspot'
+       AND status NOT IN ('disconnected', 'error')
+       AND metadata->>'portalId' = $1`,
+    [String(portalId)]
+  );
+  return result.rows.map(r => r.workspace_id);
+}
+
+async function applyChangeSet(workspaceId: string, changeSet: HubSpotChangeSet): Promise<void> {
+  const credentials = await getConnectorCredentials(workspaceId, 'hubspot');
+  if (!credentials?.accessToken) {
+    console.warn(`[HubSpot Webhook] No credentials for workspace ${workspaceId}, skipping`);
+    return;
+  }
+
+  const client = new HubSpotClient(credentials.accessToken, workspaceId);
+  await client.ensureFreshToken();
+
+  const result = await syncHubSpotRecords(client, workspaceId, {
+    dealIds: Array.from(changeSet.dealIds),
+    contactIds: Array.from(changeSet.contactIds),
+    companyIds: Array.from(changeSet.companyIds),
+    stageChangedAt: changeSet.stageChangedAt,
+  });
+
+  console.log(
+    `[HubSpot Webhook] Workspace ${workspaceId}: ${result.deals.length} deals, ${result.contacts.length} contacts, ` +
+    `${result.accounts.length} companies upserted, ${result.stageChanges} stage changes` +
+    (result.errors.length > 0 ? `, ${result.errors.length} errors` : '')
+  );
+
+  await completeChangeEvents(workspaceId, 'hubspot', {
+    deals: result.deals,
+    contacts: result.contacts,
+    accounts: result.accounts,
+    stageChanges: result.stageChanges,
+    errors: result.errors,
+  });
+
+  if (result.errors.length > 0) {
+    await queueFallbackSync(workspaceId, 'hubspot', `webhook apply errors: ${result.errors[0]}`);
+  }
+}
+
+/**
+ * Process a verified webhook batch. Failures never throw back to the caller:
+ * the affected workspace gets an incremental sync queued instead, so a dropped
+ * event costs at most one heartbeat interval of freshness.
+ */
+export async function processHubSpotWebhookEvents(events: HubSpotWebhookEvent[]): Promise<{
+  portals: number;
+  workspaces: number;
+}> {
+  const grouped = groupHubSpotEvents(events);
+  let workspaceCount = 0;
+
+  for (const changeSet of grouped.values()) {
+    const recordCount = changeSet.dealIds.size + changeSet.contactIds.size + changeSet.companyIds.size;
+    if (recordCount === 0) continue;
+
+    let workspaceIds: string[] = [];
+    try {
+      workspaceIds = await findWorkspacesForPortal(changeSet.portalId);
+    } catch (err) {
+      console.error(`[HubSpot Webhook] Portal lookup failed for ${changeSet.portalId}:`, err instanceof Error ? err.message : err);
+      continue;
+    }
+
+    if (workspaceIds.length === 0) {
+      console.warn(`[HubSpot Webhook] No workspace connected for portal ${changeSet.portalId}`);
+      continue;
+    }
+
+    for (const workspaceId of workspaceIds) {
+      workspaceCount++;
+      try {
+        await applyChangeSet(workspaceId, changeSet);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[HubSpot Webhook] Failed to apply events for workspace ${workspaceId}:`, message);
+        await queueFallbackSync(workspaceId, 'hubspot', `webhook processing failed: ${message}`);
+      }
+    }
+  }
+
+  return { portals: grouped.size, workspaces: workspaceCount };
+}
@@ -0,0 +1,315 @@
+/**
+ * Jira Cloud API Client
+ *
+ * Pure API client for the Jira Cloud REST API v3.
+ * Stateless - receives credentials per call.
+ *
+ * API Documentation: https://developer.atlassian.com/cloud/jira/platform/rest/v3/
+ *
+ * Key Patterns:
+ * - Base URL is the customer's site: https://{site}.atlassian.net
+ * - Authorization: Basic base64(email:apiToken)
+ * - Issue descriptions use Atlassian Document Format (ADF), not markdown
+ * - Issues are closed by transitioning them, not by setting a status field;
+ *   the "done" transition is the one whose target status category is 'done'
+ */
+
+import { RateLimiter } from '../../utils/retry.js';
+
+export interface JiraCredentials {
+  siteUrl: string;     // https://acme.atlassian.net
+  email: string;
+  apiToken: string;
+}
+
+export interface JiraProject {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface JiraComponent {
+  id: string;
+  name: string;
+}
+
+export interface JiraUser {
+  accountId: string;
+  accountType: string;
+  displayName: string;
+  emailAddress?: string;
+  active: boolean;
+}
+
+export interface JiraStatus {
+  name: string;
+  statusCategory: { key: 'new' | 'indeterminate' | 'done' | string; name: string };
+}
+
+export interface JiraIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary?: string;
+    status?: JiraStatus;
+    resolution?: { name: string } | null;
+    resolutiondate?: string | null;
+  };
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to: JiraStatus;
+}
+
+export interface AdfNode {
+  type: string;
+  text?: string;
+  marks?: { type: string }[];
+  content?: AdfNode[];
+  attrs?: Record<string, any>;
+}
+
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+/**
+ * Convert a small markdown subset (paragraphs, "- " bullets, "---" rules and
+ * **bold**) to an ADF document. Jira v3 rejects plain strings in rich-text fields.
+ */
+export function markdownToAdf(markdown: string): AdfDocument {
+  const content: AdfNode[] = [];
+  const blocks = markdown.replace(/\r\n/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+
+    if (/^-{3,}$/.test(trimmed)) {
+      content.push({ type: 'rule' });
+      continue;
+    }
+
+    const lines = trimmed.split('\n');
+    if (lines.every(line => /^\s*[-*] /.test(line))) {
+      content.push({
+        type: 'bulletList',
+        content: lines.map(line => ({
+          type: 'listItem',
+          content: [{ type: 'paragraph', content: inlineNodes(line.replace(/^\s*[-*] /, '')) }],
+        })),
+      });
+      continue;
+    }
+
+    const paragraph: AdfNode[] = [];
+    lines.forEach((line, idx) => {
+      if (idx > 0) paragraph.push({ type: 'hardBreak' });
+      paragraph.push(...inlineNodes(line));
+    });
+    content.push({ type: 'paragraph', content: paragraph });
+  }
+
+  return { type: 'doc', version: 1, content };
+}
+
+function inlineNodes(text: string): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  const parts = text.split(/\*\*(.+?)\*\*/);
+  parts.forEach((part, idx) => {
+    if (!part) return;
+    // Odd indexes are the captured bold segments
+    nodes.push(idx % 2 === 1 ? { type: 'text', text: part, marks: [{ type: 'strong' }] } : { type: 'text', text: part });
+  });
+  return nodes;
+}
+
+export class JiraClient {
+  private rateLimiter = new RateLimiter(100, 60_000); // Conservative share of Jira Cloud's per-user budget
+
+  /**
+   * Execute a REST request against the Jira Cloud API
+   */
+  private async request<T = any>(
+    credentials: JiraCredentials,
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    return this.rateLimiter.execute(async () => {
+      return this.requestWithRetry<T>(credentials, method, path, body);
+    });
+  }
+
+  private async requestWithRetry<T>(
+    credentials: JiraCredentials,
+    method: string,
+    path: string,
+    body?: unknown,
+    attempt = 1,
+    maxAttempts = 3
+  ): Promise<T> {
+    const baseUrl = credentials.siteUrl.replace(/\/+$/, '');
+    const auth = Buffer.from(`${credentials.email}:${credentials.apiToken}`).toString('base64');
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    // Handle 429 rate limit with exponential backoff
+    if (response.status === 429 && attempt < maxAttempts) {
+      const retryAfter = response.headers.get('Retry-After');
+      const delayMs = retryAfter
+        ? parseInt(retryAfter) * 1000
+        : Math.pow(2, attempt) * 1000;
+
+      console.warn(`[Jira Client] Rate limited (429), retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return this.requestWithRetry<T>(credentials, method, path, body, attempt + 1, maxAttempts);
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Jira HTTP error: ${response.status} ${response.statusText}${text ? ` - ${text.slice(0, 500)}` : ''}`);
+    }
+
+    // 204 No Content (updates, transitions)
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return await response.json() as T;
+  }
+
+  /**
+   * Test connection by fetching the authenticated user
+   */
+  async testConnection(credentials: JiraCredentials): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    try {
+      const me = await this.request<JiraUser>(credentials, 'GET', '/rest/api/3/myself');
+      return {
+        success: true,
+        accountInfo: { accountId: me.accountId, name: me.displayName, email: me.emailAddress },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Get all projects visible to the user (paginated)
+   */
+  async getProjects(credentials: JiraCredentials): Promise<JiraProject[]> {
+    const projects: JiraProject[] = [];
+    let startAt = 0;
+
+    for (let page = 0; page < 20; page++) {
+      const data = await this.request<{ values: JiraProject[]; isLast: boolean }>(
+        credentials,
+        'GET',
+        `/rest/api/3/project/search?startAt=${startAt}&maxResults=50&orderBy=name`
+      );
+      projects.push(...(data.values || []));
+      if (data.isLast || !data.values?.length) break;
+      startAt += data.values.length;
+    }
+
+    return projects;
+  }
+
+  /**
+   * Get components of a project
+   */
+  async getComponents(credentials: JiraCredentials, projectKey: string): Promise<JiraComponent[]> {
+    const data = await this.request<JiraComponent[]>(
+      credentials,
+      'GET',
+      `/rest/api/3/project/${encodeURIComponent(projectKey)}/components`
+    );
+    return data || [];
+  }
+
+  /**
+   * Get active human users
+   */
+  async getUsers(credentials: JiraCredentials): Promise<JiraUser[]> {
+    const data = await this.request<JiraUser[]>(credentials, 'GET', '/rest/api/3/users/search?maxResults=1000');
+    return (data || []).filter(u => u.active && u.accountType === 'atlassian');
+  }
+
+  /**
+   * Find a user's accountId by email. Returns null when the email is hidden
+   * by the user's profile visibility settings or not found.
+   */
+  async findAccountIdByEmail(credentials: JiraCredentials, email: string): Promise<string | null> {
+    const data = await this.request<JiraUser[]>(
+      credentials,
+      'GET',
+      `/rest/api/3/user/search?query=${encodeURIComponent(email)}`
+    );
+    const match = (data || []).find(u => u.emailAddress?.toLowerCase() === email.toLowerCase()) || data?.[0];
+    return match?.accountId || null;
+  }
+
+  /**
+   * Create an issue. Returns the issue key (e.g. "OPS-123").
+   */
+  async createIssue(credentials: JiraCredentials, fields: Record<string, any>): Promise<{ id: string; key: string }> {
+    return this.request<{ id: string; key: string }>(credentials, 'POST', '/rest/api/3/issue', { fields });
+  }
+
+  /**
+   * Update issue fields
+   */
+  async updateIssue(credentials: JiraCredentials, issueKey: string, fields: Record<string, any>): Promise<void> {
+    await this.request(credentials, 'PUT', `/rest/api/3/issue/${encodeURIComponent(issueKey)}`, { fields });
+  }
+
+  /**
+   * Get an issue's status and resolution
+   */
+  async getIssue(credentials: JiraCredentials, issueKey: string): Promise<JiraIssue> {
+    return this.request<JiraIssue>(
+      credentials,
+      'GET',
+      `/rest/api/3/issue/${encodeURIComponent(issueKey)}?fields=summary,status,resolution,resolutiondate`
+    );
+  }
+
+  /**
+   * Get the transitions available from the issue's current status
+   */
+  async getTransitions(credentials: JiraCredentials, issueKey: string): Promise<JiraTransition[]> {
+    const data = await this.request<{ transitions: JiraTransition[] }>(
+      credentials,
+      'GET',
+      `/rest/api/3/issue/${encodeURIComponent(issueKey)}/transitions`
+    );
+    return data.transitions || [];
+  }
+
+  /**
+   * Apply a transition to an issue
+   */
+  async transitionIssue(credentials: JiraCredentials, issueKey: string, transitionId: string): Promise<void> {
+    await this.request(
+      credentials,
+      'POST',
+      `/rest/api/3/issue/${encodeURIComponent(issueKey)}/transitions`,
+      { transition: { id: transitionId } }
+    );
+  }
+}
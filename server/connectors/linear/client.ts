@@ -0,0 +1,258 @@
+/**
+ * Linear API Client
+ *
+ * Pure API client for the Linear GraphQL API.
+ * Stateless - receives API key per call.
+ *
+ * API Documentation: https://developers.linear.app/docs/graphql/working-with-the-graphql-api
+ *
+ * Key Patterns:
+ * - GraphQL endpoint: https://api.linear.app/graphql
+ * - Authorization: personal API key goes directly in header (NOT "Bearer {key}")
+ * - Issues belong to a team; projects are optional groupings within teams
+ * - Workflow states are per team and typed: backlog, unstarted, started,
+ *   completed, canceled. Closing an issue means moving it to a completed state.
+ * - Priority: 0 none, 1 urgent, 2 high, 3 medium, 4 low
+ */
+
+import { RateLimiter } from '../../utils/retry.js';
+
+export interface LinearCredentials {
+  apiKey: string;
+}
+
+export interface LinearTeam {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface LinearUser {
+  id: string;
+  name: string;
+  email: string;
+  active: boolean;
+}
+
+export interface LinearState {
+  id: string;
+  name: string;
+  type: 'triage' | 'backlog' | 'unstarted' | 'started' | 'completed' | 'canceled' | string;
+  position?: number;
+}
+
+export interface LinearIssue {
+  id: string;
+  identifier: string;
+  url: string;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+  state?: LinearState;
+}
+
+export class LinearClient {
+  private readonly apiUrl = 'https://api.linear.app/graphql';
+  private rateLimiter = new RateLimiter(60, 60_000); // Well under Linear's 1,500 requests/hour per key
+
+  /**
+   * Execute a GraphQL query against the Linear API
+   */
+  private async graphql<T = any>(
+    credentials: LinearCredentials,
+    query: string,
+    variables: Record<string, any> = {}
+  ): Promise<T> {
+    return this.rateLimiter.execute(async () => {
+      return this.graphqlWithRetry<T>(credentials, query, variables);
+    });
+  }
+
+  private async graphqlWithRetry<T>(
+    credentials: LinearCredentials,
+    query: string,
+    variables: Record<string, any>,
+    attempt = 1,
+    maxAttempts = 3
+  ): Promise<T> {
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': credentials.apiKey,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    // Handle 429 rate limit with exponential backoff
+    if (response.status === 429 && attempt < maxAttempts) {
+      const retryAfter = response.headers.get('Retry-After');
+      const delayMs = retryAfter
+        ? parseInt(retryAfter) * 1000
+        : Math.pow(2, attempt) * 1000;
+
+      console.warn(`[Linear Client] Rate limited (429), retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return this.graphqlWithRetry<T>(credentials, query, variables, attempt + 1, maxAttempts);
+    }
+
+    if (!response.ok && response.status !== 400) {
+      throw new Error(`Linear HTTP error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
+
+    // Linear reports GraphQL validation failures as 400 with an errors array
+    if (data.errors && data.errors.length > 0) {
+      throw new Error(`Linear API error: ${data.errors.map((e: any) => e.message).join('; ')}`);
+    }
+
+    return data.data as T;
+  }
+
+  /**
+   * Test connection by fetching the viewer
+   */
+  async testConnection(credentials: LinearCredentials): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    try {
+      const data = await this.graphql<{ viewer: LinearUser; organization: { name: string; urlKey: string } }>(
+        credentials,
+        `query { viewer { id name email } organization { name urlKey } }`
+      );
+      return { success: true, accountInfo: { ...data.viewer, organization: data.organization } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Get all teams
+   */
+  async getTeams(credentials: LinearCredentials): Promise<LinearTeam[]> {
+    const data = await this.graphql<{ teams: { nodes: LinearTeam[] } }>(
+      credentials,
+      `query { teams(first: 100) { nodes { id key name } } }`
+    );
+    return data.teams?.nodes || [];
+  }
+
+  /**
+   * Get projects a team participates in
+   */
+  async getTeamProjects(credentials: LinearCredentials, teamId: string): Promise<{ id: string; name: string }[]> {
+    const data = await this.graphql<{ team: { projects: { nodes: { id: string; name: string }[] } } | null }>(
+      credentials,
+      `query TeamProjects($teamId: String!) {
+        team(id: $teamId) { projects(first: 100) { nodes { id name } } }
+      }`,
+      { teamId }
+    );
+    return data.team?.projects?.nodes || [];
+  }
+
+  /**
+   * Get a team's workflow states
+   */
+  async getTeamStates(credentials: LinearCredentials, teamId: string): Promise<LinearState[]> {
+    const data = await this.graphql<{ team: { states: { nodes: LinearState[] } } | null }>(
+      credentials,
+      `query TeamStates($teamId: String!) {
+        team(id: $teamId) { states { nodes { id name type position } } }
+      }`,
+      { teamId }
+    );
+    return data.team?.states?.nodes || [];
+  }
+
+  /**
+   * Get all users in the organization
+   */
+  async getUsers(credentials: LinearCredentials): Promise<LinearUser[]> {
+    const data = await this.graphql<{ users: { nodes: LinearUser[] } }>(
+      credentials,
+      `query { users(first: 250) { nodes { id name email active } } }`
+    );
+    return (data.users?.nodes || []).filter(u => u.active);
+  }
+
+  /**
+   * Find a user id by email
+   */
+  async findUserIdByEmail(credentials: LinearCredentials, email: string): Promise<string | null> {
+    const data = await this.graphql<{ users: { nodes: { id: string }[] } }>(
+      credentials,
+      `query UserByEmail($email: String!) {
+        users(filter: { email: { eqIgnoreCase: $email } }) { nodes { id } }
+      }`,
+      { email }
+    );
+    return data.users?.nodes?.[0]?.id || null;
+  }
+
+  /**
+   * Resolve label names to ids within a team (workspace labels included).
+   * Unknown names are skipped rather than created.
+   */
+  async findLabelIds(credentials: LinearCredentials, teamId: string, names: string[]): Promise<string[]> {
+    if (names.length === 0) return [];
+    const data = await this.graphql<{ issueLabels: { nodes: { id: string; name: string; team: { id: string } | null }[] } }>(
+      credentials,
+      `query Labels($names: [String!]) {
+        issueLabels(first: 250, filter: { name: { in: $names } }) { nodes { id name team { id } } }
+      }`,
+      { names }
+    );
+    return (data.issueLabels?.nodes || [])
+      .filter(l => !l.team || l.team.id === teamId)
+      .map(l => l.id);
+  }
+
+  /**
+   * Create an issue
+   */
+  async createIssue(credentials: LinearCredentials, input: Record<string, any>): Promise<LinearIssue> {
+    const data = await this.graphql<{ issueCreate: { success: boolean; issue: LinearIssue } }>(
+      credentials,
+      `mutation CreateIssue($input: IssueCreateInput!) {
+        issueCreate(input: $input) { success issue { id identifier url } }
+      }`,
+      { input }
+    );
+    if (!data.issueCreate?.success) {
+      throw new Error('Linear issueCreate returned success=false');
+    }
+    return data.issueCreate.issue;
+  }
+
+  /**
+   * Update an issue
+   */
+  async updateIssue(credentials: LinearCredentials, issueId: string, input: Record<string, any>): Promise<void> {
+    const data = await this.graphql<{ issueUpdate: { success: boolean } }>(
+      credentials,
+      `mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) { success }
+      }`,
+      { id: issueId, input }
+    );
+    if (!data.issueUpdate?.success) {
+      throw new Error(`Linear issueUpdate returned success=false for ${issueId}`);
+    }
+  }
+
+  /**
+   * Get an issue with its state and team
+   */
+  async getIssue(credentials: LinearCredentials, issueId: string): Promise<LinearIssue & { team: { id: string } }> {
+    const data = await this.graphql<{ issue: LinearIssue & { team: { id: string } } }>(
+      credentials,
+      `query Issue($id: String!) {
+        issue(id: $id) { id identifier url completedAt canceledAt state { id name type } team { id } }
+      }`,
+      { id: issueId }
+    );
+    return data.issue;
+  }
+}
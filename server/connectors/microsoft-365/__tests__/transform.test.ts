@@ -0,0 +1,85 @@
+/**
+ * Unit tests for Microsoft Graph event and message normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformGraphEvent, transformGraphMessage } from '../transform.js';
+
+const MAILBOX = 'Rep@Acme.com';
+
+describe('transformGraphEvent', () => {
+  it('maps an Outlook meeting onto the Google calendar_events shape', () => {
+    const row = transformGraphEvent({
+      id: 'evt-1',
+      subject: 'Pricing review',
+      start: { dateTime: '2026-10-19T15:00:00.0000000', timeZone: 'UTC' },
+      end: { dateTime: '2026-10-19T15:30:00.0000000', timeZone: 'UTC' },
+      organizer: { emailAddress: { name: 'Rep', address: 'rep@acme.com' } },
+      attendees: [
+        { emailAddress: { name: 'Buyer', address: 'Buyer@Customer.io' }, type: 'required', status: { response: 'tentativelyAccepted' } },
+        { emailAddress: { name: 'Room 4', address: 'room4@acme.com' }, type: 'resource', status: { response: 'accepted' } },
+      ],
+      onlineMeeting: { joinUrl: 'https://teams.microsoft.com/l/meetup-join/abc' },
+    }, MAILBOX);
+
+    expect(row).toMatchObject({
+      external_id: 'evt-1',
+      start_time: '2026-10-19T15:00:00.0000000Z',
+      organizer_email: 'rep@acme.com',
+      meet_link: 'https://teams.microsoft.com/l/meetup-join/abc',
+      status: 'confirmed',
+    });
+    expect(row!.attendees).toEqual([
+      { email: 'rep@acme.com', displayName: 'Rep', responseStatus: 'accepted', self: true, organizer: true },
+      { email: 'buyer@customer.io', displayName: 'Buyer', responseStatus: 'tentative', self: false, organizer: false },
+    ]);
+  });
+
+  it('skips cancelled and declined events', () => {
+    const start = { dateTime: '2026-10-19T15:00:00', timeZone: 'UTC' };
+    expect(transformGraphEvent({ id: 'a', start, end: start, isCancelled: true }, MAILBOX)).toBeNull();
+    expect(transformGraphEvent({ id: 'b', start, end: start, responseStatus: { response: 'declined' } }, MAILBOX)).toBeNull();
+  });
+});
+
+describe('transformGraphMessage', () => {
+  it('keeps metadata only and derives direction from the mailbox owner', () => {
+    const row = transformGraphMessage({
+      id: 'graph-id',
+      internetMessageId: '<abc@acme.com>',
+      conversationId: 'thread-1',
+      subject: 'Re: proposal',
+      from: { emailAddress: { address: 'rep@acme.com' } },
+      toRecipients: [{ emailAddress: { address: 'buyer@customer.io' } }],
+      ccRecipients: [{ emailAddress: { address: 'se@acme.com' } }],
+      sentDateTime: '2026-10-18T09:00:00Z',
+      receivedDateTime: '2026-10-18T09:00:01Z',
+    }, MAILBOX);
+
+    expect(row).toMatchObject({
+      source_id: '<abc@acme.com>',
+      direction: 'outbound',
+      timestamp: '2026-10-18T09:00:00Z',
+      actor: 'rep@acme.com',
+    });
+    expect(row!.source_data).toEqual({
+      thread_id: 'thread-1',
+      message_id: '<abc@acme.com>',
+      from: 'rep@acme.com',
+      to: ['buyer@customer.io'],
+      cc: ['se@acme.com'],
+      mailbox: 'rep@acme.com',
+      participants: ['buyer@customer.io', 'se@acme.com'],
+    });
+    expect(row).not.toHaveProperty('body');
+  });
+
+  it('drops internal-only mail', () => {
+    expect(transformGraphMessage({
+      id: 'm2',
+      from: { emailAddress: { address: 'manager@acme.com' } },
+      toRecipients: [{ emailAddress: { address: 'rep@acme.com' } }],
+      receivedDateTime: '2026-10-18T09:00:00Z',
+    }, MAILBOX)).toBeNull();
+  });
+});
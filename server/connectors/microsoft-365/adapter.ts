@@ -0,0 +1,251 @@
+/**
+ * Microsoft 365 Sync Adapter
+ *
+ * Syncs Outlook calendar events into calendar_events (alongside Google
+ * Calendar) and, when enabled on the connection, email metadata into
+ * activities. Email bodies are never fetched; sender, recipients, timestamps
+ * and thread ids are linked to contacts/deals by the entity linker.
+ *
+ * Sync window: 7 days back, 14 days forward (calendar);
+ * email since last sync, 30 days back on first sync
+ * Sync frequency: 15 minutes (configured in scheduler)
+ */
+
+import { query } from '../../db.js';
+import { createLogger } from '../../utils/logger.js';
+import { decryptCredentials, encryptCredentials } from '../../lib/encryption.js';
+import { resolveAttendeesToDeals } from '../shared/calendar-deal-resolution.js';
+import { linkEmailActivities } from '../../linker/entity-linker.js';
+import { MicrosoftGraphClient } from './client.js';
+import { transformGraphEvent, transformGraphMessage, type EmailActivityRow } from './transform.js';
+import type { Microsoft365Credentials } from './types.js';
+
+const logger = createLogger('microsoft-365');
+
+export const MICROSOFT_365_CONNECTOR = 'microsoft-365';
+
+const SYNC_DAYS_BACK = 7;
+const SYNC_DAYS_FORWARD = 14;
+const EMAIL_INITIAL_DAYS_BACK = 30;
+// Overlap with the previous run so late-delivered mail isn't missed
+const EMAIL_OVERLAP_HOURS = 24;
+const INSERT_BATCH_SIZE = 200;
+
+export interface Microsoft365SyncResult {
+  synced: number;
+  resolved: number;
+  emails: number;
+  emailsLinked: number;
+  errors: string[];
+}
+
+export async function syncMicrosoft365(workspaceId: string): Promise<Microsoft365SyncResult> {
+  const result: Microsoft365SyncResult = { synced: 0, resolved: 0, emails: 0, emailsLinked: 0, errors: [] };
+
+  // 1. Get credentials and settings from connections table
+  const connResult = await query<{ credentials: any; metadata: Record<string, any> | null; last_sync_at: Date | null }>(
+    `SELECT credentials, metadata, last_sync_at FROM connections
+     WHERE workspace_id = $1 AND connector_name = $2 AND status != 'disconnected'`,
+    [workspaceId, MICROSOFT_365_CONNECTOR]
+  );
+
+  if (connResult.rows.length === 0) {
+    logger.info('No microsoft-365 connection found — skipping', { workspaceId });
+    return result;
+  }
+
+  const conn = connResult.rows[0];
+  const credentials = decryptCredentials(conn.credentials) as Microsoft365Credentials;
+  const syncEmail = conn.metadata?.sync_email === true;
+
+  // 2. Build Graph client; Microsoft rotates refresh tokens, so persist every refresh
+  const client = new MicrosoftGraphClient(credentials, async (refreshed) => {
+    await query(
+      `UPDATE connections SET credentials = $1, updated_at = now()
+       WHERE workspace_id = $2 AND connector_name = $3`,
+      [JSON.stringify(encryptCredentials({ ...refreshed })), workspaceId, MICROSOFT_365_CONNECTOR]
+    );
+  });
+
+  let mailbox: string;
+  try {
+    const me = await client.getMe();
+    mailbox = (me.mail || me.userPrincipalName || '').toLowerCase();
+  } catch (err: any) {
+    logger.error('Error reading Microsoft 365 profile', { error: err?.message, workspaceId });
+    result.errors.push(`Profile error: ${err.message}`);
+    return result;
+  }
+
+  // 3. Calendar events
+  await syncCalendarEvents(workspaceId, client, mailbox, result);
+  result.resolved = await resolveAttendeesToDeals(workspaceId);
+
+  // 4. Email metadata (opt-in per connection)
+  if (syncEmail) {
+    const since = conn.last_sync_at
+      ? new Date(new Date(conn.last_sync_at).getTime() - EMAIL_OVERLAP_HOURS * 60 * 60 * 1000)
+      : new Date(Date.now() - EMAIL_INITIAL_DAYS_BACK * 24 * 60 * 60 * 1000);
+    await syncEmailActivities(workspaceId, client, mailbox, since, result);
+    const linked = await linkEmailActivities(workspaceId);
+    result.emailsLinked = linked.linked;
+  }
+
+  // 5. Update connection last_sync_at
+  await query(
+    `UPDATE connections SET last_sync_at = now(), status = 'synced'
+     WHERE workspace_id = $1 AND connector_name = $2`,
+    [workspaceId, MICROSOFT_365_CONNECTOR]
+  );
+
+  logger.info('Microsoft 365 sync complete', {
+    workspaceId,
+    synced: result.synced,
+    resolved: result.resolved,
+    emails: result.emails,
+    emailsLinked: result.emailsLinked,
+  });
+  return result;
+}
+
+async function syncCalendarEvents(
+  workspaceId: string,
+  client: MicrosoftGraphClient,
+  mailbox: string,
+  result: Microsoft365SyncResult
+): Promise<void> {
+  const timeMin = new Date();
+  timeMin.setDate(timeMin.getDate() - SYNC_DAYS_BACK);
+  const timeMax = new Date();
+  timeMax.setDate(timeMax.getDate() + SYNC_DAYS_FORWARD);
+
+  let events;
+  try {
+    events = await client.getCalendarView(timeMin, timeMax);
+  } catch (err: any) {
+    logger.error('Error fetching Outlook calendar events', { error: err?.message, workspaceId });
+    result.errors.push(`Fetch error: ${err.message}`);
+    return;
+  }
+
+  logger.info('Fetched Outlook calendar events', { workspaceId, count: events.length });
+
+  for (const event of events) {
+    const row = transformGraphEvent(event, mailbox);
+
+    if (!row) {
+      // Cancelled or declined since the last sync — keep the stored copy out of meeting lists
+      await query(
+        `UPDATE calendar_events SET status = 'cancelled', last_synced_at = now()
+         WHERE workspace_id = $1 AND source = 'microsoft' AND google_event_id = $2`,
+        [workspaceId, event.id]
+      ).catch(() => {});
+      continue;
+    }
+
+    try {
+      await query(
+        `INSERT INTO calendar_events (
+          workspace_id, source, google_event_id, calendar_id, title, description,
+          location, start_time, end_time, is_all_day, timezone,
+          attendees, organizer_email, creator_email, status, visibility,
+          html_link, meet_link, last_synced_at
+        ) VALUES ($1, 'microsoft', $2, 'primary', $3, $4, $5, $6, $7, $8, $9, $10, $11, $11, $12, $13, $14, $15, now())
+        ON CONFLICT (workspace_id, google_event_id) DO UPDATE SET
+          title = EXCLUDED.title,
+          description = EXCLUDED.description,
+          location = EXCLUDED.location,
+          start_time = EXCLUDED.start_time,
+          end_time = EXCLUDED.end_time,
+          is_all_day = EXCLUDED.is_all_day,
+          attendees = EXCLUDED.attendees,
+          organizer_email = EXCLUDED.organizer_email,
+          status = EXCLUDED.status,
+          visibility = EXCLUDED.visibility,
+          html_link = EXCLUDED.html_link,
+          meet_link = EXCLUDED.meet_link,
+          last_synced_at = now()`,
+        [
+          workspaceId,
+          row.external_id,
+          row.title,
+          row.description,
+          row.location,
+          row.start_time,
+          row.end_time,
+          row.is_all_day,
+          row.timezone,
+          JSON.stringify(row.attendees),
+          row.organizer_email,
+          row.status,
+          row.visibility,
+          row.html_link,
+          row.meet_link,
+        ]
+      );
+      result.synced++;
+    } catch (err: any) {
+      logger.error('Error upserting Outlook calendar event', { error: err?.message, eventId: event.id });
+      result.errors.push(`Upsert error for ${event.id}: ${err.message}`);
+    }
+  }
+}
+
+async function syncEmailActivities(
+  workspaceId: string,
+  client: MicrosoftGraphClient,
+  mailbox: string,
+  since: Date,
+  result: Microsoft365SyncResult
+): Promise<void> {
+  let messages;
+  try {
+    messages = await client.getMessagesSince(since);
+  } catch (err: any) {
+    logger.error('Error fetching Outlook messages', { error: err?.message, workspaceId });
+    result.errors.push(`Email fetch error: ${err.message}`);
+    return;
+  }
+
+  // A message can surface in several folders (e.g. sent to yourself); keep one per message id
+  const byId = new Map<string, EmailActivityRow>();
+  for (const message of messages) {
+    const row = transformGraphMessage(message, mailbox);
+    if (row) byId.set(row.source_id, row);
+  }
+  const rows = [...byId.values()];
+
+  try {
+    result.emails = await upsertEmailActivities(workspaceId, rows);
+  } catch (err: any) {
+    logger.error('Error storing Outlook email activities', { error: err?.message, workspaceId });
+    result.errors.push(`Email upsert error: ${err.message}`);
+  }
+
+  logger.info('Synced Outlook email metadata', { workspaceId, fetched: messages.length, stored: result.emails });
+}
+
+async function upsertEmailActivities(workspaceId: string, rows: EmailActivityRow[]): Promise<number> {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    const values: unknown[] = [workspaceId, MICROSOFT_365_CONNECTOR];
+    const placeholders = batch.map(row => {
+      values.push(row.source_id, JSON.stringify(row.source_data), row.timestamp, row.actor, row.subject, row.direction);
+      const base = values.length - 6;
+      return `($1, $2, $${base + 1}, $${base + 2}::jsonb, 'email', $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6})`;
+    });
+
+    // Contact/deal links set by the linker are kept on re-sync
+    await query(
+      `INSERT INTO activities (workspace_id, source, source_id, source_data, activity_type, timestamp, actor, subject, direction)
+       VALUES ${placeholders.join(', ')}
+       ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+         source_data = EXCLUDED.source_data,
+         timestamp = EXCLUDED.timestamp,
+         subject = EXCLUDED.subject,
+         updated_at = NOW()`,
+      values
+    );
+  }
+  return rows.length;
+}
@@ -0,0 +1,188 @@
+import type {
+  GraphEvent,
+  GraphMessage,
+  GraphPage,
+  GraphUser,
+  Microsoft365Credentials,
+} from './types.js';
+
+const GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 50;
+// Refresh a little before expiry so long paginated syncs don't 401 mid-way
+const EXPIRY_SKEW_MS = 2 * 60 * 1000;
+
+const EVENT_FIELDS = [
+  'id', 'subject', 'bodyPreview', 'location', 'start', 'end', 'isAllDay', 'isCancelled',
+  'showAs', 'sensitivity', 'responseStatus', 'organizer', 'attendees', 'webLink', 'onlineMeeting',
+].join(',');
+
+// Metadata only — message bodies are never requested
+const MESSAGE_FIELDS = [
+  'id', 'conversationId', 'internetMessageId', 'subject', 'from', 'toRecipients',
+  'ccRecipients', 'sentDateTime', 'receivedDateTime', 'isDraft',
+].join(',');
+
+export const MICROSOFT_SCOPES = 'offline_access User.Read Calendars.Read Mail.ReadBasic';
+
+export function microsoftTokenUrl(): string {
+  const tenant = process.env.MICROSOFT_TENANT_ID || 'common';
+  return `https://login.microsoftonline.com/${tenant}/oauth2/v2.0/token`;
+}
+
+export function microsoftAuthorizeUrl(): string {
+  const tenant = process.env.MICROSOFT_TENANT_ID || 'common';
+  return `https://login.microsoftonline.com/${tenant}/oauth2/v2.0/authorize`;
+}
+
+/**
+ * Exchange an authorization code or refresh token for Graph tokens.
+ * Microsoft rotates refresh tokens, so callers must persist the returned one.
+ */
+export async function requestMicrosoftTokens(
+  grant: { code: string; redirectUri: string } | { refreshToken: string }
+): Promise<Microsoft365Credentials> {
+  const clientId = process.env.MICROSOFT_CLIENT_ID;
+  const clientSecret = process.env.MICROSOFT_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('Missing MICROSOFT_CLIENT_ID or MICROSOFT_CLIENT_SECRET environment variables');
+  }
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: MICROSOFT_SCOPES,
+  });
+  if ('code' in grant) {
+    params.set('grant_type', 'authorization_code');
+    params.set('code', grant.code);
+    params.set('redirect_uri', grant.redirectUri);
+  } else {
+    params.set('grant_type', 'refresh_token');
+    params.set('refresh_token', grant.refreshToken);
+  }
+
+  const response = await fetch(microsoftTokenUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString(),
+  });
+  const data: any = await response.json();
+
+  if (!response.ok) {
+    throw new Error(`Microsoft token request failed: ${response.status} - ${data?.error_description || data?.error || 'unknown error'}`);
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token || ('refreshToken' in grant ? grant.refreshToken : ''),
+    expiresAt: Date.now() + (Number(data.expires_in) || 3600) * 1000,
+  };
+}
+
+export class MicrosoftGraphClient {
+  private credentials: Microsoft365Credentials;
+  private onTokenRefresh?: (credentials: Microsoft365Credentials) => Promise<void>;
+
+  constructor(
+    credentials: Microsoft365Credentials,
+    onTokenRefresh?: (credentials: Microsoft365Credentials) => Promise<void>
+  ) {
+    this.credentials = credentials;
+    this.onTokenRefresh = onTokenRefresh;
+  }
+
+  private async refresh(): Promise<void> {
+    this.credentials = await requestMicrosoftTokens({ refreshToken: this.credentials.refreshToken });
+    if (this.onTokenRefresh) await this.onTokenRefresh(this.credentials);
+  }
+
+  private async request<T>(url: string, headers: Record<string, string> = {}, retried = false): Promise<T> {
+    if (this.credentials.expiresAt && this.credentials.expiresAt - EXPIRY_SKEW_MS < Date.now()) {
+      await this.refresh();
+    }
+
+    const response = await fetch(url.startsWith('http') ? url : `${GRAPH_BASE_URL}${url}`, {
+      headers: {
+        'Authorization': `Bearer ${this.credentials.accessToken}`,
+        'Accept': 'application/json',
+        ...headers,
+      },
+    });
+
+    if (response.status === 401 && !retried) {
+      await this.refresh();
+      return this.request<T>(url, headers, true);
+    }
+
+    if (response.status === 429 && !retried) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || 5;
+      await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+      return this.request<T>(url, headers, true);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Microsoft Graph API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  private async paginate<T>(url: string, headers: Record<string, string> = {}): Promise<T[]> {
+    const results: T[] = [];
+    let next: string | undefined = url;
+    let pages = 0;
+
+    while (next && pages < MAX_PAGES) {
+      const page: GraphPage<T> = await this.request<GraphPage<T>>(next, headers);
+      results.push(...(page.value || []));
+      next = page['@odata.nextLink'];
+      pages++;
+    }
+
+    return results;
+  }
+
+  async getMe(): Promise<GraphUser> {
+    return this.request<GraphUser>('/me?$select=id,displayName,mail,userPrincipalName');
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string; accountInfo?: { email: string; name?: string } }> {
+    try {
+      const me = await this.getMe();
+      return { success: true, accountInfo: { email: me.mail || me.userPrincipalName || '', name: me.displayName } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Expanded occurrences (recurring series included) between start and end.
+   * Times come back in UTC via the outlook.timezone preference.
+   */
+  async getCalendarView(start: Date, end: Date): Promise<GraphEvent[]> {
+    const params = new URLSearchParams({
+      startDateTime: start.toISOString(),
+      endDateTime: end.toISOString(),
+      $select: EVENT_FIELDS,
+      $top: String(PAGE_SIZE),
+    });
+    return this.paginate<GraphEvent>(`/me/calendarView?${params.toString()}`, {
+      Prefer: 'outlook.timezone="UTC"',
+    });
+  }
+
+  /**
+   * Sent and received message metadata across all mail folders since the given time.
+   */
+  async getMessagesSince(since: Date): Promise<GraphMessage[]> {
+    const params = new URLSearchParams({
+      $select: MESSAGE_FIELDS,
+      $filter: `receivedDateTime ge ${since.toISOString()} and isDraft eq false`,
+      $orderby: 'receivedDateTime desc',
+      $top: String(PAGE_SIZE),
+    });
+    return this.paginate<GraphMessage>(`/me/messages?${params.toString()}`);
+  }
+}
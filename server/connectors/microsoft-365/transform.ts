@@ -0,0 +1,170 @@
+import type { GraphDateTimeZone, GraphEvent, GraphMessage, GraphRecipient } from './types.js';
+
+/** calendar_events row shape, matching what the Google Calendar adapter stores */
+export interface CalendarEventRow {
+  external_id: string;
+  title: string | null;
+  description: string | null;
+  location: string | null;
+  start_time: string;
+  end_time: string;
+  is_all_day: boolean;
+  timezone: string | null;
+  attendees: Array<{ email: string; displayName: string | null; responseStatus: string; self: boolean; organizer: boolean }>;
+  organizer_email: string | null;
+  status: string;
+  visibility: string;
+  html_link: string | null;
+  meet_link: string | null;
+}
+
+export interface EmailActivityRow {
+  source_id: string;
+  timestamp: string;
+  actor: string | null;
+  subject: string | null;
+  direction: 'inbound' | 'outbound';
+  source_data: {
+    thread_id: string | null;
+    message_id: string;
+    from: string | null;
+    to: string[];
+    cc: string[];
+    mailbox: string;
+    participants: string[];
+  };
+}
+
+// Graph response values mapped onto Google's responseStatus vocabulary
+const RESPONSE_STATUS: Record<string, string> = {
+  organizer: 'accepted',
+  accepted: 'accepted',
+  tentativelyAccepted: 'tentative',
+  declined: 'declined',
+  none: 'needsAction',
+  notResponded: 'needsAction',
+};
+
+function addressOf(recipient: GraphRecipient | undefined): string | null {
+  const address = recipient?.emailAddress?.address?.trim().toLowerCase();
+  return address || null;
+}
+
+function domainOf(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1);
+}
+
+/**
+ * Graph returns local date-times without an offset; with the UTC
+ * outlook.timezone preference they are UTC and need the Z suffix.
+ */
+export function graphDateToIso(value: GraphDateTimeZone | undefined): string | null {
+  if (!value?.dateTime) return null;
+  const hasOffset = /(Z|[+-]\d{2}:\d{2})$/.test(value.dateTime);
+  if (hasOffset || value.timeZone !== 'UTC') return value.dateTime;
+  return `${value.dateTime}Z`;
+}
+
+/**
+ * Map a Graph event to a calendar_events row. Returns null for cancelled
+ * events and events the mailbox owner declined, mirroring the Google filter.
+ */
+export function transformGraphEvent(event: GraphEvent, mailbox: string): CalendarEventRow | null {
+  if (event.isCancelled) return null;
+  if (event.responseStatus?.response === 'declined') return null;
+
+  const start = graphDateToIso(event.start);
+  const end = graphDateToIso(event.end) ?? start;
+  if (!start || !end) return null;
+
+  const self = mailbox.toLowerCase();
+  const organizerEmail = addressOf(event.organizer);
+  const attendees: CalendarEventRow['attendees'] = [];
+  const seen = new Set<string>();
+
+  // Graph lists the organizer separately; Google includes them as an attendee
+  if (organizerEmail) {
+    attendees.push({
+      email: organizerEmail,
+      displayName: event.organizer?.emailAddress?.name || null,
+      responseStatus: 'accepted',
+      self: organizerEmail === self,
+      organizer: true,
+    });
+    seen.add(organizerEmail);
+  }
+
+  for (const attendee of event.attendees || []) {
+    const email = addressOf(attendee);
+    if (!email || seen.has(email) || attendee.type === 'resource') continue;
+    seen.add(email);
+    attendees.push({
+      email,
+      displayName: attendee.emailAddress?.name || null,
+      responseStatus: RESPONSE_STATUS[attendee.status?.response || 'none'] || 'needsAction',
+      self: email === self,
+      organizer: false,
+    });
+  }
+
+  const isPrivate = event.sensitivity === 'private' || event.sensitivity === 'confidential';
+
+  return {
+    external_id: event.id,
+    title: event.subject || null,
+    description: event.bodyPreview || null,
+    location: event.location?.displayName || null,
+    start_time: start,
+    end_time: end,
+    is_all_day: !!event.isAllDay,
+    timezone: event.start?.timeZone || null,
+    attendees,
+    organizer_email: organizerEmail,
+    status: event.responseStatus?.response === 'tentativelyAccepted' ? 'tentative' : 'confirmed',
+    visibility: isPrivate ? 'private' : 'default',
+    html_link: event.webLink || null,
+    meet_link: event.onlineMeeting?.joinUrl || null,
+  };
+}
+
+/**
+ * Map a Graph message to an email activity (metadata only — no body).
+ * Returns null for purely internal mail: every participant shares the
+ * mailbox's domain, so there is no customer to link it to.
+ */
+export function transformGraphMessage(message: GraphMessage, mailbox: string): EmailActivityRow | null {
+  const self = mailbox.toLowerCase();
+  const from = addressOf(message.from);
+  const to = (message.toRecipients || []).map(addressOf).filter((a): a is string => !!a);
+  const cc = (message.ccRecipients || []).map(addressOf).filter((a): a is string => !!a);
+
+  const internalDomain = domainOf(self);
+  const participants = [...new Set([from, ...to, ...cc])]
+    .filter((a): a is string => !!a && a !== self);
+  if (!participants.some(a => domainOf(a) !== internalDomain)) return null;
+
+  const outbound = from === self;
+  const timestamp = (outbound ? message.sentDateTime : message.receivedDateTime)
+    || message.receivedDateTime || message.sentDateTime;
+  if (!timestamp) return null;
+
+  // Graph ids change when a message moves folders; the RFC 822 id doesn't
+  const messageId = message.internetMessageId || message.id;
+
+  return {
+    source_id: messageId,
+    timestamp,
+    actor: from,
+    subject: message.subject || null,
+    direction: outbound ? 'outbound' : 'inbound',
+    source_data: {
+      thread_id: message.conversationId || null,
+      message_id: messageId,
+      from,
+      to,
+      cc,
+      mailbox: self,
+      participants,
+    },
+  };
+}
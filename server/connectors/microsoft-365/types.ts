@@ -0,0 +1,69 @@
+export interface GraphEmailAddress {
+  name?: string;
+  address?: string;
+}
+
+export interface GraphRecipient {
+  emailAddress?: GraphEmailAddress;
+}
+
+export interface GraphAttendee extends GraphRecipient {
+  type?: 'required' | 'optional' | 'resource';
+  status?: {
+    response?: 'none' | 'organizer' | 'tentativelyAccepted' | 'accepted' | 'declined' | 'notResponded';
+  };
+}
+
+export interface GraphDateTimeZone {
+  dateTime: string;
+  timeZone: string;
+}
+
+export interface GraphEvent {
+  id: string;
+  subject?: string | null;
+  bodyPreview?: string | null;
+  location?: { displayName?: string } | null;
+  start?: GraphDateTimeZone;
+  end?: GraphDateTimeZone;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: string;
+  sensitivity?: 'normal' | 'personal' | 'private' | 'confidential';
+  responseStatus?: { response?: string };
+  organizer?: GraphRecipient;
+  attendees?: GraphAttendee[];
+  webLink?: string | null;
+  onlineMeeting?: { joinUrl?: string } | null;
+}
+
+export interface GraphMessage {
+  id: string;
+  conversationId?: string;
+  internetMessageId?: string;
+  subject?: string | null;
+  from?: GraphRecipient;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  sentDateTime?: string;
+  receivedDateTime?: string;
+  isDraft?: boolean;
+}
+
+export interface GraphUser {
+  id: string;
+  displayName?: string;
+  mail?: string | null;
+  userPrincipalName?: string;
+}
+
+export interface GraphPage<T> {
+  value: T[];
+  '@odata.nextLink'?: string;
+}
+
+export interface Microsoft365Credentials {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt?: number;
+}
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for Pipedrive transform.ts
+ *
+ * Tests deal normalization (won/lost handling, forecast derivation, custom
+ * field re-keying) and deal flow → stage history reconstruction.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  transformDeal,
+  transformDealFlowToStageChanges,
+  extractCustomFields,
+} from '../transform.js';
+import type { PipedriveDeal, PipedriveFlowItem, PipedriveSyncContext } from '../types.js';
+
+vi.mock('../../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  }),
+}));
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+function makeContext(): PipedriveSyncContext {
+  return {
+    stages: new Map([
+      [1, { id: 1, name: 'Qualified', pipeline_id: 10, order_nr: 1, deal_probability: 20, active_flag: true }],
+      [2, { id: 2, name: 'Proposal Made', pipeline_id: 10, order_nr: 2, deal_probability: 70, active_flag: true }],
+      [3, { id: 3, name: 'Negotiations Started', pipeline_id: 10, order_nr: 3, deal_probability: 95, active_flag: true }],
+    ]),
+    pipelines: new Map([[10, { id: 10, name: 'Sales', order_nr: 1, active: true, deal_probability: true }]]),
+    users: new Map([[7, { id: 7, name: 'Jordan Lee', email: 'Jordan@Acme.io', active_flag: true }]]),
+    dealFields: new Map([
+      ['a1b2c3', { id: 1, key: 'a1b2c3', name: 'Deal Type', field_type: 'enum', edit_flag: true, options: [{ id: 5, label: 'New Business' }] }],
+      ['d4e5f6', { id: 2, key: 'd4e5f6', name: 'Competitors', field_type: 'set', edit_flag: true, options: [{ id: 1, label: 'Acme' }, { id: 2, label: 'Globex' }] }],
+      ['title', { id: 3, key: 'title', name: 'Title', field_type: 'varchar', edit_flag: false }],
+    ]),
+    personFields: new Map(),
+    organizationFields: new Map(),
+  };
+}
+
+function makeDeal(overrides: Partial<PipedriveDeal> = {}): PipedriveDeal {
+  return {
+    id: 42,
+    title: 'Acme expansion',
+    value: 50000,
+    currency: 'USD',
+    status: 'open',
+    stage_id: 2,
+    pipeline_id: 10,
+    probability: null,
+    expected_close_date: '2026-12-15',
+    close_time: null,
+    won_time: null,
+    lost_time: null,
+    lost_reason: null,
+    add_time: '2026-01-05 09:30:00',
+    update_time: '2026-03-01 12:00:00',
+    stage_change_time: '2026-02-01 10:00:00',
+    last_activity_date: '2026-02-20',
+    next_activity_date: null,
+    user_id: { id: 7, value: 7, name: 'Jordan Lee', email: 'Jordan@Acme.io' },
+    person_id: { value: 100, name: 'Pat Doe' },
+    org_id: { value: 200, name: 'Acme' },
+    a1b2c3: '5',
+    d4e5f6: '1,2',
+    ...overrides,
+  };
+}
+
+function flowItem(field_key: string, old_value: string | null, new_value: string, log_time: string): PipedriveFlowItem {
+  return {
+    object: 'dealChange',
+    timestamp: log_time,
+    data: { id: 1, item_id: 42, user_id: 7, field_key, old_value, new_value, log_time },
+  };
+}
+
+// ─── transformDeal ────────────────────────────────────────────────────────────
+
+describe('transformDeal', () => {
+  it('maps an open deal using stage probability and owner lookup', () => {
+    const deal = transformDeal(makeDeal(), 'ws-1', makeContext());
+
+    expect(deal.source).toBe('pipedrive');
+    expect(deal.source_id).toBe('42');
+    expect(deal.stage).toBe('Proposal Made');
+    expect(deal.pipeline).toBe('Sales');
+    expect(deal.probability).toBe(70);
+    expect(deal.forecast_category).toBe('best_case');
+    expect(deal.close_date).toBe('2026-12-15');
+    expect(deal.owner).toBe('Jordan Lee');
+    expect(deal.owner_email).toBe('jordan@acme.io');
+    expect(deal.account_source_id).toBe('200');
+    expect(deal.contact_source_ids).toEqual(['100']);
+    expect(deal.source_created_at).toBe('2026-01-05T09:30:00.000Z');
+  });
+
+  it('treats won status as closed_won regardless of parked stage', () => {
+    const deal = transformDeal(
+      makeDeal({ status: 'won', won_time: '2026-03-10 16:00:00' }),
+      'ws-1',
+      makeContext()
+    );
+
+    expect(deal.stage).toBe('Proposal Made');
+    expect(deal.stage_normalized).toBe('closed_won');
+    expect(deal.forecast_category).toBe('closed');
+    expect(deal.close_date).toBe('2026-03-10');
+  });
+
+  it('keeps lost reason in custom fields', () => {
+    const deal = transformDeal(
+      makeDeal({ status: 'lost', lost_time: '2026-03-11 08:00:00', lost_reason: 'Budget' }),
+      'ws-1',
+      makeContext()
+    );
+
+    expect(deal.stage_normalized).toBe('closed_lost');
+    expect(deal.forecast_category).toBe('not_forecasted');
+    expect(deal.custom_fields.lost_reason).toBe('Budget');
+    expect(deal.custom_fields.status).toBe('lost');
+  });
+
+  it('honours workspace forecast thresholds', () => {
+    const deal = transformDeal(makeDeal(), 'ws-1', makeContext(), {
+      forecastThresholds: { commit_threshold: 0.65, best_case_threshold: 0.4 },
+    });
+
+    expect(deal.forecast_category).toBe('commit');
+  });
+});
+
+// ─── extractCustomFields ──────────────────────────────────────────────────────
+
+describe('extractCustomFields', () => {
+  it('re-keys hash keys by field name and resolves option labels', () => {
+    const custom = extractCustomFields(makeDeal(), makeContext().dealFields);
+
+    expect(custom).toEqual({
+      deal_type: 'New Business',
+      competitors: ['Acme', 'Globex'],
+    });
+  });
+});
+
+// ─── transformDealFlowToStageChanges ──────────────────────────────────────────
+
+describe('transformDealFlowToStageChanges', () => {
+  it('builds ordered transitions with durations from stage changes', () => {
+    const flow = [
+      flowItem('stage_id', '2', '3', '2026-02-10 00:00:00'),
+      flowItem('stage_id', '1', '2', '2026-02-01 00:00:00'),
+    ];
+
+    const changes = transformDealFlowToStageChanges(flow, 'deal-uuid', '42', 'ws-1', makeContext());
+
+    expect(changes).toHaveLength(2);
+    expect(changes[0].fromStage).toBe('Qualified');
+    expect(changes[0].toStage).toBe('Proposal Made');
+    expect(changes[0].durationMs).toBeNull();
+    expect(changes[1].fromStage).toBe('Proposal Made');
+    expect(changes[1].toStage).toBe('Negotiations Started');
+    expect(changes[1].durationMs).toBe(9 * 24 * 60 * 60 * 1000);
+  });
+
+  it('emits closed transitions for won/lost status and returns on reopen', () => {
+    const flow = [
+      flowItem('stage_id', '1', '2', '2026-02-01 00:00:00'),
+      flowItem('status', 'open', 'lost', '2026-02-05 00:00:00'),
+      flowItem('status', 'lost', 'open', '2026-02-06 00:00:00'),
+      flowItem('status', 'open', 'won', '2026-02-20 00:00:00'),
+    ];
+
+    const changes = transformDealFlowToStageChanges(flow, 'deal-uuid', '42', 'ws-1', makeContext());
+
+    expect(changes.map(c => c.toStage)).toEqual(['Proposal Made', 'Closed Lost', 'Proposal Made', 'Closed Won']);
+    expect(changes[1].toStageNormalized).toBe('closed_lost');
+    expect(changes[3].toStageNormalized).toBe('closed_won');
+    expect(changes[3].fromStage).toBe('Proposal Made');
+  });
+
+  it('ignores non-stage fields and other flow objects', () => {
+    const flow: PipedriveFlowItem[] = [
+      flowItem('value', '100', '200', '2026-02-01 00:00:00'),
+      { ...flowItem('stage_id', '1', '2', '2026-02-02 00:00:00'), object: 'activity' },
+    ];
+
+    expect(transformDealFlowToStageChanges(flow, 'deal-uuid', '42', 'ws-1', makeContext())).toEqual([]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Pipedrive CRM Adapter
+ *
+ * Implements CRMAdapter interface for Pipedrive integration.
+ * Sync persists deals/contacts/accounts and stage history directly (see sync.ts);
+ * the returned SyncResults are for reporting only.
+ */
+
+import { PipedriveClient } from './client.js';
+import {
+  transformDeal,
+  transformPerson,
+  transformOrganization,
+  type NormalizedDeal,
+  type NormalizedContact,
+  type NormalizedAccount,
+} from './transform.js';
+import { initialSync, incrementalSync, type PipedriveSyncOutput } from './sync.js';
+import type { PipedriveCredentials, PipedriveField, PipedriveSyncContext } from './types.js';
+import type { CRMAdapter, SyncResult } from '../adapters/types.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('Pipedrive');
+
+const EMPTY_CONTEXT: PipedriveSyncContext = {
+  stages: new Map(),
+  pipelines: new Map(),
+  users: new Map(),
+  dealFields: new Map(),
+  personFields: new Map(),
+  organizationFields: new Map(),
+};
+
+// ============================================================================
+// Pipedrive Adapter Implementation
+// ============================================================================
+
+export class PipedriveAdapter implements CRMAdapter {
+  readonly sourceType = 'pipedrive';
+  readonly category = 'crm' as const;
+
+  // ==========================================================================
+  // Connection Test
+  // ==========================================================================
+
+  async testConnection(credentials: Record<string, any>): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const client = this.createClient(credentials);
+      const result = await client.testConnection();
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      logger.info('[Pipedrive Adapter] Connection test successful', {
+        company: result.user?.company_name,
+        user: result.user?.email,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error('[Pipedrive Adapter] Connection test failed', { error });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ==========================================================================
+  // Health Check
+  // ==========================================================================
+
+  async health(credentials: Record<string, any>): Promise<{
+    healthy: boolean;
+    details?: Record<string, any>;
+  }> {
+    try {
+      const client = this.createClient(credentials);
+      const result = await client.testConnection();
+
+      return {
+        healthy: result.success,
+        details: {
+          connected: result.success,
+          companyName: result.user?.company_name ?? null,
+          companyDomain: result.user?.company_domain ?? null,
+          authMethod: credentials.accessToken ? 'oauth' : 'api_key',
+          error: result.error,
+        },
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  // ==========================================================================
+  // Schema Discovery
+  // ==========================================================================
+
+  async discoverSchema(credentials: Record<string, any>): Promise<{
+    customFields: Array<{
+      key: string;
+      label: string;
+      type: 'string' | 'number' | 'date' | 'boolean' | 'array';
+      category: 'deal' | 'contact' | 'account';
+    }>;
+  }> {
+    try {
+      const client = this.createClient(credentials);
+
+      const [dealFields, personFields, organizationFields] = await Promise.all([
+        client.getDealFields(),
+        client.getPersonFields(),
+        client.getOrganizationFields(),
+      ]);
+
+      const toCustomFields = (fields: PipedriveField[], category: 'deal' | 'contact' | 'account') =>
+        fields
+          .filter(f => f.edit_flag)
+          .map(f => ({
+            key: f.key,
+            label: f.name,
+            type: this.mapFieldType(f.field_type),
+            category,
+          }));
+
+      const customFields = [
+        ...toCustomFields(dealFields, 'deal'),
+        ...toCustomFields(personFields, 'contact'),
+        ...toCustomFields(organizationFields, 'account'),
+      ];
+
+      logger.info('[Pipedrive Adapter] Schema discovered', {
+        dealFields: dealFields.length,
+        customDealFields: customFields.filter(f => f.category === 'deal').length,
+      });
+
+      return { customFields };
+    } catch (error) {
+      logger.error('[Pipedrive Adapter] Schema discovery failed', { error });
+      return { customFields: [] };
+    }
+  }
+
+  // ==========================================================================
+  // Sync
+  // ==========================================================================
+
+  async initialSync(
+    credentials: Record<string, any>,
+    workspaceId: string,
+    options?: Record<string, any>
+  ): Promise<{
+    deals?: SyncResult<NormalizedDeal>;
+    contacts?: SyncResult<NormalizedContact>;
+    accounts?: SyncResult<NormalizedAccount>;
+  }> {
+    const client = this.createClient(credentials);
+    const result = await initialSync(client, workspaceId);
+    return this.toSyncResults(result);
+  }
+
+  async incrementalSync(
+    credentials: Record<string, any>,
+    workspaceId: string,
+    lastSyncTime: Date,
+    options?: Record<string, any>
+  ): Promise<{
+    deals?: SyncResult<NormalizedDeal>;
+    contacts?: SyncResult<NormalizedContact>;
+    accounts?: SyncResult<NormalizedAccount>;
+  }> {
+    const client = this.createClient(credentials);
+    const result = await incrementalSync(client, workspaceId, lastSyncTime);
+    return this.toSyncResults(result);
+  }
+
+  // ==========================================================================
+  // Transform Methods (CRMAdapter interface)
+  // ==========================================================================
+
+  transformDeal(raw: any, workspaceId: string, options?: any): NormalizedDeal {
+    return transformDeal(raw, workspaceId, options?.context ?? EMPTY_CONTEXT, options);
+  }
+
+  transformContact(raw: any, workspaceId: string, options?: any): NormalizedContact {
+    return transformPerson(raw, workspaceId, options?.context ?? EMPTY_CONTEXT);
+  }
+
+  transformAccount(raw: any, workspaceId: string, options?: any): NormalizedAccount {
+    return transformOrganization(raw, workspaceId, options?.context ?? EMPTY_CONTEXT);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private createClient(credentials: Record<string, any>): PipedriveClient {
+    return new PipedriveClient(credentials as PipedriveCredentials);
+  }
+
+  private toSyncResults(result: PipedriveSyncOutput): {
+    deals: SyncResult<NormalizedDeal>;
+    contacts: SyncResult<NormalizedContact>;
+    accounts: SyncResult<NormalizedAccount>;
+  } {
+    if (result.errors.length > 0) {
+      logger.warn('[Pipedrive Adapter] Sync completed with errors', {
+        errors: result.errors.slice(0, 10),
+        total: result.errors.length,
+      });
+    }
+
+    return {
+      deals: {
+        succeeded: result.deals,
+        failed: result.failed.deals.map(f => ({ record: f.record, error: f.error, recordId: f.recordId })),
+        totalAttempted: result.deals.length + result.failed.deals.length,
+      },
+      contacts: {
+        succeeded: result.contacts,
+        failed: result.failed.contacts.map(f => ({ record: f.record, error: f.error, recordId: f.recordId })),
+        totalAttempted: result.contacts.length + result.failed.contacts.length,
+      },
+      accounts: {
+        succeeded: result.accounts,
+        failed: result.failed.accounts.map(f => ({ record: f.record, error: f.error, recordId: f.recordId })),
+        totalAttempted: result.accounts.length + result.failed.accounts.length,
+      },
+    };
+  }
+
+  private mapFieldType(fieldType: string): 'string' | 'number' | 'date' | 'boolean' | 'array' {
+    switch (fieldType) {
+      case 'double':
+      case 'int':
+      case 'monetary':
+        return 'number';
+      case 'date':
+      case 'daterange':
+        return 'date';
+      case 'set':
+        return 'array';
+      default:
+        return 'string';
+    }
+  }
+}
+
+export const pipedriveAdapter = new PipedriveAdapter();
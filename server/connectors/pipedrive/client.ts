@@ -0,0 +1,238 @@
+/**
+ * Pipedrive API Client
+ *
+ * Pure API client for the Pipedrive REST API v1.
+ *
+ * API Documentation: https://developers.pipedrive.com/docs/api/v1
+ *
+ * Key Patterns:
+ * - Offset pagination via additional_data.pagination (start / next_start)
+ * - List endpoints accept sort=update_time DESC, which is how incremental
+ *   sync walks changes: page until update_time drops below the watermark
+ * - All timestamps are UTC strings in "YYYY-MM-DD HH:MM:SS" format
+ */
+
+import { RateLimiter } from '../../utils/retry.js';
+import type {
+  PipedriveCredentials,
+  PipedriveDeal,
+  PipedrivePerson,
+  PipedriveOrganization,
+  PipedriveStage,
+  PipedrivePipeline,
+  PipedriveUser,
+  PipedriveField,
+  PipedriveFlowItem,
+  PipedriveResponse,
+} from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.pipedrive.com';
+const PAGE_SIZE = 500;
+const MAX_PAGES = 200;
+
+export class PipedriveAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipedriveAuthError';
+  }
+}
+
+/**
+ * Convert a Pipedrive UTC timestamp ("2024-03-01 14:05:00") to a Date.
+ */
+export function parsePipedriveTime(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const iso = value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export class PipedriveClient {
+  private rateLimiter = new RateLimiter(80, 2_000); // Pipedrive burst limit: 80 requests / 2s per token
+
+  constructor(private credentials: PipedriveCredentials) {
+    if (!credentials.apiToken && !credentials.accessToken) {
+      throw new PipedriveAuthError('Pipedrive requires apiToken or accessToken');
+    }
+  }
+
+  private get baseUrl(): string {
+    if (this.credentials.accessToken && this.credentials.apiDomain) {
+      return this.credentials.apiDomain.replace(/\/$/, '');
+    }
+    return DEFAULT_BASE_URL;
+  }
+
+  private async request<T>(
+    path: string,
+    params: Record<string, string | number | undefined> = {},
+    attempt = 1,
+    maxAttempts = 3
+  ): Promise<PipedriveResponse<T>> {
+    const url = new URL(`${this.baseUrl}/api/v1${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.credentials.accessToken) {
+      headers.Authorization = `Bearer ${this.credentials.accessToken}`;
+    } else if (this.credentials.apiToken) {
+      url.searchParams.set('api_token', this.credentials.apiToken);
+    }
+
+    return this.rateLimiter.execute(async () => {
+      const response = await fetch(url.toString(), { headers });
+
+      if (response.status === 429 && attempt < maxAttempts) {
+        const retryAfter = response.headers.get('Retry-After');
+        const delayMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : Math.pow(2, attempt) * 1000;
+        console.warn(`[Pipedrive Client] Rate limited (429), retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        return this.request<T>(path, params, attempt + 1, maxAttempts);
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new PipedriveAuthError(`Pipedrive authentication failed (${response.status})`);
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`Pipedrive HTTP error: ${response.status} ${response.statusText} ${body.slice(0, 200)}`);
+      }
+
+      const json = await response.json() as PipedriveResponse<T>;
+      if (!json.success) {
+        throw new Error(`Pipedrive API error: ${json.error || 'unknown error'}`);
+      }
+      return json;
+    });
+  }
+
+  /**
+   * Walk an offset-paginated list endpoint.
+   * If `stopWhen` returns true for an item, pagination stops after the current page
+   * and that item (and anything after it) is discarded.
+   */
+  private async paginate<T>(
+    path: string,
+    params: Record<string, string | number | undefined> = {},
+    stopWhen?: (item: T) => boolean
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let start = 0;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await this.request<T[] | null>(path, { ...params, start, limit: PAGE_SIZE });
+      const items = response.data || [];
+
+      for (const item of items) {
+        if (stopWhen && stopWhen(item)) {
+          return results;
+        }
+        results.push(item);
+      }
+
+      const pagination = response.additional_data?.pagination;
+      if (!pagination?.more_items_in_collection || pagination.next_start === undefined) {
+        break;
+      }
+      start = pagination.next_start;
+    }
+
+    return results;
+  }
+
+  private async paginateSince<T extends { update_time: string }>(
+    path: string,
+    since?: Date,
+    params: Record<string, string | number | undefined> = {}
+  ): Promise<T[]> {
+    if (!since) {
+      return this.paginate<T>(path, params);
+    }
+    return this.paginate<T>(path, { ...params, sort: 'update_time DESC' }, (item) => {
+      const updated = parsePipedriveTime(item.update_time);
+      return updated !== null && updated < since;
+    });
+  }
+
+  // ==========================================================================
+  // Connection
+  // ==========================================================================
+
+  async testConnection(): Promise<{ success: boolean; error?: string; user?: PipedriveUser }> {
+    try {
+      const response = await this.request<PipedriveUser>('/users/me');
+      return { success: true, user: response.data };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ==========================================================================
+  // Metadata
+  // ==========================================================================
+
+  async getUsers(): Promise<PipedriveUser[]> {
+    const response = await this.request<PipedriveUser[] | null>('/users');
+    return response.data || [];
+  }
+
+  async getPipelines(): Promise<PipedrivePipeline[]> {
+    const response = await this.request<PipedrivePipeline[] | null>('/pipelines');
+    return response.data || [];
+  }
+
+  async getStages(): Promise<PipedriveStage[]> {
+    const response = await this.request<PipedriveStage[] | null>('/stages');
+    return response.data || [];
+  }
+
+  async getDealFields(): Promise<PipedriveField[]> {
+    return this.paginate<PipedriveField>('/dealFields');
+  }
+
+  async getPersonFields(): Promise<PipedriveField[]> {
+    return this.paginate<PipedriveField>('/personFields');
+  }
+
+  async getOrganizationFields(): Promise<PipedriveField[]> {
+    return this.paginate<PipedriveField>('/organizationFields');
+  }
+
+  // ==========================================================================
+  // Records
+  // ==========================================================================
+
+  /**
+   * Fetch deals. With `since`, only deals updated at or after the watermark.
+   * status=all_not_deleted keeps won/lost deals in scope for win-rate skills.
+   */
+  async getDeals(since?: Date): Promise<PipedriveDeal[]> {
+    return this.paginateSince<PipedriveDeal>('/deals', since, { status: 'all_not_deleted' });
+  }
+
+  async getPersons(since?: Date): Promise<PipedrivePerson[]> {
+    return this.paginateSince<PipedrivePerson>('/persons', since);
+  }
+
+  async getOrganizations(since?: Date): Promise<PipedriveOrganization[]> {
+    return this.paginateSince<PipedriveOrganization>('/organizations', since);
+  }
+
+  async getDeal(dealId: number | string): Promise<PipedriveDeal | null> {
+    const response = await this.request<PipedriveDeal | null>(`/deals/${dealId}`);
+    return response.data;
+  }
+
+  /**
+   * Fetch a deal's change log. Used to reconstruct stage history.
+   */
+  async getDealFlow(dealId: number): Promise<PipedriveFlowItem[]> {
+    return this.paginate<PipedriveFlowItem>(`/deals/${dealId}/flow`, { items: 'dealChange' });
+  }
+}
@@ -0,0 +1,607 @@
+import { query, getClient } from '../../db.js';
+import { PipedriveClient, parsePipedriveTime } from './client.js';
+import {
+  transformDeal,
+  transformPerson,
+  transformOrganization,
+  transformDealFlowToStageChanges,
+  type NormalizedDeal,
+  type NormalizedContact,
+  type NormalizedAccount,
+  type DealTransformOptions,
+} from './transform.js';
+import type { PipedriveSyncContext } from './types.js';
+import type { SyncResult } from '../_interface.js';
+import { transformWithErrorCapture } from '../../utils/sync-helpers.js';
+import { recordStageChanges, updateDealStageCache, type StageChange } from '../hubspot/stage-tracker.js';
+import { getStageMapping } from '../../config/index.js';
+import { computeFields } from '../../computed-fields/engine.js';
+import { inferAnalysisScopes, applyInferredScopes } from '../../config/scope-inference.js';
+import { stampAllDealsForWorkspace, stampDealScopes } from '../../config/scope-stamper.js';
+import { autoConfigurePipelineDefaults } from '../../chat/pipeline-resolver.js';
+import { applyDealCurrency } from '../../currency/fx-rates.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('PipedriveSync');
+
+const BATCH_SIZE = 500;
+const SOURCE = 'pipedrive';
+
+export interface PipedriveSyncOutput extends SyncResult {
+  deals: NormalizedDeal[];
+  contacts: NormalizedContact[];
+  accounts: NormalizedAccount[];
+  failed: {
+    deals: Array<{ record: unknown; error: string; recordId?: string }>;
+    contacts: Array<{ record: unknown; error: string; recordId?: string }>;
+    accounts: Array<{ record: unknown; error: string; recordId?: string }>;
+  };
+  stageTransitions: number;
+}
+
+// ============================================================================
+// Sync Context
+// ============================================================================
+
+/**
+ * Fetch stages, pipelines, users and field metadata once per sync.
+ * Stages are also written to stage_configs so pipeline/stage ordering is
+ * available to skills the same way it is for HubSpot.
+ */
+export async function buildSyncContext(
+  client: PipedriveClient,
+  workspaceId: string | null
+): Promise<PipedriveSyncContext> {
+  const [stages, pipelines, users, dealFields, personFields, organizationFields] = await Promise.all([
+    client.getStages(),
+    client.getPipelines(),
+    client.getUsers().catch(err => {
+      logger.warn('Failed to fetch users, owners will be unresolved', { error: err instanceof Error ? err.message : err });
+      return [];
+    }),
+    client.getDealFields(),
+    client.getPersonFields(),
+    client.getOrganizationFields(),
+  ]);
+
+  const context: PipedriveSyncContext = {
+    stages: new Map(stages.map(s => [s.id, s])),
+    pipelines: new Map(pipelines.map(p => [p.id, p])),
+    users: new Map(users.map(u => [u.id, u])),
+    dealFields: new Map(dealFields.map(f => [f.key, f])),
+    personFields: new Map(personFields.map(f => [f.key, f])),
+    organizationFields: new Map(organizationFields.map(f => [f.key, f])),
+  };
+
+  if (workspaceId) {
+    await Promise.all(stages.map(stage => {
+      const pipelineName = context.pipelines.get(stage.pipeline_id)?.name ?? 'default';
+      return query(
+        `INSERT INTO stage_configs (workspace_id, pipeline_name, stage_name, display_order, stage_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (workspace_id, pipeline_name, stage_name) DO UPDATE SET
+           display_order = EXCLUDED.display_order,
+           stage_id = EXCLUDED.stage_id,
+           updated_at = NOW()`,
+        [workspaceId, pipelineName, stage.name, stage.order_nr, String(stage.id)]
+      ).catch(err => {
+        logger.warn('Failed to upsert stage_config', { error: err instanceof Error ? err.message : err });
+      });
+    }));
+  }
+
+  logger.info('Built sync context', {
+    stages: context.stages.size,
+    pipelines: context.pipelines.size,
+    users: context.users.size,
+    customDealFields: dealFields.filter(f => f.edit_flag).length,
+  });
+
+  return context;
+}
+
+async function getDealTransformOptions(workspaceId: string): Promise<DealTransformOptions> {
+  const options: DealTransformOptions = {
+    customStageMapping: await getStageMapping(workspaceId),
+  };
+
+  try {
+    const result = await query<{ commit_threshold: number; best_case_threshold: number }>(
+      `SELECT commit_threshold, best_case_threshold FROM forecast_thresholds WHERE workspace_id = $1`,
+      [workspaceId]
+    );
+    const row = result.rows[0];
+    if (row) {
+      options.forecastThresholds = {
+        commit_threshold: row.commit_threshold > 1 ? row.commit_threshold / 100 : row.commit_threshold,
+        best_case_threshold: row.best_case_threshold > 1 ? row.best_case_threshold / 100 : row.best_case_threshold,
+      };
+    }
+  } catch (err) {
+    logger.warn('Failed to fetch forecast thresholds', { error: err instanceof Error ? err.message : err });
+  }
+
+  return options;
+}
+
+// ============================================================================
+// Upserts
+// ============================================================================
+
+async function upsertInBatches<T>(
+  items: T[],
+  upsertFn: (batch: T[]) => Promise<number>
+): Promise<number> {
+  let stored = 0;
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    stored += await upsertFn(items.slice(i, i + BATCH_SIZE));
+  }
+  return stored;
+}
+
+export async function upsertDeals(deals: NormalizedDeal[]): Promise<number> {
+  return upsertInBatches(deals, async (batch) => {
+    if (batch.length === 0) return 0;
+
+    const currencyValues = await applyDealCurrency(batch[0].workspace_id, batch);
+
+    const client = await getClient();
+    let stored = 0;
+    try {
+      await client.query('BEGIN');
+
+      for (let i = 0; i < batch.length; i++) {
+        const deal = batch[i];
+        const fx = currencyValues[i];
+        await client.query(
+          `INSERT INTO deals (
+            workspace_id, source, source_id, source_data,
+            name, amount, stage, stage_normalized, close_date, owner, owner_email,
+            probability, forecast_category, forecast_category_source, pipeline,
+            last_activity_date, custom_fields, next_steps, lead_source, created_at, updated_at,
+            currency_code, amount_original, fx_rate
+          ) VALUES (
+            $1, $2, $3, $4,
+            $5, $6, $7, $8, $9, $10, $11,
+            $12, $13, $14, $15,
+            $16, $17, $18, $19, COALESCE($20::timestamptz, NOW()), NOW(),
+            $21, $22, $23
+          )
+          ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+            source_data = EXCLUDED.source_data,
+            name = EXCLUDED.name,
+            amount = EXCLUDED.amount,
+            currency_code = EXCLUDED.currency_code,
+            amount_original = EXCLUDED.amount_original,
+            fx_rate = EXCLUDED.fx_rate,
+            stage = EXCLUDED.stage,
+            stage_normalized = EXCLUDED.stage_normalized,
+            close_date = EXCLUDED.close_date,
+            owner = EXCLUDED.owner,
+            owner_email = EXCLUDED.owner_email,
+            probability = EXCLUDED.probability,
+            forecast_category = EXCLUDED.forecast_category,
+            forecast_category_source = EXCLUDED.forecast_category_source,
+            pipeline = EXCLUDED.pipeline,
+            last_activity_date = EXCLUDED.last_activity_date,
+            custom_fields = EXCLUDED.custom_fields,
+            next_steps = EXCLUDED.next_steps,
+            lead_source = EXCLUDED.lead_source,
+            updated_at = NOW()`,
+          [
+            deal.workspace_id, deal.source, deal.source_id, JSON.stringify(deal.source_data),
+            deal.name, fx.amount, deal.stage, deal.stage_normalized, deal.close_date, deal.owner, deal.owner_email,
+            deal.probability, deal.forecast_category, deal.forecast_category_source, deal.pipeline,
+            deal.last_activity_date, JSON.stringify(deal.custom_fields), deal.next_steps, deal.lead_source,
+            deal.source_created_at,
+            fx.currency_code, fx.amount_original, fx.fx_rate,
+          ]
+        );
+        stored++;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return stored;
+  });
+}
+
+export async function upsertContacts(contacts: NormalizedContact[]): Promise<number> {
+  return upsertInBatches(contacts, async (batch) => {
+    if (batch.length === 0) return 0;
+
+    const client = await getClient();
+    let stored = 0;
+    try {
+      await client.query('BEGIN');
+
+      for (const contact of batch) {
+        await client.query(
+          `INSERT INTO contacts (
+            workspace_id, source, source_id, source_data,
+            email, first_name, last_name, title, seniority,
+            department, lifecycle_stage, engagement_score,
+            phone, last_activity_date, custom_fields, created_at, updated_at
+          ) VALUES (
+            $1, $2, $3, $4,
+            $5, $6, $7, $8, $9,
+            $10, $11, $12,
+            $13, $14, $15, NOW(), NOW()
+          )
+          ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+            source_data = EXCLUDED.source_data,
+            email = EXCLUDED.email,
+            first_name = EXCLUDED.first_name,
+            last_name = EXCLUDED.last_name,
+            title = EXCLUDED.title,
+            phone = EXCLUDED.phone,
+            last_activity_date = EXCLUDED.last_activity_date,
+            custom_fields = EXCLUDED.custom_fields,
+            updated_at = NOW()`,
+          [
+            contact.workspace_id, contact.source, contact.source_id, JSON.stringify(contact.source_data),
+            contact.email, contact.first_name, contact.last_name, contact.title, contact.seniority,
+            contact.department, contact.lifecycle_stage, contact.engagement_score,
+            contact.phone, contact.last_activity_date, JSON.stringify(contact.custom_fields),
+          ]
+        );
+        stored++;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return stored;
+  });
+}
+
+export async function upsertAccounts(accounts: NormalizedAccount[]): Promise<number> {
+  return upsertInBatches(accounts, async (batch) => {
+    if (batch.length === 0) return 0;
+
+    const client = await getClient();
+    let stored = 0;
+    try {
+      await client.query('BEGIN');
+
+      for (const account of batch) {
+        await client.query(
+          `INSERT INTO accounts (
+            workspace_id, source, source_id, source_data,
+            name, domain, industry, employee_count,
+            annual_revenue, owner, custom_fields, created_at, updated_at
+          ) VALUES (
+            $1, $2, $3, $4,
+            $5, $6, $7, $8,
+            $9, $10, $11, NOW(), NOW()
+          )
+          ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+            source_data = EXCLUDED.source_data,
+            name = EXCLUDED.name,
+            domain = COALESCE(EXCLUDED.domain, accounts.domain),
+            industry = COALESCE(EXCLUDED.industry, accounts.industry),
+            employee_count = COALESCE(EXCLUDED.employee_count, accounts.employee_count),
+            annual_revenue = COALESCE(EXCLUDED.annual_revenue, accounts.annual_revenue),
+            owner = EXCLUDED.owner,
+            custom_fields = EXCLUDED.custom_fields,
+            updated_at = NOW()`,
+          [
+            account.workspace_id, account.source, account.source_id, JSON.stringify(account.source_data),
+            account.name, account.domain, account.industry, account.employee_count,
+            account.annual_revenue, account.owner, JSON.stringify(account.custom_fields),
+          ]
+        );
+        stored++;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return stored;
+  });
+}
+
+// ============================================================================
+// Foreign Key Resolution
+// ============================================================================
+
+async function resolveSourceIds(
+  table: 'accounts' | 'contacts' | 'deals',
+  workspaceId: string,
+  sourceIds: Set<string>
+): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  if (sourceIds.size === 0) return map;
+
+  const result = await query<{ id: string; source_id: string }>(
+    `SELECT id, source_id FROM ${table}
+     WHERE workspace_id = $1 AND source = '${SOURCE}' AND source_id = ANY($2)`,
+    [workspaceId, Array.from(sourceIds)]
+  );
+  for (const row of result.rows) {
+    map.set(row.source_id, row.id);
+  }
+  return map;
+}
+
+export async function resolveForeignKeys(
+  workspaceId: string,
+  deals: NormalizedDeal[],
+  contacts: NormalizedContact[]
+): Promise<void> {
+  const accountSourceIds = new Set<string>();
+  const contactSourceIds = new Set<string>();
+  for (const d of deals) {
+    if (d.account_source_id) accountSourceIds.add(d.account_source_id);
+    for (const c of d.contact_source_ids) contactSourceIds.add(c);
+  }
+  for (const c of contacts) {
+    if (c.account_source_id) accountSourceIds.add(c.account_source_id);
+  }
+
+  const [accountMap, contactMap, dealMap] = await Promise.all([
+    resolveSourceIds('accounts', workspaceId, accountSourceIds),
+    resolveSourceIds('contacts', workspaceId, contactSourceIds),
+    resolveSourceIds('deals', workspaceId, new Set(deals.map(d => d.source_id))),
+  ]);
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+
+    for (const deal of deals) {
+      const accountUuid = deal.account_source_id ? accountMap.get(deal.account_source_id) ?? null : null;
+      const contactUuid = deal.contact_source_ids.length > 0 ? contactMap.get(deal.contact_source_ids[0]) ?? null : null;
+      const dealUuid = dealMap.get(deal.source_id);
+
+      if (accountUuid || contactUuid) {
+        await client.query(
+          `UPDATE deals SET
+             account_id = COALESCE($1, account_id),
+             contact_id = COALESCE($2, contact_id),
+             updated_at = NOW()
+           WHERE workspace_id = $3 AND source = '${SOURCE}' AND source_id = $4`,
+          [accountUuid, contactUuid, workspaceId, deal.source_id]
+        );
+      }
+
+      if (dealUuid && contactUuid) {
+        await client.query(
+          `INSERT INTO deal_contacts (workspace_id, deal_id, contact_id, is_primary, source, role_source)
+           VALUES ($1, $2, $3, true, 'pipedrive_association', 'crm_association')
+           ON CONFLICT (workspace_id, deal_id, contact_id, source) DO UPDATE SET
+             is_primary = EXCLUDED.is_primary,
+             updated_at = NOW()`,
+          [workspaceId, dealUuid, contactUuid]
+        );
+      }
+    }
+
+    for (const contact of contacts) {
+      const accountUuid = contact.account_source_id ? accountMap.get(contact.account_source_id) ?? null : null;
+      if (accountUuid) {
+        await client.query(
+          `UPDATE contacts SET account_id = $1, updated_at = NOW()
+           WHERE workspace_id = $2 AND source = '${SOURCE}' AND source_id = $3`,
+          [accountUuid, workspaceId, contact.source_id]
+        );
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    logger.error('Failed to resolve foreign keys', err instanceof Error ? err : undefined);
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// Stage History (deal flow → deal_stage_history)
+// ============================================================================
+
+/**
+ * Pull the change log for each deal and record stage transitions.
+ * Deals are fetched one-by-one (Pipedrive has no bulk flow endpoint), so the
+ * caller passes only deals whose stage may have moved.
+ */
+export async function syncStageHistory(
+  client: PipedriveClient,
+  workspaceId: string,
+  context: PipedriveSyncContext,
+  deals: NormalizedDeal[],
+  options: DealTransformOptions
+): Promise<number> {
+  if (deals.length === 0) return 0;
+
+  const dealMap = await resolveSourceIds('deals', workspaceId, new Set(deals.map(d => d.source_id)));
+  const transitions: StageChange[] = [];
+  const latestPerDeal: StageChange[] = [];
+
+  for (const deal of deals) {
+    const dealUuid = dealMap.get(deal.source_id);
+    if (!dealUuid) continue;
+
+    try {
+      const flow = await client.getDealFlow(Number(deal.source_id));
+      const changes = transformDealFlowToStageChanges(
+        flow, dealUuid, deal.source_id, workspaceId, context, options.customStageMapping
+      );
+      transitions.push(...changes);
+      if (changes.length > 0) latestPerDeal.push(changes[changes.length - 1]);
+    } catch (err) {
+      logger.warn('Failed to fetch deal flow', {
+        dealSourceId: deal.source_id,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+  }
+
+  if (transitions.length === 0) return 0;
+
+  const recorded = await recordStageChanges(transitions, 'pipedrive_history');
+  await updateDealStageCache(latestPerDeal).catch(err => {
+    logger.warn('Failed to update deal stage cache', { error: err instanceof Error ? err.message : err });
+  });
+
+  import('../../webhooks/deal-events.js')
+    .then(m => m.emitDealStageChangedEvents(workspaceId, transitions as any))
+    .catch(() => {});
+
+  logger.info('Synced stage history', { deals: deals.length, transitions: transitions.length, recorded });
+  return recorded;
+}
+
+// ============================================================================
+// Sync Entry Points
+// ============================================================================
+
+async function runSync(
+  client: PipedriveClient,
+  workspaceId: string,
+  since: Date | null
+): Promise<PipedriveSyncOutput> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+
+  const context = await buildSyncContext(client, workspaceId);
+  const dealOptions = await getDealTransformOptions(workspaceId);
+
+  // Fetch and store failures propagate: the orchestrator only advances the
+  // update_time watermark after a successful run, so nothing is skipped
+  const [rawOrgs, rawPersons, rawDeals] = await Promise.all([
+    client.getOrganizations(since ?? undefined),
+    client.getPersons(since ?? undefined),
+    client.getDeals(since ?? undefined),
+  ]);
+
+  logger.info('Fetched records', {
+    mode: since ? 'incremental' : 'initial',
+    organizations: rawOrgs.length,
+    persons: rawPersons.length,
+    deals: rawDeals.length,
+  });
+
+  const accountResult = transformWithErrorCapture(
+    rawOrgs,
+    (org) => transformOrganization(org, workspaceId, context),
+    'Pipedrive Organizations',
+    (org) => String(org.id)
+  );
+  const contactResult = transformWithErrorCapture(
+    rawPersons,
+    (person) => transformPerson(person, workspaceId, context),
+    'Pipedrive Persons',
+    (person) => String(person.id)
+  );
+  const dealResult = transformWithErrorCapture(
+    rawDeals,
+    (deal) => transformDeal(deal, workspaceId, context, dealOptions),
+    'Pipedrive Deals',
+    (deal) => String(deal.id)
+  );
+
+  accountResult.failed.forEach(f => errors.push(`Organization: ${f.error} (${f.recordId})`));
+  contactResult.failed.forEach(f => errors.push(`Person: ${f.error} (${f.recordId})`));
+  dealResult.failed.forEach(f => errors.push(`Deal: ${f.error} (${f.recordId})`));
+
+  const accountsStored = await upsertAccounts(accountResult.succeeded);
+  const [contactsStored, dealsStored] = await Promise.all([
+    upsertContacts(contactResult.succeeded),
+    upsertDeals(dealResult.succeeded),
+  ]);
+
+  await resolveForeignKeys(workspaceId, dealResult.succeeded, contactResult.succeeded);
+
+  // Only deals whose stage moved since the watermark need their flow fetched
+  const stageHistoryCandidates = since
+    ? dealResult.succeeded.filter(d => {
+        const changedAt = parsePipedriveTime(d.source_data.stage_change_time)
+          ?? parsePipedriveTime(d.source_data.close_time);
+        return changedAt !== null && changedAt >= since;
+      })
+    : dealResult.succeeded;
+
+  let stageTransitions = 0;
+  try {
+    stageTransitions = await syncStageHistory(client, workspaceId, context, stageHistoryCandidates, dealOptions);
+  } catch (err: any) {
+    errors.push(`Stage history sync failed: ${err.message}`);
+  }
+
+  try {
+    await computeFields(workspaceId);
+  } catch (err: any) {
+    errors.push(`Computed fields error: ${err.message}`);
+  }
+
+  if (dealResult.succeeded.length > 0) {
+    if (!since) {
+      // Scope inference + stamping — non-blocking, same as HubSpot/Salesforce initial sync
+      inferAnalysisScopes(workspaceId)
+        .then(async (inferred) => {
+          await applyInferredScopes(workspaceId, inferred);
+          await stampAllDealsForWorkspace(workspaceId);
+          await autoConfigurePipelineDefaults(workspaceId);
+        })
+        .catch(err => logger.warn('Scope inference failed', { workspaceId, error: err instanceof Error ? err.message : err }));
+    } else {
+      resolveSourceIds('deals', workspaceId, new Set(dealResult.succeeded.map(d => d.source_id)))
+        .then(map => stampDealScopes(workspaceId, Array.from(map.values())))
+        .catch(err => logger.warn('Incremental scope stamping failed', { workspaceId, error: err instanceof Error ? err.message : err }));
+    }
+  }
+
+  const duration = Date.now() - startTime;
+  logger.info('Sync completed', { duration, accountsStored, contactsStored, dealsStored, stageTransitions, errors: errors.length });
+
+  return {
+    recordsFetched: rawOrgs.length + rawPersons.length + rawDeals.length,
+    recordsStored: accountsStored + contactsStored + dealsStored,
+    errors,
+    duration,
+    deals: dealResult.succeeded,
+    contacts: contactResult.succeeded,
+    accounts: accountResult.succeeded,
+    failed: {
+      deals: dealResult.failed,
+      contacts: contactResult.failed,
+      accounts: accountResult.failed,
+    },
+    stageTransitions,
+  };
+}
+
+export async function initialSync(
+  client: PipedriveClient,
+  workspaceId: string
+): Promise<PipedriveSyncOutput> {
+  logger.info('Starting initial sync', { workspaceId });
+  return runSync(client, workspaceId, null);
+}
+
+export async function incrementalSync(
+  client: PipedriveClient,
+  workspaceId: string,
+  since: Date
+): Promise<PipedriveSyncOutput> {
+  logger.info('Starting incremental sync', { workspaceId, since: since.toISOString() });
+  return runSync(client, workspaceId, since);
+}
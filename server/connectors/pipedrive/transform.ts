@@ -0,0 +1,393 @@
+/**
+ * Pipedrive → Pandora Transform Layer
+ *
+ * Maps Pipedrive deals, persons and organizations to normalized entities.
+ * Pipedrive custom fields use opaque 40-char hash keys, so custom_fields are
+ * re-keyed by a slug of the field's display name (raw keys stay in source_data).
+ */
+
+import { normalizeStage } from '../hubspot/transform.js';
+import type { StageChange } from '../hubspot/stage-tracker.js';
+import { normalizeEmail, normalizePhone } from '../../utils/data-transforms.js';
+import { sanitizeNumber, sanitizeText } from '../../utils/field-sanitizer.js';
+import type { StageMapping } from '../../config/index.js';
+import { parsePipedriveTime } from './client.js';
+import type {
+  PipedriveDeal,
+  PipedrivePerson,
+  PipedriveOrganization,
+  PipedriveField,
+  PipedriveFlowItem,
+  PipedriveRef,
+  PipedriveSyncContext,
+} from './types.js';
+
+// ============================================================================
+// Normalized Entity Types (matching HubSpot schema)
+// ============================================================================
+
+export interface NormalizedDeal {
+  workspace_id: string;
+  source: 'pipedrive';
+  source_id: string;
+  source_data: Record<string, any>;
+  name: string | null;
+  amount: number | null;
+  currency_code: string | null;
+  stage: string | null;
+  stage_normalized: string | null;
+  close_date: string | null;
+  owner: string | null;
+  owner_email: string | null;
+  probability: number | null;
+  forecast_category: string | null;
+  forecast_category_source: 'native' | 'derived' | null;
+  pipeline: string | null;
+  last_activity_date: Date | null;
+  custom_fields: Record<string, any>;
+  account_source_id: string | null;
+  contact_source_ids: string[];
+  next_steps: string | null;
+  lead_source: string | null;
+  source_created_at: string | null;
+}
+
+export interface NormalizedContact {
+  workspace_id: string;
+  source: 'pipedrive';
+  source_id: string;
+  source_data: Record<string, any>;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  title: string | null;
+  seniority: string | null;
+  department: string | null;
+  lifecycle_stage: string | null;
+  engagement_score: number | null;
+  phone: string | null;
+  last_activity_date: Date | null;
+  custom_fields: Record<string, any>;
+  account_source_id: string | null;
+}
+
+export interface NormalizedAccount {
+  workspace_id: string;
+  source: 'pipedrive';
+  source_id: string;
+  source_data: Record<string, any>;
+  name: string | null;
+  domain: string | null;
+  industry: string | null;
+  employee_count: number | null;
+  annual_revenue: number | null;
+  owner: string | null;
+  custom_fields: Record<string, any>;
+}
+
+export interface DealTransformOptions {
+  customStageMapping?: StageMapping;
+  forecastThresholds?: {
+    commit_threshold: number;
+    best_case_threshold: number;
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve a Pipedrive reference field (expanded object or bare ID) to its numeric ID.
+ */
+export function refId<T>(ref: PipedriveRef<T> | undefined): number | null {
+  if (ref === null || ref === undefined) return null;
+  if (typeof ref === 'number') return ref;
+  return typeof ref.value === 'number' ? ref.value : null;
+}
+
+function toDateOnly(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = parsePipedriveTime(value) ?? new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date.toISOString().split('T')[0];
+}
+
+function slugifyFieldName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function primaryValue(values: Array<{ value: string; primary: boolean }> | null | undefined): string | null {
+  if (!Array.isArray(values) || values.length === 0) return null;
+  const primary = values.find(v => v.primary && v.value) ?? values.find(v => v.value);
+  return primary?.value ?? null;
+}
+
+function extractDomain(value: string | null): string | null {
+  if (!value) return null;
+  const host = value.includes('@') ? value.split('@')[1] : value;
+  return host
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split('/')[0]
+    .toLowerCase() || null;
+}
+
+/**
+ * Pull custom field values out of a record, resolving enum/set option IDs to labels.
+ */
+export function extractCustomFields(
+  record: Record<string, unknown>,
+  fields: Map<string, PipedriveField>
+): Record<string, any> {
+  const custom: Record<string, any> = {};
+
+  for (const [key, field] of fields) {
+    if (!field.edit_flag) continue;
+    const raw = record[key];
+    if (raw === null || raw === undefined || raw === '') continue;
+
+    let value: any = raw;
+    if ((field.field_type === 'enum' || field.field_type === 'set') && field.options) {
+      const ids = String(raw).split(',').map(s => s.trim());
+      const labels = ids.map(id => field.options!.find(o => String(o.id) === id)?.label ?? id);
+      value = field.field_type === 'set' ? labels : labels[0];
+    } else if (typeof raw === 'object' && raw !== null && 'value' in (raw as any)) {
+      // user / org / people reference fields
+      value = (raw as any).name ?? (raw as any).value;
+    }
+
+    custom[slugifyFieldName(field.name) || key] = value;
+  }
+
+  return custom;
+}
+
+/**
+ * Derive a forecast category from deal status and stage probability.
+ * Pipedrive has no native forecast category; probability is a 0-100 percentage.
+ */
+function deriveForecastCategory(
+  status: PipedriveDeal['status'],
+  probabilityPct: number | null,
+  thresholds?: { commit_threshold: number; best_case_threshold: number }
+): string {
+  if (status === 'won') return 'closed';
+  if (status === 'lost') return 'not_forecasted';
+  if (probabilityPct === null || probabilityPct === 0) return 'not_forecasted';
+
+  const probability = probabilityPct / 100;
+  const commitThreshold = thresholds?.commit_threshold ?? 0.90;
+  const bestCaseThreshold = thresholds?.best_case_threshold ?? 0.60;
+
+  if (probability >= commitThreshold) return 'commit';
+  if (probability >= bestCaseThreshold) return 'best_case';
+  return 'pipeline';
+}
+
+/**
+ * Normalize a Pipedrive stage. Won/lost status always wins over the stage name,
+ * because Pipedrive keeps closed deals parked in their last open stage.
+ */
+export function normalizePipedriveStage(
+  stageName: string | null,
+  status: PipedriveDeal['status'],
+  customMapping?: StageMapping
+): string | null {
+  if (status === 'won') return 'closed_won';
+  if (status === 'lost') return 'closed_lost';
+  return normalizeStage(stageName, customMapping);
+}
+
+// ============================================================================
+// Transforms
+// ============================================================================
+
+export function transformDeal(
+  deal: PipedriveDeal,
+  workspaceId: string,
+  context: PipedriveSyncContext,
+  options?: DealTransformOptions
+): NormalizedDeal {
+  const stage = context.stages.get(deal.stage_id);
+  const pipeline = context.pipelines.get(deal.pipeline_id);
+  const ownerId = refId(deal.user_id);
+  const owner = ownerId !== null ? context.users.get(ownerId) : undefined;
+  const ownerRef = typeof deal.user_id === 'object' ? deal.user_id : null;
+
+  const stageName = stage?.name ?? null;
+  const probability = sanitizeNumber(deal.probability ?? stage?.deal_probability ?? null);
+
+  const closeDate = deal.status === 'open'
+    ? toDateOnly(deal.expected_close_date)
+    : toDateOnly(deal.won_time || deal.lost_time || deal.close_time || deal.expected_close_date);
+
+  const accountId = refId(deal.org_id);
+  const personId = refId(deal.person_id);
+
+  return {
+    workspace_id: workspaceId,
+    source: 'pipedrive',
+    source_id: String(deal.id),
+    source_data: deal,
+    name: sanitizeText(deal.title),
+    amount: sanitizeNumber(deal.value),
+    currency_code: sanitizeText(deal.currency) || null,
+    stage: stageName,
+    stage_normalized: normalizePipedriveStage(stageName, deal.status, options?.customStageMapping),
+    close_date: closeDate,
+    owner: owner?.name ?? ownerRef?.name ?? null,
+    owner_email: normalizeEmail(owner?.email ?? ownerRef?.email ?? null),
+    probability,
+    forecast_category: deriveForecastCategory(deal.status, probability, options?.forecastThresholds),
+    forecast_category_source: 'derived',
+    pipeline: pipeline?.name ?? null,
+    last_activity_date: deal.last_activity_date ? new Date(deal.last_activity_date) : null,
+    custom_fields: {
+      ...extractCustomFields(deal, context.dealFields),
+      ...(deal.lost_reason ? { lost_reason: deal.lost_reason } : {}),
+      status: deal.status,
+    },
+    account_source_id: accountId !== null ? String(accountId) : null,
+    contact_source_ids: personId !== null ? [String(personId)] : [],
+    next_steps: null,
+    lead_source: sanitizeText(deal.origin ?? null),
+    source_created_at: parsePipedriveTime(deal.add_time)?.toISOString() ?? null,
+  };
+}
+
+export function transformPerson(
+  person: PipedrivePerson,
+  workspaceId: string,
+  context: PipedriveSyncContext
+): NormalizedContact {
+  const orgId = refId(person.org_id);
+
+  return {
+    workspace_id: workspaceId,
+    source: 'pipedrive',
+    source_id: String(person.id),
+    source_data: person,
+    email: normalizeEmail(primaryValue(person.email)),
+    first_name: sanitizeText(person.first_name),
+    last_name: sanitizeText(person.last_name),
+    title: sanitizeText(person.job_title ?? null),
+    seniority: null,
+    department: null,
+    lifecycle_stage: null,
+    engagement_score: null,
+    phone: normalizePhone(primaryValue(person.phone)),
+    last_activity_date: person.last_activity_date ? new Date(person.last_activity_date) : null,
+    custom_fields: extractCustomFields(person, context.personFields),
+    account_source_id: orgId !== null ? String(orgId) : null,
+  };
+}
+
+export function transformOrganization(
+  org: PipedriveOrganization,
+  workspaceId: string,
+  context: PipedriveSyncContext
+): NormalizedAccount {
+  const ownerId = refId(org.owner_id);
+  const owner = ownerId !== null ? context.users.get(ownerId) : undefined;
+  const custom = extractCustomFields(org, context.organizationFields);
+
+  const website = (custom.website ?? custom.domain ?? null) as string | null;
+  const employees = sanitizeNumber(custom.employees ?? custom.employee_count ?? custom.number_of_employees ?? null);
+
+  return {
+    workspace_id: workspaceId,
+    source: 'pipedrive',
+    source_id: String(org.id),
+    source_data: org,
+    name: sanitizeText(org.name),
+    domain: extractDomain(website),
+    industry: sanitizeText(custom.industry ?? null),
+    employee_count: employees !== null ? Math.round(employees) : null,
+    annual_revenue: sanitizeNumber(custom.annual_revenue ?? custom.revenue ?? null),
+    owner: owner?.name ?? null,
+    custom_fields: custom,
+  };
+}
+
+/**
+ * Convert a deal's flow (change log) into stage transitions.
+ *
+ * `stage_id` changes become transitions between named stages. Pipedrive leaves
+ * won/lost deals parked in their last open stage, so `status` changes to won or
+ * lost are emitted as transitions into synthetic "Closed Won" / "Closed Lost"
+ * stages, matching how HubSpot and Salesforce history looks downstream.
+ */
+export function transformDealFlowToStageChanges(
+  flow: PipedriveFlowItem[],
+  dealId: string,
+  dealSourceId: string,
+  workspaceId: string,
+  context: PipedriveSyncContext,
+  customMapping?: StageMapping
+): StageChange[] {
+  const stageName = (id: string | null): string | null => {
+    if (!id) return null;
+    return context.stages.get(Number(id))?.name ?? id;
+  };
+
+  const events = flow
+    .filter(item => item.object === 'dealChange')
+    .filter(item => item.data?.field_key === 'stage_id' || item.data?.field_key === 'status')
+    .map(item => ({
+      fieldKey: item.data.field_key,
+      oldValue: item.data.old_value,
+      newValue: item.data.new_value,
+      at: parsePipedriveTime(item.data.log_time || item.timestamp),
+    }))
+    .filter((e): e is typeof e & { at: Date } => e.at !== null)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const changes: StageChange[] = [];
+  let currentStage: string | null = null;
+  let lastOpenStage: string | null = null;
+  let previousAt: Date | null = null;
+
+  for (const event of events) {
+    let fromStage: string | null;
+    let toStage: string | null;
+    let toNormalized: string | null;
+
+    if (event.fieldKey === 'stage_id') {
+      fromStage = currentStage ?? stageName(event.oldValue);
+      toStage = stageName(event.newValue);
+      toNormalized = normalizeStage(toStage, customMapping);
+    } else if (event.newValue === 'won' || event.newValue === 'lost') {
+      fromStage = currentStage;
+      toStage = event.newValue === 'won' ? 'Closed Won' : 'Closed Lost';
+      toNormalized = event.newValue === 'won' ? 'closed_won' : 'closed_lost';
+    } else {
+      // Reopened deal: it returns to the open stage it was parked in
+      fromStage = currentStage;
+      toStage = lastOpenStage;
+      toNormalized = normalizeStage(toStage, customMapping);
+    }
+
+    if (!toStage || toStage === fromStage) continue;
+
+    changes.push({
+      dealId,
+      dealSourceId,
+      workspaceId,
+      fromStage,
+      fromStageNormalized: fromStage ? normalizeStage(fromStage, customMapping) : null,
+      toStage,
+      toStageNormalized: toNormalized ?? 'awareness',
+      changedAt: event.at,
+      durationMs: previousAt ? event.at.getTime() - previousAt.getTime() : null,
+    });
+    currentStage = toStage;
+    if (event.fieldKey === 'stage_id') lastOpenStage = toStage;
+    previousAt = event.at;
+  }
+
+  return changes;
+}
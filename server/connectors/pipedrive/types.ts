@@ -0,0 +1,196 @@
+/**
+ * Pipedrive API Types
+ *
+ * Type definitions for Pipedrive REST API v1 responses
+ */
+
+// ============================================================================
+// Credentials
+// ============================================================================
+
+/**
+ * Pipedrive supports two auth modes:
+ * - Personal API token (api_token query param against api.pipedrive.com)
+ * - OAuth access token (Bearer header against the company api_domain)
+ */
+export interface PipedriveCredentials {
+  apiToken?: string;
+  accessToken?: string;
+  apiDomain?: string;          // e.g. https://acme.pipedrive.com
+}
+
+// ============================================================================
+// Pipedrive Objects
+// ============================================================================
+
+/**
+ * Reference fields (user_id, person_id, org_id) are expanded objects on list
+ * endpoints but plain numeric IDs on some webhook/flow payloads.
+ */
+export type PipedriveRef<T> = number | (T & { value: number }) | null;
+
+export interface PipedriveUserRef {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface PipedrivePersonRef {
+  name: string;
+  email?: Array<{ value: string; primary: boolean }>;
+}
+
+export interface PipedriveOrgRef {
+  name: string;
+}
+
+export interface PipedriveDeal {
+  id: number;
+  title: string;
+  value: number | null;
+  currency: string | null;
+  status: 'open' | 'won' | 'lost' | 'deleted';
+  stage_id: number;
+  pipeline_id: number;
+  probability: number | null;
+  expected_close_date: string | null;   // YYYY-MM-DD
+  close_time: string | null;            // "YYYY-MM-DD HH:MM:SS" (UTC)
+  won_time: string | null;
+  lost_time: string | null;
+  lost_reason: string | null;
+  add_time: string;
+  update_time: string;
+  stage_change_time: string | null;
+  last_activity_date: string | null;
+  next_activity_date: string | null;
+  user_id: PipedriveRef<PipedriveUserRef>;
+  person_id: PipedriveRef<PipedrivePersonRef>;
+  org_id: PipedriveRef<PipedriveOrgRef>;
+  origin?: string | null;
+  channel?: number | string | null;
+  // Custom fields come through as 40-char hash keys
+  [key: string]: unknown;
+}
+
+export interface PipedrivePerson {
+  id: number;
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: Array<{ value: string; primary: boolean; label?: string }> | null;
+  phone: Array<{ value: string; primary: boolean; label?: string }> | null;
+  job_title?: string | null;
+  org_id: PipedriveRef<PipedriveOrgRef>;
+  owner_id: PipedriveRef<PipedriveUserRef>;
+  label?: number | null;
+  add_time: string;
+  update_time: string;
+  last_activity_date: string | null;
+  [key: string]: unknown;
+}
+
+export interface PipedriveOrganization {
+  id: number;
+  name: string;
+  address: string | null;
+  address_country?: string | null;
+  owner_id: PipedriveRef<PipedriveUserRef>;
+  people_count: number | null;
+  open_deals_count: number | null;
+  add_time: string;
+  update_time: string;
+  [key: string]: unknown;
+}
+
+export interface PipedriveStage {
+  id: number;
+  name: string;
+  pipeline_id: number;
+  order_nr: number;
+  deal_probability: number | null;
+  active_flag: boolean;
+  rotten_flag?: boolean;
+  rotten_days?: number | null;
+}
+
+export interface PipedrivePipeline {
+  id: number;
+  name: string;
+  order_nr: number;
+  active: boolean;
+  deal_probability: boolean;
+}
+
+export interface PipedriveUser {
+  id: number;
+  name: string;
+  email: string;
+  active_flag: boolean;
+  company_id?: number;
+  company_name?: string;
+  company_domain?: string;
+}
+
+export interface PipedriveField {
+  id: number;
+  key: string;
+  name: string;
+  field_type: string;        // varchar, text, double, monetary, date, enum, set, user, org, people, ...
+  edit_flag: boolean;        // true for custom fields
+  options?: Array<{ id: number | string; label: string }>;
+}
+
+/**
+ * Deal flow (updates) entry. Only `dealChange` entries with field_key = stage_id
+ * matter for stage history.
+ */
+export interface PipedriveFlowItem {
+  object: string;            // 'dealChange', 'activity', 'note', ...
+  timestamp: string;
+  data: {
+    id: number;
+    item_id: number;
+    user_id: number;
+    field_key: string;
+    old_value: string | null;
+    new_value: string | null;
+    log_time: string;
+    [key: string]: unknown;
+  };
+}
+
+// ============================================================================
+// API Envelope
+// ============================================================================
+
+export interface PipedrivePagination {
+  start: number;
+  limit: number;
+  more_items_in_collection: boolean;
+  next_start?: number;
+}
+
+export interface PipedriveResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+  additional_data?: {
+    pagination?: PipedrivePagination;
+  };
+}
+
+// ============================================================================
+// Sync Context
+// ============================================================================
+
+/**
+ * Lookup tables built once per sync and threaded through transforms
+ */
+export interface PipedriveSyncContext {
+  stages: Map<number, PipedriveStage>;
+  pipelines: Map<number, PipedrivePipeline>;
+  users: Map<number, PipedriveUser>;
+  dealFields: Map<string, PipedriveField>;
+  personFields: Map<string, PipedriveField>;
+  organizationFields: Map<string, PipedriveField>;
+}
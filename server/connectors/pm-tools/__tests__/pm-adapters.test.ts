@@ -0,0 +1,234 @@
+/**
+ * Unit tests for Jira, Asana and Linear PM adapters
+ *
+ * Covers request payload mapping (with fetch stubbed), status normalization
+ * for two-way sync, and resolving the originating action from a closed ticket.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JiraPMAdapter, parseJiraStatus } from '../jira/adapter.js';
+import { AsanaPMAdapter, parseAsanaStatus } from '../asana/adapter.js';
+import { LinearPMAdapter, parseLinearStatus } from '../linear/adapter.js';
+import { markdownToAdf } from '../../jira/client.js';
+import type { OpsWorkItem } from '../types.js';
+
+const mockQuery = vi.fn();
+vi.mock('../../../db.js', () => ({ query: (...args: any[]) => mockQuery(...args) }));
+vi.mock('../../../lib/credential-store.js', () => ({
+  getConnectorCredentials: vi.fn(async () => ({ siteUrl: 'https://acme.atlassian.net', email: 'ops@acme.com', apiToken: 't' })),
+}));
+
+const workItem: OpsWorkItem = {
+  name: 'Require close date on all open deals',
+  description: 'Close dates are missing on a third of Q4 pipeline.',
+  category: 'data_cleanup',
+  priority: 'critical',
+  dueDate: '2026-10-31T00:00:00.000Z',
+  labels: ['Q4 Cleanup'],
+  projectId: 'OPS',
+  sourceActionId: '6b1f0c52-4d7e-4f55-9a0e-1f1b2c3d4e5f',
+  sourceSkill: 'pipeline-hygiene',
+  findingSummary: '47 deals missing close dates',
+  impactMetric: '$2.3M pipeline affected',
+};
+
+type Call = { url: string; method: string; body: any };
+
+function stubFetch(responder: (call: Call) => any): Call[] {
+  const calls: Call[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: any = {}) => {
+    const call = { url, method: init.method || 'GET', body: init.body ? JSON.parse(init.body) : undefined };
+    calls.push(call);
+    const payload = responder(call);
+    return {
+      ok: true,
+      status: payload === undefined ? 204 : 200,
+      statusText: 'OK',
+      headers: new Headers(),
+      json: async () => payload,
+      text: async () => JSON.stringify(payload ?? ''),
+    };
+  }));
+  return calls;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  mockQuery.mockReset();
+});
+
+describe('status normalization', () => {
+  it('maps Jira done category by resolution', () => {
+    expect(parseJiraStatus({ status: { name: 'In Review', statusCategory: { key: 'indeterminate' } } }))
+      .toEqual({ state: 'open', statusName: 'In Review' });
+    expect(parseJiraStatus({
+      status: { name: 'Done', statusCategory: { key: 'done' } },
+      resolution: { name: 'Done' },
+      resolutiondate: '2026-10-18T10:00:00.000+0000',
+    })).toEqual({ state: 'completed', statusName: 'Done', completedAt: '2026-10-18T10:00:00.000+0000' });
+    expect(parseJiraStatus({ status: { name: 'Closed', statusCategory: { key: 'done' } }, resolution: { name: "Won't Do" } }).state)
+      .toBe('canceled');
+  });
+
+  it('maps Asana completion and Linear state types', () => {
+    expect(parseAsanaStatus({ completed: true, completed_at: '2026-10-18T10:00:00Z' }).state).toBe('completed');
+    expect(parseAsanaStatus({ completed: false, completed_at: null, memberships: [{ project: { gid: 'p', name: 'P' }, section: { gid: 's', name: 'Doing' } }] }))
+      .toEqual({ state: 'open', statusName: 'Doing' });
+    expect(parseLinearStatus({ state: { id: 's', name: 'Shipped', type: 'completed' }, completedAt: '2026-10-18T10:00:00Z' }).state).toBe('completed');
+    expect(parseLinearStatus({ state: { id: 's', name: 'Canceled', type: 'canceled' } }).state).toBe('canceled');
+    expect(parseLinearStatus({ state: { id: 's', name: 'Todo', type: 'unstarted' } }).state).toBe('open');
+  });
+});
+
+describe('markdownToAdf', () => {
+  it('converts paragraphs, bullets, rules and bold', () => {
+    const doc = markdownToAdf('Intro line\n\n- one\n- two\n\n---\n\n**Finding:** 47 deals');
+    expect(doc.content.map(n => n.type)).toEqual(['paragraph', 'bulletList', 'rule', 'paragraph']);
+    expect(doc.content[1].content).toHaveLength(2);
+    expect(doc.content[3].content?.[0]).toEqual({ type: 'text', text: 'Finding:', marks: [{ type: 'strong' }] });
+  });
+});
+
+describe('JiraPMAdapter', () => {
+  const credentials = { siteUrl: 'https://acme.atlassian.net/', email: 'ops@acme.com', apiToken: 't' };
+
+  it('creates an issue with ADF description, priority, labels and matching component', async () => {
+    const calls = stubFetch(({ url, method }) => {
+      if (url.includes('/components')) return [{ id: '10010', name: 'Data Cleanup' }];
+      if (method === 'POST' && url.endsWith('/rest/api/3/issue')) return { id: '1001', key: 'OPS-42' };
+      return [];
+    });
+
+    const result = await new JiraPMAdapter().createTask(credentials, workItem);
+
+    expect(result).toEqual({ externalId: 'OPS-42', url: 'https://acme.atlassian.net/browse/OPS-42' });
+    const create = calls.find(c => c.method === 'POST')!;
+    expect(create.body.fields).toMatchObject({
+      project: { key: 'OPS' },
+      issuetype: { name: 'Task' },
+      summary: workItem.name,
+      priority: { name: 'Highest' },
+      duedate: '2026-10-31',
+      labels: ['q4-cleanup', 'pandora-data_cleanup'],
+      components: [{ id: '10010' }],
+    });
+    expect(create.body.fields.description.type).toBe('doc');
+  });
+
+  it('completes via the transition into the done category', async () => {
+    const calls = stubFetch(({ url, method }) => {
+      if (url.includes('/transitions') && method === 'GET') {
+        return {
+          transitions: [
+            { id: '21', name: 'Start', to: { name: 'In Progress', statusCategory: { key: 'indeterminate', name: '' } } },
+            { id: '31', name: 'Resolve', to: { name: 'Done', statusCategory: { key: 'done', name: '' } } },
+          ],
+        };
+      }
+      if (url.includes('/transitions')) return undefined;
+      return { id: '1001', key: 'OPS-42', fields: { status: { name: 'To Do', statusCategory: { key: 'new' } } } };
+    });
+
+    await new JiraPMAdapter().completeTask(credentials, 'OPS-42');
+
+    expect(calls.at(-1)).toMatchObject({ method: 'POST', body: { transition: { id: '31' } } });
+  });
+});
+
+describe('AsanaPMAdapter', () => {
+  it('creates the category section when missing and files the task into it', async () => {
+    const calls = stubFetch(({ url, method }) => {
+      if (url.endsWith('/projects/P1/sections') && method === 'GET') return { data: [{ gid: 'S0', name: 'Backlog' }] };
+      if (url.endsWith('/projects/P1/sections')) return { data: { gid: 'S9', name: 'Data Cleanup' } };
+      if (url.includes('/tasks')) return { data: { gid: 'T1', name: workItem.name, completed: false, completed_at: null, permalink_url: 'https://app.asana.com/0/P1/T1' } };
+      return { data: {} };
+    });
+
+    const result = await new AsanaPMAdapter().createTask(
+      { accessToken: 'pat', workspaceGid: 'W1' },
+      { ...workItem, projectId: 'P1' }
+    );
+
+    expect(result).toEqual({ externalId: 'T1', url: 'https://app.asana.com/0/P1/T1' });
+    const create = calls.find(c => c.url.includes('/tasks'))!;
+    expect(create.body.data).toMatchObject({
+      name: workItem.name,
+      workspace: 'W1',
+      due_on: '2026-10-31',
+      memberships: [{ project: 'P1', section: 'S9' }],
+    });
+    expect(create.body.data.notes).toMatch(/^Priority: Critical\nLabels: Q4 Cleanup/);
+  });
+});
+
+describe('LinearPMAdapter', () => {
+  it('moves the issue to the lowest-positioned completed state', async () => {
+    const calls = stubFetch(({ body }) => {
+      if (body.query.includes('query Issue')) {
+        return { data: { issue: { id: 'I1', identifier: 'OPS-7', url: 'u', state: { id: 'st1', name: 'Todo', type: 'unstarted' }, team: { id: 'T1' } } } };
+      }
+      if (body.query.includes('TeamStates')) {
+        return {
+          data: {
+            team: {
+              states: {
+                nodes: [
+                  { id: 'done-2', name: 'Verified', type: 'completed', position: 5 },
+                  { id: 'done-1', name: 'Done', type: 'completed', position: 4 },
+                  { id: 'cx', name: 'Canceled', type: 'canceled', position: 6 },
+                ],
+              },
+            },
+          },
+        };
+      }
+      return { data: { issueUpdate: { success: true } } };
+    });
+
+    await new LinearPMAdapter().completeTask({ apiKey: 'lin_api_x' }, 'I1');
+
+    expect(calls.at(-1)!.body.variables).toEqual({ id: 'I1', input: { stateId: 'done-1' } });
+  });
+});
+
+describe('syncPMTaskStatuses', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it('marks the originating action executed when the Jira ticket is done', async () => {
+    stubFetch(() => ({
+      id: '1001',
+      key: 'OPS-42',
+      fields: { status: { name: 'Done', statusCategory: { key: 'done' } }, resolution: { name: 'Done' }, resolutiondate: '2026-10-18T10:00:00.000Z' },
+    }));
+
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT settings FROM workspaces')) {
+        return { rows: [{ settings: { pm_connector: { connectorType: 'jira', enabled: true } } }] };
+      }
+      if (sql.includes('FROM pm_task_references') && sql.includes("status = 'open'")) {
+        return { rows: [{ id: 1, source_action_id: workItem.sourceActionId, external_id: 'OPS-42', url: 'https://acme.atlassian.net/browse/OPS-42' }] };
+      }
+      if (sql.includes('UPDATE actions')) {
+        return { rows: [{ id: workItem.sourceActionId, execution_status: 'executed', from_status: 'open' }] };
+      }
+      return { rows: [] };
+    });
+
+    const { syncPMTaskStatuses } = await import('../../../services/pm-task-service.js');
+    const result = await syncPMTaskStatuses('ws-1');
+
+    expect(result).toEqual({ checked: 1, resolved: 1, errors: 0 });
+
+    const refUpdate = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE pm_task_references'))!;
+    expect(refUpdate[1].slice(0, 3)).toEqual([1, 'completed', 'Done']);
+
+    const actionUpdate = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE actions'))!;
+    expect(actionUpdate[0]).toContain("execution_status = 'executed'");
+    expect(actionUpdate[1].slice(0, 3)).toEqual([workItem.sourceActionId, 'ws-1', 'pm:jira']);
+
+    const audit = mockQuery.mock.calls.find(([sql]) => sql.includes('action_audit_log'))!;
+    expect(audit[1].slice(2, 5)).toEqual(['pm:jira', 'open', 'executed']);
+  });
+});
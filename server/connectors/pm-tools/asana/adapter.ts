@@ -0,0 +1,224 @@
+/**
+ * Asana PM Tool Adapter
+ *
+ * Implements PandoraTaskAdapter interface for pushing RevOps operator work items
+ * to Asana projects.
+ *
+ * Architecture:
+ * - Maps OpsCategory to project sections, creating the section if missing
+ * - Asana has no built-in priority field, so priority leads the task notes
+ * - Assignee accepts an email directly; Asana resolves it to a workspace member
+ * - Completing a task sets completed=true
+ * - Supports goal metric updates (updateGoalProgress)
+ */
+
+import type {
+  PandoraTaskAdapter,
+  OpsWorkItem,
+  OpsPriority,
+  OpsCategory,
+  PMTaskStatus,
+} from '../types.js';
+import { AsanaClient, type AsanaCredentials, type AsanaTask } from '../../asana/client.js';
+import { OPS_CATEGORY_SECTION_NAMES, DEFAULT_SECTION_NAME, formatOpsDescription } from '../format.js';
+
+export class AsanaPMAdapter implements PandoraTaskAdapter {
+  readonly connectorType = 'asana';
+  private client = new AsanaClient();
+
+  /**
+   * Test connection to Asana
+   */
+  async testConnection(credentials: Record<string, any>): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    return this.client.testConnection(asanaCredentials);
+  }
+
+  /**
+   * List active projects in the workspace
+   */
+  async listProjects(credentials: Record<string, any>): Promise<{ id: string; name: string }[]> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    const projects = await this.client.getProjects(asanaCredentials);
+    return projects.map(p => ({ id: p.gid, name: p.name }));
+  }
+
+  /**
+   * List sections within a project
+   */
+  async listSections(credentials: Record<string, any>, projectId: string): Promise<{ id: string; name: string }[]> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    const sections = await this.client.getSections(asanaCredentials, projectId);
+    return sections.map(s => ({ id: s.gid, name: s.name }));
+  }
+
+  /**
+   * List users in the workspace
+   */
+  async listUsers(credentials: Record<string, any>): Promise<{ id: string; name: string; email: string }[]> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    const users = await this.client.getUsers(asanaCredentials);
+    return users.map(u => ({
+      id: u.gid,
+      name: u.name,
+      email: u.email || '',
+    }));
+  }
+
+  /**
+   * Create a RevOps work item task in Asana
+   */
+  async createTask(credentials: Record<string, any>, task: OpsWorkItem): Promise<{ externalId: string; url: string }> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    const projectGid = task.projectId || credentials.defaultProjectGid;
+
+    if (!projectGid) {
+      throw new Error('Asana adapter requires projectId in task or defaultProjectGid in credentials');
+    }
+
+    const sectionGid = task.sectionId || await this.resolveSectionGid(asanaCredentials, projectGid, task.category);
+
+    const data: Record<string, any> = {
+      ...this.buildTaskData(task),
+      memberships: [{ project: projectGid, section: sectionGid }],
+      notes: this.formatNotes(task),
+    };
+    data.workspace = await this.client.resolveWorkspaceGid(asanaCredentials);
+
+    const created = await this.client.createTask(asanaCredentials, data);
+    const url = created.permalink_url || `https://app.asana.com/0/${projectGid}/${created.gid}`;
+
+    return { externalId: created.gid, url };
+  }
+
+  /**
+   * Update an existing task in Asana
+   */
+  async updateTask(credentials: Record<string, any>, externalId: string, updates: Partial<OpsWorkItem>): Promise<void> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    const data = this.buildTaskData(updates);
+
+    if (updates.description) {
+      data.notes = updates.findingSummary && updates.sourceSkill
+        ? this.formatNotes(updates as OpsWorkItem)
+        : updates.description;
+    }
+
+    if (Object.keys(data).length === 0) return;
+
+    await this.client.updateTask(asanaCredentials, externalId, data);
+  }
+
+  /**
+   * Mark a task as completed in Asana
+   */
+  async completeTask(credentials: Record<string, any>, externalId: string): Promise<void> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    await this.client.updateTask(asanaCredentials, externalId, { completed: true });
+  }
+
+  /**
+   * Read the task's completion state
+   */
+  async getTaskStatus(credentials: Record<string, any>, externalId: string): Promise<PMTaskStatus> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    const task = await this.client.getTask(asanaCredentials, externalId);
+    return parseAsanaStatus(task);
+  }
+
+  /**
+   * Update the current value of an Asana goal's metric
+   */
+  async updateGoalProgress(credentials: Record<string, any>, goalId: string, value: number): Promise<void> {
+    const asanaCredentials = this.validateCredentials(credentials);
+    await this.client.setGoalMetricValue(asanaCredentials, goalId, value);
+  }
+
+  /**
+   * Resolve section gid from category, creating the section if it doesn't exist
+   */
+  private async resolveSectionGid(
+    credentials: AsanaCredentials,
+    projectGid: string,
+    category: OpsCategory
+  ): Promise<string> {
+    const targetName = OPS_CATEGORY_SECTION_NAMES[category] || DEFAULT_SECTION_NAME;
+
+    const sections = await this.client.getSections(credentials, projectGid);
+    const existing = sections.find(s => s.name === targetName);
+
+    if (existing) {
+      return existing.gid;
+    }
+
+    return await this.client.createSection(credentials, projectGid, targetName);
+  }
+
+  /**
+   * Build Asana task fields shared by create and update
+   */
+  private buildTaskData(task: Partial<OpsWorkItem>): Record<string, any> {
+    const data: Record<string, any> = {};
+
+    if (task.name) {
+      data.name = task.name;
+    }
+
+    if (task.dueDate) {
+      data.due_on = new Date(task.dueDate).toISOString().split('T')[0];
+    }
+
+    if (task.assigneeEmail) {
+      data.assignee = task.assigneeEmail;
+    }
+
+    return data;
+  }
+
+  /**
+   * Notes are plain text: priority and labels lead, then the Pandora context footer
+   */
+  private formatNotes(task: OpsWorkItem): string {
+    const header = [`Priority: ${this.mapPriority(task.priority)}`];
+    if (task.labels && task.labels.length > 0) {
+      header.push(`Labels: ${task.labels.join(', ')}`);
+    }
+    return `${header.join('\n')}\n\n${formatOpsDescription(task)}`;
+  }
+
+  /**
+   * Map Pandora priority to a label for the notes header
+   */
+  private mapPriority(priority: OpsPriority): string {
+    const mapping: Record<OpsPriority, string> = {
+      critical: 'Critical',
+      high: 'High',
+      medium: 'Medium',
+      low: 'Low',
+    };
+    return mapping[priority];
+  }
+
+  /**
+   * Validate and extract Asana credentials
+   */
+  private validateCredentials(credentials: Record<string, any>): AsanaCredentials {
+    if (!credentials.accessToken) {
+      throw new Error('Asana adapter requires accessToken in credentials');
+    }
+    return {
+      accessToken: credentials.accessToken,
+      workspaceGid: credentials.workspaceGid,
+    };
+  }
+}
+
+/**
+ * Normalize an Asana task. Asana has no canceled state — a closed task is completed.
+ */
+export function parseAsanaStatus(task: Pick<AsanaTask, 'completed' | 'completed_at' | 'memberships'>): PMTaskStatus {
+  if (task.completed) {
+    return { state: 'completed', statusName: 'Completed', completedAt: task.completed_at || undefined };
+  }
+  return { state: 'open', statusName: task.memberships?.[0]?.section?.name || 'Open' };
+}
@@ -0,0 +1,54 @@
+/**
+ * Shared formatting for PM tool adapters
+ *
+ * Section names per OpsCategory and the Pandora context footer appended to
+ * task descriptions, so work items read the same in every PM tool.
+ */
+
+import type { OpsCategory, OpsWorkItem } from './types.js';
+
+export const OPS_CATEGORY_SECTION_NAMES: Record<OpsCategory, string> = {
+  process_fix: 'Process Fixes',
+  system_config: 'System Configuration',
+  data_cleanup: 'Data Cleanup',
+  methodology_review: 'Methodology Review',
+  enablement_gap: 'Enablement',
+  territory_planning: 'Territory Planning',
+  reporting_request: 'Reporting',
+  gtm_strategy: 'GTM Strategy',
+};
+
+export const DEFAULT_SECTION_NAME = 'RevOps Tasks';
+
+/**
+ * Format description with Pandora context footer (markdown)
+ */
+export function formatOpsDescription(task: OpsWorkItem): string {
+  let description = task.description || '';
+
+  description += '\n\n---\n\n';
+  description += `**Finding:** ${task.findingSummary}\n`;
+
+  if (task.impactMetric) {
+    description += `**Impact:** ${task.impactMetric}\n`;
+  }
+
+  if (task.affectedRecordCount) {
+    description += `**Affected Records:** ${task.affectedRecordCount}\n`;
+  }
+
+  if (task.recommendedApproach) {
+    description += `\n**Recommended Approach:**\n${task.recommendedApproach}\n`;
+  }
+
+  description += `\n*Source: Pandora ${task.sourceSkill} skill*`;
+
+  return description.trim();
+}
+
+/**
+ * Convert a label to a slug safe for tools that reject spaces (Jira)
+ */
+export function toLabelSlug(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,251 @@
+/**
+ * Jira Cloud PM Tool Adapter
+ *
+ * Implements PandoraTaskAdapter interface for pushing RevOps operator work items
+ * to Jira Cloud projects.
+ *
+ * Architecture:
+ * - Projects are addressed by key ("OPS"); external IDs are issue keys ("OPS-123")
+ * - Sections map to project components. Components are matched by category
+ *   name but never created, since that needs project admin rights.
+ * - Category is always added as a label (pandora-data-cleanup) so boards can filter on it
+ * - Completing a task applies the first transition into the 'done' status category
+ */
+
+import type {
+  PandoraTaskAdapter,
+  OpsWorkItem,
+  OpsPriority,
+  PMTaskStatus,
+} from '../types.js';
+import { JiraClient, markdownToAdf, type JiraCredentials } from '../../jira/client.js';
+import { OPS_CATEGORY_SECTION_NAMES, formatOpsDescription, toLabelSlug } from '../format.js';
+
+// Resolutions that close an issue without doing the work
+const CANCELED_RESOLUTIONS = new Set(["won't do", "won't fix", 'duplicate', 'cannot reproduce', 'declined']);
+
+export class JiraPMAdapter implements PandoraTaskAdapter {
+  readonly connectorType = 'jira';
+  private client = new JiraClient();
+
+  /**
+   * Test connection to Jira Cloud
+   */
+  async testConnection(credentials: Record<string, any>): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    return this.client.testConnection(jiraCredentials);
+  }
+
+  /**
+   * List projects visible to the API user. IDs are project keys.
+   */
+  async listProjects(credentials: Record<string, any>): Promise<{ id: string; name: string }[]> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    const projects = await this.client.getProjects(jiraCredentials);
+    return projects.map(p => ({ id: p.key, name: p.name }));
+  }
+
+  /**
+   * List components (sections) within a project
+   */
+  async listSections(credentials: Record<string, any>, projectId: string): Promise<{ id: string; name: string }[]> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    const components = await this.client.getComponents(jiraCredentials, projectId);
+    return components.map(c => ({ id: c.id, name: c.name }));
+  }
+
+  /**
+   * List active users. Email is empty when hidden by the user's profile visibility.
+   */
+  async listUsers(credentials: Record<string, any>): Promise<{ id: string; name: string; email: string }[]> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    const users = await this.client.getUsers(jiraCredentials);
+    return users.map(u => ({
+      id: u.accountId,
+      name: u.displayName,
+      email: u.emailAddress || '',
+    }));
+  }
+
+  /**
+   * Create a RevOps work item issue in Jira
+   */
+  async createTask(credentials: Record<string, any>, task: OpsWorkItem): Promise<{ externalId: string; url: string }> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    const projectKey = task.projectId || credentials.defaultProjectKey;
+
+    if (!projectKey) {
+      throw new Error('Jira adapter requires projectId in task or defaultProjectKey in credentials');
+    }
+
+    const fields = await this.buildFields(jiraCredentials, task);
+    fields.project = { key: projectKey };
+    fields.issuetype = { name: credentials.issueType || 'Task' };
+
+    const componentId = task.sectionId || await this.resolveComponentId(jiraCredentials, projectKey, task);
+    if (componentId) {
+      fields.components = [{ id: componentId }];
+    }
+
+    const issue = await this.client.createIssue(jiraCredentials, fields);
+
+    return { externalId: issue.key, url: this.issueUrl(jiraCredentials, issue.key) };
+  }
+
+  /**
+   * Update an existing issue in Jira
+   */
+  async updateTask(credentials: Record<string, any>, externalId: string, updates: Partial<OpsWorkItem>): Promise<void> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    const fields = await this.buildFields(jiraCredentials, updates);
+
+    if (Object.keys(fields).length === 0) return;
+
+    await this.client.updateIssue(jiraCredentials, externalId, fields);
+  }
+
+  /**
+   * Transition an issue into the 'done' status category
+   */
+  async completeTask(credentials: Record<string, any>, externalId: string): Promise<void> {
+    const jiraCredentials = this.validateCredentials(credentials);
+
+    const issue = await this.client.getIssue(jiraCredentials, externalId);
+    if (issue.fields.status?.statusCategory?.key === 'done') return;
+
+    const transitions = await this.client.getTransitions(jiraCredentials, externalId);
+    const done = transitions.find(t => t.to?.statusCategory?.key === 'done');
+
+    if (!done) {
+      throw new Error(`No transition to a done status is available for Jira issue ${externalId}`);
+    }
+
+    await this.client.transitionIssue(jiraCredentials, externalId, done.id);
+  }
+
+  /**
+   * Read the issue's status category and resolution
+   */
+  async getTaskStatus(credentials: Record<string, any>, externalId: string): Promise<PMTaskStatus> {
+    const jiraCredentials = this.validateCredentials(credentials);
+    const issue = await this.client.getIssue(jiraCredentials, externalId);
+    return parseJiraStatus(issue.fields);
+  }
+
+  /**
+   * Match the category's section name against existing project components
+   */
+  private async resolveComponentId(
+    credentials: JiraCredentials,
+    projectKey: string,
+    task: OpsWorkItem
+  ): Promise<string | undefined> {
+    const targetName = OPS_CATEGORY_SECTION_NAMES[task.category];
+    if (!targetName) return undefined;
+
+    try {
+      const components = await this.client.getComponents(credentials, projectKey);
+      return components.find(c => c.name.toLowerCase() === targetName.toLowerCase())?.id;
+    } catch {
+      // Missing browse permission on components shouldn't block issue creation
+      return undefined;
+    }
+  }
+
+  /**
+   * Build Jira issue fields from OpsWorkItem
+   */
+  private async buildFields(credentials: JiraCredentials, task: Partial<OpsWorkItem>): Promise<Record<string, any>> {
+    const fields: Record<string, any> = {};
+
+    if (task.name) {
+      fields.summary = task.name.slice(0, 255);
+    }
+
+    if (task.description) {
+      fields.description = markdownToAdf(
+        task.findingSummary && task.sourceSkill ? formatOpsDescription(task as OpsWorkItem) : task.description
+      );
+    }
+
+    if (task.priority) {
+      fields.priority = { name: this.mapPriority(task.priority) };
+    }
+
+    if (task.dueDate) {
+      fields.duedate = new Date(task.dueDate).toISOString().split('T')[0];
+    }
+
+    if (task.assigneeEmail) {
+      const accountId = await this.client.findAccountIdByEmail(credentials, task.assigneeEmail);
+      if (accountId) {
+        fields.assignee = { accountId };
+      }
+    }
+
+    if (task.labels || task.category) {
+      const labels = (task.labels || []).map(toLabelSlug);
+      if (task.category) labels.push(`pandora-${toLabelSlug(task.category)}`);
+      fields.labels = Array.from(new Set(labels.filter(Boolean)));
+    }
+
+    return fields;
+  }
+
+  /**
+   * Map Pandora priority to Jira's default priority scheme
+   */
+  private mapPriority(priority: OpsPriority): string {
+    const mapping: Record<OpsPriority, string> = {
+      critical: 'Highest',
+      high: 'High',
+      medium: 'Medium',
+      low: 'Low',
+    };
+    return mapping[priority];
+  }
+
+  private issueUrl(credentials: JiraCredentials, issueKey: string): string {
+    return `${credentials.siteUrl.replace(/\/+$/, '')}/browse/${issueKey}`;
+  }
+
+  /**
+   * Validate and extract Jira credentials
+   */
+  private validateCredentials(credentials: Record<string, any>): JiraCredentials {
+    if (!credentials.siteUrl || !credentials.email || !credentials.apiToken) {
+      throw new Error('Jira adapter requires siteUrl, email and apiToken in credentials');
+    }
+    if (!/^https:\/\//.test(credentials.siteUrl)) {
+      throw new Error('Jira siteUrl must be an https URL (e.g. https://acme.atlassian.net)');
+    }
+    return {
+      siteUrl: credentials.siteUrl,
+      email: credentials.email,
+      apiToken: credentials.apiToken,
+    };
+  }
+}
+
+/**
+ * Normalize Jira status fields. Issues in the 'done' category resolved as
+ * Won't Do / Duplicate / etc. count as canceled rather than completed.
+ */
+export function parseJiraStatus(fields: {
+  status?: { name: string; statusCategory?: { key: string } };
+  resolution?: { name: string } | null;
+  resolutiondate?: string | null;
+}): PMTaskStatus {
+  const statusName = fields.status?.name || 'Unknown';
+
+  if (fields.status?.statusCategory?.key !== 'done') {
+    return { state: 'open', statusName };
+  }
+
+  const resolution = fields.resolution?.name?.toLowerCase();
+  return {
+    state: resolution && CANCELED_RESOLUTIONS.has(resolution) ? 'canceled' : 'completed',
+    statusName,
+    completedAt: fields.resolutiondate || undefined,
+  };
+}
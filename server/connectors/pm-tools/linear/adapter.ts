@@ -0,0 +1,220 @@
+/**
+ * Linear PM Tool Adapter
+ *
+ * Implements PandoraTaskAdapter interface for pushing RevOps operator work items
+ * to Linear.
+ *
+ * Architecture:
+ * - Linear issues belong to a team, so "projects" are teams and "sections"
+ *   are the Linear projects that team participates in
+ * - Descriptions are native markdown; no conversion needed
+ * - Labels are matched by name against existing labels (never created)
+ * - Completing a task moves it to the team's first 'completed' workflow state
+ */
+
+import type {
+  PandoraTaskAdapter,
+  OpsWorkItem,
+  OpsPriority,
+  PMTaskStatus,
+} from '../types.js';
+import { LinearClient, type LinearCredentials, type LinearIssue } from '../../linear/client.js';
+import { formatOpsDescription } from '../format.js';
+
+export class LinearPMAdapter implements PandoraTaskAdapter {
+  readonly connectorType = 'linear';
+  private client = new LinearClient();
+
+  /**
+   * Test connection to Linear
+   */
+  async testConnection(credentials: Record<string, any>): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    const linearCredentials = this.validateCredentials(credentials);
+    return this.client.testConnection(linearCredentials);
+  }
+
+  /**
+   * List teams (projects in Pandora terms)
+   */
+  async listProjects(credentials: Record<string, any>): Promise<{ id: string; name: string }[]> {
+    const linearCredentials = this.validateCredentials(credentials);
+    const teams = await this.client.getTeams(linearCredentials);
+    return teams.map(t => ({ id: t.id, name: `${t.name} (${t.key})` }));
+  }
+
+  /**
+   * List Linear projects (sections in Pandora terms) for a team
+   */
+  async listSections(credentials: Record<string, any>, projectId: string): Promise<{ id: string; name: string }[]> {
+    const linearCredentials = this.validateCredentials(credentials);
+    return this.client.getTeamProjects(linearCredentials, projectId);
+  }
+
+  /**
+   * List active users in the organization
+   */
+  async listUsers(credentials: Record<string, any>): Promise<{ id: string; name: string; email: string }[]> {
+    const linearCredentials = this.validateCredentials(credentials);
+    const users = await this.client.getUsers(linearCredentials);
+    return users.map(u => ({
+      id: u.id,
+      name: u.name,
+      email: u.email,
+    }));
+  }
+
+  /**
+   * Create a RevOps work item issue in Linear
+   */
+  async createTask(credentials: Record<string, any>, task: OpsWorkItem): Promise<{ externalId: string; url: string }> {
+    const linearCredentials = this.validateCredentials(credentials);
+    const teamId = task.projectId || credentials.defaultTeamId;
+
+    if (!teamId) {
+      throw new Error('Linear adapter requires projectId in task or defaultTeamId in credentials');
+    }
+
+    const input: Record<string, any> = {
+      ...await this.buildInput(linearCredentials, teamId, task),
+      teamId,
+      description: formatOpsDescription(task),
+    };
+
+    if (task.sectionId) {
+      input.projectId = task.sectionId;
+    }
+
+    const issue = await this.client.createIssue(linearCredentials, input);
+
+    return { externalId: issue.id, url: issue.url };
+  }
+
+  /**
+   * Update an existing issue in Linear
+   */
+  async updateTask(credentials: Record<string, any>, externalId: string, updates: Partial<OpsWorkItem>): Promise<void> {
+    const linearCredentials = this.validateCredentials(credentials);
+    const issue = await this.client.getIssue(linearCredentials, externalId);
+    const input = await this.buildInput(linearCredentials, issue.team.id, updates);
+
+    if (updates.description) {
+      input.description = updates.findingSummary && updates.sourceSkill
+        ? formatOpsDescription(updates as OpsWorkItem)
+        : updates.description;
+    }
+
+    if (Object.keys(input).length === 0) return;
+
+    await this.client.updateIssue(linearCredentials, externalId, input);
+  }
+
+  /**
+   * Move an issue to its team's first completed workflow state
+   */
+  async completeTask(credentials: Record<string, any>, externalId: string): Promise<void> {
+    const linearCredentials = this.validateCredentials(credentials);
+    const issue = await this.client.getIssue(linearCredentials, externalId);
+
+    if (issue.state?.type === 'completed') return;
+
+    const states = await this.client.getTeamStates(linearCredentials, issue.team.id);
+    const completed = states
+      .filter(s => s.type === 'completed')
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))[0];
+
+    if (!completed) {
+      throw new Error(`Linear team ${issue.team.id} has no completed workflow state`);
+    }
+
+    await this.client.updateIssue(linearCredentials, externalId, { stateId: completed.id });
+  }
+
+  /**
+   * Read the issue's workflow state
+   */
+  async getTaskStatus(credentials: Record<string, any>, externalId: string): Promise<PMTaskStatus> {
+    const linearCredentials = this.validateCredentials(credentials);
+    const issue = await this.client.getIssue(linearCredentials, externalId);
+    return parseLinearStatus(issue);
+  }
+
+  /**
+   * Build Linear issue input shared by create and update
+   */
+  private async buildInput(
+    credentials: LinearCredentials,
+    teamId: string,
+    task: Partial<OpsWorkItem>
+  ): Promise<Record<string, any>> {
+    const input: Record<string, any> = {};
+
+    if (task.name) {
+      input.title = task.name;
+    }
+
+    if (task.priority) {
+      input.priority = this.mapPriority(task.priority);
+    }
+
+    if (task.dueDate) {
+      input.dueDate = new Date(task.dueDate).toISOString().split('T')[0];
+    }
+
+    if (task.assigneeEmail) {
+      const assigneeId = await this.client.findUserIdByEmail(credentials, task.assigneeEmail);
+      if (assigneeId) {
+        input.assigneeId = assigneeId;
+      }
+    }
+
+    if (task.labels && task.labels.length > 0) {
+      const labelIds = await this.client.findLabelIds(credentials, teamId, task.labels);
+      if (labelIds.length > 0) {
+        input.labelIds = labelIds;
+      }
+    }
+
+    return input;
+  }
+
+  /**
+   * Map Pandora priority to Linear's numeric priority
+   */
+  private mapPriority(priority: OpsPriority): number {
+    const mapping: Record<OpsPriority, number> = {
+      critical: 1,
+      high: 2,
+      medium: 3,
+      low: 4,
+    };
+    return mapping[priority];
+  }
+
+  /**
+   * Validate and extract Linear credentials
+   */
+  private validateCredentials(credentials: Record<string, any>): LinearCredentials {
+    if (!credentials.apiKey) {
+      throw new Error('Linear adapter requires apiKey in credentials');
+    }
+    return {
+      apiKey: credentials.apiKey,
+    };
+  }
+}
+
+/**
+ * Normalize a Linear issue's workflow state
+ */
+export function parseLinearStatus(issue: Pick<LinearIssue, 'state' | 'completedAt' | 'canceledAt'>): PMTaskStatus {
+  const statusName = issue.state?.name || 'Unknown';
+
+  switch (issue.state?.type) {
+    case 'completed':
+      return { state: 'completed', statusName, completedAt: issue.completedAt || undefined };
+    case 'canceled':
+      return { state: 'canceled', statusName, completedAt: issue.canceledAt || undefined };
+    default:
+      return { state: 'open', statusName };
+  }
+}
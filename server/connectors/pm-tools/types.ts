@@ -25,6 +25,9 @@ export interface PandoraTaskAdapter {
   updateTask(credentials: Record<string, any>, externalId: string, updates: Partial<OpsWorkItem>): Promise<void>;
   completeTask(credentials: Record<string, any>, externalId: string): Promise<void>;
 
+  // Status sync (optional) — lets closing the ticket resolve the originating action
+  getTaskStatus?(credentials: Record<string, any>, externalId: string): Promise<PMTaskStatus>;
+
   // Goals (optional — Asana, ClickUp)
   updateGoalProgress?(credentials: Record<string, any>, goalId: string, value: number): Promise<void>;
 }
@@ -82,6 +85,15 @@ export interface PMTaskCreationResult {
   error?: string;
 }
 
+/**
+ * Normalized state of a task in the PM tool, used for two-way sync
+ */
+export interface PMTaskStatus {
+  state: 'open' | 'completed' | 'canceled';
+  statusName: string;       // Tool-native status label ("Done", "In Review", section name)
+  completedAt?: string;     // ISO timestamp when the tool reports one
+}
+
 /**
  * PM connector configuration stored in workspace settings
  */
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for Salesforce cdc.ts
+ *
+ * Tests grouping of CometD change event messages into records to refetch,
+ * gap/overflow detection and replay ID tracking.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { groupSalesforceChangeEvents, type CometdMessage } from '../cdc.js';
+
+vi.mock('../../../db.js', () => ({ query: vi.fn() }));
+vi.mock('../../../sync/change-events.js', () => ({
+  completeChangeEvents: vi.fn(),
+  queueFallbackSync: vi.fn(),
+}));
+vi.mock('../../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  }),
+}));
+
+const messages: CometdMessage[] = JSON.parse(
+  readFileSync(fileURLToPath(new URL('./fixtures/cdc-connect-response.json', import.meta.url)), 'utf8')
+);
+
+describe('groupSalesforceChangeEvents', () => {
+  const changeSet = groupSalesforceChangeEvents(messages);
+
+  it('collects distinct record IDs per entity', () => {
+    expect(Array.from(changeSet.opportunityIds).sort()).toEqual([
+      '0065g00000ABCDEAAA',
+      '0065g00000FGHIJAAA',
+      '0065g00000KLMNOAAA',
+    ]);
+    expect(Array.from(changeSet.accountIds)).toEqual(['0015g00000XYZABAAA']);
+    expect(Array.from(changeSet.contactIds)).toEqual(['0035g00000QRSTUAAA']);
+  });
+
+  it('records stage change times only when StageName changed', () => {
+    expect(changeSet.stageChangedAt.get('0065g00000ABCDEAAA')?.getTime()).toBe(1760000600000);
+    expect(changeSet.stageChangedAt.get('0065g00000FGHIJAAA')?.getTime()).toBe(1760000600000);
+    expect(changeSet.stageChangedAt.has('0065g00000KLMNOAAA')).toBe(false);
+  });
+
+  it('counts gap events and deletions', () => {
+    expect(changeSet.gaps).toBe(1);
+    expect(changeSet.deletions).toBe(1);
+    expect(changeSet.overflow).toBe(false);
+  });
+
+  it('tracks the highest replay ID per channel and skips meta channels', () => {
+    expect(changeSet.replay).toEqual({
+      '/data/OpportunityChangeEvent': 1043,
+      '/data/AccountChangeEvent': 877,
+      '/data/ContactChangeEvent': 313,
+    });
+  });
+
+  it('flags overflow without adding records', () => {
+    const overflow = groupSalesforceChangeEvents([{
+      channel: '/data/OpportunityChangeEvent',
+      data: {
+        payload: {
+          ChangeEventHeader: { entityName: 'Opportunity', changeType: 'GAP_OVERFLOW', commitTimestamp: 1760001000000, recordIds: [] },
+        },
+        event: { replayId: 2000 },
+      },
+    }]);
+    expect(overflow.overflow).toBe(true);
+    expect(overflow.opportunityIds.size).toBe(0);
+    expect(overflow.replay['/data/OpportunityChangeEvent']).toBe(2000);
+  });
+});
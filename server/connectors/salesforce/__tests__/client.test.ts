@@ -0,0 +1,47 @@
+/**
+ * Unit tests for Salesforce client.ts
+ *
+ * Tests that product and line-item queries only swallow the "object not
+ * enabled" error, so a transient failure cannot clear stored line items.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SalesforceApiError, SalesforceClient, SalesforceSessionExpiredError } from '../client.js';
+
+vi.mock('../../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  }),
+}));
+
+const client = new SalesforceClient({ accessToken: 'token', instanceUrl: 'https://acme.my.salesforce.com' });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getOpportunityLineItems', () => {
+  it('returns no rows when the org has products disabled', async () => {
+    vi.spyOn(client, 'queryAll').mockRejectedValue(
+      new SalesforceApiError('INVALID_TYPE', "sObject type 'OpportunityLineItem' is not supported.")
+    );
+
+    await expect(client.getOpportunityLineItems(['006A'])).resolves.toEqual([]);
+    await expect(client.getProducts()).resolves.toEqual([]);
+  });
+
+  it('rethrows transient failures instead of reporting an empty result', async () => {
+    const queryAll = vi.spyOn(client, 'queryAll');
+    queryAll.mockRejectedValueOnce(new SalesforceApiError('QUERY_TIMEOUT', 'Your query request was running for too long.'));
+    await expect(client.getOpportunityLineItems(['006A'])).rejects.toThrow('running for too long');
+
+    queryAll.mockRejectedValueOnce(new SalesforceSessionExpiredError());
+    await expect(client.getOpportunityLineItems()).rejects.toBeInstanceOf(SalesforceSessionExpiredError);
+
+    queryAll.mockRejectedValueOnce(new Error('Salesforce API error: 503 Service Unavailable'));
+    await expect(client.getProducts()).rejects.toThrow('503');
+  });
+});
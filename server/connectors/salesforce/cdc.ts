@@ -0,0 +1,476 @@
+/**
+ * Salesforce Change Data Capture Consumer
+ *
+ * Subscribes to CDC channels (/data/OpportunityChangeEvent etc.) over the
+ * Streaming API's CometD long-polling transport, and upserts just the changed
+ * records via syncSalesforceRecords.
+ *
+ * Key Patterns:
+ * - Opt-in per workspace: connections.metadata.cdc_enabled = true
+ * - Replay IDs are persisted to connections.sync_cursor.cdc.replay after each
+ *   batch, so a restart resumes where it left off (within Salesforce's 72h retention)
+ * - Gap events, overflow events and expired replay IDs all mean events were
+ *   lost; those queue an incremental sync rather than trying to reconstruct
+ *
+ * Streaming API docs: https://developer.salesforce.com/docs/atlas.en-us.change_data_capture.meta/change_data_capture/
+ */
+
+import { query } from '../../db.js';
+import { SalesforceClient } from './client.js';
+import { syncSalesforceRecords } from './sync.js';
+import { getFreshCredentials } from '../../utils/salesforce-token-refresh.js';
+import { completeChangeEvents, queueFallbackSync } from '../../sync/change-events.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('SalesforceCDC');
+
+export const DEFAULT_CDC_CHANNELS = [
+  '/data/OpportunityChangeEvent',
+  '/data/AccountChangeEvent',
+  '/data/ContactChangeEvent',
+];
+
+const COMETD_VERSION = '59.0';
+const CONNECT_TIMEOUT_MS = 130_000;    // server holds long-polls for up to 110s
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const REPLAY_NEW_EVENTS = -1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SalesforceChangeEventHeader {
+  entityName: string;              // 'Opportunity', 'Account', 'Contact'
+  changeType: string;              // CREATE | UPDATE | DELETE | UNDELETE | GAP_* | GAP_OVERFLOW
+  recordIds: string[];
+  commitTimestamp: number;
+  changedFields?: string[];
+  transactionKey?: string;
+  sequenceNumber?: number;
+  changeOrigin?: string;
+}
+
+export interface CometdMessage {
+  channel: string;
+  clientId?: string;
+  successful?: boolean;
+  error?: string;
+  subscription?: string;
+  advice?: { reconnect?: 'retry' | 'handshake' | 'none'; interval?: number; timeout?: number };
+  data?: {
+    schema?: string;
+    payload?: { ChangeEventHeader?: SalesforceChangeEventHeader; [field: string]: unknown };
+    event?: { replayId: number };
+  };
+}
+
+export interface SalesforceChangeSet {
+  opportunityIds: Set<string>;
+  contactIds: Set<string>;
+  accountIds: Set<string>;
+  stageChangedAt: Map<string, Date>;
+  deletions: number;
+  gaps: number;
+  overflow: boolean;
+  replay: Record<string, number>;
+}
+
+// ============================================================================
+// Event Grouping
+// ============================================================================
+
+const ENTITY_BUCKETS: Record<string, 'opportunityIds' | 'contactIds' | 'accountIds'> = {
+  Opportunity: 'opportunityIds',
+  Contact: 'contactIds',
+  Account: 'accountIds',
+};
+
+/**
+ * Collapse a batch of CDC messages into the distinct records to refetch.
+ * Also tracks the highest replayId seen per channel.
+ */
+export function groupSalesforceChangeEvents(messages: CometdMessage[]): SalesforceChangeSet {
+  const changeSet: SalesforceChangeSet = {
+    opportunityIds: new Set(),
+    contactIds: new Set(),
+    accountIds: new Set(),
+    stageChangedAt: new Map(),
+    deletions: 0,
+    gaps: 0,
+    overflow: false,
+    replay: {},
+  };
+
+  for (const message of messages) {
+    if (message.channel.startsWith('/meta/') || !message.data) continue;
+
+    const replayId = message.data.event?.replayId;
+    if (typeof replayId === 'number' && replayId > (changeSet.replay[message.channel] ?? REPLAY_NEW_EVENTS)) {
+      changeSet.replay[message.channel] = replayId;
+    }
+
+    const header = message.data.payload?.ChangeEventHeader;
+    if (!header) continue;
+
+    const changeType = header.changeType || '';
+    if (changeType === 'GAP_OVERFLOW') {
+      // Too many changes in one transaction — no record IDs, only a full resync recovers
+      changeSet.overflow = true;
+      continue;
+    }
+    if (changeType.startsWith('GAP_')) {
+      // Gap events carry record IDs but no field values; refetching still works
+      changeSet.gaps++;
+    }
+    if (changeType === 'DELETE' || changeType === 'GAP_DELETE') {
+      changeSet.deletions++;
+      continue;
+    }
+
+    const bucket = ENTITY_BUCKETS[header.entityName];
+    if (!bucket) continue;
+
+    for (const recordId of header.recordIds || []) {
+      changeSet[bucket].add(recordId);
+
+      if (bucket === 'opportunityIds' && header.changedFields?.includes('StageName')) {
+        const committedAt = new Date(header.commitTimestamp);
+        const existing = changeSet.stageChangedAt.get(recordId);
+        if (!isNaN(committedAt.getTime()) && (!existing || committedAt > existing)) {
+          changeSet.stageChangedAt.set(recordId, committedAt);
+        }
+      }
+    }
+  }
+
+  return changeSet;
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+/**
+ * Apply a batch of CDC messages for one workspace.
+ * Returns the replay IDs that are now safe to persist.
+ */
+export async function processSalesforceChangeEvents(
+  workspaceId: string,
+  client: SalesforceClient,
+  messages: CometdMessage[]
+): Promise<Record<string, number>> {
+  const changeSet = groupSalesforceChangeEvents(messages);
+  const recordCount = changeSet.opportunityIds.size + changeSet.contactIds.size + changeSet.accountIds.size;
+
+  if (changeSet.overflow) {
+    await queueFallbackSync(workspaceId, 'salesforce', 'CDC GAP_OVERFLOW event');
+  }
+
+  if (recordCount === 0) return changeSet.replay;
+
+  try {
+    const result = await syncSalesforceRecords(client, workspaceId, {
+      opportunityIds: Array.from(changeSet.opportunityIds),
+      contactIds: Array.from(changeSet.contactIds),
+      accountIds: Array.from(changeSet.accountIds),
+      stageChangedAt: changeSet.stageChangedAt,
+    });
+
+    logger.info('Applied change events', {
+      workspaceId,
+      deals: result.deals.length,
+      contacts: result.contacts.length,
+      accounts: result.accounts.length,
+      stageChanges: result.stageChanges,
+      gaps: changeSet.gaps,
+      errors: result.errors.length,
+    });
+
+    await completeChangeEvents(workspaceId, 'salesforce', result);
+
+    if (result.errors.length > 0) {
+      await queueFallbackSync(workspaceId, 'salesforce', `CDC apply errors: ${result.errors[0]}`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to apply change events', { workspaceId, error: message });
+    await queueFallbackSync(workspaceId, 'salesforce', `CDC processing failed: ${message}`);
+  }
+
+  return changeSet.replay;
+}
+
+// ============================================================================
+// CometD Consumer
+// ============================================================================
+
+export class SalesforceCdcConsumer {
+  private clientId: string | null = null;
+  private cookies = new Map<string, string>();
+  private credentials: { accessToken: string; instanceUrl: string } | null = null;
+  private abortController: AbortController | null = null;
+  private running = false;
+  private failures = 0;
+
+  constructor(
+    readonly workspaceId: string,
+    private channels: string[],
+    private replay: Record<string, number>
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop().catch(err => {
+      logger.error('CDC loop crashed', { workspaceId: this.workspaceId, error: err instanceof Error ? err.message : err });
+      this.running = false;
+    });
+  }
+
+  stop(): void {
+    this.running = false;
+    this.abortController?.abort();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private async loop(): Promise<void> {
+    logger.info('CDC consumer starting', { workspaceId: this.workspaceId, channels: this.channels });
+
+    while (this.running) {
+      try {
+        if (!this.clientId) {
+          await this.handshake();
+          await this.subscribe();
+        }
+
+        const messages = await this.send([{
+          channel: '/meta/connect',
+          clientId: this.clientId!,
+          connectionType: 'long-polling',
+        }], CONNECT_TIMEOUT_MS);
+
+        const connectReply = messages.find(m => m.channel === '/meta/connect');
+        const events = messages.filter(m => !m.channel.startsWith('/meta/'));
+
+        if (events.length > 0) {
+          await this.handleEvents(events);
+        }
+
+        if (connectReply && connectReply.successful === false) {
+          if (connectReply.advice?.reconnect === 'none') {
+            logger.warn('Server refused reconnect, stopping consumer', { workspaceId: this.workspaceId, error: connectReply.error });
+            this.running = false;
+            break;
+          }
+          // '403::Unknown client' and friends: start a new session
+          this.clientId = null;
+        }
+
+        this.failures = 0;
+      } catch (err) {
+        if (!this.running) break;
+        this.failures++;
+        this.clientId = null;
+        this.credentials = null;
+        const delay = Math.min(MAX_BACKOFF_MS, 1000 * Math.pow(2, this.failures));
+        logger.warn('CDC connection error, backing off', {
+          workspaceId: this.workspaceId,
+          error: err instanceof Error ? err.message : err,
+          retryInMs: delay,
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    logger.info('CDC consumer stopped', { workspaceId: this.workspaceId });
+  }
+
+  private async handshake(): Promise<void> {
+    const fresh = await getFreshCredentials(this.workspaceId);
+    this.credentials = { accessToken: fresh.accessToken, instanceUrl: fresh.instanceUrl };
+    this.cookies.clear();
+
+    const [reply] = await this.send([{
+      channel: '/meta/handshake',
+      version: '1.0',
+      minimumVersion: '1.0',
+      supportedConnectionTypes: ['long-polling'],
+      ext: { replay: true },
+    }]);
+
+    if (!reply?.successful || !reply.clientId) {
+      throw new Error(`CometD handshake failed: ${reply?.error || 'no clientId'}`);
+    }
+    this.clientId = reply.clientId;
+  }
+
+  private async subscribe(): Promise<void> {
+    for (const channel of this.channels) {
+      const replayId = this.replay[channel] ?? REPLAY_NEW_EVENTS;
+      let [reply] = await this.send([{
+        channel: '/meta/subscribe',
+        clientId: this.clientId!,
+        subscription: channel,
+        ext: { replay: { [channel]: replayId } },
+      }]);
+
+      if (!reply?.successful && reply?.error?.includes('replayId')) {
+        // Stored position is outside the retention window — events were lost
+        logger.warn('Replay ID expired, resubscribing from tip', { workspaceId: this.workspaceId, channel, replayId });
+        this.replay[channel] = REPLAY_NEW_EVENTS;
+        await queueFallbackSync(this.workspaceId, 'salesforce', `CDC replay ID expired on ${channel}`);
+        [reply] = await this.send([{
+          channel: '/meta/subscribe',
+          clientId: this.clientId!,
+          subscription: channel,
+          ext: { replay: { [channel]: REPLAY_NEW_EVENTS } },
+        }]);
+      }
+
+      if (!reply?.successful) {
+        // Usually the object isn't selected for CDC in Salesforce Setup
+        logger.warn('CDC subscribe failed', { workspaceId: this.workspaceId, channel, error: reply?.error });
+      }
+    }
+  }
+
+  private async handleEvents(events: CometdMessage[]): Promise<void> {
+    const client = new SalesforceClient({
+      accessToken: this.credentials!.accessToken,
+      instanceUrl: this.credentials!.instanceUrl,
+    });
+
+    const replay = await processSalesforceChangeEvents(this.workspaceId, client, events);
+    Object.assign(this.replay, replay);
+    await persistReplayIds(this.workspaceId, this.replay);
+  }
+
+  private async send(messages: Array<Record<string, unknown>>, timeoutMs = 30_000): Promise<CometdMessage[]> {
+    if (!this.credentials) throw new Error('No Salesforce credentials loaded');
+
+    this.abortController = new AbortController();
+    const timer = setTimeout(() => this.abortController?.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${this.credentials.instanceUrl}/cometd/${COMETD_VERSION}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.credentials.accessToken}`,
+          'Content-Type': 'application/json',
+          ...(this.cookies.size > 0
+            ? { 'Cookie': Array.from(this.cookies.entries()).map(([k, v]) => `${k}=${v}`).join('; ') }
+            : {}),
+        },
+        body: JSON.stringify(messages),
+        signal: this.abortController.signal,
+      });
+
+      for (const cookie of response.headers.getSetCookie()) {
+        const [pair] = cookie.split(';');
+        const eq = pair.indexOf('=');
+        if (eq > 0) this.cookies.set(pair.slice(0, eq).trim(), pair.slice(eq + 1).trim());
+      }
+
+      if (response.status === 401) {
+        throw new Error('Salesforce session expired');
+      }
+      if (!response.ok) {
+        throw new Error(`CometD HTTP error: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.json() as CometdMessage[];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+async function persistReplayIds(workspaceId: string, replay: Record<string, number>): Promise<void> {
+  await query(
+    `UPDATE connections
+     SET sync_cursor = COALESCE(sync_cursor, '{}'::jsonb) || jsonb_build_object('cdc', jsonb_build_object('replay', $1::jsonb))
+     WHERE workspace_id = $2 AND connector_name = 'salesforce'`,
+    [JSON.stringify(replay), workspaceId]
+  ).catch(err => {
+    logger.warn('Failed to persist CDC replay IDs', { workspaceId, error: err instanceof Error ? err.message : err });
+  });
+}
+
+// ============================================================================
+// Consumer Registry
+// ============================================================================
+
+const consumers = new Map<string, SalesforceCdcConsumer>();
+
+/**
+ * Start (or restart) the CDC consumer for one workspace from its stored settings.
+ */
+export async function startSalesforceCdcConsumer(workspaceId: string): Promise<boolean> {
+  const result = await query<{ metadata: any; sync_cursor: any }>(
+    `SELECT metadata, sync_cursor FROM connections
+     WHERE workspace_id = $1 AND connector_name = 'salesforce'
+       AND status NOT IN ('disconnected', 'error')`,
+    [workspaceId]
+  );
+  const row = result.rows[0];
+
+  stopSalesforceCdcConsumer(workspaceId);
+  if (!row || row.metadata?.cdc_enabled !== true) return false;
+
+  const channels: string[] = Array.isArray(row.metadata?.cdc_channels) && row.metadata.cdc_channels.length > 0
+    ? row.metadata.cdc_channels
+    : DEFAULT_CDC_CHANNELS;
+  const replay: Record<string, number> = { ...(row.sync_cursor?.cdc?.replay ?? {}) };
+
+  const consumer = new SalesforceCdcConsumer(workspaceId, channels, replay);
+  consumers.set(workspaceId, consumer);
+  consumer.start();
+  return true;
+}
+
+export function stopSalesforceCdcConsumer(workspaceId: string): void {
+  const existing = consumers.get(workspaceId);
+  if (existing) {
+    existing.stop();
+    consumers.delete(workspaceId);
+  }
+}
+
+export function getSalesforceCdcStatus(workspaceId: string): { running: boolean } {
+  return { running: consumers.get(workspaceId)?.isRunning() ?? false };
+}
+
+/**
+ * Start consumers for every workspace that has CDC enabled. Called at boot.
+ */
+export async function startSalesforceCdcConsumers(): Promise<number> {
+  const result = await query<{ workspace_id: string }>(
+    `SELECT workspace_id FROM connections
+     WHERE connector_name = 'salesforce'
+       AND status NOT IN ('disconnected', 'error')
+       AND metadata->>'cdc_enabled' = 'true'`
+  );
+
+  let started = 0;
+  for (const row of result.rows) {
+    try {
+      if (await startSalesforceCdcConsumer(row.workspace_id)) started++;
+    } catch (err) {
+      logger.warn('Failed to start CDC consumer', { workspaceId: row.workspace_id, error: err instanceof Error ? err.message : err });
+    }
+  }
+
+  if (started > 0) {
+    logger.info('CDC consumers started', { count: started });
+  }
+  return started;
+}
+
+export function stopSalesforceCdcConsumers(): void {
+  for (const workspaceId of Array.from(consumers.keys())) {
+    stopSalesforceCdcConsumer(workspaceId);
+  }
+}
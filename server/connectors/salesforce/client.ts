@@ -16,6 +16,9 @@ import type {
   SalesforceLead,
   SalesforceStage,
   SalesforceContactRole,
+  SalesforceOpportunitySplit,
+  SalesforceOpportunityLineItem,
+  SalesforceProduct,
   SalesforceTask,
   SalesforceEvent,
   SalesforceObjectDescribe,
@@ -61,6 +64,14 @@ export class SalesforceRateLimitError extends SalesforceApiError {
   }
 }
 
+/**
+ * The queried sObject does not exist in this org (e.g. products and price
+ * books are not enabled)
+ */
+export function isObjectNotEnabledError(error: unknown): boolean {
+  return error instanceof SalesforceApiError && error.errorCode === 'INVALID_TYPE';
+}
+
 export interface SalesforceOpportunityFieldHistory {
   Id?: string;
   OpportunityId: string;
@@ -528,6 +539,69 @@ export class SalesforceClient {
     }
   }
 
+  /**
+   * OpportunitySplit rows (revenue and overlay). Orgs without Opportunity
+   * Splits enabled have no such sObject; that returns an empty array.
+   */
+  async getOpportunitySplits(
+    opportunityIds?: string[]
+  ): Promise<SalesforceOpportunitySplit[]> {
+    let soql = `SELECT Id, OpportunityId, SplitOwnerId, SplitPercentage,
+                SplitOwner.Name, SplitOwner.Email,
+                SplitType.DeveloperName, SplitType.IsTotalValidated
+                FROM OpportunitySplit`;
+
+    if (opportunityIds && opportunityIds.length > 0) {
+      const ids = opportunityIds.map(id => `'${id}'`).join(', ');
+      soql += ` WHERE OpportunityId IN (${ids})`;
+    }
+
+    try {
+      return await this.queryAll<SalesforceOpportunitySplit>(soql);
+    } catch (error) {
+      logger.warn('[Salesforce] OpportunitySplit query failed (Opportunity Splits may not be enabled)', { error });
+      return [];
+    }
+  }
+
+  /**
+   * OpportunityLineItem rows. Orgs without products/price books enabled
+   * have no such sObject; that returns an empty array.
+   */
+  async getOpportunityLineItems(
+    opportunityIds?: string[]
+  ): Promise<SalesforceOpportunityLineItem[]> {
+    let soql = `SELECT Id, OpportunityId, Product2Id, Name, ProductCode,
+                Quantity, UnitPrice, ListPrice, Discount, TotalPrice
+                FROM OpportunityLineItem`;
+
+    if (opportunityIds && opportunityIds.length > 0) {
+      const ids = opportunityIds.map(id => `'${id}'`).join(', ');
+      soql += ` WHERE OpportunityId IN (${ids})`;
+    }
+
+    try {
+      return await this.queryAll<SalesforceOpportunityLineItem>(soql);
+    } catch (error) {
+      // Transient failures must surface so callers keep stored line items
+      if (!isObjectNotEnabledError(error)) throw error;
+      logger.warn('[Salesforce] OpportunityLineItem not available (products not enabled)', { error });
+      return [];
+    }
+  }
+
+  async getProducts(): Promise<SalesforceProduct[]> {
+    try {
+      return await this.queryAll<SalesforceProduct>(
+        `SELECT Id, Name, ProductCode, Family, IsActive FROM Product2`
+      );
+    } catch (error) {
+      if (!isObjectNotEnabledError(error)) throw error;
+      logger.warn('[Salesforce] Product2 not available (products not enabled)', { error });
+      return [];
+    }
+  }
+
   async getTasks(
     opportunityIds?: string[],
     contactIds?: string[],
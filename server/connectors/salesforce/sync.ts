@@ -8,6 +8,12 @@ import { computeFields } from '../../computed-fields/engine.js';
 import { transformWithErrorCapture } from '../../utils/sync-helpers.js';
 import { updateCredentialFields } from '../../lib/credential-store.js';
 import { syncCustomObjects } from './custom-object-sync.js';
+import { detectStageChanges, recordStageChanges, updateDealStageCache } from '../hubspot/stage-tracker.js';
+import { detectFieldChanges, recordFieldChanges, type FieldChange } from '../hubspot/field-tracker.js';
+import { stampDealScopes } from '../../config/scope-stamper.js';
+import { applyDealCurrency } from '../../currency/fx-rates.js';
+import { replaceCrmDealSplits } from '../../quotas/deal-splits.js';
+import { replaceDealLineItems, upsertProducts } from '../../products/line-items.js';
 
 const logger = createLogger('SalesforceSync');
 
@@ -40,28 +46,37 @@ async function upsertDeals(deals: NormalizedDeal[]): Promise<number> {
   return upsertInBatches(deals, async (batch) => {
     if (batch.length === 0) return 0;
 
+    const currencyValues = await applyDealCurrency(batch[0].workspace_id, batch);
+
     const client = await getClient();
     let stored = 0;
     try {
       await client.query('BEGIN');
 
-      for (const deal of batch) {
+      for (let i = 0; i < batch.length; i++) {
+        const deal = batch[i];
+        const fx = currencyValues[i];
         await client.query(
           `INSERT INTO deals (
             workspace_id, source, source_id, source_data,
             name, amount, stage, stage_normalized, close_date, owner,
             probability, forecast_category, forecast_category_source, pipeline,
-            last_activity_date, custom_fields, next_steps, lead_source, created_at, updated_at
+            last_activity_date, custom_fields, next_steps, lead_source, created_at, updated_at,
+            currency_code, amount_original, fx_rate
           ) VALUES (
             $1, $2, $3, $4,
             $5, $6, $7, $8, $9, $10,
             $11, $12, $13, $14,
-            $15, $16, $17, $18, COALESCE($19::timestamptz, NOW()), NOW()
+            $15, $16, $17, $18, COALESCE($19::timestamptz, NOW()), NOW(),
+            $20, $21, $22
           )
           ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
             source_data = EXCLUDED.source_data,
             name = EXCLUDED.name,
             amount = EXCLUDED.amount,
+            currency_code = EXCLUDED.currency_code,
+            amount_original = EXCLUDED.amount_original,
+            fx_rate = EXCLUDED.fx_rate,
             stage = EXCLUDED.stage,
             stage_normalized = EXCLUDED.stage_normalized,
             close_date = EXCLUDED.close_date,
@@ -77,10 +92,11 @@ async function upsertDeals(deals: NormalizedDeal[]): Promise<number> {
             updated_at = NOW()`,
           [
             deal.workspace_id, deal.source, deal.source_id, JSON.stringify(deal.source_data),
-            deal.name, deal.amount, deal.stage, deal.stage_normalized, deal.close_date, deal.owner,
+            deal.name, fx.amount, deal.stage, deal.stage_normalized, deal.close_date, deal.owner,
             deal.probability, deal.forecast_category, deal.forecast_category_source, deal.pipeline,
             deal.last_activity_date, JSON.stringify(deal.custom_fields), deal.next_steps, deal.lead_source,
             deal.source_data?.CreatedDate || null,
+            fx.currency_code, fx.amount_original, fx.fx_rate,
           ]
         );
         stored++;
@@ -650,6 +666,16 @@ async function runSync(
     errors.push(`Contact roles sync failed: ${err.message}`);
   });
 
+  // Sync OpportunitySplit → deal_splits
+  await syncOpportunitySplits(client, workspaceId).catch(err => {
+    errors.push(`Opportunity splits sync failed: ${err.message}`);
+  });
+
+  // Sync Product2 + OpportunityLineItem → products, deal_line_items
+  await syncOpportunityLineItems(client, workspaceId).catch(err => {
+    errors.push(`Line item sync failed: ${err.message}`);
+  });
+
   // Sync Activities (Tasks + Events)
   const sinceDate = watermark ? new Date(watermark) : null;
   await syncActivities(client, workspaceId, sinceDate).catch(err => {
@@ -707,13 +733,230 @@ async function runSync(
   };
 }
 
+// ============================================================================
+// Record-Level Sync (Change Data Capture)
+// ============================================================================
+
+export interface RecordSyncTargets {
+  opportunityIds: string[];
+  contactIds: string[];
+  accountIds: string[];
+  /** CDC commit timestamp of each opportunity's StageName change (keyed by 18-char Id) */
+  stageChangedAt?: Map<string, Date>;
+}
+
+export interface RecordSyncResult {
+  deals: string[];
+  contacts: string[];
+  accounts: string[];
+  stageChanges: number;
+  errors: string[];
+}
+
+const SALESFORCE_ID_PATTERN = /^[a-zA-Z0-9]{15,18}$/;
+
+function idInClause(ids: string[]): string | null {
+  const safe = ids.filter(id => SALESFORCE_ID_PATTERN.test(id));
+  return safe.length > 0 ? `Id IN (${safe.map(id => `'${id}'`).join(', ')})` : null;
+}
+
+/**
+ * Upsert a specific set of records (CDC ingestion).
+ * Same transforms and FK resolution as runSync, plus stage change detection,
+ * but does NOT touch last_sync_at — the scheduled incremental sync keeps
+ * owning the watermark, so anything missed here is still picked up.
+ */
+export async function syncSalesforceRecords(
+  client: SalesforceClient,
+  workspaceId: string,
+  targets: RecordSyncTargets
+): Promise<RecordSyncResult> {
+  const errors: string[] = [];
+  const result: RecordSyncResult = { deals: [], contacts: [], accounts: [], stageChanges: 0, errors };
+
+  let stageMap = new Map<string, SalesforceStage>();
+  if (targets.opportunityIds.length > 0) {
+    try {
+      const stages = await client.getOpportunityStages();
+      stageMap = new Map(stages.map(s => [s.ApiName, s]));
+    } catch (err: any) {
+      errors.push(`Failed to fetch stage metadata: ${err.message}`);
+    }
+  }
+
+  const oppWhere = idInClause(targets.opportunityIds);
+  const contactWhere = idInClause(targets.contactIds);
+  const accountWhere = idInClause(targets.accountIds);
+
+  const [rawOpportunities, rawContacts, rawAccounts] = await Promise.all([
+    oppWhere ? client.getOpportunities(undefined, oppWhere).catch(err => {
+      errors.push(`Failed to fetch opportunities: ${err.message}`);
+      return [];
+    }) : Promise.resolve([]),
+    contactWhere ? client.getContacts(undefined, contactWhere).catch(err => {
+      errors.push(`Failed to fetch contacts: ${err.message}`);
+      return [];
+    }) : Promise.resolve([]),
+    accountWhere ? client.getAccounts(undefined, accountWhere).catch(err => {
+      errors.push(`Failed to fetch accounts: ${err.message}`);
+      return [];
+    }) : Promise.resolve([]),
+  ]);
+
+  const accountResult = transformWithErrorCapture(
+    rawAccounts,
+    (acc) => transformAccount(acc, workspaceId),
+    'Salesforce Accounts (CDC)',
+    (acc) => acc.Id
+  );
+  const contactResult = transformWithErrorCapture(
+    rawContacts,
+    (con) => transformContact(con, workspaceId),
+    'Salesforce Contacts (CDC)',
+    (con) => con.Id
+  );
+  const dealResult = transformWithErrorCapture(
+    rawOpportunities,
+    (opp) => transformOpportunity(opp, workspaceId, stageMap),
+    'Salesforce Opportunities (CDC)',
+    (opp) => opp.Id
+  );
+
+  accountResult.failed.forEach(f => errors.push(`Account: ${f.error} (${f.recordId})`));
+  contactResult.failed.forEach(f => errors.push(`Contact: ${f.error} (${f.recordId})`));
+  dealResult.failed.forEach(f => errors.push(`Opportunity: ${f.error} (${f.recordId})`));
+
+  const normalizedAccounts = accountResult.succeeded;
+  const normalizedContacts = contactResult.succeeded;
+  const normalizedDeals = dealResult.succeeded;
+
+  await upsertAccounts(normalizedAccounts).catch(err => {
+    errors.push(`Failed to store accounts: ${err.message}`);
+  });
+
+  // Detect stage changes BEFORE upserting deals (must capture previous stage)
+  let stageChanges: Awaited<ReturnType<typeof detectStageChanges>> = [];
+  try {
+    stageChanges = await detectStageChanges(
+      workspaceId,
+      normalizedDeals.map(d => ({
+        sourceId: d.source_id,
+        stage: d.stage,
+        stage_normalized: d.stage_normalized,
+      })) as any
+    );
+
+    stageChanges = stageChanges.map(change => {
+      const committedAt = targets.stageChangedAt?.get(change.dealSourceId);
+      if (!committedAt) return change;
+      const enteredPrevious = change.durationMs != null ? change.changedAt.getTime() - change.durationMs : null;
+      return {
+        ...change,
+        changedAt: committedAt,
+        durationMs: enteredPrevious != null ? Math.max(0, committedAt.getTime() - enteredPrevious) : null,
+      };
+    });
+
+    if (stageChanges.length > 0) {
+      result.stageChanges = await recordStageChanges(stageChanges, 'sync_detection');
+      import('../../webhooks/deal-events.js')
+        .then(m => m.emitDealStageChangedEvents(workspaceId, stageChanges))
+        .catch(() => {});
+    }
+  } catch (err: any) {
+    errors.push(`Stage change detection failed: ${err.message}`);
+  }
+
+  let fieldChanges: FieldChange[] = [];
+  try {
+    fieldChanges = await detectFieldChanges(workspaceId, normalizedDeals.map(d => ({
+      sourceId: d.source_id,
+      amount: d.amount,
+      close_date: d.close_date,
+      forecast_category: d.forecast_category,
+    })));
+    if (fieldChanges.length > 0) {
+      await recordFieldChanges(fieldChanges, 'sync_detection');
+    }
+  } catch (err: any) {
+    errors.push(`Field change detection failed: ${err.message}`);
+  }
+
+  await Promise.all([
+    upsertContacts(normalizedContacts).catch(err => {
+      errors.push(`Failed to store contacts: ${err.message}`);
+    }),
+    upsertDeals(normalizedDeals).catch(err => {
+      errors.push(`Failed to store deals: ${err.message}`);
+    }),
+  ]);
+
+  if (stageChanges.length > 0) {
+    await updateDealStageCache(stageChanges).catch(err => {
+      errors.push(`Stage cache update failed: ${err.message}`);
+    });
+  }
+
+  if (stageChanges.length > 0 || fieldChanges.length > 0) {
+    import('../../workflow/trigger-manager.js')
+      .then(m => m.workflowTriggerManager.onDealChanges(workspaceId, stageChanges, fieldChanges))
+      .catch(() => {});
+  }
+
+  const allAccountSourceIds = new Set<string>(normalizedAccounts.map(a => a.source_id));
+  const allContactSourceIds = new Set<string>(normalizedContacts.map(c => c.source_id));
+  for (const d of normalizedDeals) {
+    if (d.account_source_id) allAccountSourceIds.add(d.account_source_id);
+  }
+  for (const c of normalizedContacts) {
+    if (c.account_source_id) allAccountSourceIds.add(c.account_source_id);
+  }
+
+  const [accountIdMap, contactIdMap] = await Promise.all([
+    resolveAccountIds(workspaceId, allAccountSourceIds),
+    resolveContactIds(workspaceId, allContactSourceIds),
+  ]);
+
+  await Promise.all([
+    updateDealForeignKeys(workspaceId, normalizedDeals, accountIdMap, contactIdMap),
+    updateContactAccountIds(workspaceId, normalizedContacts, accountIdMap),
+  ]);
+
+  if (normalizedDeals.length > 0) {
+    await syncContactRoles(client, workspaceId, normalizedDeals.map(d => d.source_id)).catch(err => {
+      errors.push(`Contact roles sync failed: ${err.message}`);
+    });
+    await syncOpportunitySplits(client, workspaceId, normalizedDeals.map(d => d.source_id)).catch(err => {
+      errors.push(`Opportunity splits sync failed: ${err.message}`);
+    });
+    await syncOpportunityLineItems(client, workspaceId, normalizedDeals.map(d => d.source_id)).catch(err => {
+      errors.push(`Line item sync failed: ${err.message}`);
+    });
+
+    const dealRows = await query<{ id: string }>(
+      `SELECT id FROM deals WHERE workspace_id = $1 AND source = '${SOURCE}' AND source_id = ANY($2)`,
+      [workspaceId, normalizedDeals.map(d => d.source_id)]
+    );
+    result.deals = dealRows.rows.map(r => r.id);
+    await stampDealScopes(workspaceId, result.deals).catch(err => {
+      logger.warn('CDC scope stamping failed', { workspaceId, error: err instanceof Error ? err.message : err });
+    });
+  }
+
+  result.accounts = normalizedAccounts.map(a => accountIdMap.get(a.source_id)).filter((id): id is string => !!id);
+  result.contacts = normalizedContacts.map(c => contactIdMap.get(c.source_id)).filter((id): id is string => !!id);
+
+  return result;
+}
+
 // ============================================================================
 // Contact Roles Sync (OpportunityContactRole → deal_contacts)
 // ============================================================================
 
 async function syncContactRoles(
   client: SalesforceClient,
-  workspaceId: string
+  workspaceId: string,
+  opportunityIds?: string[]
 ): Promise<void> {
   const dealResult = await query<{ source_id: string; id: string }>(
     `SELECT source_id, id FROM deals WHERE workspace_id = $1 AND source = 'salesforce'`,
@@ -727,7 +970,7 @@ async function syncContactRoles(
   );
   const contactIdMap = new Map(contactResult.rows.map(r => [r.source_id, r.id]));
 
-  const roles = await client.getOpportunityContactRoles();
+  const roles = await client.getOpportunityContactRoles(opportunityIds);
 
   if (roles.length === 0) {
     logger.info('No OpportunityContactRoles found (may not be used in this org)');
@@ -759,6 +1002,112 @@ async function syncContactRoles(
   logger.info('Synced contact roles', { total: roles.length, synced, skipped });
 }
 
+// ============================================================================
+// Opportunity Splits Sync (OpportunitySplit → deal_splits)
+// ============================================================================
+
+async function syncOpportunitySplits(
+  client: SalesforceClient,
+  workspaceId: string,
+  opportunityIds?: string[]
+): Promise<void> {
+  // With splits enabled every opportunity keeps at least the owner's revenue
+  // split, so an empty result means splits are off (or the query failed):
+  // leave stored splits untouched rather than wiping them.
+  const splits = await client.getOpportunitySplits(opportunityIds);
+  if (splits.length === 0) {
+    logger.info('No OpportunitySplits found (splits may not be enabled in this org)');
+    return;
+  }
+
+  let dealSourceIds = opportunityIds;
+  if (!dealSourceIds) {
+    const dealResult = await query<{ source_id: string }>(
+      `SELECT source_id FROM deals WHERE workspace_id = $1 AND source = 'salesforce'`,
+      [workspaceId]
+    );
+    dealSourceIds = dealResult.rows.map(r => r.source_id);
+  }
+
+  const stored = await replaceCrmDealSplits(
+    workspaceId,
+    'salesforce',
+    dealSourceIds,
+    splits
+      .filter(s => (s.SplitPercentage ?? 0) > 0)
+      .map(s => ({
+        deal_source_id: s.OpportunityId,
+        // Same identity format as deals.owner (see transformOpportunity)
+        rep: s.SplitOwner?.Email || s.SplitOwner?.Name || s.SplitOwnerId,
+        rep_email: s.SplitOwner?.Email ?? null,
+        // Split types validated to 100% are revenue splits; the rest are overlay
+        split_type: s.SplitType?.IsTotalValidated === false ? 'overlay' as const : 'revenue' as const,
+        split_percent: Math.min(100, s.SplitPercentage ?? 0),
+        source_ref: s.Id,
+      }))
+  );
+
+  logger.info('Synced opportunity splits', { total: splits.length, stored });
+}
+
+// ============================================================================
+// Products & Line Items (Product2 + OpportunityLineItem)
+// ============================================================================
+
+async function syncOpportunityLineItems(
+  client: SalesforceClient,
+  workspaceId: string,
+  opportunityIds?: string[]
+): Promise<void> {
+  const [products, lineItems] = await Promise.all([
+    client.getProducts(),
+    client.getOpportunityLineItems(opportunityIds),
+  ]);
+  // Both empty means products are off: keep stored line items. Query failures
+  // throw from the client, so a transient error never reaches the replace.
+  if (products.length === 0 && lineItems.length === 0) {
+    logger.info('No products or line items found (products may not be enabled in this org)');
+    return;
+  }
+
+  await upsertProducts(workspaceId, 'salesforce', products.map(p => ({
+    source_id: p.Id,
+    name: p.Name,
+    sku: p.ProductCode,
+    family: p.Family,
+    is_active: p.IsActive,
+  })));
+
+  let dealSourceIds = opportunityIds;
+  if (!dealSourceIds) {
+    const dealResult = await query<{ source_id: string }>(
+      `SELECT source_id FROM deals WHERE workspace_id = $1 AND source = '${SOURCE}'`,
+      [workspaceId]
+    );
+    dealSourceIds = dealResult.rows.map(r => r.source_id);
+  }
+
+  const stored = await replaceDealLineItems(
+    workspaceId,
+    'salesforce',
+    dealSourceIds,
+    lineItems.map(li => ({
+      source_id: li.Id,
+      deal_source_id: li.OpportunityId,
+      product_source_id: li.Product2Id,
+      name: li.Name || li.ProductCode || 'Unnamed line item',
+      sku: li.ProductCode,
+      quantity: li.Quantity ?? 1,
+      unit_price: li.UnitPrice,
+      list_price: li.ListPrice,
+      discount_percent: li.Discount,
+      amount: li.TotalPrice,
+    }))
+  );
+
+  logger.info('Synced line items', { products: products.length, lineItems: lineItems.length, stored });
+}
+
 // ============================================================================
 // Activities Sync (Tasks + Events → activities)
 // ============================================================================
@@ -63,6 +63,7 @@ export interface NormalizedDeal {
   source_data: Record<string, any>;
   name: string | null;
   amount: number | null;
+  currency_code: string | null;
   stage: string | null;
   stage_normalized: string | null;
   close_date: string | null;
@@ -297,6 +298,7 @@ const MAPPED_OPPORTUNITY_FIELDS = new Set([
   'CreatedDate',
   'LastModifiedDate',
   'SystemModstamp',
+  'CurrencyIsoCode',
 ]);
 
 const MAPPED_CONTACT_FIELDS = new Set([
@@ -505,6 +507,7 @@ export function transformOpportunity(
     source_data: opp as unknown as Record<string, any>,
     name: sanitizeText(opp.Name, 255),
     amount: sanitizeNumber(opp.Amount), // FIX: empty string would crash PostgreSQL
+    currency_code: sanitizeText(opp.CurrencyIsoCode, 3) || null, // only present in multi-currency orgs
     stage: opp.StageName,
     stage_normalized: stageNormalized,
     close_date: sanitizeDate(opp.CloseDate),
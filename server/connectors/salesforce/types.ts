@@ -29,6 +29,7 @@ export interface SalesforceOpportunity {
   CreatedDate: string;            // ISO datetime
   LastModifiedDate: string;
   SystemModstamp: string;
+  CurrencyIsoCode?: string;       // multi-currency orgs only
   // Custom fields come through as dynamic keys
   [key: string]: unknown;
 }
@@ -85,6 +86,42 @@ export interface SalesforceContactRole {
   };
 }
 
+export interface SalesforceOpportunitySplit {
+  Id: string;
+  OpportunityId: string;
+  SplitOwnerId: string;
+  SplitPercentage: number | null;
+  SplitOwner?: {
+    Name: string | null;
+    Email: string | null;
+  };
+  SplitType?: {
+    DeveloperName: string | null;
+    IsTotalValidated: boolean;
+  };
+}
+
+export interface SalesforceProduct {
+  Id: string;
+  Name: string;
+  ProductCode: string | null;
+  Family: string | null;
+  IsActive: boolean;
+}
+
+export interface SalesforceOpportunityLineItem {
+  Id: string;
+  OpportunityId: string;
+  Product2Id: string | null;
+  Name: string | null;
+  ProductCode: string | null;
+  Quantity: number | null;
+  UnitPrice: number | null;
+  ListPrice: number | null;
+  Discount: number | null;        // percent, 0–100
+  TotalPrice: number | null;      // net of discount
+}
+
 export interface SalesforceTask {
   Id: string;
   Subject: string | null;
@@ -367,7 +404,8 @@ export interface SalesforceDescribeResult {
 // Extra standard fields to include for segmentation
 // (not already mapped to normalized columns)
 export const EXTRA_STANDARD_FIELDS = {
-  opportunity: ['Type', 'LeadSource', 'ForecastCategory', 'NextStep', 'Territory', 'Description'],
+  // CurrencyIsoCode only exists in multi-currency orgs, so it's picked up via describe rather than defaults
+  opportunity: ['Type', 'LeadSource', 'ForecastCategory', 'NextStep', 'Territory', 'Description', 'CurrencyIsoCode'],
   account: ['Industry', 'Type', 'Rating', 'Ownership', 'NumberOfEmployees', 'AnnualRevenue', 'BillingCountry', 'BillingState'],
   contact: ['LeadSource', 'Department', 'Level', 'MailingCountry', 'MailingState'],
   lead: ['Description', 'Rating', 'MobilePhone', 'Street', 'City', 'State', 'PostalCode', 'Country'],
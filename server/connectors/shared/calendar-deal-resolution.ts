@@ -0,0 +1,51 @@
+import { query } from '../../db.js';
+
+/**
+ * Resolve attendees of events in the sync window to deal IDs via contacts and
+ * deal_contacts. Source-agnostic, so it covers Google and Microsoft 365 events.
+ */
+export async function resolveAttendeesToDeals(workspaceId: string): Promise<number> {
+  // Get all events that haven't been resolved yet or were updated recently
+  const eventsResult = await query(
+    `SELECT id, attendees FROM calendar_events
+     WHERE workspace_id = $1
+       AND start_time >= NOW() - INTERVAL '7 days'
+       AND start_time <= NOW() + INTERVAL '14 days'`,
+    [workspaceId]
+  );
+
+  let resolved = 0;
+
+  for (const event of eventsResult.rows) {
+    const attendees = event.attendees || [];
+    const attendeeEmails = attendees
+      .map((a: any) => a.email)
+      .filter((email: string) => email && !email.includes('calendar.google.com'));
+
+    if (attendeeEmails.length === 0) continue;
+
+    // Resolve emails → deal IDs via contacts → deal_contacts
+    const dealResult = await query(
+      `SELECT DISTINCT dc.deal_id
+       FROM contacts c
+       JOIN deal_contacts dc ON c.id = dc.contact_id
+       WHERE c.workspace_id = $1
+         AND LOWER(c.email) = ANY($2::text[])`,
+      [workspaceId, attendeeEmails.map((e: string) => e.toLowerCase())]
+    );
+
+    const dealIds = dealResult.rows.map((r: any) => r.deal_id);
+
+    if (dealIds.length > 0) {
+      await query(
+        `UPDATE calendar_events
+         SET resolved_deal_ids = $1::uuid[]
+         WHERE id = $2`,
+        [dealIds, event.id]
+      );
+      resolved++;
+    }
+  }
+
+  return resolved;
+}
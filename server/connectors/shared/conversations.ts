@@ -0,0 +1,143 @@
+import { getClient } from '../../db.js';
+
+/**
+ * Conversation row written by the recording connectors (Zoom, Chorus).
+ * Same shape the Gong/Fireflies syncs store, so linking, participant
+ * resolution, signal extraction and dossiers treat every source alike.
+ */
+export interface ConversationRecord {
+  workspace_id: string;
+  source: string;
+  source_id: string;
+  source_data: Record<string, any>;
+  title: string | null;
+  call_date: Date | null;
+  duration_seconds: number | null;
+  participants: Array<{ name: string | null; email: string | null; affiliation?: 'Internal' | 'External' | 'Unknown'; [key: string]: unknown }>;
+  transcript_text: string | null;
+  summary: string | null;
+  action_items: any[];
+  objections: any[];
+  sentiment_score: number | null;
+  talk_listen_ratio: any | null;
+  topics: any[];
+  competitor_mentions: any[];
+  custom_fields: Record<string, any>;
+}
+
+/** One speaker turn; times are seconds from the start of the recording */
+export interface TranscriptSegment {
+  speaker_name: string;
+  start_time: number;
+  end_time: number;
+  text: string;
+}
+
+const BATCH_SIZE = 500;
+
+/**
+ * "Speaker: text" lines with consecutive turns by the same speaker merged —
+ * the transcript_text format the Fireflies route produces.
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string | null {
+  if (segments.length === 0) return null;
+
+  const lines: string[] = [];
+  let speaker: string | null = null;
+  let texts: string[] = [];
+
+  for (const segment of segments) {
+    if (segment.speaker_name !== speaker) {
+      if (speaker !== null && texts.length > 0) lines.push(`${speaker}: ${texts.join(' ')}`);
+      speaker = segment.speaker_name;
+      texts = [segment.text];
+    } else {
+      texts.push(segment.text);
+    }
+  }
+  if (speaker !== null && texts.length > 0) lines.push(`${speaker}: ${texts.join(' ')}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Speaker timings without text, stored as source_data.sentences so the
+ * participant resolver can compute talk percentages per speaker.
+ */
+export function speakerTimings(segments: TranscriptSegment[]): Array<Omit<TranscriptSegment, 'text'>> {
+  return segments.map(({ speaker_name, start_time, end_time }) => ({ speaker_name, start_time, end_time }));
+}
+
+export function affiliationFor(email: string | null, internalDomains: string[]): 'Internal' | 'External' | 'Unknown' {
+  if (!email || internalDomains.length === 0) return 'Unknown';
+  const domain = email.split('@')[1]?.toLowerCase();
+  return domain && internalDomains.includes(domain) ? 'Internal' : 'External';
+}
+
+export async function upsertConversations(conversations: ConversationRecord[]): Promise<number> {
+  if (conversations.length === 0) return 0;
+
+  let totalStored = 0;
+
+  for (let i = 0; i < conversations.length; i += BATCH_SIZE) {
+    const batch = conversations.slice(i, i + BATCH_SIZE);
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const conv of batch) {
+        await client.query(
+          `INSERT INTO conversations (
+            workspace_id, source, source_id, source_data,
+            title, call_date, duration_seconds, participants,
+            transcript_text, summary,
+            action_items, objections,
+            sentiment_score, talk_listen_ratio,
+            topics, competitor_mentions,
+            custom_fields, created_at, updated_at
+          ) VALUES (
+            $1, $2, $3, $4,
+            $5, $6, $7, $8,
+            $9, $10,
+            $11, $12,
+            $13, $14,
+            $15, $16,
+            $17, NOW(), NOW()
+          )
+          ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+            source_data = EXCLUDED.source_data,
+            title = EXCLUDED.title,
+            call_date = EXCLUDED.call_date,
+            duration_seconds = EXCLUDED.duration_seconds,
+            participants = EXCLUDED.participants,
+            transcript_text = COALESCE(EXCLUDED.transcript_text, conversations.transcript_text),
+            summary = COALESCE(EXCLUDED.summary, conversations.summary),
+            action_items = EXCLUDED.action_items,
+            topics = EXCLUDED.topics,
+            custom_fields = EXCLUDED.custom_fields,
+            updated_at = NOW()`,
+          [
+            conv.workspace_id, conv.source, conv.source_id, JSON.stringify(conv.source_data),
+            conv.title, conv.call_date, conv.duration_seconds, JSON.stringify(conv.participants),
+            conv.transcript_text, conv.summary,
+            JSON.stringify(conv.action_items), JSON.stringify(conv.objections),
+            conv.sentiment_score, conv.talk_listen_ratio ? JSON.stringify(conv.talk_listen_ratio) : null,
+            JSON.stringify(conv.topics), JSON.stringify(conv.competitor_mentions),
+            JSON.stringify(conv.custom_fields),
+          ]
+        );
+        totalStored++;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return totalStored;
+}
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for Microsoft Teams Adaptive Card formatting
+ *
+ * Compares push, digest and report cards against JSON fixtures and covers
+ * the card builders, size trimming and webhook URL validation.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { formatTeamsPayload } from '../../../push/formatters/teams-push-formatter.js';
+import { formatDigestTeams } from '../../../briefing/digest-teams-formatter.js';
+import { buildTeamsReportCard } from '../../../delivery/teams-delivery.js';
+import {
+  buildAdaptiveCard,
+  cardText,
+  wrapCardMessage,
+  markdownToCardText,
+  isTeamsWebhookUrl,
+} from '../client.js';
+import type { AssembledFinding } from '../../../push/finding-assembler.js';
+import type { DigestData } from '../../../briefing/investigation-digest.js';
+import type { ReportGeneration, ReportTemplate } from '../../../reports/types.js';
+
+vi.mock('../../../db.js', () => ({ query: vi.fn() }));
+
+function fixture(name: string): unknown {
+  return JSON.parse(readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8'));
+}
+
+function finding(overrides: Partial<AssembledFinding> = {}): AssembledFinding {
+  return {
+    id: 'f1',
+    skill_id: 'pipeline-hygiene',
+    skill_run_id: 'run-1',
+    severity: 'act',
+    category: 'stale_deal',
+    message: 'No activity in 41 days and close date is this week.',
+    deal_id: 'd1',
+    deal_name: 'Acme Renewal',
+    deal_amount: 120000,
+    deal_owner: 'Jordan Lee',
+    ai_score: 38,
+    account_id: null,
+    owner_email: null,
+    metadata: {},
+    created_at: '2026-10-19T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const digest: DigestData = {
+  workspaceId: 'ws-1',
+  workspaceName: 'Acme Corp',
+  periodStart: '2026-10-12T00:00:00.000Z',
+  periodEnd: '2026-10-19T00:00:00.000Z',
+  investigations: [
+    {
+      skillId: 'deal-risk-review',
+      skillName: 'Deal Risk Review',
+      runsCount: 3,
+      trend: 'worsening',
+      currentAtRisk: 5,
+      previousAtRisk: 3,
+      deltaAtRisk: 2,
+      criticalFindings: [
+        { dealName: 'Globex Expansion', amount: 250000, severity: 'critical', message: 'Champion left the company' },
+      ],
+    },
+    {
+      skillId: 'pipeline-hygiene',
+      skillName: 'Pipeline Hygiene',
+      runsCount: 0,
+      trend: 'stable',
+      currentAtRisk: 0,
+      previousAtRisk: 0,
+      deltaAtRisk: 0,
+      criticalFindings: [],
+    },
+  ],
+  topCriticalFindings: [
+    { dealName: 'Globex Expansion', amount: 250000, severity: 'critical', message: 'Champion left the company' },
+  ],
+};
+
+const template = { id: 'tpl-1', name: 'Weekly Pipeline Review' } as ReportTemplate;
+const generation = {
+  id: 'gen-1',
+  workspace_id: 'ws-1',
+  created_at: '2026-10-19T09:00:00.000Z',
+  generation_duration_ms: 4200,
+  formats_generated: {
+    pdf: { filepath: '/tmp/r.pdf', size_bytes: 1000, download_url: '/api/workspaces/ws-1/reports/tpl-1/download/pdf?file=r.pdf' },
+  },
+  sections_content: [
+    {
+      section_id: 'the-number',
+      title: 'The Number',
+      narrative: 'Forecast is tracking to plan. Commit grew this week. Upside remains thin.',
+      metrics: [
+        { label: 'Commit', value: '$1.2M', delta: '+$150K', severity: 'good' },
+        { label: 'Coverage', value: '2.1x', severity: 'warning' },
+      ],
+      source_skills: [],
+      data_freshness: '2026-10-19T08:00:00.000Z',
+      confidence: 0.8,
+    },
+  ],
+} as unknown as ReportGeneration;
+
+describe('Teams card fixtures', () => {
+  beforeAll(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T09:30:00.000Z'));
+    vi.stubEnv('APP_URL', 'https://app.pandora.example');
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('formats the standard push template', () => {
+    const card = formatTeamsPayload(
+      [finding(), finding({ id: 'f2', severity: 'watch', category: 'single_threaded', message: 'Only one contact engaged.', deal_amount: null, ai_score: null })],
+      'standard',
+      'Acme Corp',
+      'Daily risks',
+      ['pipeline-hygiene']
+    );
+    expect(card).toEqual(fixture('push-standard.json'));
+  });
+
+  it('formats the single-deal alert template', () => {
+    expect(formatTeamsPayload([finding()], 'alert', 'Acme Corp', 'Daily risks', [])).toEqual(fixture('push-alert.json'));
+  });
+
+  it('formats the weekly investigation digest', () => {
+    expect(formatDigestTeams(digest)).toEqual(fixture('digest.json'));
+  });
+
+  it('formats a report delivery card with download links', () => {
+    expect(buildTeamsReportCard(generation, template, { prepared_by: 'RevOps' })).toEqual(fixture('report.json'));
+  });
+});
+
+describe('card builders', () => {
+  it('wraps cards in the webhook message envelope', () => {
+    const message = wrapCardMessage(buildAdaptiveCard([cardText('hi')]));
+    expect(message.type).toBe('message');
+    expect(message.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+    expect(message.attachments[0].content.version).toBe('1.4');
+  });
+
+  it('trims oversized cards and notes the truncation', () => {
+    const body = Array.from({ length: 400 }, (_, i) => cardText(`Line ${i} `.repeat(20)));
+    const card = buildAdaptiveCard(body);
+    expect(JSON.stringify(card).length).toBeLessThanOrEqual(26000);
+    expect(card.body[card.body.length - 1].text).toContain('truncated');
+  });
+
+  it('turns markdown headings into bold lines', () => {
+    expect(markdownToCardText('## Forecast\n* Commit up')).toBe('**Forecast**\n- Commit up');
+  });
+
+  it('accepts only Teams and Workflows webhook hosts', () => {
+    expect(isTeamsWebhookUrl('https://acme.webhook.office.com/webhookb2/abc')).toBe(true);
+    expect(isTeamsWebhookUrl('https://prod-12.westus.logic.azure.com/workflows/abc')).toBe(true);
+    expect(isTeamsWebhookUrl('http://acme.webhook.office.com/webhookb2/abc')).toBe(false);
+    expect(isTeamsWebhookUrl('https://hooks.slack.com/services/x')).toBe(false);
+    expect(isTeamsWebhookUrl('not a url')).toBe(false);
+  });
+});
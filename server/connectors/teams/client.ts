@@ -0,0 +1,185 @@
+/**
+ * Microsoft Teams Client
+ *
+ * Adaptive Card builders and incoming-webhook transport. Works with both
+ * classic Office 365 connector webhooks and Workflows (Power Automate)
+ * webhooks — both accept the same message envelope with an Adaptive Card
+ * attachment.
+ */
+
+import { query } from '../../db.js';
+
+export interface AdaptiveCardElement {
+  type: string;
+  [key: string]: any;
+}
+
+export interface AdaptiveCardAction {
+  type: 'Action.OpenUrl';
+  title: string;
+  url: string;
+}
+
+export interface AdaptiveCard {
+  type: 'AdaptiveCard';
+  $schema: string;
+  version: string;
+  body: AdaptiveCardElement[];
+  actions?: AdaptiveCardAction[];
+  msteams?: { width: 'Full' };
+}
+
+export interface TeamsMessage {
+  type: 'message';
+  attachments: {
+    contentType: 'application/vnd.microsoft.card.adaptive';
+    contentUrl: null;
+    content: AdaptiveCard;
+  }[];
+}
+
+const CARD_SCHEMA = 'http://adaptivecards.io/schemas/adaptive-card.json';
+const CARD_VERSION = '1.4';
+
+// Teams rejects webhook payloads over ~28 KB; leave headroom for the envelope
+const MAX_CARD_BYTES = 26000;
+
+// ─── Card builders ────────────────────────────────────────────────────────────
+
+export function cardHeading(text: string): AdaptiveCardElement {
+  return { type: 'TextBlock', text, size: 'Large', weight: 'Bolder', wrap: true };
+}
+
+export function cardSubheading(text: string): AdaptiveCardElement {
+  return { type: 'TextBlock', text, weight: 'Bolder', wrap: true, spacing: 'Medium' };
+}
+
+export function cardText(text: string, separator = false): AdaptiveCardElement {
+  const block: AdaptiveCardElement = { type: 'TextBlock', text, wrap: true };
+  if (separator) block.separator = true;
+  return block;
+}
+
+export function cardContext(text: string): AdaptiveCardElement {
+  return { type: 'TextBlock', text, size: 'Small', isSubtle: true, wrap: true };
+}
+
+export function cardFacts(facts: { title: string; value: string }[]): AdaptiveCardElement {
+  return { type: 'FactSet', facts };
+}
+
+export function openUrlAction(title: string, url: string): AdaptiveCardAction {
+  return { type: 'Action.OpenUrl', title, url };
+}
+
+export function buildAdaptiveCard(body: AdaptiveCardElement[], actions: AdaptiveCardAction[] = []): AdaptiveCard {
+  const card: AdaptiveCard = {
+    type: 'AdaptiveCard',
+    $schema: CARD_SCHEMA,
+    version: CARD_VERSION,
+    body,
+    msteams: { width: 'Full' },
+  };
+  if (actions.length > 0) card.actions = actions;
+  return trimCard(card);
+}
+
+export function wrapCardMessage(card: AdaptiveCard): TeamsMessage {
+  return {
+    type: 'message',
+    attachments: [
+      { contentType: 'application/vnd.microsoft.card.adaptive', contentUrl: null, content: card },
+    ],
+  };
+}
+
+/**
+ * Drop trailing body elements until the card fits the webhook size limit,
+ * leaving a note that the message was truncated.
+ */
+function trimCard(card: AdaptiveCard): AdaptiveCard {
+  if (JSON.stringify(card).length <= MAX_CARD_BYTES) return card;
+  const body = [...card.body];
+  const note = cardContext('_Message truncated — open Pandora for the full view._');
+  while (body.length > 1 && JSON.stringify({ ...card, body: [...body, note] }).length > MAX_CARD_BYTES) {
+    body.pop();
+  }
+  return { ...card, body: [...body, note] };
+}
+
+/**
+ * Convert LLM markdown to the subset Adaptive Card TextBlocks render:
+ * headings become bold lines, everything else passes through.
+ */
+export function markdownToCardText(markdown: string): string {
+  return markdown
+    .replace(/^#{1,6}\s*(.+)$/gm, '**$1**')
+    .replace(/^\s*[-*]\s+/gm, '- ')
+    .trim();
+}
+
+/**
+ * Split markdown into card-sized TextBlocks on headings and blank lines.
+ */
+export function markdownToCardBlocks(markdown: string): AdaptiveCardElement[] {
+  return markdown
+    .split(/\n(?=#{1,3}\s)|\n{2,}/)
+    .map(section => markdownToCardText(section))
+    .filter(Boolean)
+    .map(section => cardText(section));
+}
+
+// ─── Transport ────────────────────────────────────────────────────────────────
+
+export function isTeamsWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:') return false;
+    return /(^|\.)webhook\.office\.com$/.test(parsed.hostname)
+      || /(^|\.)logic\.azure\.com$/.test(parsed.hostname)
+      || /(^|\.)environment\.api\.powerplatform\.com$/.test(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export async function postCardToTeams(
+  webhookUrl: string,
+  card: AdaptiveCard,
+  retries = 3
+): Promise<void> {
+  let lastErr: Error | null = null;
+  for (let attempt = 0; attempt < retries; attempt++) {
+    if (attempt > 0) await new Promise(r => setTimeout(r, 5000));
+    const res = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(wrapCardMessage(card)),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (res.ok) return;
+    if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+      // 4xx — don't retry, permanent failure
+      throw new Error(`Teams 4xx: ${res.status} ${res.statusText}`);
+    }
+    lastErr = new Error(`Teams ${res.status}: ${res.statusText}`);
+  }
+  throw lastErr || new Error('Teams delivery failed');
+}
+
+/**
+ * Workspace-level default Teams webhook (workspaces.settings.teams_webhook_url).
+ */
+export async function getTeamsWebhook(workspaceId: string): Promise<string | null> {
+  const result = await query<{ webhook_url: string | null }>(
+    `SELECT settings->>'teams_webhook_url' AS webhook_url FROM workspaces WHERE id = $1`,
+    [workspaceId]
+  );
+  const url = result.rows[0]?.webhook_url?.trim();
+  if (!url) return null;
+  if (!isTeamsWebhookUrl(url)) {
+    console.warn(`[teams] Invalid webhook URL for workspace ${workspaceId}: ${url.slice(0, 40)}...`);
+    return null;
+  }
+  return url;
+}
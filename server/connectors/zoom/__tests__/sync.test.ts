@@ -0,0 +1,46 @@
+/**
+ * Tests for Zoom recording sync failure handling
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../shared/conversations.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../shared/conversations.js')>()),
+  upsertConversations: vi.fn(async (batch: unknown[]) => batch.length),
+}));
+vi.mock('../../../analysis/conversation-internal-filter.js', () => ({
+  resolveWorkspaceDomains: vi.fn().mockResolvedValue({ domains: ['acme.com'] }),
+}));
+
+import { upsertConversations } from '../../shared/conversations.js';
+import { incrementalSync } from '../sync.js';
+import type { ZoomClient } from '../client.js';
+
+describe('incrementalSync', () => {
+  it('stores what it fetched but fails the run when a user\'s recordings cannot be listed', async () => {
+    const client = {
+      getUsers: vi.fn().mockResolvedValue([
+        { id: 'u1', email: 'ana@acme.com' },
+        { id: 'u2', email: 'ben@acme.com' },
+      ]),
+      getRecordingsSince: vi.fn(async (userId: string) => {
+        if (userId === 'u2') throw new Error('429 Too Many Requests');
+        return [{
+          uuid: 'm1',
+          id: 1,
+          topic: 'Acme discovery',
+          start_time: '2026-10-01T15:00:00Z',
+          duration: 30,
+          host_email: 'ana@acme.com',
+          recording_files: [],
+        }];
+      }),
+      getPastMeetingParticipants: vi.fn().mockResolvedValue([]),
+      downloadTranscript: vi.fn(),
+    } as unknown as ZoomClient;
+
+    await expect(incrementalSync(client, 'ws-1', new Date('2026-10-02T00:00:00Z')))
+      .rejects.toThrow('Failed to list Zoom recordings for 1 user(s): ben@acme.com');
+    expect(upsertConversations).toHaveBeenCalledWith([expect.objectContaining({ source_id: 'm1' })]);
+  });
+});
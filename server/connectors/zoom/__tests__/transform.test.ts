@@ -0,0 +1,92 @@
+/**
+ * Unit tests for Zoom transcript parsing and recording normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseZoomVtt } from '../client.js';
+import { transformZoomRecording } from '../transform.js';
+import { utterancesToSegments } from '../../chorus/client.js';
+
+const VTT = `WEBVTT
+
+1
+00:00:01.000 --> 00:00:04.500
+Dana Rep: Thanks for joining today.
+
+2
+00:00:04.500 --> 00:00:06.000
+Let's start with timelines.
+
+3
+00:01:02.000 --> 00:01:09.250
+Sam Buyer: We need this live by Q1.
+`;
+
+describe('parseZoomVtt', () => {
+  it('splits speaker prefixes and carries the speaker across unlabelled cues', () => {
+    expect(parseZoomVtt(VTT)).toEqual([
+      { speaker_name: 'Dana Rep', start_time: 1, end_time: 4.5, text: 'Thanks for joining today.' },
+      { speaker_name: 'Dana Rep', start_time: 4.5, end_time: 6, text: "Let's start with timelines." },
+      { speaker_name: 'Sam Buyer', start_time: 62, end_time: 69.25, text: 'We need this live by Q1.' },
+    ]);
+  });
+});
+
+describe('transformZoomRecording', () => {
+  it('builds participants, transcript and speaker timings', () => {
+    const record = transformZoomRecording({
+      uuid: 'abc==',
+      id: 123,
+      topic: 'Discovery call',
+      start_time: '2026-10-19T15:00:00Z',
+      duration: 30,
+      host_id: 'host-1',
+      host_email: 'dana@acme.com',
+      share_url: 'https://zoom.us/rec/share/xyz',
+      recording_files: [],
+    }, 'ws-1', {
+      participants: [
+        { name: 'Dana Rep', user_email: 'Dana@Acme.com' },
+        { name: 'Sam Buyer', user_email: 'sam@customer.io' },
+        { name: 'Sam Buyer', user_email: 'sam@customer.io' },
+      ],
+      segments: parseZoomVtt(VTT),
+      internalDomains: ['acme.com'],
+    });
+
+    expect(record).toMatchObject({
+      source: 'zoom',
+      source_id: 'abc==',
+      title: 'Discovery call',
+      duration_seconds: 1800,
+      custom_fields: { share_url: 'https://zoom.us/rec/share/xyz', meeting_id: 123 },
+    });
+    expect(record.participants.map(p => [p.email, p.affiliation])).toEqual([
+      ['dana@acme.com', 'Internal'],
+      ['sam@customer.io', 'External'],
+    ]);
+    expect(record.transcript_text).toBe(
+      "Dana Rep: Thanks for joining today. Let's start with timelines.\nSam Buyer: We need this live by Q1."
+    );
+    expect(record.source_data.sentences[2]).toEqual({ speaker_name: 'Sam Buyer', start_time: 62, end_time: 69.25 });
+  });
+});
+
+describe('utterancesToSegments (Chorus)', () => {
+  it('ends each utterance where the next begins and names speakers by id', () => {
+    const segments = utterancesToSegments(
+      [
+        { speaker_id: 2, speaker_type: 'prospect', snippet_time: 12, snippet: 'What does it cost?' },
+        { speaker_id: 1, speaker_type: 'rep', snippet_time: 0, snippet: 'Welcome.' },
+        { speaker_type: 'rep', snippet_time: 20, snippet: '  ' },
+      ],
+      new Map([['1', 'Dana Rep']]),
+      40
+    );
+
+    expect(segments).toEqual([
+      { speaker_name: 'Dana Rep', start_time: 0, end_time: 12, text: 'Welcome.' },
+      { speaker_name: 'Prospect', start_time: 12, end_time: 20, text: 'What does it cost?' },
+    ]);
+  });
+});
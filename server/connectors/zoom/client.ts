@@ -0,0 +1,217 @@
+import type {
+  ZoomCredentials,
+  ZoomParticipant,
+  ZoomRecordingMeeting,
+  ZoomUser,
+} from './types.js';
+import type { TranscriptSegment } from '../shared/conversations.js';
+
+const API_BASE = 'https://api.zoom.us/v2';
+const TOKEN_URL = 'https://zoom.us/oauth/token';
+const PAGE_SIZE = 300;
+// The recordings endpoint accepts at most a one-month from/to range
+const MAX_RANGE_DAYS = 30;
+
+/**
+ * Parse a Zoom transcript VTT file into speaker turns. Zoom prefixes each
+ * cue's text with "Speaker Name: "; cues without one keep the last speaker.
+ */
+export function parseZoomVtt(vtt: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = vtt.replace(/\r\n/g, '\n').split(/\n{2,}/);
+  let lastSpeaker = 'Unknown';
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->').map(s => s.trim().split(' ')[0]);
+    const text = lines.slice(timingIndex + 1).join(' ');
+    if (!text) continue;
+
+    const match = text.match(/^([^:]{1,80}):\s+(.*)$/);
+    const speaker = match ? match[1].trim() : lastSpeaker;
+    lastSpeaker = speaker;
+
+    segments.push({
+      speaker_name: speaker,
+      start_time: vttTimestampToSeconds(startRaw),
+      end_time: vttTimestampToSeconds(endRaw),
+      text: match ? match[2].trim() : text,
+    });
+  }
+
+  return segments;
+}
+
+function vttTimestampToSeconds(value: string): number {
+  const parts = value.split(':').map(Number);
+  if (parts.some(p => Number.isNaN(p))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/** Past-meeting APIs need UUIDs starting with "/" or containing "//" double-encoded */
+function encodeMeetingUuid(uuid: string): string {
+  const once = encodeURIComponent(uuid);
+  return uuid.startsWith('/') || uuid.includes('//') ? encodeURIComponent(once) : once;
+}
+
+export class ZoomClient {
+  private credentials: ZoomCredentials;
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(credentials: ZoomCredentials) {
+    this.credentials = credentials;
+  }
+
+  /** Server-to-Server OAuth: account credentials grant, cached until expiry */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt - 60_000) {
+      return this.accessToken;
+    }
+
+    const basic = Buffer.from(`${this.credentials.clientId}:${this.credentials.clientSecret}`).toString('base64');
+    const response = await fetch(
+      `${TOKEN_URL}?grant_type=account_credentials&account_id=${encodeURIComponent(this.credentials.accountId)}`,
+      { method: 'POST', headers: { 'Authorization': `Basic ${basic}` } }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Zoom token request failed: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in: number };
+    this.accessToken = data.access_token;
+    this.tokenExpiresAt = Date.now() + data.expires_in * 1000;
+    return this.accessToken;
+  }
+
+  private async request<T>(path: string, params: Record<string, string> = {}, attempt = 0): Promise<T> {
+    const token = await this.getAccessToken();
+    const qs = new URLSearchParams(params).toString();
+    const response = await fetch(`${API_BASE}${path}${qs ? `?${qs}` : ''}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    if (response.status === 429 && attempt < 3) {
+      await new Promise(resolve => setTimeout(resolve, 2000 * (attempt + 1)));
+      return this.request<T>(path, params, attempt + 1);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Zoom API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string; accountInfo?: any }> {
+    try {
+      const me = await this.request<ZoomUser & { account_id?: string }>('/users/me');
+      return {
+        success: true,
+        accountInfo: { email: me.email, accountId: me.account_id },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async getUsers(): Promise<ZoomUser[]> {
+    const users: ZoomUser[] = [];
+    let nextPageToken = '';
+
+    do {
+      const page = await this.request<{ users: ZoomUser[]; next_page_token?: string }>('/users', {
+        status: 'active',
+        page_size: String(PAGE_SIZE),
+        ...(nextPageToken ? { next_page_token: nextPageToken } : {}),
+      });
+      users.push(...(page.users || []));
+      nextPageToken = page.next_page_token || '';
+    } while (nextPageToken);
+
+    return users;
+  }
+
+  /**
+   * Cloud recordings for a user since the given date, walking month-sized windows.
+   */
+  async getRecordingsSince(userId: string, since: Date): Promise<ZoomRecordingMeeting[]> {
+    const meetings: ZoomRecordingMeeting[] = [];
+    const now = new Date();
+    let windowStart = new Date(since);
+
+    while (windowStart < now) {
+      const windowEnd = new Date(Math.min(
+        windowStart.getTime() + MAX_RANGE_DAYS * 24 * 60 * 60 * 1000,
+        now.getTime()
+      ));
+      let nextPageToken = '';
+
+      do {
+        const page = await this.request<{ meetings: ZoomRecordingMeeting[]; next_page_token?: string }>(
+          `/users/${encodeURIComponent(userId)}/recordings`,
+          {
+            from: windowStart.toISOString().slice(0, 10),
+            to: windowEnd.toISOString().slice(0, 10),
+            page_size: String(PAGE_SIZE),
+            ...(nextPageToken ? { next_page_token: nextPageToken } : {}),
+          }
+        );
+        meetings.push(...(page.meetings || []));
+        nextPageToken = page.next_page_token || '';
+      } while (nextPageToken);
+
+      windowStart = new Date(windowEnd.getTime() + 24 * 60 * 60 * 1000);
+    }
+
+    return meetings;
+  }
+
+  /**
+   * Attendees of a finished meeting. Requires a paid plan; returns [] when
+   * the report isn't available so the recording still syncs.
+   */
+  async getPastMeetingParticipants(uuid: string): Promise<ZoomParticipant[]> {
+    try {
+      const participants: ZoomParticipant[] = [];
+      let nextPageToken = '';
+      do {
+        const page = await this.request<{ participants: ZoomParticipant[]; next_page_token?: string }>(
+          `/past_meetings/${encodeMeetingUuid(uuid)}/participants`,
+          {
+            page_size: String(PAGE_SIZE),
+            ...(nextPageToken ? { next_page_token: nextPageToken } : {}),
+          }
+        );
+        participants.push(...(page.participants || []));
+        nextPageToken = page.next_page_token || '';
+      } while (nextPageToken);
+      return participants;
+    } catch (error) {
+      console.warn(`[Zoom] Participants unavailable for meeting ${uuid}: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+  }
+
+  async downloadTranscript(downloadUrl: string): Promise<string> {
+    const token = await this.getAccessToken();
+    const response = await fetch(downloadUrl, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Zoom transcript download failed: ${response.status}`);
+    }
+
+    return response.text();
+  }
+}
@@ -0,0 +1,105 @@
+import { ZoomClient, parseZoomVtt } from './client.js';
+import { findTranscriptFile, transformZoomRecording } from './transform.js';
+import type { ZoomRecordingMeeting } from './types.js';
+import type { SyncResult } from '../_interface.js';
+import { upsertConversations, type ConversationRecord, type TranscriptSegment } from '../shared/conversations.js';
+import { resolveWorkspaceDomains } from '../../analysis/conversation-internal-filter.js';
+
+// Store in small batches so one slow transcript download doesn't hold a transaction
+const STORE_BATCH_SIZE = 25;
+
+async function syncRecordingsSince(client: ZoomClient, workspaceId: string, since: Date): Promise<SyncResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+
+  const users = await client.getUsers();
+  const { domains: internalDomains } = await resolveWorkspaceDomains(workspaceId);
+
+  const meetings = new Map<string, ZoomRecordingMeeting>();
+  const failedUsers: string[] = [];
+  for (const user of users) {
+    try {
+      const recordings = await client.getRecordingsSince(user.id, since);
+      for (const meeting of recordings) {
+        if (!meetings.has(meeting.uuid)) {
+          meetings.set(meeting.uuid, { ...meeting, host_email: meeting.host_email || user.email });
+        }
+      }
+    } catch (err: any) {
+      console.error(`[Zoom Sync] Error listing recordings for ${user.email}: ${err.message}`);
+      errors.push(`${user.email}: ${err.message}`);
+      failedUsers.push(user.email);
+    }
+  }
+
+  console.log(`[Zoom Sync] ${meetings.size} recorded meetings across ${users.length} users since ${since.toISOString()}`);
+
+  let recordsStored = 0;
+  let batch: ConversationRecord[] = [];
+
+  for (const meeting of meetings.values()) {
+    try {
+      let segments: TranscriptSegment[] = [];
+      const transcriptFile = findTranscriptFile(meeting);
+      if (transcriptFile?.download_url) {
+        try {
+          segments = parseZoomVtt(await client.downloadTranscript(transcriptFile.download_url));
+        } catch (err: any) {
+          errors.push(`${meeting.uuid}: transcript ${err.message}`);
+        }
+      }
+
+      const participants = await client.getPastMeetingParticipants(meeting.uuid);
+      batch.push(transformZoomRecording(meeting, workspaceId, { participants, segments, internalDomains }));
+    } catch (err: any) {
+      console.error(`[Zoom Sync] Transform failed for meeting ${meeting.uuid}: ${err.message}`);
+      errors.push(`${meeting.uuid}: ${err.message}`);
+    }
+
+    if (batch.length >= STORE_BATCH_SIZE) {
+      recordsStored += await upsertConversations(batch);
+      batch = [];
+    }
+  }
+  recordsStored += await upsertConversations(batch);
+
+  console.log(`[Zoom Sync] ${recordsStored} conversations stored, ${errors.length} errors`);
+
+  // Keep what was stored, but fail the run so the orchestrator does not move
+  // the watermark past recordings we could not list for these users
+  if (failedUsers.length > 0) {
+    throw new Error(`Failed to list Zoom recordings for ${failedUsers.length} user(s): ${failedUsers.join(', ')}`);
+  }
+
+  return {
+    recordsFetched: meetings.size,
+    recordsStored,
+    errors,
+    duration: Date.now() - startTime,
+  };
+}
+
+export async function initialSync(
+  client: ZoomClient,
+  workspaceId: string,
+  options?: { lookbackDays?: number }
+): Promise<SyncResult> {
+  const days = options?.lookbackDays ?? 90;
+  console.log(`[Zoom Sync] Starting initial sync for workspace ${workspaceId} (lookback: ${days} days)`);
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  return syncRecordingsSince(client, workspaceId, since);
+}
+
+export async function incrementalSync(
+  client: ZoomClient,
+  workspaceId: string,
+  since: Date
+): Promise<SyncResult> {
+  console.log(`[Zoom Sync] Starting incremental sync for workspace ${workspaceId} since ${since.toISOString()}`);
+
+  // Transcripts finish processing after the recording; re-read the last day
+  const overlap = new Date(since.getTime() - 24 * 60 * 60 * 1000);
+  return syncRecordingsSince(client, workspaceId, overlap);
+}
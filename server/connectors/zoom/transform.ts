@@ -0,0 +1,103 @@
+import type { ZoomParticipant, ZoomRecordingMeeting } from './types.js';
+import {
+  affiliationFor,
+  formatTranscript,
+  speakerTimings,
+  type ConversationRecord,
+  type TranscriptSegment,
+} from '../shared/conversations.js';
+
+/** Transcript file produced by Zoom's cloud recording audio transcription */
+export function findTranscriptFile(meeting: ZoomRecordingMeeting) {
+  return (meeting.recording_files || []).find(f =>
+    f.file_type === 'TRANSCRIPT' && f.status !== 'processing' && !!f.download_url
+  ) ?? null;
+}
+
+/**
+ * Participants from the past-meeting report, deduplicated by email (or name
+ * when Zoom has no email, e.g. guests). Falls back to transcript speakers
+ * when the report is unavailable.
+ */
+function buildParticipants(
+  meeting: ZoomRecordingMeeting,
+  participants: ZoomParticipant[],
+  segments: TranscriptSegment[],
+  internalDomains: string[]
+): ConversationRecord['participants'] {
+  const byKey = new Map<string, ConversationRecord['participants'][number]>();
+
+  for (const p of participants) {
+    const email = p.user_email?.toLowerCase() || null;
+    const key = email || p.name?.toLowerCase();
+    if (!key || byKey.has(key)) continue;
+    byKey.set(key, {
+      name: p.name || null,
+      email,
+      affiliation: affiliationFor(email, internalDomains),
+      zoomUserId: p.user_id || null,
+    });
+  }
+
+  if (byKey.size === 0) {
+    for (const speaker of new Set(segments.map(s => s.speaker_name))) {
+      byKey.set(speaker.toLowerCase(), { name: speaker, email: null, affiliation: 'Unknown' });
+    }
+  }
+
+  // The host is always a participant and always internal
+  const hostEmail = meeting.host_email?.toLowerCase();
+  if (hostEmail && ![...byKey.values()].some(p => p.email === hostEmail)) {
+    byKey.set(hostEmail, { name: null, email: hostEmail, affiliation: 'Internal', isHost: true });
+  }
+
+  return [...byKey.values()];
+}
+
+export function transformZoomRecording(
+  meeting: ZoomRecordingMeeting,
+  workspaceId: string,
+  options: {
+    participants?: ZoomParticipant[];
+    segments?: TranscriptSegment[];
+    internalDomains?: string[];
+  } = {}
+): ConversationRecord {
+  const segments = options.segments || [];
+  const { recording_files, ...meetingData } = meeting;
+
+  return {
+    workspace_id: workspaceId,
+    source: 'zoom',
+    // Meeting ids are reused by recurring meetings; the UUID is per occurrence
+    source_id: meeting.uuid,
+    source_data: {
+      ...meetingData,
+      recording_files: (recording_files || []).map(f => ({
+        id: f.id,
+        file_type: f.file_type,
+        recording_type: f.recording_type,
+        recording_start: f.recording_start,
+        recording_end: f.recording_end,
+      })),
+      sentences: speakerTimings(segments),
+    },
+    title: meeting.topic || null,
+    call_date: meeting.start_time ? new Date(meeting.start_time) : null,
+    duration_seconds: Number.isFinite(meeting.duration) ? Math.round(meeting.duration * 60) : null,
+    participants: buildParticipants(meeting, options.participants || [], segments, options.internalDomains || []),
+    transcript_text: formatTranscript(segments),
+    summary: null,
+    action_items: [],
+    objections: [],
+    sentiment_score: null,
+    talk_listen_ratio: null,
+    topics: [],
+    competitor_mentions: [],
+    custom_fields: {
+      share_url: meeting.share_url || null,
+      host_email: meeting.host_email || null,
+      meeting_id: meeting.id,
+    },
+  };
+}
@@ -0,0 +1,49 @@
+export interface ZoomCredentials {
+  accountId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface ZoomUser {
+  id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  display_name?: string;
+  status?: 'active' | 'inactive' | 'pending';
+}
+
+export interface ZoomRecordingFile {
+  id: string;
+  file_type: string; // MP4, M4A, TRANSCRIPT, CHAT, CC, TIMELINE, SUMMARY
+  file_extension?: string;
+  recording_type?: string; // shared_screen_with_speaker_view, audio_transcript, ...
+  recording_start?: string;
+  recording_end?: string;
+  download_url?: string;
+  status?: string;
+}
+
+export interface ZoomRecordingMeeting {
+  uuid: string;
+  id: number;
+  topic: string;
+  type?: number;
+  start_time: string;
+  duration: number; // minutes
+  timezone?: string;
+  host_id: string;
+  host_email?: string;
+  share_url?: string;
+  recording_files?: ZoomRecordingFile[];
+}
+
+export interface ZoomParticipant {
+  id?: string;
+  user_id?: string;
+  name: string;
+  user_email?: string;
+  join_time?: string;
+  leave_time?: string;
+  duration?: number;
+}
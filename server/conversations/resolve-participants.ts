@@ -203,7 +203,7 @@ async function resolveParticipantsForConversation(
   applyHeuristics(resolved);
 
   // Compute talk percentages if available
-  if (source === 'fireflies' && sourceData?.sentences) {
+  if (['fireflies', 'zoom', 'chorus'].includes(source) && sourceData?.sentences) {
     computeTalkPercentages(sourceData.sentences, resolved);
   } else if (source === 'gong' && sourceData?.talk_ratio) {
     // Gong provides overall talk ratio - assign to primary internal speaker
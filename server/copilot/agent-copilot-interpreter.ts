@@ -121,7 +121,7 @@ export async function getWorkspaceCopilotContext(workspaceId: string) {
 
   const connectors = connectorResult.rows.map((r: any) => r.connector_type);
   const hasCrmType = connectors.find((c: string) => ['hubspot', 'salesforce'].includes(c));
-  const hasConvoIntel = connectors.some((c: string) => ['gong', 'fireflies'].includes(c));
+  const hasConvoIntel = connectors.some((c: string) => ['gong', 'fireflies', 'zoom', 'chorus'].includes(c));
   const hasSlack = connectors.includes('slack') || !!process.env.SLACK_BOT_TOKEN;
 
   return {
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for currency/fx-rates.ts
+ *
+ * Tests dated rate selection, inverse and cross rates, per-deal conversion
+ * and CSV import parsing.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { FxTable, convertDealAmount, parseFxRatesCsv, validateFxRate } from '../fx-rates.js';
+import { formatCurrency, formatCurrencyFull, excelCurrencyFormat } from '../../utils/format-currency.js';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+vi.mock('../../config/workspace-config-loader.js', () => ({
+  configLoader: { getReportingCurrency: vi.fn().mockResolvedValue('USD') },
+}));
+
+const table = new FxTable('USD', [
+  { base_currency: 'USD', currency_code: 'EUR', rate_date: '2026-01-01', rate: 1.1 },
+  { base_currency: 'USD', currency_code: 'EUR', rate_date: '2026-04-01', rate: 1.2 },
+  { base_currency: 'USD', currency_code: 'GBP', rate_date: '2026-01-01', rate: 1.25 },
+]);
+
+function deal(overrides: Record<string, unknown> = {}) {
+  return {
+    source: 'hubspot',
+    source_id: '1',
+    amount: 1000,
+    currency_code: 'EUR',
+    close_date: '2026-02-15',
+    stage_normalized: 'closed_won',
+    ...overrides,
+  };
+}
+
+describe('FxTable.rate', () => {
+  it('uses the rate effective on the given date', () => {
+    expect(table.rate('EUR', 'USD', '2026-02-15')).toBe(1.1);
+    expect(table.rate('EUR', 'USD', '2026-04-01')).toBe(1.2);
+    expect(table.rate('EUR', 'USD', '2026-09-30')).toBe(1.2);
+  });
+
+  it('falls back to the earliest rate for dates before the first entry', () => {
+    expect(table.rate('EUR', 'USD', '2025-06-01')).toBe(1.1);
+  });
+
+  it('inverts a rate quoted in the other direction', () => {
+    expect(table.rate('USD', 'GBP', '2026-02-01')).toBeCloseTo(0.8);
+  });
+
+  it('derives cross rates through a shared base', () => {
+    expect(table.rate('GBP', 'EUR', '2026-05-01')).toBeCloseTo(1.25 / 1.2);
+  });
+
+  it('returns null when no rate exists', () => {
+    expect(table.rate('JPY', 'USD', '2026-05-01')).toBeNull();
+  });
+});
+
+describe('convertDealAmount', () => {
+  it('converts closed deals at the close-date rate', () => {
+    expect(convertDealAmount(table, deal())).toEqual({
+      amount: 1100,
+      amount_original: 1000,
+      currency_code: 'EUR',
+      fx_rate: 1.1,
+    });
+  });
+
+  it('converts open deals at the latest rate', () => {
+    const result = convertDealAmount(table, deal({ stage_normalized: 'proposal' }));
+    expect(result.amount).toBe(1200);
+    expect(result.fx_rate).toBe(1.2);
+  });
+
+  it('treats a missing currency as the reporting currency', () => {
+    expect(convertDealAmount(table, deal({ currency_code: null }))).toEqual({
+      amount: 1000,
+      amount_original: 1000,
+      currency_code: null,
+      fx_rate: 1,
+    });
+  });
+
+  it('keeps the native amount and a null rate when no rate is on file', () => {
+    const result = convertDealAmount(table, deal({ currency_code: 'jpy' }));
+    expect(result).toEqual({ amount: 1000, amount_original: 1000, currency_code: 'JPY', fx_rate: null });
+  });
+});
+
+describe('parseFxRatesCsv', () => {
+  it('parses rows using column aliases and the default base', () => {
+    const csv = '\uFEFFDate,Currency,Exchange Rate\n2026-01-01,eur,1.09\n2026-01-01,GBP,"1.27"\n';
+    const { rates, errors } = parseFxRatesCsv(csv, 'USD');
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { base_currency: 'USD', currency_code: 'EUR', rate_date: '2026-01-01', rate: 1.09 },
+      { base_currency: 'USD', currency_code: 'GBP', rate_date: '2026-01-01', rate: 1.27 },
+    ]);
+  });
+
+  it('reports invalid rows and keeps valid ones', () => {
+    const csv = 'date,currency,rate,base\n2026-01-01,EUR,0.92,GBP\n01/02/2026,EUR,1.1,\n2026-01-01,EUR,-1,\n';
+    const { rates, errors } = parseFxRatesCsv(csv, 'USD');
+    expect(rates).toHaveLength(1);
+    expect(rates[0].base_currency).toBe('GBP');
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^row 3: invalid date/);
+    expect(errors[1]).toMatch(/^row 4: invalid rate/);
+  });
+
+  it('rejects a CSV without the required columns', () => {
+    const { rates, errors } = parseFxRatesCsv('currency,rate\nEUR,1.1', 'USD');
+    expect(rates).toEqual([]);
+    expect(errors[0]).toContain('rate_date');
+  });
+});
+
+describe('validateFxRate', () => {
+  it('rejects a currency quoted against itself', () => {
+    expect(validateFxRate({ currency_code: 'USD', rate: 1, rate_date: '2026-01-01' }, 'USD').error)
+      .toContain('against itself');
+  });
+});
+
+describe('currency formatting', () => {
+  it('keeps dollar output by default and formats other currencies', () => {
+    expect(formatCurrency(2_500_000)).toBe('$2.5M');
+    expect(formatCurrency(42_000, 'EUR')).toBe('€42K');
+    expect(formatCurrency(900, 'CHF')).toBe('CHF 900');
+    expect(formatCurrencyFull(-1234567, 'GBP')).toBe('-£1,234,567');
+    expect(excelCurrencyFormat('EUR')).toBe('"€"#,##0');
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * FX Rates & Deal Currency Conversion
+ *
+ * deals.amount is stored in the workspace reporting currency so every
+ * downstream SUM(amount) — aggregations, forecast rollup, Monte Carlo — is
+ * already comparable. The CRM's native value and currency are kept in
+ * amount_original / currency_code, and fx_rate records the rate applied.
+ *
+ * Rate selection:
+ * - Closed deals convert at the rate effective on their close date (booked value)
+ * - Open deals convert at the latest rate (current pipeline value)
+ * - A rate is "effective" from its rate_date until the next one; dates before
+ *   the first rate use the earliest rate rather than leaving the deal unconverted
+ * - Cross rates are derived through any shared base currency
+ */
+
+import { query, getClient } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
+
+export interface FxRate {
+  base_currency: string;
+  currency_code: string;
+  rate_date: string;       // YYYY-MM-DD
+  rate: number;            // units of base_currency per 1 unit of currency_code
+}
+
+export interface FxRateRow extends FxRate {
+  id: string;
+  source: 'manual' | 'csv';
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface DealCurrencyInput {
+  source: string;
+  source_id: string;
+  amount: number | null;
+  currency_code?: string | null;
+  close_date: string | null;
+  stage_normalized: string | null;
+}
+
+export interface DealCurrencyValues {
+  amount: number | null;           // reporting currency
+  amount_original: number | null;  // CRM currency
+  currency_code: string | null;
+  fx_rate: number | null;
+}
+
+const CLOSED_STAGES = new Set(['closed_won', 'closed_lost']);
+
+/**
+ * Normalize a CRM currency value to an ISO 4217 code, or null if unusable.
+ */
+export function normalizeCurrencyCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+function toDateKey(value: string | Date | null | undefined): string {
+  if (!value) return new Date().toISOString().slice(0, 10);
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? new Date().toISOString().slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Date whose rate should be used for a deal: close date once closed, today while open.
+ */
+export function fxDateForDeal(deal: Pick<DealCurrencyInput, 'close_date' | 'stage_normalized'>): string {
+  if (deal.stage_normalized && CLOSED_STAGES.has(deal.stage_normalized) && deal.close_date) {
+    return toDateKey(deal.close_date);
+  }
+  return toDateKey(null);
+}
+
+// ============================================================================
+// FX Table
+// ============================================================================
+
+export class FxTable {
+  // base -> currency -> rates sorted by date ascending
+  private series = new Map<string, Map<string, Array<{ date: string; rate: number }>>>();
+
+  constructor(readonly reportingCurrency: string, rates: FxRate[]) {
+    for (const r of rates) {
+      const base = r.base_currency.toUpperCase();
+      const code = r.currency_code.toUpperCase();
+      if (!this.series.has(base)) this.series.set(base, new Map());
+      const byCode = this.series.get(base)!;
+      if (!byCode.has(code)) byCode.set(code, []);
+      byCode.get(code)!.push({ date: toDateKey(r.rate_date), rate: Number(r.rate) });
+    }
+    for (const byCode of this.series.values()) {
+      for (const points of byCode.values()) {
+        points.sort((a, b) => a.date.localeCompare(b.date));
+      }
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.series.size === 0;
+  }
+
+  /** Rate of `code` in `base` effective on `date` (YYYY-MM-DD). */
+  private lookup(base: string, code: string, date: string): number | null {
+    if (base === code) return 1;
+    const points = this.series.get(base)?.get(code);
+    if (!points || points.length === 0) return null;
+
+    let match = points[0];
+    for (const point of points) {
+      if (point.date <= date) match = point;
+      else break;
+    }
+    return match.rate;
+  }
+
+  /**
+   * Units of `to` per 1 unit of `from` on `date`. Tries a direct rate,
+   * the inverse rate, then a cross rate through any shared base currency.
+   */
+  rate(from: string, to: string = this.reportingCurrency, date: string = toDateKey(null)): number | null {
+    const src = from.toUpperCase();
+    const dst = to.toUpperCase();
+    if (src === dst) return 1;
+
+    const direct = this.lookup(dst, src, date);
+    if (direct != null) return direct;
+
+    const inverse = this.lookup(src, dst, date);
+    if (inverse != null) return 1 / inverse;
+
+    for (const base of this.series.keys()) {
+      const fromRate = this.lookup(base, src, date);
+      const toRate = this.lookup(base, dst, date);
+      if (fromRate != null && toRate != null) return fromRate / toRate;
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert an amount into the reporting currency. Returns null when no rate exists.
+   */
+  convert(amount: number, from: string, date?: string): number | null {
+    const rate = this.rate(from, this.reportingCurrency, date);
+    return rate == null ? null : Math.round(amount * rate * 100) / 100;
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export async function listFxRates(workspaceId: string): Promise<FxRateRow[]> {
+  const result = await query<FxRateRow>(
+    `SELECT id, base_currency, currency_code, to_char(rate_date, 'YYYY-MM-DD') AS rate_date,
+            rate::float AS rate, source, created_by, created_at
+     FROM fx_rates
+     WHERE workspace_id = $1
+     ORDER BY currency_code, rate_date DESC`,
+    [workspaceId]
+  );
+  return result.rows;
+}
+
+export async function loadFxTable(workspaceId: string): Promise<FxTable> {
+  const [reportingCurrency, rates] = await Promise.all([
+    configLoader.getReportingCurrency(workspaceId),
+    listFxRates(workspaceId),
+  ]);
+  return new FxTable(reportingCurrency, rates);
+}
+
+export async function upsertFxRates(
+  workspaceId: string,
+  rates: FxRate[],
+  source: 'manual' | 'csv',
+  createdBy?: string
+): Promise<number> {
+  if (rates.length === 0) return 0;
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    for (const r of rates) {
+      await client.query(
+        `INSERT INTO fx_rates (workspace_id, base_currency, currency_code, rate_date, rate, source, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (workspace_id, base_currency, currency_code, rate_date) DO UPDATE SET
+           rate = EXCLUDED.rate,
+           source = EXCLUDED.source,
+           created_by = EXCLUDED.created_by,
+           updated_at = NOW()`,
+        [workspaceId, r.base_currency, r.currency_code, r.rate_date, r.rate, source, createdBy ?? null]
+      );
+    }
+    await client.query('COMMIT');
+    return rates.length;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function deleteFxRate(workspaceId: string, rateId: string): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM fx_rates WHERE workspace_id = $1 AND id = $2 RETURNING id`,
+    [workspaceId, rateId]
+  );
+  return result.rows.length > 0;
+}
+
+// ============================================================================
+// Validation & CSV Import
+// ============================================================================
+
+/**
+ * Validate one rate supplied by a user. Returns an error message or null.
+ */
+export function validateFxRate(input: Partial<Record<keyof FxRate, unknown>>, defaultBase: string): { rate?: FxRate; error?: string } {
+  const base = normalizeCurrencyCode(input.base_currency ?? defaultBase);
+  const code = normalizeCurrencyCode(input.currency_code);
+  const rate = Number(input.rate);
+  const dateStr = typeof input.rate_date === 'string' ? input.rate_date.trim() : '';
+
+  if (!code) return { error: `invalid currency code "${input.currency_code ?? ''}"` };
+  if (!base) return { error: `invalid base currency "${input.base_currency ?? ''}"` };
+  if (base === code) return { error: `${code} cannot be quoted against itself` };
+  if (!Number.isFinite(rate) || rate <= 0) return { error: `invalid rate "${input.rate ?? ''}" for ${code}` };
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || isNaN(new Date(dateStr).getTime())) {
+    return { error: `invalid date "${dateStr}" for ${code} (expected YYYY-MM-DD)` };
+  }
+
+  return { rate: { base_currency: base, currency_code: code, rate_date: dateStr, rate } };
+}
+
+const CSV_COLUMN_ALIASES: Record<keyof FxRate, string[]> = {
+  rate_date: ['date', 'rate_date', 'effective_date', 'as_of'],
+  currency_code: ['currency', 'currency_code', 'from', 'from_currency', 'code'],
+  rate: ['rate', 'fx_rate', 'exchange_rate'],
+  base_currency: ['base', 'base_currency', 'to', 'to_currency'],
+};
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (ch === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse an FX rate CSV. Requires a header row with date, currency and rate
+ * columns; an optional base column defaults to the reporting currency.
+ *
+ *   date,currency,rate
+ *   2026-01-01,EUR,1.09
+ */
+export function parseFxRatesCsv(csv: string, defaultBase: string): { rates: FxRate[]; errors: string[] } {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length === 0) return { rates: [], errors: ['CSV is empty'] };
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase().replace(/\s+/g, '_'));
+  const columns = {} as Record<keyof FxRate, number>;
+  for (const [key, aliases] of Object.entries(CSV_COLUMN_ALIASES) as [keyof FxRate, string[]][]) {
+    columns[key] = header.findIndex(h => aliases.includes(h));
+  }
+
+  const missing = (['rate_date', 'currency_code', 'rate'] as const).filter(k => columns[k] < 0);
+  if (missing.length > 0) {
+    return { rates: [], errors: [`missing required column(s): ${missing.join(', ')}`] };
+  }
+
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i]);
+    const { rate, error } = validateFxRate({
+      rate_date: cells[columns.rate_date],
+      currency_code: cells[columns.currency_code],
+      rate: cells[columns.rate],
+      base_currency: columns.base_currency >= 0 && cells[columns.base_currency] ? cells[columns.base_currency] : undefined,
+    }, defaultBase);
+
+    if (rate) rates.push(rate);
+    else errors.push(`row ${i + 1}: ${error}`);
+  }
+
+  return { rates, errors };
+}
+
+// ============================================================================
+// Deal Conversion
+// ============================================================================
+
+/**
+ * Convert one deal's CRM amount into the reporting currency.
+ * A null currency means the CRM has a single currency, assumed to be the reporting one.
+ */
+export function convertDealAmount(table: FxTable, deal: DealCurrencyInput): DealCurrencyValues {
+  const currency = normalizeCurrencyCode(deal.currency_code);
+  const original = deal.amount;
+
+  if (!currency || currency === table.reportingCurrency) {
+    return { amount: original, amount_original: original, currency_code: currency, fx_rate: 1 };
+  }
+
+  const rate = table.rate(currency, table.reportingCurrency, fxDateForDeal(deal));
+  if (rate == null) {
+    // No rate on file: keep the native value rather than dropping the deal from totals
+    return { amount: original, amount_original: original, currency_code: currency, fx_rate: null };
+  }
+
+  return {
+    amount: original == null ? null : Math.round(original * rate * 100) / 100,
+    amount_original: original,
+    currency_code: currency,
+    fx_rate: rate,
+  };
+}
+
+/**
+ * Resolve reporting-currency values for a batch of deals about to be upserted.
+ * Deals whose payload lacks a currency (e.g. incremental queries that don't
+ * select it) inherit the currency already stored for that record.
+ */
+export async function applyDealCurrency(
+  workspaceId: string,
+  deals: DealCurrencyInput[]
+): Promise<DealCurrencyValues[]> {
+  if (deals.length === 0) return [];
+
+  const table = await loadFxTable(workspaceId);
+
+  const unknown = deals.filter(d => !normalizeCurrencyCode(d.currency_code));
+  const stored = new Map<string, string>();
+  if (unknown.length > 0) {
+    const result = await query<{ source: string; source_id: string; currency_code: string }>(
+      `SELECT source, source_id, currency_code FROM deals
+       WHERE workspace_id = $1 AND currency_code IS NOT NULL
+         AND (source, source_id) IN (SELECT * FROM unnest($2::text[], $3::text[]))`,
+      [workspaceId, unknown.map(d => d.source), unknown.map(d => d.source_id)]
+    );
+    for (const row of result.rows) stored.set(`${row.source}:${row.source_id}`, row.currency_code);
+  }
+
+  return deals.map(deal => convertDealAmount(table, {
+    ...deal,
+    currency_code: normalizeCurrencyCode(deal.currency_code) ?? stored.get(`${deal.source}:${deal.source_id}`) ?? null,
+  }));
+}
+
+/**
+ * Recompute deals.amount from amount_original for every multi-currency deal.
+ * Call after FX rates or the reporting currency change.
+ */
+export async function reconvertDealAmounts(workspaceId: string): Promise<{ updated: number; unconverted: number }> {
+  const table = await loadFxTable(workspaceId);
+
+  const result = await query<{
+    id: string;
+    amount_original: string | null;
+    currency_code: string;
+    close_date: string | null;
+    stage_normalized: string | null;
+  }>(
+    `SELECT id, amount_original, currency_code, close_date, stage_normalized
+     FROM deals
+     WHERE workspace_id = $1 AND currency_code IS NOT NULL AND amount_original IS NOT NULL`,
+    [workspaceId]
+  );
+
+  const ids: string[] = [];
+  const amounts: (number | null)[] = [];
+  const rates: (number | null)[] = [];
+  let unconverted = 0;
+
+  for (const row of result.rows) {
+    const values = convertDealAmount(table, {
+      source: '',
+      source_id: row.id,
+      amount: row.amount_original == null ? null : Number(row.amount_original),
+      currency_code: row.currency_code,
+      close_date: row.close_date,
+      stage_normalized: row.stage_normalized,
+    });
+    if (values.fx_rate == null) unconverted++;
+    ids.push(row.id);
+    amounts.push(values.amount);
+    rates.push(values.fx_rate);
+  }
+
+  const BATCH = 1000;
+  for (let i = 0; i < ids.length; i += BATCH) {
+    await query(
+      `UPDATE deals d
+       SET amount = v.amount, fx_rate = v.fx_rate, updated_at = NOW()
+       FROM unnest($2::uuid[], $3::numeric[], $4::numeric[]) AS v(id, amount, fx_rate)
+       WHERE d.workspace_id = $1 AND d.id = v.id`,
+      [workspaceId, ids.slice(i, i + BATCH), amounts.slice(i, i + BATCH), rates.slice(i, i + BATCH)]
+    );
+  }
+
+  console.log(`[FX] Reconverted ${ids.length} deals for ${workspaceId} to ${table.reportingCurrency} (${unconverted} without a rate)`);
+  return { updated: ids.length, unconverted };
+}
+
+/**
+ * Currency mix of a workspace's deals, for settings and data-quality surfaces.
+ */
+export async function getCurrencyBreakdown(workspaceId: string): Promise<Array<{
+  currency_code: string | null;
+  deal_count: number;
+  unconverted: number;
+}>> {
+  const result = await query<{ currency_code: string | null; deal_count: string; unconverted: string }>(
+    `SELECT currency_code, COUNT(*) AS deal_count,
+            COUNT(*) FILTER (WHERE currency_code IS NOT NULL AND fx_rate IS NULL) AS unconverted
+     FROM deals
+     WHERE workspace_id = $1
+     GROUP BY currency_code
+     ORDER BY COUNT(*) DESC`,
+    [workspaceId]
+  );
+  return result.rows.map(r => ({
+    currency_code: r.currency_code,
+    deal_count: parseInt(r.deal_count, 10),
+    unconverted: parseInt(r.unconverted, 10),
+  }));
+}
@@ -0,0 +1,140 @@
+// Microsoft Teams Delivery for Reports
+//
+// Posts an Adaptive Card summary to a Teams incoming webhook. Webhooks cannot
+// attach files, so generated formats are linked as card actions instead of
+// being uploaded like the Slack thread replies.
+
+import { ReportGeneration, ReportTemplate, SectionContent } from '../reports/types.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  buildAdaptiveCard,
+  cardHeading,
+  cardText,
+  cardContext,
+  cardFacts,
+  openUrlAction,
+  postCardToTeams,
+  getTeamsWebhook,
+  type AdaptiveCard,
+  type AdaptiveCardElement,
+} from '../connectors/teams/client.js';
+
+const logger = createLogger('TeamsDelivery');
+
+export interface TeamsDeliveryResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface TeamsConfig {
+  webhook_url?: string;       // Falls back to the workspace default Teams webhook
+  channel_name?: string;
+  include_inline?: boolean;
+}
+
+export async function deliverReportToTeams(
+  generation: ReportGeneration,
+  template: ReportTemplate,
+  workspaceId: string,
+  branding: any,
+  config: TeamsConfig
+): Promise<TeamsDeliveryResult> {
+  try {
+    const webhookUrl = config.webhook_url || await getTeamsWebhook(workspaceId);
+    if (!webhookUrl) {
+      return { success: false, error: 'No Teams webhook configured' };
+    }
+
+    await postCardToTeams(webhookUrl, buildTeamsReportCard(generation, template, branding, config));
+
+    logger.info('Posted Teams card', {
+      generation_id: generation.id,
+      channel: config.channel_name,
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Teams delivery failed', error instanceof Error ? error : undefined);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export function buildTeamsReportCard(
+  generation: ReportGeneration,
+  template: ReportTemplate,
+  branding: any,
+  config: TeamsConfig = {}
+): AdaptiveCard {
+  const appUrl = process.env.APP_URL || 'http://localhost:3000';
+  const date = new Date(generation.created_at).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const viewerUrl = `${appUrl}/workspace/${generation.workspace_id}/reports/${template.id}/generations/${generation.id}`;
+
+  const body: AdaptiveCardElement[] = [
+    cardHeading(template.name),
+    cardContext(`${date} • Generated in ${generation.generation_duration_ms}ms`),
+  ];
+
+  const sections = generation.sections_content || [];
+
+  // Headline metrics from the first two sections
+  const facts: { title: string; value: string }[] = [];
+  for (const section of sections.slice(0, 2)) {
+    for (const metric of (section.metrics || []).slice(0, 2)) {
+      facts.push({
+        title: metric.label,
+        value: `${getSeverityIcon(metric.severity)} ${metric.value}${metric.delta ? ` (${metric.delta})` : ''}`,
+      });
+    }
+  }
+  if (facts.length > 0) body.push(cardFacts(facts));
+
+  const executiveSummary = extractExecutiveSummary(sections);
+  if (executiveSummary) {
+    body.push(cardText(`**Executive Summary**\n\n${executiveSummary}`, true));
+  }
+
+  // Optional inline section narratives
+  if (config.include_inline) {
+    for (const section of sections) {
+      if (!section.narrative) continue;
+      body.push(cardText(`**${section.title}**\n\n${section.narrative}`, true));
+    }
+  }
+
+  body.push(cardContext(`${branding?.prepared_by ? `Prepared by ${branding.prepared_by} • ` : ''}Powered by Pandora`));
+
+  const actions = [openUrlAction('View Full Report →', viewerUrl)];
+  for (const [format, fileInfo] of Object.entries(generation.formats_generated || {})) {
+    if (!fileInfo?.download_url) continue;
+    const url = fileInfo.download_url.startsWith('/') ? `${appUrl}${fileInfo.download_url}` : fileInfo.download_url;
+    actions.push(openUrlAction(`Download ${format.toUpperCase()}`, url));
+  }
+
+  return buildAdaptiveCard(body, actions);
+}
+
+function getSeverityIcon(severity?: string): string {
+  switch (severity) {
+    case 'critical': return '🔴';
+    case 'warning': return '🔶';
+    case 'good': return '🟢';
+    default: return '🔵';
+  }
+}
+
+function extractExecutiveSummary(sections: SectionContent[]): string | null {
+  const source = sections.find(s => s.section_id === 'actions-summary')?.narrative || sections[0]?.narrative;
+  if (!source) return null;
+  // Take the first 2 sentences
+  const sentences = source.split(/[.!?]+/).map(s => s.trim()).filter(s => s.length > 0);
+  return sentences.slice(0, 2).join('. ') + '.';
+}
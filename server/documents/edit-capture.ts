@@ -1,6 +1,7 @@
 import { diffWords } from 'diff';
 import { query } from '../db.js';
 import { configLoader } from '../config/workspace-config-loader.js';
+import { createPiiScrubber } from '../llm/pii-scrubber.js';
 import { 
   DocumentEdit, 
   TrainingPair, 
@@ -79,9 +80,10 @@ export async function captureDocumentEdit(input: CaptureEditInput): Promise<Docu
     ]
   );
 
-  // Create training pair
+  // Create training pair (stored PII-scrubbed, like training_pairs)
   const qualityLabel = deriveQualityLabel(editDistance, false, 0);
   const trainingPairId = uuidv4();
+  const { scrubber } = await createPiiScrubber(workspaceId);
   await query(
     `INSERT INTO document_training_pairs (
       id, workspace_id, template_type, section_id, system_prompt_at_time, 
@@ -90,8 +92,8 @@ export async function captureDocumentEdit(input: CaptureEditInput): Promise<Docu
       pair_type, created_at
     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
     [
-      trainingPairId, workspaceId, templateType, sectionId, systemPrompt,
-      rawText, editedText, editDistance, signals,
+      trainingPairId, workspaceId, templateType, sectionId, scrubber.scrub(systemPrompt),
+      scrubber.scrub(rawText), scrubber.scrub(editedText), editDistance, signals,
       qualityLabel, JSON.stringify(voiceProfileSnapshot), 
       quarterPhaseAtTime, attainmentPctAtTime, 'document_synthesis', new Date().toISOString()
     ]
@@ -342,7 +342,7 @@ export async function assembleConversationDossier(
 }
 
 /**
- * Build source URL for Gong or Fireflies
+ * Build source URL for the recording in its source system
  */
 function buildSourceUrl(source: string, sourceId: string, sourceData: any): string | null {
   if (source === 'gong') {
@@ -351,6 +351,12 @@ function buildSourceUrl(source: string, sourceId: string, sourceData: any): stri
   if (source === 'fireflies') {
     return `https://app.fireflies.ai/view/${sourceId}`;
   }
+  if (source === 'zoom') {
+    return sourceData?.share_url || null;
+  }
+  if (source === 'chorus') {
+    return sourceData?.url || null;
+  }
   return null;
 }
 
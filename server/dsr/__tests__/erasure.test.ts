@@ -0,0 +1,108 @@
+/**
+ * Unit tests for DSR erasure
+ *
+ * A mocked database reports the subject's rows per store before and after
+ * the erasure transaction, so the SQL issued per store and the verification
+ * report can be checked without Postgres.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { query, getClient } from '../../db.js';
+import { eraseSubjectRecords } from '../erasure.js';
+import { SUBJECT_STORES } from '../stores.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+const mockGetClient = getClient as unknown as ReturnType<typeof vi.fn>;
+
+const subject = { email: 'jane.doe@acme.com', name: 'Jane Doe' };
+
+let matchesBefore: Record<string, number>;
+let matchesAfter: Record<string, number>;
+let committed: boolean;
+let statements: string[];
+
+function tableOf(sql: string): string | undefined {
+  return SUBJECT_STORES.find(s => sql.includes(`FROM ${s.table} t`) || sql.includes(`UPDATE ${s.table} t`))?.table;
+}
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  committed = false;
+  statements = [];
+  matchesBefore = { calendar_events: 2, search_chunks: 3, conversations: 1 };
+  matchesAfter = {};
+
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM pg_class')) return { rows: SUBJECT_STORES.map(s => ({ relname: s.table })) };
+    const table = tableOf(sql);
+    const counts = committed ? matchesAfter : matchesBefore;
+    return { rows: [{ count: (table && counts[table]) || 0 }] };
+  });
+
+  mockGetClient.mockResolvedValue({
+    query: vi.fn(async (sql: string) => {
+      statements.push(sql);
+      if (sql === 'COMMIT') committed = true;
+      const table = tableOf(sql);
+      return { rows: [], rowCount: (table && matchesBefore[table]) || 0 };
+    }),
+    release: vi.fn(),
+  });
+});
+
+describe('eraseSubjectRecords', () => {
+  it('redacts calendar attendees and drops search chunks inside the erasure transaction', async () => {
+    const report = await eraseSubjectRecords('ws-1', subject, ['jane.doe@acme.com', 'Jane Doe'], {
+      requestId: 'dsr-1',
+      pseudonym: 'Data Subject 7f3a',
+    });
+
+    const commitAt = statements.indexOf('COMMIT');
+    const calendar = statements.findIndex(s => s.includes('UPDATE calendar_events t'));
+    const chunks = statements.findIndex(s => s.includes('DELETE FROM search_chunks t'));
+    expect(calendar).toBeGreaterThan(statements.indexOf('BEGIN'));
+    expect(calendar).toBeLessThan(commitAt);
+    expect(chunks).toBeGreaterThan(statements.indexOf('BEGIN'));
+    expect(chunks).toBeLessThan(commitAt);
+    expect(statements[calendar]).toContain('attendees = dsr_redact(');
+    expect(statements[calendar]).toContain('organizer_email = CASE');
+
+    expect(report.stores.find(s => s.store === 'calendar_events')).toMatchObject({ action: 'redacted', matched: 2, affected: 2, remaining: 0 });
+    expect(report.stores.find(s => s.store === 'search_chunks')).toMatchObject({ action: 'deleted', matched: 3, affected: 3, remaining: 0 });
+    expect(report.verified).toBe(true);
+  });
+
+  it('deletes document training pairs and MCP call logs that mention the subject', async () => {
+    matchesBefore = { document_training_pairs: 2, mcp_calls: 4 };
+
+    const report = await eraseSubjectRecords('ws-1', subject, ['jane.doe@acme.com', 'Jane Doe'], {
+      requestId: 'dsr-3',
+      pseudonym: 'Data Subject 7f3a',
+    });
+
+    const commitAt = statements.indexOf('COMMIT');
+    for (const table of ['document_training_pairs', 'mcp_calls']) {
+      const at = statements.findIndex(s => s.includes(`DELETE FROM ${table} t`));
+      expect(at).toBeGreaterThan(statements.indexOf('BEGIN'));
+      expect(at).toBeLessThan(commitAt);
+    }
+    expect(report.stores.find(s => s.store === 'document_training_pairs')).toMatchObject({ action: 'deleted', matched: 2, affected: 2, remaining: 0 });
+    expect(report.stores.find(s => s.store === 'mcp_calls')).toMatchObject({ action: 'deleted', matched: 4, affected: 4, remaining: 0 });
+    expect(report.verified).toBe(true);
+  });
+
+  it('is not verified while subject text is still searchable', async () => {
+    matchesAfter = { search_chunks: 1 };
+
+    const report = await eraseSubjectRecords('ws-1', subject, ['jane.doe@acme.com'], {
+      requestId: 'dsr-2',
+      pseudonym: 'Data Subject 7f3a',
+    });
+
+    expect(report.total_remaining).toBe(1);
+    expect(report.verified).toBe(false);
+  });
+});
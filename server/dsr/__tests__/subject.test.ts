@@ -0,0 +1,60 @@
+/**
+ * Unit tests for data subject parsing, hashing and search-term escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  containsPattern,
+  hashSubjectEmail,
+  maskEmail,
+  parseDataSubject,
+  redactionPattern,
+  subjectTerms,
+} from '../subject.js';
+
+describe('parseDataSubject', () => {
+  it('normalizes email and name', () => {
+    expect(parseDataSubject({ email: '  Jane.Doe@Acme.COM ', name: ' Jane   Doe ' })).toEqual({
+      email: 'jane.doe@acme.com',
+      name: 'Jane Doe',
+    });
+  });
+
+  it('rejects invalid emails and names too short to search safely', () => {
+    expect(parseDataSubject({ email: 'jane' })).toHaveProperty('error');
+    expect(parseDataSubject({ email: 'jane@acme.com', name: 'Jo' })).toHaveProperty('error');
+  });
+});
+
+describe('hashing and masking', () => {
+  it('hashes the lowercased email so it matches the SQL suppression digest', () => {
+    expect(hashSubjectEmail('Jane@Acme.com')).toBe(hashSubjectEmail('jane@acme.com'));
+    expect(hashSubjectEmail('jane@acme.com')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('masks the local part', () => {
+    expect(maskEmail('jane.doe@acme.com')).toBe('j***@acme.com');
+  });
+});
+
+describe('subjectTerms', () => {
+  it('adds known CRM names once, case-insensitively, skipping short ones', () => {
+    const subject = { email: 'jane@acme.com', name: 'Jane Doe' };
+    expect(subjectTerms(subject, ['jane doe', 'Jane D. Smith', 'JD'])).toEqual([
+      'jane@acme.com',
+      'Jane Doe',
+      'Jane D. Smith',
+    ]);
+  });
+});
+
+describe('pattern escaping', () => {
+  it('escapes LIKE wildcards', () => {
+    expect(containsPattern('a_b%c@x.io')).toBe('%a\\_b\\%c@x.io%');
+  });
+
+  it('escapes regex metacharacters and JSON-encodes for jsonb text', () => {
+    expect(redactionPattern('jane.doe+1@acme.com')).toBe('jane\\.doe\\+1@acme\\.com');
+    expect(redactionPattern('Dan "The Man" Lee', true)).toBe('Dan \\\\"The Man\\\\" Lee');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * DSR erasure: pseudonymize or delete the subject's rows in every store in
+ * one transaction, add the suppression that keeps later syncs from
+ * re-ingesting them, then re-run the locator to verify nothing is left.
+ */
+
+import { getClient } from '../db.js';
+import { availableStores, locateSubjectRecords } from './stores.js';
+import { containsPattern, hashSubjectEmail, redactionPattern, type DataSubject } from './subject.js';
+
+export interface ErasureStoreResult {
+  store: string;
+  table: string;
+  action: 'redacted' | 'deleted';
+  matched: number;
+  affected: number;
+  remaining: number;
+}
+
+export interface ErasureReport {
+  pseudonym: string;
+  terms_searched: number;
+  stores: ErasureStoreResult[];
+  total_matched: number;
+  total_affected: number;
+  total_remaining: number;
+  suppressed: boolean;
+  verified: boolean;
+}
+
+const ERASURE_CTE = `s AS (
+  SELECT $1::uuid AS workspace_id, $2::text AS email, $3::text[] AS patterns,
+         $4::text[] AS regex, $5::text[] AS json_regex, $6::text AS pseudonym
+)`;
+
+export async function eraseSubjectRecords(
+  workspaceId: string,
+  subject: DataSubject,
+  terms: string[],
+  options: { requestId: string; pseudonym: string }
+): Promise<ErasureReport> {
+  const before = await locateSubjectRecords(workspaceId, subject, terms);
+  const stores = await availableStores();
+  const affected = new Map<string, number>();
+
+  const params = [
+    workspaceId,
+    subject.email,
+    terms.map(containsPattern),
+    terms.map(t => redactionPattern(t)),
+    terms.map(t => redactionPattern(t, true)),
+    options.pseudonym,
+  ];
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    // Lets this transaction rewrite rows the suppression triggers protect
+    await client.query(`SET LOCAL pandora.dsr_erasure = 'on'`);
+
+    await client.query(
+      `INSERT INTO dsr_suppressions (workspace_id, email_hash, request_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (workspace_id, email_hash) DO UPDATE SET request_id = EXCLUDED.request_id`,
+      [workspaceId, hashSubjectEmail(subject.email), options.requestId]
+    );
+
+    for (const store of stores) {
+      const where = `t.workspace_id = s.workspace_id AND (${store.match})`;
+      const sql = store.redact
+        ? `WITH ${ERASURE_CTE} UPDATE ${store.table} t SET ${store.redact} FROM s WHERE ${where}`
+        : `WITH ${ERASURE_CTE} DELETE FROM ${store.table} t USING s WHERE ${where}`;
+      const result = await client.query(sql, params);
+      affected.set(store.key, result.rowCount ?? 0);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const after = await locateSubjectRecords(workspaceId, subject, terms);
+  const remaining = new Map(after.map(m => [m.store, m.count]));
+
+  const results: ErasureStoreResult[] = before.map(m => ({
+    store: m.store,
+    table: m.table,
+    action: stores.find(s => s.key === m.store)?.redact ? 'redacted' : 'deleted',
+    matched: m.count,
+    affected: affected.get(m.store) ?? 0,
+    remaining: remaining.get(m.store) ?? 0,
+  }));
+
+  const totalRemaining = results.reduce((sum, r) => sum + r.remaining, 0);
+
+  return {
+    pseudonym: options.pseudonym,
+    terms_searched: terms.length,
+    stores: results,
+    total_matched: results.reduce((sum, r) => sum + r.matched, 0),
+    total_affected: results.reduce((sum, r) => sum + r.affected, 0),
+    total_remaining: totalRemaining,
+    suppressed: true,
+    verified: totalRemaining === 0,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Data Subject Requests
+ *
+ * GDPR/CCPA access and erasure for people who appear in workspace data
+ * (prospects, contacts, call participants). A request is recorded with the
+ * subject's hashed email and a masked label only; the export bundle is
+ * returned to the caller and never stored.
+ */
+
+import { randomUUID } from 'crypto';
+import { query } from '../db.js';
+import type { AuditActor } from '../audit/audit-log.js';
+import { knownSubjectNames, locateSubjectRecords, type StoreMatch } from './stores.js';
+import { eraseSubjectRecords, type ErasureReport } from './erasure.js';
+import { hashSubjectEmail, maskEmail, subjectTerms, type DataSubject } from './subject.js';
+
+export type DsrRequestType = 'export' | 'erasure';
+export type DsrStatus = 'processing' | 'completed' | 'failed';
+
+export interface DsrRequest {
+  id: string;
+  workspace_id: string;
+  request_type: DsrRequestType;
+  status: DsrStatus;
+  subject_email_hash: string;
+  subject_label: string;
+  pseudonym: string | null;
+  requested_by: string | null;
+  requested_by_email: string | null;
+  report: Record<string, unknown> | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface DsrExportBundle {
+  format: 'pandora.dsr_export.v1';
+  request_id: string;
+  workspace_id: string;
+  generated_at: string;
+  subject: { email: string; name: string | null; names_matched: string[] };
+  counts: Record<string, number>;
+  records: Record<string, Record<string, unknown>[]>;
+}
+
+export interface SuppressionEntry {
+  email_hash: string;
+  request_id: string | null;
+  created_at: string;
+}
+
+const REQUEST_COLUMNS = `id, workspace_id, request_type, status, subject_email_hash, subject_label, pseudonym,
+  requested_by, requested_by_email, report, error, created_at, completed_at`;
+
+async function resolveTerms(workspaceId: string, subject: DataSubject): Promise<string[]> {
+  return subjectTerms(subject, await knownSubjectNames(workspaceId, subject));
+}
+
+async function createRequest(
+  workspaceId: string,
+  type: DsrRequestType,
+  subject: DataSubject,
+  actor: AuditActor | null,
+  pseudonym: string | null = null
+): Promise<DsrRequest> {
+  const result = await query<DsrRequest>(
+    `INSERT INTO data_subject_requests (
+       workspace_id, request_type, subject_email_hash, subject_label, pseudonym, requested_by, requested_by_email
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${REQUEST_COLUMNS}`,
+    [
+      workspaceId, type, hashSubjectEmail(subject.email), maskEmail(subject.email), pseudonym,
+      actor?.type === 'user' ? actor.id || null : null, actor?.email || null,
+    ]
+  );
+  return result.rows[0];
+}
+
+async function finishRequest(
+  requestId: string,
+  outcome: { report: Record<string, unknown> } | { error: string }
+): Promise<DsrRequest> {
+  const result = await query<DsrRequest>(
+    `UPDATE data_subject_requests
+     SET status = $2, report = $3, error = $4, completed_at = NOW()
+     WHERE id = $1
+     RETURNING ${REQUEST_COLUMNS}`,
+    [
+      requestId,
+      'error' in outcome ? 'failed' : 'completed',
+      'report' in outcome ? JSON.stringify(outcome.report) : null,
+      'error' in outcome ? outcome.error : null,
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Per-store counts without recording a request — lets an admin check the
+ * footprint before exporting or erasing
+ */
+export async function previewSubject(workspaceId: string, subject: DataSubject): Promise<{
+  terms_searched: number;
+  stores: StoreMatch[];
+  total: number;
+}> {
+  const terms = await resolveTerms(workspaceId, subject);
+  const stores = await locateSubjectRecords(workspaceId, subject, terms);
+  return {
+    terms_searched: terms.length,
+    stores,
+    total: stores.reduce((sum, s) => sum + s.count, 0),
+  };
+}
+
+export async function exportSubjectData(
+  workspaceId: string,
+  subject: DataSubject,
+  actor: AuditActor | null
+): Promise<{ request: DsrRequest; bundle: DsrExportBundle }> {
+  const request = await createRequest(workspaceId, 'export', subject, actor);
+
+  try {
+    const knownNames = await knownSubjectNames(workspaceId, subject);
+    const terms = subjectTerms(subject, knownNames);
+    const matches = await locateSubjectRecords(workspaceId, subject, terms, { includeRows: true });
+
+    const counts = Object.fromEntries(matches.map(m => [m.store, m.count]));
+    const bundle: DsrExportBundle = {
+      format: 'pandora.dsr_export.v1',
+      request_id: request.id,
+      workspace_id: workspaceId,
+      generated_at: new Date().toISOString(),
+      subject: { email: subject.email, name: subject.name, names_matched: knownNames },
+      counts,
+      records: Object.fromEntries(matches.map(m => [m.store, m.rows || []])),
+    };
+
+    const completed = await finishRequest(request.id, {
+      report: { terms_searched: terms.length, counts, total: matches.reduce((sum, m) => sum + m.count, 0) },
+    });
+    return { request: completed, bundle };
+  } catch (error) {
+    await finishRequest(request.id, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+export async function eraseSubjectData(
+  workspaceId: string,
+  subject: DataSubject,
+  actor: AuditActor | null
+): Promise<Omit<DsrRequest, 'report'> & { report: ErasureReport }> {
+  const pseudonym = `Redacted-${randomUUID().slice(0, 8)}`;
+  const request = await createRequest(workspaceId, 'erasure', subject, actor, pseudonym);
+
+  try {
+    const terms = await resolveTerms(workspaceId, subject);
+    const report = await eraseSubjectRecords(workspaceId, subject, terms, { requestId: request.id, pseudonym });
+    const completed = await finishRequest(request.id, { report: report as unknown as Record<string, unknown> });
+    return { ...completed, report };
+  } catch (error) {
+    await finishRequest(request.id, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+export async function listDsrRequests(workspaceId: string, limit = 50): Promise<DsrRequest[]> {
+  const result = await query<DsrRequest>(
+    `SELECT ${REQUEST_COLUMNS} FROM data_subject_requests
+     WHERE workspace_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [workspaceId, Math.min(Math.max(limit, 1), 500)]
+  );
+  return result.rows;
+}
+
+export async function getDsrRequest(workspaceId: string, requestId: string): Promise<DsrRequest | null> {
+  const result = await query<DsrRequest>(
+    `SELECT ${REQUEST_COLUMNS} FROM data_subject_requests WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, requestId]
+  );
+  return result.rows[0] || null;
+}
+
+export async function listSuppressions(workspaceId: string): Promise<SuppressionEntry[]> {
+  const result = await query<SuppressionEntry>(
+    `SELECT email_hash, request_id, created_at FROM dsr_suppressions
+     WHERE workspace_id = $1
+     ORDER BY created_at DESC`,
+    [workspaceId]
+  );
+  return result.rows;
+}
+
+/** Whether an email is suppressed, for callers that want to check before syncing */
+export async function isSuppressed(workspaceId: string, email: string): Promise<boolean> {
+  const result = await query(
+    `SELECT 1 FROM dsr_suppressions WHERE workspace_id = $1 AND email_hash = $2`,
+    [workspaceId, hashSubjectEmail(email)]
+  );
+  return result.rows.length > 0;
+}
@@ -0,0 +1,265 @@
+/**
+ * Every table that can hold personal data about a data subject, with how
+ * to find their rows, what to export, and how erasure treats them.
+ *
+ * Conditions are written against the row alias `t` and a one-row subject
+ * CTE `s` (workspace_id, email, patterns); erasure adds regex, json_regex
+ * and pseudonym. Order matters for erasure: contacts go last because the
+ * other stores find the subject's rows through their contact ids.
+ */
+
+import { query } from '../db.js';
+import { containsPattern, type DataSubject } from './subject.js';
+
+export interface SubjectStore {
+  key: string;
+  table: string;
+  /** Columns included in the export bundle */
+  exportColumns: string;
+  match: string;
+  /** SET clause applied on erasure; stores without one have matched rows deleted */
+  redact?: string;
+}
+
+export interface StoreMatch {
+  store: string;
+  table: string;
+  count: number;
+  rows?: Record<string, unknown>[];
+}
+
+const SUBJECT_CONTACT_IDS = `SELECT c.id FROM contacts c WHERE c.workspace_id = s.workspace_id AND lower(c.email) = s.email`;
+
+const text = (column: string) => `dsr_redact(t.${column}, s.regex, s.pseudonym)`;
+const json = (column: string) => `dsr_redact(t.${column}::text, s.json_regex, s.pseudonym)::jsonb`;
+const mentions = (...columns: string[]) => columns.map(c => `t.${c} ILIKE ANY(s.patterns)`).join(' OR ');
+
+export const SUBJECT_STORES: SubjectStore[] = [
+  {
+    key: 'conversation_signals',
+    table: 'conversation_signals',
+    exportColumns: 't.id, t.conversation_id, t.signal_type, t.signal_value, t.source_quote, t.deal_id, t.extracted_at',
+    match: mentions('source_quote', 'signal_value'),
+    redact: `source_quote = ${text('source_quote')}, signal_value = ${text('signal_value')}`,
+  },
+  {
+    // Signals extracted from the subject's own emails and notes are deleted with them
+    key: 'activity_signals',
+    table: 'activity_signals',
+    exportColumns: 't.id, t.activity_id, t.signal_type, t.signal_value, t.source_quote, t.speaker_type, t.extracted_at',
+    match: `t.activity_id IN (
+        SELECT a.id FROM activities a WHERE a.workspace_id = s.workspace_id AND a.contact_id IN (${SUBJECT_CONTACT_IDS})
+      ) OR ${mentions('source_quote', 'signal_value')}`,
+  },
+  {
+    key: 'activities',
+    table: 'activities',
+    exportColumns: 't.id, t.source, t.source_id, t.activity_type, t.timestamp, t.actor, t.subject, t.body, t.direction, t.deal_id, t.contact_id, t.source_data',
+    match: `t.contact_id IN (${SUBJECT_CONTACT_IDS}) OR ${mentions('actor', 'subject', 'body')} OR t.source_data::text ILIKE ANY(s.patterns)`,
+    redact: `actor = ${text('actor')},
+      subject = ${text('subject')},
+      body = CASE WHEN t.contact_id IN (${SUBJECT_CONTACT_IDS}) THEN NULL ELSE ${text('body')} END,
+      source_data = ${json('source_data')},
+      custom_fields = ${json('custom_fields')},
+      updated_at = NOW()`,
+  },
+  {
+    key: 'conversations',
+    table: 'conversations',
+    exportColumns: 't.id, t.source, t.source_id, t.title, t.call_date, t.duration_seconds, t.participants, t.transcript_text, t.summary, t.deal_id, t.account_id',
+    match: `${mentions('title', 'transcript_text', 'summary')} OR t.participants::text ILIKE ANY(s.patterns)`,
+    redact: `participants = dsr_redact((
+        SELECT COALESCE(jsonb_agg(
+          CASE WHEN lower(p->>'email') = s.email
+            THEN jsonb_build_object('name', s.pseudonym, 'email', NULL, 'affiliation', p->'affiliation', 'redacted', true)
+            ELSE p
+          END
+        ), '[]'::jsonb)
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(t.participants) = 'array' THEN t.participants ELSE '[]'::jsonb END) p
+      )::text, s.json_regex, s.pseudonym)::jsonb,
+      title = ${text('title')},
+      transcript_text = ${text('transcript_text')},
+      summary = ${text('summary')},
+      source_data = ${json('source_data')},
+      action_items = ${json('action_items')},
+      custom_fields = ${json('custom_fields')},
+      dsr_redacted_at = NOW(),
+      updated_at = NOW()`,
+  },
+  {
+    // Attendee lists from Google and Outlook calendar sync
+    key: 'calendar_events',
+    table: 'calendar_events',
+    exportColumns: 't.id, t.source, t.title, t.description, t.location, t.start_time, t.end_time, t.attendees, t.organizer_email, t.creator_email',
+    match: `${mentions('title', 'description', 'location', 'organizer_email', 'creator_email')} OR t.attendees::text ILIKE ANY(s.patterns)`,
+    redact: `attendees = dsr_redact((
+        SELECT COALESCE(jsonb_agg(
+          CASE WHEN lower(a->>'email') = s.email
+            THEN jsonb_build_object('email', NULL, 'displayName', s.pseudonym, 'responseStatus', a->'responseStatus', 'redacted', true)
+            ELSE a
+          END
+        ), '[]'::jsonb)
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(t.attendees) = 'array' THEN t.attendees ELSE '[]'::jsonb END) a
+      )::text, s.json_regex, s.pseudonym)::jsonb,
+      organizer_email = CASE WHEN lower(t.organizer_email) = s.email THEN NULL ELSE t.organizer_email END,
+      creator_email = CASE WHEN lower(t.creator_email) = s.email THEN NULL ELSE t.creator_email END,
+      title = ${text('title')},
+      description = ${text('description')},
+      location = ${text('location')},
+      dsr_redacted_at = NOW(),
+      updated_at = NOW()`,
+  },
+  {
+    // Search chunks hold copies of transcript and memory text plus embeddings;
+    // matching chunks are dropped and the indexer rebuilds them from the
+    // redacted source on its next run
+    key: 'search_chunks',
+    table: 'search_chunks',
+    exportColumns: 't.id, t.source_type, t.source_id, t.chunk_index, t.content, t.metadata, t.indexed_at',
+    match: `${mentions('content')} OR t.metadata::text ILIKE ANY(s.patterns)`,
+  },
+  {
+    key: 'workspace_memory',
+    table: 'workspace_memory',
+    exportColumns: 't.id, t.memory_type, t.entity_type, t.entity_id, t.entity_name, t.summary, t.content, t.last_seen_at',
+    match: `(t.entity_type = 'contact' AND t.entity_id IN (${SUBJECT_CONTACT_IDS}))
+      OR ${mentions('entity_name', 'summary')} OR t.content::text ILIKE ANY(s.patterns)`,
+    redact: `entity_name = ${text('entity_name')}, summary = ${text('summary')}, content = ${json('content')}, updated_at = NOW()`,
+  },
+  {
+    // Training data is dropped rather than rewritten so redacted text never reaches a fine-tune
+    key: 'training_pairs',
+    table: 'training_pairs',
+    exportColumns: 't.id, t.capability, t.skill_id, t.user_prompt, t.assistant_response, t.created_at',
+    match: `${mentions('system_prompt', 'user_prompt', 'assistant_response')} OR t.override_value::text ILIKE ANY(s.patterns)`,
+  },
+  {
+    key: 'agent_tuning_pairs',
+    table: 'agent_tuning_pairs',
+    exportColumns: 't.id, t.agent_id, t.skill_id, t.input_context, t.preferred_output, t.created_at',
+    match: mentions('input_context', 'preferred_output'),
+  },
+  {
+    // Report edit and classification pairs feed fine-tunes; dropped like training_pairs
+    key: 'document_training_pairs',
+    table: 'document_training_pairs',
+    exportColumns: 't.id, t.pair_type, t.template_type, t.section_id, t.raw_output, t.corrected_output, t.created_at',
+    match: mentions('system_prompt_at_time', 'raw_output', 'corrected_output'),
+  },
+  {
+    key: 'chat_sessions',
+    table: 'chat_sessions',
+    exportColumns: 't.id, t.user_id, t.title, t.created_at',
+    match: mentions('title'),
+    redact: `title = ${text('title')}`,
+  },
+  {
+    key: 'chat_session_messages',
+    table: 'chat_session_messages',
+    exportColumns: 't.id, t.session_id, t.role, t.content, t.created_at',
+    match: `${mentions('content')} OR t.metadata::text ILIKE ANY(s.patterns)`,
+    redact: `content = ${text('content')}, metadata = ${json('metadata')}`,
+  },
+  {
+    key: 'chat_messages',
+    table: 'chat_messages',
+    exportColumns: 't.id, t.session_id, t.surface, t.role, t.content, t.created_at',
+    match: mentions('content'),
+    redact: `content = ${text('content')}`,
+  },
+  {
+    // MCP tool call log: inputs and outputs can quote CRM and conversation text
+    key: 'mcp_calls',
+    table: 'mcp_calls',
+    exportColumns: 't.id, t.tool_name, t.input_summary, t.output_summary, t.error, t.called_at',
+    match: mentions('input_summary', 'output_summary', 'error'),
+  },
+  {
+    key: 'report_generations',
+    table: 'report_generations',
+    exportColumns: 't.id, t.report_template_id, t.sections_content, t.opening_narrative, t.created_at',
+    match: `${mentions('opening_narrative')} OR t.sections_content::text ILIKE ANY(s.patterns)`,
+    redact: `sections_content = ${json('sections_content')}, opening_narrative = ${text('opening_narrative')}`,
+  },
+  {
+    key: 'report_documents',
+    table: 'report_documents',
+    exportColumns: 't.id, t.document_type, t.week_label, t.headline, t.sections, t.actions, t.recommended_next_steps, t.generated_at',
+    match: `${mentions('headline', 'recommended_next_steps')}
+      OR t.sections::text ILIKE ANY(s.patterns) OR t.actions::text ILIKE ANY(s.patterns)`,
+    redact: `headline = ${text('headline')},
+      sections = ${json('sections')},
+      actions = ${json('actions')},
+      recommended_next_steps = ${text('recommended_next_steps')}`,
+  },
+  {
+    key: 'contacts',
+    table: 'contacts',
+    exportColumns: `t.id, t.source, t.source_id, t.email, t.first_name, t.last_name, t.title, t.phone, t.seniority,
+      t.department, t.lifecycle_stage, t.account_id, t.source_data, t.custom_fields, t.created_at, t.updated_at`,
+    match: 'lower(t.email) = s.email',
+    redact: `email = NULL,
+      first_name = 'Redacted',
+      last_name = s.pseudonym,
+      title = NULL,
+      phone = NULL,
+      source_data = '{}'::jsonb,
+      custom_fields = '{}'::jsonb,
+      dsr_redacted_at = NOW(),
+      updated_at = NOW()`,
+  },
+];
+
+export const SUBJECT_CTE = `s AS (SELECT $1::uuid AS workspace_id, $2::text AS email, $3::text[] AS patterns)`;
+
+/**
+ * Stores whose table exists in this database — report tables are created
+ * by optional migrations
+ */
+export async function availableStores(): Promise<SubjectStore[]> {
+  const result = await query<{ relname: string }>(
+    `SELECT relname FROM pg_class WHERE relkind = 'r' AND relname = ANY($1)`,
+    [SUBJECT_STORES.map(s => s.table)]
+  );
+  const tables = new Set(result.rows.map(r => r.relname));
+  return SUBJECT_STORES.filter(s => tables.has(s.table));
+}
+
+/** Names CRM contacts with this email go by, used as extra search terms */
+export async function knownSubjectNames(workspaceId: string, subject: DataSubject): Promise<string[]> {
+  const result = await query<{ name: string }>(
+    `SELECT DISTINCT TRIM(CONCAT_WS(' ', first_name, last_name)) AS name
+     FROM contacts
+     WHERE workspace_id = $1 AND lower(email) = $2 AND dsr_redacted_at IS NULL`,
+    [workspaceId, subject.email]
+  );
+  return result.rows.map(r => r.name).filter(Boolean);
+}
+
+/**
+ * Count (and optionally return) the subject's rows in every store
+ */
+export async function locateSubjectRecords(
+  workspaceId: string,
+  subject: DataSubject,
+  terms: string[],
+  options: { includeRows?: boolean } = {}
+): Promise<StoreMatch[]> {
+  const params = [workspaceId, subject.email, terms.map(containsPattern)];
+  const matches: StoreMatch[] = [];
+
+  for (const store of await availableStores()) {
+    const from = `WITH ${SUBJECT_CTE} SELECT %COLUMNS% FROM ${store.table} t, s
+      WHERE t.workspace_id = s.workspace_id AND (${store.match})`;
+
+    if (options.includeRows) {
+      const result = await query(from.replace('%COLUMNS%', store.exportColumns), params);
+      matches.push({ store: store.key, table: store.table, count: result.rows.length, rows: result.rows });
+    } else {
+      const result = await query<{ count: number }>(from.replace('%COLUMNS%', 'COUNT(*)::int AS count'), params);
+      matches.push({ store: store.key, table: store.table, count: result.rows[0]?.count ?? 0 });
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,76 @@
+/**
+ * Data subject identity for GDPR/CCPA requests.
+ *
+ * The subject's email is never persisted by the DSR pipeline: request rows,
+ * suppressions and audit events carry the SHA-256 of the lowercased email
+ * (the same digest the suppression triggers compute in SQL) plus a masked
+ * label for humans.
+ */
+
+import { createHash } from 'crypto';
+
+export interface DataSubject {
+  email: string;
+  /** Full name as it appears in transcripts and notes; enables text matching */
+  name: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Shorter names ("Al", "Jo") match too much unrelated transcript text
+const MIN_NAME_LENGTH = 4;
+
+export function parseDataSubject(input: { email?: unknown; name?: unknown }): DataSubject | { error: string } {
+  const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: 'email must be a valid email address' };
+  }
+
+  const name = typeof input.name === 'string' ? input.name.trim().replace(/\s+/g, ' ') : '';
+  if (name && name.length < MIN_NAME_LENGTH) {
+    return { error: `name must be at least ${MIN_NAME_LENGTH} characters` };
+  }
+
+  return { email, name: name || null };
+}
+
+/** Matches encode(sha256(convert_to(lower(email), 'UTF8')), 'hex') in the triggers */
+export function hashSubjectEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase(), 'utf8').digest('hex');
+}
+
+/** "jane.doe@acme.com" → "j***@acme.com" */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+/**
+ * Strings searched for in free text: the email, the given name, and the
+ * names CRM contacts with that email are known by (deduplicated, too-short
+ * names dropped)
+ */
+export function subjectTerms(subject: DataSubject, knownNames: string[] = []): string[] {
+  const terms = new Map<string, string>([[subject.email, subject.email]]);
+  for (const name of [subject.name, ...knownNames]) {
+    const normalized = name?.trim().replace(/\s+/g, ' ');
+    if (normalized && normalized.length >= MIN_NAME_LENGTH && !terms.has(normalized.toLowerCase())) {
+      terms.set(normalized.toLowerCase(), normalized);
+    }
+  }
+  return [...terms.values()];
+}
+
+/** ILIKE pattern matching the term anywhere, with LIKE wildcards escaped */
+export function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, ch => `\\${ch}`)}%`;
+}
+
+/**
+ * Case-insensitive regexp_replace pattern for the term. JSONB columns are
+ * rewritten through their text form, so the term is JSON-escaped first to
+ * match names containing quotes or backslashes.
+ */
+export function redactionPattern(term: string, json = false): string {
+  const literal = json ? JSON.stringify(term).slice(1, -1) : term;
+  return literal.replace(/[.*+?^${}()|[\]\\]/g, ch => `\\${ch}`);
+}
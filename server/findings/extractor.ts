@@ -39,6 +39,8 @@ const extractors: Record<string, SkillExtractor> = {
   'pipeline-coverage': extractPipelineCoverage,
   'deal-risk-review': extractDealRiskReview,
   'rep-scorecard': extractRepScorecard,
+  'customer-health': extractCustomerHealth,
+  'discount-analytics': extractDiscountAnalytics,
 };
 
 export async function extractFindings(
@@ -563,6 +565,78 @@ function extractRepScorecard(runId: string, workspaceId: string, result: Record<
   return findings;
 }
 
+function extractCustomerHealth(runId: string, workspaceId: string, result: Record<string, any>): FindingRow[] {
+  const findings: FindingRow[] = [];
+  const skillId = 'customer-health';
+  const renewals = result.health_results?.at_risk_renewals;
+  if (!Array.isArray(renewals)) return findings;
+
+  for (const account of renewals) {
+    if (!account) continue;
+    const severity = account.risk_level === 'critical' ? 'act' : 'watch';
+    const topDriver = account.drivers?.[0]?.detail;
+    let msg = `${account.account_name} (${formatCurrency(account.arr || 0)}) renews in ${account.days_to_renewal} days with health ${account.score}/100`;
+    if (topDriver) msg += ` — ${topDriver}`;
+
+    findings.push(makeFinding(
+      workspaceId, runId, skillId, severity, 'renewal_at_risk',
+      msg,
+      {
+        account_id: account.account_id,
+        deal_id: account.renewal_deal_id,
+        owner_email: account.owner,
+        metadata: {
+          score: account.score,
+          risk_level: account.risk_level,
+          dimensions: account.dimensions,
+          drivers: account.drivers,
+          renewal_date: account.renewal_date,
+          renewal_date_source: account.renewal_date_source,
+          renewal_probability: account.renewal_probability,
+          arr: account.arr,
+        },
+      },
+    ));
+  }
+
+  return findings;
+}
+
+function extractDiscountAnalytics(runId: string, workspaceId: string, result: Record<string, any>): FindingRow[] {
+  const findings: FindingRow[] = [];
+  const skillId = 'discount-analytics';
+  const results = result.discount_results;
+  const deals = results?.over_guardrail;
+  if (!Array.isArray(deals)) return findings;
+
+  const guardrail = results.guardrail_pct;
+  for (const deal of deals) {
+    if (!deal) continue;
+    // Ten points or more past the guardrail needs action, not just watching
+    const severity = deal.discount_pct >= guardrail + 10 ? 'act' : 'watch';
+
+    findings.push(makeFinding(
+      workspaceId, runId, skillId, severity, 'discount_over_guardrail',
+      `${deal.deal_name} (${formatCurrency(deal.amount || 0)}) is discounted ${deal.discount_pct}% against a ${guardrail}% guardrail`,
+      {
+        deal_id: deal.deal_id,
+        owner_email: deal.owner,
+        metadata: {
+          discount_pct: deal.discount_pct,
+          guardrail_pct: guardrail,
+          guardrail_source: results.guardrail_source,
+          list_amount: deal.list_amount,
+          discount_source: deal.source,
+          segment: deal.segment,
+          pricing_mentions: deal.pricing_mentions,
+        },
+      },
+    ));
+  }
+
+  return findings;
+}
+
 function extractGenericFallback(
   skillId: string,
   runId: string,
@@ -0,0 +1,110 @@
+/**
+ * Tests for the governance explainer's LLM call
+ *
+ * The explainer goes through the workspace LLM router, so a stubbed
+ * self-hosted server can check that the PII policy scrubs the prompt
+ * before it leaves and that local-only workspaces stay on-prem.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+vi.mock('../../training/index.js', () => ({ logTrainingPair: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../../llm/fireworks-trainer.js', () => ({ getDeployedFineTunedModel: vi.fn().mockResolvedValue(null) }));
+
+import { query } from '../../db.js';
+import { clearConfigCache } from '../../utils/llm-router.js';
+import { clearPiiCache } from '../../llm/pii-scrubber.js';
+import { explainProposedChange } from '../explainer-agent.js';
+import type { SkillGovernanceRecord } from '../db.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+const BASE_URL = 'http://vllm.internal:8000/v1';
+
+const record = {
+  id: 'gov-1',
+  workspace_id: 'ws-1',
+  source_type: 'feedback',
+  change_type: 'workspace_context',
+  change_description: 'Tell the assistant that Dana Lee (dana.lee@acme.com) owns all renewals',
+  change_payload: { fact: 'Dana Lee owns renewals' },
+} as SkillGovernanceRecord;
+
+let requests: any[];
+
+function useConfig(providers: Record<string, any>, routing: Record<string, any>, piiPolicy: Record<string, any> = {}) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM llm_configs')) {
+      return { rows: [{ providers, routing, pii_policy: piiPolicy, default_token_budget: 1_000_000, tokens_used_this_month: 0 }] };
+    }
+    if (sql.includes('FROM contacts')) return { rows: [{ name: 'Dana Lee' }] };
+    return { rows: [] };
+  });
+}
+
+beforeEach(() => {
+  clearConfigCache();
+  clearPiiCache();
+  mockQuery.mockReset();
+  requests = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    const json = (body: unknown) =>
+      new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+    if (url === `${BASE_URL}/models`) return json({ object: 'list', data: [] });
+    if (url === `${BASE_URL}/chat/completions`) {
+      requests.push(JSON.parse(String(init?.body)));
+      const explanation = {
+        summary: 'Pandora will route renewal questions to [PERSON_1].',
+        detail: 'Renewals are owned by [PERSON_1] ([EMAIL_1]).',
+        impact: 'Renewal answers name the right owner.',
+        supersedes: null,
+      };
+      return json({
+        choices: [{ message: { role: 'assistant', content: JSON.stringify(explanation) }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 200, completion_tokens: 40 },
+      });
+    }
+    throw new Error(`unexpected fetch ${url}`);
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('explainProposedChange', () => {
+  it('sends the provider a scrubbed prompt and restores names in the explanation', async () => {
+    useConfig(
+      { local: { enabled: true, apiKey: '', baseURL: BASE_URL } },
+      { reason: 'local/qwen2.5-72b' },
+      { enabled: true, scrubLocal: true }
+    );
+
+    const explanation = await explainProposedChange('ws-1', record);
+
+    expect(requests).toHaveLength(1);
+    const sent = JSON.stringify(requests[0].messages);
+    expect(sent).toContain('[PERSON_1] ([EMAIL_1]) owns all renewals');
+    expect(sent).not.toContain('Dana Lee');
+    expect(sent).not.toContain('dana.lee@acme.com');
+
+    expect(explanation.summary).toBe('Pandora will route renewal questions to Dana Lee.');
+    expect(explanation.detail).toBe('Renewals are owned by Dana Lee (dana.lee@acme.com).');
+  });
+
+  it('keeps a local-only workspace on the local server', async () => {
+    useConfig(
+      { local: { enabled: true, apiKey: '', baseURL: BASE_URL, localOnly: true, defaultModel: 'qwen2.5-72b' } },
+      { reason: 'anthropic/claude-sonnet-4-20250514' }
+    );
+
+    const explanation = await explainProposedChange('ws-1', record);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toBe('qwen2.5-72b');
+    expect(explanation.summary).toBe('Pandora will route renewal questions to [PERSON_1].');
+  });
+});
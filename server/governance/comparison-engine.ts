@@ -5,7 +5,7 @@
  * Answers: "Is this provably better than what we have?"
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { callLLM } from '../utils/llm-router.js';
 import { query } from '../db.js';
 import { loadExistingResolvers } from './shape-validator.js';
 import type { SkillGovernanceRecord } from './db.js';
@@ -46,7 +46,7 @@ export async function compareBeforeAfter(
   for (const input of testInputs) {
     const before = simulateBefore(input, governanceRecord.change_type, existingResolvers);
     const after = simulateAfter(input, governanceRecord.change_type, governanceRecord.change_payload);
-    const verdict = await judgeImprovement(input, before, after);
+    const verdict = await judgeImprovement(workspaceId, input, before, after);
     results.push({ input, before, after, ...verdict });
   }
 
@@ -163,12 +163,12 @@ function simulateAfter(
 }
 
 async function judgeImprovement(
+  workspaceId: string,
   input: string,
   before: { response: string },
   after: { response: string }
 ): Promise<{ verdict: 'improved' | 'unchanged' | 'degraded' | 'ambiguous'; verdict_reason: string }> {
   try {
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
     const prompt = `Compare these two responses to the same RevOps question.
 
 Question: "${input}"
@@ -190,16 +190,15 @@ Respond with JSON only:
   "reason": "One sentence explaining why"
 }`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 200,
+    const response = await callLLM(workspaceId, 'classify', {
+      maxTokens: 200,
       messages: [{ role: 'user', content: prompt }],
+      _tracking: { workspaceId, phase: 'governance', stepName: 'governance-compare' },
     });
 
-    const content = response.content[0];
-    if (content.type !== 'text') return { verdict: 'ambiguous', verdict_reason: 'Could not get LLM judgment' };
+    if (!response.content) return { verdict: 'ambiguous', verdict_reason: 'Could not get LLM judgment' };
 
-    const cleaned = content.text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const cleaned = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
     const parsed = JSON.parse(cleaned);
 
     const verdictMap: Record<string, 'improved' | 'unchanged' | 'degraded' | 'ambiguous'> = {
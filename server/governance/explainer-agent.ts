@@ -5,7 +5,7 @@
  * Answers: "What does this do, in words a VP Sales would understand?"
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { callLLM } from '../utils/llm-router.js';
 import { getGovernanceRecord } from './db.js';
 import type { SkillGovernanceRecord } from './db.js';
 
@@ -69,17 +69,15 @@ Respond with JSON only (no markdown, no backticks):
   "rollback_note": "If this doesn't work, you can undo it with one click in Settings → Changes."
 }`;
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 1000,
+    const response = await callLLM(workspaceId, 'reason', {
+      maxTokens: 1000,
       messages: [{ role: 'user', content: prompt }],
+      _tracking: { workspaceId, phase: 'governance', stepName: 'governance-explain' },
     });
 
-    const content = response.content[0];
-    if (content.type !== 'text') return fallback;
+    if (!response.content) return fallback;
 
-    const cleaned = content.text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const cleaned = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
     const parsed = JSON.parse(cleaned);
 
     return {
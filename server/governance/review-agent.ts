@@ -5,7 +5,7 @@
  * Answers: "Is this good enough to ship?"
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { callLLM } from '../utils/llm-router.js';
 import { query } from '../db.js';
 import { configLoader } from '../config/workspace-config-loader.js';
 import type { SkillGovernanceRecord } from './db.js';
@@ -133,17 +133,15 @@ Respond with JSON only (no markdown, no backticks):
   }
 }`;
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 1500,
+    const response = await callLLM(workspaceId, 'reason', {
+      maxTokens: 1500,
       messages: [{ role: 'user', content: prompt }],
+      _tracking: { workspaceId, phase: 'governance', stepName: 'governance-review' },
     });
 
-    const content = response.content[0];
-    if (content.type !== 'text') return fallback;
+    if (!response.content) return fallback;
 
-    const cleaned = content.text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const cleaned = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
     const parsed = JSON.parse(cleaned);
 
     return {
@@ -53,6 +53,8 @@ export interface ImportResult {
   inserted: number;
   updated: number;
   skipped: number;
+  /** Contact rows dropped because their email belongs to an erased data subject (counted in skipped) */
+  suppressed?: number;
   errors: string[];
   stageChanges?: StageChangeResult;
   postActions: {
@@ -508,6 +510,7 @@ export async function applyContactImport(
   let inserted = 0;
   let updated = 0;
   let skipped = 0;
+  let suppressed = 0;
   const errors: string[] = [];
   const contactIds: string[] = [];
 
@@ -567,6 +570,12 @@ export async function applyContactImport(
               record.phone || null, JSON.stringify(record.unmappedFields || {}),
             ]
           );
+          // The DSR suppression trigger drops rows for erased subjects, so nothing comes back
+          if (result.rows.length === 0) {
+            skipped++;
+            suppressed++;
+            continue;
+          }
           if (result.rows[0].is_insert) { inserted++; } else { updated++; }
           contactIds.push(result.rows[0].id);
         } else {
@@ -582,6 +591,11 @@ export async function applyContactImport(
               record.phone || null, JSON.stringify(record.unmappedFields || {}),
             ]
           );
+          if (result.rows.length === 0) {
+            skipped++;
+            suppressed++;
+            continue;
+          }
           inserted++;
           contactIds.push(result.rows[0].id);
         }
@@ -621,7 +635,7 @@ export async function applyContactImport(
     });
 
     return {
-      batchId, inserted, updated, skipped, errors,
+      batchId, inserted, updated, skipped, suppressed, errors,
       postActions: {
         accountsLinked: 0,
         dealsLinkedToAccounts: 0,
@@ -13,6 +13,7 @@ import connectorsRouter from "./routes/connectors.js";
 import hubspotRouter from "./routes/hubspot.js";
 import gongRouter from "./routes/gong.js";
 import firefliesRouter from "./routes/fireflies.js";
+import pipedriveRouter from "./routes/pipedrive.js";
 import actionsRouter from "./routes/actions.js";
 import contextRouter from "./routes/context.js";
 import syncRouter from "./routes/sync.js";
@@ -30,6 +31,7 @@ import salesforceAuthRouter from "./routes/salesforce-auth.js";
 import salesforceSyncRouter from "./routes/salesforce-sync.js";
 import hubspotAuthRouter from "./routes/hubspot-auth.js";
 import googleAuthRouter from "./routes/google-auth.js";
+import microsoftAuthRouter from "./routes/microsoft-auth.js";
 import webhookConfigRouter from "./routes/webhook-config.js";
 import webhookEndpointsRouter from './routes/webhook-endpoints.js';
 import salesRosterRouter from "./routes/sales-roster.js";
@@ -52,6 +54,7 @@ import workflowsRouter, { setWorkflowService } from './routes/workflows.js';
 import projectUpdatesRouter from './routes/project-updates.js';
 import funnelRouter from './routes/funnel.js';
 import workspaceConfigRouter from './routes/workspace-config.js';
+import currencyRouter from './routes/currency.js';
 import configCorrectionsRouter from './routes/config-corrections.js';
 import findingsRouter from './routes/findings.js';
 import actionItemsRouter from './routes/action-items.js';
@@ -79,9 +82,13 @@ import { GoogleDriveDocumentAdapter } from "./connectors/google-drive/adapter.js
 import { salesforceAdapter } from "./connectors/salesforce/adapter.js";
 import { gongAdapter } from "./connectors/gong/adapter.js";
 import { firefliesAdapter } from "./connectors/fireflies/adapter.js";
+import { zoomAdapter } from "./connectors/zoom/adapter.js";
+import { chorusAdapter } from "./connectors/chorus/adapter.js";
+import { pipedriveAdapter } from "./connectors/pipedrive/adapter.js";
 import { startScheduler } from "./sync/scheduler.js";
 import { startSkillScheduler, stopSkillScheduler } from "./sync/skill-scheduler.js";
 import { startReportScheduler, stopReportScheduler } from "./sync/report-scheduler.js";
+import { startSalesforceCdcConsumers, stopSalesforceCdcConsumers } from "./connectors/salesforce/cdc.js";
 import { registerBuiltInSkills, loadCustomSkills } from "./skills/index.js";
 import { getSkillRegistry } from "./skills/registry.js";
 import { startJobQueue } from "./jobs/queue.js";
@@ -95,6 +102,16 @@ import analysisRouter from './routes/analysis.js';
 import userAuthRouter from './routes/user-auth.js';
 import consultantRouter from './routes/consultant.js';
 import membersRouter from './routes/members.js';
+import ssoRouter from './routes/sso.js';
+import ssoAdminRouter from './routes/sso-admin.js';
+import auditRouter from './routes/audit.js';
+import dsrRouter from './routes/dsr.js';
+import apiKeysRouter from './routes/api-keys.js';
+import winProbabilityRouter from './routes/win-probability.js';
+import schedulesRouter from './routes/schedules.js';
+import territoriesRouter from './routes/territories.js';
+import scimRouter from './routes/scim.js';
+import mcpHttpRouter from './routes/mcp.js';
 import rolesRouter from './routes/roles.js';
 import flagsRouter from './routes/flags.js';
 import agentLifecycleRouter from './routes/agent-lifecycle.js';
@@ -131,6 +148,7 @@ import crmWritebackRouter from './routes/crm-writeback.js';
 import agenticActionsRouter from './routes/agentic-actions.js';
 import editableFieldsRouter from './routes/editable-fields.js';
 import workflowRulesRouter from './routes/workflow-rules.js';
+import { workflowTriggerManager } from './workflow/trigger-manager.js';
 import methodologyConfigsRouter from './routes/methodology-configs.js';
 import agentFeedbackRouter from './routes/agent-feedback.js';
 import governanceRouter from './routes/governance.js';
@@ -140,6 +158,7 @@ import forecastSnapshotsRouter from './routes/forecast-snapshots.js';
 import forecastStageWeightedRouter from './routes/forecast-stage-weighted.js';
 import forecastCategoryWeightedRouter from './routes/forecast-category-weighted.js';
 import forecastTTERouter from './routes/forecast-tte.js';
+import forecastBacktestsRouter from './routes/forecast-backtests.js';
 import briefingRouter from './routes/briefing.js';
 import briefingMathRouter from './routes/briefing-math.js';
 import commandCenterRouter from './routes/command-center.js';
@@ -306,12 +325,20 @@ app.use("/api/waitlist", waitlistRouter);
 app.use("/api/auth/hubspot", hubspotAuthRouter);
 app.use("/api/auth/salesforce", salesforceAuthRouter);
 app.use("/api/auth/google", googleAuthRouter);
+app.use("/api/auth/microsoft", microsoftAuthRouter);
 
+app.use("/api/auth/sso", ssoRouter);
 app.use("/api/auth", userAuthRouter);
+
+// SCIM 2.0 provisioning - bearer token issued in workspace SSO settings
+app.use("/scim/v2", scimRouter);
 app.use("/api/users/me/notifications", requireUserSession, userNotificationsRouter);
 
 app.use("/api/consultant", consultantRouter);
 
+// Remote MCP (Streamable HTTP) - session token or workspace API key
+app.use("/api/mcp", mcpHttpRouter);
+
 app.post('/api/admin/migrate-credentials', requireAdmin, async (_req, res) => {
   try {
     const { migrateCredentials } = await import('./lib/migrate-credentials.js');
@@ -350,6 +377,7 @@ workspaceApiRouter.use((req, _res, next) => {
 workspaceApiRouter.use(hubspotRouter);
 workspaceApiRouter.use(gongRouter);
 workspaceApiRouter.use(firefliesRouter);
+workspaceApiRouter.use(pipedriveRouter);
 workspaceApiRouter.use(connectorsRouter);
 workspaceApiRouter.use(actionsRouter);
 workspaceApiRouter.use(contextRouter);
@@ -382,6 +410,7 @@ workspaceApiRouter.use(workflowsRouter);
 workspaceApiRouter.use(projectUpdatesRouter);
 workspaceApiRouter.use(funnelRouter);
 workspaceApiRouter.use(workspaceConfigRouter);
+workspaceApiRouter.use(currencyRouter);
 workspaceApiRouter.use(configCorrectionsRouter);
 workspaceApiRouter.use(adminScopesRouter);
 workspaceApiRouter.use(dashboardPreferencesRouter);
@@ -398,6 +427,7 @@ workspaceApiRouter.use(forecastSnapshotsRouter);
 workspaceApiRouter.use(forecastStageWeightedRouter);
 workspaceApiRouter.use(forecastCategoryWeightedRouter);
 workspaceApiRouter.use(forecastTTERouter);
+workspaceApiRouter.use(forecastBacktestsRouter);
 workspaceApiRouter.use(routerApiRouter);
 workspaceApiRouter.use(crmWritebackRouter);
 workspaceApiRouter.use(agenticActionsRouter);
@@ -409,6 +439,13 @@ workspaceApiRouter.use(deliverablesRouter);
 workspaceApiRouter.use(downloadsRouter);
 workspaceApiRouter.use('/workspace-downloads', workspaceDownloadsRouter);
 workspaceApiRouter.use('/:workspaceId/members', membersRouter);
+workspaceApiRouter.use('/:workspaceId/sso', ssoAdminRouter);
+workspaceApiRouter.use('/:workspaceId/audit', auditRouter);
+workspaceApiRouter.use('/:workspaceId/dsr', dsrRouter);
+workspaceApiRouter.use('/:workspaceId/api-keys', apiKeysRouter);
+workspaceApiRouter.use('/:workspaceId/win-probability', winProbabilityRouter);
+workspaceApiRouter.use('/:workspaceId/schedules', schedulesRouter);
+workspaceApiRouter.use('/:workspaceId/territories', territoriesRouter);
 workspaceApiRouter.use('/:workspaceId/roles', rolesRouter);
 workspaceApiRouter.use('/:workspaceId/flags', flagsRouter);
 workspaceApiRouter.use('/:workspaceId/agents', agentLifecycleRouter);
@@ -486,6 +523,9 @@ function registerAdapters(): void {
     { name: 'salesforce', create: () => salesforceAdapter },
     { name: 'gong', create: () => gongAdapter },
     { name: 'fireflies', create: () => firefliesAdapter },
+    { name: 'zoom', create: () => zoomAdapter },
+    { name: 'chorus', create: () => chorusAdapter },
+    { name: 'pipedrive', create: () => pipedriveAdapter },
   ];
   for (const { name, create } of adapters) {
     try {
@@ -681,9 +721,15 @@ async function initializeAfterStart(t0: number, tDb: number): Promise<void> {
   startScheduler();
   startSkillScheduler();
   startReportScheduler();
+  workflowTriggerManager.startScheduledRules().catch(err => {
+    console.warn('[server] Scheduled workflow rules failed to start (non-fatal):', err instanceof Error ? err.message : err);
+  });
   startPushTriggers().catch(err => {
     console.warn('[server] Push trigger system failed to start (non-fatal):', err instanceof Error ? err.message : err);
   });
+  startSalesforceCdcConsumers().catch(err => {
+    console.warn('[server] Salesforce CDC consumers failed to start (non-fatal):', err instanceof Error ? err.message : err);
+  });
 
   const tSchedulers = performance.now();
 
@@ -725,6 +771,13 @@ async function initializeAfterStart(t0: number, tDb: number): Promise<void> {
   setInterval(checkScheduledReports, 60 * 1000);
   setInterval(checkGoogleDocsFeedback, 60 * 1000); // Runs every minute, but only acts on Sunday 8 PM
 
+  const { syncAllPMTaskStatuses } = await import('./services/pm-task-service.js');
+  const { scheduleJob } = await import('./scheduling/cluster-scheduler.js');
+  scheduleJob('pm-tasks:status-sync', '*/15 * * * *', async () => {
+    await syncAllPMTaskStatuses().catch(err => console.error('[PMTaskSync] Failed:', err));
+  }, { description: 'PM task status sync' });
+  console.log('[PMTaskSync] PM task status sync scheduler started (every 15 min)');
+
   const { flushDigests } = await import('./notifications/digest.js');
   setInterval(flushDigests, 15 * 60 * 1000);
   console.log('[NotificationDigest] Digest flush scheduler started (every 15 min)');
@@ -781,6 +834,8 @@ process.on('SIGTERM', () => {
   stopSkillScheduler();
   stopReportScheduler();
   stopPushTriggers();
+  workflowTriggerManager.stopScheduledRules();
+  stopSalesforceCdcConsumers();
   stopWorkflowMonitor();
   process.exit(0);
 });
@@ -790,6 +845,8 @@ process.on('SIGINT', () => {
   stopSkillScheduler();
   stopReportScheduler();
   stopPushTriggers();
+  workflowTriggerManager.stopScheduledRules();
+  stopSalesforceCdcConsumers();
   stopWorkflowMonitor();
   process.exit(0);
 });
@@ -1,15 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { randomUUID } from 'node:crypto';
 import { query } from '../db.js';
+import { callLLM } from '../utils/llm-router.js';
 import { goalService } from '../goals/goal-service.js';
 import { getSkillRegistry } from '../skills/registry.js';
 import { buildWorkspaceContextBlock } from '../context/workspace-memory.js';
 import type { InvestigationPlan, InvestigationStep } from '../goals/types.js';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
-});
-
 const SKILL_OPERATOR_MAP: Record<string, { name: string; icon: string; color: string }> = {
   'pipeline-hygiene': { name: 'Data Steward', icon: '🧹', color: '#FBBF24' },
   'forecast-rollup': { name: 'Forecast Analyst', icon: '🎯', color: '#7C6AE8' },
@@ -142,14 +138,14 @@ Respond ONLY with valid JSON in this exact format:
   let steps: InvestigationStep[] = [];
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 1000,
+    const response = await callLLM(workspaceId, 'reason', {
+      maxTokens: 1000,
       temperature: 0.3,
       messages: [{ role: 'user', content: planPrompt }],
+      _tracking: { workspaceId, phase: 'investigation', stepName: 'plan' },
     });
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
+    const text = response.content || '';
     const parsed = parseJsonFromResponse(text);
 
     const validSkillIds = new Set(skills.map((s) => s.id));
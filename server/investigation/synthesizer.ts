@@ -1,12 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { query } from '../db.js';
-import { trackTokenUsage } from '../lib/token-tracker.js';
+import { callLLM } from '../utils/llm-router.js';
 import type { InvestigationPlan } from '../goals/types.js';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
-});
-
 function daysBetween(a: Date, b: Date): number {
   return Math.floor((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
 }
@@ -103,63 +98,25 @@ TITLE: Give this response a short title (2-4 words). Do NOT use the word "Invest
 
 RESPONSE LENGTH: ${wordBudget}`;
 
+  // Routed (not streamed) so the workspace's PII policy and provider
+  // restrictions apply; the finished text is delivered as one chunk
   let fullText = '';
-  let inputTokens = 0;
-  let outputTokens = 0;
-  const startTime = Date.now();
+  let totalTokens = 0;
 
   try {
-    const stream = anthropic.messages.stream({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 1500,
+    const response = await callLLM(plan.workspace_id, 'reason', {
+      maxTokens: 1500,
       temperature: 0.4,
       messages: [{ role: 'user', content: prompt }],
+      _tracking: { workspaceId: plan.workspace_id, phase: 'chat', stepName: 'pandora-agent-synthesis' },
     });
-
-    for await (const event of stream) {
-      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-        const chunk = event.delta.text;
-        if (chunk) {
-          fullText += chunk;
-          onChunk?.(chunk);
-        }
-      }
-      if (event.type === 'message_start' && event.message.usage) {
-        inputTokens += event.message.usage.input_tokens || 0;
-      }
-      if (event.type === 'message_delta' && event.usage) {
-        outputTokens += event.usage.output_tokens || 0;
-      }
-    }
+    fullText = response.content;
+    totalTokens = response.usage.input + response.usage.output;
+    if (fullText) onChunk?.(fullText);
   } catch (err) {
-    console.error('[Synthesizer] Streaming failed:', err);
+    console.error('[Synthesizer] Synthesis failed:', err);
     fullText = allFindings.map((f) => f.summary).join('\n\n') || 'Investigation complete. No synthesis available.';
   }
 
-  const latencyMs = Date.now() - startTime;
-  const totalTokens = inputTokens + outputTokens;
-
-  trackTokenUsage({
-    workspaceId: plan.workspace_id,
-    phase: 'chat',
-    stepName: 'pandora-agent-synthesis',
-    provider: 'anthropic',
-    model: 'claude-sonnet-4-5',
-    inputTokens,
-    outputTokens,
-    estimatedCostUsd: (inputTokens / 1_000_000) * 3.0 + (outputTokens / 1_000_000) * 15.0,
-    promptChars: prompt.length,
-    responseChars: fullText.length,
-    truncated: false,
-    payloadSummary: {
-      totalChars: prompt.length,
-      largestField: 'prompt',
-      largestFieldChars: prompt.length,
-      estimatedTokens: Math.round(prompt.length / 4),
-      sections: [{ role: 'user', chars: prompt.length, hasSourceData: false, hasTranscript: false, hasRawJson: false }],
-    },
-    latencyMs,
-  }).catch((err) => console.warn('[Synthesizer] Token tracking failed:', err?.message));
-
   return { text: fullText, tokens: totalTokens };
 }
@@ -335,6 +335,8 @@ export class JobQueue {
         return await this.handleInvestigateSkillJob(job);
       case 'crm_write_retry':
         return await this.handleCrmWriteRetry(job);
+      case 'forecast_backtest':
+        return await this.handleForecastBacktestJob(job);
       default:
         throw new Error(`Unknown job type: ${job.job_type}`);
     }
@@ -661,6 +663,31 @@ export class JobQueue {
     };
   }
 
+  private async handleForecastBacktestJob(job: Job): Promise<any> {
+    const { backtestId } = job.payload;
+
+    await this.updateProgress(job.id, {
+      current: 0,
+      total: 100,
+      message: 'Replaying historical quarters...',
+    });
+
+    const { executeBacktest } = await import('../analysis/forecast-backtest.js');
+    const result = await executeBacktest(job.workspace_id, backtestId);
+
+    await this.updateProgress(job.id, {
+      current: 100,
+      total: 100,
+      message: 'Backtest completed',
+    });
+
+    return {
+      backtestId,
+      predictions: result.results.length,
+      warnings: result.warnings,
+    };
+  }
+
   private async handleCrmWriteRetry(job: Job): Promise<any> {
     const { logId } = job.payload;
 
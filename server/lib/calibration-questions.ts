@@ -985,7 +985,7 @@ const BUSINESS_QUESTIONS: CalibrationQuestion[] = [
     answer_type: 'number',
     options: [],
     depends_on: [],
-    skill_dependencies: ['deal-risk-review', 'deal-scoring-model'],
+    skill_dependencies: ['deal-risk-review', 'deal-scoring-model', 'discount-analytics'],
     required_for_live: false,
   },
   {
@@ -1,8 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
-});
+import { callLLM } from '../utils/llm-router.js';
 
 export interface ExtractedReportData {
   total_value:     number | null;
@@ -31,6 +27,7 @@ Rules:
 - Return ONLY the JSON object, no explanation`;
 
 export async function extractReportData(
+  workspaceId: string,
   imageBase64: string,
   mimeType: string
 ): Promise<ExtractedReportData> {
@@ -43,9 +40,8 @@ export async function extractReportData(
   };
 
   try {
-    const response = await client.messages.create({
-      model: 'claude-opus-4-5',
-      max_tokens: 512,
+    const response = await callLLM(workspaceId, 'extract', {
+      maxTokens: 512,
       messages: [{
         role: 'user',
         content: [
@@ -53,16 +49,17 @@ export async function extractReportData(
             type: 'image',
             source: {
               type: 'base64',
-              media_type: mimeType as any,
+              media_type: mimeType,
               data: imageBase64,
             },
           },
           { type: 'text', text: EXTRACTION_PROMPT },
         ],
       }],
+      _tracking: { workspaceId, phase: 'calibration', stepName: 'report-image-extract' },
     });
 
-    const text = response.content.find(c => c.type === 'text')?.text ?? '';
+    const text = response.content || '';
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) return fallback;
 
@@ -330,6 +330,22 @@ export const SKILL_MANIFESTS: Record<string, SkillManifest> = {
     fallback_behavior: 'warn',
   },
 
+  'customer-health': {
+    skill_id: 'customer-health',
+    required_checklist_items: [],
+    preferred_checklist_items: ['renew_motion_field'],
+    required_metric_keys: [],
+    fallback_behavior: 'warn',
+  },
+
+  'discount-analytics': {
+    skill_id: 'discount-analytics',
+    required_checklist_items: [],
+    preferred_checklist_items: ['discount_approval_threshold', 'segmentation_field'],
+    required_metric_keys: [],
+    fallback_behavior: 'warn',
+  },
+
   // ENGAGEMENT CATEGORY
   'engagement-dropoff-analysis': {
     skill_id: 'engagement-dropoff-analysis',
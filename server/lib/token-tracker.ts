@@ -51,8 +51,16 @@ const RATES: Record<string, { input: number; output: number }> = {
   'claude-haiku-4-5-20251001': { input: 0.80, output: 4.0 },
   'deepseek-v3p1': { input: 0.14, output: 0.28 },
   'deepseek-chat': { input: 0.14, output: 0.28 },
+  // Embedding models (input only)
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'nomic-ai/nomic-embed-text-v1.5': { input: 0.008, output: 0 },
 };
 
+// Self-hosted inference has no per-token price
+const ZERO_COST_PROVIDERS = new Set(['local']);
+
 const THRESHOLDS = {
   singleCallWarning: 50000,
   singleCallCritical: 100000,
@@ -96,7 +104,8 @@ export function analyzePayload(messages: Array<{ role: string; content: any }>):
   };
 }
 
-export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+export function estimateCost(model: string, inputTokens: number, outputTokens: number, provider?: string): number {
+  if (provider && ZERO_COST_PROVIDERS.has(provider)) return 0;
   const rate = RATES[model] || RATES['claude-sonnet-4-5'];
   return (inputTokens * rate.input + outputTokens * rate.output) / 1_000_000;
 }
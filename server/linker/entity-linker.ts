@@ -288,6 +288,11 @@ async function tier2NativeCRM(
         }
       }
 
+      if (conv.source === 'chorus') {
+        if (conv.source_data.opportunity_id) crmDealId = String(conv.source_data.opportunity_id);
+        if (conv.source_data.account_id) crmAccountId = String(conv.source_data.account_id);
+      }
+
       let resolvedDealId: string | null = null;
       let resolvedAccountId: string | null = null;
 
@@ -467,6 +472,136 @@ async function batchUpdateDealOnly(workspaceId: string, updates: BatchUpdate[]):
   }
 }
 
+export interface EmailLinkResult {
+  examined: number;
+  linked: number;
+  linkedToDeal: number;
+}
+
+/**
+ * Link synced email metadata activities (Microsoft 365) to contacts, accounts
+ * and deals. Contacts match on participant email; the deal comes from the
+ * contact's open deal_contacts, else the single open deal at the account.
+ */
+export async function linkEmailActivities(workspaceId: string): Promise<EmailLinkResult> {
+  const result: EmailLinkResult = { examined: 0, linked: 0, linkedToDeal: 0 };
+
+  const unlinked = await query<{ id: string; participants: string[] | null }>(
+    `SELECT id, source_data->'participants' AS participants
+     FROM activities
+     WHERE workspace_id = $1
+       AND source = 'microsoft-365'
+       AND activity_type = 'email'
+       AND contact_id IS NULL
+       AND timestamp >= NOW() - INTERVAL '90 days'`,
+    [workspaceId]
+  );
+
+  result.examined = unlinked.rows.length;
+  if (unlinked.rows.length === 0) return result;
+
+  const allEmails = new Set<string>();
+  for (const row of unlinked.rows) {
+    for (const email of Array.isArray(row.participants) ? row.participants : []) {
+      if (typeof email === 'string') allEmails.add(email.toLowerCase());
+    }
+  }
+  if (allEmails.size === 0) return result;
+
+  const contacts = await query<ContactMatch>(
+    `SELECT id as contact_id, email, account_id
+     FROM contacts
+     WHERE workspace_id = $1
+       AND LOWER(email) = ANY($2::text[])`,
+    [workspaceId, Array.from(allEmails)]
+  );
+
+  const emailToContact = new Map<string, ContactMatch>();
+  for (const c of contacts.rows) {
+    if (c.email) emailToContact.set(c.email.toLowerCase(), c);
+  }
+  if (emailToContact.size === 0) return result;
+
+  const contactIds = [...new Set(contacts.rows.map(c => c.contact_id))];
+  const accountIds = [...new Set(contacts.rows.map(c => c.account_id).filter((id): id is string => !!id))];
+
+  const [contactDeals, accountDeals] = await Promise.all([
+    query<{ contact_id: string; deal_id: string }>(
+      `SELECT DISTINCT ON (dc.contact_id) dc.contact_id, dc.deal_id
+       FROM deal_contacts dc
+       JOIN deals d ON d.id = dc.deal_id AND d.workspace_id = dc.workspace_id
+       WHERE dc.workspace_id = $1
+         AND dc.contact_id = ANY($2::uuid[])
+         AND d.stage_normalized NOT IN ('closed_won', 'closed_lost')
+       ORDER BY dc.contact_id, d.updated_at DESC`,
+      [workspaceId, contactIds]
+    ),
+    accountIds.length > 0
+      ? query<{ account_id: string; deal_ids: string[] }>(
+          `SELECT account_id, array_agg(id) AS deal_ids
+           FROM deals
+           WHERE workspace_id = $1
+             AND account_id = ANY($2::uuid[])
+             AND stage_normalized NOT IN ('closed_won', 'closed_lost')
+           GROUP BY account_id`,
+          [workspaceId, accountIds]
+        )
+      : Promise.resolve({ rows: [] as Array<{ account_id: string; deal_ids: string[] }> }),
+  ]);
+
+  const dealByContact = new Map(contactDeals.rows.map(r => [r.contact_id, r.deal_id]));
+  const dealsByAccount = new Map(accountDeals.rows.map(r => [r.account_id, r.deal_ids]));
+
+  const updates: Array<{ id: string; contact_id: string; account_id: string | null; deal_id: string | null }> = [];
+
+  for (const row of unlinked.rows) {
+    const matches = (Array.isArray(row.participants) ? row.participants : [])
+      .map(email => emailToContact.get(String(email).toLowerCase()))
+      .filter((m): m is ContactMatch => !!m);
+    if (matches.length === 0) continue;
+
+    // Prefer a participant already on an open deal
+    const onDeal = matches.find(m => dealByContact.has(m.contact_id));
+    const contact = onDeal ?? matches[0];
+    let dealId = onDeal ? dealByContact.get(onDeal.contact_id)! : null;
+    if (!dealId && contact.account_id) {
+      const deals = dealsByAccount.get(contact.account_id);
+      if (deals && deals.length === 1) dealId = deals[0];
+    }
+
+    updates.push({ id: row.id, contact_id: contact.contact_id, account_id: contact.account_id, deal_id: dealId });
+    if (dealId) result.linkedToDeal++;
+  }
+
+  const BATCH_SIZE = 500;
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    const batch = updates.slice(i, i + BATCH_SIZE);
+    await query(
+      `UPDATE activities AS a SET
+        contact_id = v.contact_id::uuid,
+        account_id = COALESCE(a.account_id, v.account_id::uuid),
+        deal_id = COALESCE(a.deal_id, v.deal_id::uuid),
+        updated_at = NOW()
+      FROM (
+        SELECT
+          unnest($1::uuid[]) AS activity_id,
+          unnest($2::text[]) AS contact_id,
+          unnest($3::text[]) AS account_id,
+          unnest($4::text[]) AS deal_id
+      ) AS v
+      WHERE a.id = v.activity_id
+        AND a.workspace_id = $5`,
+      [batch.map(u => u.id), batch.map(u => u.contact_id), batch.map(u => u.account_id), batch.map(u => u.deal_id), workspaceId]
+    );
+  }
+
+  result.linked = updates.length;
+  if (updates.length > 0) {
+    console.log(`[Linker] Linked ${updates.length}/${unlinked.rows.length} email activities (${result.linkedToDeal} to deals)`);
+  }
+  return result;
+}
+
 async function logLinkerRun(workspaceId: string, result: LinkResult, durationMs: number): Promise<void> {
   const totalLinked = result.linked.tier1_email + result.linked.tier2_native + result.linked.tier3_inferred;
 
@@ -0,0 +1,222 @@
+/**
+ * Tests for the local (OpenAI-compatible) provider in utils/llm-router.ts
+ *
+ * A stubbed fetch plays the self-hosted server: /models advertises the
+ * context window, /chat/completions rejects tools or json_schema when
+ * configured to, so the router's downgrade paths can be exercised.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+vi.mock('../../training/index.js', () => ({ logTrainingPair: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../fireworks-trainer.js', () => ({ getDeployedFineTunedModel: vi.fn().mockResolvedValue(null) }));
+
+import { query } from '../../db.js';
+import { callLLM, clearConfigCache, MODEL_CONTEXT_WINDOWS, type ToolDef } from '../../utils/llm-router.js';
+import { estimateCost } from '../../lib/token-tracker.js';
+import { parsePromptedToolCalls, isUnsupportedFeatureError } from '../local-provider.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+const BASE_URL = 'http://vllm.internal:8000/v1';
+
+const lookupTool: ToolDef = {
+  name: 'lookup_deal',
+  description: 'Look up a deal by name',
+  parameters: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+};
+
+interface ServerBehaviour {
+  rejectTools?: boolean;
+  rejectJsonSchema?: boolean;
+  reply?: (body: any) => any;
+}
+
+let server: ServerBehaviour;
+let requests: any[];
+
+function llmConfigRow(providers: Record<string, any>, routing: Record<string, any>) {
+  return { providers, routing, default_token_budget: 1_000_000, tokens_used_this_month: 0 };
+}
+
+function completion(message: Record<string, any>, finishReason = 'stop') {
+  return {
+    choices: [{ message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 120, completion_tokens: 30 },
+  };
+}
+
+function useConfig(providers: Record<string, any>, routing: Record<string, any>) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM llm_configs')) return { rows: [llmConfigRow(providers, routing)] };
+    return { rows: [] };
+  });
+}
+
+beforeEach(() => {
+  clearConfigCache();
+  mockQuery.mockReset();
+  server = {};
+  requests = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    const json = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    if (url === `${BASE_URL}/models`) {
+      return json({ object: 'list', data: [{ id: 'qwen2.5-72b', object: 'model', max_model_len: 32_768 }] });
+    }
+
+    if (url === `${BASE_URL}/chat/completions`) {
+      const body = JSON.parse(String(init?.body));
+      requests.push(body);
+      if (server.rejectTools && body.tools) {
+        return json({ error: { message: '"auto" tool choice requires --enable-auto-tool-choice and --tool-call-parser to be set' } }, 400);
+      }
+      if (server.rejectJsonSchema && body.response_format?.type === 'json_schema') {
+        return json({ error: { message: 'response_format json_schema is not supported' } }, 400);
+      }
+      return json(server.reply ? server.reply(body) : completion({ content: 'ok' }));
+    }
+
+    throw new Error(`unexpected fetch ${url}`);
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('local provider routing', () => {
+  it('routes a capability to the local server without an API key and registers its context window', async () => {
+    useConfig({ local: { enabled: true, apiKey: '', baseURL: BASE_URL } }, { extract: 'local/qwen2.5-72b' });
+
+    const response = await callLLM('ws-1', 'extract', { messages: [{ role: 'user', content: 'hello' }] });
+
+    expect(response.content).toBe('ok');
+    expect(requests[0].model).toBe('qwen2.5-72b');
+    expect(MODEL_CONTEXT_WINDOWS['qwen2.5-72b']).toBe(32_768);
+
+    const fetchMock = fetch as unknown as ReturnType<typeof vi.fn>;
+    const chatCall = fetchMock.mock.calls.find(([url]) => url === `${BASE_URL}/chat/completions`)!;
+    expect((chatCall[1] as RequestInit).headers).not.toHaveProperty('Authorization');
+  });
+
+  it('keeps every capability on-prem when localOnly is set', async () => {
+    useConfig(
+      { local: { enabled: true, apiKey: '', baseURL: BASE_URL, localOnly: true, defaultModel: 'qwen2.5-72b' } },
+      { reason: { primary: 'anthropic/claude-sonnet-4-20250514', fallback: 'openai/gpt-4o' } }
+    );
+
+    await callLLM('ws-1', 'reason', { messages: [{ role: 'user', content: 'summarize' }] });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toBe('qwen2.5-72b');
+  });
+
+  it('does not move oversized local calls to a hosted model', async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+    useConfig({ local: { enabled: true, apiKey: '', baseURL: BASE_URL } }, { compress: 'local/qwen2.5-72b' });
+
+    await callLLM('ws-1', 'compress', { messages: [{ role: 'user', content: 'x'.repeat(200_000) }] });
+    vi.unstubAllEnvs();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toBe('qwen2.5-72b');
+  });
+});
+
+describe('local provider feature detection', () => {
+  it('falls back to prompted tool use when the server rejects native tools', async () => {
+    useConfig({ local: { enabled: true, apiKey: '', baseURL: BASE_URL } }, { generate: 'local/llama-3.1-8b' });
+    server.rejectTools = true;
+    server.reply = () => completion({ content: '```json\n{"tool_calls": [{"name": "lookup_deal", "arguments": {"name": "Acme"}}]}\n```' });
+
+    const response = await callLLM('ws-1', 'generate', {
+      messages: [{ role: 'user', content: 'What stage is Acme in?' }],
+      tools: [lookupTool],
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].tools).toBeUndefined();
+    expect(requests[1].messages[0].content).toContain('lookup_deal');
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.toolCalls).toEqual([expect.objectContaining({ name: 'lookup_deal', input: { name: 'Acme' } })]);
+
+    // The downgrade is remembered
+    await callLLM('ws-1', 'generate', { messages: [{ role: 'user', content: 'again' }], tools: [lookupTool] });
+    expect(requests).toHaveLength(3);
+    expect(requests[2].tools).toBeUndefined();
+  });
+
+  it('lets a runtime rejection win over a configured supportsTools override', async () => {
+    useConfig(
+      { local: { enabled: true, apiKey: '', baseURL: BASE_URL, models: { 'llama-3.1-8b': { supportsTools: true, supportsJsonSchema: true } } } },
+      { generate: 'local/llama-3.1-8b' }
+    );
+    server.rejectTools = true;
+    server.rejectJsonSchema = true;
+    server.reply = () => completion({ content: '{"tool_calls": [{"name": "lookup_deal", "arguments": {"name": "Acme"}}]}' });
+
+    const response = await callLLM('ws-1', 'generate', {
+      messages: [{ role: 'user', content: 'What stage is Acme in?' }],
+      tools: [lookupTool],
+      schema: { type: 'object', properties: { tool_calls: { type: 'array' } } },
+    });
+
+    expect(requests).toHaveLength(3);
+    expect(requests[2].tools).toBeUndefined();
+    expect(requests[2].response_format.type).toBe('json_object');
+    expect(response.stopReason).toBe('tool_use');
+  });
+
+  it('normalizes native tool calls with object arguments and missing ids', async () => {
+    useConfig({ local: { enabled: true, apiKey: '', baseURL: BASE_URL } }, { generate: 'local/llama-3.1-70b' });
+    server.reply = () => completion({
+      content: '',
+      tool_calls: [{ type: 'function', function: { name: 'lookup_deal', arguments: { name: 'Globex' } } }],
+    });
+
+    const response = await callLLM('ws-1', 'generate', {
+      messages: [{ role: 'user', content: 'Globex?' }],
+      tools: [lookupTool],
+    });
+
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.toolCalls?.[0]).toMatchObject({ name: 'lookup_deal', input: { name: 'Globex' } });
+    expect(response.toolCalls?.[0].id).toBeTruthy();
+  });
+
+  it('downgrades json_schema output to json_object when unsupported', async () => {
+    useConfig({ local: { enabled: true, apiKey: '', baseURL: BASE_URL } }, { classify: 'local/phi-4' });
+    server.rejectJsonSchema = true;
+    server.reply = () => completion({ content: '{"label":"risk"}' });
+
+    const response = await callLLM('ws-1', 'classify', {
+      messages: [{ role: 'user', content: 'classify' }],
+      schema: { type: 'object', properties: { label: { type: 'string' } } },
+    });
+
+    expect(requests.map(r => r.response_format.type)).toEqual(['json_schema', 'json_object']);
+    expect(response.content).toBe('{"label":"risk"}');
+  });
+});
+
+describe('local provider helpers', () => {
+  it('tracks local usage at zero cost', () => {
+    expect(estimateCost('qwen2.5-72b', 1_000_000, 1_000_000, 'local')).toBe(0);
+    expect(estimateCost('qwen2.5-72b', 1_000_000, 0)).toBeGreaterThan(0);
+  });
+
+  it('ignores replies that are not tool calls', () => {
+    expect(parsePromptedToolCalls('The deal is in Stage 3.')).toBeNull();
+    expect(parsePromptedToolCalls('{"answer": 1}')).toBeNull();
+  });
+
+  it('only treats feature-specific client errors as unsupported', () => {
+    expect(isUnsupportedFeatureError(500, 'tools param requires --jinja flag', 'tools')).toBe(true);
+    expect(isUnsupportedFeatureError(429, 'tool rate limited', 'tools')).toBe(false);
+    expect(isUnsupportedFeatureError(400, 'context length exceeded', 'json_schema')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for PII scrubbing: placeholder stability, re-hydration of responses
+ * and tool calls, and scrubbed storage of training pairs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { query } from '../../db.js';
+import { PiiScrubber, DEFAULT_PII_POLICY, normalizePiiPolicy, clearPiiCache } from '../pii-scrubber.js';
+import { logTrainingPair } from '../../training/logger.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  clearPiiCache();
+});
+
+describe('PiiScrubber', () => {
+  const dictionary = { names: ['Dana Lee', 'Sam Ortiz'], fieldValues: ['123-45-6789'] };
+
+  it('gives repeated values the same placeholder and restores them', () => {
+    const scrubber = new PiiScrubber({ ...DEFAULT_PII_POLICY, customFields: ['ssn'] }, dictionary);
+    const text = 'Dana Lee (dana.lee@acme.com, +1 415-555-0134) asked Sam Ortiz to loop in dana lee again. SSN 123-45-6789';
+
+    const scrubbed = scrubber.scrub(text);
+
+    expect(scrubbed).toBe('[PERSON_1] ([EMAIL_1], [PHONE_1]) asked [PERSON_2] to loop in [PERSON_1] again. SSN [FIELD_1]');
+    expect(scrubber.restore('Follow up with [PERSON_2] at [EMAIL_1]')).toBe('Follow up with Sam Ortiz at dana.lee@acme.com');
+  });
+
+  it('leaves CRM record IDs, amounts and dates alone', () => {
+    const scrubber = new PiiScrubber(DEFAULT_PII_POLICY);
+    const text = 'Deal 18273645501 closed 2026-03-31 for $1,250,000';
+    expect(scrubber.scrub(text)).toBe(text);
+  });
+
+  it('scrubs nested message content and restores tool call inputs', () => {
+    const scrubber = new PiiScrubber(DEFAULT_PII_POLICY, dictionary);
+    const content = [{ type: 'tool_result', tool_use_id: 'toolu_1', content: { owner: 'Dana Lee', email: 'dana.lee@acme.com' } }];
+
+    expect(scrubber.scrubValue(content)).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: { owner: '[PERSON_1]', email: '[EMAIL_1]' } },
+    ]);
+    expect(scrubber.restoreValue({ to: '[EMAIL_1]', cc: ['[PERSON_9]'] })).toEqual({ to: 'dana.lee@acme.com', cc: ['[PERSON_9]'] });
+  });
+
+  it('only enables provider scrubbing when the policy opts in', () => {
+    expect(normalizePiiPolicy(undefined)).toEqual(DEFAULT_PII_POLICY);
+    expect(normalizePiiPolicy({ enabled: true, names: false, customFields: ['ssn', 3] })).toMatchObject({
+      enabled: true,
+      names: false,
+      emails: true,
+      customFields: ['ssn'],
+    });
+  });
+});
+
+describe('logTrainingPair', () => {
+  it('stores prompts and responses scrubbed even when provider scrubbing is off', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('pii_policy')) return { rows: [{ pii_policy: {} }] };
+      if (sql.includes('FROM contacts')) return { rows: [{ name: 'Dana Lee' }] };
+      return { rows: [], rowCount: 1 };
+    });
+
+    await logTrainingPair({
+      workspaceId: 'ws-1',
+      capability: 'generate',
+      provider: 'anthropic/claude-sonnet-4-20250514',
+      userPrompt: 'Draft a note to Dana Lee <dana.lee@acme.com>',
+      assistantResponse: 'Hi Dana Lee, following up on pricing.',
+    });
+
+    const insert = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO training_pairs'))!;
+    const params = insert[1];
+    expect(params[8]).toBe('Draft a note to [PERSON_1] <[EMAIL_1]>');
+    expect(params[9]).toBe('Hi [PERSON_1], following up on pricing.');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Local / self-hosted LLM provider
+ *
+ * Targets any OpenAI-compatible server (vLLM, llama.cpp server, Ollama) so a
+ * workspace can keep prompts and transcripts on its own infrastructure.
+ * Model capabilities are detected per base URL + model and cached:
+ * - Context window from GET {baseURL}/models (vLLM max_model_len,
+ *   llama.cpp n_ctx_train, Ollama/LM Studio context_length) unless configured
+ * - Native tool calling and JSON-schema output are assumed until the server
+ *   rejects them; the router then downgrades (prompted tool use, json_object)
+ *   and remembers the result
+ */
+
+import type { ToolCall, ToolDef } from '../utils/llm-router.js';
+
+export interface LocalModelConfig {
+  contextWindow?: number;
+  supportsTools?: boolean;
+  supportsJsonSchema?: boolean;
+}
+
+export interface LocalModelCapabilities {
+  contextWindow: number | null;
+  supportsTools: boolean;
+  supportsJsonSchema: boolean;
+}
+
+export type LocalFeature = 'tools' | 'json_schema';
+
+export interface LocalModelInfo {
+  id: string;
+  contextWindow: number | null;
+}
+
+const PROBE_TIMEOUT_MS = 5000;
+const capabilityCache = new Map<string, LocalModelCapabilities>();
+
+export function getLocalBaseURL(configured?: string): string {
+  return (configured || process.env.LOCAL_LLM_BASE_URL || '').replace(/\/+$/, '');
+}
+
+function cacheKey(baseURL: string, model: string): string {
+  return `${baseURL}|${model}`;
+}
+
+function contextWindowFromModelEntry(entry: any): number | null {
+  const value =
+    entry?.max_model_len ??
+    entry?.meta?.n_ctx_train ??
+    entry?.context_length ??
+    entry?.context_window ??
+    entry?.max_context_length;
+  return typeof value === 'number' && value > 0 ? value : null;
+}
+
+/**
+ * List the models served at a base URL with their advertised context windows
+ */
+export async function listLocalModels(baseURL: string, apiKey?: string): Promise<LocalModelInfo[]> {
+  const response = await fetch(`${baseURL}/models`, {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`local /models returned ${response.status}`);
+  }
+  const data: any = await response.json();
+  const entries: any[] = Array.isArray(data?.data) ? data.data : Array.isArray(data?.models) ? data.models : [];
+  return entries
+    .map(e => ({ id: String(e.id ?? e.name ?? e.model ?? ''), contextWindow: contextWindowFromModelEntry(e) }))
+    .filter(m => m.id);
+}
+
+/**
+ * Resolve what a local model supports. Explicit config wins over detection.
+ */
+export async function detectLocalModelCapabilities(
+  baseURL: string,
+  model: string,
+  apiKey?: string,
+  overrides: LocalModelConfig = {}
+): Promise<LocalModelCapabilities> {
+  const key = cacheKey(baseURL, model);
+  let capabilities = capabilityCache.get(key);
+
+  if (!capabilities) {
+    let contextWindow: number | null = null;
+    if (!overrides.contextWindow) {
+      try {
+        const models = await listLocalModels(baseURL, apiKey);
+        contextWindow = models.find(m => m.id === model)?.contextWindow ?? null;
+      } catch (err) {
+        console.warn(`[LLM Router] Could not probe local models at ${baseURL}:`, err instanceof Error ? err.message : err);
+      }
+    }
+    capabilities = { contextWindow, supportsTools: true, supportsJsonSchema: true };
+    capabilityCache.set(key, capabilities);
+  }
+
+  // Cached flags only turn false when the server rejected the feature at
+  // runtime, which wins over a configured override
+  return {
+    contextWindow: overrides.contextWindow ?? capabilities.contextWindow,
+    supportsTools: capabilities.supportsTools && (overrides.supportsTools ?? true),
+    supportsJsonSchema: capabilities.supportsJsonSchema && (overrides.supportsJsonSchema ?? true),
+  };
+}
+
+export function markLocalFeatureUnsupported(baseURL: string, model: string, feature: LocalFeature): void {
+  const key = cacheKey(baseURL, model);
+  const current = capabilityCache.get(key) || { contextWindow: null, supportsTools: true, supportsJsonSchema: true };
+  capabilityCache.set(key, {
+    ...current,
+    ...(feature === 'tools' ? { supportsTools: false } : { supportsJsonSchema: false }),
+  });
+  console.warn(`[LLM Router] local/${model} does not support ${feature} — downgrading`);
+}
+
+export function clearLocalCapabilityCache(): void {
+  capabilityCache.clear();
+}
+
+/**
+ * Whether an error response means the server rejected a request feature,
+ * e.g. vLLM without --enable-auto-tool-choice, llama.cpp without --jinja,
+ * or an Ollama model without tool support.
+ */
+export function isUnsupportedFeatureError(status: number, body: string, feature: LocalFeature): boolean {
+  if (status < 400 || [401, 403, 404, 408, 429].includes(status)) return false;
+  const pattern = feature === 'tools' ? /tool/i : /response_format|json_schema|grammar|guided/i;
+  return pattern.test(body);
+}
+
+/**
+ * System prompt suffix that describes tools for models without native tool calling
+ */
+export function toolsToPrompt(tools: ToolDef[]): string {
+  const specs = tools.map(t => JSON.stringify({ name: t.name, description: t.description, parameters: t.parameters }));
+  return [
+    'You can call the following tools:',
+    ...specs,
+    'To call tools, reply with ONLY a JSON object of the form {"tool_calls": [{"name": "<tool name>", "arguments": { ... }}]} and nothing else.',
+    'Otherwise answer normally.',
+  ].join('\n');
+}
+
+/**
+ * Extract prompted tool calls from a model reply, if it contains any
+ */
+export function parsePromptedToolCalls(content: string): ToolCall[] | null {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed.startsWith('{') || !trimmed.includes('tool_calls')) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed?.tool_calls)) return null;
+  const calls = parsed.tool_calls
+    .filter((c: any) => typeof c?.name === 'string')
+    .map((c: any, i: number) => ({
+      id: `call_local_${Date.now()}_${i}`,
+      name: c.name,
+      input: typeof c.arguments === 'string' ? safeParseObject(c.arguments) : c.arguments || {},
+    }));
+  return calls.length > 0 ? calls : null;
+}
+
+function safeParseObject(value: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Rewrite OpenAI-format tool turns as plain text for servers without tool support
+ */
+export function flattenToolMessages(messages: any[]): any[] {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      return { role: 'user', content: `Tool result (${msg.tool_call_id}):\n${msg.content}` };
+    }
+    if (msg.role === 'assistant' && Array.isArray(msg.tool_calls)) {
+      const calls = msg.tool_calls.map((tc: any) => ({
+        name: tc.function?.name,
+        arguments: safeParseObject(tc.function?.arguments || '{}'),
+      }));
+      return {
+        role: 'assistant',
+        content: [msg.content, JSON.stringify({ tool_calls: calls })].filter(Boolean).join('\n'),
+      };
+    }
+    return msg;
+  });
+}
+
+/**
+ * Local servers differ from OpenAI in small ways: Ollama returns tool
+ * arguments as objects and may omit call ids; several servers report
+ * finish_reason 'stop' alongside tool calls.
+ */
+export function normalizeLocalCompletion(data: any): any {
+  const choice = data?.choices?.[0];
+  const toolCalls = choice?.message?.tool_calls;
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) return data;
+
+  return {
+    ...data,
+    choices: [{
+      ...choice,
+      finish_reason: 'tool_calls',
+      message: {
+        ...choice.message,
+        tool_calls: toolCalls.map((tc: any, i: number) => ({
+          ...tc,
+          id: tc.id || `call_local_${Date.now()}_${i}`,
+          function: {
+            ...tc.function,
+            arguments: typeof tc.function?.arguments === 'string'
+              ? tc.function.arguments
+              : JSON.stringify(tc.function?.arguments || {}),
+          },
+        })),
+      },
+    }, ...data.choices.slice(1)],
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * PII scrubbing for LLM calls and stored prompts
+ *
+ * Detected values are replaced with placeholders ([EMAIL_1], [PHONE_1],
+ * [PERSON_1], [FIELD_1]) before a prompt leaves Pandora. A scrubber keeps the
+ * placeholder → value map for one call, so the same value always gets the same
+ * placeholder and placeholders in the response (text and tool call inputs)
+ * can be re-hydrated before the caller sees them.
+ *
+ * Detectors:
+ * - emails and phone numbers (regex; bare digit runs are left alone so CRM
+ *   record IDs survive)
+ * - person names: full names of the workspace's contacts, reps and members
+ * - custom fields: values of the custom_fields keys listed in the policy
+ *
+ * The policy lives in llm_configs.pii_policy. `enabled` controls scrubbing of
+ * provider calls; stored copies (training pairs, mcp_calls) are always
+ * scrubbed with the enabled detectors.
+ */
+
+import { query } from '../db.js';
+
+export interface PiiPolicy {
+  /** Scrub prompts before they are sent to a provider */
+  enabled: boolean;
+  emails: boolean;
+  phones: boolean;
+  names: boolean;
+  /** custom_fields keys (deals, contacts, accounts) whose values are PII */
+  customFields: string[];
+  /** Also scrub calls to the workspace's own local provider */
+  scrubLocal: boolean;
+}
+
+export const DEFAULT_PII_POLICY: PiiPolicy = {
+  enabled: false,
+  emails: true,
+  phones: true,
+  names: true,
+  customFields: [],
+  scrubLocal: false,
+};
+
+type PlaceholderKind = 'EMAIL' | 'PHONE' | 'PERSON' | 'FIELD';
+
+interface WorkspaceDictionary {
+  names: string[];
+  fieldValues: string[];
+}
+
+interface CacheEntry<T> {
+  value: T;
+  loadedAt: number;
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_NAMES = 20_000;
+const MAX_FIELD_VALUES = 5_000;
+const LITERALS_PER_PATTERN = 500;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+// Requires a leading + or separators between digit groups
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b|\+\d{10,14}\b/g;
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|PERSON|FIELD)_\d+\]/g;
+
+const policyCache = new Map<string, CacheEntry<PiiPolicy>>();
+const dictionaryCache = new Map<string, CacheEntry<WorkspaceDictionary>>();
+
+export function normalizePiiPolicy(raw: any): PiiPolicy {
+  const policy = raw && typeof raw === 'object' ? raw : {};
+  return {
+    enabled: policy.enabled === true,
+    emails: policy.emails !== false,
+    phones: policy.phones !== false,
+    names: policy.names !== false,
+    customFields: Array.isArray(policy.customFields)
+      ? policy.customFields.filter((k: unknown): k is string => typeof k === 'string' && k.trim().length > 0)
+      : [],
+    scrubLocal: policy.scrubLocal === true,
+  };
+}
+
+export async function getPiiPolicy(workspaceId: string): Promise<PiiPolicy> {
+  const cached = policyCache.get(workspaceId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.value;
+
+  const result = await query<{ pii_policy: any }>(
+    `SELECT pii_policy FROM llm_configs WHERE workspace_id = $1`,
+    [workspaceId]
+  );
+  const policy = normalizePiiPolicy(result.rows[0]?.pii_policy);
+  policyCache.set(workspaceId, { value: policy, loadedAt: Date.now() });
+  return policy;
+}
+
+export function clearPiiCache(workspaceId?: string): void {
+  if (workspaceId) {
+    policyCache.delete(workspaceId);
+    dictionaryCache.delete(workspaceId);
+  } else {
+    policyCache.clear();
+    dictionaryCache.clear();
+  }
+}
+
+async function loadDictionary(workspaceId: string, policy: PiiPolicy): Promise<WorkspaceDictionary> {
+  const cached = dictionaryCache.get(workspaceId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.value;
+
+  let names: string[] = [];
+  if (policy.names) {
+    const result = await query<{ name: string }>(
+      `SELECT DISTINCT name FROM (
+         SELECT TRIM(CONCAT_WS(' ', first_name, last_name)) AS name FROM contacts WHERE workspace_id = $1
+         UNION
+         SELECT rep_name AS name FROM sales_reps WHERE workspace_id = $1
+         UNION
+         SELECT u.name FROM workspace_members wm JOIN users u ON u.id = wm.user_id WHERE wm.workspace_id = $1
+       ) people
+       WHERE name LIKE '% %' AND LENGTH(name) >= 5
+       LIMIT ${MAX_NAMES}`,
+      [workspaceId]
+    );
+    names = result.rows.map(r => r.name);
+  }
+
+  let fieldValues: string[] = [];
+  if (policy.customFields.length > 0) {
+    const result = await query<{ value: string }>(
+      `SELECT DISTINCT value FROM (
+         SELECT custom_fields->>k AS value FROM deals, UNNEST($2::text[]) k WHERE workspace_id = $1
+         UNION
+         SELECT custom_fields->>k FROM contacts, UNNEST($2::text[]) k WHERE workspace_id = $1
+         UNION
+         SELECT custom_fields->>k FROM accounts, UNNEST($2::text[]) k WHERE workspace_id = $1
+       ) v
+       WHERE value IS NOT NULL AND LENGTH(value) >= 3
+       LIMIT ${MAX_FIELD_VALUES}`,
+      [workspaceId, policy.customFields]
+    );
+    fieldValues = result.rows.map(r => r.value);
+  }
+
+  const dictionary = { names, fieldValues };
+  dictionaryCache.set(workspaceId, { value: dictionary, loadedAt: Date.now() });
+  return dictionary;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Longest literals first so "Dana Lee Smith" wins over "Dana Lee"; split into
+ * several patterns to keep each alternation a manageable size
+ */
+function literalPatterns(values: string[]): RegExp[] {
+  const sorted = [...new Set(values.map(v => v.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  const patterns: RegExp[] = [];
+  for (let i = 0; i < sorted.length; i += LITERALS_PER_PATTERN) {
+    const alternation = sorted.slice(i, i + LITERALS_PER_PATTERN).map(escapeRegex).join('|');
+    patterns.push(new RegExp(`(?<![\\w@])(?:${alternation})(?![\\w@])`, 'gi'));
+  }
+  return patterns;
+}
+
+export class PiiScrubber {
+  private readonly detectors: Array<{ kind: PlaceholderKind; pattern: RegExp }> = [];
+  private readonly byValue = new Map<string, string>();
+  private readonly byPlaceholder = new Map<string, string>();
+  private readonly counters: Record<PlaceholderKind, number> = { EMAIL: 0, PHONE: 0, PERSON: 0, FIELD: 0 };
+
+  constructor(policy: PiiPolicy, dictionary: WorkspaceDictionary = { names: [], fieldValues: [] }) {
+    // Emails before names so "dana.lee@acme.com" isn't split into a name match
+    if (policy.emails) this.detectors.push({ kind: 'EMAIL', pattern: EMAIL_PATTERN });
+    for (const pattern of literalPatterns(dictionary.fieldValues)) this.detectors.push({ kind: 'FIELD', pattern });
+    if (policy.names) {
+      for (const pattern of literalPatterns(dictionary.names)) this.detectors.push({ kind: 'PERSON', pattern });
+    }
+    if (policy.phones) this.detectors.push({ kind: 'PHONE', pattern: PHONE_PATTERN });
+  }
+
+  /** Number of distinct values replaced so far */
+  get size(): number {
+    return this.byPlaceholder.size;
+  }
+
+  private placeholderFor(kind: PlaceholderKind, value: string): string {
+    // Names and field values match case-insensitively; key them the same way
+    const key = `${kind}:${kind === 'PHONE' ? value : value.toLowerCase()}`;
+    const existing = this.byValue.get(key);
+    if (existing) return existing;
+
+    const placeholder = `[${kind}_${++this.counters[kind]}]`;
+    this.byValue.set(key, placeholder);
+    this.byPlaceholder.set(placeholder, value);
+    return placeholder;
+  }
+
+  scrub(text: string): string {
+    if (!text) return text;
+    let result = text;
+    for (const { kind, pattern } of this.detectors) {
+      result = result.replace(pattern, match => this.placeholderFor(kind, match));
+    }
+    return result;
+  }
+
+  restore(text: string): string {
+    if (!text || this.byPlaceholder.size === 0) return text;
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.byPlaceholder.get(placeholder) ?? placeholder);
+  }
+
+  /** Scrub every string value in a JSON-like structure (keys are left alone) */
+  scrubValue<T>(value: T): T {
+    return mapStrings(value, s => this.scrub(s));
+  }
+
+  restoreValue<T>(value: T): T {
+    if (this.byPlaceholder.size === 0) return value;
+    return mapStrings(value, s => this.restore(s));
+  }
+}
+
+function mapStrings<T>(value: T, fn: (s: string) => string, depth = 0): T {
+  if (depth > 20 || value === null || value === undefined) return value;
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn, depth + 1)) as T;
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = mapStrings(item, fn, depth + 1);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+/**
+ * Build a scrubber for one call (or one stored record) in a workspace.
+ * Dictionary lookups that fail fall back to the regex detectors.
+ */
+export async function createPiiScrubber(
+  workspaceId: string,
+  policy?: PiiPolicy
+): Promise<{ policy: PiiPolicy; scrubber: PiiScrubber }> {
+  let resolved = policy;
+  if (!resolved) {
+    try {
+      resolved = await getPiiPolicy(workspaceId);
+    } catch (err) {
+      console.warn('[PII] Failed to load policy, using defaults:', (err as Error).message);
+      resolved = DEFAULT_PII_POLICY;
+    }
+  }
+
+  let dictionary: WorkspaceDictionary | undefined;
+  if (resolved.names || resolved.customFields.length > 0) {
+    try {
+      dictionary = await loadDictionary(workspaceId, resolved);
+    } catch (err) {
+      console.warn('[PII] Failed to load name/field dictionary:', (err as Error).message);
+    }
+  }
+
+  return { policy: resolved, scrubber: new PiiScrubber(resolved, dictionary) };
+}
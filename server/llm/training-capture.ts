@@ -1,4 +1,5 @@
 import { query } from '../db.js';
+import { createPiiScrubber } from './pii-scrubber.js';
 
 /**
  * Captures a classification pair where a contradiction was detected.
@@ -14,6 +15,7 @@ export async function captureContradictionClassificationPair(
     const userMessage = originalClassification.userMessage || '';
     const rawOutput = JSON.stringify(originalClassification);
     const correctedOutput = JSON.stringify(correctedClassification);
+    const { scrubber } = await createPiiScrubber(workspaceId);
 
     await query(
       `INSERT INTO document_training_pairs 
@@ -26,9 +28,9 @@ export async function captureContradictionClassificationPair(
         'poor',
         1.0,
         'contradiction_handler',
-        systemPromptUsed + "\n\nUser: " + userMessage,
-        rawOutput,
-        correctedOutput
+        scrubber.scrub(systemPromptUsed + "\n\nUser: " + userMessage),
+        scrubber.scrub(rawOutput),
+        scrubber.scrub(correctedOutput)
       ]
     );
   } catch (err) {
@@ -47,6 +49,7 @@ export async function captureSuccessfulClassificationPair(
   try {
     const userMessage = classification.userMessage || '';
     const rawOutput = JSON.stringify(classification);
+    const { scrubber } = await createPiiScrubber(workspaceId);
 
     await query(
       `INSERT INTO document_training_pairs 
@@ -58,9 +61,9 @@ export async function captureSuccessfulClassificationPair(
         'classification',
         'good',
         0.0,
-        systemPromptUsed + "\n\nUser: " + userMessage,
-        rawOutput,
-        rawOutput
+        scrubber.scrub(systemPromptUsed + "\n\nUser: " + userMessage),
+        scrubber.scrub(rawOutput),
+        scrubber.scrub(rawOutput)
       ]
     );
   } catch (err) {
@@ -79,6 +82,7 @@ export async function captureStrategicRoutingMiss(
   try {
     const userMessage = originalClassification.userMessage || '';
     const rawOutput = JSON.stringify(originalClassification);
+    const { scrubber } = await createPiiScrubber(workspaceId);
 
     await query(
       `INSERT INTO document_training_pairs 
@@ -91,8 +95,8 @@ export async function captureStrategicRoutingMiss(
         'poor',
         1.0,
         'strategic_routing_miss',
-        systemPromptUsed + "\n\nUser: " + userMessage,
-        rawOutput
+        scrubber.scrub(systemPromptUsed + "\n\nUser: " + userMessage),
+        scrubber.scrub(rawOutput)
       ]
     );
   } catch (err) {
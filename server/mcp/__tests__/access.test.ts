@@ -0,0 +1,63 @@
+/**
+ * Tests for remote MCP tool permissions and data-scope filtering
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { hasMcpPermission, principalKey, requiredToolPermission, resolveMcpContext } from '../access.js';
+import { scopedDealOwner, type McpCallContext } from '../tools/types.js';
+import type { PermissionSet } from '../../permissions/types.js';
+
+function context(overrides: Partial<McpCallContext>): McpCallContext {
+  return {
+    workspaceId: 'ws-1',
+    authMethod: 'session',
+    user: { id: 'u1', email: 'Rep@Acme.com' },
+    permissions: null,
+    dataScope: { dealsFilter: 'all', repsFilter: 'all', canExport: true },
+    ...overrides,
+  };
+}
+
+describe('requiredToolPermission', () => {
+  it('leaves deal queries open and gates run_* tools on manual runs', () => {
+    expect(requiredToolPermission('query_deals')).toBeNull();
+    expect(requiredToolPermission('run_pipeline_hygiene')).toBe('skills.run_manual');
+    expect(requiredToolPermission('get_forecast_rollup')).toBe('skills.view_results');
+  });
+});
+
+describe('hasMcpPermission', () => {
+  it('allows everything for unrestricted contexts and checks the set otherwise', () => {
+    expect(hasMcpPermission(context({}), 'skills.run_manual')).toBe(true);
+
+    const permissions = { 'skills.view_results': true, 'skills.run_manual': false } as unknown as PermissionSet;
+    const member = context({ permissions });
+    expect(hasMcpPermission(member, 'skills.view_results')).toBe(true);
+    expect(hasMcpPermission(member, 'skills.run_manual')).toBe(false);
+    expect(hasMcpPermission(member, null)).toBe(true);
+  });
+});
+
+describe('scopedDealOwner', () => {
+  it('returns null for full visibility and the normalized email for own-deals scope', () => {
+    expect(scopedDealOwner(undefined)).toBeNull();
+    expect(scopedDealOwner(context({}))).toBeNull();
+
+    const own = { dealsFilter: 'own' as const, repsFilter: 'own' as const, canExport: false };
+    expect(scopedDealOwner(context({ dataScope: own }))).toBe('rep@acme.com');
+    expect(scopedDealOwner(context({ dataScope: own, user: null }))).toBe('');
+  });
+});
+
+describe('API key principals', () => {
+  const principal = { type: 'api_key' as const, workspaceId: 'ws-1', workspaceName: 'Acme' };
+
+  it('are pinned to their workspace', async () => {
+    expect(principalKey(principal)).toBe('workspace:ws-1');
+    expect(await resolveMcpContext(principal, 'ws-2')).toBeNull();
+    expect((await resolveMcpContext(principal, 'ws-1'))?.authMethod).toBe('api_key');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for get_rep_scorecard own-rep filtering
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+vi.mock('../tools/skills/helpers.js', () => ({ runSkillWithAutoSave: vi.fn() }));
+
+import { runSkillWithAutoSave } from '../tools/skills/helpers.js';
+import { getRepScorecard } from '../tools/get-rep-scorecard.js';
+import type { McpCallContext } from '../tools/types.js';
+
+const mockRunSkill = runSkillWithAutoSave as unknown as ReturnType<typeof vi.fn>;
+
+const narrative = [
+  '# Rep Scorecard',
+  '## Ana Ruiz (ana@acme.com)',
+  'Attainment 112%',
+  'Coverage 3.1x',
+  'Velocity 41 days',
+  '## Ben Cole (ben@acme.com)',
+  'Attainment 64%',
+].join('\n');
+
+const own = { dealsFilter: 'own' as const, repsFilter: 'own' as const, canExport: false };
+
+function context(overrides: Partial<McpCallContext>): McpCallContext {
+  return {
+    workspaceId: 'ws-1',
+    authMethod: 'session',
+    user: { id: 'u1', email: 'ana@acme.com' },
+    permissions: null,
+    dataScope: own,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mockRunSkill.mockReset();
+  mockRunSkill.mockResolvedValue({ run_id: 'run-1', output: narrative, narrative });
+});
+
+describe('get_rep_scorecard', () => {
+  it('returns only the caller\'s section for own-rep visibility', async () => {
+    const result = await getRepScorecard.handler({ save: false }, 'ws-1', context({}));
+
+    expect(result.narrative).toContain('Ana Ruiz');
+    expect(result.narrative).not.toContain('Ben Cole');
+    expect(result.rep_email_filter).toBe('ana@acme.com');
+  });
+
+  it('returns nothing to a scoped API key with no user', async () => {
+    const result = await getRepScorecard.handler(
+      { rep_email: 'ben@acme.com', save: false },
+      'ws-1',
+      context({ authMethod: 'api_key', user: null })
+    );
+
+    expect(result.narrative).toBe('');
+    expect(result.rep_email_filter).toBeNull();
+    expect(mockRunSkill).not.toHaveBeenCalled();
+  });
+});
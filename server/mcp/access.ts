@@ -0,0 +1,129 @@
+/**
+ * MCP access control for remote (HTTP) sessions.
+ *
+ * A bearer token resolves to a principal: a user session, which may switch
+ * between the workspaces it is an active member of, or a workspace API key,
+ * which is pinned to its workspace — with admin access for the legacy key,
+ * or its own scopes for a scoped key. Each call runs with the principal's
+ * RBAC permissions and data-visibility scope for the session's current
+ * workspace.
+ */
+
+import { query } from '../db.js';
+import { lookupSessionUser, lookupWorkspaceByKey } from '../middleware/auth.js';
+import { isScopedApiKey } from '../api-keys/keys.js';
+import { lookupApiKey, type ResolvedApiKey } from '../api-keys/store.js';
+import { getWorkspaceMember } from '../middleware/permissions.js';
+import { adminDataScope, getDataVisibilityScope } from '../permissions/data-visibility.js';
+import type { PermissionSet } from '../permissions/types.js';
+import type { McpCallContext } from './tools/types.js';
+
+export type McpPrincipal =
+  | { type: 'session'; userId: string; email: string; name: string }
+  | { type: 'api_key'; workspaceId: string; workspaceName: string; apiKey?: ResolvedApiKey };
+
+export interface McpWorkspace {
+  id: string;
+  name: string;
+  role: string | null;
+}
+
+/**
+ * Tools that need a specific permission. Deal and pipeline queries are open
+ * to every member but filtered by data scope; other read tools need
+ * skills.view_results, and run_* tools need skills.run_manual.
+ */
+const TOOL_PERMISSIONS: Record<string, keyof PermissionSet | null> = {
+  query_deals: null,
+  get_at_risk_deals: null,
+  get_pipeline_summary: null,
+  list_dimensions: null,
+  get_concierge_brief: 'briefing.view',
+  generate_report: 'skills.run_manual',
+  export_report_to_google_docs: 'data.export',
+  save_claude_insight: 'skills.run_manual',
+  create_action: 'skills.run_manual',
+  save_to_report: 'skills.run_manual',
+  save_hypothesis: 'skills.run_manual',
+};
+
+export function requiredToolPermission(toolName: string): keyof PermissionSet | null {
+  if (toolName in TOOL_PERMISSIONS) return TOOL_PERMISSIONS[toolName];
+  return toolName.startsWith('run_') ? 'skills.run_manual' : 'skills.view_results';
+}
+
+export function hasMcpPermission(context: McpCallContext, permission: keyof PermissionSet | null): boolean {
+  return permission === null || context.permissions === null || context.permissions[permission] === true;
+}
+
+export async function authenticateMcpToken(token: string): Promise<McpPrincipal | null> {
+  if (isScopedApiKey(token)) {
+    const key = await lookupApiKey(token);
+    return key
+      ? { type: 'api_key', workspaceId: key.workspace.id, workspaceName: key.workspace.name, apiKey: key }
+      : null;
+  }
+
+  const workspace = await lookupWorkspaceByKey(token);
+  if (workspace) {
+    return { type: 'api_key', workspaceId: workspace.id, workspaceName: workspace.name };
+  }
+
+  const user = await lookupSessionUser(token);
+  if (user) {
+    return { type: 'session', userId: user.user_id, email: user.email, name: user.name };
+  }
+
+  return null;
+}
+
+/** Stable identity used to bind an MCP session to whoever opened it */
+export function principalKey(principal: McpPrincipal): string {
+  if (principal.type === 'session') return `user:${principal.userId}`;
+  return principal.apiKey ? `api_key:${principal.apiKey.id}` : `workspace:${principal.workspaceId}`;
+}
+
+export async function listPrincipalWorkspaces(principal: McpPrincipal): Promise<McpWorkspace[]> {
+  if (principal.type === 'api_key') {
+    return [{ id: principal.workspaceId, name: principal.workspaceName, role: principal.apiKey ? null : 'admin' }];
+  }
+
+  const result = await query<McpWorkspace>(
+    `SELECT w.id, w.name, wm.pandora_role AS role
+     FROM workspace_members wm
+     JOIN workspaces w ON w.id = wm.workspace_id
+     WHERE wm.user_id = $1 AND wm.status = 'active'
+     ORDER BY w.name`,
+    [principal.userId]
+  );
+  return result.rows;
+}
+
+/**
+ * Call context for the principal in a workspace, or null when they have no
+ * active membership there
+ */
+export async function resolveMcpContext(principal: McpPrincipal, workspaceId: string): Promise<McpCallContext | null> {
+  if (principal.type === 'api_key') {
+    if (principal.workspaceId !== workspaceId) return null;
+    const permissions = principal.apiKey?.permissions ?? null;
+    return {
+      workspaceId,
+      authMethod: 'api_key',
+      user: null,
+      permissions,
+      dataScope: permissions ? getDataVisibilityScope(permissions) : adminDataScope(),
+    };
+  }
+
+  const { member, permissions } = await getWorkspaceMember(workspaceId, principal.userId);
+  if (!member || !member.is_active || !permissions) return null;
+
+  return {
+    workspaceId,
+    authMethod: 'session',
+    user: { id: principal.userId, email: principal.email, name: principal.name },
+    permissions,
+    dataScope: getDataVisibilityScope(permissions),
+  };
+}
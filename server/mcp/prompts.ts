@@ -0,0 +1,115 @@
+/**
+ * MCP prompts: reusable conversation starters with the workspace data they
+ * need already attached, so a client can run them without tool round trips.
+ */
+
+import { getPipelineSummary } from './tools/get-pipeline-summary.js';
+import type { McpCallContext } from './tools/types.js';
+import { hasMcpPermission } from './access.js';
+import { readResource } from './resources.js';
+import type { PermissionSet } from '../permissions/types.js';
+
+interface PromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+}
+
+interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required: boolean }>;
+  permission: keyof PermissionSet | null;
+  build: (args: Record<string, string>, context: McpCallContext) => Promise<PromptMessage[] | null>;
+}
+
+const PROMPTS: McpPrompt[] = [
+  {
+    name: 'forecast_call_prep',
+    description: 'Prepare for a forecast call: commit vs best case, gaps, the deals that decide the quarter, and questions to ask',
+    arguments: [
+      { name: 'rep_email', description: 'Focus the prep on one rep (optional)', required: false },
+    ],
+    permission: 'skills.view_results',
+    build: async (args, context) => {
+      const summary = await getPipelineSummary.handler({}, context.workspaceId, context);
+      const focus = args.rep_email ? ` Focus on ${args.rep_email}'s number and deals.` : '';
+
+      return [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: [
+              `Help me prepare for this week's forecast call.${focus}`,
+              'Use get_forecast_rollup for commit, best case and attainment, get_at_risk_deals for slipping deals,',
+              'and get_rep_scorecard for rep-level coverage. Then give me:',
+              '1. The call: commit and best case, and how confident the data says each is',
+              '2. The gap to target and where it could be closed this quarter',
+              '3. The 3-5 deals that decide the quarter, each with its specific risk',
+              '4. Pointed questions to ask each rep about their commit deals',
+              '',
+              'Current pipeline snapshot:',
+              JSON.stringify(summary, null, 2),
+            ].join('\n'),
+          },
+        },
+      ];
+    },
+  },
+  {
+    name: 'deal_review',
+    description: 'Structured review of one deal from its dossier: qualification gaps, stakeholder coverage, risks and next steps',
+    arguments: [
+      { name: 'deal_id', description: 'Deal to review', required: true },
+    ],
+    permission: null,
+    build: async (args, context) => {
+      const dossier = await readResource(`pandora://deals/${args.deal_id}/dossier`, context);
+      if (!dossier) return null;
+
+      return [
+        { role: 'user', content: { type: 'resource', resource: dossier } },
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: [
+              'Review this deal using the dossier above. Cover:',
+              '1. Where it really is versus its CRM stage, citing activity and call evidence',
+              '2. Qualification gaps (pain, decision process, economic buyer, timeline, budget)',
+              '3. Stakeholder coverage: who is engaged, who is missing, single-threading risk',
+              '4. The top risks to the close date and amount',
+              '5. Concrete next steps for the rep this week',
+              'Be specific and quote the evidence; say so when the data is missing.',
+            ].join('\n'),
+          },
+        },
+      ];
+    },
+  },
+];
+
+export function listPrompts(context: McpCallContext) {
+  return PROMPTS
+    .filter(p => hasMcpPermission(context, p.permission))
+    .map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+/**
+ * Messages for a prompt, or null when the prompt is unknown, not permitted,
+ * missing a required argument, or refers to a record the caller can't see
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  context: McpCallContext
+): Promise<{ description: string; messages: PromptMessage[] } | null> {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt || !hasMcpPermission(context, prompt.permission)) return null;
+  if (prompt.arguments.some(a => a.required && !args[a.name])) return null;
+
+  const messages = await prompt.build(args, context);
+  return messages ? { description: prompt.description, messages } : null;
+}
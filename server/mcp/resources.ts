@@ -0,0 +1,155 @@
+/**
+ * MCP resources: read-only documents a client can attach as context.
+ *
+ *   pandora://reports/{documentId}          WBR/QBR report documents
+ *   pandora://skills/{skillId}/evidence     latest completed run's evidence
+ *   pandora://deals/{dealId}/dossier        deal dossier (template)
+ *   pandora://accounts/{accountId}/dossier  account dossier (template)
+ *
+ * URIs resolve against the session's current workspace. Access follows the
+ * same RBAC and data-visibility rules as the tools.
+ */
+
+import { query } from '../db.js';
+import { assembleAccountDossier, assembleDealDossier } from '../dossiers/index.js';
+import { getReport } from './tools/get-report.js';
+import { scopedDealOwner, type McpCallContext } from './tools/types.js';
+import { hasMcpPermission } from './access.js';
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const JSON_MIME = 'application/json';
+const RECENT_REPORTS = 20;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'pandora://deals/{dealId}/dossier',
+    name: 'Deal dossier',
+    description: 'Deal, contacts, calls, activities, stage history, findings and risk for one deal',
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: 'pandora://accounts/{accountId}/dossier',
+    name: 'Account dossier',
+    description: 'Account, open and closed deals, contacts and calls for one account',
+    mimeType: JSON_MIME,
+  },
+];
+
+export async function listResources(context: McpCallContext): Promise<McpResource[]> {
+  const resources: McpResource[] = [];
+
+  if (hasMcpPermission(context, 'skills.view_results')) {
+    const reports = await query<{ id: string; document_type: string; week_label: string; headline: string | null }>(
+      `SELECT id, document_type, week_label, headline
+       FROM report_documents
+       WHERE workspace_id = $1
+       ORDER BY generated_at DESC
+       LIMIT $2`,
+      [context.workspaceId, RECENT_REPORTS]
+    );
+    for (const r of reports.rows) {
+      resources.push({
+        uri: `pandora://reports/${r.id}`,
+        name: `${r.document_type.toUpperCase()} ${r.week_label}`,
+        description: r.headline || undefined,
+        mimeType: JSON_MIME,
+      });
+    }
+  }
+
+  if (hasMcpPermission(context, 'skills.view_evidence')) {
+    const runs = await query<{ skill_id: string; completed_at: string }>(
+      `SELECT DISTINCT ON (skill_id) skill_id, completed_at
+       FROM skill_runs
+       WHERE workspace_id = $1 AND status = 'completed'
+       ORDER BY skill_id, completed_at DESC`,
+      [context.workspaceId]
+    );
+    for (const r of runs.rows) {
+      resources.push({
+        uri: `pandora://skills/${r.skill_id}/evidence`,
+        name: `${r.skill_id} evidence`,
+        description: `Evidence from the latest ${r.skill_id} run (${new Date(r.completed_at).toISOString()})`,
+        mimeType: JSON_MIME,
+      });
+    }
+  }
+
+  return resources;
+}
+
+function contents(uri: string, data: unknown): McpResourceContents {
+  return { uri, mimeType: JSON_MIME, text: JSON.stringify(data, null, 2) };
+}
+
+/**
+ * Null for unknown URIs and for resources the caller may not see, so hidden
+ * records are indistinguishable from missing ones
+ */
+export async function readResource(uri: string, context: McpCallContext): Promise<McpResourceContents | null> {
+  const workspaceId = context.workspaceId;
+
+  const report = uri.match(/^pandora:\/\/reports\/([0-9a-f-]{36})$/i);
+  if (report && hasMcpPermission(context, 'skills.view_results')) {
+    const doc = await getReport.handler({ document_id: report[1] }, workspaceId, context);
+    if (!doc.error) return contents(uri, doc);
+  }
+
+  const evidence = uri.match(/^pandora:\/\/skills\/([a-z0-9-]+)\/evidence$/i);
+  if (evidence && hasMcpPermission(context, 'skills.view_evidence')) {
+    const run = await query<{ run_id: string; completed_at: string; output: any }>(
+      `SELECT run_id, completed_at, output
+       FROM skill_runs
+       WHERE workspace_id = $1 AND skill_id = $2 AND status = 'completed'
+       ORDER BY completed_at DESC
+       LIMIT 1`,
+      [workspaceId, evidence[1]]
+    );
+    if (run.rows.length > 0) {
+      const row = run.rows[0];
+      return contents(uri, {
+        skill_id: evidence[1],
+        run_id: row.run_id,
+        completed_at: row.completed_at,
+        evidence: row.output?.evidence ?? null,
+      });
+    }
+  }
+
+  const deal = uri.match(/^pandora:\/\/deals\/([0-9a-f-]{36})\/dossier$/i);
+  if (deal) {
+    const owner = scopedDealOwner(context);
+    const visible = await query(
+      `SELECT 1 FROM deals WHERE workspace_id = $1 AND id = $2 ${owner !== null ? 'AND owner_email = $3' : ''}`,
+      owner !== null ? [workspaceId, deal[1], owner] : [workspaceId, deal[1]]
+    );
+    if (visible.rows.length > 0) {
+      return contents(uri, await assembleDealDossier(workspaceId, deal[1]));
+    }
+  }
+
+  const account = uri.match(/^pandora:\/\/accounts\/([0-9a-f-]{36})\/dossier$/i);
+  if (account && hasMcpPermission(context, 'data.accounts_view')) {
+    const exists = await query(
+      `SELECT 1 FROM accounts WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, account[1]]
+    );
+    if (exists.rows.length > 0) {
+      return contents(uri, await assembleAccountDossier(workspaceId, account[1]));
+    }
+  }
+
+  return null;
+}
@@ -3,48 +3,153 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { query } from '../db.js';
 import { tools, callTool } from './tools/index.js';
-import { isCheckpointWorthy } from './tools/types.js';
+import { isCheckpointWorthy, type McpCallContext } from './tools/types.js';
+import { createPiiScrubber } from '../llm/pii-scrubber.js';
+import { adminDataScope } from '../permissions/data-visibility.js';
+import {
+  hasMcpPermission,
+  listPrincipalWorkspaces,
+  requiredToolPermission,
+  resolveMcpContext,
+  type McpPrincipal,
+} from './access.js';
+import { listResources, readResource, RESOURCE_TEMPLATES } from './resources.js';
+import { getPrompt, listPrompts } from './prompts.js';
+
+/**
+ * A remote session's caller and current workspace. switch_workspace replaces
+ * the context in place, so every later request sees the new workspace.
+ */
+export interface McpSessionState {
+  principal: McpPrincipal;
+  context: McpCallContext;
+}
+
+const SESSION_TOOLS = [
+  {
+    name: 'list_workspaces',
+    description: 'List the workspaces this session can switch to, marking the current one.',
+    inputSchema: { type: 'object' as const, properties: {} },
+  },
+  {
+    name: 'switch_workspace',
+    description: 'Switch this session to another workspace. Tools, resources and prompts then run against it with your role there.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { workspace_id: { type: 'string', description: 'Workspace ID from list_workspaces' } },
+      required: ['workspace_id'],
+    },
+  },
+];
+
+function textResult(data: unknown) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }] };
+}
+
+/**
+ * Stdio servers are pinned to one workspace and unrestricted. Remote servers
+ * pass their session state and run with the caller's permissions.
+ */
+export function createMcpServer(workspaceId: string, session?: McpSessionState): Server {
+  const stdioContext: McpCallContext = {
+    workspaceId,
+    authMethod: 'stdio',
+    user: null,
+    permissions: null,
+    dataScope: adminDataScope(),
+  };
+  const currentContext = () => session?.context ?? stdioContext;
 
-export function createMcpServer(workspaceId: string): Server {
   const server = new Server(
     { name: 'pandora', version: '1.0.0' },
-    { capabilities: { tools: {} } }
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: {},
+      },
+    }
   );
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: tools.map(t => ({
-      name: t.name,
-      description: t.description,
-      inputSchema: t.inputSchema,
-    })),
-  }));
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const context = currentContext();
+    return {
+      tools: [
+        ...(session ? SESSION_TOOLS : []),
+        ...tools
+          .filter(t => hasMcpPermission(context, requiredToolPermission(t.name)))
+          .map(t => ({
+            name: t.name,
+            description: t.description,
+            inputSchema: t.inputSchema,
+          })),
+      ],
+    };
+  });
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+
+    if (session && name === 'list_workspaces') {
+      const workspaces = await listPrincipalWorkspaces(session.principal);
+      return textResult({
+        current_workspace_id: session.context.workspaceId,
+        workspaces,
+      });
+    }
+
+    if (session && name === 'switch_workspace') {
+      const target = String(args?.workspace_id ?? '');
+      const next = target ? await resolveMcpContext(session.principal, target) : null;
+      if (!next) {
+        throw new McpError(ErrorCode.InvalidParams, `No access to workspace ${target || '(missing workspace_id)'}`);
+      }
+      session.context = next;
+      // Permissions and visible records can differ per workspace
+      await server.sendToolListChanged().catch(() => {});
+      await server.sendResourceListChanged().catch(() => {});
+      return textResult({ switched: true, workspace_id: next.workspaceId });
+    }
+
+    const context = currentContext();
+    const workspaceId = context.workspaceId;
+    const permission = requiredToolPermission(name);
+    if (!hasMcpPermission(context, permission)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Permission denied: ${name} requires ${permission}`);
+    }
+
     const start = Date.now();
 
     try {
-      const result = await callTool(name, args ?? {}, workspaceId);
+      const result = await callTool(name, args ?? {}, workspaceId, context);
       const duration = Date.now() - start;
 
-      // Log call to mcp_calls (non-blocking, never fails the tool call)
-      query(
-        `INSERT INTO mcp_calls
-           (workspace_id, tool_name, input_summary, output_summary, duration_ms)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [
-          workspaceId,
-          name,
-          JSON.stringify(args ?? {}).slice(0, 500),
-          JSON.stringify(result).slice(0, 500),
-          duration,
-        ]
-      ).catch(() => {});
+      // Log call to mcp_calls (non-blocking, never fails the tool call).
+      // Summaries are PII-scrubbed before truncation.
+      createPiiScrubber(workspaceId)
+        .then(({ scrubber }) => query(
+          `INSERT INTO mcp_calls
+             (workspace_id, tool_name, input_summary, output_summary, duration_ms)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [
+            workspaceId,
+            name,
+            scrubber.scrub(JSON.stringify(args ?? {})).slice(0, 500),
+            scrubber.scrub(JSON.stringify(result)).slice(0, 500),
+            duration,
+          ]
+        ))
+        .catch(() => {});
 
       // Build auto-checkpoint hint for Claude
       const shouldCheckpoint = (args as any)?.save !== false && isCheckpointWorthy(name, result);
@@ -71,23 +176,55 @@ export function createMcpServer(workspaceId: string): Server {
       const duration = Date.now() - start;
       const message = err instanceof Error ? err.message : String(err);
 
-      query(
-        `INSERT INTO mcp_calls
-           (workspace_id, tool_name, input_summary, error, duration_ms)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [
-          workspaceId,
-          name,
-          JSON.stringify(args ?? {}).slice(0, 500),
-          message,
-          duration,
-        ]
-      ).catch(() => {});
+      createPiiScrubber(workspaceId)
+        .then(({ scrubber }) => query(
+          `INSERT INTO mcp_calls
+             (workspace_id, tool_name, input_summary, error, duration_ms)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [
+            workspaceId,
+            name,
+            scrubber.scrub(JSON.stringify(args ?? {})).slice(0, 500),
+            scrubber.scrub(message),
+            duration,
+          ]
+        ))
+        .catch(() => {});
 
       throw new McpError(ErrorCode.InternalError, message);
     }
   });
 
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(currentContext()),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const resource = await readResource(uri, currentContext());
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+    return { contents: [resource] };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(currentContext()),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const prompt = await getPrompt(name, args ?? {}, currentContext());
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not available: ${name}`);
+    }
+    return prompt;
+  });
+
   return server;
 }
 
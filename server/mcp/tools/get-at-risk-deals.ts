@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { query } from '../../db.js';
 import type { McpTool } from './index.js';
+import { scopedDealOwner, type McpCallContext } from './types.js';
 
 const InputSchema = z.object({
   min_amount: z.number().optional(),
@@ -33,7 +34,7 @@ export const getAtRiskDeals: McpTool = {
       },
     },
   },
-  handler: async (args: any, workspaceId: string) => {
+  handler: async (args: any, workspaceId: string, context?: McpCallContext) => {
     const input = InputSchema.parse(args ?? {});
     const limit = Math.min(input.limit ?? 20, 50);
 
@@ -49,6 +50,11 @@ export const getAtRiskDeals: McpTool = {
       conditions.push(`d.amount >= $${i++}`);
       params.push(input.min_amount);
     }
+    const scopedOwner = scopedDealOwner(context);
+    if (scopedOwner !== null) {
+      conditions.push(`d.owner_email = $${i++}`);
+      params.push(scopedOwner);
+    }
 
     params.push(limit);
 
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { query } from '../../db.js';
 import type { McpTool } from './index.js';
+import { scopedDealOwner, type McpCallContext } from './types.js';
 
 const InputSchema = z.object({
   dimension_key: z.string().optional(),
@@ -23,8 +24,12 @@ export const getPipelineSummary: McpTool = {
       },
     },
   },
-  handler: async (args: any, workspaceId: string) => {
+  handler: async (args: any, workspaceId: string, context?: McpCallContext) => {
     const input = InputSchema.parse(args ?? {});
+    const scopedOwner = scopedDealOwner(context);
+    const ownerFilter = scopedOwner !== null ? 'AND owner_email = $2' : '';
+    const params = scopedOwner !== null ? [workspaceId, scopedOwner] : [workspaceId];
+
     const stageResult = await query(`
       SELECT
         stage_normalized AS stage,
@@ -36,9 +41,10 @@ export const getPipelineSummary: McpTool = {
       WHERE workspace_id = $1
         AND stage_normalized NOT IN ('closed_won', 'closed_lost')
         AND amount IS NOT NULL
+        ${ownerFilter}
       GROUP BY stage_normalized
       ORDER BY total_arr DESC
-    `, [workspaceId]);
+    `, params);
 
     const closedWonResult = await query(`
       SELECT
@@ -49,7 +55,8 @@ export const getPipelineSummary: McpTool = {
         AND stage_normalized = 'closed_won'
         AND EXTRACT(YEAR FROM close_date) = EXTRACT(YEAR FROM NOW())
         AND EXTRACT(QUARTER FROM close_date) = EXTRACT(QUARTER FROM NOW())
-    `, [workspaceId]);
+        ${ownerFilter}
+    `, params);
 
     const totalPipeline = stageResult.rows.reduce(
       (sum: number, row: any) => sum + Number(row.total_arr), 0
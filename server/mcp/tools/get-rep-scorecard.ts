@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import type { McpTool } from './index.js';
 import { runSkillWithAutoSave } from './skills/helpers.js';
-import { maybeAutoSave } from './types.js';
+import { maybeAutoSave, type McpCallContext } from './types.js';
 
 const InputSchema = z.object({
   rep_email: z.string().optional(),
@@ -34,8 +34,24 @@ export const getRepScorecard: McpTool = {
       },
     },
   },
-  handler: async (args: any, workspaceId: string) => {
+  handler: async (args: any, workspaceId: string, context?: McpCallContext) => {
     const input = InputSchema.parse(args ?? {});
+    // Callers who may only see their own rep data get only their own section;
+    // without an email (scoped API keys) there is no section to show
+    const ownOnly = context?.dataScope.repsFilter === 'own';
+    if (ownOnly) {
+      input.rep_email = (context?.user?.email ?? '').trim();
+      if (!input.rep_email) {
+        return {
+          skill_id: 'rep-scorecard',
+          run_id: null,
+          narrative: '',
+          rep_email_filter: null,
+          saved: false,
+          generated_at: new Date().toISOString(),
+        };
+      }
+    }
 
     const result = await runSkillWithAutoSave(
       workspaceId,
@@ -81,7 +97,11 @@ export const getRepScorecard: McpTool = {
 
       if (repSection.length > 0) {
         filteredNarrative = repSection.join('\n');
+      } else if (ownOnly) {
+        filteredNarrative = '';
       }
+    } else if (ownOnly) {
+      filteredNarrative = '';
     }
 
     if (input.save && narrative) {
@@ -42,11 +42,13 @@ import {
   saveHypothesis,
 } from './write/index.js';
 
+import type { McpCallContext } from './types.js';
+
 export interface McpTool {
   name: string;
   description: string;
   inputSchema: object;
-  handler: (args: any, workspaceId: string) => Promise<any>;
+  handler: (args: any, workspaceId: string, context?: McpCallContext) => Promise<any>;
 }
 
 export const tools: McpTool[] = [
@@ -106,7 +108,8 @@ const toolMap = new Map<string, McpTool>(tools.map(t => [t.name, t]));
 export async function callTool(
   name: string,
   args: any,
-  workspaceId: string
+  workspaceId: string,
+  context?: McpCallContext
 ): Promise<any> {
   const tool = toolMap.get(name);
   if (!tool) {
@@ -114,5 +117,5 @@ export async function callTool(
       `Unknown tool: "${name}". Available tools: ${tools.map(t => t.name).join(', ')}`
     );
   }
-  return tool.handler(args, workspaceId);
+  return tool.handler(args, workspaceId, context);
 }
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { query } from '../../db.js';
 import type { McpTool } from './index.js';
+import { scopedDealOwner, type McpCallContext } from './types.js';
 
 const InputSchema = z.object({
   stage: z.string().optional(),
@@ -59,7 +60,7 @@ export const queryDeals: McpTool = {
       },
     },
   },
-  handler: async (args: any, workspaceId: string) => {
+  handler: async (args: any, workspaceId: string, context?: McpCallContext) => {
     const input = InputSchema.parse(args ?? {});
     const limit = Math.min(input.limit ?? 25, 100);
 
@@ -67,6 +68,12 @@ export const queryDeals: McpTool = {
     const params: any[] = [workspaceId];
     let i = 2;
 
+    const scopedOwner = scopedDealOwner(context);
+    if (scopedOwner !== null) {
+      conditions.push(`d.owner_email = $${i++}`);
+      params.push(scopedOwner);
+    }
+
     if (input.stage) {
       conditions.push(`d.stage_normalized = $${i++}`);
       params.push(input.stage);
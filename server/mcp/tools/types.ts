@@ -1,5 +1,31 @@
 import { createHash } from 'crypto';
 import { query } from '../../db.js';
+import type { PermissionSet } from '../../permissions/types.js';
+import type { DataScope } from '../../permissions/data-visibility.js';
+import { normalizeEmail } from '../../utils/email-normalization.js';
+
+/**
+ * Who is calling a tool. Stdio sessions run locally for one workspace and
+ * are unrestricted; HTTP sessions carry the user's RBAC permissions and
+ * data-visibility scope for the session's current workspace.
+ */
+export interface McpCallContext {
+  workspaceId: string;
+  authMethod: 'stdio' | 'session' | 'api_key';
+  user: { id: string; email: string; name?: string } | null;
+  /** null when unrestricted (stdio, workspace API keys) */
+  permissions: PermissionSet | null;
+  dataScope: DataScope;
+}
+
+/**
+ * Owner email deal queries must be filtered to, or null when the caller may
+ * see every deal. A scoped caller without an email gets '' (matches nothing).
+ */
+export function scopedDealOwner(context?: McpCallContext): string | null {
+  if (!context || context.dataScope.dealsFilter === 'all') return null;
+  return normalizeEmail(context.user?.email ?? '') || '';
+}
 
 export interface McpToolInput {
   save?: boolean;
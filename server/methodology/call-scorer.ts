@@ -6,6 +6,7 @@
  */
 
 import { createLogger } from '../utils/logger.js';
+import { callLLM } from '../utils/llm-router.js';
 import { ALL_FRAMEWORKS } from '../config/methodology-frameworks.js';
 
 const logger = createLogger('CallScorer');
@@ -61,7 +62,7 @@ export class CallScorer {
 
     try {
       // Call DeepSeek
-      const result = await this.callDeepSeek(prompt);
+      const result = await this.callDeepSeek(workspaceId, prompt);
 
       // Parse result
       const dimensionScores = this.parseScoreResult(result, rubric);
@@ -144,37 +145,16 @@ Return ONLY valid JSON. No preamble. Schema:
   }
 
   /**
-   * Call DeepSeek API
+   * Call DeepSeek through the workspace LLM router (routing, PII policy, local-only)
    */
-  private async callDeepSeek(prompt: string): Promise<string> {
-    const FIREWORKS_API_KEY = process.env.FIREWORKS_API_KEY;
-    if (!FIREWORKS_API_KEY) {
-      throw new Error('FIREWORKS_API_KEY not configured');
-    }
-
-    const response = await fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${FIREWORKS_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'accounts/fireworks/models/deepseek-v3',
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000,
-      }),
+  private async callDeepSeek(workspaceId: string, prompt: string): Promise<string> {
+    const response = await callLLM(workspaceId, 'extract', {
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3,
+      maxTokens: 2000,
+      _tracking: { workspaceId, phase: 'methodology', stepName: 'call-scoring' },
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`DeepSeek API error: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
-    return data.choices?.[0]?.message?.content || '';
+    return response.content || '';
   }
 
   /**
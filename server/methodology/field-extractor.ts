@@ -6,6 +6,7 @@
  */
 
 import { createLogger } from '../utils/logger.js';
+import { callLLM } from '../utils/llm-router.js';
 import { ALL_FRAMEWORKS } from '../config/methodology-frameworks.js';
 
 const logger = createLogger('MethodologyFieldExtractor');
@@ -33,6 +34,7 @@ export class MethodologyFieldExtractor {
    * Extracts methodology fields from content using LLM
    */
   async extract(
+    workspaceId: string,
     content: ContentSource,
     frameworkKey: string,
     workspaceFieldHints: Record<string, string>
@@ -57,9 +59,9 @@ export class MethodologyFieldExtractor {
       workspaceFieldHints
     );
 
-    // Call DeepSeek (use existing fireworks pattern from skills runtime)
+    // Call DeepSeek via the workspace LLM router
     try {
-      const result = await this.callDeepSeek(prompt);
+      const result = await this.callDeepSeek(workspaceId, prompt);
 
       // Parse and validate result
       const extractedFields = this.parseExtractionResult(result, content);
@@ -122,38 +124,16 @@ Only include fields where evidence exists. Omit fields with no evidence.`;
   }
 
   /**
-   * Call DeepSeek API
+   * Call DeepSeek through the workspace LLM router (routing, PII policy, local-only)
    */
-  private async callDeepSeek(prompt: string): Promise<string> {
-    // Use Fireworks API (same as skills runtime)
-    const FIREWORKS_API_KEY = process.env.FIREWORKS_API_KEY;
-    if (!FIREWORKS_API_KEY) {
-      throw new Error('FIREWORKS_API_KEY not configured');
-    }
-
-    const response = await fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${FIREWORKS_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'accounts/fireworks/models/deepseek-v3',
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000,
-      }),
+  private async callDeepSeek(workspaceId: string, prompt: string): Promise<string> {
+    const response = await callLLM(workspaceId, 'extract', {
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3,
+      maxTokens: 2000,
+      _tracking: { workspaceId, phase: 'methodology', stepName: 'field-extraction' },
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`DeepSeek API error: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
-    return data.choices?.[0]?.message?.content || '';
+    return response.content || '';
   }
 
   /**
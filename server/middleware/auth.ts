@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { query } from '../db.js';
+import { isScopedApiKey, requiredRouteScope } from '../api-keys/keys.js';
+import { checkApiKeyRequest, lookupApiKey, type ResolvedApiKey } from '../api-keys/store.js';
 
 declare global {
   namespace Express {
@@ -8,6 +10,8 @@ declare global {
       user?: { user_id: string; email: string; name?: string; account_type?: string; platform_role?: string } | null;
       authMethod?: 'api_key' | 'session';
       userWorkspaceRole?: string;
+      /** Set for scoped keys only; legacy workspace keys leave it undefined */
+      apiKey?: ResolvedApiKey;
     }
   }
 }
@@ -20,7 +24,7 @@ interface CacheEntry {
 const apiKeyCache = new Map<string, CacheEntry>();
 const CACHE_TTL_MS = 5 * 60 * 1000;
 
-function extractBearerToken(req: Request): string | null {
+export function extractBearerToken(req: Request): string | null {
   const header = req.headers.authorization;
   if (header?.startsWith('Bearer ')) return header.slice(7).trim() || null;
   // Allow session token as a query param — used by <img> requests which cannot
@@ -30,7 +34,7 @@ function extractBearerToken(req: Request): string | null {
   return null;
 }
 
-async function lookupWorkspaceByKey(apiKey: string): Promise<{ id: string; name: string } | null> {
+export async function lookupWorkspaceByKey(apiKey: string): Promise<{ id: string; name: string } | null> {
   const cached = apiKeyCache.get(apiKey);
   if (cached && cached.expiresAt > Date.now()) {
     return cached.workspace;
@@ -51,6 +55,23 @@ async function lookupWorkspaceByKey(apiKey: string): Promise<{ id: string; name:
   return workspace;
 }
 
+/**
+ * User behind an unexpired session token
+ */
+export async function lookupSessionUser(token: string): Promise<{
+  user_id: string; email: string; name: string; platform_role: string;
+} | null> {
+  const session = await query<{
+    user_id: string; email: string; name: string; platform_role: string;
+  }>(`
+    SELECT us.user_id, u.email, u.name, u.role as platform_role
+    FROM user_sessions us
+    JOIN users u ON u.id = us.user_id
+    WHERE us.token = $1 AND us.expires_at > now()
+  `, [token]);
+  return session.rows[0] || null;
+}
+
 export async function requireUserSession(req: Request, res: Response, next: NextFunction): Promise<void> {
   const token = extractBearerToken(req);
   if (!token) {
@@ -59,21 +80,13 @@ export async function requireUserSession(req: Request, res: Response, next: Next
   }
 
   try {
-    const session = await query<{
-      user_id: string; email: string; name: string; platform_role: string;
-    }>(`
-      SELECT us.user_id, u.email, u.name, u.role as platform_role
-      FROM user_sessions us
-      JOIN users u ON u.id = us.user_id
-      WHERE us.token = $1 AND us.expires_at > now()
-    `, [token]);
-
-    if (session.rows.length === 0) {
+    const user = await lookupSessionUser(token);
+    if (!user) {
       res.status(401).json({ error: 'Invalid or expired token' });
       return;
     }
 
-    req.user = session.rows[0];
+    req.user = user;
     req.authMethod = 'session';
     next();
   } catch (err) {
@@ -89,6 +102,12 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
     return;
   }
 
+  // Scoped keys are only honoured on workspace routes, where the route scope map applies
+  if (isScopedApiKey(token)) {
+    res.status(403).json({ error: 'Scoped API keys can only call workspace endpoints' });
+    return;
+  }
+
   try {
     const workspace = await lookupWorkspaceByKey(token);
     if (!workspace) {
@@ -124,6 +143,10 @@ export async function requireWorkspaceAccess(req: Request, res: Response, next:
   const workspaceId = extractWorkspaceId(req);
 
   try {
+    if (isScopedApiKey(token)) {
+      return await authorizeScopedKey(req, res, next, token, workspaceId);
+    }
+
     const workspace = await lookupWorkspaceByKey(token);
     if (workspace) {
       if (workspaceId && !UUID_RE.test(workspaceId)) {
@@ -140,22 +163,12 @@ export async function requireWorkspaceAccess(req: Request, res: Response, next:
       return next();
     }
 
-    const session = await query<{
-      user_id: string; email: string; name: string; platform_role: string;
-    }>(`
-      SELECT us.user_id, u.email, u.name, u.role as platform_role
-      FROM user_sessions us
-      JOIN users u ON u.id = us.user_id
-      WHERE us.token = $1 AND us.expires_at > now()
-    `, [token]);
-
-    if (session.rows.length === 0) {
+    const user = await lookupSessionUser(token);
+    if (!user) {
       res.status(401).json({ error: 'Invalid or expired token' });
       return;
     }
 
-    const user = session.rows[0];
-
     if (!workspaceId) {
       req.user = user;
       req.authMethod = 'session';
@@ -188,6 +201,49 @@ export async function requireWorkspaceAccess(req: Request, res: Response, next:
   }
 }
 
+async function authorizeScopedKey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string,
+  workspaceId: string | undefined
+): Promise<void> {
+  const key = await lookupApiKey(token);
+  if (!key) {
+    res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+    return;
+  }
+  if (!workspaceId || key.workspace.id !== workspaceId) {
+    res.status(403).json({ error: 'API key does not have access to this workspace' });
+    return;
+  }
+
+  const denial = checkApiKeyRequest(key, req.ip);
+  if (denial) {
+    if (denial.retryAfterSeconds) res.setHeader('Retry-After', String(denial.retryAfterSeconds));
+    res.status(denial.status).json({ error: denial.error });
+    return;
+  }
+
+  const required = requiredRouteScope(req.path, req.method);
+  if (!required) {
+    res.status(403).json({ error: 'This endpoint is not available to scoped API keys' });
+    return;
+  }
+  if (key.permissions[required] !== true) {
+    res.status(403).json({ error: 'Insufficient permissions', required });
+    return;
+  }
+
+  req.workspace = key.workspace;
+  req.authMethod = 'api_key';
+  req.apiKey = key;
+  req.userPermissions = key.permissions;
+  // Scopes never confer the admin role; admin-only routes stay session-only
+  req.userWorkspaceRole = 'member';
+  next();
+}
+
 export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
   const adminKey = process.env.PANDORA_ADMIN_KEY;
   if (!adminKey) {
@@ -213,7 +269,7 @@ const ROLE_LEVEL: Record<string, number> = { viewer: 0, member: 1, admin: 2 };
 
 export function requireRole(minimumRole: 'viewer' | 'member' | 'admin') {
   return (req: Request, res: Response, next: NextFunction) => {
-    if (req.authMethod === 'api_key') return next();
+    if (req.authMethod === 'api_key' && !req.apiKey) return next();
 
     const userRole = req.userWorkspaceRole;
     if (!userRole || (ROLE_LEVEL[userRole] ?? -1) < ROLE_LEVEL[minimumRole]) {
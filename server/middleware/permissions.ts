@@ -86,10 +86,13 @@ export async function getWorkspaceMember(
  */
 export function requirePermission(permission: keyof PermissionSet) {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    // API key auth carries full workspace admin access — bypass permission check entirely.
+    // The legacy workspace API key carries full admin access — bypass the check.
+    // Scoped keys are checked against their own scopes.
     // The workspace is already validated by requireWorkspaceAccess via the key itself.
     if (req.authMethod === 'api_key') {
-      return next();
+      if (!req.apiKey || req.apiKey.permissions[permission] === true) return next();
+      res.status(403).json({ error: 'Insufficient permissions', required: permission });
+      return;
     }
 
     const workspaceId = req.params.workspaceId as string;
@@ -171,9 +174,11 @@ export function requirePermission(permission: keyof PermissionSet) {
  */
 export function requireAnyPermission(...permissions: Array<keyof PermissionSet>) {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    // API key auth carries full workspace admin access — bypass permission check entirely.
+    // Legacy workspace API key carries full admin access; scoped keys use their scopes.
     if (req.authMethod === 'api_key') {
-      return next();
+      if (!req.apiKey || permissions.some(perm => req.apiKey!.permissions[perm] === true)) return next();
+      res.status(403).json({ error: 'Insufficient permissions', required_any: permissions });
+      return;
     }
 
     const workspaceId = req.params.workspaceId as string;
@@ -100,6 +100,8 @@ export async function attachWorkspaceContext(
 
         req.dataScope = getDataVisibilityScope(permissions);
       }
+    } else if (req.apiKey) {
+      req.dataScope = getDataVisibilityScope(req.apiKey.permissions);
     }
 
     next();
@@ -27,7 +27,7 @@ export const FEATURE_FLAG_REGISTRY: Record<string, FlagDefinition> = {
   // Pro plan features
   'feature.conversation_intelligence': {
     plans: ['pro', 'enterprise'],
-    requires_connector: ['gong', 'fireflies'],
+    requires_connector: ['gong', 'fireflies', 'zoom', 'chorus'],
   },
   'feature.pipeline_waterfall': { plans: ['pro', 'enterprise'] },
   'feature.monte_carlo_forecasting': { plans: ['pro', 'enterprise'] },
@@ -0,0 +1,161 @@
+/**
+ * Products & Deal Line Items
+ *
+ * Normalized storage for CRM product catalogs and deal line items. Connectors
+ * map their objects (HubSpot products/line_items, Salesforce Product2 /
+ * OpportunityLineItem) onto these inputs; a deal's line items are replaced as
+ * a set on every sync so deleted line items disappear.
+ */
+
+import { query } from '../db.js';
+
+export type LineItemSource = 'hubspot' | 'salesforce';
+
+export interface ProductInput {
+  source_id: string;
+  name: string;
+  sku?: string | null;
+  family?: string | null;
+  unit_price?: number | null;
+  is_active?: boolean;
+  source_data?: Record<string, unknown>;
+}
+
+export interface LineItemInput {
+  source_id: string;
+  deal_source_id: string;
+  product_source_id?: string | null;
+  name: string;
+  sku?: string | null;
+  quantity?: number | null;
+  unit_price?: number | null;
+  list_price?: number | null;
+  discount_percent?: number | null;
+  amount?: number | null;
+  source_data?: Record<string, unknown>;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Net line total: explicit amount, else quantity × unit price less discount
+ */
+export function lineItemAmount(item: Pick<LineItemInput, 'amount' | 'quantity' | 'unit_price' | 'discount_percent'>): number {
+  if (item.amount !== null && item.amount !== undefined) return item.amount;
+  const gross = (item.quantity ?? 1) * (item.unit_price ?? 0);
+  return gross * (1 - (item.discount_percent ?? 0) / 100);
+}
+
+export async function upsertProducts(
+  workspaceId: string,
+  source: LineItemSource,
+  products: ProductInput[]
+): Promise<number> {
+  for (let i = 0; i < products.length; i += INSERT_BATCH_SIZE) {
+    const batch = products.slice(i, i + INSERT_BATCH_SIZE);
+    const values: unknown[] = [workspaceId, source];
+    const rows = batch.map(p => {
+      values.push(p.source_id, p.name, p.sku ?? null, p.family ?? null, p.unit_price ?? null, p.is_active ?? true, JSON.stringify(p.source_data ?? {}));
+      const base = values.length - 7;
+      return `($1, $2, $${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}::jsonb)`;
+    });
+    await query(
+      `INSERT INTO products (workspace_id, source, source_id, name, sku, family, unit_price, is_active, source_data)
+       VALUES ${rows.join(', ')}
+       ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+         name = EXCLUDED.name,
+         sku = EXCLUDED.sku,
+         family = EXCLUDED.family,
+         unit_price = EXCLUDED.unit_price,
+         is_active = EXCLUDED.is_active,
+         source_data = EXCLUDED.source_data,
+         updated_at = NOW()`,
+      values
+    );
+  }
+  return products.length;
+}
+
+/**
+ * Replace line items on the given source deals. Deals not yet synced are
+ * skipped; returns the number of line items stored.
+ */
+export async function replaceDealLineItems(
+  workspaceId: string,
+  source: LineItemSource,
+  dealSourceIds: string[],
+  items: LineItemInput[]
+): Promise<number> {
+  if (dealSourceIds.length === 0) return 0;
+
+  const deals = await query<{ id: string; source_id: string }>(
+    `SELECT id, source_id FROM deals WHERE workspace_id = $1 AND source = $2 AND source_id = ANY($3)`,
+    [workspaceId, source, dealSourceIds]
+  );
+  const dealIdBySource = new Map(deals.rows.map(d => [d.source_id, d.id]));
+  if (dealIdBySource.size === 0) return 0;
+
+  const productSourceIds = [...new Set(items.map(i => i.product_source_id).filter((id): id is string => !!id))];
+  const products = productSourceIds.length > 0
+    ? await query<{ id: string; source_id: string }>(
+        `SELECT id, source_id FROM products WHERE workspace_id = $1 AND source = $2 AND source_id = ANY($3)`,
+        [workspaceId, source, productSourceIds]
+      )
+    : { rows: [] as Array<{ id: string; source_id: string }> };
+  const productIdBySource = new Map(products.rows.map(p => [p.source_id, p.id]));
+
+  await query(
+    `DELETE FROM deal_line_items WHERE workspace_id = $1 AND source = $2 AND deal_id = ANY($3)`,
+    [workspaceId, source, [...dealIdBySource.values()]]
+  );
+
+  const storable = items.filter(i => dealIdBySource.has(i.deal_source_id));
+  for (let i = 0; i < storable.length; i += INSERT_BATCH_SIZE) {
+    const batch = storable.slice(i, i + INSERT_BATCH_SIZE);
+    const values: unknown[] = [workspaceId, source];
+    const rows = batch.map(item => {
+      values.push(
+        dealIdBySource.get(item.deal_source_id),
+        item.product_source_id ? productIdBySource.get(item.product_source_id) ?? null : null,
+        item.source_id,
+        item.name,
+        item.sku ?? null,
+        item.quantity ?? 1,
+        item.unit_price ?? null,
+        item.list_price ?? null,
+        item.discount_percent ?? null,
+        lineItemAmount(item),
+        JSON.stringify(item.source_data ?? {}),
+      );
+      const base = values.length - 11;
+      const params = Array.from({ length: 11 }, (_, k) => `$${base + k + 1}`);
+      params[10] += '::jsonb';
+      return `($1, $2, ${params.join(', ')})`;
+    });
+    await query(
+      `INSERT INTO deal_line_items
+         (workspace_id, source, deal_id, product_id, source_id, name, sku, quantity, unit_price, list_price, discount_percent, amount, source_data)
+       VALUES ${rows.join(', ')}
+       ON CONFLICT (workspace_id, source, source_id) DO UPDATE SET
+         deal_id = EXCLUDED.deal_id,
+         product_id = EXCLUDED.product_id,
+         name = EXCLUDED.name,
+         sku = EXCLUDED.sku,
+         quantity = EXCLUDED.quantity,
+         unit_price = EXCLUDED.unit_price,
+         list_price = EXCLUDED.list_price,
+         discount_percent = EXCLUDED.discount_percent,
+         amount = EXCLUDED.amount,
+         source_data = EXCLUDED.source_data,
+         updated_at = NOW()`,
+      values
+    );
+  }
+  return storable.length;
+}
@@ -11,12 +11,14 @@ import type { AssembledFinding, DeliveryRuleRow } from './finding-assembler.js';
 import { formatSlackPayload } from './formatters/slack-push-formatter.js';
 import { formatEmailHtml, formatEmailSubject } from './formatters/email-push-formatter.js';
 import { formatWebhookPayload, signPayload } from './formatters/webhook-formatter.js';
+import { formatTeamsPayload } from './formatters/teams-push-formatter.js';
+import { postCardToTeams, wrapCardMessage } from '../connectors/teams/client.js';
 
 export interface DeliveryChannelRow {
   id: string;
   workspace_id: string;
   name: string;
-  channel_type: 'slack' | 'email' | 'webhook';
+  channel_type: 'slack' | 'teams' | 'email' | 'webhook';
   config: Record<string, any>;
   is_active: boolean;
   verified_at: string | null;
@@ -204,6 +206,12 @@ export async function executeDelivery(
         await postToSlack(channel.config.webhook_url, payload);
         break;
       }
+      case 'teams': {
+        const card = formatTeamsPayload(findings, rule.template, workspaceName, rule.name, skillIds);
+        payloadPreview = JSON.stringify(wrapCardMessage(card));
+        await postCardToTeams(channel.config.webhook_url, card);
+        break;
+      }
       case 'email': {
         const html = formatEmailHtml(findings, workspaceName, rule.name);
         const subject = formatEmailSubject(workspaceName, rule.name, findings);
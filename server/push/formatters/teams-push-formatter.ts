@@ -0,0 +1,101 @@
+/**
+ * Push API — Microsoft Teams Formatter
+ * Builds Adaptive Cards for standard digest and single-deal alert templates.
+ * Mirrors slack-push-formatter.ts block for block.
+ */
+
+import type { AssembledFinding } from '../finding-assembler.js';
+import {
+  buildAdaptiveCard,
+  cardHeading,
+  cardText,
+  cardContext,
+  cardFacts,
+  type AdaptiveCard,
+  type AdaptiveCardElement,
+} from '../../connectors/teams/client.js';
+
+function severityIcon(severity: string): string {
+  switch (severity) {
+    case 'act': return '🔴';
+    case 'watch': return '🟡';
+    case 'notable': return '🔵';
+    case 'info': return '⬜';
+    default: return '⬜';
+  }
+}
+
+function headerIcon(findings: AssembledFinding[]): string {
+  if (findings.some(f => f.severity === 'act')) return '🔴';
+  if (findings.some(f => f.severity === 'watch' || f.severity === 'notable')) return '🟡';
+  return '🔵';
+}
+
+export function formatStandardTeams(
+  findings: AssembledFinding[],
+  workspaceName: string,
+  ruleName: string,
+  skillIds: string[]
+): AdaptiveCard {
+  const icon = headerIcon(findings);
+  const date = new Date().toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  const body: AdaptiveCardElement[] = [
+    cardHeading(`${icon} Pandora Alert — ${workspaceName} · ${date}`),
+  ];
+
+  const shown = findings.slice(0, 20);
+
+  for (const f of shown) {
+    const dealInfo = [
+      f.deal_name,
+      f.deal_amount !== null ? `$${Math.round(f.deal_amount).toLocaleString()}` : null,
+      f.deal_owner,
+      f.ai_score !== null ? `Score: ${f.ai_score}` : null,
+    ].filter(Boolean).join(' · ');
+
+    body.push(cardText(`${severityIcon(f.severity)} **${f.category.replace(/_/g, ' ')}**`, true));
+    body.push(cardText(f.message));
+    if (dealInfo) body.push(cardContext(`_${dealInfo}_`));
+  }
+
+  // Footer
+  const skillList = skillIds.length > 0 ? skillIds.join(', ') : 'all skills';
+  const footer = cardContext(
+    `From: ${skillList} · ${findings.length} finding${findings.length !== 1 ? 's' : ''} · ${new Date().toISOString()}`
+  );
+  footer.separator = true;
+  body.push(footer);
+
+  return buildAdaptiveCard(body);
+}
+
+export function formatAlertTeams(
+  finding: AssembledFinding,
+  workspaceName: string
+): AdaptiveCard {
+  return buildAdaptiveCard([
+    cardHeading(`⚠️ Deal Risk Alert — ${finding.deal_name || 'Unknown Deal'}`),
+    cardFacts([
+      { title: 'Amount', value: finding.deal_amount !== null ? '$' + Math.round(finding.deal_amount).toLocaleString() : 'N/A' },
+      { title: 'Owner', value: finding.deal_owner || 'N/A' },
+      { title: 'AI Score', value: finding.ai_score !== null ? finding.ai_score + '/100' : 'N/A' },
+      { title: 'Category', value: finding.category.replace(/_/g, ' ') },
+    ]),
+    cardText(finding.message),
+    cardContext(`Workspace: ${workspaceName} · ${new Date().toISOString()}`),
+  ]);
+}
+
+export function formatTeamsPayload(
+  findings: AssembledFinding[],
+  template: string,
+  workspaceName: string,
+  ruleName: string,
+  skillIds: string[]
+): AdaptiveCard {
+  if (template === 'alert' && findings.length > 0) {
+    return formatAlertTeams(findings[0], workspaceName);
+  }
+  return formatStandardTeams(findings, workspaceName, ruleName, skillIds);
+}
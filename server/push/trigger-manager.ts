@@ -9,10 +9,11 @@
  * All delivery is fire-and-forget — trigger failures never throw.
  */
 
-import cron, { type ScheduledTask } from 'node-cron';
+import cron from 'node-cron';
 import { query } from '../db.js';
 import { assembleFindingsForRule, type DeliveryRuleRow } from './finding-assembler.js';
 import { executeDelivery, type DeliveryChannelRow } from './delivery-executor.js';
+import { scheduleJob, type ClusterJob } from '../scheduling/cluster-scheduler.js';
 
 // ─── Shared helpers ───────────────────────────────────────────────────────────
 
@@ -89,8 +90,8 @@ async function fireRule(rule: DeliveryRuleRow, triggeredBy: string): Promise<voi
  * Called at startup. Loads all active cron-triggered rules from DB
  * and schedules them with node-cron. Re-run to reload after rule changes.
  */
-export async function startCronTriggers(): Promise<ScheduledTask[]> {
-  const tasks: ScheduledTask[] = [];
+export async function startCronTriggers(): Promise<ClusterJob[]> {
+  const tasks: ClusterJob[] = [];
   try {
     const rules = await getActiveRules({ trigger_type: 'cron' });
     for (const rule of rules) {
@@ -100,10 +101,10 @@ export async function startCronTriggers(): Promise<ScheduledTask[]> {
         continue;
       }
       const timezone = rule.trigger_config?.timezone || 'UTC';
-      const task = cron.schedule(schedule, async () => {
+      const task = scheduleJob(`push-rule:${rule.id}`, schedule, async () => {
         console.log(`[PushAPI] Cron trigger fired for rule "${rule.name}"`);
         await fireRule(rule, 'cron');
-      }, { timezone });
+      }, { timezone, workspaceId: rule.workspace_id, description: `Push rule "${rule.name}"` });
       tasks.push(task);
       console.log(`[PushAPI] Cron rule scheduled: "${rule.name}" @ ${schedule} (${timezone})`);
     }
@@ -142,8 +143,8 @@ export function onSkillRunCompleted(workspaceId: string, skillId: string, runId:
  * Polls every 15 minutes. Fires rules when new deals breach their threshold
  * condition since last_triggered_at. Only fires on NEW breaches.
  */
-export function startThresholdPoller(): ScheduledTask {
-  const task = cron.schedule('*/15 * * * *', async () => {
+export function startThresholdPoller(): ClusterJob {
+  const task = scheduleJob('push:threshold-poller', '*/15 * * * *', async () => {
     try {
       const rules = await getActiveRules({ trigger_type: 'threshold' });
       for (const rule of rules) {
@@ -199,8 +200,8 @@ async function evaluateThresholdRule(rule: DeliveryRuleRow): Promise<void> {
 
 // ─── Global state ─────────────────────────────────────────────────────────────
 
-let cronTasks: ScheduledTask[] = [];
-let thresholdTask: ScheduledTask | null = null;
+let cronTasks: ClusterJob[] = [];
+let thresholdTask: ClusterJob | null = null;
 
 export async function startPushTriggers(): Promise<void> {
   cronTasks = await startCronTriggers();
@@ -0,0 +1,105 @@
+/**
+ * Tests for deal split validation, crediting scope and simulated rep credit
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { query } from '../../db.js';
+import {
+  DEFAULT_CREDITING_RULES,
+  DealSplitValidationError,
+  attainmentSplitTypes,
+  resolveCreditScope,
+  validateSplits,
+} from '../deal-splits.js';
+import { runSimulation, type SimulationInputs } from '../../analysis/monte-carlo-engine.js';
+
+const mockQuery = vi.mocked(query);
+
+describe('validateSplits', () => {
+  it('requires revenue splits to total 100% and allows additive overlays', () => {
+    expect(() => validateSplits([
+      { rep: 'ae@acme.com', split_type: 'revenue', split_percent: 70 },
+      { rep: 'se@acme.com', split_type: 'revenue', split_percent: 30 },
+      { rep: 'overlay@acme.com', split_type: 'overlay', split_percent: 100 },
+    ])).not.toThrow();
+
+    expect(() => validateSplits([
+      { rep: 'ae@acme.com', split_type: 'revenue', split_percent: 70 },
+    ])).toThrow(DealSplitValidationError);
+  });
+
+  it('rejects duplicate reps per split type and out-of-range percents', () => {
+    expect(() => validateSplits([
+      { rep: 'AE@acme.com', split_type: 'overlay', split_percent: 50 },
+      { rep: 'ae@acme.com', split_type: 'overlay', split_percent: 50 },
+    ])).toThrow(/Duplicate/);
+    expect(() => validateSplits([{ rep: 'ae@acme.com', split_type: 'overlay', split_percent: 0 }])).toThrow();
+  });
+});
+
+describe('resolveCreditScope', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('excludes overlays from attainment when the rules say so', () => {
+    expect(attainmentSplitTypes(DEFAULT_CREDITING_RULES)).toEqual(['revenue', 'overlay']);
+    expect(attainmentSplitTypes({ ...DEFAULT_CREDITING_RULES, overlay_in_rep_attainment: false })).toEqual(['revenue']);
+  });
+
+  it('adds direct and indirect reports when manager roll-up is on', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        { id: 'vp', rep_name: 'Vera', rep_email: 'vera@acme.com', manager_rep_id: null },
+        { id: 'mgr', rep_name: 'Max', rep_email: 'max@acme.com', manager_rep_id: 'vp' },
+        { id: 'ae', rep_name: 'Ana', rep_email: 'ana@acme.com', manager_rep_id: 'mgr' },
+      ],
+    } as any);
+
+    const scope = await resolveCreditScope('ws', 'Max@acme.com', { ...DEFAULT_CREDITING_RULES, manager_rollup: true });
+    expect(scope.reps.sort()).toEqual(['ana', 'ana@acme.com', 'max@acme.com']);
+
+    const flat = await resolveCreditScope('ws', 'max@acme.com', DEFAULT_CREDITING_RULES);
+    expect(flat.reps).toEqual(['max@acme.com']);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Monte Carlo rep credit', () => {
+  it('attributes simulated wins by revenue share instead of 100% to the owner', () => {
+    const inputs: SimulationInputs = {
+      openDeals: [{
+        id: 'd1',
+        name: 'Split deal',
+        amount: 100000,
+        stageNormalized: 'negotiation',
+        closeDate: new Date('2026-11-01'),
+        ownerEmail: 'ae@acme.com',
+        probability: 0.9,
+        credits: [{ rep: 'ae@acme.com', share: 0.6 }, { rep: 'se@acme.com', share: 0.4 }],
+      }],
+      distributions: {
+        stageCurves: null,
+        survivalCurve: { steps: [], terminalWinRate: 0, isReliable: false },
+        slippage: { negotiation: { mean: 0, sigma: 0 } },
+        dealSize: { mu: Math.log(100000), sigma: 0 },
+        cycleLength: { mu: Math.log(60), sigma: 0.1 },
+        pipelineRates: {},
+      } as any,
+      riskAdjustments: {},
+      forecastWindowEnd: new Date('2026-12-31'),
+      today: new Date('2026-10-19'),
+      iterations: 200,
+      storeIterations: true,
+    };
+
+    // Empty curve falls back to the 5% win-probability floor
+    const won = (runSimulation(inputs, null).iterations ?? []).filter(r => r.dealsWon.includes('d1'));
+    expect(won.length).toBeGreaterThan(0);
+    for (const record of won) {
+      expect(record.byRep['ae@acme.com']).toBeCloseTo(record.existing * 0.6);
+      expect(record.byRep['se@acme.com']).toBeCloseTo(record.existing * 0.4);
+    }
+  });
+});
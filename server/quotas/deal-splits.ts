@@ -0,0 +1,495 @@
+/**
+ * Deal Splits & Revenue Crediting
+ *
+ * Stores per-deal revenue/overlay splits (CRM-synced or uploaded) and the
+ * workspace crediting rules that decide which credit lines count toward a
+ * rep's attainment. Read side goes through the deal_credits view, which
+ * credits the owner with 100% revenue when a deal has no revenue splits.
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../db.js';
+
+export type SplitType = 'revenue' | 'overlay';
+export type SplitSource = 'salesforce' | 'hubspot' | 'upload' | 'manual';
+
+export interface DealSplitInput {
+  rep: string;
+  rep_email?: string | null;
+  split_type: SplitType;
+  split_percent: number;
+  source_ref?: string | null;
+}
+
+export interface DealSplit extends DealSplitInput {
+  id: string;
+  deal_id: string;
+  source: SplitSource;
+  updated_at: string;
+}
+
+export interface CreditingRules {
+  /** Overlay splits count toward the overlay rep's own attainment (never toward team totals) */
+  overlay_in_rep_attainment: boolean;
+  /** Managers are credited with everything credited to their reports (sales_reps.manager_rep_id) */
+  manager_rollup: boolean;
+  /** Overlay percent given to HubSpot deal collaborators, which carry no split percentage */
+  collaborator_overlay_percent: number;
+}
+
+export const DEFAULT_CREDITING_RULES: CreditingRules = {
+  overlay_in_rep_attainment: true,
+  manager_rollup: false,
+  collaborator_overlay_percent: 100,
+};
+
+const CREDITING_SETTINGS_KEY = 'deal_crediting';
+
+export class DealSplitValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DealSplitValidationError';
+  }
+}
+
+// ============================================================================
+// Crediting rules
+// ============================================================================
+
+export async function getCreditingRules(workspaceId: string): Promise<CreditingRules> {
+  const result = await query<{ value: string }>(
+    `SELECT value FROM workspace_settings WHERE workspace_id = $1 AND key = $2`,
+    [workspaceId, CREDITING_SETTINGS_KEY]
+  );
+  if (!result.rows[0]) return { ...DEFAULT_CREDITING_RULES };
+  try {
+    return { ...DEFAULT_CREDITING_RULES, ...JSON.parse(result.rows[0].value) };
+  } catch {
+    return { ...DEFAULT_CREDITING_RULES };
+  }
+}
+
+export async function saveCreditingRules(
+  workspaceId: string,
+  patch: Partial<CreditingRules>
+): Promise<CreditingRules> {
+  const rules = { ...(await getCreditingRules(workspaceId)) };
+  if (patch.overlay_in_rep_attainment !== undefined) {
+    rules.overlay_in_rep_attainment = Boolean(patch.overlay_in_rep_attainment);
+  }
+  if (patch.manager_rollup !== undefined) {
+    rules.manager_rollup = Boolean(patch.manager_rollup);
+  }
+  if (patch.collaborator_overlay_percent !== undefined) {
+    const pct = Number(patch.collaborator_overlay_percent);
+    if (!Number.isFinite(pct) || pct <= 0 || pct > 100) {
+      throw new DealSplitValidationError('collaborator_overlay_percent must be between 0 and 100');
+    }
+    rules.collaborator_overlay_percent = pct;
+  }
+
+  await query(
+    `INSERT INTO workspace_settings (workspace_id, key, value)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (workspace_id, key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+    [workspaceId, CREDITING_SETTINGS_KEY, JSON.stringify(rules)]
+  );
+  return rules;
+}
+
+/** Split types that count toward an individual rep's attainment */
+export function attainmentSplitTypes(rules: CreditingRules): SplitType[] {
+  return rules.overlay_in_rep_attainment ? ['revenue', 'overlay'] : ['revenue'];
+}
+
+// ============================================================================
+// Credited amounts
+// ============================================================================
+
+/**
+ * Per-deal credit share for a set of reps, for joining onto deals:
+ *   JOIN ${creditShareSubquery('$1', '$5', '$6')} cs ON cs.deal_id = d.id
+ * then credit d.amount * cs.credit_share. Reps are matched case-insensitively
+ * on name or email (pass lowercased keys). A deal is never credited more than
+ * once to the same set, even when a manager roll-up includes owner and overlay.
+ */
+export function creditShareSubquery(workspaceParam: string, repsParam: string, typesParam: string): string {
+  return `(SELECT deal_id, LEAST(SUM(split_percent), 100) / 100.0 AS credit_share
+     FROM deal_credits
+     WHERE workspace_id = ${workspaceParam}
+       AND (LOWER(rep) = ANY(${repsParam}::text[]) OR LOWER(rep_email) = ANY(${repsParam}::text[]))
+       AND split_type = ANY(${typesParam}::text[])
+     GROUP BY deal_id)`;
+}
+
+/**
+ * Per-(deal, rep) credit share for rep breakdowns:
+ *   JOIN ${repCreditSubquery('$1', '$5')} rc ON rc.deal_id = d.id ... GROUP BY rc.rep
+ * rc.rep_email is the rep's email when the CRM provided one.
+ */
+export function repCreditSubquery(workspaceParam: string, typesParam: string): string {
+  return `(SELECT deal_id, rep, MAX(rep_email) AS rep_email, LEAST(SUM(split_percent), 100) / 100.0 AS credit_share
+     FROM deal_credits
+     WHERE workspace_id = ${workspaceParam}
+       AND split_type = ANY(${typesParam}::text[])
+     GROUP BY deal_id, rep)`;
+}
+
+export interface ManagerScope {
+  manager: string;
+  /** Lowercased name/email of the manager */
+  keys: string[];
+  /** Lowercased name/email of all direct and indirect reports */
+  reports: string[];
+}
+
+/**
+ * Managers and their full reporting lines from sales_reps.manager_rep_id,
+ * keyed by name and email so either deal owner format matches
+ */
+export async function loadReportingTree(workspaceId: string): Promise<ManagerScope[]> {
+  const result = await query<{ id: string; rep_name: string; rep_email: string | null; manager_rep_id: string | null }>(
+    `SELECT id, rep_name, rep_email, manager_rep_id FROM sales_reps WHERE workspace_id = $1`,
+    [workspaceId]
+  );
+
+  const keysById = new Map(result.rows.map(r => [
+    r.id,
+    [r.rep_name, r.rep_email].filter((k): k is string => !!k).map(k => k.toLowerCase()),
+  ]));
+  const directReports = new Map<string, string[]>();
+  for (const r of result.rows) {
+    if (!r.manager_rep_id) continue;
+    directReports.set(r.manager_rep_id, [...(directReports.get(r.manager_rep_id) ?? []), r.id]);
+  }
+
+  const scopes: ManagerScope[] = [];
+  for (const manager of result.rows) {
+    if (!directReports.has(manager.id)) continue;
+    const reports = new Set<string>();
+    const seen = new Set<string>([manager.id]);
+    const stack = [...directReports.get(manager.id)!];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      keysById.get(id)?.forEach(k => reports.add(k));
+      stack.push(...(directReports.get(id) ?? []));
+    }
+    scopes.push({ manager: manager.rep_name, keys: keysById.get(manager.id) ?? [], reports: [...reports] });
+  }
+  return scopes;
+}
+
+/**
+ * Lowercased rep keys and split types to credit for one rep under the
+ * workspace rules (adds reports' keys when manager roll-up is on)
+ */
+export async function resolveCreditScope(
+  workspaceId: string,
+  rep: string | string[],
+  rules?: CreditingRules
+): Promise<{ reps: string[]; splitTypes: SplitType[] }> {
+  const effective = rules ?? await getCreditingRules(workspaceId);
+  const keys = new Set((Array.isArray(rep) ? rep : [rep]).filter(Boolean).map(r => r.toLowerCase()));
+  if (effective.manager_rollup) {
+    for (const scope of await loadReportingTree(workspaceId)) {
+      if (scope.keys.some(k => keys.has(k))) scope.reports.forEach(k => keys.add(k));
+    }
+  }
+  return { reps: [...keys], splitTypes: attainmentSplitTypes(effective) };
+}
+
+/**
+ * Credit lines for specific deals, e.g. to attribute simulated wins
+ */
+export async function loadDealCredits(
+  workspaceId: string,
+  dealIds: string[],
+  splitTypes: SplitType[] = ['revenue']
+): Promise<Map<string, Array<{ rep: string; share: number }>>> {
+  const credits = new Map<string, Array<{ rep: string; share: number }>>();
+  if (dealIds.length === 0) return credits;
+
+  const result = await query<{ deal_id: string; rep: string; share: number }>(
+    `SELECT deal_id, rep, (SUM(split_percent) / 100.0)::float AS share
+     FROM deal_credits
+     WHERE workspace_id = $1 AND deal_id = ANY($2) AND split_type = ANY($3::text[])
+     GROUP BY deal_id, rep`,
+    [workspaceId, dealIds, splitTypes]
+  );
+  for (const row of result.rows) {
+    credits.set(row.deal_id, [...(credits.get(row.deal_id) ?? []), { rep: row.rep, share: row.share }]);
+  }
+  return credits;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export function validateSplits(splits: DealSplitInput[]): void {
+  const seen = new Set<string>();
+  let revenueTotal = 0;
+  for (const split of splits) {
+    if (!split.rep?.trim()) throw new DealSplitValidationError('Each split needs a rep');
+    if (split.split_type !== 'revenue' && split.split_type !== 'overlay') {
+      throw new DealSplitValidationError(`Invalid split_type: ${split.split_type}`);
+    }
+    const pct = Number(split.split_percent);
+    if (!Number.isFinite(pct) || pct <= 0 || pct > 100) {
+      throw new DealSplitValidationError(`split_percent for ${split.rep} must be between 0 and 100`);
+    }
+    const key = `${split.rep.trim().toLowerCase()}|${split.split_type}`;
+    if (seen.has(key)) throw new DealSplitValidationError(`Duplicate ${split.split_type} split for ${split.rep}`);
+    seen.add(key);
+    if (split.split_type === 'revenue') revenueTotal += pct;
+  }
+  if (revenueTotal > 0 && Math.abs(revenueTotal - 100) > 0.01) {
+    throw new DealSplitValidationError(`Revenue splits must total 100% (got ${revenueTotal}%)`);
+  }
+}
+
+async function insertSplits(
+  workspaceId: string,
+  dealId: string,
+  source: SplitSource,
+  splits: DealSplitInput[]
+): Promise<void> {
+  for (const split of splits) {
+    await query(
+      `INSERT INTO deal_splits (workspace_id, deal_id, rep, rep_email, split_type, split_percent, source, source_ref)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (deal_id, rep, split_type) DO UPDATE SET
+         rep_email = EXCLUDED.rep_email,
+         split_percent = EXCLUDED.split_percent,
+         source = EXCLUDED.source,
+         source_ref = EXCLUDED.source_ref,
+         updated_at = NOW()`,
+      [workspaceId, dealId, split.rep.trim(), split.rep_email || null, split.split_type, split.split_percent, source, split.source_ref || null]
+    );
+  }
+}
+
+export async function listDealSplits(workspaceId: string, dealId: string): Promise<DealSplit[]> {
+  const result = await query<DealSplit>(
+    `SELECT id, deal_id, rep, rep_email, split_type, split_percent::float AS split_percent, source, source_ref, updated_at
+     FROM deal_splits
+     WHERE workspace_id = $1 AND deal_id = $2
+     ORDER BY split_type DESC, split_percent DESC, rep`,
+    [workspaceId, dealId]
+  );
+  return result.rows;
+}
+
+/**
+ * Replace a deal's splits with an uploaded/manual set. These take precedence
+ * over CRM-synced splits, which stop syncing for the deal until cleared.
+ */
+export async function setDealSplits(
+  workspaceId: string,
+  dealId: string,
+  splits: DealSplitInput[],
+  source: 'upload' | 'manual' = 'manual'
+): Promise<void> {
+  validateSplits(splits);
+  const deal = await query(`SELECT id FROM deals WHERE workspace_id = $1 AND id = $2`, [workspaceId, dealId]);
+  if (deal.rows.length === 0) throw new DealSplitValidationError('Deal not found');
+
+  await query(`DELETE FROM deal_splits WHERE workspace_id = $1 AND deal_id = $2`, [workspaceId, dealId]);
+  await insertSplits(workspaceId, dealId, source, splits);
+}
+
+/**
+ * Replace CRM-synced splits for the given source deals. Deals carrying
+ * uploaded or manual splits are left alone. Returns the number of splits stored.
+ */
+export async function replaceCrmDealSplits(
+  workspaceId: string,
+  source: 'salesforce' | 'hubspot',
+  dealSourceIds: string[],
+  splits: Array<DealSplitInput & { deal_source_id: string }>
+): Promise<number> {
+  if (dealSourceIds.length === 0) return 0;
+
+  const deals = await query<{ id: string; source_id: string; overridden: boolean }>(
+    `SELECT d.id, d.source_id,
+            EXISTS (SELECT 1 FROM deal_splits s WHERE s.deal_id = d.id AND s.source IN ('upload', 'manual')) AS overridden
+     FROM deals d
+     WHERE d.workspace_id = $1 AND d.source = $2 AND d.source_id = ANY($3)`,
+    [workspaceId, source, dealSourceIds]
+  );
+  const dealIdBySource = new Map(deals.rows.filter(d => !d.overridden).map(d => [d.source_id, d.id]));
+  if (dealIdBySource.size === 0) return 0;
+
+  await query(
+    `DELETE FROM deal_splits WHERE workspace_id = $1 AND source = $2 AND deal_id = ANY($3)`,
+    [workspaceId, source, [...dealIdBySource.values()]]
+  );
+
+  const byDeal = new Map<string, DealSplitInput[]>();
+  for (const split of splits) {
+    const dealId = dealIdBySource.get(split.deal_source_id);
+    if (!dealId) continue;
+    byDeal.set(dealId, [...(byDeal.get(dealId) ?? []), split]);
+  }
+
+  let stored = 0;
+  for (const [dealId, dealSplits] of byDeal) {
+    await insertSplits(workspaceId, dealId, source, dealSplits);
+    stored += dealSplits.length;
+  }
+  return stored;
+}
+
+// ============================================================================
+// Upload (quota importer)
+// ============================================================================
+
+export interface SplitUploadRow {
+  row: number;
+  deal_ref: string;
+  deal_id: string | null;
+  deal_name: string | null;
+  rep: string;
+  rep_email: string | null;
+  split_type: SplitType;
+  split_percent: number;
+}
+
+export interface SplitUploadPreview {
+  rows: SplitUploadRow[];
+  unmatched: Array<{ row: number; deal_ref: string }>;
+  errors: Array<{ deal_ref: string; error: string }>;
+  deal_count: number;
+}
+
+const SPLIT_COLUMN_PATTERNS: Record<'deal' | 'rep' | 'rep_email' | 'percent' | 'type', RegExp> = {
+  deal: /^(deal|opportunity|opp)([ _]?(id|name))?$|^crm[ _]?id$/i,
+  rep_email: /e-?mail/i,
+  rep: /^(rep|owner|split owner|team member|seller)([ _]?name)?$/i,
+  percent: /percent|pct|%|share/i,
+  type: /type|role/i,
+};
+
+/**
+ * Parse a split sheet: one row per (deal, rep) with deal id/name, rep,
+ * optional email, percent, and optional type (revenue | overlay).
+ */
+export async function parseSplitUpload(
+  workspaceId: string,
+  buffer: Buffer,
+  filename: string
+): Promise<SplitUploadPreview> {
+  if (!/\.(xlsx|xls|csv)$/i.test(filename)) {
+    throw new DealSplitValidationError('Unsupported file type. Please upload .xlsx, .xls, or .csv files.');
+  }
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rawRows: any[][] = sheet ? XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' }) : [];
+  if (rawRows.length < 2) throw new DealSplitValidationError('Sheet needs a header row and at least one split');
+
+  const headers = rawRows[0].map((h: any) => String(h).trim());
+  const column = (key: keyof typeof SPLIT_COLUMN_PATTERNS) => headers.findIndex(h => SPLIT_COLUMN_PATTERNS[key].test(h));
+  const dealCol = column('deal');
+  const emailCol = column('rep_email');
+  const repCol = headers.findIndex((h, i) => i !== emailCol && SPLIT_COLUMN_PATTERNS.rep.test(h));
+  const pctCol = column('percent');
+  const typeCol = column('type');
+  if (dealCol < 0 || (repCol < 0 && emailCol < 0) || pctCol < 0) {
+    throw new DealSplitValidationError('Could not find deal, rep and percent columns');
+  }
+
+  const parsed = rawRows.slice(1)
+    .map((r, i) => ({
+      row: i + 2,
+      deal_ref: String(r[dealCol] ?? '').trim(),
+      rep: String((repCol >= 0 ? r[repCol] : '') || (emailCol >= 0 ? r[emailCol] : '')).trim(),
+      rep_email: emailCol >= 0 ? String(r[emailCol] ?? '').trim().toLowerCase() || null : null,
+      split_type: (typeCol >= 0 && /overlay/i.test(String(r[typeCol])) ? 'overlay' : 'revenue') as SplitType,
+      // Accept 50, "50%" or 0.5
+      split_percent: (() => {
+        const n = parseFloat(String(r[pctCol]).replace('%', ''));
+        return n > 0 && n <= 1 ? n * 100 : n;
+      })(),
+    }))
+    .filter(r => r.deal_ref && r.rep);
+
+  const refs = [...new Set(parsed.map(r => r.deal_ref))];
+  const dealResult = await query<{ id: string; name: string; source_id: string }>(
+    `SELECT id, name, source_id FROM deals
+     WHERE workspace_id = $1
+       AND (id::text = ANY($2) OR source_id = ANY($2) OR LOWER(name) = ANY($3))`,
+    [workspaceId, refs, refs.map(r => r.toLowerCase())]
+  );
+  const byRef = new Map<string, { id: string; name: string }>();
+  for (const d of dealResult.rows) {
+    byRef.set(d.id, d);
+    if (d.source_id) byRef.set(d.source_id, d);
+    if (d.name) byRef.set(d.name.toLowerCase(), d);
+  }
+
+  const rows: SplitUploadRow[] = [];
+  const unmatched: SplitUploadPreview['unmatched'] = [];
+  for (const r of parsed) {
+    const deal = byRef.get(r.deal_ref) ?? byRef.get(r.deal_ref.toLowerCase());
+    if (!deal) {
+      unmatched.push({ row: r.row, deal_ref: r.deal_ref });
+      continue;
+    }
+    rows.push({ ...r, deal_id: deal.id, deal_name: deal.name });
+  }
+
+  const errors: SplitUploadPreview['errors'] = [];
+  const grouped = groupUploadRows(rows);
+  for (const [, group] of grouped) {
+    try {
+      validateSplits(group);
+    } catch (err) {
+      errors.push({ deal_ref: group[0].deal_ref, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { rows, unmatched, errors, deal_count: grouped.size };
+}
+
+function groupUploadRows(rows: SplitUploadRow[]): Map<string, SplitUploadRow[]> {
+  const grouped = new Map<string, SplitUploadRow[]>();
+  for (const r of rows) {
+    if (!r.deal_id) continue;
+    grouped.set(r.deal_id, [...(grouped.get(r.deal_id) ?? []), r]);
+  }
+  return grouped;
+}
+
+/**
+ * Apply previewed split rows; each deal's splits are replaced as a set
+ */
+export async function applySplitUpload(
+  workspaceId: string,
+  rows: SplitUploadRow[]
+): Promise<{ deals: number; splits: number; skipped: Array<{ deal_ref: string; error: string }>; batchId: string }> {
+  const batchId = uuidv4();
+  const skipped: Array<{ deal_ref: string; error: string }> = [];
+  let deals = 0;
+  let splits = 0;
+
+  for (const [dealId, group] of groupUploadRows(rows)) {
+    try {
+      await setDealSplits(
+        workspaceId,
+        dealId,
+        group.map(r => ({ rep: r.rep, rep_email: r.rep_email, split_type: r.split_type, split_percent: r.split_percent, source_ref: batchId })),
+        'upload'
+      );
+      deals++;
+      splits += group.length;
+    } catch (err) {
+      if (!(err instanceof DealSplitValidationError)) throw err;
+      skipped.push({ deal_ref: group[0].deal_ref, error: err.message });
+    }
+  }
+
+  return { deals, splits, skipped, batchId };
+}
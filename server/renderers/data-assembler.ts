@@ -9,6 +9,7 @@
  */
 
 import { query } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
 
 // ============================================================================
 // Types
@@ -24,7 +25,7 @@ export interface FindingSummary {
 }
 
 export interface PipelineReviewData {
-  workspace: { id: string; name: string; crm_type: string | null };
+  workspace: { id: string; name: string; crm_type: string | null; currency: string };
   generated_at: string;
   period_label: string;
   pipeline: {
@@ -86,7 +87,7 @@ export interface PipelineReviewData {
 }
 
 export interface ForecastData {
-  workspace: { id: string; name: string; crm_type: string | null };
+  workspace: { id: string; name: string; crm_type: string | null; currency: string };
   generated_at: string;
   period_label: string;
   forecast_by_stage: {
@@ -197,6 +198,7 @@ export async function assemblePipelineReview(
     [workspaceId]
   );
   const crm_type = crmResult.rows[0]?.connector_name || null;
+  const currency = await configLoader.getReportingCurrency(workspaceId);
 
   // 2. Pipeline by stage
   const stageRows = await query<{
@@ -391,7 +393,7 @@ export async function assemblePipelineReview(
   const act = actRows.rows[0];
 
   return {
-    workspace: { id: ws.id, name: ws.name, crm_type },
+    workspace: { id: ws.id, name: ws.name, crm_type, currency },
     generated_at: now.toISOString(),
     period_label: fmtPeriodLabel(periodStart, now),
     pipeline: {
@@ -453,6 +455,7 @@ export async function assembleForecast(
     [workspaceId]
   );
   const crm_type = crmResult.rows[0]?.connector_name || null;
+  const currency = await configLoader.getReportingCurrency(workspaceId);
 
   // Open deals with stage grouping
   const dealsRows = await query<{
@@ -577,7 +580,7 @@ export async function assembleForecast(
   const lostRow = outcomeRows.rows.find(r => r.outcome === 'closed_lost');
 
   return {
-    workspace: { id: ws.id, name: ws.name, crm_type },
+    workspace: { id: ws.id, name: ws.name, crm_type, currency },
     generated_at: now.toISOString(),
     period_label: periodLabel,
     forecast_by_stage,
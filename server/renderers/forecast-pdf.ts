@@ -14,6 +14,7 @@ import * as path from 'path';
 import * as os from 'os';
 import type { ForecastData } from './data-assembler.js';
 import type { BrandingConfig } from './types.js';
+import { currencySymbol } from '../utils/format-currency.js';
 
 // ── Layout constants ──────────────────────────────────────────────
 const PAGE_W = 792;
@@ -42,10 +43,11 @@ function fmtDate(d: string | null): string {
   } catch { return d; }
 }
 
-function fmtMoney(n: number): string {
-  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `$${Math.round(n / 1_000)}K`;
-  return `$${Math.round(n).toLocaleString()}`;
+function fmtMoney(n: number, currency: string): string {
+  const sym = currencySymbol(currency);
+  if (n >= 1_000_000) return `${sym}${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${sym}${Math.round(n / 1_000)}K`;
+  return `${sym}${Math.round(n).toLocaleString()}`;
 }
 
 function sectionHeader(doc: typeof PDFDocument, title: string, y: number, color: string): number {
@@ -117,6 +119,8 @@ export async function renderForecastPDF(
   branding?: BrandingConfig
 ): Promise<{ buffer: Buffer; filename: string }> {
   const companyName = branding?.company_name || data.workspace.name;
+  const currency = data.workspace.currency || 'USD';
+  const money = (n: number) => fmtMoney(n, currency);
   const primaryColor = branding?.primary_color || '#1E293B';
   const preparedBy = branding?.prepared_by || 'Pandora GTM Intelligence';
   const confidentiality = branding?.confidentiality_notice || '';
@@ -146,9 +150,9 @@ export async function renderForecastPDF(
 
   // Scenario pills on cover
   const scenarios = [
-    { label: 'Best Case', value: fmtMoney(data.totals.best_case) },
-    { label: 'Weighted', value: fmtMoney(data.totals.weighted_forecast) },
-    { label: 'Committed', value: fmtMoney(data.totals.committed) },
+    { label: 'Best Case', value: money(data.totals.best_case) },
+    { label: 'Weighted', value: money(data.totals.weighted_forecast) },
+    { label: 'Committed', value: money(data.totals.committed) },
   ];
   const pillW = 160;
   const pillStart = (PAGE_W - scenarios.length * pillW - (scenarios.length - 1) * 20) / 2;
@@ -181,9 +185,9 @@ export async function renderForecastPDF(
 
   // Scenarios 2-up layout
   const scenarioData = [
-    ['Best Case', fmtMoney(data.totals.best_case), 'Total Pipeline', fmtMoney(data.totals.total_pipeline)],
-    ['Weighted Forecast', fmtMoney(data.totals.weighted_forecast), 'Committed', fmtMoney(data.totals.committed)],
-    ['Worst Case', fmtMoney(data.totals.worst_case), 'Open Deals', String(data.forecast_by_stage.reduce((s, r) => s + r.deal_count, 0))],
+    ['Best Case', money(data.totals.best_case), 'Total Pipeline', money(data.totals.total_pipeline)],
+    ['Weighted Forecast', money(data.totals.weighted_forecast), 'Committed', money(data.totals.committed)],
+    ['Worst Case', money(data.totals.worst_case), 'Open Deals', String(data.forecast_by_stage.reduce((s, r) => s + r.deal_count, 0))],
   ];
 
   const half = CONTENT_W / 2;
@@ -207,7 +211,7 @@ export async function renderForecastPDF(
     y += 8;
 
     const covData = [
-      ['Quota', data.coverage.quota != null ? fmtMoney(data.coverage.quota) : 'Not set'],
+      ['Quota', data.coverage.quota != null ? money(data.coverage.quota) : 'Not set'],
       ['Pipeline Coverage', data.coverage.coverage_ratio != null ? `${(data.coverage.coverage_ratio * 100).toFixed(0)}%` : 'N/A'],
       ['Weighted Coverage', data.coverage.weighted_coverage != null ? `${(data.coverage.weighted_coverage * 100).toFixed(0)}%` : 'N/A'],
     ];
@@ -227,12 +231,12 @@ export async function renderForecastPDF(
 
   doc.fillColor(COLOR.secondary).font('Helvetica').fontSize(9).text('Deals Won', MARGIN + 8, y, { width: 120 });
   doc.fillColor(COLOR.green).font('Helvetica-Bold').fontSize(13)
-    .text(`${data.recent_outcomes.won.count}  (${fmtMoney(data.recent_outcomes.won.value)})`, MARGIN + 140, y);
+    .text(`${data.recent_outcomes.won.count}  (${money(data.recent_outcomes.won.value)})`, MARGIN + 140, y);
   y += 22;
 
   doc.fillColor(COLOR.secondary).font('Helvetica').fontSize(9).text('Deals Lost', MARGIN + 8, y, { width: 120 });
   doc.fillColor(COLOR.critical).font('Helvetica-Bold').fontSize(13)
-    .text(`${data.recent_outcomes.lost.count}  (${fmtMoney(data.recent_outcomes.lost.value)})`, MARGIN + 140, y);
+    .text(`${data.recent_outcomes.lost.count}  (${money(data.recent_outcomes.lost.value)})`, MARGIN + 140, y);
   y += 22;
 
   // ── Page 3: Stage Breakdown ───────────────────────────────────
@@ -256,18 +260,18 @@ export async function renderForecastPDF(
   const stageRows = data.forecast_by_stage.map(s => [
     s.stage,
     s.deal_count,
-    fmtMoney(s.total_value),
+    money(s.total_value),
     `${(s.default_probability * 100).toFixed(0)}%`,
-    fmtMoney(s.weighted_value),
+    money(s.weighted_value),
     s.avg_days_in_stage,
     '',
   ]);
   stageRows.push([
     'TOTAL',
     data.forecast_by_stage.reduce((s, r) => s + r.deal_count, 0),
-    fmtMoney(data.totals.total_pipeline),
+    money(data.totals.total_pipeline),
     '',
-    fmtMoney(data.totals.weighted_forecast),
+    money(data.totals.weighted_forecast),
     '',
     '',
   ]);
@@ -294,15 +298,15 @@ export async function renderForecastPDF(
     const cdRows = data.close_date_distribution.map(m => [
       m.month,
       m.deal_count,
-      fmtMoney(m.total_value),
-      fmtMoney(m.weighted_value),
+      money(m.total_value),
+      money(m.weighted_value),
       '',
     ]);
     cdRows.push([
       'TOTAL',
       data.close_date_distribution.reduce((s, r) => s + r.deal_count, 0),
-      fmtMoney(data.close_date_distribution.reduce((s, r) => s + r.total_value, 0)),
-      fmtMoney(data.close_date_distribution.reduce((s, r) => s + r.weighted_value, 0)),
+      money(data.close_date_distribution.reduce((s, r) => s + r.total_value, 0)),
+      money(data.close_date_distribution.reduce((s, r) => s + r.weighted_value, 0)),
       '',
     ]);
 
@@ -333,7 +337,7 @@ export async function renderForecastPDF(
       d.deal_name,
       d.account,
       d.owner,
-      fmtMoney(d.amount),
+      money(d.amount),
       d.stage,
       fmtDate(d.close_date),
       d.days_past_close > 0 ? d.days_past_close : '—',
@@ -14,6 +14,7 @@ import * as path from 'path';
 import * as os from 'os';
 import type { ForecastData } from './data-assembler.js';
 import type { BrandingConfig } from './types.js';
+import { currencySymbol, excelCurrencyFormat } from '../utils/format-currency.js';
 
 const C = {
   headerBg: 'FF1E293B',
@@ -67,6 +68,9 @@ export async function renderForecastXLSX(
   wb.created = new Date();
 
   const companyName = branding?.company_name || data.workspace.name;
+  const currency = data.workspace.currency || 'USD';
+  const sym = currencySymbol(currency);
+  const moneyFmt = excelCurrencyFormat(currency);
   const primaryArgb = 'FF' + (branding?.primary_color || '#1E293B').replace('#', '');
 
   // ── Tab 1: Forecast Summary ───────────────────────────────────
@@ -94,13 +98,13 @@ export async function renderForecastXLSX(
   t1.addRow([]);
 
   const scenarios: [string, number, string, string][] = [
-    ['Best Case', data.totals.best_case, 'Total Pipeline', `$${data.totals.total_pipeline.toLocaleString()}`],
-    ['Weighted Forecast', data.totals.weighted_forecast, 'Committed', `$${data.totals.committed.toLocaleString()}`],
+    ['Best Case', data.totals.best_case, 'Total Pipeline', `${sym}${data.totals.total_pipeline.toLocaleString()}`],
+    ['Weighted Forecast', data.totals.weighted_forecast, 'Committed', `${sym}${data.totals.committed.toLocaleString()}`],
     ['Worst Case', data.totals.worst_case, 'Deals in Pipeline', String(data.forecast_by_stage.reduce((s, r) => s + r.deal_count, 0))],
   ];
 
   for (const [label, value, label2, val2] of scenarios) {
-    const r = t1.addRow([label, `$${Math.round(value).toLocaleString()}`, label2, val2]);
+    const r = t1.addRow([label, `${sym}${Math.round(value).toLocaleString()}`, label2, val2]);
     r.getCell(1).font = { size: 10, color: { argb: 'FF64748B' } };
     r.getCell(2).font = { bold: true, size: 12 };
     r.getCell(3).font = { size: 10, color: { argb: 'FF64748B' } };
@@ -118,7 +122,7 @@ export async function renderForecastXLSX(
     t1.addRow([]);
 
     const covItems: [string, string][] = [
-      ['Quota', data.coverage.quota != null ? `$${data.coverage.quota.toLocaleString()}` : 'Not set'],
+      ['Quota', data.coverage.quota != null ? `${sym}${data.coverage.quota.toLocaleString()}` : 'Not set'],
       ['Pipeline Coverage', data.coverage.coverage_ratio != null ? `${(data.coverage.coverage_ratio * 100).toFixed(0)}%` : 'N/A'],
       ['Weighted Coverage', data.coverage.weighted_coverage != null ? `${(data.coverage.weighted_coverage * 100).toFixed(0)}%` : 'N/A'],
     ];
@@ -137,14 +141,14 @@ export async function renderForecastXLSX(
   t1.mergeCells(`A${outH.number}:D${outH.number}`);
   t1.addRow([]);
 
-  const wonRow = t1.addRow(['Deals Won', String(data.recent_outcomes.won.count), 'Won Value', `$${data.recent_outcomes.won.value.toLocaleString()}`]);
+  const wonRow = t1.addRow(['Deals Won', String(data.recent_outcomes.won.count), 'Won Value', `${sym}${data.recent_outcomes.won.value.toLocaleString()}`]);
   wonRow.getCell(1).font = { size: 10, color: { argb: 'FF64748B' } };
   wonRow.getCell(2).font = { bold: true, size: 12, color: { argb: C.greenText } };
   wonRow.getCell(3).font = { size: 10, color: { argb: 'FF64748B' } };
   wonRow.getCell(4).font = { bold: true, size: 12, color: { argb: C.greenText } };
   wonRow.height = 20;
 
-  const lostRow = t1.addRow(['Deals Lost', String(data.recent_outcomes.lost.count), 'Lost Value', `$${data.recent_outcomes.lost.value.toLocaleString()}`]);
+  const lostRow = t1.addRow(['Deals Lost', String(data.recent_outcomes.lost.count), 'Lost Value', `${sym}${data.recent_outcomes.lost.value.toLocaleString()}`]);
   lostRow.getCell(1).font = { size: 10, color: { argb: 'FF64748B' } };
   lostRow.getCell(2).font = { bold: true, size: 12, color: { argb: C.criticalText } };
   lostRow.getCell(3).font = { size: 10, color: { argb: 'FF64748B' } };
@@ -168,9 +172,9 @@ export async function renderForecastXLSX(
       s.avg_days_in_stage,
     ]);
     altRow(r, i);
-    r.getCell(3).numFmt = '$#,##0';
+    r.getCell(3).numFmt = moneyFmt;
     r.getCell(4).numFmt = '0%';
-    r.getCell(5).numFmt = '$#,##0';
+    r.getCell(5).numFmt = moneyFmt;
     r.height = 18;
   });
 
@@ -187,8 +191,8 @@ export async function renderForecastXLSX(
     cell.font = { bold: true, size: 10 };
     cell.border = { top: { style: 'thin', color: { argb: C.border } } };
   });
-  t2tot.getCell(3).numFmt = '$#,##0';
-  t2tot.getCell(5).numFmt = '$#,##0';
+  t2tot.getCell(3).numFmt = moneyFmt;
+  t2tot.getCell(5).numFmt = moneyFmt;
 
   // ── Tab 3: Close Date Distribution ───────────────────────────
 
@@ -203,8 +207,8 @@ export async function renderForecastXLSX(
     data.close_date_distribution.forEach((m, i) => {
       const r = t3.addRow([m.month, m.deal_count, m.total_value, m.weighted_value]);
       altRow(r, i);
-      r.getCell(3).numFmt = '$#,##0';
-      r.getCell(4).numFmt = '$#,##0';
+      r.getCell(3).numFmt = moneyFmt;
+      r.getCell(4).numFmt = moneyFmt;
       r.height = 18;
     });
 
@@ -219,8 +223,8 @@ export async function renderForecastXLSX(
       cell.font = { bold: true, size: 10 };
       cell.border = { top: { style: 'thin', color: { argb: C.border } } };
     });
-    cdTot.getCell(3).numFmt = '$#,##0';
-    cdTot.getCell(4).numFmt = '$#,##0';
+    cdTot.getCell(3).numFmt = moneyFmt;
+    cdTot.getCell(4).numFmt = moneyFmt;
   }
 
   // ── Tab 4: Slip Risk ──────────────────────────────────────────
@@ -244,7 +248,7 @@ export async function renderForecastXLSX(
         d.days_past_close > 0 ? d.days_past_close : 0,
         d.risk_reason,
       ]);
-      r.getCell(4).numFmt = '$#,##0';
+      r.getCell(4).numFmt = moneyFmt;
       if (d.days_past_close > 0) {
         r.eachCell({ includeEmpty: true }, cell => {
           cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: C.criticalBg } };
@@ -274,7 +278,7 @@ export async function renderForecastXLSX(
       cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: C.stageBg } };
       cell.font = { bold: true, size: 10, color: { argb: C.stageText } };
     });
-    stageRow.getCell(4).numFmt = '$#,##0';
+    stageRow.getCell(4).numFmt = moneyFmt;
     stageRow.height = 20;
 
     // Deal rows
@@ -289,7 +293,7 @@ export async function renderForecastXLSX(
         d.risk_flags.join('; '),
       ]);
       altRow(r, rowIdx++);
-      r.getCell(4).numFmt = '$#,##0';
+      r.getCell(4).numFmt = moneyFmt;
       if (d.risk_flags.length > 0) {
         r.getCell(7).font = { italic: true, size: 9, color: { argb: C.warningText } };
       }
@@ -300,14 +304,14 @@ export async function renderForecastXLSX(
     const subRow = t5.addRow([
       `Subtotal: ${stage.stage}`, '', '',
       stage.total_value, '', '',
-      `Weighted: $${Math.round(stage.weighted_value).toLocaleString()}`,
+      `Weighted: ${sym}${Math.round(stage.weighted_value).toLocaleString()}`,
     ]);
     subRow.eachCell({ includeEmpty: true }, cell => {
       cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: C.subtotalBg } };
       cell.font = { bold: true, size: 9 };
       cell.border = { bottom: { style: 'thin', color: { argb: C.border } } };
     });
-    subRow.getCell(4).numFmt = '$#,##0';
+    subRow.getCell(4).numFmt = moneyFmt;
     subRow.height = 18;
   }
 
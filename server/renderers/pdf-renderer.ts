@@ -7,6 +7,7 @@
 
 import PDFDocument from 'pdfkit';
 import { Renderer, RendererInput, RenderOutput, BrandingConfig } from './types.js';
+import { formatCurrencyFull } from '../utils/format-currency.js';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -159,7 +160,7 @@ export class PDFRenderer implements Renderer {
         addedPages += this.renderRankedListPDF(doc, matrix, color);
         break;
       case 'waterfall':
-        addedPages += this.renderWaterfallPDF(doc, matrix, color);
+        addedPages += this.renderWaterfallPDF(doc, matrix, color, input.workspace.currency);
         break;
       default:
         addedPages += this.renderStageMatrixPDF(doc, matrix, color);
@@ -276,7 +277,7 @@ export class PDFRenderer implements Renderer {
     return 0;
   }
 
-  private renderWaterfallPDF(doc: typeof PDFDocument, matrix: any, color: string): number {
+  private renderWaterfallPDF(doc: typeof PDFDocument, matrix: any, color: string, currency = 'USD'): number {
     doc.fontSize(14)
       .fillColor(color)
       .text('Pipeline Waterfall');
@@ -289,7 +290,7 @@ export class PDFRenderer implements Renderer {
       doc.fontSize(12)
         .fillColor(PDF_COLORS.primary)
         .font('Helvetica-Bold')
-        .text(`${starting.label}: $${starting.amount.toLocaleString()}`);
+        .text(`${starting.label}: ${formatCurrencyFull(starting.amount, currency)}`);
       doc.moveDown(0.5);
     }
 
@@ -299,7 +300,7 @@ export class PDFRenderer implements Renderer {
       doc.fontSize(10)
         .fillColor(adjColor)
         .font('Helvetica')
-        .text(`  ${adj.label}: ${sign}$${adj.amount.toLocaleString()}`, { indent: 20 });
+        .text(`  ${adj.label}: ${sign}${formatCurrencyFull(adj.amount, currency)}`, { indent: 20 });
     }
 
     doc.moveDown(0.5);
@@ -311,7 +312,7 @@ export class PDFRenderer implements Renderer {
     doc.fontSize(13)
       .fillColor(PDF_COLORS.primary)
       .font('Helvetica-Bold')
-      .text(`Ending Pipeline: $${total.toLocaleString()}`);
+      .text(`Ending Pipeline: ${formatCurrencyFull(total, currency)}`);
 
     return 0;
   }
@@ -15,6 +15,7 @@ import * as os from 'os';
 import * as fs from 'fs';
 import type { PipelineReviewData } from './data-assembler.js';
 import type { BrandingConfig } from './types.js';
+import { currencySymbol } from '../utils/format-currency.js';
 
 // ── Layout constants ──────────────────────────────────────────────
 const PAGE_W = 792;  // Letter landscape
@@ -116,6 +117,8 @@ export async function renderPipelineReviewPDF(
   branding?: BrandingConfig
 ): Promise<{ buffer: Buffer; filename: string }> {
   const companyName = branding?.company_name || data.workspace.name;
+  const currency = data.workspace.currency || 'USD';
+  const sym = currencySymbol(currency);
   const primaryColor = branding?.primary_color || '#1E293B';
   const preparedBy = branding?.prepared_by || 'Pandora GTM Intelligence';
   const confidentiality = branding?.confidentiality_notice || '';
@@ -169,12 +172,12 @@ export async function renderPipelineReviewPDF(
   y = sectionHeader(doc, 'KEY METRICS', y, primaryColor);
 
   const metrics = [
-    ['Pipeline Value', `$${data.pipeline.total_value.toLocaleString()}`],
-    ['Weighted Value', `$${Math.round(data.pipeline.weighted_value).toLocaleString()}`],
+    ['Pipeline Value', `${sym}${data.pipeline.total_value.toLocaleString()}`],
+    ['Weighted Value', `${sym}${Math.round(data.pipeline.weighted_value).toLocaleString()}`],
     ['Open Deals', String(data.pipeline.deal_count)],
     ['Win Rate (period)', data.metrics.win_rate_period != null ? `${(data.metrics.win_rate_period * 100).toFixed(0)}%` : 'N/A'],
     ['Avg Cycle', `${data.metrics.avg_cycle_days} days`],
-    ['Created This Period', `$${Math.round(data.metrics.pipeline_created_period).toLocaleString()}`],
+    ['Created This Period', `${sym}${Math.round(data.metrics.pipeline_created_period).toLocaleString()}`],
     ['Deals Won', String(data.metrics.deals_won_period)],
     ['Deals Lost', String(data.metrics.deals_lost_period)],
   ];
@@ -213,8 +216,8 @@ export async function renderPipelineReviewPDF(
   const stageTableRows = data.pipeline.by_stage.map(s => [
     s.stage,
     s.deal_count,
-    `$${s.total_value.toLocaleString()}`,
-    `$${Math.round(s.weighted_value).toLocaleString()}`,
+    `${sym}${s.total_value.toLocaleString()}`,
+    `${sym}${Math.round(s.weighted_value).toLocaleString()}`,
     s.avg_age_days,
     '',
   ]);
@@ -223,8 +226,8 @@ export async function renderPipelineReviewPDF(
   stageTableRows.push([
     'TOTAL',
     data.pipeline.deal_count,
-    `$${data.pipeline.total_value.toLocaleString()}`,
-    `$${Math.round(data.pipeline.weighted_value).toLocaleString()}`,
+    `${sym}${data.pipeline.total_value.toLocaleString()}`,
+    `${sym}${Math.round(data.pipeline.weighted_value).toLocaleString()}`,
     '',
     '',
   ]);
@@ -252,7 +255,7 @@ export async function renderPipelineReviewPDF(
       if (y > PAGE_H - MARGIN - 20) break;
       doc.rect(MARGIN, y, CONTENT_W, 20).fill('#FEF2F2');
       const dealStr = f.deal_name ? ` — ${f.deal_name}` : '';
-      const impactStr = f.impact_amount ? ` ($${f.impact_amount.toLocaleString()})` : '';
+      const impactStr = f.impact_amount ? ` (${sym}${f.impact_amount.toLocaleString()})` : '';
       doc.fillColor(COLOR.critical).font('Helvetica').fontSize(8)
         .text(`\u26A0  ${f.message}${dealStr}${impactStr}`, MARGIN + 6, y + 6, { width: CONTENT_W - 12 });
       y += 22;
@@ -298,7 +301,7 @@ export async function renderPipelineReviewPDF(
       d.deal_name,
       d.account_name,
       d.owner,
-      `$${d.amount.toLocaleString()}`,
+      `${sym}${d.amount.toLocaleString()}`,
       d.stage,
       fmtDate(d.close_date),
       d.risk_reasons[0] || '',
@@ -14,6 +14,7 @@ import * as path from 'path';
 import * as os from 'os';
 import type { PipelineReviewData } from './data-assembler.js';
 import type { BrandingConfig } from './types.js';
+import { currencySymbol, excelCurrencyFormat } from '../utils/format-currency.js';
 
 const C = {
   headerBg: 'FF1E293B',
@@ -65,6 +66,9 @@ export async function renderPipelineReviewXLSX(
   wb.created = new Date();
 
   const companyName = branding?.company_name || data.workspace.name;
+  const currency = data.workspace.currency || 'USD';
+  const sym = currencySymbol(currency);
+  const moneyFmt = excelCurrencyFormat(currency);
   const primaryArgb = 'FF' + (branding?.primary_color || '#1E293B').replace('#', '');
 
   // ── Tab 1: Executive Summary ─────────────────────────────────
@@ -91,9 +95,9 @@ export async function renderPipelineReviewXLSX(
   t1.addRow([]);
 
   const metrics: [string, string, string, string][] = [
-    ['Pipeline Value', `$${data.pipeline.total_value.toLocaleString()}`, 'Open Deals', String(data.pipeline.deal_count)],
-    ['Weighted Value', `$${Math.round(data.pipeline.weighted_value).toLocaleString()}`, 'Win Rate (period)', data.metrics.win_rate_period != null ? `${(data.metrics.win_rate_period * 100).toFixed(0)}%` : 'N/A'],
-    ['Created This Period', `$${Math.round(data.metrics.pipeline_created_period).toLocaleString()}`, 'Avg Cycle', `${data.metrics.avg_cycle_days} days`],
+    ['Pipeline Value', `${sym}${data.pipeline.total_value.toLocaleString()}`, 'Open Deals', String(data.pipeline.deal_count)],
+    ['Weighted Value', `${sym}${Math.round(data.pipeline.weighted_value).toLocaleString()}`, 'Win Rate (period)', data.metrics.win_rate_period != null ? `${(data.metrics.win_rate_period * 100).toFixed(0)}%` : 'N/A'],
+    ['Created This Period', `${sym}${Math.round(data.metrics.pipeline_created_period).toLocaleString()}`, 'Avg Cycle', `${data.metrics.avg_cycle_days} days`],
     ['Deals Won', String(data.metrics.deals_won_period), 'Deals Lost', String(data.metrics.deals_lost_period)],
   ];
 
@@ -115,7 +119,7 @@ export async function renderPipelineReviewXLSX(
     t1.addRow([]);
 
     for (const f of data.findings.critical.slice(0, 5)) {
-      const r = t1.addRow([`\u26A0 ${f.message}${f.deal_name ? ` (${f.deal_name})` : ''}`, '', f.impact_amount ? `$${f.impact_amount.toLocaleString()}` : '']);
+      const r = t1.addRow([`\u26A0 ${f.message}${f.deal_name ? ` (${f.deal_name})` : ''}`, '', f.impact_amount ? `${sym}${f.impact_amount.toLocaleString()}` : '']);
       r.eachCell({ includeEmpty: true }, cell => {
         cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: C.criticalBg } };
         cell.font = { color: { argb: C.criticalText }, size: 10 };
@@ -123,7 +127,7 @@ export async function renderPipelineReviewXLSX(
       t1.mergeCells(`A${r.number}:B${r.number}`);
     }
     for (const f of data.findings.warning.slice(0, 5)) {
-      const r = t1.addRow([`\u2022 ${f.message}${f.deal_name ? ` (${f.deal_name})` : ''}`, '', f.impact_amount ? `$${f.impact_amount.toLocaleString()}` : '']);
+      const r = t1.addRow([`\u2022 ${f.message}${f.deal_name ? ` (${f.deal_name})` : ''}`, '', f.impact_amount ? `${sym}${f.impact_amount.toLocaleString()}` : '']);
       r.eachCell({ includeEmpty: true }, cell => {
         cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: C.warningBg } };
         cell.font = { color: { argb: C.warningText }, size: 10 };
@@ -149,8 +153,8 @@ export async function renderPipelineReviewXLSX(
   data.pipeline.by_stage.forEach((s, i) => {
     const r = t2.addRow([s.stage, s.deal_count, s.total_value, s.weighted_value, s.avg_age_days]);
     altRow(r, i);
-    r.getCell(3).numFmt = '$#,##0';
-    r.getCell(4).numFmt = '$#,##0';
+    r.getCell(3).numFmt = moneyFmt;
+    r.getCell(4).numFmt = moneyFmt;
     r.height = 18;
   });
 
@@ -160,8 +164,8 @@ export async function renderPipelineReviewXLSX(
     cell.font = { bold: true, size: 10 };
     cell.border = { top: { style: 'thin', color: { argb: C.border } } };
   });
-  totRow.getCell(3).numFmt = '$#,##0';
-  totRow.getCell(4).numFmt = '$#,##0';
+  totRow.getCell(3).numFmt = moneyFmt;
+  totRow.getCell(4).numFmt = moneyFmt;
 
   // ── Tab 3: Risk Deals ─────────────────────────────────────────
 
@@ -179,7 +183,7 @@ export async function renderPipelineReviewXLSX(
         d.stage, d.age_days, fmtDate(d.close_date), d.risk_reasons.join('; '),
       ]);
       altRow(r, i);
-      r.getCell(4).numFmt = '$#,##0';
+      r.getCell(4).numFmt = moneyFmt;
       r.getCell(8).font = { italic: true, color: { argb: C.criticalText }, size: 9 };
       if (d.close_date && new Date(d.close_date) < new Date()) {
         r.getCell(7).font = { color: { argb: C.criticalText }, bold: true };
@@ -205,7 +209,7 @@ export async function renderPipelineReviewXLSX(
       d.risk_flags.join('; '),
     ]);
     altRow(r, i);
-    r.getCell(4).numFmt = '$#,##0';
+    r.getCell(4).numFmt = moneyFmt;
     if (d.contact_count === 0) {
       r.getCell(9).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: C.missingBg } };
     }
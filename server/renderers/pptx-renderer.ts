@@ -1,5 +1,6 @@
 import { Renderer, RendererInput, RenderOutput } from './types.js';
 import { renderPPTX } from './pptx-renderer-full.js';
+import { formatCurrencyFull } from '../utils/format-currency.js';
 import * as fs from 'fs';
 
 export class PPTXRenderer implements Renderer {
@@ -44,7 +45,7 @@ export class PPTXRenderer implements Renderer {
           })),
           deal_cards: (ev.evaluated_records || []).slice(0, 10).map((r: any) => ({
             name: r.name || r.deal_name || 'Unknown Deal',
-            amount: r.amount ? `$${Number(r.amount).toLocaleString()}` : undefined,
+            amount: r.amount ? formatCurrencyFull(Number(r.amount), input.workspace.currency) : undefined,
             stage: r.stage,
             owner: r.owner,
             signal_severity: r.severity || 'info',
@@ -23,6 +23,7 @@ export interface RendererInput {
     name: string;
     branding?: BrandingConfig;
     voice?: VoiceConfig;
+    currency?: string;               // ISO 4217 reporting currency, defaults to USD
   };
 
   // Rendering options
@@ -8,6 +8,7 @@
 
 import ExcelJS from 'exceljs';
 import { Renderer, RendererInput, RenderOutput, BrandingConfig } from './types.js';
+import { excelCurrencyFormat } from '../utils/format-currency.js';
 import type { SkillEvidence, EvaluatedRecord, DataSourceContribution, SkillParameter } from '../skills/types.js';
 import * as path from 'path';
 import * as os from 'os';
@@ -300,7 +301,7 @@ export class WorkbookGenerator implements Renderer {
         this.buildRankedListTab(workbook, matrix, branding);
         break;
       case 'waterfall':
-        this.buildWaterfallTab(workbook, matrix, branding);
+        this.buildWaterfallTab(workbook, matrix, branding, input.workspace.currency);
         break;
       case 'hybrid':
         this.buildHybridTabs(workbook, matrix, branding);
@@ -483,7 +484,8 @@ export class WorkbookGenerator implements Renderer {
   private buildWaterfallTab(
     workbook: ExcelJS.Workbook,
     matrix: any,
-    branding?: BrandingConfig
+    branding?: BrandingConfig,
+    currency = 'USD'
   ): void {
     const ws = workbook.addWorksheet('Pipeline Waterfall');
     let row = 1;
@@ -503,7 +505,7 @@ export class WorkbookGenerator implements Renderer {
       startRow.getCell(1).value = starting.label;
       startRow.getCell(1).font = { bold: true };
       startRow.getCell(2).value = starting.amount;
-      startRow.getCell(2).numFmt = '$#,##0';
+      startRow.getCell(2).numFmt = excelCurrencyFormat(currency);
       startRow.getCell(2).font = { bold: true };
       row++;
     }
@@ -514,7 +516,7 @@ export class WorkbookGenerator implements Renderer {
       const adjRow = ws.getRow(row);
       adjRow.getCell(1).value = `  ${adj.label}`;
       adjRow.getCell(2).value = adj.amount;
-      adjRow.getCell(2).numFmt = '+$#,##0;-$#,##0;$0';
+      adjRow.getCell(2).numFmt = excelCurrencyFormat(currency, true);
       adjRow.getCell(2).font = {
         color: { argb: adj.amount >= 0 ? COLORS.successText : COLORS.criticalText }
       };
@@ -528,7 +530,7 @@ export class WorkbookGenerator implements Renderer {
     resultRow.getCell(1).font = { bold: true, size: 12 };
     const total = (starting?.amount || 0) + adjustments.reduce((s: number, a: any) => s + a.amount, 0);
     resultRow.getCell(2).value = total;
-    resultRow.getCell(2).numFmt = '$#,##0';
+    resultRow.getCell(2).numFmt = excelCurrencyFormat(currency);
     resultRow.getCell(2).font = { bold: true, size: 12 };
 
     ws.getColumn(1).width = 35;
@@ -5,6 +5,7 @@ import { ReportGeneration, ReportTemplate, DeliveryChannel } from './types.js';
 import { deliverReportByEmail, EmailDeliveryConfig } from '../delivery/email-delivery.js';
 import { deliverReportToGDrive } from '../delivery/gdrive-delivery.js';
 import { deliverReportToSlack } from '../delivery/slack-delivery.js';
+import { deliverReportToTeams } from '../delivery/teams-delivery.js';
 import { query } from '../db.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -73,6 +74,17 @@ export async function deliverReport(
           break;
         }
 
+        case 'teams': {
+          results.teams = await deliverReportToTeams(
+            generation,
+            template,
+            config.workspace_id,
+            config.branding,
+            channel.config
+          );
+          break;
+        }
+
         case 'download_only': {
           // No delivery needed - files are already generated
           results.download = { success: true };
@@ -192,7 +204,7 @@ export async function sendFallbackEmailNotification(
   }
 
   // Only send fallback for critical channel failures
-  if (failedChannel !== 'google_drive' && failedChannel !== 'slack') {
+  if (failedChannel !== 'google_drive' && failedChannel !== 'slack' && failedChannel !== 'teams') {
     return;
   }
 
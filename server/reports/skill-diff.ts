@@ -1,13 +1,14 @@
 // Week-over-week diff engine for WBR/QBR skill run evidence
 // Compares the two most recent completed runs of a skill and surfaces
-// numeric deltas for MetricCard enrichment.
+// numeric deltas for MetricCard enrichment. diffSkillOutputs compares any two
+// outputs (used by skill record/replay).
 
 import { query } from '../db.js';
 
 interface ClaimSnapshot {
   claim_id: string;
   metric_name: string;
-  metric_values: number[];
+  metric_values: (number | string | null)[];
   severity: string;
 }
 
@@ -59,40 +60,147 @@ export async function computeSkillDiff(
     const currentClaims: ClaimSnapshot[] = currentRow.claims ?? [];
     const priorClaims: ClaimSnapshot[] = priorRow.claims ?? [];
 
-    const priorMap = new Map(priorClaims.map(c => [c.claim_id, c]));
-    const deltas: MetricDelta[] = [];
+    return diffClaims(currentClaims, priorClaims);
+  } catch {
+    // Never fail report generation due to diff errors
+    return [];
+  }
+}
 
-    for (const current of currentClaims) {
-      const prior = priorMap.get(current.claim_id);
-      if (!prior) continue;
+/**
+ * Per-claim numeric deltas between two sets of evidence claims
+ */
+export function diffClaims(currentClaims: ClaimSnapshot[], priorClaims: ClaimSnapshot[]): MetricDelta[] {
+  const priorMap = new Map(priorClaims.map(c => [c.claim_id, c]));
+  const deltas: MetricDelta[] = [];
 
-      // Only aggregate single-value metrics — skip per-entity arrays
-      if ((current.metric_values?.length ?? 0) !== 1) continue;
-      if ((prior.metric_values?.length ?? 0) !== 1) continue;
+  for (const current of currentClaims) {
+    const prior = priorMap.get(current.claim_id);
+    if (!prior) continue;
 
-      const currentVal = current.metric_values[0];
-      const priorVal = prior.metric_values[0];
+    // Only aggregate single-value metrics — skip per-entity arrays
+    if ((current.metric_values?.length ?? 0) !== 1) continue;
+    if ((prior.metric_values?.length ?? 0) !== 1) continue;
 
-      if (typeof currentVal !== 'number' || typeof priorVal !== 'number') continue;
-      if (priorVal === 0) continue;
+    const currentVal = current.metric_values[0];
+    const priorVal = prior.metric_values[0];
 
-      const delta = currentVal - priorVal;
-      const deltaPct = (delta / Math.abs(priorVal)) * 100;
+    if (typeof currentVal !== 'number' || typeof priorVal !== 'number') continue;
+    if (priorVal === 0) continue;
 
-      deltas.push({
-        claim_id: current.claim_id,
-        metric_name: current.metric_name,
-        current_value: currentVal,
-        previous_value: priorVal,
-        delta,
-        delta_pct: deltaPct,
-        direction: Math.abs(delta) < 0.001 ? 'flat' : delta > 0 ? 'up' : 'down',
-      });
-    }
+    const delta = currentVal - priorVal;
+    const deltaPct = (delta / Math.abs(priorVal)) * 100;
 
-    return deltas;
-  } catch {
-    // Never fail report generation due to diff errors
-    return [];
+    deltas.push({
+      claim_id: current.claim_id,
+      metric_name: current.metric_name,
+      current_value: currentVal,
+      previous_value: priorVal,
+      delta,
+      delta_pct: deltaPct,
+      direction: Math.abs(delta) < 0.001 ? 'flat' : delta > 0 ? 'up' : 'down',
+    });
+  }
+
+  return deltas;
+}
+
+export interface SkillOutputDiff {
+  identical: boolean;
+  narrative: {
+    changed: boolean;
+    baseline_chars: number;
+    current_chars: number;
+    lines_added: number;
+    lines_removed: number;
+  };
+  claims: {
+    added: string[];
+    removed: string[];
+    severity_changed: Array<{ claim_id: string; from: string; to: string }>;
+    metric_deltas: MetricDelta[];
+  };
+  evaluated_records: {
+    baseline: number;
+    current: number;
+  };
+}
+
+interface ComparableOutput {
+  narrative: unknown;
+  evidence?: { claims?: ClaimSnapshot[] | null; evaluated_records?: unknown[] | null } | null;
+}
+
+function narrativeText(narrative: unknown): string {
+  if (narrative == null) return '';
+  if (typeof narrative === 'string') return narrative;
+  if (typeof narrative === 'object' && typeof (narrative as any).narrative === 'string') {
+    return (narrative as any).narrative;
+  }
+  return JSON.stringify(narrative);
+}
+
+function countLines(lines: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const line of lines) counts.set(line, (counts.get(line) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Compares a skill output (narrative + evidence) against a baseline: narrative
+ * line changes, claims added/removed/re-severitied and per-claim metric deltas.
+ * Line changes are multiset counts, not an ordered diff.
+ */
+export function diffSkillOutputs(current: ComparableOutput, baseline: ComparableOutput): SkillOutputDiff {
+  const currentText = narrativeText(current.narrative);
+  const baselineText = narrativeText(baseline.narrative);
+
+  const currentLines = countLines(currentText.split('\n').map(l => l.trim()).filter(Boolean));
+  const baselineLines = countLines(baselineText.split('\n').map(l => l.trim()).filter(Boolean));
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  for (const [line, count] of currentLines) linesAdded += Math.max(0, count - (baselineLines.get(line) ?? 0));
+  for (const [line, count] of baselineLines) linesRemoved += Math.max(0, count - (currentLines.get(line) ?? 0));
+
+  const currentClaims = current.evidence?.claims ?? [];
+  const baselineClaims = baseline.evidence?.claims ?? [];
+  const currentById = new Map(currentClaims.map(c => [c.claim_id, c]));
+  const baselineById = new Map(baselineClaims.map(c => [c.claim_id, c]));
+
+  const severityChanged: Array<{ claim_id: string; from: string; to: string }> = [];
+  for (const claim of currentClaims) {
+    const prior = baselineById.get(claim.claim_id);
+    if (prior && prior.severity !== claim.severity) {
+      severityChanged.push({ claim_id: claim.claim_id, from: prior.severity, to: claim.severity });
+    }
   }
+
+  const metricDeltas = diffClaims(currentClaims, baselineClaims).filter(d => d.direction !== 'flat');
+  const added = currentClaims.filter(c => !baselineById.has(c.claim_id)).map(c => c.claim_id);
+  const removed = baselineClaims.filter(c => !currentById.has(c.claim_id)).map(c => c.claim_id);
+  const narrativeChanged = currentText !== baselineText;
+  const currentRecords = current.evidence?.evaluated_records?.length ?? 0;
+  const baselineRecords = baseline.evidence?.evaluated_records?.length ?? 0;
+
+  return {
+    identical: !narrativeChanged && added.length === 0 && removed.length === 0
+      && severityChanged.length === 0 && metricDeltas.length === 0 && currentRecords === baselineRecords,
+    narrative: {
+      changed: narrativeChanged,
+      baseline_chars: baselineText.length,
+      current_chars: currentText.length,
+      lines_added: linesAdded,
+      lines_removed: linesRemoved,
+    },
+    claims: {
+      added,
+      removed,
+      severity_changed: severityChanged,
+      metric_deltas: metricDeltas,
+    },
+    evaluated_records: {
+      baseline: baselineRecords,
+      current: currentRecords,
+    },
+  };
 }
@@ -29,6 +29,7 @@ export type DeliveryChannel =
   | { type: 'email'; config: { subject_template: string } }
   | { type: 'google_drive'; config: { folder_id: string; folder_name: string; versioning: 'new_file' | 'overwrite' } }
   | { type: 'slack'; config: { channel_id: string; channel_name: string; include_inline?: boolean } }
+  | { type: 'teams'; config: { webhook_url?: string; channel_name?: string; include_inline?: boolean } }
   | { type: 'download_only'; config: Record<string, never> };
 
 // Voice Configuration
@@ -180,7 +180,7 @@ async function handleScopedAnalysis(
     evidenceBundle
   );
 
-  const client = new ClaudeClient({ model: 'claude-sonnet-4-5' });
+  const client = new ClaudeClient({ workspaceId });
   const synthesis = await client.call(
     'You are a GTM intelligence analyst. Answer the question using only the evidence provided. Be specific, reference actual data points, and be concise. If the evidence is insufficient, say so.',
     synthesisPrompt,
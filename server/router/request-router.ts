@@ -127,7 +127,7 @@ export async function classifyRequest(
 
 User request: "${userInput}"`;
 
-  const client = new ClaudeClient({ model: 'claude-sonnet-4-5' });
+  const client = new ClaudeClient({ workspaceId, capability: 'classify' });
   const response = await client.call(
     ROUTER_SYSTEM_PROMPT,
     classificationPrompt,
@@ -278,6 +278,12 @@ router.put('/:workspaceId/action-items/:actionId/status', async (req: Request<Wo
       VALUES ($1, $2, 'status_changed', $3, $4, $5, $6)
     `, [workspaceId, actionId, actor || 'unknown', fromStatus, status, details ? JSON.stringify(details) : null]);
 
+    if (status === 'executed' || status === 'dismissed') {
+      import('../services/pm-task-service.js')
+        .then(m => m.closePMTaskForAction(workspaceId, actionId))
+        .catch(() => {});
+    }
+
     res.json({ success: true, from_status: fromStatus, to_status: status });
   } catch (err) {
     console.error('[Action Item Status Update]', err);
@@ -258,12 +258,10 @@ router.post('/:workspaceId/agents/pandora_chat/feedback/review', async (req, res
       `Repeated questions: ${repeated.length} (${repeated.map((r: any) => (r.comment || '').substring(0, 100)).join(' | ')})`,
     ].join('\n');
 
-    const { default: Anthropic } = await import('@anthropic-ai/sdk');
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY || process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY });
+    const { callLLM } = await import('../utils/llm-router.js');
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 1024,
+    const response = await callLLM(workspaceId, 'reason', {
+      maxTokens: 1024,
       messages: [{
         role: 'user',
         content: `You are reviewing user feedback for Pandora, a RevOps assistant that answers sales pipeline questions.
@@ -281,16 +279,17 @@ Only suggest improvements where you see a clear signal. Be specific and actionab
 Output as JSON with this exact structure:
 {"suggestions": [{"type": "resolver_pattern|context_addition|named_filter", "description": "What the problem is", "implementation_hint": "Specific change to make", "confidence": 0.0-1.0}]}`,
       }],
+      _tracking: { workspaceId, phase: 'governance', stepName: 'self-heal-suggestions' },
     });
 
-    const content = response.content[0];
+    const content = response.content;
     let suggestions: any[] = [];
-    if (content.type === 'text') {
+    if (content) {
       try {
-        const parsed = JSON.parse(content.text.replace(/```json\n?|\n?```/g, '').trim());
+        const parsed = JSON.parse(content.replace(/```json\n?|\n?```/g, '').trim());
         suggestions = parsed.suggestions ?? [];
       } catch {
-        suggestions = [{ type: 'context_addition', description: 'Unable to parse suggestions', implementation_hint: content.text.substring(0, 200), confidence: 0.1 }];
+        suggestions = [{ type: 'context_addition', description: 'Unable to parse suggestions', implementation_hint: content.substring(0, 200), confidence: 0.1 }];
       }
     }
 
@@ -0,0 +1,184 @@
+/**
+ * Workspace API Key management
+ *
+ * Issue, rotate and revoke scoped API keys. Mounted at
+ * /api/workspaces/:workspaceId/api-keys, restricted to signed-in workspace
+ * admins — API keys cannot manage API keys — and a key can only carry scopes
+ * its issuer holds. The plaintext key is returned once, on create and rotate.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireRole } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
+import { auditRequest } from '../audit/audit-log.js';
+import { API_KEY_SCOPES, parseIpAllowlist, parseScopes } from '../api-keys/keys.js';
+import type { PermissionSet } from '../permissions/types.js';
+import {
+  createApiKey,
+  getApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  type ApiKeyInput,
+} from '../api-keys/store.js';
+
+const router = Router({ mergeParams: true });
+
+const MAX_GRACE_HOURS = 168;
+const DEFAULT_GRACE_HOURS = 24;
+
+router.use((req: Request, res: Response, next: NextFunction) => {
+  if (req.authMethod !== 'session') {
+    res.status(403).json({ error: 'API keys can only be managed by a signed-in user' });
+    return;
+  }
+  next();
+});
+router.use(requireRole('admin'));
+router.use(requirePermission('settings.manage'));
+
+function parseKeyInput(body: any, issuerPermissions: PermissionSet): ApiKeyInput | { error: string } {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 100) {
+    return { error: 'name is required (max 100 characters)' };
+  }
+
+  const scopes = parseScopes(body.scopes, issuerPermissions);
+  if ('error' in scopes) return scopes;
+
+  const ips = parseIpAllowlist(body.ip_allowlist);
+  if ('error' in ips) return ips;
+
+  let rateLimitPerMinute: number | null = null;
+  if (body.rate_limit_per_minute !== undefined && body.rate_limit_per_minute !== null) {
+    const limit = Number(body.rate_limit_per_minute);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 10000) {
+      return { error: 'rate_limit_per_minute must be an integer between 1 and 10000' };
+    }
+    rateLimitPerMinute = limit;
+  }
+
+  let expiresAt: Date | null = null;
+  if (body.expires_at) {
+    expiresAt = new Date(body.expires_at);
+    if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+      return { error: 'expires_at must be a future date' };
+    }
+  }
+
+  return { name, scopes: scopes.scopes, ipAllowlist: ips.entries, rateLimitPerMinute, expiresAt };
+}
+
+/**
+ * GET /
+ * All keys (never the secret) plus the scopes a key can be granted
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const keys = await listApiKeys(req.params.workspaceId as string);
+    res.json({ keys, available_scopes: API_KEY_SCOPES });
+  } catch (err) {
+    console.error('[api-keys] List error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to list API keys' });
+  }
+});
+
+/**
+ * POST /
+ * Body: { name, scopes[], ip_allowlist?, rate_limit_per_minute?, expires_at? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const input = parseKeyInput(req.body, req.userPermissions!);
+    if ('error' in input) {
+      res.status(400).json({ error: input.error });
+      return;
+    }
+
+    const { record, secret } = await createApiKey(req.params.workspaceId as string, input, req.user?.user_id || null);
+    await auditRequest(req, {
+      action: 'api_key.created',
+      resourceType: 'api_key',
+      resourceId: record.id,
+      metadata: {
+        name: record.name,
+        scopes: record.scopes,
+        ip_allowlist: record.ip_allowlist,
+        expires_at: record.expires_at,
+      },
+    });
+
+    res.status(201).json({ key: record, secret });
+  } catch (err) {
+    console.error('[api-keys] Create error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+/**
+ * POST /:keyId/rotate
+ * Body: { grace_hours? } — issues a successor; the old key expires after the
+ * grace period (default 24h, 0 for immediate cutover)
+ */
+router.post('/:keyId/rotate', async (req: Request, res: Response) => {
+  try {
+    const graceHours = req.body?.grace_hours === undefined ? DEFAULT_GRACE_HOURS : Number(req.body.grace_hours);
+    if (!Number.isInteger(graceHours) || graceHours < 0 || graceHours > MAX_GRACE_HOURS) {
+      res.status(400).json({ error: `grace_hours must be an integer between 0 and ${MAX_GRACE_HOURS}` });
+      return;
+    }
+
+    const rotated = await rotateApiKey(
+      req.params.workspaceId as string,
+      req.params.keyId as string,
+      graceHours,
+      req.user?.user_id || null
+    );
+    if (!rotated) {
+      res.status(404).json({ error: 'API key not found or already revoked' });
+      return;
+    }
+
+    await auditRequest(req, {
+      action: 'api_key.rotated',
+      resourceType: 'api_key',
+      resourceId: rotated.record.id,
+      metadata: { name: rotated.record.name, previous_key_id: rotated.previous.id, grace_hours: graceHours },
+    });
+
+    res.json({ key: rotated.record, secret: rotated.secret, previous: rotated.previous });
+  } catch (err) {
+    console.error('[api-keys] Rotate error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to rotate API key' });
+  }
+});
+
+/**
+ * DELETE /:keyId
+ * Revokes immediately
+ */
+router.delete('/:keyId', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const existing = await getApiKey(workspaceId, req.params.keyId as string);
+    if (!existing) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+
+    const record = await revokeApiKey(workspaceId, existing.id, req.user?.user_id || null);
+    await auditRequest(req, {
+      action: 'api_key.revoked',
+      resourceType: 'api_key',
+      resourceId: existing.id,
+      metadata: { name: existing.name },
+    });
+
+    res.json({ key: record });
+  } catch (err) {
+    console.error('[api-keys] Revoke error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
@@ -0,0 +1,178 @@
+/**
+ * Workspace Audit Log API
+ *
+ * Read-only access to the append-only audit stream, CSV/JSONL export and
+ * the retention policy. All routes mounted at /api/workspaces/:workspaceId/audit
+ * and restricted to workspace admins.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
+import {
+  listAuditEvents,
+  iterateAuditEvents,
+  auditEventToCsvRow,
+  auditRequest,
+  getAuditRetentionDays,
+  setAuditRetentionDays,
+  AUDIT_CSV_COLUMNS,
+  MIN_RETENTION_DAYS,
+  MAX_RETENTION_DAYS,
+  type AuditOutcome,
+  type AuditQueryFilters,
+} from '../audit/audit-log.js';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireRole('admin'));
+router.use(requirePermission('settings.manage'));
+
+const OUTCOMES: AuditOutcome[] = ['success', 'failure', 'denied'];
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseFilters(q: Request['query']): AuditQueryFilters | { error: string } {
+  const outcome = str(q.outcome);
+  if (outcome && !OUTCOMES.includes(outcome as AuditOutcome)) {
+    return { error: `outcome must be one of: ${OUTCOMES.join(', ')}` };
+  }
+  for (const key of ['since', 'until'] as const) {
+    const value = str(q[key]);
+    if (value && Number.isNaN(Date.parse(value))) {
+      return { error: `${key} must be an ISO date` };
+    }
+  }
+  const before = str(q.before);
+  if (before && !/^\d+$/.test(before)) {
+    return { error: 'before must be a cursor returned by a previous page' };
+  }
+
+  return {
+    category: str(q.category),
+    action: str(q.action),
+    actorId: str(q.actor_id),
+    actorEmail: str(q.actor_email),
+    resourceType: str(q.resource_type),
+    resourceId: str(q.resource_id),
+    outcome: outcome as AuditOutcome | undefined,
+    since: str(q.since),
+    until: str(q.until),
+    before,
+    limit: q.limit ? parseInt(String(q.limit), 10) || undefined : undefined,
+  };
+}
+
+/**
+ * GET /
+ * Filter: category, action, actor_id, actor_email, resource_type, resource_id,
+ * outcome, since, until. Paginate newest-first with limit + before=next_cursor.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const filters = parseFilters(req.query);
+    if ('error' in filters) {
+      res.status(400).json({ error: filters.error });
+      return;
+    }
+
+    res.json(await listAuditEvents(workspaceId, filters));
+  } catch (err) {
+    console.error('[audit] List error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load audit log' });
+  }
+});
+
+/**
+ * GET /export?format=csv|jsonl
+ * Streams every event matching the same filters as GET /
+ */
+router.get('/export', async (req: Request, res: Response) => {
+  const workspaceId = req.params.workspaceId as string;
+  const format = req.query.format === 'jsonl' ? 'jsonl' : 'csv';
+  const filters = parseFilters(req.query);
+  if ('error' in filters) {
+    res.status(400).json({ error: filters.error });
+    return;
+  }
+  const { before: _before, limit: _limit, ...exportFilters } = filters;
+
+  // The export itself is an auditable event, recorded before streaming starts
+  await auditRequest(req, {
+    action: 'audit.exported',
+    resourceType: 'audit_log',
+    metadata: { format, filters: exportFilters },
+  });
+
+  const filename = `audit_log_${workspaceId}_${new Date().toISOString().split('T')[0]}.${format}`;
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  let rows = 0;
+  try {
+    if (format === 'csv') res.write(`${AUDIT_CSV_COLUMNS.join(',')}\n`);
+    for await (const event of iterateAuditEvents(workspaceId, exportFilters)) {
+      res.write(format === 'csv' ? `${auditEventToCsvRow(event)}\n` : `${JSON.stringify(event)}\n`);
+      rows++;
+    }
+    res.end();
+  } catch (err) {
+    console.error(`[audit] Export failed after ${rows} rows:`, err instanceof Error ? err.message : err);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export audit log' });
+    } else {
+      res.destroy(err instanceof Error ? err : undefined);
+    }
+  }
+});
+
+/**
+ * GET /retention
+ */
+router.get('/retention', async (req: Request, res: Response) => {
+  try {
+    const days = await getAuditRetentionDays(req.params.workspaceId as string);
+    if (days === null) {
+      res.status(404).json({ error: 'Workspace not found' });
+      return;
+    }
+    res.json({ retention_days: days, min_days: MIN_RETENTION_DAYS, max_days: MAX_RETENTION_DAYS });
+  } catch (err) {
+    console.error('[audit] Get retention error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load retention policy' });
+  }
+});
+
+/**
+ * PUT /retention
+ * Body: { retention_days }
+ */
+router.put('/retention', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const days = Number(req.body?.retention_days);
+    if (!Number.isInteger(days) || days < MIN_RETENTION_DAYS || days > MAX_RETENTION_DAYS) {
+      res.status(400).json({ error: `retention_days must be an integer between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS}` });
+      return;
+    }
+
+    const previous = await getAuditRetentionDays(workspaceId);
+    await setAuditRetentionDays(workspaceId, days);
+    await auditRequest(req, {
+      action: 'audit.retention_changed',
+      resourceType: 'workspace',
+      resourceId: workspaceId,
+      metadata: { previous_days: previous, retention_days: days },
+    });
+
+    res.json({ retention_days: days });
+  } catch (err) {
+    console.error('[audit] Set retention error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to update retention policy' });
+  }
+});
+
+export default router;
@@ -24,9 +24,28 @@ import {
 import { query } from '../db.js';
 import { getEnrichmentKeys, setEnrichmentKeys } from '../lib/credential-store.js';
 import { getEnrichmentConfig } from '../enrichment/config.js';
+import { auditRequest } from '../audit/audit-log.js';
 
 const router = Router();
 
+/**
+ * Record a config section change with its previous value
+ */
+async function auditConfigChange(
+  req: Request,
+  section: string,
+  previous: unknown,
+  value: unknown,
+  updatedBy: string | undefined
+): Promise<void> {
+  await auditRequest(req, {
+    action: 'config.updated',
+    resourceType: 'workspace_config',
+    resourceId: section,
+    metadata: { section, previous: previous ?? null, value, updated_by: updatedBy || null },
+  });
+}
+
 interface WorkspaceParams {
   workspaceId: string;
 }
@@ -86,8 +105,18 @@ router.put('/:workspaceId/config', requirePermission('config.edit'), async (req:
       return;
     }
 
+    const previousConfig = await getWorkspaceConfig(workspaceId);
     const newConfig = await updateWorkspaceConfig(workspaceId, updates, updatedBy);
 
+    const changedKeys = Object.keys(updates).filter(key => key !== 'updatedBy') as Array<keyof WorkspaceConfig>;
+    await auditConfigChange(
+      req,
+      'config',
+      Object.fromEntries(changedKeys.map(key => [key, previousConfig[key] ?? null])),
+      Object.fromEntries(changedKeys.map(key => [key, newConfig[key] ?? null])),
+      updatedBy
+    );
+
     res.json({
       success: true,
       message: 'Configuration updated',
@@ -125,7 +154,9 @@ router.put('/:workspaceId/config/stage-mapping', requirePermission('config.edit'
       return;
     }
 
+    const previous = (await getWorkspaceConfig(workspaceId)).stage_mapping;
     await setStageMapping(workspaceId, mapping, updatedBy);
+    await auditConfigChange(req, 'stage_mapping', previous, mapping, updatedBy);
 
     res.json({
       success: true,
@@ -164,7 +195,9 @@ router.put('/:workspaceId/config/department-patterns', requirePermission('config
       return;
     }
 
+    const previous = (await getWorkspaceConfig(workspaceId)).department_patterns;
     await setDepartmentPatterns(workspaceId, patterns, updatedBy);
+    await auditConfigChange(req, 'department_patterns', previous, patterns, updatedBy);
 
     res.json({
       success: true,
@@ -203,7 +236,9 @@ router.put('/:workspaceId/config/role-field-mappings', requirePermission('config
       return;
     }
 
+    const previous = (await getWorkspaceConfig(workspaceId)).role_field_mappings;
     await setRoleFieldMappings(workspaceId, mappings, updatedBy);
+    await auditConfigChange(req, 'role_field_mappings', previous, mappings, updatedBy);
 
     res.json({
       success: true,
@@ -242,7 +277,9 @@ router.put('/:workspaceId/config/grade-thresholds', requirePermission('config.ed
       return;
     }
 
+    const previous = (await getWorkspaceConfig(workspaceId)).grade_thresholds;
     await setGradeThresholds(workspaceId, thresholds, updatedBy);
+    await auditConfigChange(req, 'grade_thresholds', previous, thresholds, updatedBy);
 
     res.json({
       success: true,
@@ -390,6 +427,14 @@ router.put('/:workspaceId/config/enrichment', requirePermission('config.edit'),
       );
     }
 
+    // Key values are never written to the audit log, only which keys changed
+    await auditRequest(req, {
+      action: 'config.updated',
+      resourceType: 'workspace_config',
+      resourceId: 'enrichment',
+      metadata: { section: 'enrichment', api_keys_changed: Object.keys(newKeys), value: newMetadata },
+    });
+
     res.json({
       success: true,
       message: 'Enrichment configuration updated',
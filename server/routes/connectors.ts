@@ -11,6 +11,10 @@ import {
 import { upsertTasks, upsertDocuments } from '../connectors/adapters/db-upsert.js';
 import { requirePermission } from '../middleware/permissions.js';
 import { syncGoogleCalendar } from '../connectors/google-calendar/adapter.js';
+import { syncMicrosoft365 } from '../connectors/microsoft-365/adapter.js';
+import { zoomAdapter } from '../connectors/zoom/adapter.js';
+import { chorusAdapter } from '../connectors/chorus/adapter.js';
+import { syncWorkspace } from '../sync/orchestrator.js';
 
 const router = Router();
 
@@ -374,6 +378,278 @@ router.get('/:workspaceId/connectors/google-calendar/health', async (req: Reques
   }
 });
 
+// ============================================================================
+// Microsoft 365 Routes
+// ============================================================================
+
+router.post('/:workspaceId/connectors/microsoft-365/sync', async (req: Request<WorkspaceParams>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+
+    const conn = await getCredentials(workspaceId, 'microsoft-365');
+    if (!conn) {
+      res.status(404).json({ error: 'Microsoft 365 connection not found. Connect first.' });
+      return;
+    }
+
+    if (conn.status === 'disconnected') {
+      res.status(400).json({ error: 'Microsoft 365 connection is disconnected.' });
+      return;
+    }
+
+    await updateSyncStatus(workspaceId, 'microsoft-365', 'syncing');
+
+    const result = await syncMicrosoft365(workspaceId);
+
+    await updateSyncStatus(workspaceId, 'microsoft-365', 'synced');
+
+    res.json({
+      success: true,
+      synced: result.synced,
+      resolved: result.resolved,
+      emails: result.emails,
+      emailsLinked: result.emailsLinked,
+      errors: result.errors,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Microsoft 365 Route] Sync error:', message);
+    await updateSyncStatus(req.params.workspaceId, 'microsoft-365', 'error', message).catch(() => {});
+    res.status(500).json({ error: message });
+  }
+});
+
+router.get('/:workspaceId/connectors/microsoft-365/health', async (req: Request<WorkspaceParams>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+
+    const result = await dbQuery<{ status: string; last_sync_at: Date | null; metadata: Record<string, any> | null }>(
+      `SELECT status, last_sync_at, metadata FROM connections
+       WHERE workspace_id = $1 AND connector_name = 'microsoft-365'`,
+      [workspaceId]
+    );
+    const conn = result.rows[0];
+    if (!conn) {
+      res.json({ connected: false, status: 'not_connected' });
+      return;
+    }
+
+    res.json({
+      connected: true,
+      status: conn.status,
+      lastSyncAt: conn.last_sync_at,
+      syncEmail: conn.metadata?.sync_email === true,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Microsoft 365 Route] Health check error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Toggle email metadata sync without re-running OAuth
+router.patch('/:workspaceId/connectors/microsoft-365/settings', requirePermission('config.edit'), async (req: Request<{ workspaceId: string }>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+    const { sync_email } = req.body || {};
+
+    if (typeof sync_email !== 'boolean') {
+      res.status(400).json({ error: 'sync_email must be a boolean' });
+      return;
+    }
+
+    const result = await dbQuery(
+      `UPDATE connections
+       SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('sync_email', $2::boolean),
+           updated_at = NOW()
+       WHERE workspace_id = $1 AND connector_name = 'microsoft-365'`,
+      [workspaceId, sync_email]
+    );
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: 'Microsoft 365 connection not found. Connect first.' });
+      return;
+    }
+
+    res.json({ success: true, syncEmail: sync_email });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Microsoft 365 Route] Settings error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ============================================================================
+// Zoom Routes
+// ============================================================================
+
+router.post('/:workspaceId/connectors/zoom/connect', requirePermission('connectors.connect'), async (req: Request<{ workspaceId: string }>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+    const { accountId, clientId, clientSecret } = req.body;
+
+    if (!accountId || !clientId || !clientSecret) {
+      res.status(400).json({ error: 'accountId, clientId and clientSecret are required' });
+      return;
+    }
+
+    const testResult = await zoomAdapter.testConnection({ accountId, clientId, clientSecret });
+    if (!testResult.success) {
+      res.status(400).json({ error: `Connection test failed: ${testResult.error}` });
+      return;
+    }
+
+    const connection = await storeCredentials(workspaceId, 'zoom', 'api_key', { accountId, clientId, clientSecret });
+
+    res.json({
+      success: true,
+      connectionId: connection.id,
+      message: 'Zoom connected successfully',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Zoom Route] Connect error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+router.post('/:workspaceId/connectors/zoom/sync', requirePermission('connectors.trigger_sync'), async (req: Request<{ workspaceId: string }>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+    const { mode } = req.body as { mode?: 'initial' | 'incremental' };
+
+    const conn = await getCredentials(workspaceId, 'zoom');
+    if (!conn) {
+      res.status(404).json({ error: 'Zoom connection not found. Connect first.' });
+      return;
+    }
+
+    // Orchestrator stores status/cursor and runs the linker + participant resolution afterwards
+    const [result] = await syncWorkspace(workspaceId, { connectors: ['zoom'], mode });
+
+    if (result.status === 'error') {
+      res.status(500).json({ error: result.message });
+      return;
+    }
+    res.json({ success: result.status === 'success', ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Zoom Route] Sync error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+router.get('/:workspaceId/connectors/zoom/health', async (req: Request<WorkspaceParams>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+
+    const conn = await getCredentials(workspaceId, 'zoom');
+    if (!conn) {
+      res.json({ connected: false, status: 'not_connected' });
+      return;
+    }
+
+    const healthResult = await zoomAdapter.health(conn.credentials);
+
+    res.json({
+      connected: true,
+      status: conn.status,
+      lastSyncAt: conn.last_sync_at,
+      healthy: healthResult.healthy,
+      details: healthResult.details,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Zoom Route] Health check error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ============================================================================
+// Chorus Routes
+// ============================================================================
+
+router.post('/:workspaceId/connectors/chorus/connect', requirePermission('connectors.connect'), async (req: Request<{ workspaceId: string }>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+    const { apiKey } = req.body;
+
+    if (!apiKey) {
+      res.status(400).json({ error: 'apiKey is required' });
+      return;
+    }
+
+    const testResult = await chorusAdapter.testConnection({ apiKey });
+    if (!testResult.success) {
+      res.status(400).json({ error: `Connection test failed: ${testResult.error}` });
+      return;
+    }
+
+    const connection = await storeCredentials(workspaceId, 'chorus', 'api_key', { apiKey });
+
+    res.json({
+      success: true,
+      connectionId: connection.id,
+      message: 'Chorus connected successfully',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Chorus Route] Connect error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+router.post('/:workspaceId/connectors/chorus/sync', requirePermission('connectors.trigger_sync'), async (req: Request<{ workspaceId: string }>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+    const { mode } = req.body as { mode?: 'initial' | 'incremental' };
+
+    const conn = await getCredentials(workspaceId, 'chorus');
+    if (!conn) {
+      res.status(404).json({ error: 'Chorus connection not found. Connect first.' });
+      return;
+    }
+
+    // Orchestrator stores status/cursor and runs the linker + participant resolution afterwards
+    const [result] = await syncWorkspace(workspaceId, { connectors: ['chorus'], mode });
+
+    if (result.status === 'error') {
+      res.status(500).json({ error: result.message });
+      return;
+    }
+    res.json({ success: result.status === 'success', ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Chorus Route] Sync error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+router.get('/:workspaceId/connectors/chorus/health', async (req: Request<WorkspaceParams>, res: Response) => {
+  try {
+    const { workspaceId } = req.params;
+
+    const conn = await getCredentials(workspaceId, 'chorus');
+    if (!conn) {
+      res.json({ connected: false, status: 'not_connected' });
+      return;
+    }
+
+    const healthResult = await chorusAdapter.health(conn.credentials);
+
+    res.json({
+      connected: true,
+      status: conn.status,
+      lastSyncAt: conn.last_sync_at,
+      healthy: healthResult.healthy,
+      details: healthResult.details,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Chorus Route] Health check error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
 router.post('/:workspaceId/connectors/google-drive/content/:sourceId', async (req: Request<WorkspaceParams & { sourceId: string }>, res: Response) => {
   try {
     const { workspaceId, sourceId } = req.params;
@@ -22,6 +22,7 @@ import { waterfallAnalysis } from '../analysis/waterfall-analysis.js';
 import { buildSankeyChartData } from '../analysis/sankey-builder.js';
 import { computeWinningPaths } from '../analysis/winning-paths.js';
 import { PandoraResponseBuilder } from '../lib/pandora-response-builder.js';
+import { callLLM } from '../utils/llm-router.js';
 import axios from 'axios';
 import type { InvestigationStep } from '../goals/types.js';
 
@@ -220,31 +221,25 @@ router.post('/:workspaceId/conversation/stream', async (req: Request, res: Respo
   try {
     // ── Opening brief delivery (new conversation + brief assembled) ─────────
     // When a user opens a new conversation and we have a brief, skip normal
-    // Tier routing and route directly through the Anthropic stream so Claude
-    // has full token budget and unmodified synthesis instructions.
+    // Tier routing and go straight to synthesis so the model has full token
+    // budget and unmodified synthesis instructions. The call goes through the
+    // LLM router so the workspace's PII policy and local-only setting apply.
     if (isNewConversation && briefContextBlock && userId) {
       sse(res, { type: 'synthesis_start' });
-      const { default: Anthropic } = await import('@anthropic-ai/sdk');
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY || process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY });
       const systemForBrief = [
         BRIEF_SYSTEM_PROMPT,
         contextBlock,
         dictionaryContextBlock,
         dealContextBlock,
       ].filter(Boolean).join('\n\n');
-      const stream = anthropic.messages.stream({
-        model: 'claude-sonnet-4-5',
-        max_tokens: 1024,
-        system: systemForBrief,
+      const briefResponse = await callLLM(workspaceId, 'reason', {
+        maxTokens: 1024,
+        systemPrompt: systemForBrief,
         messages: [{ role: 'user', content: effectiveMessage }],
+        _tracking: { workspaceId, phase: 'chat', stepName: 'opening-brief' },
       });
-      let fullBriefText = '';
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta' && event.delta.text) {
-          fullBriefText += event.delta.text;
-          sse(res, { type: 'synthesis_chunk', text: event.delta.text });
-        }
-      }
+      const fullBriefText = briefResponse.content;
+      if (fullBriefText) sse(res, { type: 'synthesis_chunk', text: fullBriefText });
       const briefRespId = randomUUID();
       sse(res, { type: 'synthesis_done', full_text: fullBriefText, response_id: briefRespId });
       sse(res, {
@@ -12,6 +12,7 @@ import { PANDORA_WRITABLE_FIELDS, getFieldByKey } from '../crm-writeback/pandora
 import { discoverCRMProperties } from '../crm-writeback/property-discovery.js';
 import { executeWriteBack } from '../crm-writeback/write-engine.js';
 import { reverseWrite } from '../crm-writeback/write-reverser.js';
+import { auditRequest } from '../audit/audit-log.js';
 
 const router = express.Router();
 const logger = createLogger('CRMWritebackRoutes');
@@ -436,6 +437,12 @@ router.get('/:workspaceId/crm-writeback/log/export', requirePermission('connecto
       return res.status(404).json({ error: 'No write log entries found for the specified filters' });
     }
 
+    await auditRequest(req, {
+      action: 'export.crm_write_log',
+      resourceType: 'crm_write_log',
+      metadata: { format: 'csv', row_count: rows.length, filters: { start_date, end_date, status, initiated_by } },
+    });
+
     // Build CSV header
     const headers = [
       'Write Log ID',
@@ -536,6 +543,16 @@ router.post('/:workspaceId/crm-writeback/log/:writeLogId/reverse', requirePermis
 
     const result = await reverseWrite(workspaceId, writeLogId, userId);
 
+    await auditRequest(req, {
+      action: 'crm_write.reversed',
+      resourceType: 'crm_write_log',
+      resourceId: writeLogId,
+      outcome: result.success ? 'success' : 'failure',
+      metadata: result.success
+        ? { reversal_log_id: result.reversal_log_id }
+        : { error: result.error, hours_elapsed: result.hours_elapsed },
+    });
+
     if (result.success) {
       res.json({
         success: true,
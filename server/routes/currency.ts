@@ -0,0 +1,191 @@
+/**
+ * Currency API Routes
+ *
+ * Workspace reporting currency and dated FX rate tables:
+ * - Get / set the reporting currency
+ * - List, add, import (CSV) and delete FX rates
+ *
+ * Every write re-converts stored deal amounts so deals.amount stays in the
+ * reporting currency.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { requirePermission } from '../middleware/permissions.js';
+import { configLoader } from '../config/workspace-config-loader.js';
+import {
+  listFxRates,
+  upsertFxRates,
+  deleteFxRate,
+  validateFxRate,
+  parseFxRatesCsv,
+  normalizeCurrencyCode,
+  reconvertDealAmounts,
+  getCurrencyBreakdown,
+  type FxRate,
+} from '../currency/fx-rates.js';
+
+const router = Router();
+
+const MAX_RATES_PER_REQUEST = 5000;
+
+/**
+ * GET /api/workspaces/:workspaceId/currency
+ * Reporting currency plus the currency mix of the workspace's deals
+ */
+router.get('/:workspaceId/currency', async (req: Request, res: Response) => {
+  try {
+    const { workspaceId } = req.params as Record<string, string>;
+    const [reportingCurrency, breakdown] = await Promise.all([
+      configLoader.getReportingCurrency(workspaceId),
+      getCurrencyBreakdown(workspaceId),
+    ]);
+
+    res.json({
+      success: true,
+      reporting_currency: reportingCurrency,
+      breakdown,
+      unconverted_deals: breakdown.reduce((sum, b) => sum + b.unconverted, 0),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Currency Routes] Get currency error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:workspaceId/currency
+ * Change the reporting currency and re-convert all deal amounts
+ */
+router.put('/:workspaceId/currency', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const { workspaceId } = req.params as Record<string, string>;
+    const code = normalizeCurrencyCode(req.body?.reporting_currency);
+    if (!code) {
+      res.status(400).json({ error: 'reporting_currency must be a 3-letter ISO 4217 code' });
+      return;
+    }
+
+    await configLoader.updateCurrencyConfig(workspaceId, { reporting_currency: code });
+    const reconversion = await reconvertDealAmounts(workspaceId);
+
+    res.json({ success: true, reporting_currency: code, reconversion });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Currency Routes] Update currency error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/workspaces/:workspaceId/fx-rates
+ * List all FX rates, newest first per currency
+ */
+router.get('/:workspaceId/fx-rates', async (req: Request, res: Response) => {
+  try {
+    const { workspaceId } = req.params as Record<string, string>;
+    const rates = await listFxRates(workspaceId);
+    res.json({ success: true, rates });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Currency Routes] List FX rates error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/workspaces/:workspaceId/fx-rates
+ * Add or update rates manually. Body: { rates: [{ currency_code, rate, rate_date, base_currency? }] }
+ */
+router.post('/:workspaceId/fx-rates', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const { workspaceId } = req.params as Record<string, string>;
+    const input = Array.isArray(req.body?.rates) ? req.body.rates : [req.body];
+    if (input.length === 0 || input.length > MAX_RATES_PER_REQUEST) {
+      res.status(400).json({ error: `Provide between 1 and ${MAX_RATES_PER_REQUEST} rates` });
+      return;
+    }
+
+    const reportingCurrency = await configLoader.getReportingCurrency(workspaceId);
+    const rates: FxRate[] = [];
+    const errors: string[] = [];
+    input.forEach((raw: Record<string, unknown>, i: number) => {
+      const { rate, error } = validateFxRate(raw ?? {}, reportingCurrency);
+      if (rate) rates.push(rate);
+      else errors.push(`rates[${i}]: ${error}`);
+    });
+
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Invalid FX rates', details: errors });
+      return;
+    }
+
+    const saved = await upsertFxRates(workspaceId, rates, 'manual', (req as any).user?.user_id);
+    const reconversion = await reconvertDealAmounts(workspaceId);
+
+    res.json({ success: true, saved, reconversion });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Currency Routes] Save FX rates error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/workspaces/:workspaceId/fx-rates/import
+ * Bulk import from CSV. Body: { csv: "currency_code,rate,rate_date\nEUR,1.08,2025-01-01" }
+ * Valid rows are saved even when others fail; row errors are returned.
+ */
+router.post('/:workspaceId/fx-rates/import', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const { workspaceId } = req.params as Record<string, string>;
+    const csv = typeof req.body?.csv === 'string' ? req.body.csv : '';
+    if (!csv.trim()) {
+      res.status(400).json({ error: 'csv is required' });
+      return;
+    }
+
+    const reportingCurrency = await configLoader.getReportingCurrency(workspaceId);
+    const { rates, errors } = parseFxRatesCsv(csv, reportingCurrency);
+    if (rates.length > MAX_RATES_PER_REQUEST) {
+      res.status(400).json({ error: `CSV exceeds ${MAX_RATES_PER_REQUEST} rates` });
+      return;
+    }
+    if (rates.length === 0) {
+      res.status(400).json({ error: 'No valid rates found in CSV', details: errors });
+      return;
+    }
+
+    const saved = await upsertFxRates(workspaceId, rates, 'csv', (req as any).user?.user_id);
+    const reconversion = await reconvertDealAmounts(workspaceId);
+
+    res.json({ success: true, saved, errors, reconversion });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Currency Routes] Import FX rates error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:workspaceId/fx-rates/:rateId
+ */
+router.delete('/:workspaceId/fx-rates/:rateId', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const { workspaceId, rateId } = req.params as Record<string, string>;
+    const deleted = await deleteFxRate(workspaceId, rateId);
+    if (!deleted) {
+      res.status(404).json({ error: 'FX rate not found' });
+      return;
+    }
+
+    const reconversion = await reconvertDealAmounts(workspaceId);
+    res.json({ success: true, reconversion });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Currency Routes] Delete FX rate error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -38,7 +38,7 @@ const router = Router();
 const filterResolver = new FilterResolver();
 
 async function resolveIsAdmin(req: Request, workspaceId: string): Promise<boolean> {
-  if (req.authMethod === 'api_key') return true;
+  if (req.authMethod === 'api_key') return !req.apiKey;
   if (!req.user?.user_id) return false;
   const result = await query<{ role: string }>(
     'SELECT role FROM user_workspaces WHERE user_id = $1 AND workspace_id = $2',
@@ -12,6 +12,7 @@ import * as os from 'os';
 import { randomUUID } from 'crypto';
 import { renderDeliverable, renderMultiple } from '../renderers/registry.js';
 import { query } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
 import type { RendererInput, RenderOptions, BrandingConfig } from '../renderers/types.js';
 import { assemblePipelineReview, assembleForecast } from '../renderers/data-assembler.js';
 import { renderPipelineReviewXLSX } from '../renderers/pipeline-review-xlsx.js';
@@ -279,6 +280,7 @@ async function assembleRendererInput(
       name: workspace.name,
       branding: workspace.branding,
       voice: workspace.voice_config,
+      currency: await configLoader.getReportingCurrency(workspaceId),
     },
     options: options || {
       detail_level: 'summary_and_data',
@@ -0,0 +1,166 @@
+/**
+ * Data Subject Request API (GDPR/CCPA)
+ *
+ * Locate, export and erase everything the workspace holds about a person.
+ * All routes mounted at /api/workspaces/:workspaceId/dsr and restricted to
+ * workspace admins. Audit events carry the masked email, never the address
+ * itself.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
+import { auditRequest, requestContext } from '../audit/audit-log.js';
+import { maskEmail, parseDataSubject } from '../dsr/subject.js';
+import {
+  eraseSubjectData,
+  exportSubjectData,
+  getDsrRequest,
+  isSuppressed,
+  listDsrRequests,
+  listSuppressions,
+  previewSubject,
+} from '../dsr/requests.js';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireRole('admin'));
+router.use(requirePermission('settings.manage'));
+
+/**
+ * POST /locate
+ * Body: { email, name? } — per-store match counts, nothing is recorded
+ */
+router.post('/locate', async (req: Request, res: Response) => {
+  try {
+    const subject = parseDataSubject(req.body || {});
+    if ('error' in subject) {
+      res.status(400).json({ error: subject.error });
+      return;
+    }
+
+    res.json(await previewSubject(req.params.workspaceId as string, subject));
+  } catch (err) {
+    console.error('[dsr] Locate error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to locate subject records' });
+  }
+});
+
+/**
+ * POST /export
+ * Body: { email, name? } — downloads the JSON bundle of every matched record
+ */
+router.post('/export', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const subject = parseDataSubject(req.body || {});
+    if ('error' in subject) {
+      res.status(400).json({ error: subject.error });
+      return;
+    }
+
+    const { request, bundle } = await exportSubjectData(workspaceId, subject, requestContext(req).actor || null);
+    await auditRequest(req, {
+      action: 'dsr.exported',
+      resourceType: 'data_subject_request',
+      resourceId: request.id,
+      metadata: { subject: maskEmail(subject.email), counts: bundle.counts },
+    });
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="dsr_export_${request.id}.json"`);
+    res.send(JSON.stringify(bundle, null, 2));
+  } catch (err) {
+    console.error('[dsr] Export error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to export subject data' });
+  }
+});
+
+/**
+ * POST /erase
+ * Body: { email, name?, confirm: true } — pseudonymizes or deletes every
+ * matched record, suppresses the email for future syncs, and returns the
+ * verification report
+ */
+router.post('/erase', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const subject = parseDataSubject(req.body || {});
+    if ('error' in subject) {
+      res.status(400).json({ error: subject.error });
+      return;
+    }
+    if (req.body?.confirm !== true) {
+      res.status(400).json({ error: 'Erasure is irreversible; pass confirm: true to proceed' });
+      return;
+    }
+
+    const request = await eraseSubjectData(workspaceId, subject, requestContext(req).actor || null);
+    await auditRequest(req, {
+      action: 'dsr.erased',
+      resourceType: 'data_subject_request',
+      resourceId: request.id,
+      outcome: request.report?.verified ? 'success' : 'failure',
+      metadata: {
+        subject: request.subject_label,
+        total_affected: request.report?.total_affected,
+        total_remaining: request.report?.total_remaining,
+      },
+    });
+
+    res.json(request);
+  } catch (err) {
+    console.error('[dsr] Erase error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to erase subject data' });
+  }
+});
+
+/**
+ * GET /requests?limit=
+ */
+router.get('/requests', async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || 50 : 50;
+    res.json({ requests: await listDsrRequests(req.params.workspaceId as string, limit) });
+  } catch (err) {
+    console.error('[dsr] List error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load data subject requests' });
+  }
+});
+
+/**
+ * GET /requests/:requestId
+ */
+router.get('/requests/:requestId', async (req: Request, res: Response) => {
+  try {
+    const request = await getDsrRequest(req.params.workspaceId as string, req.params.requestId as string);
+    if (!request) {
+      res.status(404).json({ error: 'Request not found' });
+      return;
+    }
+    res.json(request);
+  } catch (err) {
+    console.error('[dsr] Get error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load data subject request' });
+  }
+});
+
+/**
+ * GET /suppressions?email=
+ * Lists hashed suppressions, or checks a single email when one is given
+ */
+router.get('/suppressions', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    if (typeof req.query.email === 'string' && req.query.email.trim()) {
+      res.json({ suppressed: await isSuppressed(workspaceId, req.query.email) });
+      return;
+    }
+    res.json({ suppressions: await listSuppressions(workspaceId) });
+  } catch (err) {
+    console.error('[dsr] Suppressions error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load suppressions' });
+  }
+});
+
+export default router;
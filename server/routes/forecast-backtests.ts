@@ -0,0 +1,79 @@
+/**
+ * Forecast Backtest API Routes
+ *
+ * POST /:workspaceId/forecast/backtests            queue a backtest run
+ * GET  /:workspaceId/forecast/backtests            list runs (calibration only)
+ * GET  /:workspaceId/forecast/backtests/:backtestId full per-quarter results
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { getJobQueue } from '../jobs/queue.js';
+import {
+  resolveBacktestParams,
+  createBacktest,
+  getBacktest,
+  listBacktests,
+} from '../analysis/forecast-backtest.js';
+
+const router = Router();
+
+router.post('/:workspaceId/forecast/backtests', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const body = req.body || {};
+    const params = resolveBacktestParams({
+      quarters: body.quarters,
+      snapshotOffsetDays: body.snapshot_offset_days,
+      iterations: body.iterations,
+      segmentBy: body.segment_by,
+      lookbackMonths: body.lookback_months,
+    });
+
+    const backtestId = await createBacktest(workspaceId, params, (req as any).user?.user_id ?? null);
+    const jobId = await getJobQueue().createJob({
+      workspaceId,
+      jobType: 'forecast_backtest',
+      payload: { backtestId },
+      maxAttempts: 1,
+      timeoutMs: 900000,
+    });
+
+    res.status(202).json({ backtest_id: backtestId, job_id: jobId, params });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[forecast-backtests] create error:', msg);
+    res.status(500).json({ error: msg });
+  }
+});
+
+router.get('/:workspaceId/forecast/backtests', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const backtests = await listBacktests(workspaceId, limit);
+    res.json({ backtests });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[forecast-backtests] list error:', msg);
+    res.status(500).json({ error: msg });
+  }
+});
+
+router.get('/:workspaceId/forecast/backtests/:backtestId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const backtestId = req.params.backtestId as string;
+    const backtest = await getBacktest(workspaceId, backtestId);
+    if (!backtest) {
+      res.status(404).json({ error: 'Backtest not found' });
+      return;
+    }
+    res.json(backtest);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[forecast-backtests] get error:', msg);
+    res.status(500).json({ error: msg });
+  }
+});
+
+export default router;
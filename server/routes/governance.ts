@@ -12,6 +12,7 @@ import { applyChange } from '../governance/rollback-engine.js';
 import { rollbackChange } from '../governance/rollback-engine.js';
 import { compareBeforeAfter } from '../governance/comparison-engine.js';
 import { updateComparison } from '../governance/db.js';
+import { auditRequest } from '../audit/audit-log.js';
 
 const router = express.Router();
 
@@ -205,6 +206,13 @@ router.post('/:workspaceId/governance/:governanceId/approve', async (req, res) =
       ]
     );
 
+    await auditRequest(req, {
+      action: 'governance.approved',
+      resourceType: 'skill_governance',
+      resourceId: governanceId,
+      metadata: { approved_by, change_type: record.change_type, change_description: record.change_description },
+    });
+
     res.json({
       deployed: true,
       trial_expires: trialExpires.toISOString(),
@@ -234,6 +242,12 @@ router.post('/:workspaceId/governance/:governanceId/reject', async (req, res) =>
     }
 
     await updateStatus(governanceId, 'rejected', rejected_by || 'admin', reason || 'Rejected by admin');
+    await auditRequest(req, {
+      action: 'governance.rejected',
+      resourceType: 'skill_governance',
+      resourceId: governanceId,
+      metadata: { rejected_by: rejected_by || null, reason: reason || null, change_type: record.change_type },
+    });
     res.json({ rejected: true });
   } catch (err) {
     console.error('[Governance] Reject failed:', err);
@@ -261,6 +275,13 @@ router.post('/:workspaceId/governance/:governanceId/rollback', async (req, res)
       return res.status(400).json({ error: result.error });
     }
 
+    await auditRequest(req, {
+      action: 'governance.rolled_back',
+      resourceType: 'skill_governance',
+      resourceId: governanceId,
+      metadata: { rolled_back_by: rolled_back_by || null, reason: reason || null },
+    });
+
     res.json({ rolled_back: true, restored: result.restored });
   } catch (err) {
     console.error('[Governance] Rollback failed:', err);
@@ -285,6 +306,12 @@ router.delete('/:workspaceId/governance/:governanceId', async (req, res) => {
     }
 
     await query(`DELETE FROM skill_governance WHERE id = $1`, [governanceId]);
+    await auditRequest(req, {
+      action: 'governance.deleted',
+      resourceType: 'skill_governance',
+      resourceId: governanceId,
+      metadata: { status: record.status, change_type: record.change_type },
+    });
     res.json({ deleted: true });
   } catch (err) {
     console.error('[Governance] Delete failed:', err);
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { requirePermission, requireAnyPermission } from '../middleware/permissions.js';
 import { getLLMConfig, updateLLMConfig, getLLMUsage, clearConfigCache } from '../utils/llm-router.js';
+import { getLocalBaseURL, listLocalModels } from '../llm/local-provider.js';
+import { normalizePiiPolicy } from '../llm/pii-scrubber.js';
 import { query } from '../db.js';
 
 const router = Router();
@@ -19,10 +21,10 @@ router.get('/:id/llm/config', async (req: Request, res: Response) => {
 router.post('/:id/llm/config', async (req: Request, res: Response) => {
   try {
     const workspaceId = req.params.id as string;
-    const { routing, providers, default_token_budget } = req.body;
+    const { routing, providers, default_token_budget, pii_policy } = req.body;
 
     if (routing) {
-      const validCapabilities = ['extract', 'reason', 'generate', 'classify'];
+      const validCapabilities = ['extract', 'reason', 'generate', 'classify', 'intent_classify', 'compress', 'embed'];
       for (const key of Object.keys(routing)) {
         if (!validCapabilities.includes(key)) {
           res.status(400).json({ error: `Invalid capability '${key}'. Must be one of: ${validCapabilities.join(', ')}` });
@@ -34,6 +36,10 @@ router.post('/:id/llm/config', async (req: Request, res: Response) => {
           res.status(400).json({ error: `Invalid routing format for '${key}': must be 'provider/model' or { primary: 'provider/model' }` });
           return;
         }
+        if (key === 'embed' && /^(anthropic|perplexity)\//.test(primaryRoute)) {
+          res.status(400).json({ error: "Invalid routing for 'embed': use an openai, google, fireworks or local embedding model" });
+          return;
+        }
         if (typeof entry === 'object' && entry.fallback && !entry.fallback.includes('/')) {
           res.status(400).json({ error: `Invalid fallback format for '${key}': must be 'provider/model'` });
           return;
@@ -41,6 +47,30 @@ router.post('/:id/llm/config', async (req: Request, res: Response) => {
       }
     }
 
+    const local = providers?.local;
+    if (local) {
+      if (local.baseURL && !/^https?:\/\/[^\s]+$/.test(local.baseURL)) {
+        res.status(400).json({ error: "providers.local.baseURL must be an http(s) URL, e.g. 'http://vllm.internal:8000/v1'" });
+        return;
+      }
+      if (local.localOnly && !local.defaultModel) {
+        res.status(400).json({ error: 'providers.local.defaultModel is required when localOnly is enabled' });
+        return;
+      }
+    }
+
+    if (pii_policy !== undefined) {
+      if (!pii_policy || typeof pii_policy !== 'object' || Array.isArray(pii_policy)) {
+        res.status(400).json({ error: 'pii_policy must be an object, e.g. { enabled: true, names: true, customFields: [] }' });
+        return;
+      }
+      if (pii_policy.customFields !== undefined && !Array.isArray(pii_policy.customFields)) {
+        res.status(400).json({ error: 'pii_policy.customFields must be an array of custom field keys' });
+        return;
+      }
+    }
+    const piiPolicy = pii_policy !== undefined ? normalizePiiPolicy(pii_policy) : undefined;
+
     const existing = await query(
       'SELECT id FROM llm_configs WHERE workspace_id = $1',
       [workspaceId]
@@ -48,8 +78,8 @@ router.post('/:id/llm/config', async (req: Request, res: Response) => {
 
     if (existing.rows.length === 0) {
       await query(
-        `INSERT INTO llm_configs (workspace_id, providers, routing, default_token_budget)
-         VALUES ($1, $2, $3, $4)`,
+        `INSERT INTO llm_configs (workspace_id, providers, routing, default_token_budget, pii_policy)
+         VALUES ($1, $2, $3, $4, $5)`,
         [
           workspaceId,
           JSON.stringify(providers || {}),
@@ -60,10 +90,11 @@ router.post('/:id/llm/config', async (req: Request, res: Response) => {
             classify: 'fireworks/deepseek-v3-0324',
           }),
           default_token_budget || 50000,
+          JSON.stringify(piiPolicy || {}),
         ]
       );
     } else {
-      await updateLLMConfig(workspaceId, { routing, providers, default_token_budget });
+      await updateLLMConfig(workspaceId, { routing, providers, default_token_budget, pii_policy: piiPolicy });
     }
 
     clearConfigCache(workspaceId);
@@ -77,6 +108,28 @@ router.post('/:id/llm/config', async (req: Request, res: Response) => {
   }
 });
 
+router.get('/:id/llm/local/models', async (req: Request, res: Response) => {
+  try {
+    const result = await query<{ providers: any }>(
+      'SELECT providers FROM llm_configs WHERE workspace_id = $1',
+      [req.params.id as string]
+    );
+    const local = result.rows[0]?.providers?.local;
+    const baseURL = getLocalBaseURL(local?.baseURL);
+    if (!baseURL) {
+      res.status(400).json({ error: 'No local LLM base URL configured' });
+      return;
+    }
+
+    const models = await listLocalModels(baseURL, local?.apiKey || process.env.LOCAL_LLM_API_KEY);
+    res.json({ baseURL, models });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[LLM Config] Local models error:', msg);
+    res.status(502).json({ error: `Could not reach local LLM server: ${msg}` });
+  }
+});
+
 router.get('/:id/llm/usage', async (req: Request, res: Response) => {
   try {
     const usage = await getLLMUsage(req.params.id as string);
@@ -0,0 +1,172 @@
+/**
+ * Remote MCP endpoint (Streamable HTTP).
+ *
+ * Clients authenticate every request with a bearer token — a user session
+ * token, a scoped API key (IP allowlist and rate limit apply) or the legacy
+ * workspace key. The initialize request opens an MCP session bound to that
+ * principal, starting in the workspace named by the path
+ * (/api/mcp/:workspaceId), ?workspace_id= or the X-Pandora-Workspace header
+ * (default: the key's workspace, or the user's first workspace). Later
+ * requests carry the Mcp-Session-Id header and must come from the same
+ * principal.
+ */
+
+import { randomUUID } from 'crypto';
+import { Router, type Request, type Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { extractBearerToken } from '../middleware/auth.js';
+import { checkApiKeyRequest } from '../api-keys/store.js';
+import {
+  authenticateMcpToken,
+  listPrincipalWorkspaces,
+  principalKey,
+  resolveMcpContext,
+  type McpPrincipal,
+} from '../mcp/access.js';
+import { createMcpServer, type McpSessionState } from '../mcp/server.js';
+
+const router = Router();
+
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  principalKey: string;
+  state: McpSessionState;
+  lastSeen: number;
+}
+
+const sessions = new Map<string, HttpSession>();
+
+const evictionTimer = setInterval(() => {
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  for (const [id, session] of sessions) {
+    if (session.lastSeen < cutoff) {
+      sessions.delete(id);
+      session.transport.close().catch(() => {});
+    }
+  }
+}, 60 * 1000);
+evictionTimer.unref();
+
+function jsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+async function authenticate(req: Request, res: Response): Promise<McpPrincipal | null> {
+  const token = extractBearerToken(req);
+  const principal = token ? await authenticateMcpToken(token) : null;
+  if (!principal) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    jsonRpcError(res, 401, 'Authentication required');
+    return null;
+  }
+
+  if (principal.type === 'api_key' && principal.apiKey) {
+    const denial = checkApiKeyRequest(principal.apiKey, req.ip);
+    if (denial) {
+      if (denial.retryAfterSeconds) res.setHeader('Retry-After', String(denial.retryAfterSeconds));
+      jsonRpcError(res, denial.status, denial.error);
+      return null;
+    }
+  }
+  return principal;
+}
+
+function requestedWorkspace(req: Request): string | null {
+  if (req.params.workspaceId) return req.params.workspaceId as string;
+  const fromQuery = req.query.workspace_id;
+  if (typeof fromQuery === 'string' && fromQuery) return fromQuery;
+  const fromHeader = req.headers['x-pandora-workspace'];
+  return typeof fromHeader === 'string' && fromHeader ? fromHeader : null;
+}
+
+async function openSession(principal: McpPrincipal, workspaceId: string | null): Promise<HttpSession | null> {
+  const initialWorkspace = workspaceId
+    ?? (await listPrincipalWorkspaces(principal))[0]?.id
+    ?? null;
+  if (!initialWorkspace) return null;
+
+  const context = await resolveMcpContext(principal, initialWorkspace);
+  if (!context) return null;
+
+  const state: McpSessionState = { principal, context };
+  const session: HttpSession = {
+    transport: new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, session);
+      },
+      onsessionclosed: (sessionId) => {
+        sessions.delete(sessionId);
+      },
+    }),
+    server: createMcpServer(initialWorkspace, state),
+    principalKey: principalKey(principal),
+    state,
+    lastSeen: Date.now(),
+  };
+
+  session.transport.onclose = () => {
+    if (session.transport.sessionId) sessions.delete(session.transport.sessionId);
+  };
+  await session.server.connect(session.transport);
+  return session;
+}
+
+async function handle(req: Request, res: Response): Promise<void> {
+  try {
+    const principal = await authenticate(req, res);
+    if (!principal) return;
+
+    const sessionId = req.headers['mcp-session-id'];
+    let session: HttpSession | null | undefined;
+
+    if (typeof sessionId === 'string') {
+      session = sessions.get(sessionId);
+      if (!session) {
+        jsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      if (session.principalKey !== principalKey(principal)) {
+        jsonRpcError(res, 403, 'Session belongs to a different caller');
+        return;
+      }
+      // A user removed from the workspace loses access mid-session
+      const refreshed = await resolveMcpContext(principal, session.state.context.workspaceId);
+      if (!refreshed) {
+        sessions.delete(sessionId);
+        session.transport.close().catch(() => {});
+        jsonRpcError(res, 403, 'Workspace access revoked');
+        return;
+      }
+      session.state.context = refreshed;
+    } else if (req.method === 'POST' && isInitializeRequest(req.body)) {
+      session = await openSession(principal, requestedWorkspace(req));
+      if (!session) {
+        jsonRpcError(res, 403, 'No access to the requested workspace');
+        return;
+      }
+    } else {
+      jsonRpcError(res, 400, 'Mcp-Session-Id header required');
+      return;
+    }
+
+    session.lastSeen = Date.now();
+    await session.transport.handleRequest(req, res, req.body);
+  } catch (err) {
+    console.error('[mcp-http] Request error:', err instanceof Error ? err.message : err);
+    if (!res.headersSent) jsonRpcError(res, 500, 'Internal server error');
+  }
+}
+
+for (const path of ['/', '/:workspaceId']) {
+  router.post(path, handle);
+  router.get(path, handle);
+  router.delete(path, handle);
+}
+
+export default router;
@@ -13,6 +13,7 @@ import { ensureNotLastAdmin, validateRoleInWorkspace, isAdminRole } from '../per
 import { notificationService } from '../notifications/service.js';
 import { sendWorkspaceInvite, sendInviteRequestNotification, sendInviteRequestResolved } from '../notifications/email.js';
 import { generateInviteToken, verifyInviteToken, generateAccessToken } from '../auth/tokens.js';
+import { auditRequest, recordAuditEvent } from '../audit/audit-log.js';
 
 const router = Router({ mergeParams: true });
 
@@ -81,7 +82,7 @@ router.get('/', async (req: Request, res: Response) => {
       status: m.status,
     }));
 
-    const canSeeInvites = req.userWorkspaceRole === 'admin' || req.authMethod === 'api_key';
+    const canSeeInvites = req.userWorkspaceRole === 'admin' || (req.authMethod === 'api_key' && !req.apiKey);
 
     res.json({
       members,
@@ -218,6 +219,14 @@ router.post('/invite', async (req: Request, res: Response) => {
       actionUrl: acceptUrl,
     });
 
+    await auditRequest(req, {
+      action: 'member.invited',
+      targetUserId: userId,
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+      metadata: { email: normalizedEmail, role_id: roleId, role_name: context.role_name, pandora_role: resolvedPandoraRole },
+    });
+
     res.status(201).json({
       memberId,
       email: normalizedEmail,
@@ -523,6 +532,14 @@ router.post('/invite-requests/:requestId/resolve', async (req: Request, res: Res
       WHERE id = $3
     `, [action === 'approve' ? 'approved' : 'rejected', resolvedBy, requestId]);
 
+    await auditRequest(req, {
+      action: action === 'approve' ? 'member.invite_request_approved' : 'member.invite_request_rejected',
+      targetUserId: request.requester_id,
+      resourceType: 'member_invite_request',
+      resourceId: requestId,
+      metadata: { invite_email: request.invite_email, role_id: request.suggested_role, member_id: memberId, note: note || null },
+    });
+
     // Notify requester of outcome
     const workspaceResult = await query<{ name: string }>(`
       SELECT name FROM workspaces WHERE id = $1
@@ -627,6 +644,14 @@ router.patch('/:memberId/role', async (req: Request, res: Response) => {
 
     const newRoleName = newRoleResult.rows[0]?.name;
 
+    await auditRequest(req, {
+      action: 'member.role_changed',
+      targetUserId: member.user_id,
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+      metadata: { previous_role_id: member.current_role_id, previous_role_type: member.current_role_type, role_id: roleId, role_name: newRoleName },
+    });
+
     // Get workspace name for notification
     const workspaceResult = await query<{ name: string }>(`
       SELECT name FROM workspaces WHERE id = $1
@@ -707,6 +732,14 @@ router.patch('/:memberId/status', async (req: Request, res: Response) => {
       WHERE id = $2
     `, [status, memberId]);
 
+    await auditRequest(req, {
+      action: status === 'suspended' ? 'member.suspended' : 'member.activated',
+      targetUserId: member.user_id,
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+      metadata: { previous_status: member.current_status, status },
+    });
+
     // Get workspace name for notification
     const workspaceResult = await query<{ name: string }>(`
       SELECT name FROM workspaces WHERE id = $1
@@ -784,6 +817,14 @@ router.delete('/:memberId', async (req: Request, res: Response) => {
       WHERE id = $1
     `, [memberId]);
 
+    await auditRequest(req, {
+      action: 'member.deactivated',
+      targetUserId: member.user_id,
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+      metadata: { previous_status: member.status, role_type: member.role_type },
+    });
+
     res.json({ deactivated: true });
   } catch (err) {
     console.error('[members] Error deactivating member:', err instanceof Error ? err.message : err);
@@ -825,6 +866,12 @@ router.patch('/:memberId/reactivate', async (req: Request, res: Response) => {
       WHERE id = $1
     `, [memberId]);
 
+    await auditRequest(req, {
+      action: 'member.reactivated',
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+    });
+
     res.json({ reactivated: true });
   } catch (err) {
     console.error('[members] Error reactivating member:', err instanceof Error ? err.message : err);
@@ -865,6 +912,14 @@ router.delete('/:memberId/permanent', async (req: Request, res: Response) => {
 
     await query(`DELETE FROM workspace_members WHERE id = $1`, [memberId]);
 
+    await auditRequest(req, {
+      action: 'member.removed',
+      targetUserId: member.user_id,
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+      metadata: { previous_status: member.status, role_type: member.role_type },
+    });
+
     res.json({ removed: true });
   } catch (err) {
     console.error('[members] Error permanently removing member:', err instanceof Error ? err.message : err);
@@ -958,6 +1013,17 @@ router.post('/accept-invite/:token', async (req: Request, res: Response) => {
       },
       message: `Successfully joined ${workspaceName}`,
     });
+
+    recordAuditEvent({
+      workspaceId: member.workspace_id,
+      action: 'member.invite_accepted',
+      actor: { type: 'user', id: member.user_id },
+      targetUserId: member.user_id,
+      resourceType: 'workspace_member',
+      resourceId: member.id,
+      ipAddress: req.ip || null,
+      userAgent: req.get('user-agent') || null,
+    });
   } catch (err) {
     console.error('[members] Error accepting invite:', err instanceof Error ? err.message : err);
     res.status(500).json({ error: 'Failed to accept invite' });
@@ -1026,11 +1092,13 @@ router.post('/impersonate', async (req: Request, res: Response) => {
       [targetUserId, sessionToken, expiresAt]
     );
 
-    await query(
-      `INSERT INTO audit_log (workspace_id, actor_id, action, target_id, metadata)
-       VALUES ($1, $2, 'impersonation.start', $3, $4)`,
-      [workspaceId, actorId, targetUserId, JSON.stringify({ targetEmail, targetName, targetRole })]
-    );
+    await auditRequest(req, {
+      action: 'impersonation.start',
+      targetUserId,
+      resourceType: 'user',
+      resourceId: targetUserId,
+      metadata: { targetEmail, targetName, targetRole, expiresAt: expiresAt.toISOString() },
+    });
 
     console.log(`[Impersonation] Admin ${actorId} started impersonating ${targetUserId} (${targetEmail}) in workspace ${workspaceId}`);
 
@@ -1060,12 +1128,19 @@ router.post('/impersonate/stop', async (req: Request, res: Response) => {
     }
 
     if (adminId) {
+      // The request is made with the impersonation session, so the admin is the claimed adminId
       const userId = req.user?.user_id;
-      await query(
-        `INSERT INTO audit_log (workspace_id, actor_id, action, target_id, metadata)
-         VALUES ($1, $2, 'impersonation.stop', $3, $4)`,
-        [workspaceId, adminId, userId || null, JSON.stringify({ stoppedAt: new Date().toISOString() })]
-      ).catch(() => {});
+      await recordAuditEvent({
+        workspaceId,
+        action: 'impersonation.stop',
+        actor: { type: 'user', id: adminId },
+        targetUserId: userId || null,
+        resourceType: 'user',
+        resourceId: userId || null,
+        metadata: { stoppedAt: new Date().toISOString() },
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent') || null,
+      });
     }
 
     return res.json({ ok: true });
@@ -1102,6 +1177,13 @@ router.patch('/:memberId/pandora-role', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Member not found' });
     }
 
+    await auditRequest(req, {
+      action: 'member.pandora_role_changed',
+      resourceType: 'workspace_member',
+      resourceId: memberId,
+      metadata: { pandora_role },
+    });
+
     return res.json({ ok: true, pandora_role });
   } catch (err) {
     console.error('[members] Error updating pandora_role:', err instanceof Error ? err.message : err);
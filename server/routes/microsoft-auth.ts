@@ -0,0 +1,189 @@
+import { Router, Request, Response } from "express";
+import crypto from "crypto";
+import { createLogger } from "../utils/logger.js";
+import { query } from "../db.js";
+import { encryptCredentials } from "../lib/encryption.js";
+import {
+  MICROSOFT_SCOPES,
+  microsoftAuthorizeUrl,
+  requestMicrosoftTokens,
+} from "../connectors/microsoft-365/client.js";
+
+const logger = createLogger("MicrosoftAuth");
+const router = Router();
+
+const STATE_SECRET = process.env.SESSION_SECRET || crypto.randomBytes(32).toString("hex");
+const STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+function signState(payload: object): string {
+  const json = JSON.stringify(payload);
+  const encoded = Buffer.from(json).toString("base64");
+  const signature = crypto
+    .createHmac("sha256", STATE_SECRET)
+    .update(json)
+    .digest("hex");
+  return `${encoded}.${signature}`;
+}
+
+function verifyState(signedState: string): { valid: boolean; payload?: any } {
+  const dotIndex = signedState.lastIndexOf(".");
+  if (dotIndex === -1) return { valid: false };
+
+  const encoded = signedState.slice(0, dotIndex);
+  const signature = signedState.slice(dotIndex + 1);
+
+  const json = Buffer.from(encoded, "base64").toString();
+  const expectedSignature = crypto
+    .createHmac("sha256", STATE_SECRET)
+    .update(json)
+    .digest("hex");
+
+  if (signature !== expectedSignature) return { valid: false };
+
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed.ts && Date.now() - parsed.ts > STATE_MAX_AGE_MS) {
+      return { valid: false };
+    }
+    return { valid: true, payload: parsed };
+  } catch {
+    return { valid: false };
+  }
+}
+
+/**
+ * Initiates Microsoft 365 OAuth flow - redirects browser to Microsoft identity platform.
+ * Pass syncEmail=true to also sync email metadata (sender, recipients, timestamps, thread ids).
+ */
+function handleAuthorize(req: Request, res: Response): void {
+  const workspaceId = req.query.workspaceId as string;
+  const syncEmail = req.query.syncEmail === "true";
+
+  if (!workspaceId) {
+    res.status(400).json({ error: "workspaceId query parameter is required" });
+    return;
+  }
+
+  const clientId = process.env.MICROSOFT_CLIENT_ID;
+  const callbackUrl = process.env.MICROSOFT_CALLBACK_URL;
+
+  if (!clientId || !callbackUrl) {
+    res.status(500).json({ error: "Missing MICROSOFT_CLIENT_ID or MICROSOFT_CALLBACK_URL environment variables" });
+    return;
+  }
+
+  // Sign state with workspace ID, email opt-in and timestamp
+  const signedState = signState({ workspaceId, syncEmail, ts: Date.now() });
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: callbackUrl,
+    response_type: "code",
+    response_mode: "query",
+    scope: MICROSOFT_SCOPES,
+    prompt: "select_account",
+    state: signedState,
+  });
+
+  const redirectUrl = `${microsoftAuthorizeUrl()}?${params.toString()}`;
+  logger.info("Redirecting to Microsoft OAuth", { workspaceId, syncEmail });
+  res.redirect(redirectUrl);
+}
+
+// Root route - same as /authorize (for frontend compatibility)
+router.get("/", handleAuthorize);
+
+// GET /api/auth/microsoft/authorize?workspaceId=xxx&syncEmail=true
+router.get("/authorize", handleAuthorize);
+
+/**
+ * GET /api/auth/microsoft/callback?code=xxx&state=xxx
+ * Microsoft redirects here after user authorizes
+ */
+router.get("/callback", async (req: Request, res: Response) => {
+  const { code, state, error: oauthError } = req.query;
+
+  // Handle OAuth errors
+  if (oauthError) {
+    if (oauthError === "access_denied") {
+      logger.warn("User denied Microsoft OAuth consent");
+      res.redirect("/?error=microsoft_denied");
+      return;
+    }
+    logger.error(`OAuth error from Microsoft: ${oauthError}`);
+    res.status(400).json({ error: oauthError });
+    return;
+  }
+
+  // Validate parameters
+  if (!code || !state || typeof code !== "string" || typeof state !== "string") {
+    res.status(400).json({ error: "Missing code or state parameter" });
+    return;
+  }
+
+  // Verify state signature and extract workspace ID
+  const { valid, payload } = verifyState(state);
+  if (!valid || !payload?.workspaceId) {
+    logger.error("Invalid or tampered state parameter");
+    res.status(400).json({ error: "Invalid state signature" });
+    return;
+  }
+
+  const { workspaceId, syncEmail } = payload;
+  const callbackUrl = process.env.MICROSOFT_CALLBACK_URL;
+
+  if (!process.env.MICROSOFT_CLIENT_ID || !process.env.MICROSOFT_CLIENT_SECRET || !callbackUrl) {
+    res.status(500).json({ error: "Missing Microsoft OAuth environment variables" });
+    return;
+  }
+
+  try {
+    let tokens;
+    try {
+      tokens = await requestMicrosoftTokens({ code, redirectUri: callbackUrl });
+    } catch (err) {
+      logger.error(`Token exchange failed: ${err instanceof Error ? err.message : String(err)}`);
+      res.redirect("/?error=microsoft_token_failed");
+      return;
+    }
+
+    logger.info("Microsoft OAuth successful");
+
+    // Verify workspace exists
+    const workspaceResult = await query(
+      `SELECT id FROM workspaces WHERE id = $1`,
+      [workspaceId]
+    );
+
+    if (workspaceResult.rows.length === 0) {
+      logger.error(`Workspace not found: ${workspaceId}`);
+      res.status(404).json({ error: "Workspace not found" });
+      return;
+    }
+
+    // Encrypt credentials before storing
+    const encrypted = encryptCredentials({ ...tokens });
+
+    // Store connection; email sync is an explicit opt-in kept in metadata
+    await query(
+      `INSERT INTO connections (workspace_id, connector_name, auth_method, credentials, metadata, status, created_at, updated_at)
+       VALUES ($1, 'microsoft-365', 'oauth', $2, $3, 'connected', NOW(), NOW())
+       ON CONFLICT (workspace_id, connector_name) DO UPDATE SET
+         credentials = $2,
+         metadata = COALESCE(connections.metadata, '{}'::jsonb) || $3::jsonb,
+         status = 'connected',
+         updated_at = NOW()`,
+      [workspaceId, JSON.stringify(encrypted), JSON.stringify({ sync_email: syncEmail === true })]
+    );
+
+    logger.info("Stored Microsoft 365 connection", { workspaceId });
+
+    // Redirect back to connectors page
+    res.redirect(`/workspaces/${workspaceId}/connectors`);
+  } catch (err) {
+    logger.error(`Microsoft callback error: ${err instanceof Error ? err.message : String(err)}`);
+    res.redirect("/?error=microsoft_callback_failed");
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import { Router, type Request, type Response } from 'express';
+import { pipedriveAdapter } from '../connectors/pipedrive/adapter.js';
+import { getCredentials, storeCredentials } from '../connectors/adapters/credentials.js';
+import { syncWorkspace } from '../sync/orchestrator.js';
+import { requirePermission } from '../middleware/permissions.js';
+
+const router = Router();
+
+router.post('/:workspaceId/connectors/pipedrive/connect', requirePermission('connectors.connect'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = (req.params.workspaceId as string);
+    const { apiToken, accessToken, refreshToken, apiDomain } = req.body as {
+      apiToken?: string;
+      accessToken?: string;
+      refreshToken?: string;
+      apiDomain?: string;
+    };
+
+    if (!apiToken && !accessToken) {
+      res.status(400).json({ error: 'apiToken or accessToken is required' });
+      return;
+    }
+
+    if (accessToken && !apiDomain) {
+      res.status(400).json({ error: 'apiDomain is required when connecting with an OAuth accessToken' });
+      return;
+    }
+
+    const credentials = accessToken
+      ? { accessToken, refreshToken: refreshToken || null, apiDomain }
+      : { apiToken };
+
+    const testResult = await pipedriveAdapter.testConnection(credentials);
+    if (!testResult.success) {
+      res.status(400).json({ error: `Connection test failed: ${testResult.error}` });
+      return;
+    }
+
+    const connection = await storeCredentials(
+      workspaceId,
+      'pipedrive',
+      accessToken ? 'oauth' : 'api_key',
+      credentials
+    );
+
+    res.json({
+      success: true,
+      connectionId: connection.id,
+      message: 'Pipedrive connected successfully',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Pipedrive Route] Connect error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+router.post('/:workspaceId/connectors/pipedrive/sync', requirePermission('connectors.trigger_sync'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = (req.params.workspaceId as string);
+    const { mode } = req.body as { mode?: 'initial' | 'incremental' };
+
+    const conn = await getCredentials(workspaceId, 'pipedrive');
+    if (!conn) {
+      res.status(404).json({ error: 'Pipedrive connection not found. Connect first.' });
+      return;
+    }
+
+    if (conn.status === 'disconnected') {
+      res.status(400).json({ error: 'Pipedrive connection is disconnected.' });
+      return;
+    }
+
+    const [result] = await syncWorkspace(workspaceId, { connectors: ['pipedrive'], mode });
+
+    if (result?.status === 'error') {
+      res.status(500).json({ error: result.message });
+      return;
+    }
+
+    res.json({ success: result?.status === 'success', result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Pipedrive Route] Sync error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+router.get('/:workspaceId/connectors/pipedrive/health', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = (req.params.workspaceId as string);
+
+    const conn = await getCredentials(workspaceId, 'pipedrive');
+    if (!conn) {
+      res.json({ connected: false, status: 'not_connected' });
+      return;
+    }
+
+    const healthResult = await pipedriveAdapter.health(conn.credentials);
+
+    res.json({
+      connected: true,
+      status: conn.status,
+      lastSyncAt: conn.last_sync_at,
+      healthy: healthResult.healthy,
+      details: healthResult.details,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Pipedrive Route] Health check error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
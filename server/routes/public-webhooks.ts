@@ -2,13 +2,19 @@
  * Public Webhook Endpoints
  *
  * Publicly accessible webhook endpoints for third-party integrations.
- * Authentication via token embedded in URL path.
+ * Enrichment webhooks authenticate via token embedded in URL path; CRM
+ * change webhooks (HubSpot) authenticate via the provider's request signature.
  */
 
 import { Router, type Request, type Response } from 'express';
 import { createLogger } from '../utils/logger.js';
 import { validateToken } from '../enrichment/webhook-token-manager.js';
 import { processInboundWebhook, type InboundPayload } from '../enrichment/webhook-inbound.js';
+import {
+  verifyHubSpotSignature,
+  processHubSpotWebhookEvents,
+  type HubSpotWebhookEvent,
+} from '../connectors/hubspot/webhooks.js';
 
 const router = Router();
 const logger = createLogger('Public Webhooks');
@@ -175,6 +181,47 @@ router.post('/webhooks/enrich/:workspaceId/:token', async (req: Request<WebhookP
   }
 });
 
+/**
+ * HubSpot CRM change webhook endpoint
+ *
+ * POST /webhooks/hubspot
+ *
+ * Target URL for the HubSpot app's webhook subscriptions (deal, contact, company).
+ * One URL serves every portal; events are routed by portalId. HubSpot expects a
+ * response within 5s, so processing happens after the 200 is sent.
+ */
+router.post('/webhooks/hubspot', (req: Request, res: Response) => {
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET || '';
+  const rawBody: string = (req as any).rawBody || '';
+
+  const valid = verifyHubSpotSignature({
+    method: req.method,
+    uri: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+    rawBody,
+    clientSecret,
+    signature: req.get('X-HubSpot-Signature'),
+    signatureVersion: req.get('X-HubSpot-Signature-Version'),
+    signatureV3: req.get('X-HubSpot-Signature-v3'),
+    timestamp: req.get('X-HubSpot-Request-Timestamp'),
+  });
+
+  if (!valid) {
+    logger.warn('Rejected HubSpot webhook with invalid signature', { ip: req.ip });
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  const events: HubSpotWebhookEvent[] = Array.isArray(req.body) ? req.body : [];
+  res.status(200).json({ received: events.length });
+
+  processHubSpotWebhookEvents(events)
+    .then(result => {
+      logger.info('Processed HubSpot webhook batch', { events: events.length, ...result });
+    })
+    .catch(err => {
+      logger.error('HubSpot webhook processing failed', err instanceof Error ? err : { error: String(err) });
+    });
+});
+
 /**
  * Health check endpoint for webhook service
  */
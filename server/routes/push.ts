@@ -24,6 +24,7 @@ import { query } from '../db.js';
 import { assembleFindingsForRule, type DeliveryRuleRow } from '../push/finding-assembler.js';
 import { executeDelivery, type DeliveryChannelRow } from '../push/delivery-executor.js';
 import { reloadCronTriggers } from '../push/trigger-manager.js';
+import { isTeamsWebhookUrl } from '../connectors/teams/client.js';
 
 const router = Router();
 
@@ -43,8 +44,11 @@ router.post('/:workspaceId/push/channels', requirePermission('config.edit'), asy
   if (!name || !channel_type || !config) {
     return res.status(400).json({ error: 'name, channel_type, and config are required' });
   }
-  if (!['slack', 'email', 'webhook'].includes(channel_type)) {
-    return res.status(400).json({ error: 'channel_type must be slack, email, or webhook' });
+  if (!['slack', 'teams', 'email', 'webhook'].includes(channel_type)) {
+    return res.status(400).json({ error: 'channel_type must be slack, teams, email, or webhook' });
+  }
+  if (channel_type === 'teams' && !isTeamsWebhookUrl(config.webhook_url || '')) {
+    return res.status(400).json({ error: 'config.webhook_url must be a Teams incoming webhook or Workflows URL' });
   }
 
   try {
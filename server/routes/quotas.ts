@@ -24,6 +24,16 @@ import {
   clearPendingGoalsPreview,
   type ResolvedQuota,
 } from '../connectors/hubspot/goals-sync.js';
+import {
+  DealSplitValidationError,
+  applySplitUpload,
+  getCreditingRules,
+  listDealSplits,
+  parseSplitUpload,
+  saveCreditingRules,
+  setDealSplits,
+  type SplitUploadRow,
+} from '../quotas/deal-splits.js';
 
 const router = Router();
 router.use(requireWorkspaceAccess);
@@ -132,6 +142,154 @@ router.post(
   }
 );
 
+/**
+ * POST /api/workspaces/:workspaceId/quotas/splits/upload
+ * Upload a deal split sheet (deal, rep, split %, type) and return a preview
+ */
+router.post(
+  '/workspaces/:workspaceId/quotas/splits/upload',
+  upload.single('file'),
+  async (req: Request<any>, res: Response) => {
+    try {
+      const { workspaceId } = req.params;
+
+      if (!req.file) {
+        res.status(400).json({ error: 'No file uploaded' });
+        return;
+      }
+
+      const preview = await parseSplitUpload(workspaceId, req.file.buffer, req.file.originalname);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof DealSplitValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[DealSplits] Upload error:', message);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+/**
+ * POST /api/workspaces/:workspaceId/quotas/splits/confirm
+ * Apply previewed split rows; replaces all splits on each deal in the upload
+ */
+router.post(
+  '/workspaces/:workspaceId/quotas/splits/confirm',
+  async (req: Request<any>, res: Response) => {
+    try {
+      const { workspaceId } = req.params;
+      const { rows } = req.body as { rows?: SplitUploadRow[] };
+
+      if (!Array.isArray(rows) || rows.length === 0) {
+        res.status(400).json({ error: 'Missing rows' });
+        return;
+      }
+
+      const result = await applySplitUpload(workspaceId, rows);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof DealSplitValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[DealSplits] Confirm error:', message);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+/**
+ * GET /api/workspaces/:workspaceId/quotas/splits/:dealId
+ * List revenue and overlay splits on a deal
+ */
+router.get(
+  '/workspaces/:workspaceId/quotas/splits/:dealId',
+  async (req: Request<any>, res: Response) => {
+    try {
+      const { workspaceId, dealId } = req.params;
+      const splits = await listDealSplits(workspaceId, dealId);
+      res.json({ splits });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[DealSplits] List error:', message);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+/**
+ * PUT /api/workspaces/:workspaceId/quotas/splits/:dealId
+ * Replace a deal's splits manually; an empty list reverts to owner / CRM crediting
+ */
+router.put(
+  '/workspaces/:workspaceId/quotas/splits/:dealId',
+  async (req: Request<any>, res: Response) => {
+    try {
+      const { workspaceId, dealId } = req.params;
+      const { splits } = req.body as { splits?: unknown };
+
+      if (!Array.isArray(splits)) {
+        res.status(400).json({ error: 'splits must be an array' });
+        return;
+      }
+
+      await setDealSplits(workspaceId, dealId, splits);
+      res.json({ success: true, splits: await listDealSplits(workspaceId, dealId) });
+    } catch (error) {
+      if (error instanceof DealSplitValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[DealSplits] Update error:', message);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+/**
+ * GET /api/workspaces/:workspaceId/quotas/crediting-rules
+ */
+router.get(
+  '/workspaces/:workspaceId/quotas/crediting-rules',
+  async (req: Request<any>, res: Response) => {
+    try {
+      const rules = await getCreditingRules(req.params.workspaceId);
+      res.json({ rules });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[DealSplits] Get crediting rules error:', message);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+/**
+ * PUT /api/workspaces/:workspaceId/quotas/crediting-rules
+ * Body: any of { overlay_in_rep_attainment, manager_rollup, collaborator_overlay_percent }
+ */
+router.put(
+  '/workspaces/:workspaceId/quotas/crediting-rules',
+  async (req: Request<any>, res: Response) => {
+    try {
+      const rules = await saveCreditingRules(req.params.workspaceId, req.body || {});
+      res.json({ success: true, rules });
+    } catch (error) {
+      if (error instanceof DealSplitValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[DealSplits] Save crediting rules error:', message);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
 /**
  * GET /api/workspaces/:workspaceId/quotas
  * Get quotas for a workspace (defaults to current quarter)
@@ -2,6 +2,7 @@
 
 import { Router, Request, Response } from 'express';
 import { query } from '../db.js';
+import { auditRequest } from '../audit/audit-log.js';
 import { requirePermission } from '../middleware/permissions.js';
 import { ReportTemplate, ReportSection, GenerateReportRequest } from '../reports/types.js';
 import { generateReport } from '../reports/generator.js';
@@ -875,6 +876,13 @@ router.get('/:workspaceId/reports/:reportId/generations/:generationId/export/:fo
       filename = path.basename(result.filepath);
     }
 
+    await auditRequest(req, {
+      action: 'export.report',
+      resourceType: 'report_generation',
+      resourceId: generationId,
+      metadata: { report_id: reportId, format, filename, annotated: true },
+    });
+
     res.setHeader('Content-Type', mimeType);
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     res.setHeader('Cache-Control', 'no-cache');
@@ -933,6 +941,14 @@ router.get('/:workspaceId/reports/:reportId/download/:format', async (req: Reque
     };
 
     const mimeType = mimeTypes[format as string] || 'application/octet-stream';
+
+    await auditRequest(req, {
+      action: 'export.report',
+      resourceType: 'report',
+      resourceId: reportId as string,
+      metadata: { format, filename: sanitized },
+    });
+
     res.setHeader('Content-Type', mimeType);
     res.setHeader('Content-Disposition', `attachment; filename="${sanitized}"`);
     res.setHeader('Cache-Control', 'no-cache');
@@ -5,6 +5,11 @@ import { getJobQueue } from '../jobs/queue.js';
 import { createLogger } from '../utils/logger.js';
 import { salesforceAdapter } from '../connectors/salesforce/adapter.js';
 import { getFreshCredentials } from '../utils/salesforce-token-refresh.js';
+import {
+  startSalesforceCdcConsumer,
+  stopSalesforceCdcConsumer,
+  getSalesforceCdcStatus,
+} from '../connectors/salesforce/cdc.js';
 
 
 const router = Router();
@@ -252,6 +257,7 @@ router.delete('/:workspaceId/connectors/salesforce/disconnect', async (req, res)
       return;
     }
 
+    stopSalesforceCdcConsumer(workspaceId);
     logger.info('Salesforce connection disconnected', { workspaceId });
 
     res.json({
@@ -301,4 +307,71 @@ router.post('/:workspaceId/connectors/salesforce/backfill-stage-history', async
   }
 });
 
+// Change Data Capture: real-time opportunity/account/contact updates
+router.get('/:workspaceId/connectors/salesforce/cdc', async (req, res) => {
+  const { workspaceId } = req.params;
+
+  try {
+    const result = await query<{ metadata: any; sync_cursor: any }>(
+      `SELECT metadata, sync_cursor FROM connections
+       WHERE workspace_id = $1 AND connector_name = 'salesforce'`,
+      [workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Salesforce connection not found' });
+      return;
+    }
+
+    const row = result.rows[0];
+    res.json({
+      enabled: row.metadata?.cdc_enabled === true,
+      ...getSalesforceCdcStatus(workspaceId),
+      replay: row.sync_cursor?.cdc?.replay ?? {},
+      lastEventAt: row.sync_cursor?.realtime?.lastEventAt ?? null,
+      lastError: row.sync_cursor?.realtime?.lastError ?? null,
+    });
+  } catch (error) {
+    logger.error('Failed to get Salesforce CDC status', { workspaceId, error: (error as Error).message });
+    res.status(500).json({
+      error: 'Failed to get CDC status',
+      message: (error as Error).message,
+    });
+  }
+});
+
+router.post('/:workspaceId/connectors/salesforce/cdc', async (req, res) => {
+  const { workspaceId } = req.params;
+  const enabled = req.body?.enabled === true;
+
+  try {
+    const result = await query(
+      `UPDATE connections
+       SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('cdc_enabled', $1::boolean),
+           updated_at = NOW()
+       WHERE workspace_id = $2 AND connector_name = 'salesforce' AND status NOT IN ('disconnected')
+       RETURNING id`,
+      [enabled, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'No active Salesforce connection found' });
+      return;
+    }
+
+    const running = enabled
+      ? await startSalesforceCdcConsumer(workspaceId)
+      : (stopSalesforceCdcConsumer(workspaceId), false);
+
+    logger.info('Salesforce CDC toggled', { workspaceId, enabled, running });
+    res.json({ success: true, enabled, running });
+  } catch (error) {
+    logger.error('Failed to toggle Salesforce CDC', { workspaceId, error: (error as Error).message });
+    res.status(500).json({
+      error: 'Failed to toggle CDC',
+      message: (error as Error).message,
+    });
+  }
+});
+
 export default router;
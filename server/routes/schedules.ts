@@ -0,0 +1,81 @@
+/**
+ * Schedule Inspection API
+ *
+ * Read-only view of the cluster scheduler: every job that runs for the
+ * workspace (its own jobs plus global jobs that fan out across workspaces)
+ * with next/last fire, and the run history of a job — including missed and
+ * abandoned fires. Mounted at /api/workspaces/:workspaceId/schedules and
+ * restricted to workspace admins.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
+import {
+  listScheduledJobs,
+  getScheduledJob,
+  listJobRuns,
+  type ScheduledJobRow,
+  type ScheduledJobRunRow,
+} from '../scheduling/cluster-scheduler.js';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireRole('admin'));
+router.use(requirePermission('settings.manage'));
+
+// Global jobs run across every workspace; their errors may name other workspaces
+function redactGlobal<T extends ScheduledJobRow | ScheduledJobRunRow>(row: T, global: boolean): T {
+  if (!global) return row;
+  return 'last_error' in row ? { ...row, last_error: null } : { ...row, error: null };
+}
+
+/**
+ * GET /
+ * Query: scope=workspace|all (default all — includes global jobs)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const jobs = await listScheduledJobs({ workspaceId, includeGlobal: req.query.scope !== 'workspace' });
+    res.json({
+      jobs: jobs.map(job => ({ ...redactGlobal(job, job.workspace_id === null), scope: job.workspace_id ? 'workspace' : 'global' })),
+    });
+  } catch (err) {
+    console.error('[schedules] List error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load schedules' });
+  }
+});
+
+/**
+ * GET /runs?job_key=...&limit=50
+ */
+router.get('/runs', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const jobKey = typeof req.query.job_key === 'string' ? req.query.job_key : '';
+    if (!jobKey) {
+      res.status(400).json({ error: 'job_key is required' });
+      return;
+    }
+
+    const job = await getScheduledJob(jobKey);
+    if (!job || (job.workspace_id !== null && job.workspace_id !== workspaceId)) {
+      res.status(404).json({ error: 'Scheduled job not found' });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || 50 : 50;
+    const runs = await listJobRuns(jobKey, limit);
+    const global = job.workspace_id === null;
+    res.json({
+      job: redactGlobal(job, global),
+      runs: runs.map(run => redactGlobal(run, global)),
+    });
+  } catch (err) {
+    console.error('[schedules] Runs error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load job runs' });
+  }
+});
+
+export default router;
@@ -0,0 +1,144 @@
+/**
+ * SCIM 2.0 Provisioning API
+ *
+ * Called by the customer's identity provider (Okta, Entra ID, ...) with the
+ * bearer token generated in workspace SSO settings. Only the Users resource
+ * is supported; group membership maps onto system roles via `roles`.
+ * All routes mounted at /scim/v2
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { findConnectionByScimToken, type SSOConnection } from '../auth/sso.js';
+import {
+  ScimError,
+  SCIM_USER_SCHEMA,
+  listScimUsers,
+  getScimUser,
+  createScimUser,
+  replaceScimUser,
+  patchScimUser,
+  deleteScimUser,
+  serviceProviderConfig,
+  userResourceType,
+} from '../auth/scim.js';
+
+const router = Router();
+
+router.use(express.json({ type: ['application/json', 'application/scim+json'], limit: '1mb' }));
+
+function getConnection(req: Request): SSOConnection {
+  return (req as any).scimConnection;
+}
+
+function sendError(res: Response, err: unknown): void {
+  const error = err instanceof ScimError ? err : new ScimError(500, 'Internal server error');
+  if (!(err instanceof ScimError)) {
+    console.error('[scim] Error:', err instanceof Error ? err.message : err);
+  }
+  res.status(error.status).type('application/scim+json').json(error.toJSON());
+}
+
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const connection = token ? await findConnectionByScimToken(token) : null;
+
+    if (!connection || !connection.enabled) {
+      throw new ScimError(401, 'Invalid or missing SCIM bearer token');
+    }
+
+    (req as any).scimConnection = connection;
+    res.type('application/scim+json');
+    next();
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+router.get('/ServiceProviderConfig', (_req: Request, res: Response) => {
+  res.json(serviceProviderConfig());
+});
+
+router.get('/ResourceTypes', (_req: Request, res: Response) => {
+  res.json({
+    schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
+    totalResults: 1,
+    Resources: [userResourceType()],
+  });
+});
+
+router.get('/Schemas', (_req: Request, res: Response) => {
+  res.json({
+    schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
+    totalResults: 1,
+    Resources: [{
+      id: SCIM_USER_SCHEMA,
+      name: 'User',
+      attributes: [
+        { name: 'userName', type: 'string', required: true, uniqueness: 'server' },
+        { name: 'name', type: 'complex', required: false },
+        { name: 'displayName', type: 'string', required: false },
+        { name: 'emails', type: 'complex', multiValued: true, required: false },
+        { name: 'active', type: 'boolean', required: false },
+        { name: 'roles', type: 'complex', multiValued: true, required: false },
+      ],
+    }],
+  });
+});
+
+router.get('/Users', async (req: Request, res: Response) => {
+  try {
+    res.json(await listScimUsers(getConnection(req), {
+      filter: typeof req.query.filter === 'string' ? req.query.filter : undefined,
+      startIndex: req.query.startIndex ? parseInt(String(req.query.startIndex), 10) || 1 : undefined,
+      count: req.query.count !== undefined ? parseInt(String(req.query.count), 10) || 0 : undefined,
+    }));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+router.get('/Users/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await getScimUser(getConnection(req), req.params.id as string));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+router.post('/Users', async (req: Request, res: Response) => {
+  try {
+    const user = await createScimUser(getConnection(req), req.body || {});
+    res.status(201).location(user.meta.location).json(user);
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+router.put('/Users/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await replaceScimUser(getConnection(req), req.params.id as string, req.body || {}));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+router.patch('/Users/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await patchScimUser(getConnection(req), req.params.id as string, req.body || {}));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+router.delete('/Users/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteScimUser(getConnection(req), req.params.id as string);
+    res.status(204).end();
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+export default router;
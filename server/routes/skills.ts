@@ -14,9 +14,17 @@ import { formatAsMarkdown } from '../skills/formatters/markdown-formatter.js';
 import { getSlackWebhook, postBlocks } from '../connectors/slack/client.js';
 import { getSlackAppClient } from '../connectors/slack/slack-app-client.js';
 import { query } from '../db.js';
+import { auditRequest } from '../audit/audit-log.js';
 import { runScheduledSkills, updateWorkspaceSkillCron } from '../sync/skill-scheduler.js';
 import { generateWorkbook } from '../delivery/workbook-generator.js';
 import type { SkillResult } from '../skills/types.js';
+import {
+  replaySkillRun,
+  listRecordings,
+  setScheduledRecording,
+  type SkillRunOptions,
+  type PromptChangePolicy,
+} from '../skills/run-recording.js';
 import { requireAuth } from '../middleware/auth.js';
 import { requirePermission } from '../middleware/permissions.js';
 import { logChatMessage } from '../lib/chat-logger.js';
@@ -36,7 +44,7 @@ function inferPipelineType(pipelineName: string): 'new_business' | 'renewal' | '
   return 'new_business';
 }
 
-async function handleSkillRun(workspaceId: string, skillId: string, params: any, res: any) {
+async function handleSkillRun(workspaceId: string, skillId: string, params: any, res: any, runOptions?: SkillRunOptions) {
   const ws = await query('SELECT id, name FROM workspaces WHERE id = $1', [workspaceId]);
   if (ws.rows.length === 0) {
     return res.status(404).json({ error: 'Workspace not found' });
@@ -52,7 +60,7 @@ async function handleSkillRun(workspaceId: string, skillId: string, params: any,
 
   let result: SkillResult;
   try {
-    result = await runtime.executeSkill(skill, workspaceId, params);
+    result = await runtime.executeSkill(skill, workspaceId, params, undefined, undefined, runOptions);
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : String(err);
     return res.status(500).json({ error: `Skill execution failed: ${errorMsg}` });
@@ -122,20 +130,21 @@ async function handleSkillRun(workspaceId: string, skillId: string, params: any,
     status: result.status,
     duration_ms: result.totalDuration_ms,
     output_preview: outputPreview,
+    recorded: runOptions?.record === true,
   });
 }
 
 router.post('/skills/:skillId/run', requireAuth, async (req, res) => {
   try {
     const { skillId } = req.params;
-    const { workspaceId, params } = req.body || {};
+    const { workspaceId, params, record } = req.body || {};
     if (!workspaceId) {
       return res.status(400).json({ error: 'workspaceId is required in request body' });
     }
     if (req.workspace && req.workspace.id !== workspaceId) {
       return res.status(403).json({ error: 'API key does not have access to this workspace' });
     }
-    return await handleSkillRun(workspaceId as string, skillId as string, params, res);
+    return await handleSkillRun(workspaceId as string, skillId as string, params, res, { record: record === true });
   } catch (err) {
     console.error('[skills] Error running skill:', err);
     return res.status(500).json({ error: 'Internal server error' });
@@ -145,8 +154,8 @@ router.post('/skills/:skillId/run', requireAuth, async (req, res) => {
 router.post('/:workspaceId/skills/:skillId/run', requirePermission('skills.run_manual'), async (req, res) => {
   try {
     const { workspaceId, skillId } = req.params;
-    const { params } = req.body || {};
-    return await handleSkillRun(workspaceId as string, skillId as string, params, res);
+    const { params, record } = req.body || {};
+    return await handleSkillRun(workspaceId as string, skillId as string, params, res, { record: record === true });
   } catch (err) {
     console.error('[skills] Error running skill:', err);
     return res.status(500).json({ error: 'Internal server error' });
@@ -648,6 +657,78 @@ router.get('/:workspaceId/skills/:skillId/runs/:runId', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/workspaces/:workspaceId/skills/:skillId/recordings
+ * Recorded runs and replays of a skill, newest first
+ */
+router.get('/:workspaceId/skills/:skillId/recordings', async (req, res) => {
+  try {
+    const { workspaceId, skillId } = req.params;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || 20 : 20;
+    const recordings = await listRecordings(workspaceId as string, skillId as string, limit);
+    return res.json({ recordings });
+  } catch (err) {
+    console.error('[skills] Error listing recordings:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:workspaceId/skills/:skillId/recording
+ * Body: { record_scheduled: boolean } — record every scheduled run of the skill
+ */
+router.put('/:workspaceId/skills/:skillId/recording', requirePermission('skills.configure'), async (req, res) => {
+  try {
+    const { workspaceId, skillId } = req.params;
+    const { record_scheduled } = req.body || {};
+    if (typeof record_scheduled !== 'boolean') {
+      return res.status(400).json({ error: 'record_scheduled must be a boolean' });
+    }
+    if (!getSkillRegistry().get(skillId as string)) {
+      return res.status(404).json({ error: `Skill not found: ${skillId}` });
+    }
+    await setScheduledRecording(workspaceId as string, skillId as string, record_scheduled);
+    return res.json({ ok: true, record_scheduled });
+  } catch (err) {
+    console.error('[skills] Error saving recording setting:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/workspaces/:workspaceId/skills/:skillId/runs/:runId/replay
+ * Re-run a recorded run with the current skill definition and diff the result.
+ * Body: { on_prompt_change?: 'live' | 'recorded', live_steps?: string[], recompute_steps?: string[] }
+ */
+router.post('/:workspaceId/skills/:skillId/runs/:runId/replay', requirePermission('skills.run_manual'), async (req, res) => {
+  try {
+    const { workspaceId, skillId, runId } = req.params;
+    const { on_prompt_change, live_steps, recompute_steps } = req.body || {};
+
+    if (on_prompt_change !== undefined && on_prompt_change !== 'live' && on_prompt_change !== 'recorded') {
+      return res.status(400).json({ error: "on_prompt_change must be 'live' or 'recorded'" });
+    }
+    const stringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+    if ((live_steps !== undefined && !stringList(live_steps)) || (recompute_steps !== undefined && !stringList(recompute_steps))) {
+      return res.status(400).json({ error: 'live_steps and recompute_steps must be arrays of step ids' });
+    }
+
+    const replay = await replaySkillRun(workspaceId as string, skillId as string, runId as string, {
+      onPromptChange: on_prompt_change as PromptChangePolicy | undefined,
+      liveSteps: live_steps,
+      recomputeSteps: recompute_steps,
+    });
+    if (!replay) {
+      return res.status(404).json({ error: 'No recording found for this run' });
+    }
+    return res.json(replay);
+  } catch (err) {
+    console.error('[skills] Error replaying skill run:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(500).json({ error: `Replay failed: ${message}` });
+  }
+});
+
 /**
  * POST /api/workspaces/:workspaceId/skills/run-all
  * Run all (or filtered) skills for a workspace in staggered sequence
@@ -756,6 +837,14 @@ router.get('/:workspaceId/skills/:skillId/runs/:runId/export', async (req, res)
     const safeSkillId = skillId.replace(/[^a-zA-Z0-9_-]/g, '_');
     const dateStr = new Date(row.created_at).toISOString().split('T')[0];
     const filename = `pandora-${safeSkillId}-${dateStr}.xlsx`;
+
+    await auditRequest(req, {
+      action: 'export.skill_run',
+      resourceType: 'skill_run',
+      resourceId: row.run_id,
+      metadata: { skill_id: skillId, format: 'xlsx', filename },
+    });
+
     res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     res.setHeader('Cache-Control', 'no-cache');
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import pool from '../db.js';
 import { query } from '../db.js';
+import { auditRequest } from '../audit/audit-log.js';
 
 const router = Router();
 
@@ -56,6 +57,7 @@ router.post('/:workspaceId/sql/execute', async (req: Request, res: Response) =>
   const firstWord = trimmed.split(/\s+/)[0].toUpperCase();
 
   if (BLOCKED_KEYWORDS.includes(firstWord)) {
+    await auditRequest(req, { action: 'sql.query_blocked', outcome: 'denied', metadata: { sql: trimmed, keyword: firstWord } });
     return res.status(403).json({
       error: 'Forbidden operation',
       message: `${firstWord} operations are not permitted`,
@@ -67,6 +69,7 @@ router.post('/:workspaceId/sql/execute', async (req: Request, res: Response) =>
   for (const keyword of BLOCKED_KEYWORDS) {
     const regex = new RegExp(`\\b${keyword}\\b`, 'i');
     if (regex.test(upperSQL)) {
+      await auditRequest(req, { action: 'sql.query_blocked', outcome: 'denied', metadata: { sql: trimmed, keyword } });
       return res.status(403).json({
         error: 'Forbidden operation',
         message: `${keyword} is not permitted in any context`,
@@ -108,6 +111,11 @@ router.post('/:workspaceId/sql/execute', async (req: Request, res: Response) =>
     const rows = result.rows.slice(0, MAX_ROWS);
     const truncated = result.rows.length > MAX_ROWS;
 
+    await auditRequest(req, {
+      action: 'sql.query_executed',
+      metadata: { sql: trimmed, row_count: result.rowCount || 0, execution_ms: executionTime },
+    });
+
     res.json({
       rows,
       rowCount: rows.length,
@@ -121,6 +129,11 @@ router.post('/:workspaceId/sql/execute', async (req: Request, res: Response) =>
     });
   } catch (err: any) {
     console.error('[sql-workspace] Query execution error:', err);
+    await auditRequest(req, {
+      action: 'sql.query_executed',
+      outcome: 'failure',
+      metadata: { sql: trimmed, error: err.message, code: err.code },
+    });
 
     // Parse common Postgres error types
     let errorMessage = err.message || 'Unknown database error';
@@ -405,6 +418,13 @@ router.post('/:workspaceId/sql/saved/:queryId/run', async (req: Request, res: Re
         [rowCount, executionTime, queryId]
       );
 
+      await auditRequest(req, {
+        action: 'sql.saved_query_run',
+        resourceType: 'saved_query',
+        resourceId: queryId,
+        metadata: { sql: sql_text, row_count: result.rowCount || 0, execution_ms: executionTime },
+      });
+
       res.json({
         rows,
         rowCount,
@@ -424,6 +444,13 @@ router.post('/:workspaceId/sql/saved/:queryId/run', async (req: Request, res: Re
     }
   } catch (err: any) {
     console.error('[sql-workspace] Error running saved query:', err);
+    await auditRequest(req, {
+      action: 'sql.saved_query_run',
+      resourceType: 'saved_query',
+      resourceId: queryId,
+      outcome: 'failure',
+      metadata: { error: err.message, code: err.code },
+    });
 
     // Parse common Postgres error types (same as /sql/execute)
     let errorMessage = err.message || 'Unknown database error';
@@ -0,0 +1,358 @@
+/**
+ * SSO & SCIM Settings API
+ *
+ * Workspace admins configure the organization's identity provider, claim
+ * email domains (verified by DNS TXT record) and rotate the SCIM token.
+ * All routes mounted at /api/workspaces/:workspaceId/sso
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import { Router, Request, Response } from 'express';
+import { query } from '../db.js';
+import { requirePermission, getWorkspaceMember } from '../middleware/permissions.js';
+import { encryptCredentials } from '../lib/encryption.js';
+import { SYSTEM_ROLE_PERMISSIONS } from '../permissions/system-roles.js';
+import { hashScimToken, getAppUrl, type SSOConnection } from '../auth/sso.js';
+import { getOIDCRedirectUri } from '../auth/oidc.js';
+import { getSamlAcsUrl, getSamlEntityId } from '../auth/saml.js';
+
+const router = Router({ mergeParams: true });
+
+router.use(requirePermission('members.change_roles'));
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+async function getWorkspaceConnection(workspaceId: string): Promise<SSOConnection | null> {
+  const result = await query<SSOConnection>(
+    `SELECT * FROM sso_connections WHERE workspace_id = $1`,
+    [workspaceId]
+  );
+  return result.rows[0] || null;
+}
+
+function serializeConnection(connection: SSOConnection & { scim_token_hash?: string | null; scim_token_created_at?: string | null }) {
+  return {
+    id: connection.id,
+    name: connection.name,
+    protocol: connection.protocol,
+    enabled: connection.enabled,
+    enforce_sso: connection.enforce_sso,
+    jit_provisioning: connection.jit_provisioning,
+    default_role: connection.default_role,
+    role_mapping: connection.role_mapping,
+    workspace_ids: connection.workspace_ids,
+    oidc_issuer: connection.oidc_issuer,
+    oidc_client_id: connection.oidc_client_id,
+    oidc_client_secret_set: Boolean(connection.oidc_client_secret),
+    oidc_groups_claim: connection.oidc_groups_claim,
+    saml_entry_point: connection.saml_entry_point,
+    saml_idp_issuer: connection.saml_idp_issuer,
+    saml_idp_cert: connection.saml_idp_cert,
+    saml_groups_attribute: connection.saml_groups_attribute,
+    scim_enabled: Boolean(connection.scim_token_hash),
+    scim_token_created_at: connection.scim_token_created_at || null,
+    service_provider: {
+      oidc_redirect_uri: getOIDCRedirectUri(),
+      saml_acs_url: getSamlAcsUrl(connection.id),
+      saml_entity_id: getSamlEntityId(connection.id),
+      saml_metadata_url: getSamlEntityId(connection.id),
+      scim_base_url: `${getAppUrl()}/scim/v2`,
+    },
+  };
+}
+
+/**
+ * GET /
+ * Current SSO configuration (secrets masked) and claimed domains
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const connection = await getWorkspaceConnection(req.params.workspaceId as string);
+    if (!connection) {
+      res.json({ connection: null, domains: [] });
+      return;
+    }
+
+    const domains = await query<{ domain: string; verification_token: string; verified_at: string | null }>(
+      `SELECT domain, verification_token, verified_at FROM sso_domains WHERE connection_id = $1 ORDER BY domain`,
+      [connection.id]
+    );
+
+    res.json({
+      connection: serializeConnection(connection),
+      domains: domains.rows.map(d => ({
+        domain: d.domain,
+        verified: Boolean(d.verified_at),
+        verified_at: d.verified_at,
+        txt_record: `pandora-verification=${d.verification_token}`,
+      })),
+    });
+  } catch (err) {
+    console.error('[sso-admin] Get error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load SSO settings' });
+  }
+});
+
+/**
+ * PUT /
+ * Create or update the workspace's SSO connection
+ */
+router.put('/', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const body = req.body || {};
+
+    if (body.protocol !== 'oidc' && body.protocol !== 'saml') {
+      res.status(400).json({ error: "protocol must be 'oidc' or 'saml'" });
+      return;
+    }
+
+    if (body.protocol === 'oidc' && (!body.oidc_issuer || !body.oidc_client_id)) {
+      res.status(400).json({ error: 'oidc_issuer and oidc_client_id are required' });
+      return;
+    }
+
+    if (body.protocol === 'saml' && (!body.saml_entry_point || !body.saml_idp_cert)) {
+      res.status(400).json({ error: 'saml_entry_point and saml_idp_cert are required' });
+      return;
+    }
+
+    const defaultRole = body.default_role || 'member';
+    if (!SYSTEM_ROLE_PERMISSIONS[defaultRole]) {
+      res.status(400).json({ error: `Unknown default_role: ${defaultRole}` });
+      return;
+    }
+
+    const roleMapping: Record<string, string> = body.role_mapping || {};
+    const invalidRole = Object.values(roleMapping).find(r => !SYSTEM_ROLE_PERMISSIONS[r]);
+    if (invalidRole) {
+      res.status(400).json({ error: `Unknown role in role_mapping: ${invalidRole}` });
+      return;
+    }
+
+    // Provisioning into other workspaces requires admin rights there too
+    const workspaceIds: string[] = Array.isArray(body.workspace_ids)
+      ? Array.from(new Set<string>(body.workspace_ids.filter((id: unknown) => typeof id === 'string' && id !== workspaceId)))
+      : [];
+    if (workspaceIds.length > 0) {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        res.status(403).json({ error: 'Only a signed-in admin can link additional workspaces' });
+        return;
+      }
+      for (const otherId of workspaceIds) {
+        const { member, permissions } = await getWorkspaceMember(otherId, userId);
+        if (!member?.is_active || !permissions?.['members.change_roles']) {
+          res.status(403).json({ error: `You must be an admin of workspace ${otherId} to link it` });
+          return;
+        }
+      }
+    }
+
+    const existing = await getWorkspaceConnection(workspaceId);
+    // Keep the stored secret unless a new one is supplied
+    const clientSecret = typeof body.oidc_client_secret === 'string' && body.oidc_client_secret
+      ? encryptCredentials({ clientSecret: body.oidc_client_secret })
+      : existing?.oidc_client_secret ?? null;
+
+    const result = await query<SSOConnection>(
+      `INSERT INTO sso_connections (
+         workspace_id, name, protocol, enabled, enforce_sso, jit_provisioning, default_role,
+         role_mapping, workspace_ids, oidc_issuer, oidc_client_id, oidc_client_secret,
+         oidc_groups_claim, saml_entry_point, saml_idp_issuer, saml_idp_cert,
+         saml_groups_attribute, created_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       ON CONFLICT (workspace_id) DO UPDATE SET
+         name = EXCLUDED.name,
+         protocol = EXCLUDED.protocol,
+         enabled = EXCLUDED.enabled,
+         enforce_sso = EXCLUDED.enforce_sso,
+         jit_provisioning = EXCLUDED.jit_provisioning,
+         default_role = EXCLUDED.default_role,
+         role_mapping = EXCLUDED.role_mapping,
+         workspace_ids = EXCLUDED.workspace_ids,
+         oidc_issuer = EXCLUDED.oidc_issuer,
+         oidc_client_id = EXCLUDED.oidc_client_id,
+         oidc_client_secret = EXCLUDED.oidc_client_secret,
+         oidc_groups_claim = EXCLUDED.oidc_groups_claim,
+         saml_entry_point = EXCLUDED.saml_entry_point,
+         saml_idp_issuer = EXCLUDED.saml_idp_issuer,
+         saml_idp_cert = EXCLUDED.saml_idp_cert,
+         saml_groups_attribute = EXCLUDED.saml_groups_attribute,
+         updated_at = now()
+       RETURNING *`,
+      [
+        workspaceId,
+        body.name || (body.protocol === 'oidc' ? 'OIDC' : 'SAML'),
+        body.protocol,
+        body.enabled !== false,
+        body.enforce_sso === true,
+        body.jit_provisioning !== false,
+        defaultRole,
+        JSON.stringify(roleMapping),
+        workspaceIds,
+        body.oidc_issuer || null,
+        body.oidc_client_id || null,
+        clientSecret,
+        body.oidc_groups_claim || 'groups',
+        body.saml_entry_point || null,
+        body.saml_idp_issuer || null,
+        body.saml_idp_cert || null,
+        body.saml_groups_attribute || 'groups',
+        req.user?.user_id || null,
+      ]
+    );
+
+    res.json({ connection: serializeConnection(result.rows[0]) });
+  } catch (err) {
+    console.error('[sso-admin] Save error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to save SSO settings' });
+  }
+});
+
+/**
+ * DELETE /
+ * Remove the SSO connection (domains, identities and SCIM token go with it)
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    await query(`DELETE FROM sso_connections WHERE workspace_id = $1`, [req.params.workspaceId]);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[sso-admin] Delete error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to delete SSO connection' });
+  }
+});
+
+/**
+ * POST /domains
+ * Claim an email domain; returns the TXT record to publish
+ */
+router.post('/domains', async (req: Request, res: Response) => {
+  try {
+    const connection = await getWorkspaceConnection(req.params.workspaceId as string);
+    if (!connection) {
+      res.status(404).json({ error: 'Configure SSO before adding domains' });
+      return;
+    }
+
+    const domain = typeof req.body?.domain === 'string' ? req.body.domain.trim().toLowerCase() : '';
+    if (!DOMAIN_REGEX.test(domain)) {
+      res.status(400).json({ error: 'Invalid domain' });
+      return;
+    }
+
+    const token = crypto.randomBytes(16).toString('hex');
+    const result = await query<{ domain: string; connection_id: string; verification_token: string }>(
+      `INSERT INTO sso_domains (domain, connection_id, verification_token)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (domain) DO UPDATE SET domain = sso_domains.domain
+       RETURNING domain, connection_id, verification_token`,
+      [domain, connection.id, token]
+    );
+
+    if (result.rows[0].connection_id !== connection.id) {
+      res.status(409).json({ error: 'Domain is already claimed by another organization' });
+      return;
+    }
+
+    res.status(201).json({
+      domain,
+      verified: false,
+      txt_record: `pandora-verification=${result.rows[0].verification_token}`,
+    });
+  } catch (err) {
+    console.error('[sso-admin] Add domain error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to add domain' });
+  }
+});
+
+/**
+ * POST /domains/:domain/verify
+ * Look up the TXT record and mark the domain verified
+ */
+router.post('/domains/:domain/verify', async (req: Request, res: Response) => {
+  try {
+    const connection = await getWorkspaceConnection(req.params.workspaceId as string);
+    const domainResult = connection
+      ? await query<{ domain: string; verification_token: string }>(
+          `SELECT domain, verification_token FROM sso_domains WHERE domain = $1 AND connection_id = $2`,
+          [(req.params.domain as string).toLowerCase(), connection.id]
+        )
+      : { rows: [] };
+    const domain = domainResult.rows[0];
+
+    if (!domain) {
+      res.status(404).json({ error: 'Domain not found' });
+      return;
+    }
+
+    let records: string[] = [];
+    try {
+      records = (await dns.promises.resolveTxt(domain.domain)).map(chunks => chunks.join(''));
+    } catch (err) {
+      console.warn('[sso-admin] TXT lookup failed for', domain.domain, err instanceof Error ? err.message : err);
+    }
+
+    if (!records.includes(`pandora-verification=${domain.verification_token}`)) {
+      res.status(422).json({
+        error: 'Verification record not found',
+        txt_record: `pandora-verification=${domain.verification_token}`,
+      });
+      return;
+    }
+
+    await query(`UPDATE sso_domains SET verified_at = now() WHERE domain = $1`, [domain.domain]);
+    res.json({ domain: domain.domain, verified: true });
+  } catch (err) {
+    console.error('[sso-admin] Verify domain error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to verify domain' });
+  }
+});
+
+/**
+ * DELETE /domains/:domain
+ */
+router.delete('/domains/:domain', async (req: Request, res: Response) => {
+  try {
+    await query(
+      `DELETE FROM sso_domains
+       WHERE domain = $1 AND connection_id = (SELECT id FROM sso_connections WHERE workspace_id = $2)`,
+      [(req.params.domain as string).toLowerCase(), req.params.workspaceId]
+    );
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[sso-admin] Remove domain error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to remove domain' });
+  }
+});
+
+/**
+ * POST /scim-token
+ * Generate (or rotate) the SCIM bearer token. The raw token is shown once.
+ */
+router.post('/scim-token', async (req: Request, res: Response) => {
+  try {
+    const token = `pscim_${crypto.randomBytes(32).toString('hex')}`;
+    const result = await query<{ id: string }>(
+      `UPDATE sso_connections
+       SET scim_token_hash = $2, scim_token_created_at = now(), updated_at = now()
+       WHERE workspace_id = $1
+       RETURNING id`,
+      [req.params.workspaceId as string, hashScimToken(token)]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Configure SSO before enabling SCIM' });
+      return;
+    }
+
+    res.status(201).json({ token, scim_base_url: `${getAppUrl()}/scim/v2` });
+  } catch (err) {
+    console.error('[sso-admin] SCIM token error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to generate SCIM token' });
+  }
+});
+
+export default router;
@@ -0,0 +1,216 @@
+/**
+ * Single Sign-On login routes (public)
+ *
+ * Browser-facing OIDC and SAML 2.0 flows. A successful login issues the same
+ * access/refresh tokens as password login and lands on the client's
+ * /auth/callback page. Failures redirect to /?sso_error=<code>.
+ * All routes mounted at /api/auth/sso
+ */
+
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import {
+  SSOError,
+  findConnectionForEmail,
+  getSSOConnection,
+  provisionSSOUser,
+  issueSession,
+  createAuthRequest,
+  consumeAuthRequest,
+  safeReturnTo,
+  type SSOAssertion,
+  type SSOConnection,
+} from '../auth/sso.js';
+import { buildAuthorizationUrl, completeOIDCLogin, createPkcePair } from '../auth/oidc.js';
+import { buildSamlLoginUrl, completeSamlLogin, generateSamlMetadata } from '../auth/saml.js';
+import { recordAuditEvent } from '../audit/audit-log.js';
+
+const router = Router();
+
+const REFRESH_TOKEN_COOKIE_NAME = 'pandora_refresh';
+const REFRESH_TOKEN_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days in ms
+
+function redirectWithError(res: Response, err: unknown): void {
+  const code = err instanceof SSOError ? err.code : 'SSO_FAILED';
+  console.error('[sso] Login failed:', err instanceof Error ? err.message : err);
+  res.redirect(`/?sso_error=${encodeURIComponent(code)}`);
+}
+
+/**
+ * Provision the user, issue tokens and hand the access token to the client
+ */
+async function finishLogin(req: Request, res: Response, connection: SSOConnection, assertion: SSOAssertion, returnTo?: string | null): Promise<void> {
+  const user = await provisionSSOUser(connection, assertion);
+  const { accessToken, refreshToken } = await issueSession(user);
+
+  recordAuditEvent({
+    workspaceId: connection.workspace_id,
+    action: 'auth.sso_login',
+    actor: { type: 'user', id: user.id, email: user.email },
+    targetUserId: user.id,
+    resourceType: 'sso_connection',
+    resourceId: connection.id,
+    metadata: { protocol: connection.protocol, connection: connection.name },
+    ipAddress: req.ip || null,
+    userAgent: req.get('user-agent')?.slice(0, 512) || null,
+  });
+
+  res.cookie(REFRESH_TOKEN_COOKIE_NAME, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // lax: the SAML ACS is reached by a cross-site POST from the IdP
+    sameSite: 'lax',
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  });
+
+  const callback = new URLSearchParams({ session: accessToken });
+  const next = safeReturnTo(returnTo);
+  if (next) callback.set('return_to', next);
+  res.redirect(`/auth/callback?${callback.toString()}`);
+}
+
+/**
+ * GET /discover?email=
+ * Tell the login page whether an email's domain has SSO (and whether it's required)
+ */
+router.get('/discover', async (req: Request, res: Response) => {
+  try {
+    const email = typeof req.query.email === 'string' ? req.query.email : '';
+    const connection = email ? await findConnectionForEmail(email) : null;
+
+    if (!connection) {
+      res.json({ sso: false });
+      return;
+    }
+
+    res.json({
+      sso: true,
+      required: connection.enforce_sso,
+      protocol: connection.protocol,
+      name: connection.name,
+      sso_url: `/api/auth/sso/start?connection_id=${connection.id}`,
+    });
+  } catch (err) {
+    console.error('[sso] Discover error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to look up SSO configuration' });
+  }
+});
+
+/**
+ * GET /start?email=|connection_id=&return_to=
+ * Begin an SP-initiated login
+ */
+router.get('/start', async (req: Request, res: Response) => {
+  try {
+    const email = typeof req.query.email === 'string' ? req.query.email.trim() : '';
+    const connectionId = typeof req.query.connection_id === 'string' ? req.query.connection_id : '';
+    const returnTo = safeReturnTo(req.query.return_to);
+
+    const connection = connectionId
+      ? await getSSOConnection(connectionId)
+      : email ? await findConnectionForEmail(email) : null;
+
+    if (!connection || !connection.enabled) {
+      throw new SSOError('No SSO connection found for this account', 'SSO_NOT_CONFIGURED', 404);
+    }
+
+    if (connection.protocol === 'oidc') {
+      const nonce = crypto.randomBytes(16).toString('base64url');
+      const pkce = createPkcePair();
+      const state = await createAuthRequest(connection.id, { nonce, codeVerifier: pkce.verifier, returnTo });
+
+      res.redirect(await buildAuthorizationUrl(connection, {
+        state,
+        nonce,
+        codeChallenge: pkce.challenge,
+        loginHint: email || undefined,
+      }));
+      return;
+    }
+
+    res.redirect(await buildSamlLoginUrl(connection, returnTo || ''));
+  } catch (err) {
+    redirectWithError(res, err);
+  }
+});
+
+/**
+ * GET /oidc/callback?code=&state=
+ */
+router.get('/oidc/callback', async (req: Request, res: Response) => {
+  try {
+    if (typeof req.query.error === 'string') {
+      throw new SSOError(`Identity provider returned ${req.query.error}`, 'SSO_IDP_ERROR', 401);
+    }
+
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+    if (!code || !state) {
+      throw new SSOError('Missing code or state', 'SSO_INVALID_REQUEST', 400);
+    }
+
+    const pending = await consumeAuthRequest(state);
+    if (!pending || !pending.nonce || !pending.code_verifier) {
+      throw new SSOError('Login request expired or unknown', 'SSO_STATE_INVALID', 400);
+    }
+
+    const connection = await getSSOConnection(pending.connection_id);
+    if (!connection || !connection.enabled || connection.protocol !== 'oidc') {
+      throw new SSOError('SSO connection is no longer available', 'SSO_NOT_CONFIGURED', 404);
+    }
+
+    const assertion = await completeOIDCLogin(connection, {
+      code,
+      codeVerifier: pending.code_verifier,
+      nonce: pending.nonce,
+    });
+
+    await finishLogin(req, res, connection, assertion, pending.return_to);
+  } catch (err) {
+    redirectWithError(res, err);
+  }
+});
+
+/**
+ * POST /saml/acs/:connectionId
+ * Assertion Consumer Service — handles SP- and IdP-initiated responses
+ */
+router.post('/saml/acs/:connectionId', async (req: Request, res: Response) => {
+  try {
+    const connection = await getSSOConnection(req.params.connectionId as string);
+    if (!connection || !connection.enabled || connection.protocol !== 'saml') {
+      throw new SSOError('SSO connection is no longer available', 'SSO_NOT_CONFIGURED', 404);
+    }
+
+    const samlResponse = req.body?.SAMLResponse;
+    if (typeof samlResponse !== 'string' || !samlResponse) {
+      throw new SSOError('Missing SAMLResponse', 'SSO_INVALID_REQUEST', 400);
+    }
+
+    const assertion = await completeSamlLogin(connection, samlResponse);
+    await finishLogin(req, res, connection, assertion, req.body?.RelayState);
+  } catch (err) {
+    redirectWithError(res, err);
+  }
+});
+
+/**
+ * GET /saml/metadata/:connectionId
+ * SP metadata XML for configuring the IdP
+ */
+router.get('/saml/metadata/:connectionId', async (req: Request, res: Response) => {
+  try {
+    const connection = await getSSOConnection(req.params.connectionId as string);
+    if (!connection || connection.protocol !== 'saml') {
+      res.status(404).json({ error: 'SAML connection not found' });
+      return;
+    }
+
+    res.type('application/xml').send(generateSamlMetadata(connection));
+  } catch (err) {
+    console.error('[sso] Metadata error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to generate metadata' });
+  }
+});
+
+export default router;
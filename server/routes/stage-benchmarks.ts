@@ -17,7 +17,7 @@ import {
   computeCompositeLabel,
   autoDetectSegmentBoundaries,
 } from '../coaching/stage-benchmarks.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { callLLM } from '../utils/llm-router.js';
 
 const router = Router();
 
@@ -715,10 +715,8 @@ ${((coaching?.recent_conversations as Array<Record<string, unknown>> | undefined
   `  - ${c.title} (${new Date(c.started_at as string).toLocaleDateString()})`
 ).join('\n') || '  None recorded'}`;
 
-    const client = new Anthropic();
-    const message = await client.messages.create({
-      model: 'claude-opus-4-5',
-      max_tokens: 800,
+    const message = await callLLM(workspaceId, 'generate', {
+      maxTokens: 800,
       messages: [{
         role: 'user',
         content: `You are a sales manager preparing for a 1:1 coaching conversation about a deal.
@@ -746,9 +744,10 @@ Respond ONLY with valid JSON in this exact shape:
 
 Be specific. Never be generic. Every sentence must reference the actual deal data above.`,
       }],
+      _tracking: { workspaceId, phase: 'chat', stepName: 'coaching-script' },
     });
 
-    const rawText = message.content[0].type === 'text' ? message.content[0].text : '{}';
+    const rawText = message.content || '{}';
     const responseText = rawText
       .replace(/^```(?:json)?\s*/i, '')
       .replace(/\s*```\s*$/m, '')
@@ -0,0 +1,249 @@
+/**
+ * Territory API
+ *
+ * Territory tree CRUD, rep and quota assignment, account resolution and
+ * overrides, pipeline/coverage/attainment rollups, and what-if rebalance of
+ * proposed territory maps. Mounted at /api/workspaces/:workspaceId/territories.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requirePermission } from '../middleware/permissions.js';
+import { query } from '../db.js';
+import { territoryRollup } from '../analysis/aggregations.js';
+import {
+  TerritoryValidationError,
+  assignAccountTerritory,
+  createTerritory,
+  deleteTerritory,
+  getTerritory,
+  listTerritories,
+  resolveAccountTerritories,
+  setTerritoryQuota,
+  setTerritoryReps,
+  updateTerritory,
+} from '../territories/territory-service.js';
+import { compareTerritoryMaps, type ProposedMap } from '../territories/rebalance.js';
+
+const router = Router({ mergeParams: true });
+
+function handleError(res: Response, err: unknown, action: string): void {
+  if (err instanceof TerritoryValidationError) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+  console.error(`[territories] ${action} error:`, err instanceof Error ? err.message : err);
+  res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * GET /
+ * Flat list (with parent_id), reps and resolved account counts
+ */
+router.get('/', requirePermission('data.accounts_view'), async (req: Request, res: Response) => {
+  try {
+    const territories = await listTerritories(req.params.workspaceId as string);
+    res.json({ territories });
+  } catch (err) {
+    handleError(res, err, 'load territories');
+  }
+});
+
+/**
+ * POST /
+ * Body: { name, description?, parent_id?, rules?, priority? }
+ */
+router.post('/', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const territory = await createTerritory(workspaceId, req.body || {});
+    resolveAccountTerritories(workspaceId).catch(err =>
+      console.error('[territories] Re-resolve after create failed:', err instanceof Error ? err.message : err)
+    );
+    res.status(201).json({ territory });
+  } catch (err) {
+    handleError(res, err, 'create territory');
+  }
+});
+
+/**
+ * GET /rollup?period_id=...
+ * Defaults to the quota period covering today, else the current calendar quarter
+ */
+router.get('/rollup', requirePermission('data.accounts_view'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const periodId = typeof req.query.period_id === 'string' ? req.query.period_id : null;
+
+    const periodResult = await query<{ id: string; name: string; start_date: Date; end_date: Date }>(
+      periodId
+        ? `SELECT id, name, start_date, end_date FROM quota_periods WHERE workspace_id = $1 AND id = $2`
+        : `SELECT id, name, start_date, end_date FROM quota_periods
+           WHERE workspace_id = $1 AND start_date <= CURRENT_DATE AND end_date >= CURRENT_DATE
+           ORDER BY CASE period_type WHEN 'quarterly' THEN 0 WHEN 'monthly' THEN 1 ELSE 2 END
+           LIMIT 1`,
+      periodId ? [workspaceId, periodId] : [workspaceId]
+    );
+    const period = periodResult.rows[0];
+    if (periodId && !period) {
+      res.status(404).json({ error: 'Quota period not found' });
+      return;
+    }
+
+    let start: Date;
+    let end: Date;
+    if (period) {
+      start = new Date(period.start_date);
+      end = new Date(period.end_date);
+    } else {
+      const now = new Date();
+      const quarterStartMonth = Math.floor(now.getMonth() / 3) * 3;
+      start = new Date(now.getFullYear(), quarterStartMonth, 1);
+      end = new Date(now.getFullYear(), quarterStartMonth + 3, 0);
+    }
+
+    const rollup = await territoryRollup(workspaceId, start, end, period?.id ?? null);
+    res.json({ period: period ? { id: period.id, name: period.name } : null, ...rollup });
+  } catch (err) {
+    handleError(res, err, 'compute territory rollup');
+  }
+});
+
+/**
+ * POST /resolve
+ * Re-run account-to-territory resolution (also runs after every CRM sync)
+ */
+router.post('/resolve', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const result = await resolveAccountTerritories(req.params.workspaceId as string);
+    res.json(result);
+  } catch (err) {
+    handleError(res, err, 'resolve territories');
+  }
+});
+
+/**
+ * POST /rebalance
+ * Body: { maps: [{ name, territories: [{ key, parent_key?, name, rules?, priority?, reps? }] }] }
+ */
+router.post('/rebalance', requirePermission('data.accounts_view'), async (req: Request, res: Response) => {
+  try {
+    const maps = req.body?.maps as ProposedMap[] | undefined;
+    if (!Array.isArray(maps) || maps.length === 0) {
+      res.status(400).json({ error: 'maps must be a non-empty array' });
+      return;
+    }
+    if (maps.length > 5) {
+      res.status(400).json({ error: 'At most 5 proposed maps per comparison' });
+      return;
+    }
+    const comparison = await compareTerritoryMaps(req.params.workspaceId as string, maps);
+    res.json(comparison);
+  } catch (err) {
+    handleError(res, err, 'compare territory maps');
+  }
+});
+
+/**
+ * PUT /accounts/:accountId
+ * Body: { territory_id } — pins the account; territory_id null releases it to the rules
+ */
+router.put('/accounts/:accountId', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const territoryId = req.body?.territory_id ?? null;
+    await assignAccountTerritory(req.params.workspaceId as string, req.params.accountId as string, territoryId);
+    res.json({ success: true });
+  } catch (err) {
+    handleError(res, err, 'assign account territory');
+  }
+});
+
+/**
+ * PATCH /:territoryId
+ * Body: any of { name, description, parent_id, rules, priority, is_active }
+ */
+router.patch('/:territoryId', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const territory = await updateTerritory(workspaceId, req.params.territoryId as string, req.body || {});
+    if (!territory) {
+      res.status(404).json({ error: 'Territory not found' });
+      return;
+    }
+    resolveAccountTerritories(workspaceId).catch(err =>
+      console.error('[territories] Re-resolve after update failed:', err instanceof Error ? err.message : err)
+    );
+    res.json({ territory });
+  } catch (err) {
+    handleError(res, err, 'update territory');
+  }
+});
+
+/**
+ * DELETE /:territoryId
+ * Removes the territory and its subtree
+ */
+router.delete('/:territoryId', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const deleted = await deleteTerritory(workspaceId, req.params.territoryId as string);
+    if (!deleted) {
+      res.status(404).json({ error: 'Territory not found' });
+      return;
+    }
+    resolveAccountTerritories(workspaceId).catch(err =>
+      console.error('[territories] Re-resolve after delete failed:', err instanceof Error ? err.message : err)
+    );
+    res.json({ success: true });
+  } catch (err) {
+    handleError(res, err, 'delete territory');
+  }
+});
+
+/**
+ * PUT /:territoryId/reps
+ * Body: { reps: [{ rep_name, role?: 'owner' | 'overlay' }] } — replaces the list
+ */
+router.put('/:territoryId/reps', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const territoryId = req.params.territoryId as string;
+    const reps = req.body?.reps;
+    if (!Array.isArray(reps) || reps.some(r => !r?.rep_name)) {
+      res.status(400).json({ error: 'reps must be an array of { rep_name, role? }' });
+      return;
+    }
+    if (!(await getTerritory(req.params.workspaceId as string, territoryId))) {
+      res.status(404).json({ error: 'Territory not found' });
+      return;
+    }
+    await setTerritoryReps(territoryId, reps);
+    res.json({ success: true });
+  } catch (err) {
+    handleError(res, err, 'assign territory reps');
+  }
+});
+
+/**
+ * PUT /:territoryId/quotas
+ * Body: { period_id, quota_amount }
+ */
+router.put('/:territoryId/quotas', requirePermission('config.edit'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const territoryId = req.params.territoryId as string;
+    const { period_id, quota_amount } = req.body || {};
+    if (!period_id || typeof quota_amount !== 'number' || quota_amount < 0) {
+      res.status(400).json({ error: 'period_id and a non-negative quota_amount are required' });
+      return;
+    }
+    if (!(await getTerritory(workspaceId, territoryId))) {
+      res.status(404).json({ error: 'Territory not found' });
+      return;
+    }
+    await setTerritoryQuota(workspaceId, territoryId, period_id, quota_amount);
+    res.json({ success: true });
+  } catch (err) {
+    handleError(res, err, 'set territory quota');
+  }
+});
+
+export default router;
@@ -565,6 +565,60 @@ WHERE t.workspace_id = $1
 ORDER BY t.period_start DESC
 LIMIT 1`,
     },
+
+    {
+      id: 'query_line_items',
+      name: 'Deal Line Items',
+      category: 'query',
+      description: 'Products and SKUs on deals from synced HubSpot line items or Salesforce opportunity products, with quantity, price, discount and net amount.',
+      source: 'query_tool',
+      status: 'live',
+      answers_questions: [
+        'line items', 'products on deal', 'sku', 'deals with product', 'what did they buy',
+      ],
+      examples: [
+        { query: "What products are on the Acme deal?" },
+        { query: "Which open deals include the Analytics add-on?" },
+      ],
+      sql: `-- Deal line items with product catalog match
+SELECT d.name AS deal_name, COALESCE(p.name, li.name) AS product,
+       li.quantity, li.unit_price, li.discount_percent, li.amount
+FROM deal_line_items li
+JOIN deals d ON d.id = li.deal_id
+LEFT JOIN products p ON p.id = li.product_id
+WHERE li.workspace_id = $1
+ORDER BY li.amount DESC`,
+    },
+
+    {
+      id: 'compute_product_metrics',
+      name: 'Product Metrics',
+      category: 'metric',
+      description: 'Open pipeline, win rate, ASP, average discount and attach rate per product from deal line items, with line-item coverage of open pipeline.',
+      source: 'query_tool',
+      status: 'live',
+      answers_questions: [
+        'product pipeline', 'sku win rate', 'attach rate', 'asp by product', 'product mix',
+      ],
+      examples: [
+        { query: "How much pipeline is the Analytics add-on?" },
+        { query: "Which SKU has the worst win rate?" },
+        { query: "What's our attach rate for Premium Support?" },
+      ],
+      sql: `-- Product mix: one row per (deal, product), then per product
+WITH lines AS (
+  SELECT li.deal_id, COALESCE(p.name, li.name) AS product, SUM(li.amount) AS amount
+  FROM deal_line_items li LEFT JOIN products p ON p.id = li.product_id
+  WHERE li.workspace_id = $1
+  GROUP BY li.deal_id, COALESCE(p.name, li.name)
+)
+SELECT l.product,
+  SUM(l.amount) FILTER (WHERE d.stage_normalized NOT IN ('closed_won', 'closed_lost')) AS open_pipeline,
+  COUNT(*) FILTER (WHERE d.stage_normalized = 'closed_won') AS won_deals,
+  COUNT(*) FILTER (WHERE d.stage_normalized = 'closed_lost') AS lost_deals
+FROM lines l JOIN deals d ON d.id = l.deal_id
+GROUP BY l.product`,
+    },
   ];
 }
 
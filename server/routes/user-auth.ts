@@ -20,6 +20,8 @@ import {
   revokeAllUserTokens,
 } from '../auth/tokens.js';
 import { requireAuth } from '../auth/middleware.js';
+import { getEnforcedSSOUrl } from '../auth/sso.js';
+import { recordUserAuditEvent, type AuditOutcome } from '../audit/audit-log.js';
 
 const router = Router();
 
@@ -46,6 +48,45 @@ function clearRefreshTokenCookie(res: Response): void {
   res.clearCookie(REFRESH_TOKEN_COOKIE_NAME);
 }
 
+/**
+ * Helper to block password auth for domains that enforce SSO.
+ * Returns true (and responds) when the caller must use SSO instead.
+ */
+async function rejectIfSSOEnforced(res: Response, email: string): Promise<boolean> {
+  const ssoUrl = await getEnforcedSSOUrl(email);
+  if (!ssoUrl) return false;
+
+  res.status(403).json({
+    error: 'Your organization requires single sign-on',
+    code: 'SSO_REQUIRED',
+    sso_url: ssoUrl,
+  });
+  return true;
+}
+
+/**
+ * Helper to record an auth event in every workspace the user belongs to
+ */
+function auditAuthEvent(
+  req: Request,
+  user: { id: string; email?: string | null },
+  action: string,
+  outcome: AuditOutcome = 'success',
+  metadata?: Record<string, unknown>
+): void {
+  recordUserAuditEvent(user.id, {
+    action,
+    actor: { type: 'user', id: user.id, email: user.email || null },
+    targetUserId: user.id,
+    resourceType: 'user',
+    resourceId: user.id,
+    outcome,
+    metadata,
+    ipAddress: req.ip || null,
+    userAgent: req.get('user-agent')?.slice(0, 512) || null,
+  });
+}
+
 /**
  * POST /register
  * Create a new user account with email and password
@@ -79,6 +120,8 @@ router.post('/register', async (req: Request, res: Response) => {
       return;
     }
 
+    if (await rejectIfSSOEnforced(res, normalizedEmail)) return;
+
     // Check if email already exists
     const existingUser = await query<{ id: string }>(`
       SELECT id FROM users WHERE email = $1
@@ -152,6 +195,8 @@ router.post('/login', async (req: Request, res: Response) => {
 
     const normalizedEmail = email.trim().toLowerCase();
 
+    if (await rejectIfSSOEnforced(res, normalizedEmail)) return;
+
     // Find user
     const userResult = await query<{
       id: string;
@@ -172,10 +217,18 @@ router.post('/login', async (req: Request, res: Response) => {
 
     const user = userResult.rows[0];
 
+    // SSO-provisioned accounts have no password
+    if (!user.password_hash) {
+      auditAuthEvent(req, user, 'auth.login_failed', 'failure', { reason: 'no_password' });
+      res.status(401).json({ error: 'Invalid credentials' });
+      return;
+    }
+
     // Verify password
     const isValid = await bcrypt.compare(password, user.password_hash);
 
     if (!isValid) {
+      auditAuthEvent(req, user, 'auth.login_failed', 'failure', { reason: 'invalid_password' });
       res.status(401).json({ error: 'Invalid credentials' });
       return;
     }
@@ -202,6 +255,8 @@ router.post('/login', async (req: Request, res: Response) => {
     // Set refresh token cookie
     setRefreshTokenCookie(res, refreshToken.raw);
 
+    auditAuthEvent(req, user, 'auth.login', 'success', { method: 'password' });
+
     res.json({
       user: {
         id: user.id,
@@ -309,7 +364,12 @@ router.post('/logout', async (req: Request, res: Response) => {
     const authHeader = req.headers.authorization;
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
-      await query(`DELETE FROM user_sessions WHERE token = $1`, [token]).catch(() => {});
+      const session = await query<{ user_id: string }>(
+        `DELETE FROM user_sessions WHERE token = $1 RETURNING user_id`,
+        [token]
+      ).catch(() => null);
+      const userId = session?.rows[0]?.user_id;
+      if (userId) auditAuthEvent(req, { id: userId }, 'auth.logout');
     }
 
     clearRefreshTokenCookie(res);
@@ -337,6 +397,7 @@ router.post('/logout-all', requireAuth, async (req: Request, res: Response) => {
 
     await revokeAllUserTokens(userId);
     await query(`DELETE FROM user_sessions WHERE user_id = $1`, [userId]);
+    auditAuthEvent(req, { id: userId, email: req.user?.email }, 'auth.logout', 'success', { all_sessions: true });
 
     clearRefreshTokenCookie(res);
 
@@ -400,6 +461,7 @@ router.post('/change-password', requireAuth, async (req: Request, res: Response)
     const isValid = await bcrypt.compare(currentPassword, user.password_hash);
 
     if (!isValid) {
+      auditAuthEvent(req, { id: userId, email: req.user?.email }, 'auth.password_changed', 'failure', { reason: 'invalid_current_password' });
       res.status(401).json({ error: 'Current password is incorrect' });
       return;
     }
@@ -420,6 +482,8 @@ router.post('/change-password', requireAuth, async (req: Request, res: Response)
     // Clear refresh token cookie
     clearRefreshTokenCookie(res);
 
+    auditAuthEvent(req, { id: userId, email: req.user?.email }, 'auth.password_changed');
+
     res.json({
       success: true,
       message: 'Password updated. Please sign in again.',
@@ -787,6 +851,8 @@ router.post('/forgot-password', async (req: Request, res: Response) => {
 
     const normalized = email.trim().toLowerCase();
 
+    if (await rejectIfSSOEnforced(res, normalized)) return;
+
     const userResult = await query<{ id: string; email: string }>(
       'SELECT id, email FROM users WHERE LOWER(email) = $1',
       [normalized]
@@ -893,6 +959,7 @@ router.post('/reset-password', async (req: Request, res: Response) => {
     await revokeAllUserTokens(resetToken.user_id);
 
     console.log(`[auth] Password reset completed for user ${resetToken.user_id}`);
+    auditAuthEvent(req, { id: resetToken.user_id }, 'auth.password_reset');
     res.json({ success: true, message: 'Password updated. You can now sign in with your new password.' });
   } catch (err) {
     console.error('[auth] Reset password error:', err instanceof Error ? err.message : err);
@@ -0,0 +1,115 @@
+/**
+ * Win Probability Routes
+ *
+ * The trained win-probability model behind deal scoring: its validation
+ * metrics and calibration curve, on-demand retraining, and the per-deal
+ * probability with the features driving it. Mounted at
+ * /api/workspaces/:workspaceId/win-probability.
+ */
+
+import { Router, Request, Response } from 'express';
+import { query } from '../db.js';
+import { requirePermission } from '../middleware/permissions.js';
+import { MIN_CLOSED_DEALS, MIN_DEALS_PER_CLASS } from '../win-probability/model.js';
+import {
+  getLatestWinModel,
+  scoreDealsWithModel,
+  trainWorkspaceWinModel,
+  type WinModelRecord,
+} from '../win-probability/store.js';
+
+const router = Router({ mergeParams: true });
+
+router.use(requirePermission('skills.view_results'));
+
+/** Metrics only — weights stay server-side */
+function summarize(record: WinModelRecord | null) {
+  if (!record) return null;
+  return {
+    id: record.id,
+    status: record.status,
+    reason: record.reason,
+    trained_at: record.trained_at,
+    closed_deals: record.closed_deals,
+    won_deals: record.won_deals,
+    lost_deals: record.lost_deals,
+    samples: record.samples,
+    cv_auc: record.cv_auc,
+    brier: record.brier,
+    calibration_curve: record.calibration_curve,
+    features: record.model?.features ?? [],
+  };
+}
+
+/**
+ * GET /
+ * Latest model and the minimums required to train one
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const record = await getLatestWinModel(req.params.workspaceId as string);
+    res.json({
+      model: summarize(record),
+      requirements: { min_closed_deals: MIN_CLOSED_DEALS, min_deals_per_class: MIN_DEALS_PER_CLASS },
+    });
+  } catch (err) {
+    console.error('[win-probability] Get model error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to load win-probability model' });
+  }
+});
+
+/**
+ * POST /train
+ * Retrain now instead of waiting for the next deal-scoring run
+ */
+router.post('/train', requirePermission('skills.run_manual'), async (req: Request, res: Response) => {
+  try {
+    const record = await trainWorkspaceWinModel(req.params.workspaceId as string);
+    res.json({ model: summarize(record) });
+  } catch (err) {
+    console.error('[win-probability] Train error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to train win-probability model' });
+  }
+});
+
+/**
+ * GET /deals/:dealId
+ * Current probability for one deal. Falls back to the stored weighted
+ * score when no trained model is active.
+ */
+router.get('/deals/:dealId', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.params.workspaceId as string;
+    const dealId = req.params.dealId as string;
+
+    const deal = await query<{ id: string; name: string; stage_normalized: string | null; ai_score: number | null }>(
+      `SELECT id, name, stage_normalized, ai_score FROM deals WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, dealId]
+    );
+    if (deal.rows.length === 0) {
+      res.status(404).json({ error: 'Deal not found' });
+      return;
+    }
+    const row = deal.rows[0];
+
+    const record = await getLatestWinModel(workspaceId);
+    const score = record
+      ? (await scoreDealsWithModel(workspaceId, record, [dealId])).get(dealId)
+      : undefined;
+
+    res.json({
+      deal_id: row.id,
+      deal_name: row.name,
+      method: score ? 'model' : 'weighted_score',
+      win_probability: score ? score.probability : row.ai_score !== null ? row.ai_score / 100 : null,
+      drivers: score?.drivers ?? [],
+      model_id: score ? record!.id : null,
+      cv_auc: score ? record!.cv_auc : null,
+    });
+  } catch (err) {
+    console.error('[win-probability] Deal score error:', err instanceof Error ? err.message : err);
+    res.status(500).json({ error: 'Failed to compute win probability' });
+  }
+});
+
+export default router;
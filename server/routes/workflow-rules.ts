@@ -10,10 +10,22 @@ import { requirePermission } from '../middleware/permissions.js';
 import { RuleEvaluator } from '../workflow/rule-evaluator.js';
 import { ActionExecutor, type WorkflowRule } from '../workflow/action-executor.js';
 import { executeActionApproval } from '../workflow/action-approver.js';
+import { validateTriggerConfig } from '../workflow/deal-triggers.js';
+import { simulateRule, RuleSimulationError } from '../workflow/rule-simulator.js';
+import { workflowTriggerManager } from '../workflow/trigger-manager.js';
 
 const router = Router();
 const logger = createLogger('WorkflowRulesRoutes');
 
+/**
+ * Stage changes and amount writes always go through the approval queue
+ */
+function resolveExecutionMode(actionType: string, actionPayload: Record<string, any> | undefined, executionMode?: string): string {
+  if (actionType === 'stage_change') return 'queue';
+  if (actionType === 'crm_field_write' && actionPayload?.field === 'amount') return 'queue';
+  return executionMode || 'queue';
+}
+
 /**
  * GET /:workspaceId/workflow-rules
  * List all workflow rules for workspace
@@ -26,7 +38,7 @@ router.get('/:workspaceId/workflow-rules',
 
       const result = await query(
         `SELECT id, name, description, trigger_type, trigger_skill_id, trigger_finding_category,
-                trigger_severity, condition_json, action_type, action_payload, execution_mode,
+                trigger_severity, trigger_config, condition_json, action_type, action_payload, execution_mode,
                 scope, scope_filter, is_active, created_by, last_triggered_at, trigger_count,
                 created_at, updated_at
          FROM workflow_rules
@@ -59,6 +71,7 @@ router.post('/:workspaceId/workflow-rules',
         trigger_skill_id,
         trigger_finding_category,
         trigger_severity,
+        trigger_config,
         condition_json,
         action_type,
         action_payload,
@@ -83,6 +96,12 @@ router.post('/:workspaceId/workflow-rules',
         }
       }
 
+      const triggerValidation = validateTriggerConfig(trigger_type, trigger_config);
+      if (!triggerValidation.valid) {
+        res.status(400).json({ error: `Invalid trigger: ${triggerValidation.error}` });
+        return;
+      }
+
       // Check workspace rule limit (max 50)
       const countResult = await query(
         `SELECT COUNT(*) as count FROM workflow_rules WHERE workspace_id = $1 AND is_active = true`,
@@ -95,21 +114,15 @@ router.post('/:workspaceId/workflow-rules',
       }
 
       // Force queue mode for stage changes and amount updates
-      let finalExecutionMode = execution_mode || 'queue';
-      if (action_type === 'stage_change') {
-        finalExecutionMode = 'queue';
-      }
-      if (action_type === 'crm_field_write' && action_payload?.field === 'amount') {
-        finalExecutionMode = 'queue';
-      }
+      const finalExecutionMode = resolveExecutionMode(action_type, action_payload, execution_mode);
 
       // Create rule
       const result = await query(
         `INSERT INTO workflow_rules
           (workspace_id, name, description, trigger_type, trigger_skill_id,
            trigger_finding_category, trigger_severity, condition_json, action_type,
-           action_payload, execution_mode, scope, scope_filter, created_by)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+           action_payload, execution_mode, scope, scope_filter, created_by, trigger_config)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
          RETURNING *`,
         [
           workspaceId,
@@ -126,9 +139,14 @@ router.post('/:workspaceId/workflow-rules',
           scope || 'all',
           scope_filter || {},
           userId || null,
+          trigger_config || {},
         ]
       );
 
+      if (['no_activity', 'scheduled'].includes(trigger_type)) {
+        workflowTriggerManager.reloadScheduledRules().catch(() => {});
+      }
+
       logger.info('Workflow rule created', {
         workspace_id: workspaceId,
         rule_id: result.rows[0].id,
@@ -142,6 +160,71 @@ router.post('/:workspaceId/workflow-rules',
     }
   });
 
+/**
+ * POST /:workspaceId/workflow-rules/simulate
+ * Replay a draft rule against recent deal stage/field history.
+ * Body: the rule fields accepted by create, plus optional `days` (default 30, max 180)
+ */
+router.post('/:workspaceId/workflow-rules/simulate',
+  requirePermission('config.view'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { workspaceId } = req.params as Record<string, string>;
+      const {
+        name,
+        trigger_type,
+        trigger_config,
+        condition_json,
+        action_type,
+        action_payload,
+        execution_mode,
+        scope,
+        scope_filter,
+        days,
+      } = req.body;
+
+      if (!trigger_type || !action_type) {
+        res.status(400).json({ error: 'Missing required fields: trigger_type, action_type' });
+        return;
+      }
+
+      const triggerValidation = validateTriggerConfig(trigger_type, trigger_config);
+      if (!triggerValidation.valid) {
+        res.status(400).json({ error: `Invalid trigger: ${triggerValidation.error}` });
+        return;
+      }
+
+      if (condition_json) {
+        const validation = new RuleEvaluator().validateCondition(condition_json);
+        if (!validation.valid) {
+          res.status(400).json({ error: `Invalid condition: ${validation.error}` });
+          return;
+        }
+      }
+
+      const result = await simulateRule(workspaceId, {
+        name,
+        trigger_type,
+        trigger_config: trigger_config || {},
+        condition_json: condition_json || {},
+        action_type,
+        action_payload: action_payload || {},
+        execution_mode: resolveExecutionMode(action_type, action_payload, execution_mode) as any,
+        scope: scope || 'all',
+        scope_filter: scope_filter || {},
+      }, { days: days !== undefined ? Number(days) || undefined : undefined });
+
+      res.json(result);
+    } catch (err) {
+      if (err instanceof RuleSimulationError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      logger.error('Failed to simulate workflow rule', err as Error);
+      res.status(500).json({ error: 'Failed to simulate workflow rule' });
+    }
+  });
+
 /**
  * GET /:workspaceId/workflow-rules/:ruleId
  * Get workflow rule detail
@@ -196,6 +279,7 @@ router.patch('/:workspaceId/workflow-rules/:ruleId',
         'trigger_skill_id',
         'trigger_finding_category',
         'trigger_severity',
+        'trigger_config',
         'condition_json',
         'action_payload',
         'execution_mode',
@@ -220,6 +304,18 @@ router.patch('/:workspaceId/workflow-rules/:ruleId',
             }
           }
 
+          if (key === 'trigger_config') {
+            const current = await query<{ trigger_type: string }>(
+              `SELECT trigger_type FROM workflow_rules WHERE workspace_id = $1 AND id = $2`,
+              [workspaceId, ruleId]
+            );
+            const validation = validateTriggerConfig(current.rows[0]?.trigger_type ?? '', value as any);
+            if (!validation.valid) {
+              res.status(400).json({ error: `Invalid trigger: ${validation.error}` });
+              return;
+            }
+          }
+
           setClause.push(`${key} = $${paramIndex}`);
           values.push(value);
           paramIndex++;
@@ -246,6 +342,10 @@ router.patch('/:workspaceId/workflow-rules/:ruleId',
         return;
       }
 
+      if (['no_activity', 'scheduled'].includes(result.rows[0].trigger_type)) {
+        workflowTriggerManager.reloadScheduledRules().catch(() => {});
+      }
+
       logger.info('Workflow rule updated', { workspace_id: workspaceId, rule_id: ruleId });
       res.json({ rule: result.rows[0] });
     } catch (err) {
@@ -265,7 +365,7 @@ router.delete('/:workspaceId/workflow-rules/:ruleId',
       const { workspaceId, ruleId } = req.params as Record<string, string>;
 
       const result = await query(
-        `UPDATE workflow_rules SET is_active = false WHERE workspace_id = $1 AND id = $2 RETURNING id`,
+        `UPDATE workflow_rules SET is_active = false WHERE workspace_id = $1 AND id = $2 RETURNING id, trigger_type`,
         [workspaceId, ruleId]
       );
 
@@ -274,6 +374,10 @@ router.delete('/:workspaceId/workflow-rules/:ruleId',
         return;
       }
 
+      if (['no_activity', 'scheduled'].includes(result.rows[0].trigger_type)) {
+        workflowTriggerManager.reloadScheduledRules().catch(() => {});
+      }
+
       logger.info('Workflow rule deleted', { workspace_id: workspaceId, rule_id: ruleId });
       res.json({ success: true });
     } catch (err) {
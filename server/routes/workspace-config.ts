@@ -21,6 +21,7 @@ import { inferWorkspaceConfig } from '../config/inference-engine.js';
 import { getInstantAuditResults } from '../config/instant-audit.js';
 import { getConfigSuggestions } from '../config/drift-detection.js';
 import { getAuditHistory } from '../skills/compute/workspace-config-audit.js';
+import { auditRequest } from '../audit/audit-log.js';
 
 const router = Router();
 
@@ -104,6 +105,8 @@ router.put(
         confirmed: true,
       } as WorkspaceConfig;
 
+      const previous = await configLoader.getConfig(workspaceId);
+
       await query(
         `UPDATE context_layer
          SET definitions = jsonb_set(COALESCE(definitions, '{}'), '{workspace_config}', $2::jsonb),
@@ -116,6 +119,13 @@ router.put(
       configLoader.clearCache(workspaceId);
       clearWorkspaceMemoryCache(workspaceId);
 
+      await auditRequest(req, {
+        action: 'config.workspace_config_replaced',
+        resourceType: 'workspace_config',
+        resourceId: 'workspace_config',
+        metadata: { previous, value: config },
+      });
+
       res.json({ success: true, config });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -252,6 +262,13 @@ router.patch(
       configLoader.clearCache(workspaceId);
       clearWorkspaceMemoryCache(workspaceId);
 
+      await auditRequest(req, {
+        action: 'config.updated',
+        resourceType: 'workspace_config',
+        resourceId: section,
+        metadata: { section, previous: (existing as any)[section] ?? null, value: sectionData },
+      });
+
       res.json({ success: true, config: updated });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -324,6 +341,12 @@ router.delete(
       configLoader.clearCache(workspaceId);
       clearWorkspaceMemoryCache(workspaceId);
 
+      await auditRequest(req, {
+        action: 'config.workspace_config_reset',
+        resourceType: 'workspace_config',
+        resourceId: 'workspace_config',
+      });
+
       res.json({
         success: true,
         message: 'Workspace config deleted, reverted to defaults',
@@ -525,6 +548,13 @@ router.post(
       configLoader.clearCache(workspaceId);
       clearWorkspaceMemoryCache(workspaceId);
 
+      await auditRequest(req, {
+        action: 'config.review_confirmed',
+        resourceType: 'workspace_config',
+        resourceId: item.section,
+        metadata: { section: item.section, suggested_value: item.suggested_value ?? null },
+      });
+
       res.json({ success: true, message: 'Review item confirmed' });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -9,6 +9,7 @@ import { requirePermission, requireAnyPermission } from '../middleware/permissio
 import fs from 'fs/promises';
 import path from 'path';
 import { query } from '../db.js';
+import { auditRequest } from '../audit/audit-log.js';
 
 const router = Router({ mergeParams: true });
 
@@ -148,6 +149,13 @@ router.get('/:downloadId/file', async (req, res) => {
 
     const mimeType = mimeTypes[download.format] || 'application/octet-stream';
 
+    await auditRequest(req, {
+      action: 'export.download',
+      resourceType: 'workspace_download',
+      resourceId: downloadId,
+      metadata: { filename: download.filename, format: download.format },
+    });
+
     // Set headers and stream file
     res.setHeader('Content-Type', mimeType);
     res.setHeader('Content-Disposition', `attachment; filename="${download.filename}"`);
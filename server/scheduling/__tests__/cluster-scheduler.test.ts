@@ -0,0 +1,115 @@
+/**
+ * Tests for the cluster scheduler: only the replica that claims a fire runs
+ * it, and missed fires follow the job's catch-up policy
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+const cronMock = vi.hoisted(() => ({
+  callbacks: new Map<string, (ctx: { date: Date }) => Promise<void>>(),
+}));
+
+vi.mock('node-cron', () => ({
+  default: {
+    schedule: vi.fn((_expr: string, fn: (ctx: { date: Date }) => Promise<void>, opts: { name: string }) => {
+      cronMock.callbacks.set(opts.name, fn);
+      return { stop: vi.fn(), getNextRun: () => new Date('2026-03-02T10:00:00Z') };
+    }),
+  },
+}));
+
+import { query } from '../../db.js';
+import { scheduleJob } from '../cluster-scheduler.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+function sqlCalls(fragment: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+}
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  cronMock.callbacks.clear();
+});
+
+describe('scheduleJob', () => {
+  it('runs the handler only on the replica whose claim wins', async () => {
+    let claimed = false;
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes("'running'") && sql.includes('RETURNING id')) {
+        if (claimed) return { rows: [], rowCount: 0 };
+        claimed = true;
+        return { rows: [{ id: '1' }], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+    const handler = vi.fn();
+    const job = scheduleJob('test:claim', '0 9 * * *', handler);
+
+    const fire = cronMock.callbacks.get('test:claim')!;
+    await fire({ date: new Date('2026-03-01T09:00:00.250Z') });
+    await fire({ date: new Date('2026-03-01T09:00:00.900Z') });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    const claims = sqlCalls('RETURNING id');
+    expect(claims).toHaveLength(2);
+    expect(claims[0][1][2]).toEqual(new Date('2026-03-01T09:00:00Z'));
+    expect(sqlCalls('UPDATE scheduled_job_runs SET status')[0][1]).toEqual(['1', 'succeeded', null]);
+    job.stop();
+  });
+
+  it('skips the fire when the claim cannot be recorded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('RETURNING id')) throw new Error('connection lost');
+      return { rows: [], rowCount: 1 };
+    });
+    const handler = vi.fn();
+    scheduleJob('test:db-down', '* * * * *', handler).stop();
+
+    await cronMock.callbacks.get('test:db-down')!({ date: new Date() });
+
+    expect(handler).not.toHaveBeenCalled();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('records a missed fire without running it under the skip policy', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('SELECT next_fire_at')) {
+        return { rows: [{ next_fire_at: new Date('2026-03-01T09:00:00Z'), last_fire_at: new Date('2026-02-28T09:00:00Z') }] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+    const handler = vi.fn();
+    const job = scheduleJob('test:skip', '0 9 * * *', handler, { workspaceId: 'ws-1' });
+
+    await vi.waitFor(() => expect(sqlCalls("last_status = 'missed'")).toHaveLength(1));
+    const missed = sqlCalls("'missed'")[0];
+    expect(missed[1]).toEqual(['test:skip', 'ws-1', new Date('2026-03-01T09:00:00Z'), expect.any(String)]);
+    expect(handler).not.toHaveBeenCalled();
+    job.stop();
+    vi.mocked(console.warn).mockRestore();
+  });
+
+  it('runs one catch-up for the missed fire under the run_once policy', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('SELECT next_fire_at')) {
+        return { rows: [{ next_fire_at: new Date('2026-03-01T09:00:00Z'), last_fire_at: null }] };
+      }
+      if (sql.includes('RETURNING id')) return { rows: [{ id: '7' }], rowCount: 1 };
+      return { rows: [], rowCount: 1 };
+    });
+    const handler = vi.fn();
+    const job = scheduleJob('test:catch-up', '0 9 * * *', handler, { catchUp: 'run_once' });
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    const claim = sqlCalls('RETURNING id')[0];
+    expect(claim[1].slice(2, 4)).toEqual([new Date('2026-03-01T09:00:00Z'), 'catch_up']);
+    job.stop();
+    vi.mocked(console.warn).mockRestore();
+  });
+});
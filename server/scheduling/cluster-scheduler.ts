@@ -0,0 +1,379 @@
+/**
+ * Cluster-safe Job Scheduler
+ *
+ * Drop-in replacement for node-cron's schedule() when several API replicas
+ * run the same schedules. Every replica keeps its own cron timer, but a fire
+ * only executes on the replica that claims it: each fire inserts a row into
+ * scheduled_job_runs keyed by (job_key, fire_time) and the unique constraint
+ * lets exactly one INSERT win. Losers skip silently.
+ *
+ * scheduled_jobs holds one row per job (cron, next/last fire, last status) so
+ * any replica can answer "when does this run next" and detect fires missed
+ * while every replica was down:
+ *   catchUp 'skip'     — record the missed fire, wait for the next one (default)
+ *   catchUp 'run_once' — run once immediately for the missed window
+ *
+ * A run whose replica dies keeps status 'running' until its lease expires;
+ * sweepAbandonedRuns() marks it 'abandoned'. Crashed runs are not retried —
+ * a fire executes at most once.
+ */
+
+import os from 'os';
+import cron, { type ScheduledTask } from 'node-cron';
+import { query } from '../db.js';
+
+export type CatchUpPolicy = 'skip' | 'run_once';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'missed' | 'abandoned';
+
+export interface ClusterJobOptions {
+  /** Per-workspace jobs are listed in that workspace's schedule API */
+  workspaceId?: string | null;
+  timezone?: string;
+  catchUp?: CatchUpPolicy;
+  description?: string;
+  /** How long a claimed run may stay 'running' before it counts as abandoned */
+  leaseMinutes?: number;
+}
+
+export interface ClusterJob {
+  key: string;
+  stop(): void;
+  getNextRun(): Date | null;
+}
+
+export interface ScheduledJobRow {
+  job_key: string;
+  workspace_id: string | null;
+  cron: string;
+  timezone: string;
+  catch_up: CatchUpPolicy;
+  description: string | null;
+  active: boolean;
+  next_fire_at: string | null;
+  last_fire_at: string | null;
+  last_status: JobRunStatus | null;
+  last_error: string | null;
+  last_duration_ms: number | null;
+  registered_by: string | null;
+  updated_at: string;
+}
+
+export interface ScheduledJobRunRow {
+  id: string;
+  job_key: string;
+  fire_time: string;
+  reason: 'scheduled' | 'catch_up';
+  status: JobRunStatus;
+  owner: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  error: string | null;
+}
+
+interface RegisteredJob {
+  key: string;
+  expression: string;
+  handler: () => unknown;
+  options: Required<Pick<ClusterJobOptions, 'timezone' | 'catchUp' | 'leaseMinutes'>> & ClusterJobOptions;
+  task: ScheduledTask;
+}
+
+const DEFAULT_LEASE_MINUTES = 120;
+// A stored next_fire_at this far in the past means no replica was running at that time
+const MISSED_GRACE_MS = 2 * 60 * 1000;
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+const jobs = new Map<string, RegisteredJob>();
+// Registration and deactivation writes for a key run in order, so stopping and
+// re-scheduling a job can't leave its row inactive
+const pendingWrites = new Map<string, Promise<void>>();
+
+function floorToMinute(date: Date): Date {
+  const d = new Date(date);
+  d.setSeconds(0, 0);
+  return d;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function serializeWrite(key: string, label: string, write: () => Promise<void>): void {
+  const next = (pendingWrites.get(key) ?? Promise.resolve())
+    .then(write)
+    .catch(err => console.error(`[ClusterScheduler] Failed to ${label} ${key}:`, errorMessage(err)))
+    .finally(() => {
+      if (pendingWrites.get(key) === next) pendingWrites.delete(key);
+    });
+  pendingWrites.set(key, next);
+}
+
+/**
+ * Claim a fire for this replica. Returns the run id, or null if another
+ * replica already claimed it.
+ */
+async function claimFire(
+  job: RegisteredJob,
+  fireTime: Date,
+  reason: 'scheduled' | 'catch_up'
+): Promise<string | null> {
+  const result = await query<{ id: string }>(
+    `INSERT INTO scheduled_job_runs (job_key, workspace_id, fire_time, reason, status, owner, started_at, lease_expires_at)
+     VALUES ($1, $2, $3, $4, 'running', $5, NOW(), NOW() + make_interval(mins => $6))
+     ON CONFLICT (job_key, fire_time) DO NOTHING
+     RETURNING id`,
+    [job.key, job.options.workspaceId ?? null, fireTime, reason, INSTANCE_ID, job.options.leaseMinutes]
+  );
+  return result.rows[0]?.id ?? null;
+}
+
+async function finishRun(
+  job: RegisteredJob,
+  runId: string,
+  fireTime: Date,
+  status: 'succeeded' | 'failed',
+  durationMs: number,
+  error: string | null
+): Promise<void> {
+  await query(
+    `UPDATE scheduled_job_runs SET status = $2, finished_at = NOW(), error = $3 WHERE id = $1`,
+    [runId, status, error]
+  );
+  await query(
+    `UPDATE scheduled_jobs
+     SET last_fire_at = GREATEST(COALESCE(last_fire_at, $2), $2),
+         next_fire_at = $3,
+         last_status = $4,
+         last_error = $5,
+         last_duration_ms = $6,
+         updated_at = NOW()
+     WHERE job_key = $1`,
+    [job.key, fireTime, job.task.getNextRun(), status, error, durationMs]
+  );
+}
+
+async function executeFire(job: RegisteredJob, fireTime: Date, reason: 'scheduled' | 'catch_up'): Promise<void> {
+  let runId: string | null;
+  try {
+    runId = await claimFire(job, fireTime, reason);
+  } catch (err) {
+    // Without a claim we can't guarantee exactly-once, so the fire is skipped
+    console.error(`[ClusterScheduler] Could not claim ${job.key} @ ${fireTime.toISOString()}, skipping:`, errorMessage(err));
+    return;
+  }
+  if (!runId) return;
+
+  const startedAt = Date.now();
+  let status: 'succeeded' | 'failed' = 'succeeded';
+  let error: string | null = null;
+  try {
+    await job.handler();
+  } catch (err) {
+    status = 'failed';
+    error = errorMessage(err).slice(0, 2000);
+    console.error(`[ClusterScheduler] Job ${job.key} failed:`, error);
+  }
+
+  await finishRun(job, runId, fireTime, status, Date.now() - startedAt, error).catch(err =>
+    console.error(`[ClusterScheduler] Failed to record run for ${job.key}:`, errorMessage(err))
+  );
+}
+
+/**
+ * Upsert the job row and apply the catch-up policy if the previously stored
+ * next fire passed with no replica running it
+ */
+async function registerJobRow(job: RegisteredJob): Promise<void> {
+  const previous = await query<{ next_fire_at: Date | null; last_fire_at: Date | null }>(
+    `SELECT next_fire_at, last_fire_at FROM scheduled_jobs WHERE job_key = $1`,
+    [job.key]
+  );
+
+  await query(
+    `INSERT INTO scheduled_jobs (job_key, workspace_id, cron, timezone, catch_up, description, active, next_fire_at, registered_by, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, true, $7, $8, NOW())
+     ON CONFLICT (job_key) DO UPDATE SET
+       workspace_id = EXCLUDED.workspace_id,
+       cron = EXCLUDED.cron,
+       timezone = EXCLUDED.timezone,
+       catch_up = EXCLUDED.catch_up,
+       description = EXCLUDED.description,
+       active = true,
+       next_fire_at = EXCLUDED.next_fire_at,
+       registered_by = EXCLUDED.registered_by,
+       updated_at = NOW()`,
+    [
+      job.key,
+      job.options.workspaceId ?? null,
+      job.expression,
+      job.options.timezone,
+      job.options.catchUp,
+      job.options.description ?? null,
+      job.task.getNextRun(),
+      INSTANCE_ID,
+    ]
+  );
+
+  const row = previous.rows[0];
+  if (!row?.next_fire_at) return;
+  const expected = new Date(row.next_fire_at);
+  const alreadyRan = row.last_fire_at && new Date(row.last_fire_at) >= expected;
+  if (alreadyRan || Date.now() - expected.getTime() < MISSED_GRACE_MS) return;
+
+  if (job.options.catchUp === 'run_once') {
+    console.warn(`[ClusterScheduler] ${job.key} missed fire(s) since ${expected.toISOString()} — running catch-up`);
+    // Not awaited: a long catch-up run must not hold up later writes for this key
+    void executeFire(job, floorToMinute(expected), 'catch_up');
+    return;
+  }
+
+  const recorded = await query(
+    `INSERT INTO scheduled_job_runs (job_key, workspace_id, fire_time, reason, status, owner, finished_at)
+     VALUES ($1, $2, $3, 'scheduled', 'missed', $4, NOW())
+     ON CONFLICT (job_key, fire_time) DO NOTHING`,
+    [job.key, job.options.workspaceId ?? null, floorToMinute(expected), INSTANCE_ID]
+  );
+  if (recorded.rowCount) {
+    await query(
+      `UPDATE scheduled_jobs SET last_status = 'missed', updated_at = NOW() WHERE job_key = $1`,
+      [job.key]
+    );
+    console.warn(`[ClusterScheduler] ${job.key} missed fire(s) since ${expected.toISOString()} — skipped (catch-up: skip)`);
+  }
+}
+
+/**
+ * Schedule a job that runs at most once per fire time across all replicas.
+ * Re-scheduling an existing key replaces the previous job.
+ */
+export function scheduleJob(
+  key: string,
+  expression: string,
+  handler: () => unknown,
+  options: ClusterJobOptions = {}
+): ClusterJob {
+  jobs.get(key)?.task.stop();
+
+  const job: RegisteredJob = {
+    key,
+    expression,
+    handler,
+    options: {
+      ...options,
+      timezone: options.timezone ?? 'UTC',
+      catchUp: options.catchUp ?? 'skip',
+      leaseMinutes: options.leaseMinutes ?? DEFAULT_LEASE_MINUTES,
+    },
+    task: null as unknown as ScheduledTask,
+  };
+  job.task = cron.schedule(
+    expression,
+    context => executeFire(job, floorToMinute(context.date), 'scheduled'),
+    { timezone: job.options.timezone, name: key }
+  );
+  jobs.set(key, job);
+
+  serializeWrite(key, 'register', () => registerJobRow(job));
+
+  return {
+    key,
+    getNextRun: () => job.task.getNextRun(),
+    stop: () => {
+      // A replaced job must not deactivate its replacement
+      if (jobs.get(key) === job) unscheduleJob(key);
+      else job.task.stop();
+    },
+  };
+}
+
+/**
+ * Stop a job on this replica and mark it inactive. Other replicas that still
+ * schedule it re-activate the row on their next registration.
+ */
+export function unscheduleJob(key: string): void {
+  const job = jobs.get(key);
+  if (!job) return;
+  job.task.stop();
+  jobs.delete(key);
+  serializeWrite(key, 'deactivate', async () => {
+    await query(
+      `UPDATE scheduled_jobs SET active = false, updated_at = NOW() WHERE job_key = $1`,
+      [key]
+    );
+  });
+}
+
+/**
+ * Mark runs whose replica stopped reporting as abandoned
+ */
+export async function sweepAbandonedRuns(): Promise<number> {
+  const result = await query(
+    `UPDATE scheduled_job_runs
+     SET status = 'abandoned', finished_at = NOW(), error = 'Lease expired before the run finished'
+     WHERE status = 'running' AND lease_expires_at < NOW()`
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Delete run history older than the given number of days
+ */
+export async function pruneJobRuns(olderThanDays: number): Promise<number> {
+  const result = await query(
+    `DELETE FROM scheduled_job_runs
+     WHERE created_at < NOW() - make_interval(days => $1) AND status <> 'running'`,
+    [olderThanDays]
+  );
+  return result.rowCount ?? 0;
+}
+
+export function listLocalJobs(): Array<{ key: string; cron: string; timezone: string; next_fire_at: Date | null }> {
+  return [...jobs.values()].map(job => ({
+    key: job.key,
+    cron: job.expression,
+    timezone: job.options.timezone,
+    next_fire_at: job.task.getNextRun(),
+  }));
+}
+
+export async function listScheduledJobs(filters: { workspaceId?: string; includeGlobal?: boolean } = {}): Promise<ScheduledJobRow[]> {
+  const conditions = ['active = true'];
+  const values: any[] = [];
+  if (filters.workspaceId) {
+    values.push(filters.workspaceId);
+    conditions.push(filters.includeGlobal ? `(workspace_id = $1 OR workspace_id IS NULL)` : `workspace_id = $1`);
+  }
+  const result = await query<ScheduledJobRow>(
+    `SELECT job_key, workspace_id, cron, timezone, catch_up, description, active, next_fire_at, last_fire_at,
+            last_status, last_error, last_duration_ms, registered_by, updated_at
+     FROM scheduled_jobs
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY next_fire_at NULLS LAST, job_key`,
+    values
+  );
+  return result.rows;
+}
+
+export async function getScheduledJob(jobKey: string): Promise<ScheduledJobRow | null> {
+  const result = await query<ScheduledJobRow>(
+    `SELECT job_key, workspace_id, cron, timezone, catch_up, description, active, next_fire_at, last_fire_at,
+            last_status, last_error, last_duration_ms, registered_by, updated_at
+     FROM scheduled_jobs
+     WHERE job_key = $1`,
+    [jobKey]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function listJobRuns(jobKey: string, limit = 50): Promise<ScheduledJobRunRow[]> {
+  const result = await query<ScheduledJobRunRow>(
+    `SELECT id, job_key, fire_time, reason, status, owner, started_at, finished_at, error
+     FROM scheduled_job_runs
+     WHERE job_key = $1
+     ORDER BY fire_time DESC
+     LIMIT $2`,
+    [jobKey, Math.min(Math.max(limit, 1), 500)]
+  );
+  return result.rows;
+}
@@ -0,0 +1,129 @@
+/**
+ * Tests for the semantic search index: chunking, rank fusion, the router's
+ * embed() call and keyword-only fallback when embeddings are unavailable
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+vi.mock('../../training/index.js', () => ({ logTrainingPair: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../../llm/fireworks-trainer.js', () => ({ getDeployedFineTunedModel: vi.fn().mockResolvedValue(null) }));
+
+import { query } from '../../db.js';
+import { clearConfigCache, embed } from '../../utils/llm-router.js';
+import { chunkText } from '../chunker.js';
+import { fuseRankings, semanticSearch } from '../semantic-search.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+function useConfig(providers: Record<string, any>, routing: Record<string, any> = {}) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM llm_configs')) {
+      return { rows: [{ providers, routing, default_token_budget: 1_000_000, tokens_used_this_month: 0 }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+}
+
+beforeEach(() => {
+  clearConfigCache();
+  mockQuery.mockReset();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('chunkText', () => {
+  it('splits transcripts on speaker turns and records speakers', () => {
+    const transcript = Array.from({ length: 40 }, (_, i) =>
+      i % 2 === 0
+        ? `Dana Buyer: Honestly this is too expensive for us this year, turn ${i}.`
+        : `Sam Rep: Understood, we can look at a phased rollout, turn ${i}.`
+    ).join('\n');
+
+    const chunks = chunkText(transcript, { maxChars: 400, overlapChars: 80 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(480);
+      expect(chunk.content.split('\n').every(line => /^(Dana Buyer|Sam Rep): /.test(line))).toBe(true);
+    }
+    expect(chunks[0].speakers).toEqual(['Dana Buyer', 'Sam Rep']);
+    // Overlap: the last turn of a chunk opens the next one
+    const lastLine = chunks[0].content.split('\n').pop()!;
+    expect(chunks[1].content.startsWith(lastLine)).toBe(true);
+  });
+
+  it('gives unchanged text the same hashes so embeddings can be reused', () => {
+    const doc = 'Pricing\n\nThe buyer asked for a discount.\n\nSecurity review is scheduled for May.';
+    expect(chunkText(doc).map(c => c.hash)).toEqual(chunkText(doc).map(c => c.hash));
+    expect(chunkText(doc)[0].hash).not.toEqual(chunkText(`${doc} Updated.`)[0].hash);
+  });
+});
+
+describe('fuseRankings', () => {
+  it('ranks chunks found by both rankers above single-ranker hits', () => {
+    const fused = fuseRankings([['a', 'b', 'c'], ['d', 'b', 'a']]);
+    expect(fused.map(f => f.id).slice(0, 2)).toEqual(['a', 'b']);
+    expect(fused.map(f => f.id)).toHaveLength(4);
+  });
+});
+
+describe('embed', () => {
+  it('embeds through the local server when the workspace is on-prem', async () => {
+    useConfig(
+      { local: { enabled: true, apiKey: '', baseURL: 'http://vllm.internal:8000/v1', localOnly: true, defaultModel: 'qwen2.5-72b', embeddingModel: 'nomic-embed-text' } },
+      { embed: 'openai/text-embedding-3-small' }
+    );
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body));
+      // Out of order on purpose: vectors must come back in input order
+      return new Response(JSON.stringify({
+        data: body.input.map((_: string, i: number) => ({ index: i, embedding: [i, 0.5] })).reverse(),
+        usage: { prompt_tokens: 12 },
+      }), { status: 200 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await embed('ws-1', ['first', 'second']);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://vllm.internal:8000/v1/embeddings');
+    expect(JSON.parse(String((fetchMock.mock.calls[0][1] as RequestInit).body)).model).toBe('nomic-embed-text');
+    expect(result).toMatchObject({ provider: 'local', model: 'nomic-embed-text', dimensions: 2 });
+    expect(result.embeddings).toEqual([[0, 0.5], [1, 0.5]]);
+  });
+
+  it('rejects providers without an embeddings API', async () => {
+    useConfig({}, { embed: 'anthropic/claude-sonnet-4-20250514' });
+    await expect(embed('ws-1', ['x'])).rejects.toThrow(/does not offer embeddings/);
+  });
+});
+
+describe('semanticSearch', () => {
+  it('falls back to keyword ranking and returns cited chunks', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM llm_configs')) return { rows: [] };
+      if (sql.includes('ts_rank_cd')) return { rows: [{ id: 'chunk-2' }, { id: 'chunk-1' }] };
+      if (sql.includes('id = ANY')) {
+        return {
+          rows: [
+            { id: 'chunk-1', source_type: 'document', source_id: 'doc-1', content: 'Pricing FAQ', metadata: { title: 'Pricing FAQ', url: 'https://drive.google.com/x' } },
+            { id: 'chunk-2', source_type: 'conversation', source_id: 'conv-1', content: 'Dana Buyer: too expensive for us this year', metadata: { title: 'Acme renewal', speakers: ['Dana Buyer'] } },
+          ],
+        };
+      }
+      return { rows: [] };
+    });
+
+    const result = await semanticSearch('ws-1', 'who pushed back on pricing');
+    vi.unstubAllEnvs();
+
+    expect(result.mode).toBe('keyword');
+    expect(result.note).toBeTruthy();
+    expect(result.results.map(r => [r.citation_id, r.source_id])).toEqual([['S1', 'conv-1'], ['S2', 'doc-1']]);
+    expect(result.results[0]).toMatchObject({ speakers: ['Dana Buyer'], matched_by: ['keyword'] });
+    expect(result.results[1].url).toBe('https://drive.google.com/x');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Text chunking for the semantic search index
+ *
+ * Transcripts are split on speaker turns ("Name: text" lines) so a chunk
+ * never starts mid-sentence and its speakers can be cited; documents are
+ * split on paragraphs. Chunks overlap slightly so an answer that straddles
+ * a boundary is still retrievable from one chunk.
+ */
+
+import crypto from 'crypto';
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  hash: string;
+  speakers: string[];
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1200;
+const DEFAULT_OVERLAP_CHARS = 200;
+const SPEAKER_LINE = /^([A-Z][^:\n]{0,60}):\s+\S/;
+
+export function hashContent(content: string): string {
+  return crypto.createHash('md5').update(content).digest('hex');
+}
+
+/**
+ * Split on blank lines, or on lines when the text is line-oriented (transcripts)
+ */
+function splitUnits(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  if (!normalized) return [];
+
+  const lines = normalized.split('\n');
+  const speakerLines = lines.filter(l => SPEAKER_LINE.test(l)).length;
+  const units = speakerLines >= Math.max(2, lines.length * 0.3)
+    ? lines
+    : normalized.split(/\n\s*\n/);
+
+  return units.map(u => u.trim()).filter(Boolean);
+}
+
+/**
+ * Hard-wrap a unit longer than maxChars at sentence, then word, boundaries
+ */
+function wrapUnit(unit: string, maxChars: number): string[] {
+  if (unit.length <= maxChars) return [unit];
+
+  const pieces: string[] = [];
+  let rest = unit;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+    if (cut < maxChars / 2) cut = window.lastIndexOf(' ');
+    if (cut < maxChars / 2) cut = maxChars - 1;
+    pieces.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+function speakersIn(content: string): string[] {
+  const speakers = new Set<string>();
+  for (const line of content.split('\n')) {
+    const match = line.match(SPEAKER_LINE);
+    if (match) speakers.add(match[1].trim());
+  }
+  return [...speakers];
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = options.overlapChars ?? DEFAULT_OVERLAP_CHARS;
+  const units = splitUnits(text).flatMap(u => wrapUnit(u, maxChars));
+
+  const contents: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const unit of units) {
+    if (currentLength > 0 && currentLength + unit.length + 1 > maxChars) {
+      contents.push(current.join('\n'));
+
+      // Carry trailing units into the next chunk as overlap
+      const carried: string[] = [];
+      let carriedLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (carriedLength + current[i].length > overlapChars) break;
+        carried.unshift(current[i]);
+        carriedLength += current[i].length + 1;
+      }
+      current = carried;
+      currentLength = carriedLength;
+    }
+    current.push(unit);
+    currentLength += unit.length + 1;
+  }
+  if (current.length > 0) contents.push(current.join('\n'));
+
+  return contents.map((content, index) => ({
+    index,
+    content,
+    hash: hashContent(content),
+    speakers: speakersIn(content),
+  }));
+}
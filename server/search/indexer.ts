@@ -0,0 +1,279 @@
+/**
+ * Semantic Search Indexer
+ *
+ * Keeps search_chunks in step with conversations, documents, open findings
+ * and unresolved workspace memory. Runs after each sync and is incremental:
+ * - Only sources updated since they were last indexed are re-chunked
+ * - A chunk whose text is unchanged keeps its embedding
+ * - Chunks of deleted (or resolved) sources are pruned
+ * - Chunks without an embedding from the current model are embedded in
+ *   batches; if no embedding provider is available the keyword index is
+ *   still maintained and search degrades to keyword-only
+ */
+
+import { query } from '../db.js';
+import { embed, getEmbeddingRoute } from '../utils/llm-router.js';
+import { chunkText } from './chunker.js';
+
+export type SearchSourceType = 'conversation' | 'document' | 'finding' | 'memory';
+
+export const SEARCH_SOURCE_TYPES: SearchSourceType[] = ['conversation', 'document', 'finding', 'memory'];
+
+export interface IndexStats {
+  sources: Record<SearchSourceType, number>;
+  chunks: number;
+  pruned: number;
+  embedded: number;
+  embeddingError?: string;
+}
+
+interface SourceDefinition {
+  table: string;
+  // Columns selected as s.*; must include id and a text column
+  columns: string;
+  // Rows that belong in the index
+  indexable: string;
+  toMetadata: (row: any) => Record<string, any>;
+}
+
+const SOURCES: Record<SearchSourceType, SourceDefinition> = {
+  conversation: {
+    table: 'conversations',
+    columns: `s.id, s.title, s.call_date, s.deal_id, s.account_id, s.is_internal, s.source,
+              COALESCE(NULLIF(s.transcript_text, ''), s.summary) AS text`,
+    indexable: `COALESCE(NULLIF(s.transcript_text, ''), NULLIF(s.summary, '')) IS NOT NULL`,
+    toMetadata: row => ({
+      title: row.title || 'Untitled call',
+      date: row.call_date,
+      deal_id: row.deal_id,
+      account_id: row.account_id,
+      is_internal: !!row.is_internal,
+      source: row.source,
+    }),
+  },
+  document: {
+    table: 'documents',
+    columns: `s.id, s.title, s.url, s.source, s.deal_id, s.account_id, s.last_modified_at,
+              COALESCE(NULLIF(s.content_text, ''), s.summary) AS text`,
+    indexable: `COALESCE(NULLIF(s.content_text, ''), NULLIF(s.summary, '')) IS NOT NULL`,
+    toMetadata: row => ({
+      title: row.title || 'Untitled document',
+      date: row.last_modified_at,
+      url: row.url,
+      deal_id: row.deal_id,
+      account_id: row.account_id,
+      source: row.source,
+    }),
+  },
+  finding: {
+    table: 'findings',
+    columns: `s.id, s.skill_id, s.severity, s.category, s.deal_id, s.account_id, s.owner_email, s.created_at,
+              s.message AS text`,
+    indexable: `s.resolved_at IS NULL`,
+    toMetadata: row => ({
+      title: `${row.skill_id} · ${row.category}`,
+      date: row.created_at,
+      severity: row.severity,
+      skill_id: row.skill_id,
+      owner_email: row.owner_email,
+      deal_id: row.deal_id,
+      account_id: row.account_id,
+    }),
+  },
+  memory: {
+    table: 'workspace_memory',
+    columns: `s.id, s.memory_type, s.entity_type, s.entity_id, s.entity_name, s.period_label, s.updated_at,
+              s.summary AS text`,
+    indexable: `s.is_resolved = false`,
+    toMetadata: row => ({
+      title: row.entity_name ? `${row.entity_name} (${row.memory_type})` : row.memory_type,
+      date: row.updated_at,
+      memory_type: row.memory_type,
+      period: row.period_label,
+      deal_id: row.entity_type === 'deal' ? row.entity_id : null,
+      account_id: row.entity_type === 'account' ? row.entity_id : null,
+    }),
+  },
+};
+
+const SOURCE_PAGE_SIZE = 100;
+const MAX_SOURCE_PAGES_PER_RUN = 20;
+const EMBED_BATCH_SIZE = 64;
+const MAX_EMBEDDINGS_PER_RUN = 2000;
+
+const running = new Set<string>();
+
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+/**
+ * Replace the chunks of one source. Unchanged chunks (same hash) keep their
+ * embedding; changed ones are cleared for the embedding pass.
+ */
+async function writeSourceChunks(
+  workspaceId: string,
+  sourceType: SearchSourceType,
+  row: any,
+  metadata: Record<string, any>
+): Promise<number> {
+  const chunks = chunkText(row.text || '');
+
+  if (chunks.length > 0) {
+    await query(
+      `INSERT INTO search_chunks (workspace_id, source_type, source_id, chunk_index, content, content_hash, metadata, indexed_at)
+       SELECT $1, $2, $3, c.chunk_index, c.content, c.content_hash, c.metadata, NOW()
+       FROM unnest($4::int[], $5::text[], $6::text[], $7::jsonb[]) AS c(chunk_index, content, content_hash, metadata)
+       ON CONFLICT (workspace_id, source_type, source_id, chunk_index) DO UPDATE SET
+         content = EXCLUDED.content,
+         metadata = EXCLUDED.metadata,
+         indexed_at = NOW(),
+         embedding = CASE WHEN search_chunks.content_hash = EXCLUDED.content_hash THEN search_chunks.embedding END,
+         embedding_model = CASE WHEN search_chunks.content_hash = EXCLUDED.content_hash THEN search_chunks.embedding_model END,
+         embedding_dims = CASE WHEN search_chunks.content_hash = EXCLUDED.content_hash THEN search_chunks.embedding_dims END,
+         content_hash = EXCLUDED.content_hash`,
+      [
+        workspaceId,
+        sourceType,
+        row.id,
+        chunks.map(c => c.index),
+        chunks.map(c => c.content),
+        chunks.map(c => c.hash),
+        chunks.map(c => JSON.stringify(c.speakers.length > 0 ? { ...metadata, speakers: c.speakers } : metadata)),
+      ]
+    );
+  }
+
+  await query(
+    `DELETE FROM search_chunks
+     WHERE workspace_id = $1 AND source_type = $2 AND source_id = $3 AND chunk_index >= $4`,
+    [workspaceId, sourceType, row.id, chunks.length]
+  );
+
+  return chunks.length;
+}
+
+async function indexSourceType(workspaceId: string, sourceType: SearchSourceType): Promise<{ sources: number; chunks: number }> {
+  const def = SOURCES[sourceType];
+  let sources = 0;
+  let chunks = 0;
+
+  for (let page = 0; page < MAX_SOURCE_PAGES_PER_RUN; page++) {
+    const result = await query<any>(
+      `SELECT ${def.columns}
+       FROM ${def.table} s
+       WHERE s.workspace_id = $1
+         AND ${def.indexable}
+         AND s.updated_at > COALESCE(
+           (SELECT MAX(sc.indexed_at) FROM search_chunks sc
+            WHERE sc.workspace_id = $1 AND sc.source_type = $2 AND sc.source_id = s.id),
+           '-infinity'::timestamptz)
+       ORDER BY s.updated_at
+       LIMIT $3`,
+      [workspaceId, sourceType, SOURCE_PAGE_SIZE]
+    );
+
+    for (const row of result.rows) {
+      chunks += await writeSourceChunks(workspaceId, sourceType, row, def.toMetadata(row));
+      sources++;
+    }
+
+    if (result.rows.length < SOURCE_PAGE_SIZE) break;
+  }
+
+  return { sources, chunks };
+}
+
+async function pruneSourceType(workspaceId: string, sourceType: SearchSourceType): Promise<number> {
+  const def = SOURCES[sourceType];
+  const result = await query(
+    `DELETE FROM search_chunks sc
+     WHERE sc.workspace_id = $1 AND sc.source_type = $2
+       AND NOT EXISTS (
+         SELECT 1 FROM ${def.table} s
+         WHERE s.id = sc.source_id AND s.workspace_id = $1 AND ${def.indexable}
+       )`,
+    [workspaceId, sourceType]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Embed chunks that have no embedding from the workspace's current model
+ */
+export async function embedPendingChunks(workspaceId: string, limit = MAX_EMBEDDINGS_PER_RUN): Promise<number> {
+  const route = await getEmbeddingRoute(workspaceId);
+  const modelKey = `${route.provider}/${route.model}`;
+  let embedded = 0;
+
+  while (embedded < limit) {
+    const pending = await query<{ id: string; content: string }>(
+      `SELECT id, content FROM search_chunks
+       WHERE workspace_id = $1 AND (embedding IS NULL OR embedding_model IS DISTINCT FROM $2)
+       ORDER BY indexed_at
+       LIMIT $3`,
+      [workspaceId, modelKey, Math.min(EMBED_BATCH_SIZE, limit - embedded)]
+    );
+    if (pending.rows.length === 0) break;
+
+    const result = await embed(
+      workspaceId,
+      pending.rows.map(r => r.content),
+      { workspaceId, phase: 'search_index', stepName: 'embed_chunks' }
+    );
+
+    await query(
+      `UPDATE search_chunks sc
+       SET embedding = v.embedding::vector, embedding_model = $3, embedding_dims = $4
+       FROM unnest($2::uuid[], $5::text[]) AS v(id, embedding)
+       WHERE sc.id = v.id AND sc.workspace_id = $1`,
+      [
+        workspaceId,
+        pending.rows.map(r => r.id),
+        modelKey,
+        result.dimensions,
+        result.embeddings.map(toVectorLiteral),
+      ]
+    );
+
+    embedded += pending.rows.length;
+  }
+
+  return embedded;
+}
+
+/**
+ * Bring the workspace's search index up to date. Safe to call after every
+ * sync; overlapping runs for the same workspace are skipped.
+ */
+export async function indexWorkspace(workspaceId: string): Promise<IndexStats | null> {
+  if (running.has(workspaceId)) return null;
+  running.add(workspaceId);
+
+  try {
+    const stats: IndexStats = {
+      sources: { conversation: 0, document: 0, finding: 0, memory: 0 },
+      chunks: 0,
+      pruned: 0,
+      embedded: 0,
+    };
+
+    for (const sourceType of SEARCH_SOURCE_TYPES) {
+      stats.pruned += await pruneSourceType(workspaceId, sourceType);
+      const { sources, chunks } = await indexSourceType(workspaceId, sourceType);
+      stats.sources[sourceType] = sources;
+      stats.chunks += chunks;
+    }
+
+    try {
+      stats.embedded = await embedPendingChunks(workspaceId);
+    } catch (err) {
+      stats.embeddingError = err instanceof Error ? err.message : String(err);
+      console.warn(`[SearchIndex] Embedding skipped for ${workspaceId}: ${stats.embeddingError}`);
+    }
+
+    return stats;
+  } finally {
+    running.delete(workspaceId);
+  }
+}
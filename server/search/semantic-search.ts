@@ -0,0 +1,200 @@
+/**
+ * Hybrid Semantic Search
+ *
+ * Ranks search_chunks two ways and fuses the lists with reciprocal rank
+ * fusion (RRF):
+ * - Keyword: Postgres full-text rank (ts_rank_cd) over the chunk tsvector
+ * - Semantic: cosine distance between the query embedding and chunk embeddings
+ *
+ * Keyword rank catches exact names and terms; the embedding catches
+ * paraphrase ("too expensive for us this year" for "pushed back on pricing").
+ * When no embedding provider is available the search is keyword-only.
+ */
+
+import { query } from '../db.js';
+import { embed } from '../utils/llm-router.js';
+import { toVectorLiteral, type SearchSourceType } from './indexer.js';
+
+export interface SemanticSearchOptions {
+  sourceTypes?: SearchSourceType[];
+  dealId?: string;
+  accountId?: string;
+  since?: string;
+  until?: string;
+  includeInternal?: boolean;
+  limit?: number;
+}
+
+export interface SearchHit {
+  citation_id: string;
+  chunk_id: string;
+  source_type: SearchSourceType;
+  source_id: string;
+  title: string;
+  date: string | null;
+  url: string | null;
+  speakers: string[];
+  deal_id: string | null;
+  account_id: string | null;
+  excerpt: string;
+  score: number;
+  matched_by: Array<'keyword' | 'semantic'>;
+}
+
+export interface SemanticSearchResult {
+  query: string;
+  mode: 'hybrid' | 'keyword';
+  results: SearchHit[];
+  note?: string;
+}
+
+const RRF_K = 60;
+const CANDIDATES_PER_RANKER = 50;
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+const EXCERPT_CHARS = 900;
+
+/**
+ * Reciprocal rank fusion: score(d) = Σ 1 / (k + rank_i(d)), ranks from 1
+ */
+export function fuseRankings(rankings: string[][], k = RRF_K): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, i) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + i + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+function buildFilters(workspaceId: string, options: SemanticSearchOptions): { conditions: string[]; values: any[] } {
+  const values: any[] = [workspaceId];
+  const conditions = ['sc.workspace_id = $1'];
+
+  if (options.sourceTypes && options.sourceTypes.length > 0) {
+    conditions.push(`sc.source_type = ANY($${values.push(options.sourceTypes)}::text[])`);
+  }
+  if (options.dealId) conditions.push(`sc.metadata->>'deal_id' = $${values.push(options.dealId)}`);
+  if (options.accountId) conditions.push(`sc.metadata->>'account_id' = $${values.push(options.accountId)}`);
+  if (options.since) conditions.push(`(sc.metadata->>'date')::timestamptz >= $${values.push(options.since)}::timestamptz`);
+  if (options.until) conditions.push(`(sc.metadata->>'date')::timestamptz <= $${values.push(options.until)}::timestamptz`);
+  if (!options.includeInternal) conditions.push(`COALESCE((sc.metadata->>'is_internal')::boolean, false) = false`);
+
+  return { conditions, values };
+}
+
+async function keywordRanking(workspaceId: string, text: string, options: SemanticSearchOptions): Promise<string[]> {
+  const { conditions, values } = buildFilters(workspaceId, options);
+  const tsq = `websearch_to_tsquery('english', $${values.push(text)})`;
+
+  let result = await query<{ id: string }>(
+    `SELECT sc.id FROM search_chunks sc
+     WHERE ${conditions.join(' AND ')} AND sc.tsv @@ ${tsq}
+     ORDER BY ts_rank_cd(sc.tsv, ${tsq}) DESC
+     LIMIT ${CANDIDATES_PER_RANKER}`,
+    values
+  );
+
+  // websearch syntax ANDs every term; retry with any-term matching for long questions
+  if (result.rows.length === 0) {
+    const terms = text.toLowerCase().match(/[a-z0-9]{3,}/g) || [];
+    if (terms.length > 1) {
+      values[values.length - 1] = terms.join(' OR ');
+      result = await query<{ id: string }>(
+        `SELECT sc.id FROM search_chunks sc
+         WHERE ${conditions.join(' AND ')} AND sc.tsv @@ ${tsq}
+         ORDER BY ts_rank_cd(sc.tsv, ${tsq}) DESC
+         LIMIT ${CANDIDATES_PER_RANKER}`,
+        values
+      );
+    }
+  }
+
+  return result.rows.map(r => r.id);
+}
+
+async function vectorRanking(workspaceId: string, text: string, options: SemanticSearchOptions): Promise<string[]> {
+  const embedding = await embed(workspaceId, [text], { workspaceId, phase: 'search', stepName: 'embed_query' });
+  const dims = embedding.dimensions;
+  if (!Number.isInteger(dims) || dims <= 0) return [];
+
+  const { conditions, values } = buildFilters(workspaceId, options);
+  const model = `$${values.push(`${embedding.provider}/${embedding.model}`)}`;
+  const vector = `$${values.push(toVectorLiteral(embedding.embeddings[0]))}::vector(${dims})`;
+
+  // Dimension is inlined so the planner can use the matching partial HNSW index
+  const result = await query<{ id: string }>(
+    `SELECT sc.id FROM search_chunks sc
+     WHERE ${conditions.join(' AND ')}
+       AND sc.embedding_dims = ${dims} AND sc.embedding_model = ${model}
+     ORDER BY (sc.embedding::vector(${dims})) <=> ${vector}
+     LIMIT ${CANDIDATES_PER_RANKER}`,
+    values
+  );
+  return result.rows.map(r => r.id);
+}
+
+function toExcerpt(content: string): string {
+  return content.length > EXCERPT_CHARS ? `${content.slice(0, EXCERPT_CHARS)}…` : content;
+}
+
+export async function semanticSearch(
+  workspaceId: string,
+  text: string,
+  options: SemanticSearchOptions = {}
+): Promise<SemanticSearchResult> {
+  const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+  let semantic: string[] = [];
+  let note: string | undefined;
+  try {
+    semantic = await vectorRanking(workspaceId, text, options);
+  } catch (err) {
+    note = 'Semantic ranking unavailable; results are keyword matches only.';
+    console.warn('[SemanticSearch] Falling back to keyword search:', err instanceof Error ? err.message : err);
+  }
+  const keyword = await keywordRanking(workspaceId, text, options);
+
+  const fused = fuseRankings([keyword, semantic]).slice(0, limit);
+  if (fused.length === 0) {
+    return { query: text, mode: note ? 'keyword' : 'hybrid', results: [], note };
+  }
+
+  const rows = await query<any>(
+    `SELECT id, source_type, source_id, content, metadata
+     FROM search_chunks WHERE workspace_id = $1 AND id = ANY($2::uuid[])`,
+    [workspaceId, fused.map(f => f.id)]
+  );
+  const byId = new Map(rows.rows.map((r: any) => [r.id, r]));
+  const keywordIds = new Set(keyword);
+  const semanticIds = new Set(semantic);
+
+  const results: SearchHit[] = [];
+  for (const { id, score } of fused) {
+    const row = byId.get(id);
+    if (!row) continue;
+    const meta = row.metadata || {};
+    results.push({
+      citation_id: `S${results.length + 1}`,
+      chunk_id: row.id,
+      source_type: row.source_type,
+      source_id: row.source_id,
+      title: meta.title || row.source_type,
+      date: meta.date || null,
+      url: meta.url || null,
+      speakers: Array.isArray(meta.speakers) ? meta.speakers : [],
+      deal_id: meta.deal_id || null,
+      account_id: meta.account_id || null,
+      excerpt: toExcerpt(row.content),
+      score: Number(score.toFixed(5)),
+      matched_by: [
+        ...(keywordIds.has(id) ? ['keyword' as const] : []),
+        ...(semanticIds.has(id) ? ['semantic' as const] : []),
+      ],
+    });
+  }
+
+  return { query: text, mode: note ? 'keyword' : 'hybrid', results, note };
+}
@@ -3,11 +3,27 @@
  *
  * Service layer for creating RevOps operator work items in PM tools.
  * Routes ops actions from skills to the appropriate PM tool adapter.
+ *
+ * Status sync is two-way: closing the ticket resolves the originating action
+ * (syncPMTaskStatuses, polled), and resolving the action in Pandora closes the
+ * ticket (closePMTaskForAction).
  */
 
 import { query } from '../db.js';
-import type { OpsWorkItem, PMConnectorConfig, PMTaskCreationResult } from '../connectors/pm-tools/types.js';
+import type {
+  OpsCategory,
+  OpsPriority,
+  OpsWorkItem,
+  PandoraTaskAdapter,
+  PMConnectorConfig,
+  PMTaskCreationResult,
+  PMTaskStatus,
+} from '../connectors/pm-tools/types.js';
 import { MondayPMAdapter } from '../connectors/pm-tools/monday/adapter.js';
+import { JiraPMAdapter } from '../connectors/pm-tools/jira/adapter.js';
+import { AsanaPMAdapter } from '../connectors/pm-tools/asana/adapter.js';
+import { LinearPMAdapter } from '../connectors/pm-tools/linear/adapter.js';
+import { actionTypeToOpsCategory, isOpsAction, type ActionType } from '../actions/types.js';
 import { getConnectorCredentials } from '../lib/credential-store.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -120,11 +136,17 @@ function resolveSectionId(config: PMConnectorConfig, category: string): string |
 /**
  * Get PM adapter instance for connector type
  */
-function getPMAdapter(connectorType: string) {
+function getPMAdapter(connectorType: string): PandoraTaskAdapter {
   switch (connectorType) {
     case 'monday':
       return new MondayPMAdapter();
-    // Future: Add Asana, Linear, Jira, ClickUp adapters here
+    case 'jira':
+      return new JiraPMAdapter();
+    case 'asana':
+      return new AsanaPMAdapter();
+    case 'linear':
+      return new LinearPMAdapter();
+    // Future: Add ClickUp adapter here
     default:
       throw new Error(`Unsupported PM connector type: ${connectorType}`);
   }
@@ -157,3 +179,261 @@ async function storePMTaskReference(
     });
   }
 }
+
+/**
+ * Push an ops_* action from the actions table to the configured PM tool.
+ * The action id becomes the task's sourceActionId, which is what lets a
+ * closed ticket resolve the action later.
+ */
+export async function pushOpsActionToPM(workspaceId: string, actionId: string): Promise<PMTaskCreationResult> {
+  const actionResult = await query<{
+    id: string;
+    action_type: ActionType;
+    severity: string;
+    title: string;
+    summary: string | null;
+    recommended_steps: string[] | null;
+    impact_amount: number | null;
+    target_entity_name: string | null;
+    source_skill: string;
+    execution_payload: Record<string, any> | null;
+  }>(
+    `SELECT id, action_type, severity, title, summary, recommended_steps, impact_amount,
+            target_entity_name, source_skill, execution_payload
+     FROM actions WHERE id = $1 AND workspace_id = $2`,
+    [actionId, workspaceId]
+  );
+
+  const action = actionResult.rows[0];
+  if (!action || !isOpsAction(action.action_type)) {
+    return { success: false, error: 'Action not found or not an ops action' };
+  }
+
+  const existing = await query<{ external_id: string; url: string }>(
+    `SELECT external_id, url FROM pm_task_references WHERE workspace_id = $1 AND source_action_id = $2`,
+    [workspaceId, actionId]
+  );
+  if (existing.rows.length > 0) {
+    return { success: true, externalId: existing.rows[0].external_id, url: existing.rows[0].url };
+  }
+
+  const steps = Array.isArray(action.recommended_steps) ? action.recommended_steps : [];
+
+  return createPMTask(workspaceId, {
+    name: action.title,
+    description: action.summary || action.title,
+    category: actionTypeToOpsCategory(action.action_type) as OpsCategory,
+    priority: severityToOpsPriority(action.severity),
+    sourceActionId: action.id,
+    sourceSkill: action.source_skill,
+    findingSummary: action.summary || action.title,
+    impactMetric: action.impact_amount ? `$${Math.round(Number(action.impact_amount)).toLocaleString('en-US')} affected` : undefined,
+    recommendedApproach: steps.length > 0 ? steps.map(step => `- ${step}`).join('\n') : undefined,
+    affectedRecordCount: action.execution_payload?.record_count,
+  });
+}
+
+function severityToOpsPriority(severity: string): OpsPriority {
+  switch (severity) {
+    case 'critical':
+      return 'critical';
+    case 'warning':
+      return 'high';
+    case 'info':
+      return 'medium';
+    default:
+      return 'low';
+  }
+}
+
+/**
+ * Poll open PM tasks for a workspace and resolve the originating action when
+ * the ticket has been closed. Only connectors that implement getTaskStatus
+ * participate.
+ */
+export async function syncPMTaskStatuses(
+  workspaceId: string,
+  limit = 200
+): Promise<{ checked: number; resolved: number; errors: number }> {
+  const summary = { checked: 0, resolved: 0, errors: 0 };
+
+  const config = await getPMConnectorConfig(workspaceId);
+  if (!config || !config.enabled) return summary;
+
+  const adapter = getPMAdapter(config.connectorType);
+  if (!adapter.getTaskStatus) return summary;
+
+  const credentials = await getConnectorCredentials(workspaceId, `pm_${config.connectorType}`);
+  if (!credentials) return summary;
+
+  const refs = await query<{ id: number; source_action_id: string; external_id: string; url: string }>(
+    `SELECT id, source_action_id, external_id, url
+     FROM pm_task_references
+     WHERE workspace_id = $1 AND connector_type = $2 AND status = 'open'
+     ORDER BY last_synced_at NULLS FIRST, created_at
+     LIMIT $3`,
+    [workspaceId, config.connectorType, limit]
+  );
+
+  for (const ref of refs.rows) {
+    summary.checked++;
+    try {
+      const status = await adapter.getTaskStatus(credentials, ref.external_id);
+
+      await query(
+        `UPDATE pm_task_references
+         SET status = $2, external_status = $3, completed_at = $4,
+             last_synced_at = NOW(), sync_error = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [ref.id, status.state, status.statusName, status.state === 'open' ? null : (status.completedAt || new Date().toISOString())]
+      );
+
+      if (status.state !== 'open') {
+        const resolved = await resolveActionFromPMTask(workspaceId, config.connectorType, ref, status);
+        if (resolved) summary.resolved++;
+      }
+    } catch (error) {
+      summary.errors++;
+      await query(
+        `UPDATE pm_task_references SET last_synced_at = NOW(), sync_error = $2 WHERE id = $1`,
+        [ref.id, error instanceof Error ? error.message.slice(0, 500) : String(error)]
+      ).catch(() => {});
+    }
+  }
+
+  if (summary.checked > 0) {
+    logger.info('PM task status sync complete', { workspaceId, connectorType: config.connectorType, ...summary });
+  }
+
+  return summary;
+}
+
+/**
+ * Run syncPMTaskStatuses for every workspace with an enabled PM connector
+ */
+export async function syncAllPMTaskStatuses(): Promise<void> {
+  const workspaces = await query<{ id: string }>(
+    `SELECT id FROM workspaces WHERE (settings->'pm_connector'->>'enabled')::boolean IS TRUE`
+  );
+
+  for (const ws of workspaces.rows) {
+    try {
+      await syncPMTaskStatuses(ws.id);
+    } catch (error) {
+      logger.warn('PM task status sync failed', {
+        workspaceId: ws.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Resolve the action behind a closed ticket. A completed ticket marks the
+ * action executed; a canceled one dismisses it. Actions that are no longer
+ * open (or references that don't point at an actions row, like data-quality
+ * work items) are left alone.
+ */
+async function resolveActionFromPMTask(
+  workspaceId: string,
+  connectorType: string,
+  ref: { source_action_id: string; external_id: string; url: string },
+  status: PMTaskStatus
+): Promise<boolean> {
+  const actor = `pm:${connectorType}`;
+  const pmTask = { connector_type: connectorType, external_id: ref.external_id, url: ref.url, status: status.statusName };
+
+  const updated = status.state === 'completed'
+    ? await query<Record<string, any>>(
+        `UPDATE actions a SET
+           execution_status = 'executed',
+           executed_at = COALESCE($4::timestamptz, now()),
+           executed_by = $3,
+           execution_result = $5,
+           updated_at = now()
+         FROM (SELECT id, execution_status FROM actions WHERE id::text = $1 AND workspace_id = $2 FOR UPDATE) prev
+         WHERE a.id = prev.id AND prev.execution_status IN ('open', 'in_progress')
+         RETURNING a.*, prev.execution_status AS from_status`,
+        [ref.source_action_id, workspaceId, actor, status.completedAt || null, JSON.stringify({ pm_task: pmTask })]
+      )
+    : await query<Record<string, any>>(
+        `UPDATE actions a SET
+           execution_status = 'dismissed',
+           dismissed_reason = 'pm_task_canceled',
+           executed_by = $3,
+           updated_at = now()
+         FROM (SELECT id, execution_status FROM actions WHERE id::text = $1 AND workspace_id = $2 FOR UPDATE) prev
+         WHERE a.id = prev.id AND prev.execution_status IN ('open', 'in_progress')
+         RETURNING a.*, prev.execution_status AS from_status`,
+        [ref.source_action_id, workspaceId, actor]
+      );
+
+  const action = updated.rows[0];
+  if (!action) return false;
+
+  const toStatus = action.execution_status as string;
+  await query(
+    `INSERT INTO action_audit_log (workspace_id, action_id, event_type, actor, from_status, to_status, details)
+     VALUES ($1, $2, 'pm_task_closed', $3, $4, $5, $6)`,
+    [workspaceId, action.id, actor, action.from_status, toStatus, JSON.stringify(pmTask)]
+  );
+
+  if (toStatus === 'executed') {
+    import('../webhooks/action-events.js')
+      .then(m => m.emitActionCompletedEvent(workspaceId, action, actor))
+      .catch(() => {});
+  }
+
+  logger.info('Resolved action from closed PM task', {
+    workspaceId,
+    actionId: action.id,
+    connectorType,
+    externalId: ref.external_id,
+    toStatus,
+  });
+
+  return true;
+}
+
+/**
+ * Close the PM ticket for an action that was resolved inside Pandora.
+ * No-op when the action has no open ticket.
+ */
+export async function closePMTaskForAction(workspaceId: string, actionId: string): Promise<void> {
+  const refResult = await query<{ id: number; connector_type: string; external_id: string }>(
+    `SELECT id, connector_type, external_id FROM pm_task_references
+     WHERE workspace_id = $1 AND source_action_id = $2 AND status = 'open'`,
+    [workspaceId, actionId]
+  );
+
+  const ref = refResult.rows[0];
+  if (!ref) return;
+
+  try {
+    const credentials = await getConnectorCredentials(workspaceId, `pm_${ref.connector_type}`);
+    if (!credentials) {
+      throw new Error(`Credentials not found for PM connector: ${ref.connector_type}`);
+    }
+
+    await getPMAdapter(ref.connector_type).completeTask(credentials, ref.external_id);
+
+    await query(
+      `UPDATE pm_task_references
+       SET status = 'completed', completed_at = NOW(), last_synced_at = NOW(), sync_error = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [ref.id]
+    );
+
+    logger.info('Closed PM task for resolved action', { workspaceId, actionId, externalId: ref.external_id });
+  } catch (error) {
+    logger.warn('Failed to close PM task for resolved action', {
+      workspaceId,
+      actionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await query(
+      `UPDATE pm_task_references SET sync_error = $2 WHERE id = $1`,
+      [ref.id, error instanceof Error ? error.message.slice(0, 500) : String(error)]
+    ).catch(() => {});
+  }
+}
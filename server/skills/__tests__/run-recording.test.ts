@@ -0,0 +1,104 @@
+/**
+ * Tests for skill record/replay: recorded LLM responses are served only while
+ * the request still matches, changed prompts go live, and output diffs
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { SkillRunTape } from '../run-recording.js';
+import { diffSkillOutputs } from '../../reports/skill-diff.js';
+import type { SkillStep } from '../types.js';
+import type { LLMResponse } from '../../utils/llm-router.js';
+
+const gather = { id: 'gather', name: 'Gather', tier: 'compute', computeFn: 'query_deals', outputKey: 'deals' } as SkillStep;
+const classify = { id: 'classify', name: 'Classify', tier: 'deepseek', dependsOn: ['gather'], outputKey: 'classified' } as SkillStep;
+const synthesize = { id: 'synthesize', name: 'Synthesize', tier: 'claude', dependsOn: ['classify'], outputKey: 'report' } as SkillStep;
+
+function response(content: string): LLMResponse {
+  return { content, stopReason: 'end_turn', usage: { input: 1000, output: 200 } };
+}
+
+function prompt(text: string) {
+  return { systemPrompt: 'You are Pandora.', messages: [{ role: 'user' as const, content: text }] };
+}
+
+async function recordRun(): Promise<SkillRunTape> {
+  const tape = new SkillRunTape('pipeline-hygiene', 'ws-1', { scopeId: 'default' });
+  tape.useBusinessContext({ business_model: { gtm_motion: 'sales-led' } });
+  tape.recordStepOutput(gather, [{ id: 'd1', amount: 50000 }]);
+  await tape.callLLM(classify, 'extract', prompt('Classify d1'), async () => response('[{"id":"d1","risk":"high"}]'));
+  tape.recordStepOutput(classify, [{ id: 'd1', risk: 'high' }]);
+  await tape.callLLM(synthesize, 'reason', prompt('Summarize: d1 high'), async () => response('1 deal at risk'));
+  tape.recordStepOutput(synthesize, '1 deal at risk');
+  return tape;
+}
+
+describe('SkillRunTape', () => {
+  it('replays compute outputs and unchanged LLM calls without calling the model', async () => {
+    const recorded = await recordRun();
+    const replay = new SkillRunTape('pipeline-hygiene', 'ws-1', { scopeId: 'default' }, { recording: recorded.recording });
+    const live = vi.fn(async () => response('should not be called'));
+
+    expect(replay.useBusinessContext({ business_model: { gtm_motion: 'plg' } })).toEqual({ business_model: { gtm_motion: 'sales-led' } });
+    expect(replay.recordedComputeOutput(gather)).toEqual({ output: [{ id: 'd1', amount: 50000 }] });
+    const classified = await replay.callLLM(classify, 'extract', prompt('Classify d1'), live);
+
+    expect(live).not.toHaveBeenCalled();
+    expect(classified.content).toBe('[{"id":"d1","risk":"high"}]');
+    expect(classified.usage).toEqual({ input: 0, output: 0 });
+  });
+
+  it('calls the live model only for steps whose prompt changed', async () => {
+    const recorded = await recordRun();
+    const replay = new SkillRunTape('pipeline-hygiene', 'ws-1', {}, { recording: recorded.recording });
+    const live = vi.fn(async () => response('1 deal at risk — follow up this week'));
+
+    replay.recordedComputeOutput(gather);
+    await replay.callLLM(classify, 'extract', prompt('Classify d1'), live);
+    const synthesized = await replay.callLLM(synthesize, 'reason', prompt('Summarize with next steps: d1 high'), live);
+
+    expect(live).toHaveBeenCalledTimes(1);
+    expect(synthesized.content).toBe('1 deal at risk — follow up this week');
+    expect(replay.summary()).toMatchObject({
+      servedSteps: ['gather', 'classify'],
+      liveSteps: ['synthesize'],
+      changedPrompts: ['synthesize'],
+      llmCallsServed: 1,
+      llmCallsLive: 1,
+      tokensSaved: 1200,
+    });
+  });
+
+  it('serves the recorded response for a changed prompt under the recorded policy', async () => {
+    const recorded = await recordRun();
+    const replay = new SkillRunTape('pipeline-hygiene', 'ws-1', {}, { recording: recorded.recording, onPromptChange: 'recorded' });
+    const live = vi.fn(async () => response('live'));
+
+    const classified = await replay.callLLM(classify, 'extract', prompt('Classify d1 strictly'), live);
+
+    expect(live).not.toHaveBeenCalled();
+    expect(classified.content).toBe('[{"id":"d1","risk":"high"}]');
+    expect(replay.summary().changedPrompts).toEqual(['classify']);
+  });
+});
+
+describe('diffSkillOutputs', () => {
+  it('reports narrative line changes, claim changes and metric deltas', () => {
+    const claim = (claim_id: string, value: number, severity = 'warning') =>
+      ({ claim_id, metric_name: 'deal_count', metric_values: [value], severity });
+
+    const diff = diffSkillOutputs(
+      { narrative: 'Pipeline summary\n3 stale deals\nAct now', evidence: { claims: [claim('stale', 3, 'critical'), claim('new_risk', 1)] } },
+      { narrative: 'Pipeline summary\n4 stale deals', evidence: { claims: [claim('stale', 4), claim('gone', 2)] } }
+    );
+
+    expect(diff.identical).toBe(false);
+    expect(diff.narrative).toMatchObject({ changed: true, lines_added: 2, lines_removed: 1 });
+    expect(diff.claims.added).toEqual(['new_risk']);
+    expect(diff.claims.removed).toEqual(['gone']);
+    expect(diff.claims.severity_changed).toEqual([{ claim_id: 'stale', from: 'warning', to: 'critical' }]);
+    expect(diff.claims.metric_deltas).toMatchObject([{ claim_id: 'stale', delta: -1, direction: 'down' }]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Customer Health Action Generator
+ *
+ * Creates a save-plan action for each at-risk renewal. Accounts with an open
+ * renewal deal escalate that deal; the rest notify the account owner.
+ */
+
+import type { Pool } from 'pg';
+import type { ExtractedAction } from '../../actions/extractor.js';
+
+const DIMENSION_STEPS: Record<string, string> = {
+  engagement: 'Book an executive check-in or QBR within the next two weeks',
+  sentiment: 'Review recent call recordings and address the concerns raised',
+  support: 'Escalate open tickets with support and share a resolution timeline',
+  stakeholders: 'Identify and build a relationship with the replacement champion or economic buyer',
+};
+
+export function generateCustomerHealthActions(stepResults: Record<string, any>): ExtractedAction[] {
+  const renewals = stepResults.health_results?.at_risk_renewals;
+  if (!Array.isArray(renewals)) return [];
+
+  return renewals.map((account: any): ExtractedAction => {
+    const critical = account.risk_level === 'critical';
+    const drivers: Array<{ dimension: string; detail: string }> = account.drivers || [];
+    const steps = drivers.map(d => DIMENSION_STEPS[d.dimension]).filter(Boolean);
+    steps.push(`Confirm renewal terms and timeline before ${account.renewal_date}`);
+
+    return {
+      action_type: account.renewal_deal_id ? 'escalate_deal' : 'notify_rep',
+      severity: critical ? 'critical' : 'warning',
+      title: `Renewal at risk: ${account.account_name}`,
+      summary: `${account.account_name} renews in ${account.days_to_renewal} days with health ${account.score}/100 ` +
+        `(renewal probability ${Math.round((account.renewal_probability || 0) * 100)}%).` +
+        (drivers.length ? ` Drivers: ${drivers.map(d => d.detail).join('; ')}.` : ''),
+      recommended_steps: steps,
+      target_account_id: account.account_id,
+      target_account_name: account.account_name,
+      target_deal_id: account.renewal_deal_id || undefined,
+      target_deal_name: account.renewal_deal_name || undefined,
+      owner_email: account.owner || undefined,
+      impact_amount: account.arr || undefined,
+      urgency_label: critical || account.days_to_renewal <= 30 ? 'High' : 'Medium',
+      execution_payload: {
+        renewal_date: account.renewal_date,
+        health_score: account.score,
+        dimensions: account.dimensions,
+      },
+    };
+  });
+}
+
+export async function insertCustomerHealthActions(
+  db: Pool,
+  workspaceId: string,
+  skillRunId: string,
+  stepResults: Record<string, any>,
+  _businessContext: Record<string, any>
+): Promise<number> {
+  const actions = generateCustomerHealthActions(stepResults);
+  if (actions.length === 0) return 0;
+
+  const { insertExtractedActions } = await import('../../actions/extractor.js');
+  return insertExtractedActions(db, workspaceId, 'customer-health', skillRunId, null, actions);
+}
@@ -9,6 +9,7 @@
 
 import type { Pool } from 'pg';
 import { insertStageMismatchActions } from './stage-mismatch-detector.js';
+import { insertCustomerHealthActions } from './customer-health.js';
 
 export type ActionGeneratorFn = (
   db: Pool,
@@ -30,4 +31,5 @@ export function getActionGenerator(skillId: string): ActionGeneratorFn | undefin
 
 export function registerAllActionGenerators(): void {
   registerActionGenerator('stage-mismatch-detector', insertStageMismatchActions);
+  registerActionGenerator('customer-health', insertCustomerHealthActions);
 }
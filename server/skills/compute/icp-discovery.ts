@@ -446,7 +446,7 @@ async function checkDataReadiness(workspaceId: string): Promise<DataReadiness> {
   const conversationResult = await query<{ count: number }>(`
     SELECT COUNT(*) as count FROM connections
     WHERE workspace_id = $1
-      AND connector_name IN ('gong', 'fireflies')
+      AND connector_name IN ('gong', 'fireflies', 'zoom', 'chorus')
       AND status = 'active'
   `, [workspaceId]);
 
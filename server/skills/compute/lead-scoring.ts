@@ -2203,7 +2203,7 @@ export async function scoreLeads(workspaceId: string, pipelineConfig?: Pick<Pipe
     getCustomFieldWeights(workspaceId),
     query<{ connector_name: string }>(`
       SELECT connector_name FROM connections
-      WHERE workspace_id = $1 AND connector_name IN ('gong', 'fireflies')
+      WHERE workspace_id = $1 AND connector_name IN ('gong', 'fireflies', 'zoom', 'chorus')
       LIMIT 1
     `, [workspaceId]),
     loadICPWeights(workspaceId),
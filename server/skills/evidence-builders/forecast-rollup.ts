@@ -18,10 +18,11 @@ export async function buildForecastRollupEvidence(
   const eb = new EvidenceBuilder();
 
   const goals = businessContext.goals_and_targets || {};
+  const currency: string = businessContext.reporting_currency || 'USD';
 
   eb.addParameter({
     name: 'revenue_target',
-    display_name: 'Revenue Target ($)',
+    display_name: `Revenue Target (${currency})`,
     value: (goals as any).revenue_target ?? 0,
     description: 'Period revenue target for forecast comparison',
     configurable: true,
@@ -60,7 +61,7 @@ export async function buildForecastRollupEvidence(
       const pipelineDeals = closedWonDeals.filter((d: any) => d.scope_id === pipeline);
       eb.addClaim({
         claim_id: `closed_won_${pipeline.replace(/\s+/g, '_').toLowerCase()}`,
-        claim_text: `${pipeline}: ${pipelineDeals.length} deal${pipelineDeals.length !== 1 ? 's' : ''} closed won — ${formatCurrency(total)}`,
+        claim_text: `${pipeline}: ${pipelineDeals.length} deal${pipelineDeals.length !== 1 ? 's' : ''} closed won — ${formatCurrency(total, currency)}`,
         entity_type: 'deal',
         entity_ids: pipelineDeals.map((d: any) => d.id || d.name || ''),
         metric_name: 'closed_won_amount',
@@ -78,7 +79,7 @@ export async function buildForecastRollupEvidence(
   );
   const dbCoreSales = coreSalesKey ? (closedWonByPipeline[coreSalesKey] || 0) : 0;
 
-  let syncClaimText = `Pandora DB shows ${formatCurrency(dbCoreSales)} closed for Core Sales Pipeline. If your CRM shows a higher total, a sync may be pending — verify against CRM before finalizing attainment figures.`;
+  let syncClaimText = `Pandora DB shows ${formatCurrency(dbCoreSales, currency)} closed for Core Sales Pipeline. If your CRM shows a higher total, a sync may be pending — verify against CRM before finalizing attainment figures.`;
 
   try {
     const syncRow = await query<{ last_sync_at: Date | null; sync_interval_minutes: number }>(
@@ -94,7 +95,7 @@ export async function buildForecastRollupEvidence(
       const lastSyncStr = last_sync_at
         ? new Date(last_sync_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZone: 'UTC', timeZoneName: 'short' })
         : 'unknown';
-      syncClaimText = `Pandora DB shows ${formatCurrency(dbCoreSales)} closed for Core Sales Q1 2026. HubSpot may show a higher total (e.g. ~$75.5K) if a deal was recently closed. Last sync: ${lastSyncStr}. Syncs run ${intervalLabel} — any gap will close at the next scheduled sync.`;
+      syncClaimText = `Pandora DB shows ${formatCurrency(dbCoreSales, currency)} closed for Core Sales Q1 2026. HubSpot may show a higher total (e.g. ~$75.5K) if a deal was recently closed. Last sync: ${lastSyncStr}. Syncs run ${intervalLabel} — any gap will close at the next scheduled sync.`;
     }
   } catch {
     // Non-fatal — use the default claim text
@@ -117,7 +118,7 @@ export async function buildForecastRollupEvidence(
   for (const q of queriesRun) {
     eb.addClaim({
       claim_id: `query_${q.label.replace(/[^a-z0-9]/gi, '_').toLowerCase().slice(0, 40)}`,
-      claim_text: `How we counted — ${q.label}: ${q.description}. Result: ${q.rowCount} deal${q.rowCount !== 1 ? 's' : ''}, ${formatCurrency(q.total)}.`,
+      claim_text: `How we counted — ${q.label}: ${q.description}. Result: ${q.rowCount} deal${q.rowCount !== 1 ? 's' : ''}, ${formatCurrency(q.total, currency)}.`,
       entity_type: 'deal',
       entity_ids: [],
       metric_name: 'query_row_count',
@@ -161,7 +162,7 @@ export async function buildForecastRollupEvidence(
     if (stalledCommits.length > 0) {
       eb.addClaim({
         claim_id: 'stalled_commits',
-        claim_text: `${stalledCommits.length} commit deals worth ${formatCurrency(stalledCommits.reduce((s: number, d: any) => s + (d.amount || 0), 0))} show risk signals`,
+        claim_text: `${stalledCommits.length} commit deals worth ${formatCurrency(stalledCommits.reduce((s: number, d: any) => s + (d.amount || 0), 0), currency)} show risk signals`,
         entity_type: 'deal',
         entity_ids: stalledCommits.map((d: any) => d.id || d.dealId || ''),
         metric_name: 'forecast_category',
@@ -177,7 +178,7 @@ export async function buildForecastRollupEvidence(
     if (commitTotal > 0 && topThreeValue / commitTotal > 0.6) {
       eb.addClaim({
         claim_id: 'concentrated_commit',
-        claim_text: `Top 3 deals represent ${Math.round(topThreeValue / commitTotal * 100)}% of commit (${formatCurrency(topThreeValue)} of ${formatCurrency(commitTotal)})`,
+        claim_text: `Top 3 deals represent ${Math.round(topThreeValue / commitTotal * 100)}% of commit (${formatCurrency(topThreeValue, currency)} of ${formatCurrency(commitTotal, currency)})`,
         entity_type: 'deal',
         entity_ids: topThree.map((d: any) => d.id || d.dealId || ''),
         metric_name: 'amount',
@@ -7,7 +7,7 @@
 
 import type { SkillResult, SkillDefinition, SkillEvidence, EvidenceClaim, EvaluatedRecord } from '../types.js';
 import type { WorkspaceVoice } from '../../context/brief-priorities.js';
-import { formatCurrency } from '../../utils/format-currency.js';
+import { formatCurrency, currencySymbol } from '../../utils/format-currency.js';
 
 interface SlackBlock {
   type: string;
@@ -1783,17 +1783,18 @@ function truncateSection(text: string, maxLength: number): string {
 // ============================================================================
 
 /**
- * Format a dollar amount as compact notation: $200K or $2.5M
+ * Format an amount as compact notation: $200K or €2.5M
  */
-function formatAmountBrief(amount: number): string {
+function formatAmountBrief(amount: number, currency: string = 'USD'): string {
+  const symbol = currencySymbol(currency);
   if (amount >= 1_000_000) {
     const m = amount / 1_000_000;
-    return `$${m % 1 === 0 ? m.toFixed(0) : m.toFixed(1)}M`;
+    return `${symbol}${m % 1 === 0 ? m.toFixed(0) : m.toFixed(1)}M`;
   }
   if (amount >= 1_000) {
-    return `$${Math.round(amount / 1_000)}K`;
+    return `${symbol}${Math.round(amount / 1_000)}K`;
   }
-  return `$${Math.round(amount)}`;
+  return `${symbol}${Math.round(amount)}`;
 }
 
 /**
@@ -1901,6 +1902,7 @@ export interface SkillBriefInput {
   pendingActionCount: number;
   conciergeUrl: string;
   voice?: WorkspaceVoice;
+  currency?: string;
 }
 
 /**
@@ -1957,7 +1959,7 @@ export function formatSkillBrief(input: SkillBriefInput): SlackBlock[] {
       : finding.message.trim();
 
     const dealPart = finding.dealName ? `${finding.dealName}: ` : '';
-    const amountPart = finding.amount ? ` (${formatAmountBrief(finding.amount)})` : '';
+    const amountPart = finding.amount ? ` (${formatAmountBrief(finding.amount, input.currency)})` : '';
 
     let text = `${emoji} ${dealPart}${msg}${amountPart}`;
 
@@ -2056,6 +2058,7 @@ export interface ConciergeDailyInput {
   pendingActionCount: number;
   conciergeUrl: string;
   voice?: WorkspaceVoice;
+  currency?: string;
 }
 
 /**
@@ -2102,7 +2105,7 @@ export function formatConciergeDaily(input: ConciergeDailyInput): SlackBlock[] {
   } else {
     topDeals.forEach((deal, i) => {
       const dormant = deal.isDormant ? ' ⚠️' : '';
-      dealsText += `${i + 1}. ${deal.name} (${formatAmountBrief(deal.amount)}) — ${deal.daysSinceActivity} days cold${dormant}\n`;
+      dealsText += `${i + 1}. ${deal.name} (${formatAmountBrief(deal.amount, input.currency)}) — ${deal.daysSinceActivity} days cold${dormant}\n`;
     });
   }
   blocks.push({ type: 'section', text: { type: 'mrkdwn', text: dealsText.trim() } });
@@ -0,0 +1,94 @@
+/**
+ * Microsoft Teams Formatter for Agent Results
+ *
+ * Converts an agent's synthesized narrative and skill evidence into an
+ * Adaptive Card. Teams counterpart of formatAgentWithEvidence in slack-formatter.ts.
+ */
+
+import type { SkillEvidence, EvidenceClaim, EvaluatedRecord } from '../types.js';
+import { formatCurrency } from '../../utils/format-currency.js';
+import {
+  buildAdaptiveCard,
+  cardHeading,
+  cardSubheading,
+  cardText,
+  cardContext,
+  markdownToCardBlocks,
+  type AdaptiveCard,
+  type AdaptiveCardElement,
+} from '../../connectors/teams/client.js';
+
+function stripXmlBlocks(text: string): string {
+  return text
+    .replace(/<actions>[\s\S]*?<\/actions>/g, '')
+    .replace(/<evidence>[\s\S]*?<\/evidence>/g, '')
+    .replace(/<findings>[\s\S]*?<\/findings>/g, '')
+    .trim();
+}
+
+function formatClaimEntityLines(claim: EvidenceClaim, records: EvaluatedRecord[]): string | null {
+  const lines = claim.entity_ids
+    .slice(0, 5)
+    .map((id, idx) => {
+      const record = records.find(r => r.entity_id === id);
+      if (!record) return null;
+
+      const parts = [record.entity_name];
+      if (record.fields?.amount) parts.push(formatCurrency(Number(record.fields.amount)));
+      if (record.owner_name) parts.push(record.owner_name);
+      const metricValue = claim.metric_values?.[idx];
+      const metricLabel = claim.metric_name?.replace(/_/g, ' ') || '';
+      if (metricValue !== undefined && metricValue !== null && metricLabel) parts.push(`${metricValue} ${metricLabel}`);
+
+      return `- ${parts.join(' — ')}`;
+    })
+    .filter(Boolean);
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+export function formatAgentTeamsCard(
+  narrative: string,
+  skillEvidence: Record<string, SkillEvidence> | undefined,
+  agentName: string
+): AdaptiveCard {
+  const body: AdaptiveCardElement[] = [
+    cardHeading(`📊 ${agentName}`),
+    ...markdownToCardBlocks(stripXmlBlocks(narrative)),
+  ];
+
+  const allClaims: { claim: EvidenceClaim; records: EvaluatedRecord[] }[] = [];
+  const sources = new Map<string, boolean>();
+  for (const evidence of Object.values(skillEvidence || {})) {
+    for (const claim of evidence.claims) {
+      allClaims.push({ claim, records: evidence.evaluated_records });
+    }
+    for (const ds of evidence.data_sources) {
+      sources.set(ds.source, (sources.get(ds.source) ?? false) || ds.connected);
+    }
+  }
+
+  if (allClaims.length > 0) {
+    body.push(cardSubheading('📋 Evidence Summary'));
+    for (const { claim, records } of allClaims.slice(0, 10)) {
+      const icon = claim.severity === 'critical' ? '🔴' : claim.severity === 'warning' ? '🟡' : 'ℹ️';
+      body.push(cardText(`${icon} **${claim.claim_text}**`));
+      const entityLines = formatClaimEntityLines(claim, records);
+      if (entityLines) body.push(cardText(entityLines));
+    }
+    if (allClaims.length > 10) {
+      body.push(cardContext(`_+ ${allClaims.length - 10} more claims in full report_`));
+    }
+  }
+
+  const sourceList = Array.from(sources.entries())
+    .map(([name, connected]) => `${name} ${connected ? '✓' : '✗'}`)
+    .join(', ');
+  const footer = cardContext(
+    `${sourceList ? `Sources: ${sourceList} · ` : ''}Pandora Agent · ${new Date().toISOString().slice(0, 16)} UTC`
+  );
+  footer.separator = true;
+  body.push(footer);
+
+  return buildAdaptiveCard(body);
+}
@@ -6,6 +6,7 @@
  */
 
 import { createLogger } from '../../../utils/logger.js';
+import { callLLM } from '../../../utils/llm-router.js';
 import type { ActivitySource, CorpusData } from './compute.js';
 
 const logger = createLogger('meddic-coverage-classify');
@@ -57,6 +58,7 @@ export async function classifyFields(corpus: CorpusData): Promise<ClassifyResult
   for (const [fieldKey, fieldConfig] of fields) {
     try {
       const extraction = await extractField(
+        corpus.deal.workspace_id,
         fieldKey,
         fieldConfig,
         corpus.activities,
@@ -107,6 +109,7 @@ export async function classifyFields(corpus: CorpusData): Promise<ClassifyResult
  * Extract a single field using DeepSeek
  */
 async function extractField(
+  workspaceId: string,
   fieldKey: string,
   fieldConfig: any,
   activities: ActivitySource[],
@@ -124,7 +127,7 @@ async function extractField(
   );
 
   // Call DeepSeek
-  const response = await callDeepSeek(prompt);
+  const response = await callDeepSeek(workspaceId, prompt);
 
   // Parse response
   const extraction = parseFieldExtraction(response, fieldKey, activities);
@@ -226,37 +229,16 @@ Return ONLY valid JSON. No preamble.`;
 }
 
 /**
- * Call DeepSeek API
+ * Call DeepSeek through the workspace LLM router (routing, PII policy, local-only)
  */
-async function callDeepSeek(prompt: string): Promise<string> {
-  const FIREWORKS_API_KEY = process.env.FIREWORKS_API_KEY;
-  if (!FIREWORKS_API_KEY) {
-    throw new Error('FIREWORKS_API_KEY not configured');
-  }
-
-  const response = await fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${FIREWORKS_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'accounts/fireworks/models/deepseek-v3',
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.3,
-      max_tokens: 1000,
-    }),
+async function callDeepSeek(workspaceId: string, prompt: string): Promise<string> {
+  const response = await callLLM(workspaceId, 'extract', {
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.3,
+    maxTokens: 1000,
+    _tracking: { workspaceId, skillId: 'meddic-coverage', phase: 'classify', stepName: 'field-extraction' },
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`DeepSeek API error: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json() as any;
-  return data.choices?.[0]?.message?.content || '';
+  return response.content || '';
 }
 
 /**
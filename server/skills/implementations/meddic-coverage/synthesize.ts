@@ -11,6 +11,7 @@
  */
 
 import { createLogger } from '../../../utils/logger.js';
+import { callLLM } from '../../../utils/llm-router.js';
 import type { CorpusData } from './compute.js';
 import type { ClassifyResult, FieldExtraction } from './classify.js';
 
@@ -55,7 +56,7 @@ export async function synthesizeCoverage(
   const prompt = buildSynthesisPrompt(corpus, classifications);
 
   // Call Claude
-  const response = await callClaude(prompt);
+  const response = await callClaude(corpus.deal.workspace_id, prompt);
 
   // Parse response
   const assessment = parseCoverageAssessment(response);
@@ -125,38 +126,16 @@ Return ONLY valid JSON. No preamble.`;
 }
 
 /**
- * Call Claude API
+ * Call Claude through the workspace LLM router (routing, PII policy, local-only)
  */
-async function callClaude(prompt: string): Promise<string> {
-  const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-  if (!ANTHROPIC_API_KEY) {
-    throw new Error('ANTHROPIC_API_KEY not configured');
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': ANTHROPIC_API_KEY,
-      'anthropic-version': '2023-06-01',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4000,
-      temperature: 0.3,
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-    }),
+async function callClaude(workspaceId: string, prompt: string): Promise<string> {
+  const response = await callLLM(workspaceId, 'reason', {
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.3,
+    maxTokens: 4000,
+    _tracking: { workspaceId, skillId: 'meddic-coverage', phase: 'synthesize', stepName: 'coverage-synthesis' },
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Claude API error: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json() as any;
-  return data.content?.[0]?.text || '';
+  return response.content || '';
 }
 
 /**
@@ -36,6 +36,7 @@ import { forecastModelSkill } from './library/forecast-model.js';
 import { pipelineGenForecastSkill } from './library/pipeline-gen-forecast.js';
 import { competitiveIntelligenceSkill } from './library/competitive-intelligence.js';
 import { forecastAccuracyTrackingSkill } from './library/forecast-accuracy-tracking.js';
+import { forecastBacktestSkill } from './library/forecast-backtest.js';
 import { dealScoringModelSkill } from './library/deal-scoring-model.js';
 import { dealRfmScoringSkill } from './library/deal-rfm-scoring.js';
 import { monteCarloForecastSkill } from './library/monte-carlo-forecast.js';
@@ -51,6 +52,8 @@ import { pipelineProgressionSkill } from './library/pipeline-progression.js';
 import { gtmHealthDiagnosticSkill } from './library/gtm-health-diagnostic.js';
 import { quarterlyPreMortemSkill } from './library/quarterly-pre-mortem.js';
 import { engagementDropoffAnalysisSkill } from './library/engagement-dropoff-analysis.js';
+import { customerHealthSkill } from './library/customer-health.js';
+import { discountAnalyticsSkill } from './library/discount-analytics.js';
 
 // Types
 export type {
@@ -129,12 +132,15 @@ export { forecastModelSkill } from './library/forecast-model.js';
 export { pipelineGenForecastSkill } from './library/pipeline-gen-forecast.js';
 export { competitiveIntelligenceSkill } from './library/competitive-intelligence.js';
 export { forecastAccuracyTrackingSkill } from './library/forecast-accuracy-tracking.js';
+export { forecastBacktestSkill } from './library/forecast-backtest.js';
 export { dealScoringModelSkill } from './library/deal-scoring-model.js';
 export { monteCarloForecastSkill } from './library/monte-carlo-forecast.js';
 export { pipelineContributionForecastSkill } from './library/pipeline-contribution-forecast.js';
 export { stageMismatchDetectorSkill } from './library/stage-mismatch-detector.js';
 export { behavioralWinningPathSkill } from './library/behavioral-winning-path.js';
 export { engagementDropoffAnalysisSkill } from './library/engagement-dropoff-analysis.js';
+export { customerHealthSkill } from './library/customer-health.js';
+export { discountAnalyticsSkill } from './library/discount-analytics.js';
 
 // Formatters
 export {
@@ -190,6 +196,7 @@ export function registerBuiltInSkills(): void {
   registry.register(pipelineGenForecastSkill);
   registry.register(competitiveIntelligenceSkill);
   registry.register(forecastAccuracyTrackingSkill);
+  registry.register(forecastBacktestSkill);
   registry.register(dealScoringModelSkill);
   registry.register(dealRfmScoringSkill);
   registry.register(monteCarloForecastSkill);
@@ -205,6 +212,8 @@ export function registerBuiltInSkills(): void {
   registry.register(gtmHealthDiagnosticSkill);
   registry.register(quarterlyPreMortemSkill);
   registry.register(engagementDropoffAnalysisSkill);
+  registry.register(customerHealthSkill);
+  registry.register(discountAnalyticsSkill);
 
   // Register evidence builders for "Show the Work" evidence assembly
   registerAllEvidenceBuilders();
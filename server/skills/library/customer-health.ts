@@ -0,0 +1,119 @@
+/**
+ * Customer Health Skill — Post-Sale Renewal Risk
+ *
+ * Scores every customer account 0-100 across 4 weighted signals:
+ *   1. Engagement   (30%) — activity/call recency and trend
+ *   2. Sentiment    (25%) — enriched conversation sentiment, last 90 days
+ *   3. Support      (20%) — open, high-priority and overdue tickets
+ *   4. Stakeholders (25%) — LinkedIn departures on the renewal deal
+ *
+ * Flags renewals inside the window (default 90 days) whose account is at
+ * risk, emits findings + actions for them, and stores a renewal probability
+ * per account that the Monte Carlo renewal component uses in place of its
+ * flat renewal rate.
+ * Schedule: Weekly Monday 7 AM
+ */
+
+import type { SkillDefinition } from '../types.js';
+
+export const customerHealthSkill: SkillDefinition = {
+  id: 'customer-health',
+  name: 'Customer Health & Renewal Risk',
+  description: 'Scores post-sale accounts for churn risk from engagement, sentiment, tickets and stakeholder turnover, and flags at-risk renewals.',
+  version: '1.0.0',
+  category: 'accounts',
+  tier: 'mixed',
+
+  requiredTools: ['computeCustomerHealth'],
+  requiredContext: [],
+
+  steps: [
+    // ─── PHASE 1: COMPUTE ─────────────────────────────────────────────────────
+
+    {
+      id: 'compute-customer-health',
+      name: 'Score Customer Health and Renewal Probability',
+      tier: 'compute',
+      computeFn: 'computeCustomerHealth',
+      computeArgs: {
+        renewalWindowDays: 90,
+        maxStakeholderChecks: 10,
+      },
+      outputKey: 'health_results',
+    },
+
+    // ─── PHASE 2: CLAUDE — Renewal Risk Report ───────────────────────────────
+
+    {
+      id: 'synthesize-report',
+      name: 'Generate Renewal Risk Report (Claude)',
+      tier: 'claude',
+      dependsOn: ['compute-customer-health'],
+      claudePrompt: `You are a VP of Customer Success reviewing the weekly customer health and renewal risk report.
+
+## Portfolio
+
+Customers scored: {{health_results.customers_scored}}
+Average health: {{health_results.avg_score}}/100
+Healthy {{health_results.distribution.healthy}} | Watch {{health_results.distribution.watch}} | At Risk {{health_results.distribution.at_risk}} | Critical {{health_results.distribution.critical}}
+
+## Renewals in the next {{health_results.renewal_window_days}} days
+
+Renewals: {{health_results.renewals_in_window}} worth {{health_results.arr_in_window}}
+Health-adjusted expected renewal ARR: {{health_results.expected_renewal_arr}}
+ARR on at-risk renewals: {{health_results.arr_at_risk}}
+Base renewal rate: {{health_results.base_renewal_rate}} ({{health_results.base_renewal_rate_source}})
+
+## At-Risk Renewals (largest first, with drivers)
+
+{{{json health_results.at_risk_renewals}}}
+
+## Signal Coverage
+
+Accounts with sentiment data: {{health_results.signal_coverage.sentiment}}
+Accounts with ticket data: {{health_results.signal_coverage.support}}
+Accounts with LinkedIn stakeholder checks: {{health_results.signal_coverage.stakeholders}}
+
+---
+
+Write a concise Slack-ready renewal risk report:
+
+1. **Portfolio Health** — one line with the distribution and average score
+
+2. **🔴 At-Risk Renewals** — for each (up to 8): account, ARR, days to renewal, health score, renewal probability, the top driver, and one concrete save action for the owner
+
+3. **Renewal Forecast** — expected vs contracted ARR in the window and what is driving the gap
+
+4. **Pattern** — one insight across the at-risk accounts (e.g., "4 of 6 at-risk renewals lost their champion this quarter")
+
+If a signal has little coverage, say so in one line rather than guessing. Use account names and dollar amounts.
+
+{{voiceBlock}}`,
+      outputKey: 'report',
+      parseAs: 'markdown',
+    },
+  ],
+
+  schedule: {
+    cron: '0 7 * * 1',
+    trigger: ['on_demand'],
+  },
+
+  outputFormat: 'slack',
+  estimatedDuration: '60s',
+
+  answers_questions: ['customer health', 'churn', 'churn risk', 'renewal risk', 'at-risk renewals', 'account health', 'retention'],
+
+  evidenceSchema: {
+    entity_type: 'account',
+    columns: [
+      { key: 'account_name', display: 'Account', format: 'text' },
+      { key: 'arr', display: 'ARR', format: 'currency' },
+      { key: 'owner', display: 'Owner', format: 'text' },
+      { key: 'score', display: 'Health', format: 'number' },
+      { key: 'risk_level', display: 'Risk', format: 'text' },
+      { key: 'days_to_renewal', display: 'Days to Renewal', format: 'number' },
+      { key: 'renewal_probability', display: 'Renewal Probability', format: 'percentage' },
+    ],
+  },
+};
@@ -8,7 +8,11 @@
  *   4. Seller Execution       (20%)
  *   5. Pipeline Position      (15%)
  *
- * Writes ai_score + ai_score_breakdown to deals table.
+ * When the workspace has enough closed deals, a trained win-probability
+ * model (server/win-probability) replaces the weighted overall score; the
+ * dimensions are still computed for risk classification.
+ *
+ * Writes ai_score + ai_score_breakdown + win_probability to deals table.
  * Used by Command Center for deal row color-coding.
  * Schedule: Daily 6 AM
  */
@@ -27,6 +31,7 @@ export const dealScoringModelSkill: SkillDefinition = {
   requiredTools: [
     'dsmGatherOpenDeals',
     'dsmGatherScoringContext',
+    'dsmComputeWinProbability',
     'dsmComputeAndWriteScores',
     'dsmBuildFindings',
   ],
@@ -53,11 +58,21 @@ export const dealScoringModelSkill: SkillDefinition = {
       outputKey: 'scoring_context',
     },
 
+    {
+      id: 'compute-win-probability',
+      name: 'Score Deals with Trained Win-Probability Model',
+      tier: 'compute',
+      dependsOn: ['gather-open-deals'],
+      computeFn: 'dsmComputeWinProbability',
+      computeArgs: {},
+      outputKey: 'win_probability',
+    },
+
     {
       id: 'compute-scores',
       name: 'Compute 5-Dimension Scores and Write to CRM',
       tier: 'compute',
-      dependsOn: ['gather-open-deals', 'gather-scoring-context'],
+      dependsOn: ['gather-open-deals', 'gather-scoring-context', 'compute-win-probability'],
       computeFn: 'dsmComputeAndWriteScores',
       computeArgs: {},
       outputKey: 'score_results',
@@ -137,6 +152,8 @@ Respond ONLY with a JSON array:
 
 Deals scored today: {{score_results.scored}}
 Average score: {{score_results.avg_score}}/100
+Scoring method: {{score_results.scoring_method}} (cross-validated AUC: {{score_results.model_cv_auc}})
+{{#if score_results.model_fallback_reason}}Trained model not used: {{score_results.model_fallback_reason}}{{/if}}
 
 Distribution:
 - Strong (80-100): {{score_results.score_distribution.strong}} deals
@@ -166,7 +183,7 @@ Declined:
 Write a concise Slack-ready deal score report:
 
 1. **Score Distribution** — One-line bar: "Strong [N] | Solid [N] | Uncertain [N] | At Risk [N] | Critical [N]"
-   Average score: [X]/100
+   Average score: [X]/100. If the scoring method is "model", scores are calibrated win probabilities from the trained model — say so and cite the AUC; otherwise note they are weighted health scores.
 
 2. **🔴 Critical Deals** (score < 40, sorted by amount) — for each: deal name, amount, score, risk narrative, top action
 
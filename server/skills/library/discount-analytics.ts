@@ -0,0 +1,138 @@
+/**
+ * Discount & Pricing Analytics Skill
+ *
+ * Derives discount % per deal from line items (list vs net), mapped custom
+ * fields, or amount erosion in field history, with pricing mentions from
+ * conversation signals as context. Reports:
+ *   1. Discount distribution by rep, deal-size segment and quarter-end proximity
+ *   2. Win-rate and cycle-time elasticity to discount
+ *   3. End-of-quarter discount spikes
+ *   4. Open deals over the workspace discount guardrail (as findings)
+ *
+ * The guardrail comes from thresholds.discount_guardrail_pct, then the
+ * discount approval calibration answer, then 20%.
+ * Schedule: Weekly Monday 8 AM
+ */
+
+import type { SkillDefinition } from '../types.js';
+
+export const discountAnalyticsSkill: SkillDefinition = {
+  id: 'discount-analytics',
+  name: 'Discount & Pricing Analytics',
+  description: 'Analyzes discounting by rep, segment and quarter-end timing, its effect on win rate and cycle time, and flags open deals over the discount guardrail.',
+  version: '1.0.0',
+  category: 'deals',
+  tier: 'mixed',
+
+  requiredTools: ['computeDiscountAnalytics'],
+  requiredContext: [],
+
+  steps: [
+    // ─── PHASE 1: COMPUTE ─────────────────────────────────────────────────────
+
+    {
+      id: 'compute-discount-analytics',
+      name: 'Derive Discounts and Compute Elasticity',
+      tier: 'compute',
+      computeFn: 'computeDiscountAnalytics',
+      computeArgs: {
+        lookbackMonths: 12,
+      },
+      outputKey: 'discount_results',
+    },
+
+    // ─── PHASE 2: CLAUDE — Discount Report ────────────────────────────────────
+
+    {
+      id: 'synthesize-report',
+      name: 'Generate Discount Report (Claude)',
+      tier: 'claude',
+      dependsOn: ['compute-discount-analytics'],
+      claudePrompt: `You are a VP of Revenue Operations reviewing discounting discipline over the last {{discount_results.lookback_months}} months.
+
+## Coverage
+
+Deals with a derivable discount: {{discount_results.deals_with_discount}} of {{discount_results.deals_considered}}
+Sources: line items {{discount_results.source_coverage.line_items}} | custom fields {{discount_results.source_coverage.custom_field}} | amount history {{discount_results.source_coverage.amount_history}}
+
+## Distribution
+
+Average discount: {{discount_results.overall.avg_discount}}% (median {{discount_results.overall.median_discount}}%)
+Buckets: {{{json discount_results.overall.distribution}}}
+
+By rep (highest average first):
+{{{json discount_results.by_rep}}}
+
+By segment:
+{{{json discount_results.by_segment}}}
+
+By quarter-end proximity (closed deals):
+{{{json discount_results.by_quarter_end_proximity}}}
+
+## Elasticity (closed deals)
+
+Win-rate change per 10 points of discount: {{discount_results.elasticity.win_rate_change_per_10pts}}
+Cycle-time change per 10 points of discount: {{discount_results.elasticity.cycle_days_change_per_10pts}} days
+{{{json discount_results.elasticity.by_bucket}}}
+
+## End-of-Quarter Spike
+
+Final two weeks: {{discount_results.quarter_end_spike.final_2_weeks_avg_discount}}% vs rest of quarter: {{discount_results.quarter_end_spike.rest_of_quarter_avg_discount}}%
+{{#if discount_results.quarter_end_spike.spike_detected}}Spike detected in {{discount_results.quarter_end_spike.spike_quarters}} quarter(s).{{/if}}
+{{{json discount_results.quarter_end_spike.by_quarter}}}
+
+## Pricing Conversations
+
+Deals with pricing discussed on calls: {{discount_results.pricing_discussion.deals_with_pricing_mentions}}
+Average discount with pricing discussed: {{discount_results.pricing_discussion.avg_discount_with_mentions}}% vs without: {{discount_results.pricing_discussion.avg_discount_without_mentions}}%
+
+## Open Deals Over the {{discount_results.guardrail_pct}}% Guardrail ({{discount_results.guardrail_source}})
+
+Count: {{discount_results.over_guardrail_count}} worth {{discount_results.over_guardrail_amount}}
+{{{json discount_results.over_guardrail}}}
+
+---
+
+Write a concise Slack-ready discount report:
+
+1. **Headline** — one line on overall discounting and whether it is buying wins
+
+2. **Elasticity** — does more discount raise win rate or shorten cycles? Quote the bucket numbers; say plainly if discount is not moving outcomes
+
+3. **Where Discounting Concentrates** — the reps and segments furthest above average, and whether discounts spike at quarter end
+
+4. **🔴 Over Guardrail** — for each open deal (up to 8): deal, owner, amount, discount %, and one action (approval, re-scope, or trade for term/volume)
+
+5. **Recommendation** — one policy change backed by the data
+
+If discount coverage is thin (few deals with line items or mapped fields), say so in one line rather than overstating conclusions. Use rep names, deal names and dollar amounts.
+
+{{voiceBlock}}`,
+      outputKey: 'report',
+      parseAs: 'markdown',
+    },
+  ],
+
+  schedule: {
+    cron: '0 8 * * 1',
+    trigger: ['on_demand'],
+  },
+
+  outputFormat: 'slack',
+  estimatedDuration: '45s',
+
+  answers_questions: ['discount', 'discounting', 'pricing', 'discount guardrail', 'discount approval', 'end of quarter discounts', 'price elasticity'],
+
+  evidenceSchema: {
+    entity_type: 'deal',
+    columns: [
+      { key: 'deal_name', display: 'Deal', format: 'text' },
+      { key: 'owner', display: 'Owner', format: 'text' },
+      { key: 'amount', display: 'Amount', format: 'currency' },
+      { key: 'list_amount', display: 'List Amount', format: 'currency' },
+      { key: 'discount_pct', display: 'Discount %', format: 'number' },
+      { key: 'source', display: 'Source', format: 'text' },
+      { key: 'segment', display: 'Segment', format: 'text' },
+    ],
+  },
+};
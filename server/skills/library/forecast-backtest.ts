@@ -0,0 +1,98 @@
+import type { SkillDefinition } from '../types.js';
+
+export const forecastBacktestSkill: SkillDefinition = {
+  id: 'forecast-backtest',
+  name: 'Forecast Backtest',
+  description: 'Replays the last completed quarters as of their snapshot date through Monte Carlo and the forecast-rollup methods, then scores P10/P50/P90 against actual closed-won: interval coverage, MAPE, bias and pinball loss.',
+  version: '1.0.0',
+  category: 'forecasting',
+  tier: 'mixed',
+
+  requiredTools: [
+    'fbRunBacktest',
+  ],
+
+  requiredContext: ['business_model'],
+
+  timeConfig: {
+    analysisWindow: 'trailing_90d',
+    changeWindow: 'last_7d',
+    trendComparison: 'previous_period',
+  },
+
+  steps: [
+    {
+      id: 'run-backtest',
+      name: 'Replay Historical Quarters',
+      tier: 'compute',
+      computeFn: 'fbRunBacktest',
+      computeArgs: {},
+      outputKey: 'backtest',
+    },
+
+    {
+      id: 'synthesize-backtest-report',
+      name: 'Synthesize Backtest Report',
+      tier: 'claude',
+      dependsOn: ['run-backtest'],
+      claudePrompt: `You are a RevOps analyst explaining how well the forecast models at {{business_model.company_name}} would have predicted the last few quarters.
+
+BACKTEST RESULTS (amounts in {{backtest.currency}}):
+{{{json backtest}}}
+
+How to read the data:
+- team_quarters: one row per replayed quarter and method. p10/p50/p90 are what the model would have said on the snapshot date, using only data known on that date. actual is closed-won for the quarter.
+- calibration: one row per segment and method. coverage80 is the share of quarters where actual landed inside P10–P90 (a calibrated model is near 80%). coverage50 is the same for P25–P75 (near 50%). mape is mean absolute % error of P50. bias is positive when the model over-forecasts. pinballLossScaled is quantile loss relative to average actual; lower is better and it is the fairest cross-method comparison.
+- Rollup methods only produce P50 (and sometimes a band), so coverage may be null for them.
+
+STRUCTURE YOUR REPORT:
+
+1. **Verdict** (2-3 sentences)
+   - Which method has been most reliable, and by how much
+   - Whether the Monte Carlo range is too narrow (coverage well below 80%), too wide (near 100% with large loss), or about right
+
+2. **Quarter-by-Quarter Table**
+   | Quarter | Method | P10 | P50 | P90 | Actual | Error % |
+   - Team-level rows only, oldest quarter first
+
+3. **Calibration by Method**
+   - Coverage, MAPE, bias and scaled pinball loss per method
+   - Call out systematic over- or under-forecasting
+
+4. **Segments** (only if segment rows exist in calibration)
+   - Segments where the models are least reliable, with the numbers
+
+5. **Caveats**
+   - Summarize the warnings array in plain language (short history, missing category history, reconstructed stages)
+   - If fewer than 3 quarters were scored, say results are directional only
+
+{{voiceBlock}}
+
+Keep it under 500 words. Do not invent numbers that are not in the data.`,
+      outputKey: 'narrative',
+    },
+  ],
+
+  schedule: {
+    cron: '0 8 5 1,4,7,10 *',
+    trigger: 'on_demand',
+  },
+
+  outputFormat: 'markdown',
+  estimatedDuration: '90s',
+
+  answers_questions: ['backtest', 'forecast calibration', 'which forecast method', 'would the forecast have been right', 'pinball loss', 'forecast model accuracy'],
+
+  evidenceSchema: {
+    entity_type: 'workspace',
+    columns: [
+      { key: 'quarter', display: 'Quarter', format: 'text' },
+      { key: 'method', display: 'Method', format: 'text' },
+      { key: 'p10', display: 'P10', format: 'currency' },
+      { key: 'p50', display: 'P50', format: 'currency' },
+      { key: 'p90', display: 'P90', format: 'currency' },
+      { key: 'actual', display: 'Actual Closed-Won', format: 'currency' },
+      { key: 'open_deals', display: 'Open Deals at Snapshot', format: 'number' },
+    ],
+  },
+};
@@ -12,6 +12,7 @@ export const forecastRollupSkill: SkillDefinition = {
     'checkQuotaConfig',
     'resolveTimeWindows',
     'forecastRollup',
+    'productBreakdown',
     'enrichForecastWithAccuracy',
     'gatherPreviousForecast',
     'forecastWoWDelta',
@@ -69,6 +70,16 @@ export const forecastRollupSkill: SkillDefinition = {
       outputKey: 'forecast_data',
     },
 
+    {
+      id: 'gather-product-breakdown',
+      name: 'Break Down Forecast by Product',
+      tier: 'compute',
+      dependsOn: ['resolve-time-windows'],
+      computeFn: 'productBreakdown',
+      computeArgs: {},
+      outputKey: 'product_breakdown',
+    },
+
     {
       id: 'enrich-with-accuracy-scores',
       name: 'Enrich with Rep Accuracy Scores',
@@ -235,6 +246,7 @@ Return ONLY the JSON array, no other text.`,
         'check-quota-config',
         'resolve-time-windows',
         'gather-forecast-data',
+        'gather-product-breakdown',
         'gather-previous-forecast',
         'gather-wow-delta',
         'gather-deal-concentration-risk',
@@ -283,6 +295,14 @@ REP-BY-REP BREAKDOWN:
 WEEK-OVER-WEEK CHANGES:
 {{forecast_summary.wowSummary}}
 
+{{#if product_breakdown.hasLineItems}}
+PRODUCT MIX (line items on deals closing this period):
+{{#each product_breakdown.products}}
+- {{product}}: closed won \${{closedWon}}, commit \${{commit}}, best case \${{bestCase}}, open pipeline \${{openPipeline}} across {{openDeals}} deals{{#if winRate}} (trailing win rate {{winRate}}){{/if}}
+{{/each}}
+{{#if product_breakdown.lineItemCoverage}}Line items cover {{product_breakdown.lineItemCoverage}} of open pipeline value — product figures understate totals when this is well below 1.{{/if}}
+{{/if}}
+
 {{#if survival_curve_context}}
 WIN RATE CURVE (Kaplan-Meier survival analysis — {{survival_curve_context.metadata.sampleSize}} historical deals):
 - Terminal win rate: {{survival_curve_context.terminalWinRatePct}}% (all deals that ever reach creation)
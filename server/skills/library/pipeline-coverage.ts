@@ -13,6 +13,7 @@ export const pipelineCoverageSkill: SkillDefinition = {
     'checkQuotaConfig',
     'coverageByRep',
     'coverageTrend',
+    'productBreakdown',
     'repPipelineQuality',
     'getCWDByRep',
     'prepareAtRiskReps',
@@ -75,6 +76,16 @@ export const pipelineCoverageSkill: SkillDefinition = {
       outputKey: 'coverage_trend',
     },
 
+    {
+      id: 'gather-product-breakdown',
+      name: 'Break Down Coverage by Product',
+      tier: 'compute',
+      dependsOn: ['resolve-time-windows'],
+      computeFn: 'productBreakdown',
+      computeArgs: {},
+      outputKey: 'product_breakdown',
+    },
+
     {
       id: 'gather-cwd-by-rep',
       name: 'Gather Conversations Without Deals by Rep',
@@ -234,6 +245,7 @@ Each classification should be:
         'check-quota-config',
         'gather-coverage-data',
         'gather-coverage-trend',
+        'gather-product-breakdown',
         'gather-rep-pipeline-quality',
         'gather-cwd-by-rep',
         'classify-rep-risk',
@@ -276,6 +288,15 @@ WEEK-OVER-WEEK TREND:
 AT-RISK REP ANALYSIS:
 {{coverage_summary.riskClassifications}}
 
+{{#if product_breakdown.hasLineItems}}
+PIPELINE BY PRODUCT (line items on open deals closing this period):
+{{#each product_breakdown.products}}
+- {{product}}: \${{openPipeline}} open across {{openDeals}} deals ({{shareOfOpenPipeline}} of product pipeline){{#if winRate}}, trailing win rate {{winRate}}{{/if}}{{#if attachRate}}, attach rate {{attachRate}}{{/if}}
+{{/each}}
+{{#if product_breakdown.lineItemCoverage}}Line items cover {{product_breakdown.lineItemCoverage}} of open pipeline value.{{/if}}
+Flag any product whose open pipeline looks thin relative to its win rate.
+{{/if}}
+
 SHADOW PIPELINE (Conversations Without Deals):
 {{{json cwd_by_rep}}}
 
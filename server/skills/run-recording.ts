@@ -0,0 +1,393 @@
+/**
+ * Skill Run Record / Replay
+ *
+ * Record mode captures everything a skill run consumed: the business context,
+ * every compute step output, every LLM request (as a hash) with its response,
+ * and every tool result served inside a tool_use loop. The tape is stored in
+ * skill_run_recordings keyed by the run id.
+ *
+ * Replay mode re-executes the current skill definition against a recording:
+ *   - compute steps return their recorded output (recomputed live only when
+ *     listed in recomputeSteps, new in the skill, or downstream of a step
+ *     that went live)
+ *   - LLM calls whose request hash matches the recording get the recorded
+ *     response — zero tokens
+ *   - a call whose prompt changed goes to the live model (onPromptChange
+ *     'live', the default) or still gets the recorded response ('recorded');
+ *     once a step goes live, the rest of that step stays live
+ *   - tool results inside tool loops are served from the recording when the
+ *     same tool is called with the same input
+ *
+ * Replays never write skill_runs, findings, actions or deliveries; their
+ * output is stored on the replay's own recording row together with a diff
+ * against the source run (reports/skill-diff.ts).
+ */
+
+import crypto from 'crypto';
+import { query } from '../db.js';
+import type { SkillStep, SkillResult } from './types.js';
+import type { LLMCallOptions, LLMCapability, LLMResponse } from '../utils/llm-router.js';
+import { diffSkillOutputs, type SkillOutputDiff } from '../reports/skill-diff.js';
+
+export type PromptChangePolicy = 'live' | 'recorded';
+
+export interface SkillReplayOptions {
+  /** What to do when an LLM request no longer matches the recording */
+  onPromptChange?: PromptChangePolicy;
+  /** Steps that always call the live model */
+  liveSteps?: string[];
+  /** Compute steps re-executed against live data instead of the recording */
+  recomputeSteps?: string[];
+}
+
+export interface SkillRunOptions {
+  /** Record this run into skill_run_recordings */
+  record?: boolean;
+  /** Replay tape built by replaySkillRun — the run is served from it and not logged */
+  tape?: SkillRunTape;
+}
+
+export interface RecordedLLMCall {
+  requestHash: string;
+  capability: LLMCapability;
+  promptPreview: string;
+  response: LLMResponse;
+}
+
+export interface RecordedStep {
+  tier: SkillStep['tier'];
+  outputKey: string;
+  output?: any;
+  error?: string;
+  llmCalls: RecordedLLMCall[];
+  /** Tool results inside the step's tool loop, keyed by tool name + input hash */
+  toolResults: Record<string, any>;
+}
+
+export interface SkillRecording {
+  version: 1;
+  skillId: string;
+  workspaceId: string;
+  params: Record<string, any>;
+  businessContext: Record<string, any>;
+  steps: Record<string, RecordedStep>;
+}
+
+export interface ReplaySummary {
+  servedSteps: string[];
+  liveSteps: string[];
+  changedPrompts: string[];
+  llmCallsServed: number;
+  llmCallsLive: number;
+  tokensSaved: number;
+}
+
+export interface SkillRecordingRow {
+  run_id: string;
+  workspace_id: string;
+  skill_id: string;
+  mode: 'record' | 'replay';
+  source_run_id: string | null;
+  status: string | null;
+  summary: ReplaySummary | null;
+  diff: SkillOutputDiff | null;
+  created_at: string;
+}
+
+const MAX_PROMPT_PREVIEW = 2_000;
+
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+}
+
+function hash(value: any): string {
+  return crypto.createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+/**
+ * Identity of an LLM request. Temperature and tracking are excluded — only
+ * what the model sees decides whether a recorded response still applies.
+ */
+export function llmRequestHash(capability: LLMCapability, options: LLMCallOptions): string {
+  return hash({
+    capability,
+    systemPrompt: options.systemPrompt ?? '',
+    messages: options.messages,
+    schema: options.schema ?? null,
+    tools: options.tools?.map(t => t.name) ?? [],
+    maxTokens: options.maxTokens ?? null,
+  });
+}
+
+function toolKey(name: string, input: any): string {
+  return `${name}:${hash(input).slice(0, 16)}`;
+}
+
+function promptPreview(options: LLMCallOptions): string {
+  const lastUser = [...options.messages].reverse().find(m => m.role === 'user');
+  const text = typeof lastUser?.content === 'string' ? lastUser.content : JSON.stringify(lastUser?.content ?? '');
+  return text.slice(0, MAX_PROMPT_PREVIEW);
+}
+
+/**
+ * Per-run tape. In record mode it only captures; in replay mode it serves
+ * from the source recording and captures what the replay actually used.
+ */
+export class SkillRunTape {
+  readonly mode: 'record' | 'replay';
+  readonly recording: SkillRecording;
+  private readonly source?: SkillRecording;
+  private readonly options: SkillReplayOptions;
+  private readonly llmCursor = new Map<string, number>();
+  private readonly liveStepIds = new Set<string>();
+  private readonly servedStepIds = new Set<string>();
+  private readonly changedPromptSteps = new Set<string>();
+  private llmCallsServed = 0;
+  private llmCallsLive = 0;
+  private tokensSaved = 0;
+
+  constructor(
+    skillId: string,
+    workspaceId: string,
+    params: Record<string, any>,
+    replay?: SkillReplayOptions & { recording: SkillRecording }
+  ) {
+    this.source = replay?.recording;
+    this.mode = this.source ? 'replay' : 'record';
+    this.options = replay ?? {};
+    this.recording = { version: 1, skillId, workspaceId, params, businessContext: {}, steps: {} };
+  }
+
+  /** The recorded business context replaces the live one so prompts render identically */
+  useBusinessContext(live: Record<string, any>): Record<string, any> {
+    const businessContext = this.source ? this.source.businessContext : live;
+    this.recording.businessContext = businessContext;
+    return businessContext;
+  }
+
+  private stepEntry(step: SkillStep): RecordedStep {
+    let entry = this.recording.steps[step.id];
+    if (!entry) {
+      entry = { tier: step.tier, outputKey: step.outputKey, llmCalls: [], toolResults: {} };
+      this.recording.steps[step.id] = entry;
+    }
+    return entry;
+  }
+
+  /**
+   * Recorded output for a compute step, or undefined when it must run live
+   */
+  recordedComputeOutput(step: SkillStep): { output: any } | undefined {
+    if (!this.source) return undefined;
+    const recorded = this.source.steps[step.id];
+    if (!recorded || recorded.tier !== 'compute' || recorded.error || !('output' in recorded)) return undefined;
+    if (this.options.recomputeSteps?.includes(step.id)) return undefined;
+    if (step.dependsOn?.some(dep => this.liveStepIds.has(dep))) return undefined;
+    this.servedStepIds.add(step.id);
+    return { output: recorded.output };
+  }
+
+  recordStepOutput(step: SkillStep, output: any, error?: string): void {
+    const entry = this.stepEntry(step);
+    entry.output = output;
+    if (error) entry.error = error;
+    if (this.mode === 'replay' && step.tier === 'compute' && !this.servedStepIds.has(step.id)) {
+      this.liveStepIds.add(step.id);
+    }
+  }
+
+  async callLLM(
+    step: SkillStep,
+    capability: LLMCapability,
+    options: LLMCallOptions,
+    live: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const entry = this.stepEntry(step);
+    const requestHash = llmRequestHash(capability, options);
+    const index = this.llmCursor.get(step.id) ?? 0;
+    this.llmCursor.set(step.id, index + 1);
+
+    let served: LLMResponse | undefined;
+    if (this.source && !this.liveStepIds.has(step.id) && !this.options.liveSteps?.includes(step.id)) {
+      const recorded = this.source.steps[step.id]?.llmCalls[index];
+      if (recorded) {
+        const matches = recorded.requestHash === requestHash;
+        if (!matches) this.changedPromptSteps.add(step.id);
+        if (matches || this.options.onPromptChange === 'recorded') {
+          served = recorded.response;
+          this.llmCallsServed++;
+          this.tokensSaved += recorded.response.usage.input + recorded.response.usage.output;
+          this.servedStepIds.add(step.id);
+        }
+      }
+    }
+
+    if (served) {
+      entry.llmCalls.push({ requestHash, capability, promptPreview: promptPreview(options), response: served });
+      // Served responses cost nothing, so the replay's token usage only counts live calls
+      return { ...served, usage: { input: 0, output: 0 } };
+    }
+
+    const response = await live();
+    if (this.source) {
+      this.llmCallsLive++;
+      this.liveStepIds.add(step.id);
+      this.servedStepIds.delete(step.id);
+    }
+    entry.llmCalls.push({ requestHash, capability, promptPreview: promptPreview(options), response });
+    return response;
+  }
+
+  async executeTool(step: SkillStep, name: string, input: any, live: () => Promise<any>): Promise<any> {
+    const entry = this.stepEntry(step);
+    const key = toolKey(name, input);
+    const recorded = this.source?.steps[step.id]?.toolResults;
+    const result = recorded && key in recorded ? recorded[key] : await live();
+    entry.toolResults[key] = result;
+    return result;
+  }
+
+  summary(): ReplaySummary {
+    return {
+      servedSteps: [...this.servedStepIds].filter(id => !this.liveStepIds.has(id)),
+      liveSteps: [...this.liveStepIds],
+      changedPrompts: [...this.changedPromptSteps],
+      llmCallsServed: this.llmCallsServed,
+      llmCallsLive: this.llmCallsLive,
+      tokensSaved: this.tokensSaved,
+    };
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export async function saveRecording(
+  tape: SkillRunTape,
+  runId: string,
+  result: Pick<SkillResult, 'status' | 'output' | 'evidence'>,
+  extra: { sourceRunId?: string; diff?: SkillOutputDiff | null } = {}
+): Promise<void> {
+  const { workspaceId, skillId } = tape.recording;
+  const serialized = JSON.stringify(tape.recording);
+  if (serialized.length > 20_000_000) {
+    console.warn(`[SkillRecording] Recording for ${skillId} run ${runId} is ${Math.round(serialized.length / 1_000_000)}MB`);
+  }
+
+  await query(
+    `INSERT INTO skill_run_recordings (
+       run_id, workspace_id, skill_id, mode, source_run_id, status, recording, output, summary, diff
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     ON CONFLICT (run_id) DO NOTHING`,
+    [
+      runId,
+      workspaceId,
+      skillId,
+      tape.mode,
+      extra.sourceRunId ?? null,
+      result.status,
+      serialized,
+      JSON.stringify({ narrative: result.output ?? null, evidence: result.evidence ?? null }),
+      tape.mode === 'replay' ? JSON.stringify(tape.summary()) : null,
+      extra.diff ? JSON.stringify(extra.diff) : null,
+    ]
+  );
+}
+
+export async function loadRecording(workspaceId: string, runId: string): Promise<{
+  recording: SkillRecording;
+  output: { narrative: any; evidence: any } | null;
+} | null> {
+  const result = await query<{ recording: SkillRecording; output: any }>(
+    `SELECT recording, output FROM skill_run_recordings WHERE workspace_id = $1 AND run_id = $2`,
+    [workspaceId, runId]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function listRecordings(workspaceId: string, skillId: string, limit = 20): Promise<SkillRecordingRow[]> {
+  const result = await query<SkillRecordingRow>(
+    `SELECT run_id, workspace_id, skill_id, mode, source_run_id, status, summary, diff, created_at
+     FROM skill_run_recordings
+     WHERE workspace_id = $1 AND skill_id = $2
+     ORDER BY created_at DESC
+     LIMIT $3`,
+    [workspaceId, skillId, Math.min(Math.max(limit, 1), 100)]
+  );
+  return result.rows;
+}
+
+/**
+ * Whether scheduled runs of this skill should be recorded for the workspace
+ */
+export async function shouldRecordScheduledRun(workspaceId: string, skillId: string): Promise<boolean> {
+  const result = await query<{ record_scheduled: boolean }>(
+    `SELECT record_scheduled FROM skill_recording_settings WHERE workspace_id = $1 AND skill_id = $2`,
+    [workspaceId, skillId]
+  ).catch(() => ({ rows: [] as { record_scheduled: boolean }[] }));
+  return result.rows[0]?.record_scheduled === true;
+}
+
+export async function setScheduledRecording(workspaceId: string, skillId: string, enabled: boolean): Promise<void> {
+  await query(
+    `INSERT INTO skill_recording_settings (workspace_id, skill_id, record_scheduled, updated_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (workspace_id, skill_id) DO UPDATE SET
+       record_scheduled = EXCLUDED.record_scheduled,
+       updated_at = NOW()`,
+    [workspaceId, skillId, enabled]
+  );
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export interface ReplayResult {
+  replayRunId: string;
+  sourceRunId: string;
+  status: SkillResult['status'];
+  summary: ReplaySummary;
+  diff: SkillOutputDiff;
+}
+
+/**
+ * Re-run a recorded skill run with the current skill definition and diff the
+ * final output and evidence against the recorded run
+ */
+export async function replaySkillRun(
+  workspaceId: string,
+  skillId: string,
+  sourceRunId: string,
+  options: SkillReplayOptions = {}
+): Promise<ReplayResult | null> {
+  const source = await loadRecording(workspaceId, sourceRunId);
+  if (!source || source.recording.skillId !== skillId) return null;
+
+  const { getSkillRegistry } = await import('./registry.js');
+  const { getSkillRuntime } = await import('./runtime.js');
+  const skill = getSkillRegistry().get(source.recording.skillId);
+  if (!skill) throw new Error(`Skill not found: ${source.recording.skillId}`);
+
+  const params = source.recording.params;
+  const tape = new SkillRunTape(skill.id, workspaceId, params, { ...options, recording: source.recording });
+  const result = await getSkillRuntime().executeSkill(skill, workspaceId, params, undefined, undefined, { tape });
+
+  const diff = diffSkillOutputs(
+    { narrative: result.output, evidence: result.evidence },
+    { narrative: source.output?.narrative, evidence: source.output?.evidence }
+  );
+  await saveRecording(tape, result.runId, result, { sourceRunId, diff });
+
+  return {
+    replayRunId: result.runId,
+    sourceRunId,
+    status: result.status,
+    summary: tape.summary(),
+    diff,
+  };
+}
@@ -11,6 +11,7 @@
  * - Handle tool_use loop with safety limits (provider-agnostic)
  * - Track tokens, duration, errors for each step
  * - Log to skill_runs table
+ * - Optionally record the run, or replay a recording (see run-recording.ts)
  */
 
 import type {
@@ -39,7 +40,8 @@ import { estimateCost } from '../lib/token-tracker.js';
 import { query } from '../db.js';
 import { randomUUID } from 'crypto';
 import { getEvidenceBuilder } from './evidence-builder.js';
-import { configLoader } from '../config/workspace-config-loader.js';
+import { configLoader, DEFAULT_REPORTING_CURRENCY } from '../config/workspace-config-loader.js';
+import { currencySymbol } from '../utils/format-currency.js';
 import { extractFindings, insertFindings } from '../findings/extractor.js';
 import { processFindingPersistence } from '../findings/persistence-engine.js';
 import { parseActionsFromOutput, insertExtractedActions } from '../actions/index.js';
@@ -53,6 +55,7 @@ import crypto from 'crypto';
 import { PANDORA_VOICE_STANDARD } from '../lib/voice-standard.js';
 import { resolveWorkspaceIntelligence } from '../lib/workspace-intelligence.js';
 import { getSkillManifest, evaluateSkillGate } from '../lib/skill-manifests.js';
+import { SkillRunTape, saveRecording, type SkillRunOptions } from './run-recording.js';
 
 // ============================================================================
 // Skill Runtime
@@ -138,12 +141,16 @@ export class SkillRuntime {
     workspaceId: string,
     params?: any,
     userId?: string,
-    onStep?: (stepId: string, stepName: string) => void
+    onStep?: (stepId: string, stepName: string) => void,
+    runOptions?: SkillRunOptions
   ): Promise<SkillResult> {
     const runId = randomUUID();
     const startTime = Date.now();
+    const tape = runOptions?.tape ?? (runOptions?.record ? new SkillRunTape(skill.id, workspaceId, params || {}) : undefined);
+    // Replays are side-effect free: no gate, no skill_runs row, no findings/actions/deliveries
+    const replaying = tape?.mode === 'replay';
 
-    console.log(`[Skill Runtime] Starting ${skill.id} for workspace ${workspaceId}, runId: ${runId}`);
+    console.log(`[Skill Runtime] Starting ${skill.id} for workspace ${workspaceId}, runId: ${runId}${tape ? ` (${tape.mode})` : ''}`);
 
     // Phase 9+10: Gate check - evaluate if skill can run based on WorkspaceIntelligence
     // and live calibration checklist data.
@@ -160,7 +167,7 @@ export class SkillRuntime {
         question_id: r.question_id,
         status: r.status,
       }));
-      const manifest = getSkillManifest(skill.id);
+      const manifest = replaying ? undefined : getSkillManifest(skill.id);
       if (manifest) {
         gateResult = evaluateSkillGate(manifest, checklistRows, wi);
 
@@ -223,6 +230,12 @@ export class SkillRuntime {
       console.warn(`[Skill Runtime] Failed to load voice config for ${workspaceId}, using defaults`);
     }
 
+    // Deal amounts are stored in the reporting currency; tell the model which one
+    const reportingCurrency = workspaceConfig?.currency?.reporting_currency || DEFAULT_REPORTING_CURRENCY;
+    if (reportingCurrency !== DEFAULT_REPORTING_CURRENCY) {
+      voiceBlock += `\n\nCURRENCY: All monetary amounts are in ${reportingCurrency} (converted from each deal's CRM currency). Write them with the ${currencySymbol(reportingCurrency).trim()} prefix, never $.`;
+    }
+
     // Fetch consultant call context (non-blocking, non-fatal)
     let consultantContextBlock = '';
     try {
@@ -354,6 +367,7 @@ export class SkillRuntime {
       timeConfig: mergedTimeConfig,
       dataFreshness,
       voiceBlock,
+      reporting_currency: reportingCurrency,
       consultantContext: consultantContextBlock,
       active_targets: (activeTargetsResult as any).rows ?? [],
       workspaceContextBlock: workspaceContextBlock + methodologyBlock,
@@ -467,13 +481,14 @@ export class SkillRuntime {
       userId,
       skillId: skill.id,
       runId,
-      businessContext,
+      businessContext: tape ? tape.useBusinessContext(businessContext) : businessContext,
       stepResults: {},
       params: params || {},
       scopeFilters,
       queryScope,
       pipelineConfig,
       gateResult: gateResult || null, // Phase 9: Store gate result for synthesize prompts
+      tape,
       metadata: {
         startedAt: new Date(),
         tokenUsage: {
@@ -488,7 +503,7 @@ export class SkillRuntime {
       },
     };
 
-    await this.logSkillRun(
+    if (!replaying) await this.logSkillRun(
       runId,
       skill.id,
       workspaceId,
@@ -522,6 +537,7 @@ export class SkillRuntime {
 
           const result = await this.executeStep(step, context);
           context.stepResults[step.outputKey] = result;
+          tape?.recordStepOutput(step, result);
 
           const duration = Date.now() - stepStartTime;
 
@@ -559,6 +575,7 @@ export class SkillRuntime {
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
           console.error(`[Skill Runtime] Step ${step.id} failed:`, errorMsg);
+          tape?.recordStepOutput(step, undefined, errorMsg);
 
           context.metadata.errors.push({
             step: step.id,
@@ -584,7 +601,7 @@ export class SkillRuntime {
       try {
         const evidenceBuilderFn = getEvidenceBuilder(skill.id);
         if (evidenceBuilderFn) {
-          evidence = await evidenceBuilderFn(context.stepResults, workspaceId, businessContext);
+          evidence = await evidenceBuilderFn(context.stepResults, workspaceId, context.businessContext);
           console.log(`[Skill Runtime] Evidence built for ${skill.id}: ${evidence.claims.length} claims, ${evidence.evaluated_records.length} records`);
 
           // 5MB safety truncation — prevent oversized JSONB writes
@@ -615,6 +632,26 @@ export class SkillRuntime {
         console.log(`[Skill Runtime] Storing ${annotationsList.length} annotations in output`);
       }
 
+      const skillResult: SkillResult = {
+        runId,
+        skillId: skill.id,
+        workspaceId,
+        status: context.metadata.errors.length === 0 ? 'completed' : 'partial',
+        output: finalOutput,
+        outputFormat: skill.outputFormat,
+        steps: stepResults,
+        stepData: context.stepResults,
+        totalDuration_ms: Date.now() - startTime,
+        totalTokenUsage: context.metadata.tokenUsage,
+        completedAt: new Date(),
+        errors: context.metadata.errors.length > 0 ? context.metadata.errors : undefined,
+        evidence,
+        annotations: annotationsList || undefined,
+        annotationsMetadata: annotationsMetadata || undefined,
+      } as any;
+
+      if (replaying) return skillResult;
+
       await this.logSkillRun(
         runId,
         skill.id,
@@ -633,6 +670,12 @@ export class SkillRuntime {
         stepResults
       );
 
+      if (tape) {
+        await saveRecording(tape, runId, skillResult).catch(err =>
+          console.error(`[Skill Runtime] Failed to save recording for ${skill.id}:`, err instanceof Error ? err.message : err)
+        );
+      }
+
       try {
         const findings = await extractFindings(skill.id, runId, workspaceId, context.stepResults);
         if (findings.length > 0) {
@@ -676,7 +719,7 @@ export class SkillRuntime {
               pool,
               workspaceId,
               runId,
-              stepResults,
+              context.stepResults,
               (contextData ?? {}) as Record<string, any>
             );
             if (generatedCount > 0) {
@@ -757,28 +800,18 @@ export class SkillRuntime {
         }).catch(() => {});
       }
 
-      return {
-        runId,
-        skillId: skill.id,
-        workspaceId,
-        status: context.metadata.errors.length === 0 ? 'completed' : 'partial',
-        output: finalOutput,
-        outputFormat: skill.outputFormat,
-        steps: stepResults,
-        stepData: context.stepResults,
-        totalDuration_ms: Date.now() - startTime,
-        totalTokenUsage: context.metadata.tokenUsage,
-        completedAt: new Date(),
-        errors: context.metadata.errors.length > 0 ? context.metadata.errors : undefined,
-        evidence,
-        annotations: annotationsList || undefined,
-        annotationsMetadata: annotationsMetadata || undefined,
-      } as any;
+      return skillResult;
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error(`[Skill Runtime] Skill ${skill.id} failed:`, errorMsg);
 
-      await this.logSkillRun(
+      if (tape?.mode === 'record') {
+        await saveRecording(tape, runId, { status: 'failed', output: null }).catch(err =>
+          console.error(`[Skill Runtime] Failed to save recording for ${skill.id}:`, err instanceof Error ? err.message : err)
+        );
+      }
+
+      if (!replaying) await this.logSkillRun(
         runId,
         skill.id,
         workspaceId,
@@ -876,6 +909,9 @@ export class SkillRuntime {
       throw new Error(`Compute step ${step.id} missing computeFn`);
     }
 
+    const recorded = context.tape?.recordedComputeOutput(step);
+    if (recorded) return recorded.output;
+
     const tool = getToolDefinition(step.computeFn);
     if (!tool) {
       // Dynamic fallback 1: workspace_saved_queries by name
@@ -994,7 +1030,7 @@ export class SkillRuntime {
     };
 
     if (tools.length === 0 && !step.claudeTools) {
-      const response = await callLLM(context.workspaceId, capability, {
+      const response = await this.callModel(context, step, capability, {
         systemPrompt,
         messages: [{ role: 'user', content: renderedPrompt }],
         schema: step.deepseekSchema,
@@ -1081,7 +1117,7 @@ export class SkillRuntime {
       renderedPrompt,
       tools,
       maxToolCalls,
-      step.tier,
+      step,
       tracking,
       step.maxTokens || 4096
     );
@@ -1097,10 +1133,11 @@ export class SkillRuntime {
     userPrompt: string,
     tools: ToolDef[],
     maxToolCalls: number,
-    tier: string,
+    step: SkillStep,
     tracking?: TrackingContext,
     maxTokens: number = 4096
   ): Promise<string> {
+    const tier = step.tier;
     const messages: LLMCallOptions['messages'] = [
       { role: 'user', content: userPrompt },
     ];
@@ -1108,7 +1145,7 @@ export class SkillRuntime {
     let toolCallCount = 0;
 
     while (toolCallCount < maxToolCalls) {
-      const response = await callLLM(context.workspaceId, capability, {
+      const response = await this.callModel(context, step, capability, {
         systemPrompt,
         messages,
         tools: tools.length > 0 ? tools : undefined,
@@ -1146,7 +1183,9 @@ export class SkillRuntime {
               toolInput.named_filters = [...new Set([...context.scopeFilters, ...existing])];
               delete toolInput.named_filter;
             }
-            const result = await tool.execute(toolInput, context);
+            const result = context.tape
+              ? await context.tape.executeTool(step, toolCall.name, toolInput, () => tool.execute(toolInput, context))
+              : await tool.execute(toolInput, context);
             messages.push(toolResultMessage(toolCall.id, JSON.stringify(result)));
           } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
@@ -1165,7 +1204,7 @@ export class SkillRuntime {
       role: 'user',
       content: 'You have used all available tool calls. Please provide your final analysis now based on the data you have gathered so far. Do not request any more tools.',
     });
-    const finalResponse = await callLLM(context.workspaceId, capability, {
+    const finalResponse = await this.callModel(context, step, capability, {
       systemPrompt,
       messages,
       maxTokens,
@@ -1176,6 +1215,19 @@ export class SkillRuntime {
     return finalResponse.content;
   }
 
+  /**
+   * callLLM, routed through the record/replay tape when the run has one
+   */
+  private callModel(
+    context: SkillExecutionContext,
+    step: SkillStep,
+    capability: LLMCapability,
+    options: LLMCallOptions
+  ): Promise<LLMResponse> {
+    const live = () => callLLM(context.workspaceId, capability, options);
+    return context.tape ? context.tape.callLLM(step, capability, options, live) : live();
+  }
+
   private trackTokens(
     context: SkillExecutionContext,
     tier: string,
@@ -40,6 +40,8 @@ import {
   coverageByRep,
   coverageTrend,
   repPipelineQuality,
+  productMix,
+  productForecastBreakdown,
   type TimeConfig,
   type TimeWindows,
   type DataQualityAudit,
@@ -104,6 +106,7 @@ import {
   auditConversationDealCoverage as auditCWDCoverage,
 } from './tools/audit-conversation-deal-coverage.js';
 import { getDealRiskScore } from '../tools/deal-risk-score.js';
+import { getOrTrainWinModel, scoreDealsWithModel } from '../win-probability/store.js';
 import { getPipelineRiskSummary } from '../tools/pipeline-risk-summary.js';
 import { filterResolver } from '../tools/filter-resolver.js';
 import type { FilterResolutionMetadata } from '../types/workspace-config.js';
@@ -113,6 +116,7 @@ import { computeWinRates } from '../analysis/win-rate.js';
 import { computeConversionRateTrend, week3PipelineConversionRate } from '../analysis/pipeline-conversion.js';
 import { pipelineProgressionSnapshot, pipelineProgressionHistory } from '../analysis/pipeline-progression.js';
 import { repRampAnalysis } from '../analysis/rep-ramp.js';
+import { attainmentSplitTypes, getCreditingRules, loadDealCredits, loadReportingTree, repCreditSubquery } from '../quotas/deal-splits.js';
 
 // ============================================================================
 // Helper: Safe Tool Execution
@@ -3364,26 +3368,33 @@ const forecastRollup: ToolDefinition = {
       const excludedOwners: string[] = (context.businessContext as any)?.excluded_owners
         ?? (context.businessContext as any)?.definitions?.excluded_owners
         ?? [];
+      const excludeOffset = 2 + ctx.params.length;
       const excludeClause = excludedOwners.length > 0
-        ? ` AND owner NOT IN (${excludedOwners.map((_: string, i: number) => `$${i + 2}`).join(', ')})`
+        ? ` AND rc.rep NOT IN (${excludedOwners.map((_: string, i: number) => `$${i + excludeOffset}`).join(', ')})`
         : '';
 
+      // Per-rep amounts are credited shares: revenue splits (owner at 100% when
+      // the deal has none) plus overlay splits when the crediting rules say so.
+      // Team totals above stay on whole deal amounts, so overlays never double count.
+      const creditingRules = await getCreditingRules(context.workspaceId);
+      const creditTypesParam = `$${excludeOffset + excludedOwners.length}`;
+
       const repResult = await query(
         `SELECT
-          d.owner,
+          rc.rep AS owner,
           d.forecast_category,
           COUNT(*) AS deal_count,
-          COALESCE(SUM(d.amount), 0) AS total_amount,
-          COALESCE(SUM(d.amount * CASE WHEN d.probability IS NULL THEN 0 WHEN d.probability > 1 THEN d.probability / 100.0 ELSE d.probability END), 0) AS weighted_amount
+          COALESCE(SUM(d.amount * rc.credit_share), 0) AS total_amount,
+          COALESCE(SUM(d.amount * rc.credit_share * CASE WHEN d.probability IS NULL THEN 0 WHEN d.probability > 1 THEN d.probability / 100.0 ELSE d.probability END), 0) AS weighted_amount
         FROM deals d
+        JOIN ${repCreditSubquery('$1', creditTypesParam)} rc ON rc.deal_id = d.id
         WHERE d.workspace_id = $1
           AND d.forecast_category IS NOT NULL
           AND ${ctx.where_clause}
-          AND d.owner IS NOT NULL
           ${closedWonDateClause}${excludeClause}${dealOwnerClause}
-        GROUP BY d.owner, d.forecast_category
-        ORDER BY d.owner`,
-        [context.workspaceId, ...ctx.params, ...excludedOwners]
+        GROUP BY rc.rep, d.forecast_category
+        ORDER BY rc.rep`,
+        [context.workspaceId, ...ctx.params, ...excludedOwners, attainmentSplitTypes(creditingRules)]
       );
 
       const repMap = new Map<string, {
@@ -3392,9 +3403,12 @@ const forecastRollup: ToolDefinition = {
         dealCount: number;
       }>();
 
+      const rawOwnersByRep = new Map<string, Set<string>>();
+
       for (const row of repResult.rows) {
         const ownerRaw = row.owner as string;
         const owner = resolveOwnerName(ownerRaw, nameMap);
+        rawOwnersByRep.set(owner, (rawOwnersByRep.get(owner) ?? new Set()).add(ownerRaw.toLowerCase()).add(owner.toLowerCase()));
         if (!repMap.has(owner)) {
           repMap.set(owner, {
             closedWon: 0, commit: 0, bestCase: 0, pipeline: 0, notForecasted: 0,
@@ -3464,6 +3478,29 @@ const forecastRollup: ToolDefinition = {
         };
       }).sort((a, b) => b.bearCase - a.bearCase);
 
+      // Manager roll-up: each manager is credited with their reporting line's credited amounts
+      let byManager: Array<{ name: string; reps: string[]; closedWon: number; commit: number; bestCase: number; bearCase: number; quota: number | null; attainment: number | null }> | null = null;
+      if (creditingRules.manager_rollup) {
+        const managers = await loadReportingTree(context.workspaceId).catch(() => []);
+        byManager = managers.map(m => {
+          const lineKeys = new Set([...m.keys, ...m.reports]);
+          const line = byRep.filter(r => [...(rawOwnersByRep.get(r.name) ?? [])].some(k => lineKeys.has(k)));
+          const closedWon = line.reduce((sum, r) => sum + r.closedWon, 0);
+          const commit = line.reduce((sum, r) => sum + r.commit, 0);
+          const quota = repQuotas?.[m.manager] ?? null;
+          return {
+            name: m.manager,
+            reps: line.map(r => r.name),
+            closedWon,
+            commit,
+            bestCase: line.reduce((sum, r) => sum + r.bestCase, 0),
+            bearCase: closedWon + commit,
+            quota,
+            attainment: quota ? (closedWon + commit) / quota : null,
+          };
+        }).filter(m => m.reps.length > 0);
+      }
+
       // Load ICP scores for forecast deals
       const icpDealsResult = await query(
         `SELECT d.id, d.amount, d.forecast_category, d.rfm_grade, ls.score_grade
@@ -3667,6 +3704,7 @@ const forecastRollup: ToolDefinition = {
           total: Object.values(categories).reduce((s, c) => s + c.count, 0),
         },
         byRep,
+        ...(byManager ? { byManager } : {}),
         icpForecast,
         rfmQuality,
         closedWonByPipeline,
@@ -3689,12 +3727,62 @@ const forecastRollup: ToolDefinition = {
         dimension_key: ctx.dimension_key,
         dimension_label: ctx.dimension_label,
         calibrated: ctx.calibrated,
+        currency: context.businessContext?.reporting_currency ?? 'USD',
         ...(_errors.length > 0 ? { _errors } : {}),
       };
     }, params);
   },
 };
 
+const productBreakdown: ToolDefinition = {
+  name: 'productBreakdown',
+  description: 'Break down the analysis-window forecast and open pipeline by product from deal line items, with trailing-year win rate and attach rate per product.',
+  tier: 'compute',
+  parameters: {
+    type: 'object',
+    properties: {
+      limit: {
+        type: 'number',
+        description: 'Max products to return (default 10)',
+      },
+    },
+    required: [],
+  },
+  execute: async (params, context) => {
+    return safeExecute('productBreakdown', async () => {
+      const timeWindows = (context.stepResults as any).time_windows;
+      const periodStart = new Date(timeWindows.analysisRange.start);
+      const periodEnd = new Date(timeWindows.analysisRange.end);
+      const trailingStart = new Date(periodEnd.getTime() - 365 * 86400000);
+
+      const [forecast, trailing, period] = await Promise.all([
+        productForecastBreakdown(context.workspaceId, periodStart, periodEnd),
+        productMix(context.workspaceId, { start: trailingStart, end: periodEnd }),
+        productMix(context.workspaceId, { start: periodStart, end: periodEnd }),
+      ]);
+
+      if (forecast.length === 0) {
+        return { hasLineItems: false, products: [], lineItemCoverage: null };
+      }
+
+      const trailingByProduct = new Map(trailing.products.map(p => [p.product, p]));
+      const limit = params.limit ?? 10;
+
+      return {
+        hasLineItems: true,
+        products: forecast.slice(0, limit).map(row => ({
+          ...row,
+          winRate: trailingByProduct.get(row.product)?.winRate ?? null,
+          attachRate: trailingByProduct.get(row.product)?.attachRate ?? null,
+          asp: trailingByProduct.get(row.product)?.asp ?? null,
+        })),
+        otherProducts: Math.max(0, forecast.length - limit),
+        lineItemCoverage: period.coverage.openAmountCoverage,
+      };
+    }, params);
+  },
+};
+
 const enrichForecastWithAccuracy: ToolDefinition = {
   name: 'enrichForecastWithAccuracy',
   description: 'Enrich forecast data with rep historical accuracy scores from forecast_accuracy table. Returns accuracy metrics by rep email for risk classification.',
@@ -6962,6 +7050,48 @@ const fatGatherRepAccuracy: ToolDefinition = {
   },
 };
 
+const fbRunBacktest: ToolDefinition = {
+  name: 'fbRunBacktest',
+  description: 'Replay completed quarters as of their snapshot date through Monte Carlo and forecast-rollup methods and score them against actual closed-won (interval coverage, MAPE, pinball loss)',
+  tier: 'compute',
+  parameters: { type: 'object', properties: {}, required: [] },
+  execute: async (params, context) => {
+    return safeExecute('fbRunBacktest', async () => {
+      const { resolveBacktestParams, createBacktest, executeBacktest } = await import('../analysis/forecast-backtest.js');
+
+      const backtestParams = resolveBacktestParams({
+        quarters: context.params?.quarters ?? params.quarters,
+        snapshotOffsetDays: context.params?.snapshotOffsetDays ?? params.snapshotOffsetDays,
+        iterations: context.params?.iterations ?? params.iterations ?? 1000,
+        segmentBy: context.params?.segmentBy ?? params.segmentBy,
+      });
+      const backtestId = await createBacktest(context.workspaceId, backtestParams, 'skill:forecast-backtest');
+      const result = await executeBacktest(context.workspaceId, backtestId);
+
+      const teamQuarters = result.results
+        .filter(r => r.segment === 'all')
+        .map(r => ({
+          quarter: r.quarterLabel,
+          method: r.method,
+          p10: r.p10 != null ? Math.round(r.p10) : null,
+          p50: Math.round(r.p50),
+          p90: r.p90 != null ? Math.round(r.p90) : null,
+          actual: Math.round(r.actual),
+          open_deals: r.openDeals,
+        }));
+
+      return {
+        backtest_id: backtestId,
+        params: result.params,
+        calibration: result.calibration,
+        team_quarters: teamQuarters,
+        warnings: result.warnings,
+        currency: context.businessContext?.reporting_currency ?? 'USD',
+      };
+    }, params);
+  },
+};
+
 const fatGatherHistoricalRollups: ToolDefinition = {
   name: 'fatGatherHistoricalRollups',
   description: 'Pull last 4 weekly-forecast-rollup skill runs to compute team-level forecast drift',
@@ -7436,6 +7566,33 @@ const dsmGatherScoringContext: ToolDefinition = {
   },
 };
 
+const dsmComputeWinProbability: ToolDefinition = {
+  name: 'dsmComputeWinProbability',
+  description: 'Score open deals with the trained win-probability model, retraining it on closed deals when stale',
+  tier: 'compute',
+  parameters: { type: 'object', properties: {}, required: [] },
+  execute: async (params, context) => {
+    return safeExecute('dsmComputeWinProbability', async () => {
+      const openDealsData = (context.stepResults as any).open_deals_data;
+      const dealIds: string[] = (openDealsData?.deals || []).map((d: any) => d.id);
+
+      const record = await getOrTrainWinModel(context.workspaceId);
+      const scores = await scoreDealsWithModel(context.workspaceId, record, dealIds);
+
+      return {
+        method: record.status === 'active' ? 'model' : 'weighted_score',
+        model_id: record.id,
+        trained_at: record.trained_at,
+        fallback_reason: record.reason,
+        closed_deals: record.closed_deals,
+        cv_auc: record.cv_auc !== null ? Math.round(record.cv_auc * 1000) / 1000 : null,
+        brier: record.brier !== null ? Math.round(record.brier * 1000) / 1000 : null,
+        scores: Object.fromEntries(scores),
+      };
+    }, params);
+  },
+};
+
 const dsmComputeAndWriteScores: ToolDefinition = {
   name: 'dsmComputeAndWriteScores',
   description: 'Compute 5-dimension deal scores and write ai_score back to deals table',
@@ -7445,6 +7602,8 @@ const dsmComputeAndWriteScores: ToolDefinition = {
     return safeExecute('dsmComputeAndWriteScores', async () => {
       const openDealsData = (context.stepResults as any).open_deals_data;
       const scoringContext = (context.stepResults as any).scoring_context;
+      const winProbabilityData = (context.stepResults as any).win_probability;
+      const modelScores: Record<string, { probability: number; drivers: any[] }> = winProbabilityData?.scores || {};
 
       if (!openDealsData?.deals?.length) {
         return { scored: 0, avg_score: 0, score_distribution: {}, deals_scored: [] };
@@ -7560,7 +7719,7 @@ const dsmComputeAndWriteScores: ToolDefinition = {
         dim5 = Math.min(100, dim5);
 
         // ─── Overall weighted score ───────────────────────────────────────────
-        const overall = Math.round(
+        const weightedScore = Math.round(
           dim1 * 0.20 +
           dim2 * 0.25 +
           dim3 * 0.20 +
@@ -7568,6 +7727,13 @@ const dsmComputeAndWriteScores: ToolDefinition = {
           dim5 * 0.15
         );
 
+        // Trained model wins when the workspace has enough closed deals;
+        // otherwise the weighted score stands in as the probability
+        const modelScore = modelScores[deal.id];
+        const winProbability = modelScore ? modelScore.probability : weightedScore / 100;
+        const scoreMethod = modelScore ? 'model' : 'weighted_score';
+        const overall = modelScore ? Math.round(modelScore.probability * 100) : weightedScore;
+
         const breakdown = {
           qualification: dim1,
           engagement: dim2,
@@ -7582,9 +7748,17 @@ const dsmComputeAndWriteScores: ToolDefinition = {
             `UPDATE deals
              SET ai_score = $1,
                  ai_score_updated_at = NOW(),
-                 ai_score_breakdown = $2
+                 ai_score_breakdown = $2,
+                 win_probability = $5,
+                 win_probability_method = $6,
+                 win_probability_drivers = $7,
+                 win_probability_updated_at = NOW()
              WHERE id = $3 AND workspace_id = $4`,
-            [overall, JSON.stringify(breakdown), deal.id, context.workspaceId]
+            [
+              overall, JSON.stringify(breakdown), deal.id, context.workspaceId,
+              Math.round(winProbability * 10000) / 10000, scoreMethod,
+              modelScore ? JSON.stringify(modelScore.drivers) : null,
+            ]
           );
         } catch { /* non-fatal */ }
 
@@ -7595,6 +7769,10 @@ const dsmComputeAndWriteScores: ToolDefinition = {
           stage: deal.stage,
           owner: deal.owner,
           overall_score: overall,
+          weighted_score: weightedScore,
+          win_probability: Math.round(winProbability * 1000) / 1000,
+          score_method: scoreMethod,
+          top_drivers: modelScore ? modelScore.drivers.slice(0, 3).map((d: any) => ({ label: d.label, contribution: d.contribution })) : [],
           previous_score: deal.previous_ai_score,
           score_delta: deal.previous_ai_score != null ? overall - deal.previous_ai_score : null,
           breakdown,
@@ -7625,6 +7803,9 @@ const dsmComputeAndWriteScores: ToolDefinition = {
       return {
         scored: scoredDeals.length,
         avg_score: avgScore,
+        scoring_method: scoredDeals.some((d: any) => d.score_method === 'model') ? 'model' : 'weighted_score',
+        model_cv_auc: winProbabilityData?.cv_auc ?? null,
+        model_fallback_reason: winProbabilityData?.fallback_reason ?? null,
         score_distribution: distribution,
         biggest_improvers: biggestImprovers,
         biggest_decliners: biggestDecliners,
@@ -8122,13 +8303,14 @@ const mcLoadOpenDeals: ToolDefinition = {
         id: string;
         name: string;
         amount: string | null;
+        fx_rate: number | null;
         stage_normalized: string | null;
         close_date: string | null;
         created_at: string | null;
         owner: string | null;
         probability: string | null;
       }>(
-        `SELECT id, name, amount::text, stage_normalized, close_date::text, created_at::text, owner, probability::text
+        `SELECT id, name, amount::text, fx_rate::float, stage_normalized, close_date::text, created_at::text, owner, probability::text
          FROM deals
          WHERE workspace_id = $1
            AND stage_normalized NOT IN ('closed_won', 'closed_lost')
@@ -8139,6 +8321,10 @@ const mcLoadOpenDeals: ToolDefinition = {
         params
       );
 
+      // Attribute simulated wins by revenue split rather than 100% to the owner
+      const dealCredits = await loadDealCredits(context.workspaceId, result.rows.map(r => r.id), ['revenue'])
+        .catch(() => new Map<string, Array<{ rep: string; share: number }>>());
+
       const openDeals = result.rows.map(r => ({
         id: r.id,
         name: r.name,
@@ -8148,6 +8334,7 @@ const mcLoadOpenDeals: ToolDefinition = {
         createdAt: r.created_at ? new Date(r.created_at) : undefined,
         ownerEmail: r.owner,
         probability: r.probability ? parseFloat(r.probability) : null,
+        credits: dealCredits.get(r.id),
       }));
 
       const totalCrmValue = openDeals.reduce((s, d) => s + d.amount, 0);
@@ -8255,11 +8442,13 @@ const mcLoadUpcomingRenewals: ToolDefinition = {
         id: string;
         name: string;
         amount: string | null;
+        fx_rate: number | null;
         close_date: string | null;
         owner: string | null;
+        account_id: string | null;
         custom_fields: any;
       }>(
-        `SELECT id, name, amount::text, close_date::text, owner, custom_fields
+        `SELECT id, name, amount::text, fx_rate::float, close_date::text, owner, account_id, custom_fields
          FROM deals
          WHERE workspace_id = $1
            AND stage_normalized NOT IN ('closed_won', 'closed_lost')
@@ -8271,6 +8460,11 @@ const mcLoadUpcomingRenewals: ToolDefinition = {
         sqlParams
       );
 
+      // Health-adjusted renewal probabilities from the customer-health skill
+      const { loadRenewalProbabilities } = await import('../analysis/customer-health.js');
+      const accountIds = [...new Set(result.rows.map(r => r.account_id).filter((id): id is string => !!id))];
+      const renewalProbabilities = await loadRenewalProbabilities(context.workspaceId, accountIds);
+
       const upcomingRenewals = result.rows.map(r => {
         let expectedCloseDate = r.close_date ? new Date(r.close_date) : new Date();
         const cf = r.custom_fields || {};
@@ -8287,16 +8481,62 @@ const mcLoadUpcomingRenewals: ToolDefinition = {
           contractValue: Math.max(0, rv(r, context)),
           expectedCloseDate,
           owner: r.owner,
+          winProbability: r.account_id ? renewalProbabilities.get(r.account_id) : undefined,
         };
       });
 
       const totalRenewalValue = upcomingRenewals.reduce((s, r) => s + r.contractValue, 0);
+      const healthScoredCount = upcomingRenewals.filter(r => r.winProbability !== undefined).length;
 
-      return { upcomingRenewals, renewalCount: upcomingRenewals.length, totalRenewalValue };
+      return { upcomingRenewals, renewalCount: upcomingRenewals.length, totalRenewalValue, healthScoredCount };
     }, _params);
   },
 };
 
+const computeCustomerHealth: ToolDefinition = {
+  name: 'computeCustomerHealth',
+  description: 'Score customer accounts for churn risk and renewal probability, and flag at-risk renewals in the window',
+  tier: 'compute',
+  parameters: {
+    type: 'object',
+    properties: {
+      renewalWindowDays: { type: 'number', description: 'Flag at-risk renewals due within this many days (default 90)' },
+      maxStakeholderChecks: { type: 'number', description: 'Max renewal deals to check on LinkedIn per run (default 10)' },
+    },
+    required: [],
+  },
+  execute: async (params, context) => {
+    return safeExecute('computeCustomerHealth', async () => {
+      const { computeCustomerHealth } = await import('../analysis/customer-health.js');
+      return await computeCustomerHealth(context.workspaceId, {
+        renewalWindowDays: context.params?.renewalWindowDays ?? params.renewalWindowDays ?? 90,
+        maxStakeholderChecks: params.maxStakeholderChecks ?? 10,
+      });
+    }, params);
+  },
+};
+
+const computeDiscountAnalytics: ToolDefinition = {
+  name: 'computeDiscountAnalytics',
+  description: 'Derive per-deal discount % and report distribution, win-rate/cycle-time elasticity, quarter-end spikes and open deals over the discount guardrail',
+  tier: 'compute',
+  parameters: {
+    type: 'object',
+    properties: {
+      lookbackMonths: { type: 'number', description: 'Months of closed deals to analyze (default 12)' },
+    },
+    required: [],
+  },
+  execute: async (params, context) => {
+    return safeExecute('computeDiscountAnalytics', async () => {
+      const { computeDiscountAnalytics } = await import('../analysis/discount-analytics.js');
+      return await computeDiscountAnalytics(context.workspaceId, {
+        lookbackMonths: context.params?.lookbackMonths ?? params.lookbackMonths ?? 12,
+      });
+    }, params);
+  },
+};
+
 const mcRunSimulation: ToolDefinition = {
   name: 'mcRunSimulation',
   description: 'Run 10,000-iteration Monte Carlo simulation and compute variance drivers.',
@@ -8411,6 +8651,7 @@ const mcRunSimulation: ToolDefinition = {
         pipelineFilter,
         pipelineType,
         componentBMethod,
+        currency: context.businessContext?.reporting_currency ?? 'USD',
       };
 
       // Store compact iteration records for query layer (deduped from simulation)
@@ -8428,6 +8669,7 @@ const mcRunSimulation: ToolDefinition = {
           ownerEmail: d.ownerEmail,
           probability: d.probability,
           closeDate: d.closeDate instanceof Date ? d.closeDate.toISOString() : d.closeDate,
+          ...(d.credits ? { credits: d.credits } : {}),
         })),
         distributions,
         forecastWindowEnd: forecastWindowEnd.toISOString(),
@@ -9892,6 +10134,7 @@ export const toolRegistry = new Map<string, ToolDefinition>([
   ['checkForecastCalibration', checkForecastCalibration],
   ['checkPipelineGenHistory', checkPipelineGenHistory],
   ['forecastRollup', forecastRollup],
+  ['productBreakdown', productBreakdown],
   ['enrichForecastWithAccuracy', enrichForecastWithAccuracy],
   ['forecastWoWDelta', forecastWoWDelta],
   ['prepareForecastSummary', prepareForecastSummary],
@@ -9949,12 +10192,14 @@ export const toolRegistry = new Map<string, ToolDefinition>([
   ['ciCompComputeWinRates', ciCompComputeWinRates],
   ['fatGatherRepAccuracy', fatGatherRepAccuracy],
   ['fatGatherHistoricalRollups', fatGatherHistoricalRollups],
+  ['fbRunBacktest', fbRunBacktest],
   ['crrGatherContactsNeedingRoles', crrGatherContactsNeedingRoles],
   ['crrGatherConversationContext', crrGatherConversationContext],
   ['crrPersistRoleEnrichments', crrPersistRoleEnrichments],
   ['crrGenerateCoverageFindings', crrGenerateCoverageFindings],
   ['dsmGatherOpenDeals', dsmGatherOpenDeals],
   ['dsmGatherScoringContext', dsmGatherScoringContext],
+  ['dsmComputeWinProbability', dsmComputeWinProbability],
   ['dsmComputeAndWriteScores', dsmComputeAndWriteScores],
   ['dsmBuildFindings', dsmBuildFindings],
   ['icpScoreOpenDeals', icpScoreOpenDeals],
@@ -9964,6 +10209,8 @@ export const toolRegistry = new Map<string, ToolDefinition>([
   ['mcFitDistributions', mcFitDistributions],
   ['mcLoadOpenDeals', mcLoadOpenDeals],
   ['mcLoadUpcomingRenewals', mcLoadUpcomingRenewals],
+  ['computeCustomerHealth', computeCustomerHealth],
+  ['computeDiscountAnalytics', computeDiscountAnalytics],
   ['mcComputeRiskAdjustments', mcComputeRiskAdjustments],
   ['mcRunSimulation', mcRunSimulation],
   ['mcComputeAllElseEqual', mcComputeAllElseEqual],
@@ -10347,20 +10594,28 @@ export const toolRegistry = new Map<string, ToolDefinition>([
         else if (row.forecast_category === 'best_case' || row.forecast_category === 'best case') bestCaseValue = Number(row.pipeline);
       }
 
+      // Per-rep forecast uses split credits, matching the scorecard and the
+      // forecast rollup; quota is looked up per rep so it cannot fan out the sum.
+      const creditingRules = await getCreditingRules(context.workspaceId);
       const repRollupResult = await query<{ owner_email: string; forecast_amount: number; quota: number }>(
-        `SELECT d.owner_email,
-                COALESCE(SUM(d.amount), 0) AS forecast_amount,
+        `SELECT COALESCE(MAX(rc.rep_email), rc.rep) AS owner_email,
+                COALESCE(SUM(d.amount * rc.credit_share), 0) AS forecast_amount,
                 COALESCE(MAX(rq.quota_amount), 0) AS quota
          FROM deals d
-         LEFT JOIN rep_quotas rq ON rq.rep_email = d.owner_email
-         LEFT JOIN quota_periods qp ON qp.id = rq.period_id
-           AND qp.workspace_id = d.workspace_id
-           AND qp.start_date <= $2 AND qp.end_date >= $3
+         JOIN ${repCreditSubquery('$1', '$4')} rc ON rc.deal_id = d.id
+         LEFT JOIN LATERAL (
+           SELECT MAX(q.quota_amount) AS quota_amount
+           FROM rep_quotas q
+           JOIN quota_periods qp ON qp.id = q.period_id
+           WHERE qp.workspace_id = $1
+             AND qp.start_date <= $2 AND qp.end_date >= $3
+             AND (LOWER(q.rep_email) = LOWER(rc.rep_email) OR LOWER(q.rep_name) = LOWER(rc.rep))
+         ) rq ON true
          WHERE d.workspace_id = $1
            AND d.close_date >= $3 AND d.close_date <= $2
            AND d.forecast_category IN ('commit','Commit','forecast','Forecast')
-         GROUP BY d.owner_email`,
-        [context.workspaceId, qEnd.toISOString().split('T')[0], qStart.toISOString().split('T')[0]]
+         GROUP BY rc.rep`,
+        [context.workspaceId, qEnd.toISOString().split('T')[0], qStart.toISOString().split('T')[0], attainmentSplitTypes(creditingRules)]
       );
 
       const repRollupTotal = repRollupResult.rows.reduce((s, r) => s + Number(r.forecast_amount), 0);
@@ -203,6 +203,9 @@ export interface SkillExecutionContext {
   /** Phase 9: Gate check result for skill execution */
   gateResult?: any | null;
 
+  /** Record/replay tape — present when the run is recorded or replayed */
+  tape?: import('./run-recording.js').SkillRunTape;
+
   /** Execution metadata */
   metadata: {
     startedAt: Date;
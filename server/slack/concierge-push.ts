@@ -9,6 +9,7 @@
  */
 
 import { query } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
 import { assembleOpeningBrief } from '../context/opening-brief.js';
 import {
   formatConciergeDaily,
@@ -232,6 +233,7 @@ export async function assembleConciergeSlackMessage(
     overnightSkillCount,
     pendingActionCount: 0,
     conciergeUrl,
+    currency: await configLoader.getReportingCurrency(workspaceId),
   };
 
   const blocks = formatConciergeDaily(input);
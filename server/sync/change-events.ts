@@ -0,0 +1,120 @@
+/**
+ * Real-time CRM change ingestion — shared plumbing
+ *
+ * HubSpot webhooks and Salesforce CDC both end up here after upserting the
+ * changed records: emit scoped post-sync events, track last-event health on
+ * the connection, and queue an incremental sync when events were missed.
+ */
+
+import { query } from '../db.js';
+import { getJobQueue } from '../jobs/queue.js';
+import { emitSyncCompleted } from './post-sync-events.js';
+
+export type ChangeEventConnector = 'hubspot' | 'salesforce';
+
+export interface ChangeEventOutcome {
+  deals: string[];
+  contacts: string[];
+  accounts: string[];
+  stageChanges: number;
+  errors: string[];
+}
+
+/**
+ * Emit post-sync events scoped to the records a change event touched.
+ * Does not move last_sync_at: the heartbeat incremental sync still owns the watermark.
+ */
+export async function completeChangeEvents(
+  workspaceId: string,
+  connector: ChangeEventConnector,
+  outcome: ChangeEventOutcome
+): Promise<void> {
+  await recordChangeEventHealth(workspaceId, connector, outcome.errors[0] ?? null);
+
+  if (outcome.deals.length + outcome.contacts.length + outcome.accounts.length === 0) return;
+
+  await emitSyncCompleted(workspaceId, [{
+    connector,
+    category: 'crm',
+    status: 'success',
+    message: 'change_event',
+    counts: {
+      deals: { transformed: outcome.deals.length, failed: 0, dbInserted: outcome.deals.length, dbFailed: 0 },
+      contacts: { transformed: outcome.contacts.length, failed: 0, dbInserted: outcome.contacts.length, dbFailed: 0 },
+      accounts: { transformed: outcome.accounts.length, failed: 0, dbInserted: outcome.accounts.length, dbFailed: 0 },
+    },
+    scope: {
+      dealIds: outcome.deals,
+      contactIds: outcome.contacts,
+      accountIds: outcome.accounts,
+    },
+  }]);
+}
+
+async function recordChangeEventHealth(
+  workspaceId: string,
+  connector: ChangeEventConnector,
+  lastError: string | null
+): Promise<void> {
+  await query(
+    `UPDATE connections
+     SET sync_cursor = COALESCE(sync_cursor, '{}'::jsonb) || jsonb_build_object(
+           'realtime', COALESCE(sync_cursor->'realtime', '{}'::jsonb) || $1::jsonb
+         ),
+         updated_at = NOW()
+     WHERE workspace_id = $2 AND connector_name = $3`,
+    [
+      JSON.stringify({ lastEventAt: new Date().toISOString(), lastError }),
+      workspaceId,
+      connector,
+    ]
+  ).catch(err => {
+    console.warn('[ChangeEvents] Failed to record change event health:', err instanceof Error ? err.message : err);
+  });
+}
+
+/**
+ * Queue an incremental sync because change events were missed or failed to apply.
+ * Uses the same sync_log + 'sync' job path as the scheduler heartbeat, and skips
+ * if a sync for this connector is already pending or running.
+ */
+export async function queueFallbackSync(
+  workspaceId: string,
+  connector: ChangeEventConnector,
+  reason: string
+): Promise<string | null> {
+  try {
+    const inFlight = await query(
+      `SELECT 1 FROM sync_log
+       WHERE workspace_id = $1 AND connector_type = $2
+         AND status IN ('pending', 'running')
+         AND started_at > NOW() - INTERVAL '30 minutes'
+       LIMIT 1`,
+      [workspaceId, connector]
+    );
+    if (inFlight.rows.length > 0) {
+      console.log(`[ChangeEvents] Fallback sync for ${connector}/${workspaceId} skipped — sync already in flight`);
+      return null;
+    }
+
+    const logResult = await query<{ id: string }>(
+      `INSERT INTO sync_log (workspace_id, connector_type, sync_type, status, started_at)
+       VALUES ($1, $2, 'change_event_fallback', 'pending', NOW())
+       RETURNING id`,
+      [workspaceId, connector]
+    );
+
+    const jobId = await getJobQueue().createJob({
+      workspaceId,
+      jobType: 'sync',
+      payload: { connectorType: connector, syncLogId: logResult.rows[0].id, mode: 'incremental' },
+      priority: 1,
+    });
+
+    console.log(`[ChangeEvents] Queued fallback ${connector} sync for ${workspaceId} (${reason}, job: ${jobId})`);
+    return jobId;
+  } catch (err) {
+    console.error(`[ChangeEvents] Failed to queue fallback sync for ${connector}/${workspaceId}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
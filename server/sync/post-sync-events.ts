@@ -13,6 +13,7 @@ import { query } from '../db.js';
 import { captureCurrentSchema, detectNewFields, insertNewFieldsFinding } from './field-detector.js';
 import { discoverWinPatterns } from '../coaching/win-pattern-discovery.js';
 import { computeAndStoreStageBenchmarks } from '../coaching/stage-benchmarks.js';
+import { indexWorkspace } from '../search/indexer.js';
 
 interface SyncResult {
   connector: string;
@@ -20,17 +21,31 @@ interface SyncResult {
   status: string;
   message?: string;
   counts?: Record<string, { transformed: number; failed: number; dbInserted: number; dbFailed: number }>;
+  /** Set by real-time change ingestion: only these records changed */
+  scope?: ChangedEntityScope;
+}
+
+export interface ChangedEntityScope {
+  dealIds: string[];
+  contactIds: string[];
+  accountIds: string[];
 }
 
 export async function emitSyncCompleted(
   workspaceId: string,
   results: SyncResult[]
 ): Promise<void> {
+  const successful = results.filter(r => r.status === 'success');
+  if (successful.length > 0 && successful.every(r => r.scope)) {
+    await emitScopedSyncCompleted(workspaceId, successful);
+    return;
+  }
+
   console.log(`[PostSync] Sync completed for workspace ${workspaceId}, checking for triggered skills`);
 
-  const connectorTypes = results.filter(r => r.status === 'success').map(r => r.connector);
-  const conversationSynced = connectorTypes.some(c => ['gong', 'fireflies'].includes(c));
-  const linkerRelevant = connectorTypes.some(c => ['gong', 'fireflies', 'hubspot', 'salesforce'].includes(c));
+  const connectorTypes = successful.map(r => r.connector);
+  const conversationSynced = connectorTypes.some(c => ['gong', 'fireflies', 'zoom', 'chorus'].includes(c));
+  const linkerRelevant = connectorTypes.some(c => ['gong', 'fireflies', 'zoom', 'chorus', 'hubspot', 'salesforce'].includes(c));
 
   if (linkerRelevant) {
     try {
@@ -109,6 +124,19 @@ export async function emitSyncCompleted(
     }, 5000);
   }
 
+  // Semantic search index: incremental, so it runs after every sync. Delayed
+  // so linker and internal-call classification land in the chunk metadata.
+  setTimeout(() => {
+    indexWorkspace(workspaceId)
+      .then(stats => {
+        if (!stats) return;
+        console.log(`[SearchIndex] Post-sync ${workspaceId}: ${Object.values(stats.sources).reduce((a, b) => a + b, 0)} sources re-indexed, ${stats.chunks} chunks, ${stats.embedded} embedded, ${stats.pruned} pruned`);
+      })
+      .catch(err => {
+        console.error(`[SearchIndex] Post-sync ${workspaceId} failed:`, err instanceof Error ? err.message : err);
+      });
+  }, 10000);
+
   const crmSynced = connectorTypes.some(c => ['hubspot', 'salesforce'].includes(c));
   if (crmSynced) {
     setTimeout(() => {
@@ -132,6 +160,17 @@ export async function emitSyncCompleted(
       console.error(`[Enrichment] Post-sync trigger failed:`, err instanceof Error ? err.message : err);
     });
 
+    // Territory assignment — account attributes may have changed
+    import('../territories/territory-service.js').then(({ resolveAccountTerritories }) => {
+      resolveAccountTerritories(workspaceId).then(result => {
+        if (result.changed > 0) {
+          console.log(`[Territories] Post-sync: ${result.changed} accounts reassigned (${result.assigned}/${result.evaluated} in a territory)`);
+        }
+      }).catch(err => {
+        console.error(`[Territories] Post-sync resolve failed:`, err instanceof Error ? err.message : err);
+      });
+    }).catch(() => {});
+
     // Win pattern discovery - check if we should run
     maybeRunPatternDiscovery(workspaceId).catch(err => {
       console.error(`[Coaching] Pattern discovery check failed:`, err instanceof Error ? err.message : err);
@@ -189,6 +228,55 @@ export async function emitSyncCompleted(
   }
 }
 
+/**
+ * Post-sync work for real-time change events (webhooks / CDC).
+ * Only per-record follow-ups run here. Workspace-wide passes (linker, field
+ * detection, pattern discovery, post_sync skills) stay on the scheduled sync,
+ * otherwise every single deal edit would fan out into full recomputes.
+ */
+async function emitScopedSyncCompleted(workspaceId: string, results: SyncResult[]): Promise<void> {
+  const dealIds = Array.from(new Set(results.flatMap(r => r.scope?.dealIds ?? [])));
+  const contactCount = results.reduce((sum, r) => sum + (r.scope?.contactIds.length ?? 0), 0);
+  const accountCount = results.reduce((sum, r) => sum + (r.scope?.accountIds.length ?? 0), 0);
+
+  console.log(`[PostSync] Change event for workspace ${workspaceId}: ${dealIds.length} deals, ${contactCount} contacts, ${accountCount} accounts`);
+
+  const accountIds = Array.from(new Set(results.flatMap(r => r.scope?.accountIds ?? [])));
+  if (accountIds.length > 0) {
+    const { resolveAccountTerritories } = await import('../territories/territory-service.js');
+    await resolveAccountTerritories(workspaceId, accountIds).catch(err => {
+      console.error(`[Territories] Change event resolve failed:`, err instanceof Error ? err.message : err);
+    });
+  }
+
+  if (dealIds.length === 0) return;
+
+  const { computeFieldsForDeal } = await import('../computed-fields/engine.js');
+  for (const dealId of dealIds) {
+    await computeFieldsForDeal(workspaceId, dealId).catch(err => {
+      console.error(`[ComputedFields] Change event recompute failed for deal ${dealId}:`, err instanceof Error ? err.message : err);
+    });
+  }
+
+  const closedResult = await query<{ n: number }>(
+    `SELECT COUNT(*)::integer AS n FROM deals
+     WHERE workspace_id = $1 AND id = ANY($2) AND stage_normalized IN ('closed_won', 'closed_lost')`,
+    [workspaceId, dealIds]
+  ).catch(() => ({ rows: [{ n: 0 }] }));
+
+  if ((closedResult.rows[0]?.n ?? 0) > 0) {
+    import('../scoring/workspace-scoring-state.js').then(({ recomputeScoringState }) => {
+      recomputeScoringState(workspaceId).catch(err => {
+        console.error(`[ScoringState] Change event recompute failed:`, err instanceof Error ? err.message : err);
+      });
+    }).catch(() => {});
+
+    triggerEnrichmentForNewlyClosedDeals(workspaceId).catch(err => {
+      console.error(`[Enrichment] Change event trigger failed:`, err instanceof Error ? err.message : err);
+    });
+  }
+}
+
 async function triggerEnrichmentForNewlyClosedDeals(workspaceId: string): Promise<void> {
   const config = await getEnrichmentConfig(workspaceId);
   if (!config.autoEnrichOnClose) {
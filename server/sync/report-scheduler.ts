@@ -11,17 +11,17 @@
  * - Default = skills Sunday 11pm local, delivery Monday 5am local
  */
 
-import cron from 'node-cron';
 import { query } from '../db.js';
 import { REPORT_SKILL_MAP, type ReportType, DEFAULT_DELIVERY_HOUR, DEFAULT_DELIVERY_DAY, DEFAULT_TIMEZONE } from '../agents/report-skill-map.js';
 import { calculateAgentSchedule, type AgentSchedule } from '../agents/schedule-calculator.js';
+import { scheduleJob, type ClusterJob } from '../scheduling/cluster-scheduler.js';
 
 interface ScheduledAgent {
   agentId: string;
   workspaceId: string;
   reportType: ReportType;
-  skillRunJob: cron.ScheduledTask;
-  deliveryJob: cron.ScheduledTask;
+  skillRunJob: ClusterJob;
+  deliveryJob: ClusterJob;
   schedule: AgentSchedule;
 }
 
@@ -40,7 +40,7 @@ export async function startReportScheduler(): Promise<void> {
   console.log(`[ReportScheduler] Scheduled ${scheduledAgents.length} agents`);
 
   // Re-check every hour for newly created agents or schedule changes
-  cron.schedule('0 * * * *', async () => {
+  scheduleJob('report-scheduler:refresh', '0 * * * *', async () => {
     await refreshSchedules();
   });
 }
@@ -76,22 +76,25 @@ async function scheduleAgent(agent: any): Promise<void> {
     timezone
   );
 
-  // Skill run job
-  const skillRunJob = cron.schedule(
+  // Skill run job. A missed weekly report is still worth producing late,
+  // so both jobs catch up once after downtime.
+  const skillRunJob = scheduleJob(
+    `report-agent:${agent.id}:skills`,
     schedule.skillRunCron,
     async () => {
       await runSkillsForAgent(agent.id, agent.workspace_id, agent.report_type);
     },
-    { timezone: 'UTC' }
+    { timezone: 'UTC', workspaceId: agent.workspace_id, catchUp: 'run_once', description: `Report skills (${agent.report_type})` }
   );
 
   // Delivery job (Orchestrator + channel delivery)
-  const deliveryJob = cron.schedule(
+  const deliveryJob = scheduleJob(
+    `report-agent:${agent.id}:delivery`,
     schedule.deliveryCron,
     async () => {
       await triggerAgentDelivery(agent.id, agent.workspace_id);
     },
-    { timezone: 'UTC' }
+    { timezone: 'UTC', workspaceId: agent.workspace_id, catchUp: 'run_once', description: `Report delivery (${agent.report_type})` }
   );
 
   scheduledAgents.push({
@@ -1,4 +1,3 @@
-import cron from 'node-cron';
 import { query } from '../db.js';
 import { syncWorkspace } from './orchestrator.js';
 import { backfillHubSpotAssociations } from './backfill.js';
@@ -9,25 +8,31 @@ import { hardDeleteExpiredAgents } from '../jobs/cleanup-agents.js';
 import { cleanupExpiredRefreshTokens } from '../auth/cleanup.js';
 import { recalculateAllWorkspacesQuality } from '../jobs/recalculate-training-quality.js';
 import { syncGoogleCalendar } from '../connectors/google-calendar/adapter.js';
+import { syncMicrosoft365 } from '../connectors/microsoft-365/adapter.js';
 import { refreshBearingCalibrationAllWorkspaces } from '../jobs/refresh-bearing-calibration.js';
+import { purgeExpiredAuditEvents } from '../audit/audit-log.js';
+import { scheduleJob, sweepAbandonedRuns, pruneJobRuns, type ClusterJob } from '../scheduling/cluster-scheduler.js';
 
 const INTERNAL_CONNECTORS = ['enrichment_config', 'csv_import'];
 
 // Fixed-schedule connectors — only used for initial syncs or connectors that
 // don't use per-workspace sync_interval_minutes (monday, google-drive).
-// gong/fireflies initial syncs also fire here as fallback (dynamic heartbeat
+// call-recording initial syncs also fire here as fallback (dynamic heartbeat
 // handles subsequent incremental syncs respecting sync_interval_minutes).
 const SYNC_SCHEDULES: Array<{
+  key: string;
   label: string;
   cron: string;
   connectorTypes: string[];
 }> = [
   {
+    key: 'call-intelligence-fallback',
     label: 'Call Intelligence initial-sync fallback (every 12 hours)',
     cron: '0 */12 * * *',
-    connectorTypes: ['gong', 'fireflies'],
+    connectorTypes: ['gong', 'fireflies', 'zoom', 'chorus'],
   },
   {
+    key: 'task-docs',
     label: 'Task & Docs (daily at 3 AM UTC)',
     cron: '0 3 * * *',
     connectorTypes: ['monday', 'google-drive'],
@@ -36,15 +41,15 @@ const SYNC_SCHEDULES: Array<{
 
 // Connectors eligible for the 15-min dynamic heartbeat that respects per-workspace
 // sync_interval_minutes. CRM + call intelligence connectors all live here.
-const DYNAMIC_SYNC_CONNECTORS = ['hubspot', 'salesforce', 'gong', 'fireflies'];
+const DYNAMIC_SYNC_CONNECTORS = ['hubspot', 'salesforce', 'pipedrive', 'gong', 'fireflies', 'zoom', 'chorus'];
 
 export class SyncScheduler {
-  private tasks: cron.ScheduledTask[] = [];
+  private tasks: ClusterJob[] = [];
 
   start(): void {
     for (const schedule of SYNC_SCHEDULES) {
-      const task = cron.schedule(schedule.cron, () => {
-        this.runConnectorSync(schedule.connectorTypes, schedule.label).catch((err) => {
+      const task = scheduleJob(`sync:${schedule.key}`, schedule.cron, () => {
+        return this.runConnectorSync(schedule.connectorTypes, schedule.label).catch((err) => {
           console.error(`[Scheduler] Unhandled error in ${schedule.label} sync:`, err);
         });
       }, {
@@ -56,8 +61,8 @@ export class SyncScheduler {
     // CRM sync eligibility heartbeat — runs every 15 minutes.
     // Fires incremental syncs for connectors whose last_sync_at + sync_interval_minutes <= NOW().
     // The actual sync may fire up to 15 minutes after it becomes due (acceptable).
-    const crmHeartbeat = cron.schedule('*/15 * * * *', () => {
-      this.checkSyncEligibility().catch((err) => {
+    const crmHeartbeat = scheduleJob('sync:crm-heartbeat', '*/15 * * * *', () => {
+      return this.checkSyncEligibility().catch((err) => {
         console.error('[Scheduler] Unhandled error in CRM sync eligibility check:', err);
       });
     }, { timezone: 'UTC' });
@@ -65,40 +70,49 @@ export class SyncScheduler {
 
     // Google Calendar sync — runs every 15 minutes
     // Syncs events from 7 days back to 14 days forward, resolves attendees to deals
-    const calendarSyncTask = cron.schedule('*/15 * * * *', () => {
-      this.runCalendarSync().catch((err) => {
+    const calendarSyncTask = scheduleJob('sync:google-calendar', '*/15 * * * *', () => {
+      return this.runCalendarSync().catch((err) => {
         console.error('[Scheduler] Unhandled error in calendar sync:', err);
       });
     }, { timezone: 'UTC' });
     this.tasks.push(calendarSyncTask);
 
+    // Microsoft 365 sync — runs every 15 minutes
+    // Same calendar window as Google, plus opt-in email metadata
+    const microsoftSyncTask = scheduleJob('sync:microsoft-365', '*/15 * * * *', () => {
+      return this.runMicrosoft365Sync().catch((err) => {
+        console.error('[Scheduler] Unhandled error in Microsoft 365 sync:', err);
+      });
+    }, { timezone: 'UTC' });
+    this.tasks.push(microsoftSyncTask);
+
     // Consultant connector sync (every 6 hours)
-    const consultantTask = cron.schedule('0 */6 * * *', () => {
-      this.runConsultantSync().catch((err) => {
+    const consultantTask = scheduleJob('sync:consultant', '0 */6 * * *', () => {
+      return this.runConsultantSync().catch((err) => {
         console.error('[Scheduler] Unhandled error in consultant sync:', err);
       });
     }, { timezone: 'UTC' });
     this.tasks.push(consultantTask);
 
     // Agent cleanup (daily at 3:00 AM UTC)
-    const agentCleanupTask = cron.schedule('0 3 * * *', () => {
-      hardDeleteExpiredAgents().catch((err) => {
+    const agentCleanupTask = scheduleJob('cleanup:agents', '0 3 * * *', () => {
+      return hardDeleteExpiredAgents().catch((err) => {
         console.error('[Scheduler] Unhandled error in agent cleanup:', err);
       });
     }, { timezone: 'UTC' });
     this.tasks.push(agentCleanupTask);
 
     // Refresh token cleanup (daily at 3:00 AM UTC)
-    const refreshTokenCleanupTask = cron.schedule('0 3 * * *', () => {
-      cleanupExpiredRefreshTokens().catch((err) => {
+    const refreshTokenCleanupTask = scheduleJob('cleanup:refresh-tokens', '0 3 * * *', () => {
+      return cleanupExpiredRefreshTokens().catch((err) => {
         console.error('[Scheduler] Unhandled error in refresh token cleanup:', err);
       });
     }, { timezone: 'UTC' });
     this.tasks.push(refreshTokenCleanupTask);
 
     // Market signals batch scan (weekly on Monday at 6:00 AM UTC)
-    const marketSignalsTask = cron.schedule('0 6 * * 1', () => {
-      runMarketSignalsBatchScan().catch((err) => {
+    const marketSignalsTask = scheduleJob('market-signals:batch-scan', '0 6 * * 1', () => {
+      return runMarketSignalsBatchScan().catch((err) => {
         console.error('[Scheduler] Unhandled error in market signals batch scan:', err);
       });
     }, { timezone: 'UTC' });
@@ -107,8 +121,8 @@ export class SyncScheduler {
     // Forecast bearing calibration refresh (weekly on Monday at 6:05 AM UTC)
     // Runs after monte-carlo (6:00), before forecast-rollup (8:00).
     // Weights forecast triangulation bearings by workspace-specific historical accuracy.
-    const bearingCalibrationTask = cron.schedule('5 6 * * 1', () => {
-      refreshBearingCalibrationAllWorkspaces().catch((err) => {
+    const bearingCalibrationTask = scheduleJob('forecast:bearing-calibration', '5 6 * * 1', () => {
+      return refreshBearingCalibrationAllWorkspaces().catch((err) => {
         console.error('[Scheduler] Unhandled error in bearing calibration refresh:', err);
       });
     }, { timezone: 'UTC' });
@@ -117,7 +131,7 @@ export class SyncScheduler {
     // Webhook delivery log retention (daily at 3:00 AM UTC)
     // Removes rows older than 30 days from webhook_endpoint_deliveries.
     // At ~600 rows/scoring run daily, 30-day retention keeps the table under ~18k rows.
-    const webhookCleanupTask = cron.schedule('0 3 * * *', async () => {
+    const webhookCleanupTask = scheduleJob('cleanup:webhook-deliveries', '0 3 * * *', async () => {
       try {
         const result = await query(
           `DELETE FROM webhook_endpoint_deliveries WHERE delivered_at < NOW() - INTERVAL '30 days'`
@@ -129,16 +143,46 @@ export class SyncScheduler {
     }, { timezone: 'UTC' });
     this.tasks.push(webhookCleanupTask);
 
+    // Audit log retention (daily at 3:30 AM UTC)
+    // Deletes events older than each workspace's audit_retention_days (minimum 90).
+    const auditRetentionTask = scheduleJob('audit:retention', '30 3 * * *', async () => {
+      try {
+        const removed = await purgeExpiredAuditEvents();
+        console.log(`[Scheduler] Audit log retention: removed ${removed} expired events`);
+      } catch (err) {
+        console.error('[Scheduler] Audit log retention failed:', err);
+      }
+    }, { timezone: 'UTC' });
+    this.tasks.push(auditRetentionTask);
+
+    // Scheduler housekeeping (hourly): mark runs whose replica died as abandoned,
+    // and drop run history older than 30 days
+    sweepAbandonedRuns()
+      .then(count => { if (count > 0) console.log(`[Scheduler] Marked ${count} abandoned scheduled job run(s)`); })
+      .catch(err => console.error('[Scheduler] Abandoned run sweep failed:', err));
+    const schedulingHousekeepingTask = scheduleJob('scheduling:housekeeping', '45 * * * *', async () => {
+      try {
+        const abandoned = await sweepAbandonedRuns();
+        const pruned = await pruneJobRuns(30);
+        if (abandoned > 0 || pruned > 0) {
+          console.log(`[Scheduler] Scheduling housekeeping: ${abandoned} abandoned, ${pruned} old runs pruned`);
+        }
+      } catch (err) {
+        console.error('[Scheduler] Scheduling housekeeping failed:', err);
+      }
+    }, { timezone: 'UTC' });
+    this.tasks.push(schedulingHousekeepingTask);
+
     // Nightly training pair quality recalculation (daily at 2:00 AM UTC)
-    const qualityRecalcTask = cron.schedule('0 2 * * *', () => {
-      recalculateAllWorkspacesQuality().catch((err) => {
+    const qualityRecalcTask = scheduleJob('training:quality-recalc', '0 2 * * *', () => {
+      return recalculateAllWorkspacesQuality().catch((err) => {
         console.error('[Scheduler] Nightly quality recalculation failed:', err);
       });
     }, { timezone: 'UTC' });
     this.tasks.push(qualityRecalcTask);
 
     const scheduleDescriptions = SYNC_SCHEDULES.map(s => s.label).join(', ');
-    console.log(`[Scheduler] Sync schedules registered: ${scheduleDescriptions}, Dynamic heartbeat (${DYNAMIC_SYNC_CONNECTORS.join('/')} — respects sync_interval_minutes), Consultant (every 6 hours), Agent cleanup (daily at 3 AM), Refresh token cleanup (daily at 3 AM), Webhook delivery cleanup (daily at 3 AM), Market signals (weekly on Monday at 6 AM), Bearing calibration refresh (weekly on Monday at 6:05 AM)`);
+    console.log(`[Scheduler] Sync schedules registered: ${scheduleDescriptions}, Dynamic heartbeat (${DYNAMIC_SYNC_CONNECTORS.join('/')} — respects sync_interval_minutes), Consultant (every 6 hours), Agent cleanup (daily at 3 AM), Refresh token cleanup (daily at 3 AM), Webhook delivery cleanup (daily at 3 AM), Audit log retention (daily at 3:30 AM), Market signals (weekly on Monday at 6 AM), Bearing calibration refresh (weekly on Monday at 6:05 AM)`);
   }
 
   stop(): void {
@@ -351,6 +395,33 @@ export class SyncScheduler {
     }
   }
 
+  async runMicrosoft365Sync(): Promise<void> {
+    const workspacesResult = await query<{ workspace_id: string }>(
+      `SELECT workspace_id FROM connections
+       WHERE connector_name = 'microsoft-365' AND status != 'disconnected'`
+    );
+
+    if (workspacesResult.rows.length === 0) {
+      return;
+    }
+
+    console.log(`[Scheduler] Microsoft 365 sync: processing ${workspacesResult.rows.length} workspace(s)`);
+
+    for (const row of workspacesResult.rows) {
+      try {
+        const result = await syncMicrosoft365(row.workspace_id);
+        console.log(
+          `[Scheduler] Microsoft 365 sync (${row.workspace_id}): ${result.synced} events, ` +
+          `${result.resolved} resolved to deals, ${result.emails} emails (${result.emailsLinked} linked), ` +
+          `${result.errors.length} error(s)`
+        );
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(`[Scheduler] Microsoft 365 sync failed for ${row.workspace_id}: ${msg}`);
+      }
+    }
+  }
+
   async runDailySync(): Promise<void> {
     const allConnectorTypes = SYNC_SCHEDULES.flatMap(s => s.connectorTypes);
     await this.runConnectorSync(allConnectorTypes, 'Daily full sync');
@@ -5,7 +5,6 @@
  * Runs skills on schedule with staggered execution to avoid API rate limits.
  */
 
-import cron from 'node-cron';
 import { query } from '../db.js';
 import { getSkillRegistry } from '../skills/registry.js';
 import { getSkillRuntime } from '../skills/runtime.js';
@@ -18,19 +17,21 @@ import { getActiveScopes, DEFAULT_SCOPE, type ActiveScope } from '../config/scop
 import { registerCustomSkill } from '../skills/index.js';
 import { SCHEDULED_INVESTIGATIONS } from '../briefing/scheduled-investigations.js';
 import { getJobQueue } from '../jobs/queue.js';
+import { scheduleJob, type ClusterJob } from '../scheduling/cluster-scheduler.js';
+import { shouldRecordScheduledRun } from '../skills/run-recording.js';
 
 interface ScheduledSkill {
   skillId: string;
   cronExpression: string;
-  job: cron.ScheduledTask;
+  job: ClusterJob;
 }
 
 const scheduledSkills: ScheduledSkill[] = [];
 
-const customSkillCrons = new Map<string, cron.ScheduledTask>();
+const customSkillCrons = new Map<string, ClusterJob>();
 
 // Workspace-level cron overrides for built-in skills: key = `${workspaceId}::${skillId}`
-const workspaceCronJobs = new Map<string, cron.ScheduledTask>();
+const workspaceCronJobs = new Map<string, ClusterJob>();
 
 /**
  * Register (or replace) a workspace-specific cron job for a built-in skill.
@@ -49,7 +50,8 @@ export function updateWorkspaceSkillCron(
   }
   if (!cronExpr) return;
 
-  const task = cron.schedule(
+  const task = scheduleJob(
+    `workspace-skill:${workspaceId}:${skillId}`,
     cronExpr,
     async () => {
       console.log(`[WS Cron] Workspace ${workspaceId} skill ${skillId} triggered by custom schedule`);
@@ -60,7 +62,7 @@ export function updateWorkspaceSkillCron(
         console.error(`[WS Cron] Error running ${skillId} for workspace ${workspaceId}:`, err.message);
       }
     },
-    { timezone: 'UTC' }
+    { timezone: 'UTC', workspaceId, description: `Skill ${skillId} (workspace schedule)` }
   );
   workspaceCronJobs.set(key, task);
   console.log(`[WS Cron] Registered skill ${skillId} for workspace ${workspaceId} on "${cronExpr}"`);
@@ -93,7 +95,8 @@ export function registerCustomSkillCron(row: CustomSkillCronRow): void {
   if (!row.schedule_cron) return;
   unregisterCustomSkillCron(row.skill_id);
 
-  const task = cron.schedule(
+  const task = scheduleJob(
+    `custom-skill:${row.skill_id}`,
     row.schedule_cron,
     async () => {
       console.log(`[Custom Skill Scheduler] Cron triggered for "${row.name}" (${row.skill_id})`);
@@ -104,7 +107,7 @@ export function registerCustomSkillCron(row: CustomSkillCronRow): void {
         console.error(`[Custom Skill Scheduler] Error running ${row.skill_id}:`, err.message);
       }
     },
-    { timezone: 'UTC' }
+    { timezone: 'UTC', workspaceId: row.workspace_id, description: `Custom skill "${row.name}"` }
   );
 
   customSkillCrons.set(row.skill_id, task);
@@ -211,7 +214,8 @@ async function executeSkill(
       : { scopeId: 'default', scopeName: 'All Deals' };
 
     const runtime = getSkillRuntime();
-    const result = await runtime.executeSkill(skill, workspaceId, scopeParams);
+    const record = await shouldRecordScheduledRun(workspaceId, skill.id);
+    const result = await runtime.executeSkill(skill, workspaceId, scopeParams, undefined, undefined, { record });
 
     // Log to database with trigger type and scope metadata
     await query(
@@ -431,7 +435,8 @@ export function startSkillScheduler(): void {
 
   // Create cron jobs for each unique schedule
   for (const [cronExpression, skillIds] of cronGroups.entries()) {
-    const job = cron.schedule(
+    const job = scheduleJob(
+      `skills:${skillIds.join(',')}`,
       cronExpression,
       async () => {
         console.log(`[Skill Scheduler] Cron triggered: ${cronExpression} (${skillIds.length} skills)`);
@@ -509,7 +514,8 @@ export function startSkillScheduler(): void {
     const agentId = agent.id;
     const agentCron = agent.trigger.cron;
 
-    const agentJob = cron.schedule(
+    const agentJob = scheduleJob(
+      `agent:${agentId}`,
       agentCron,
       async () => {
         console.log(`[Agent Scheduler] Cron triggered for agent: ${agentId}`);
@@ -564,7 +570,8 @@ export function startSkillScheduler(): void {
   }
 
   // Account enrichment cron: Sunday 2am UTC — full enrichment + scoring batch
-  const enrichmentJob = cron.schedule(
+  const enrichmentJob = scheduleJob(
+    'account-enrichment-batch',
     '0 2 * * 0',
     async () => {
       console.log('[Account Enrichment Scheduler] Sunday 2am cron triggered');
@@ -595,7 +602,7 @@ export function startSkillScheduler(): void {
   console.log('[Account Enrichment Scheduler] Registered account enrichment on cron 0 2 * * 0 (Sunday 2am UTC)');
 
   // Conversation enrichment — Sunday 22:00 UTC (before Monday skill runs)
-  const convEnrichmentJob = cron.schedule('0 22 * * 0', async () => {
+  const convEnrichmentJob = scheduleJob('conversation-enrichment-weekly', '0 22 * * 0', async () => {
     console.log('[ConversationEnrichment] Sunday 10pm cron triggered');
     const { runConversationEnrichmentJob } = await import('../jobs/conversation-enrichment-job.js');
     const workspacesRes = await query<{ id: string; name: string }>(
@@ -619,7 +626,7 @@ export function startSkillScheduler(): void {
 
   // Stage conversation tagger — Sunday 21:00 UTC (1 hour before enrichment)
   // Pre-labels conversations as progressor/staller so quarterly Stage Progression reads clean pools
-  const stageTaggerJob = cron.schedule('0 21 * * 0', async () => {
+  const stageTaggerJob = scheduleJob('stage-conversation-tagger-weekly', '0 21 * * 0', async () => {
     console.log('[StageConversationTagger] Sunday 9pm cron triggered');
     const { runStageConversationTagger } = await import('../jobs/stage-conversation-tagger.js');
     const workspacesRes = await query<{ id: string; name: string }>(
@@ -642,7 +649,8 @@ export function startSkillScheduler(): void {
   console.log('[StageConversationTagger] Registered weekly tagging on cron 0 21 * * 0 (Sunday 9pm UTC)');
 
   // Account scoring cron: daily 3am UTC — re-score already-enriched accounts
-  const scoringJob = cron.schedule(
+  const scoringJob = scheduleJob(
+    'account-scoring-daily',
     '0 3 * * *',
     async () => {
       console.log('[Account Scoring Scheduler] Daily 3am cron triggered');
@@ -679,7 +687,8 @@ export function startSkillScheduler(): void {
   console.log('[Account Scoring Scheduler] Registered daily scoring on cron 0 3 * * * (daily 3am UTC)');
 
   // Brief assembly cron: daily 7am UTC — assemble context-aware briefs for all active workspaces
-  const briefJob = cron.schedule(
+  const briefJob = scheduleJob(
+    'brief-daily',
     '0 7 * * *',
     async () => {
       console.log('[BriefScheduler] Daily 7am brief assembly triggered');
@@ -714,7 +723,8 @@ export function startSkillScheduler(): void {
   console.log('[BriefScheduler] Registered daily brief assembly on cron 0 7 * * * (7am UTC)');
 
   // Voice Pattern Extraction: monthly on 1st at 6 AM UTC
-  const voiceExtractionJob = cron.schedule(
+  const voiceExtractionJob = scheduleJob(
+    'voice-pattern-extraction',
     '0 6 1 * *',
     async () => {
       console.log('[VoicePatterns] Monthly extraction triggered (1st of month, 6am UTC)');
@@ -747,7 +757,8 @@ export function startSkillScheduler(): void {
   // Quarterly Pre-Mortem: first day of each quarter at 8:00 AM UTC (Jan 1, Apr 1, Jul 1, Oct 1)
   // Reads prior Monday skill outputs, identifies failure modes, and writes standing hypotheses.
   // Also triggerable on-demand via the skill runner.
-  const quarterlyPreMortemJob = cron.schedule(
+  const quarterlyPreMortemJob = scheduleJob(
+    'quarterly-pre-mortem',
     '0 8 1 1,4,7,10 *',
     async () => {
       console.log('[QuarterlyPreMortem] Quarter-start pre-mortem triggered');
@@ -782,7 +793,8 @@ export function startSkillScheduler(): void {
 
   // Concierge Slack push: daily 8:15 AM UTC
   // Offset 15 min from pipeline-hygiene (8:00 AM) to avoid queue pressure.
-  const conciergePushJob = cron.schedule(
+  const conciergePushJob = scheduleJob(
+    'concierge-slack-push',
     '15 8 * * *',
     async () => {
       console.log('[Concierge push] Starting daily brief send');
@@ -812,13 +824,16 @@ export function startSkillScheduler(): void {
   console.log('[Concierge push] Cron registered — 8:15 AM UTC daily');
 
   // Weekly digest cron: Monday 9am UTC — investigation summary email/Slack
-  const digestJob = cron.schedule(
+  const digestJob = scheduleJob(
+    'investigation-digest-weekly',
     '0 9 * * 1',
     async () => {
       console.log('[InvestigationDigest] Monday 9am weekly digest triggered');
       const { generateWeeklyDigest } = await import('../briefing/investigation-digest.js');
       const { formatDigestEmail } = await import('../briefing/digest-email-formatter.js');
       const { formatDigestSlack } = await import('../briefing/digest-slack-formatter.js');
+      const { formatDigestTeams } = await import('../briefing/digest-teams-formatter.js');
+      const { postCardToTeams } = await import('../connectors/teams/client.js');
       const { Resend } = await import('resend');
       const { WebClient } = await import('@slack/web-api');
 
@@ -837,9 +852,10 @@ export function startSkillScheduler(): void {
           const subResult = await query<{
             email_recipients: string[];
             slack_channel_id: string | null;
+            teams_webhook_url: string | null;
             enabled: boolean;
           }>(
-            `SELECT email_recipients, slack_channel_id, enabled
+            `SELECT email_recipients, slack_channel_id, teams_webhook_url, enabled
              FROM investigation_digest_subscriptions
              WHERE workspace_id = $1`,
             [workspace.id]
@@ -853,8 +869,9 @@ export function startSkillScheduler(): void {
           const subscription = subResult.rows[0];
           const hasEmailRecipients = subscription.email_recipients && subscription.email_recipients.length > 0;
           const hasSlackChannel = !!subscription.slack_channel_id;
+          const hasTeamsWebhook = !!subscription.teams_webhook_url;
 
-          if (!hasEmailRecipients && !hasSlackChannel) {
+          if (!hasEmailRecipients && !hasSlackChannel && !hasTeamsWebhook) {
             console.log(`[InvestigationDigest] Skipping ${workspace.name} — no recipients configured`);
             continue;
           }
@@ -930,6 +947,18 @@ export function startSkillScheduler(): void {
             }
           }
 
+          // Send to Microsoft Teams
+          if (hasTeamsWebhook) {
+            try {
+              await postCardToTeams(subscription.teams_webhook_url!, formatDigestTeams(digest));
+              deliveryStatus.teams = 'sent';
+              console.log(`[InvestigationDigest] ✓ Teams card sent for ${workspace.name}`);
+            } catch (teamsErr: any) {
+              deliveryStatus.teams = 'failed';
+              console.error(`[InvestigationDigest] ✗ Teams failed for ${workspace.name}:`, teamsErr.message);
+            }
+          }
+
           // Update last_sent_at
           await query(
             `UPDATE investigation_digest_subscriptions
@@ -972,7 +1001,8 @@ export function startSkillScheduler(): void {
   console.log('[InvestigationDigest] Registered weekly digest on cron 0 9 * * 1 (Monday 9am UTC)');
 
   // Weekly sprint assembly: Monday 8:30am UTC — after all Monday skill runs finish
-  const sprintAssemblyJob = cron.schedule(
+  const sprintAssemblyJob = scheduleJob(
+    'sprint-assembly-weekly',
     '30 8 * * 1',
     async () => {
       console.log('[SprintAssembly] Monday 8:30am UTC — assembling sprint for all workspaces');
@@ -1002,7 +1032,8 @@ export function startSkillScheduler(): void {
   const jobQueue = getJobQueue();
 
   for (const investigation of SCHEDULED_INVESTIGATIONS) {
-    const investigationJob = cron.schedule(
+    const investigationJob = scheduleJob(
+      `investigation:${investigation.skillId}`,
       investigation.cronExpression,
       async () => {
         console.log(`[Scheduled Investigations] Running: ${investigation.name}`);
@@ -1074,7 +1105,7 @@ export function startSkillScheduler(): void {
 // ── Account enrichment & scoring cron jobs ────────────────────────────────
 
 // Sunday 2am UTC — refresh stale account enrichments
-cron.schedule('0 2 * * 0', async () => {
+scheduleJob('account-enrichment-refresh-weekly', '0 2 * * 0', async () => {
   console.log('[Skill Scheduler] Running weekly account enrichment batch');
   try {
     const workspacesResult = await query<{ id: string }>(
@@ -1095,7 +1126,7 @@ cron.schedule('0 2 * * 0', async () => {
 }, { timezone: 'UTC' });
 
 // Daily 3am UTC — refresh scores for accounts with open deals
-cron.schedule('0 3 * * *', async () => {
+scheduleJob('account-scoring-refresh-daily', '0 3 * * *', async () => {
   console.log('[Skill Scheduler] Running daily account scoring pass');
   try {
     const workspacesResult = await query<{ id: string }>(
@@ -1116,7 +1147,7 @@ cron.schedule('0 3 * * *', async () => {
 }, { timezone: 'UTC' });
 
 // Deal score snapshot cron: Sundays 11pm UTC
-const snapshotJob = cron.schedule('0 23 * * 0', async () => {
+const snapshotJob = scheduleJob('deal-score-snapshot-weekly', '0 23 * * 0', async () => {
   console.log('[DealScoreSnapshot] Weekly snapshot cron triggered');
   const workspaces = await query<{ id: string; name: string }>(
     `SELECT DISTINCT w.id, w.name FROM workspaces w
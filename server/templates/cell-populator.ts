@@ -589,7 +589,7 @@ async function synthesizeCell(
     const systemPrompt = buildSynthesisSystemPrompt(context.voiceConfig);
 
     // Call Claude for this cell
-    const client = new ClaudeClient({ model: 'claude-sonnet-4-5' });
+    const client = new ClaudeClient({ workspaceId: context.workspaceId });
     const response = await client.call(systemPrompt, prompt, {
       maxTokens: SYNTHESIS_MAX_TOKENS,
       temperature: 0.2,  // Low temperature for consistency across cells
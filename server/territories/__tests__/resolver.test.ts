@@ -0,0 +1,97 @@
+/**
+ * Tests for territory rule resolution and rebalance summaries
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { buildTerritoryTree, employeeBand, resolveTerritory, validateTerritoryRules } from '../resolver.js';
+import { summarizeMap } from '../rebalance.js';
+import type { TerritoryAccount } from '../types.js';
+
+function account(overrides: Partial<TerritoryAccount>): TerritoryAccount {
+  return {
+    id: 'a1',
+    name: 'Acme',
+    domain: 'acme.com',
+    industry: null,
+    employee_count: null,
+    annual_revenue: null,
+    owner: null,
+    country: null,
+    state: null,
+    city: null,
+    custom_fields: {},
+    icp_score: null,
+    icp_grade: null,
+    ...overrides,
+  };
+}
+
+const tree = buildTerritoryTree([
+  { id: 'na', parent_id: null, name: 'North America', priority: 100,
+    rules: { conditions: [{ field: 'country', op: 'in', value: ['US', 'Canada'] }] } },
+  { id: 'na-ent', parent_id: 'na', name: 'NA Enterprise', priority: 10,
+    rules: { conditions: [{ field: 'employee_band', op: 'in', value: ['1001-5000', '5001+'] }] } },
+  { id: 'na-strategic', parent_id: 'na', name: 'NA Strategic', priority: 1,
+    rules: { conditions: [{ field: 'domain', op: 'in', value: ['bigco.com'] }] } },
+  { id: 'emea', parent_id: null, name: 'EMEA', priority: 100,
+    rules: { match: 'any', conditions: [
+      { field: 'country', op: 'in', value: ['UK', 'Germany'] },
+      { field: 'custom_fields.region', op: 'eq', value: 'emea' },
+    ] } },
+]);
+
+describe('resolveTerritory', () => {
+  it('resolves to the deepest matching territory, case-insensitively', () => {
+    expect(resolveTerritory(account({ country: 'us', employee_count: 2500 }), tree)?.id).toBe('na-ent');
+    expect(resolveTerritory(account({ country: 'US', employee_count: 40 }), tree)?.id).toBe('na');
+  });
+
+  it('checks siblings in priority order so named lists win over segment rules', () => {
+    const bigco = account({ country: 'US', domain: 'bigco.com', employee_count: 10000 });
+    expect(resolveTerritory(bigco, tree)?.id).toBe('na-strategic');
+  });
+
+  it('supports any-match rules over custom fields and leaves non-matching accounts unassigned', () => {
+    expect(resolveTerritory(account({ custom_fields: { region: 'EMEA' } }), tree)?.id).toBe('emea');
+    expect(resolveTerritory(account({ country: 'Japan' }), tree)).toBeNull();
+  });
+
+  it('bands employee counts and validates rule shapes', () => {
+    expect(employeeBand(50)).toBe('1-50');
+    expect(employeeBand(5001)).toBe('5001+');
+    expect(validateTerritoryRules({ conditions: [{ field: 'country', op: 'in', value: 'US' }] }).valid).toBe(false);
+    expect(validateTerritoryRules({ conditions: [{ field: 'annual_revenue', op: 'between', value: [0, 1e6] }] }).valid).toBe(true);
+  });
+});
+
+describe('summarizeMap', () => {
+  it('distributes pipeline and ICP fit, and counts moved accounts', () => {
+    const accounts = [
+      account({ id: 'a1', icp_score: 90, icp_grade: 'A' }),
+      account({ id: 'a2', icp_score: 50, icp_grade: 'C' }),
+      account({ id: 'a3', icp_score: 80, icp_grade: 'B' }),
+      account({ id: 'a4' }),
+    ];
+    const pipeline = new Map([
+      ['a1', { open_deals: 2, pipeline: 300 }],
+      ['a2', { open_deals: 1, pipeline: 100 }],
+      ['a3', { open_deals: 1, pipeline: 100 }],
+      ['a4', { open_deals: 1, pipeline: 500 }],
+    ]);
+    const assignment = new Map<string, string | null>([['a1', 'East'], ['a2', 'East'], ['a3', 'West'], ['a4', null]]);
+    const baseline = new Map<string, string | null>([['a1', 'East'], ['a2', 'West'], ['a3', 'West'], ['a4', null]]);
+
+    const summary = summarizeMap('proposal', ['East', 'West', 'Empty'], new Map([['East', ['Dana']]]), accounts, assignment, pipeline, baseline);
+    const east = summary.territories.find(t => t.territory === 'East')!;
+
+    expect(east).toMatchObject({ reps: ['Dana'], accounts: 2, open_deals: 3, pipeline: 400, pipeline_share: 0.4, avg_icp_score: 70, high_fit_accounts: 1 });
+    expect(summary.unassigned).toEqual({ accounts: 1, pipeline: 500 });
+    expect(summary.accounts_moved).toBe(1);
+    // Empty territory is excluded from the balance measures
+    expect(summary.balance.pipeline_max_min_ratio).toBe(4);
+    expect(summary.balance.pipeline_cv).toBe(0.6);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Territory What-If Rebalance
+ * Compares the live territory map with proposed maps: how open pipeline and
+ * ICP fit would be distributed, how even the split is, and how many accounts
+ * would move. Nothing is persisted.
+ */
+
+import { query } from '../db.js';
+import { buildTerritoryTree, resolveTerritory, validateTerritoryRules } from './resolver.js';
+import { TerritoryValidationError, loadTerritoryAccounts } from './territory-service.js';
+import type { TerritoryAccount, TerritoryRules } from './types.js';
+
+const HIGH_FIT_GRADES = ['A', 'B'];
+
+export interface ProposedTerritory {
+  key: string;
+  parent_key?: string | null;
+  name: string;
+  rules?: TerritoryRules;
+  priority?: number;
+  reps?: string[];
+}
+
+export interface ProposedMap {
+  name: string;
+  territories: ProposedTerritory[];
+}
+
+export interface TerritoryDistribution {
+  territory: string;
+  reps: string[];
+  accounts: number;
+  open_deals: number;
+  pipeline: number;
+  pipeline_share: number;
+  avg_icp_score: number | null;
+  high_fit_accounts: number;
+  icp_grades: Record<string, number>;
+}
+
+export interface MapSummary {
+  name: string;
+  territories: TerritoryDistribution[];
+  unassigned: { accounts: number; pipeline: number };
+  /** Computed over territories that received at least one account */
+  balance: {
+    /** Coefficient of variation of pipeline across territories (0 = perfectly even) */
+    pipeline_cv: number | null;
+    /** Largest territory pipeline over the smallest */
+    pipeline_max_min_ratio: number | null;
+    /** Coefficient of variation of high-fit account counts */
+    high_fit_cv: number | null;
+  };
+  /** Accounts whose territory (by name) differs from the current map */
+  accounts_moved: number;
+}
+
+export interface RebalanceComparison {
+  current: MapSummary;
+  proposals: MapSummary[];
+}
+
+export interface AccountPipeline {
+  open_deals: number;
+  pipeline: number;
+}
+
+function coefficientOfVariation(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  if (mean === 0) return null;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return Math.round((Math.sqrt(variance) / mean) * 1000) / 1000;
+}
+
+/**
+ * Summarize one map given each account's territory name (null = unassigned)
+ */
+export function summarizeMap(
+  name: string,
+  territoryNames: string[],
+  repsByTerritory: Map<string, string[]>,
+  accounts: TerritoryAccount[],
+  assignment: Map<string, string | null>,
+  pipelineByAccount: Map<string, AccountPipeline>,
+  baseline?: Map<string, string | null>
+): MapSummary {
+  const stats = new Map<string, TerritoryDistribution & { icpTotal: number; icpCount: number }>(
+    territoryNames.map(t => [t, {
+      territory: t,
+      reps: repsByTerritory.get(t) ?? [],
+      accounts: 0,
+      open_deals: 0,
+      pipeline: 0,
+      pipeline_share: 0,
+      avg_icp_score: null,
+      high_fit_accounts: 0,
+      icp_grades: {},
+      icpTotal: 0,
+      icpCount: 0,
+    }])
+  );
+  const unassigned = { accounts: 0, pipeline: 0 };
+  let moved = 0;
+  let totalPipeline = 0;
+
+  for (const account of accounts) {
+    const territory = assignment.get(account.id) ?? null;
+    const pipe = pipelineByAccount.get(account.id);
+    totalPipeline += pipe?.pipeline ?? 0;
+    if (baseline && (baseline.get(account.id) ?? null) !== territory) moved++;
+
+    const entry = territory ? stats.get(territory) : undefined;
+    if (!entry) {
+      unassigned.accounts++;
+      unassigned.pipeline += pipe?.pipeline ?? 0;
+      continue;
+    }
+
+    entry.accounts++;
+    entry.open_deals += pipe?.open_deals ?? 0;
+    entry.pipeline += pipe?.pipeline ?? 0;
+    if (account.icp_score !== null && account.icp_score !== undefined) {
+      entry.icpTotal += Number(account.icp_score);
+      entry.icpCount++;
+    }
+    if (account.icp_grade) {
+      entry.icp_grades[account.icp_grade] = (entry.icp_grades[account.icp_grade] ?? 0) + 1;
+      if (HIGH_FIT_GRADES.includes(account.icp_grade)) entry.high_fit_accounts++;
+    }
+  }
+
+  const territories: TerritoryDistribution[] = [...stats.values()].map(({ icpTotal, icpCount, ...t }) => ({
+    ...t,
+    pipeline: Math.round(t.pipeline),
+    pipeline_share: totalPipeline > 0 ? Math.round((t.pipeline / totalPipeline) * 1000) / 1000 : 0,
+    avg_icp_score: icpCount > 0 ? Math.round(icpTotal / icpCount) : null,
+  }));
+
+  // Parents that only route accounts to children would read as empty territories
+  const populated = territories.filter(t => t.accounts > 0);
+  const pipelines = populated.map(t => t.pipeline);
+  const minPipeline = Math.min(...pipelines);
+  return {
+    name,
+    territories,
+    unassigned: { accounts: unassigned.accounts, pipeline: Math.round(unassigned.pipeline) },
+    balance: {
+      pipeline_cv: coefficientOfVariation(pipelines),
+      pipeline_max_min_ratio: pipelines.length > 1 && minPipeline > 0
+        ? Math.round((Math.max(...pipelines) / minPipeline) * 100) / 100
+        : null,
+      high_fit_cv: coefficientOfVariation(populated.map(t => t.high_fit_accounts)),
+    },
+    accounts_moved: moved,
+  };
+}
+
+export function validateProposedMap(map: ProposedMap): void {
+  if (!map?.name || !Array.isArray(map.territories) || map.territories.length === 0) {
+    throw new TerritoryValidationError('Each proposed map needs a name and territories');
+  }
+  const keys = new Set<string>();
+  for (const t of map.territories) {
+    if (!t.key || !t.name) throw new TerritoryValidationError(`Map "${map.name}": each territory needs key and name`);
+    if (keys.has(t.key)) throw new TerritoryValidationError(`Map "${map.name}": duplicate territory key "${t.key}"`);
+    keys.add(t.key);
+    const validation = validateTerritoryRules(t.rules);
+    if (!validation.valid) throw new TerritoryValidationError(`Map "${map.name}", territory "${t.name}": ${validation.error}`);
+  }
+  for (const t of map.territories) {
+    if (t.parent_key && !keys.has(t.parent_key)) {
+      throw new TerritoryValidationError(`Map "${map.name}": unknown parent_key "${t.parent_key}"`);
+    }
+  }
+}
+
+/**
+ * Compare the current map with proposed maps across all workspace accounts.
+ * Accounts are attributed to the deepest (leaf-most) matching territory.
+ */
+export async function compareTerritoryMaps(workspaceId: string, maps: ProposedMap[]): Promise<RebalanceComparison> {
+  maps.forEach(validateProposedMap);
+
+  const [accounts, currentResult, territoriesResult, repsResult, pipelineResult] = await Promise.all([
+    loadTerritoryAccounts(workspaceId),
+    query<{ account_id: string; territory_name: string | null }>(
+      `SELECT at.account_id, t.name AS territory_name
+       FROM account_territories at
+       LEFT JOIN territories t ON t.id = at.territory_id AND t.is_active = true
+       WHERE at.workspace_id = $1`,
+      [workspaceId]
+    ),
+    query<{ name: string }>(
+      `SELECT name FROM territories WHERE workspace_id = $1 AND is_active = true ORDER BY priority, name`,
+      [workspaceId]
+    ),
+    query<{ name: string; rep_name: string }>(
+      `SELECT t.name, tr.rep_name
+       FROM territory_reps tr JOIN territories t ON t.id = tr.territory_id
+       WHERE t.workspace_id = $1`,
+      [workspaceId]
+    ),
+    query<{ account_id: string; open_deals: number; pipeline: string }>(
+      `SELECT account_id, COUNT(*)::integer AS open_deals, COALESCE(SUM(amount), 0) AS pipeline
+       FROM deals
+       WHERE workspace_id = $1
+         AND account_id IS NOT NULL
+         AND stage_normalized NOT IN ('closed_won', 'closed_lost')
+       GROUP BY account_id`,
+      [workspaceId]
+    ),
+  ]);
+
+  const pipelineByAccount = new Map(pipelineResult.rows.map(r => [r.account_id, {
+    open_deals: r.open_deals,
+    pipeline: parseFloat(r.pipeline) || 0,
+  }]));
+
+  const currentReps = new Map<string, string[]>();
+  for (const r of repsResult.rows) {
+    currentReps.set(r.name, [...(currentReps.get(r.name) ?? []), r.rep_name]);
+  }
+
+  const currentAssignment = new Map(currentResult.rows.map(r => [r.account_id, r.territory_name]));
+  const current = summarizeMap(
+    'current',
+    [...new Set(territoriesResult.rows.map(r => r.name))],
+    currentReps,
+    accounts,
+    currentAssignment,
+    pipelineByAccount
+  );
+
+  const proposals = maps.map(map => {
+    const tree = buildTerritoryTree(map.territories.map(t => ({
+      id: t.key,
+      parent_id: t.parent_key ?? null,
+      name: t.name,
+      rules: t.rules || {},
+      priority: t.priority ?? 100,
+    })));
+    const assignment = new Map(accounts.map(a => [a.id, resolveTerritory(a, tree)?.name ?? null]));
+    const reps = new Map(map.territories.map(t => [t.name, t.reps ?? []]));
+
+    return summarizeMap(
+      map.name,
+      [...new Set(map.territories.map(t => t.name))],
+      reps,
+      accounts,
+      assignment,
+      pipelineByAccount,
+      currentAssignment
+    );
+  });
+
+  return { current, proposals };
+}
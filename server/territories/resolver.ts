@@ -0,0 +1,154 @@
+/**
+ * Territory Resolver
+ * Pure rule evaluation: builds territory trees and resolves an account to the
+ * deepest territory whose rules it satisfies
+ */
+
+import type {
+  TerritoryAccount,
+  TerritoryCondition,
+  TerritoryNode,
+  TerritoryRules,
+} from './types.js';
+
+const VALID_OPS = ['eq', 'neq', 'in', 'not_in', 'contains', 'gte', 'lte', 'between', 'is_null', 'not_null'];
+
+const EMPLOYEE_BANDS: Array<[number, string]> = [
+  [50, '1-50'],
+  [200, '51-200'],
+  [1000, '201-1000'],
+  [5000, '1001-5000'],
+];
+
+export function employeeBand(employeeCount: number | null): string | null {
+  if (employeeCount === null || employeeCount === undefined) return null;
+  for (const [max, band] of EMPLOYEE_BANDS) {
+    if (employeeCount <= max) return band;
+  }
+  return '5001+';
+}
+
+/**
+ * Build a forest from flat rows; siblings sorted by priority, then name
+ */
+export function buildTerritoryTree(
+  rows: Array<Pick<TerritoryNode, 'id' | 'parent_id' | 'name' | 'rules' | 'priority'>>
+): TerritoryNode[] {
+  const nodes = new Map<string, TerritoryNode>(
+    rows.map(r => [r.id, { id: r.id, parent_id: r.parent_id, name: r.name, rules: r.rules || {}, priority: r.priority ?? 100, children: [] }])
+  );
+
+  const roots: TerritoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sort = (list: TerritoryNode[]) => {
+    list.sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+    list.forEach(n => sort(n.children));
+  };
+  sort(roots);
+  return roots;
+}
+
+/**
+ * Resolve an account to the deepest matching territory, or null
+ */
+export function resolveTerritory(account: TerritoryAccount, roots: TerritoryNode[]): TerritoryNode | null {
+  for (const node of roots) {
+    if (!matchesRules(account, node.rules)) continue;
+    return resolveTerritory(account, node.children) ?? node;
+  }
+  return null;
+}
+
+export function matchesRules(account: TerritoryAccount, rules: TerritoryRules): boolean {
+  const conditions = rules?.conditions || [];
+  if (conditions.length === 0) return true;
+  return rules.match === 'any'
+    ? conditions.some(c => matchesCondition(account, c))
+    : conditions.every(c => matchesCondition(account, c));
+}
+
+function accountField(account: TerritoryAccount, field: string): any {
+  if (field.startsWith('custom_fields.')) {
+    return account.custom_fields?.[field.slice('custom_fields.'.length)] ?? null;
+  }
+  switch (field) {
+    case 'account_id': return account.id;
+    case 'employee_band': return employeeBand(account.employee_count);
+    default: return (account as unknown as Record<string, any>)[field] ?? null;
+  }
+}
+
+function normalize(value: any): any {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+function matchesCondition(account: TerritoryAccount, condition: TerritoryCondition): boolean {
+  const raw = accountField(account, condition.field);
+  const value = normalize(raw);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'is_null':
+      return raw === null || raw === '';
+    case 'not_null':
+      return raw !== null && raw !== '';
+    case 'eq':
+      return value !== null && value === normalize(expected);
+    case 'neq':
+      return value !== normalize(expected);
+    case 'in':
+      return value !== null && Array.isArray(expected) && expected.map(normalize).includes(value);
+    case 'not_in':
+      return !Array.isArray(expected) || !expected.map(normalize).includes(value);
+    case 'contains':
+      return typeof value === 'string' && value.includes(String(normalize(expected)));
+    case 'gte':
+      return raw !== null && Number(raw) >= Number(expected);
+    case 'lte':
+      return raw !== null && Number(raw) <= Number(expected);
+    case 'between': {
+      if (raw === null || !Array.isArray(expected)) return false;
+      const n = Number(raw);
+      const [min, max] = expected;
+      return (min === null || n >= Number(min)) && (max === null || n <= Number(max));
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validate a territory rule set
+ */
+export function validateTerritoryRules(rules: TerritoryRules | undefined): { valid: boolean; error?: string } {
+  if (!rules) return { valid: true };
+  if (rules.match !== undefined && rules.match !== 'all' && rules.match !== 'any') {
+    return { valid: false, error: '"match" must be "all" or "any"' };
+  }
+  if (rules.conditions === undefined) return { valid: true };
+  if (!Array.isArray(rules.conditions)) {
+    return { valid: false, error: '"conditions" must be an array' };
+  }
+
+  for (const condition of rules.conditions) {
+    if (!condition?.field || typeof condition.field !== 'string') {
+      return { valid: false, error: 'Condition must have "field"' };
+    }
+    if (!VALID_OPS.includes(condition.op)) {
+      return { valid: false, error: `Invalid operator: ${condition.op}` };
+    }
+    if ((condition.op === 'in' || condition.op === 'not_in') && !Array.isArray(condition.value)) {
+      return { valid: false, error: `"${condition.op}" needs an array value` };
+    }
+    if (condition.op === 'between' && (!Array.isArray(condition.value) || condition.value.length !== 2)) {
+      return { valid: false, error: '"between" needs a [min, max] value' };
+    }
+  }
+
+  return { valid: true };
+}
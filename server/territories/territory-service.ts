@@ -0,0 +1,324 @@
+/**
+ * Territory Service
+ * CRUD for territories, rep and quota assignment, and account-to-territory
+ * resolution (run after every CRM sync)
+ */
+
+import { query } from '../db.js';
+import { buildTerritoryTree, resolveTerritory, validateTerritoryRules } from './resolver.js';
+import type {
+  CreateTerritoryInput,
+  Territory,
+  TerritoryAccount,
+  TerritoryNode,
+  TerritoryRep,
+  UpdateTerritoryInput,
+} from './types.js';
+
+export class TerritoryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TerritoryValidationError';
+  }
+}
+
+export async function listTerritories(workspaceId: string): Promise<Array<Territory & {
+  reps: Array<Pick<TerritoryRep, 'rep_name' | 'role'>>;
+  account_count: number;
+}>> {
+  const [territories, reps, counts] = await Promise.all([
+    query<Territory>(
+      `SELECT * FROM territories WHERE workspace_id = $1 ORDER BY priority, name`,
+      [workspaceId]
+    ),
+    query<TerritoryRep>(
+      `SELECT tr.territory_id, tr.rep_name, tr.role
+       FROM territory_reps tr
+       JOIN territories t ON t.id = tr.territory_id
+       WHERE t.workspace_id = $1
+       ORDER BY tr.role, tr.rep_name`,
+      [workspaceId]
+    ),
+    query<{ territory_id: string; n: number }>(
+      `SELECT territory_id, COUNT(*)::integer AS n
+       FROM account_territories
+       WHERE workspace_id = $1 AND territory_id IS NOT NULL
+       GROUP BY territory_id`,
+      [workspaceId]
+    ),
+  ]);
+
+  const countMap = new Map(counts.rows.map(r => [r.territory_id, r.n]));
+  return territories.rows.map(t => ({
+    ...t,
+    reps: reps.rows.filter(r => r.territory_id === t.id).map(r => ({ rep_name: r.rep_name, role: r.role })),
+    account_count: countMap.get(t.id) ?? 0,
+  }));
+}
+
+export async function getTerritory(workspaceId: string, territoryId: string): Promise<Territory | null> {
+  const result = await query<Territory>(
+    `SELECT * FROM territories WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, territoryId]
+  );
+  return result.rows[0] ?? null;
+}
+
+async function assertValidParent(workspaceId: string, territoryId: string | null, parentId: string): Promise<void> {
+  const result = await query<{ id: string; parent_id: string | null }>(
+    `SELECT id, parent_id FROM territories WHERE workspace_id = $1`,
+    [workspaceId]
+  );
+  const parents = new Map(result.rows.map(r => [r.id, r.parent_id]));
+  if (!parents.has(parentId)) {
+    throw new TerritoryValidationError('Parent territory not found');
+  }
+
+  // Walk up from the new parent; reaching the territory itself means a cycle
+  let cursor: string | null = parentId;
+  while (cursor) {
+    if (cursor === territoryId) {
+      throw new TerritoryValidationError('A territory cannot be nested under itself or its descendants');
+    }
+    cursor = parents.get(cursor) ?? null;
+  }
+}
+
+export async function createTerritory(workspaceId: string, input: CreateTerritoryInput): Promise<Territory> {
+  if (!input.name?.trim()) throw new TerritoryValidationError('name is required');
+  const validation = validateTerritoryRules(input.rules);
+  if (!validation.valid) throw new TerritoryValidationError(`Invalid rules: ${validation.error}`);
+  if (input.parent_id) await assertValidParent(workspaceId, null, input.parent_id);
+
+  const result = await query<Territory>(
+    `INSERT INTO territories (workspace_id, parent_id, name, description, rules, priority)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      workspaceId,
+      input.parent_id || null,
+      input.name.trim(),
+      input.description || null,
+      input.rules || {},
+      input.priority ?? 100,
+    ]
+  );
+  return result.rows[0];
+}
+
+export async function updateTerritory(
+  workspaceId: string,
+  territoryId: string,
+  input: UpdateTerritoryInput
+): Promise<Territory | null> {
+  if (input.rules !== undefined) {
+    const validation = validateTerritoryRules(input.rules);
+    if (!validation.valid) throw new TerritoryValidationError(`Invalid rules: ${validation.error}`);
+  }
+  if (input.parent_id) await assertValidParent(workspaceId, territoryId, input.parent_id);
+
+  const allowed: Array<keyof UpdateTerritoryInput> = ['name', 'description', 'parent_id', 'rules', 'priority', 'is_active'];
+  const sets: string[] = [];
+  const values: any[] = [];
+  for (const key of allowed) {
+    if (input[key] === undefined) continue;
+    values.push(input[key]);
+    sets.push(`${key} = $${values.length}`);
+  }
+  if (sets.length === 0) return getTerritory(workspaceId, territoryId);
+
+  values.push(workspaceId, territoryId);
+  const result = await query<Territory>(
+    `UPDATE territories
+     SET ${sets.join(', ')}, updated_at = NOW()
+     WHERE workspace_id = $${values.length - 1} AND id = $${values.length}
+     RETURNING *`,
+    values
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Delete a territory and its subtree. Accounts in it fall back to rule resolution.
+ */
+export async function deleteTerritory(workspaceId: string, territoryId: string): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM territories WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, territoryId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function setTerritoryReps(
+  territoryId: string,
+  reps: Array<{ rep_name: string; role?: 'owner' | 'overlay' }>
+): Promise<void> {
+  await query(`DELETE FROM territory_reps WHERE territory_id = $1`, [territoryId]);
+  for (const rep of reps) {
+    await query(
+      `INSERT INTO territory_reps (territory_id, rep_name, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (territory_id, rep_name) DO UPDATE SET role = EXCLUDED.role`,
+      [territoryId, rep.rep_name, rep.role === 'overlay' ? 'overlay' : 'owner']
+    );
+  }
+}
+
+export async function setTerritoryQuota(
+  workspaceId: string,
+  territoryId: string,
+  periodId: string,
+  quotaAmount: number
+): Promise<void> {
+  const period = await query(
+    `SELECT id FROM quota_periods WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, periodId]
+  );
+  if (period.rows.length === 0) throw new TerritoryValidationError('Quota period not found');
+
+  await query(
+    `INSERT INTO territory_quotas (territory_id, period_id, quota_amount)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (territory_id, period_id) DO UPDATE SET quota_amount = EXCLUDED.quota_amount, updated_at = NOW()`,
+    [territoryId, periodId, quotaAmount]
+  );
+}
+
+/**
+ * Load accounts with the attributes territory rules can reference. Geography
+ * comes from the CRM record (HubSpot company / Salesforce billing address),
+ * falling back to enrichment.
+ */
+export async function loadTerritoryAccounts(workspaceId: string, accountIds?: string[]): Promise<TerritoryAccount[]> {
+  const params: any[] = [workspaceId];
+  let idFilter = '';
+  if (accountIds) {
+    params.push(accountIds);
+    idFilter = `AND a.id = ANY($2)`;
+  }
+
+  const result = await query<TerritoryAccount>(
+    `SELECT a.id, a.name, a.domain, a.industry, a.employee_count, a.annual_revenue::float AS annual_revenue,
+            a.owner, a.custom_fields,
+            COALESCE(a.source_data->'properties'->>'country', a.source_data->>'BillingCountry', ea.hq_country) AS country,
+            COALESCE(a.source_data->'properties'->>'state', a.source_data->>'BillingState', ea.hq_state) AS state,
+            COALESCE(a.source_data->'properties'->>'city', a.source_data->>'BillingCity', ea.hq_city) AS city,
+            s.total_score AS icp_score,
+            s.grade AS icp_grade
+     FROM accounts a
+     LEFT JOIN LATERAL (
+       SELECT e.hq_country, e.hq_state, e.hq_city
+       FROM enriched_accounts e
+       WHERE e.workspace_id = a.workspace_id AND e.crm_account_id = a.id::text
+       ORDER BY e.enriched_at DESC
+       LIMIT 1
+     ) ea ON true
+     LEFT JOIN account_scores s ON s.account_id = a.id
+     WHERE a.workspace_id = $1 ${idFilter}`,
+    params
+  );
+  return result.rows;
+}
+
+export async function loadTerritoryTree(workspaceId: string): Promise<TerritoryNode[]> {
+  const result = await query<Territory>(
+    `SELECT id, parent_id, name, rules, priority FROM territories
+     WHERE workspace_id = $1 AND is_active = true`,
+    [workspaceId]
+  );
+  // Children of inactive territories drop out with their parent
+  const ids = new Set(result.rows.map(r => r.id));
+  return buildTerritoryTree(result.rows.filter(r => !r.parent_id || ids.has(r.parent_id)));
+}
+
+/**
+ * Resolve accounts to territories and persist the result. Manual
+ * assignments are left alone. Pass accountIds to resolve only those.
+ */
+export async function resolveAccountTerritories(
+  workspaceId: string,
+  accountIds?: string[]
+): Promise<{ evaluated: number; assigned: number; unassigned: number; changed: number }> {
+  const tree = await loadTerritoryTree(workspaceId);
+  if (tree.length === 0) return { evaluated: 0, assigned: 0, unassigned: 0, changed: 0 };
+
+  const [accounts, existing] = await Promise.all([
+    loadTerritoryAccounts(workspaceId, accountIds),
+    query<{ account_id: string; territory_id: string | null; source: string }>(
+      `SELECT account_id, territory_id, source FROM account_territories WHERE workspace_id = $1`,
+      [workspaceId]
+    ),
+  ]);
+  const current = new Map(existing.rows.map(r => [r.account_id, r]));
+
+  const changedIds: string[] = [];
+  const changedTerritories: Array<string | null> = [];
+  let assigned = 0;
+
+  for (const account of accounts) {
+    const row = current.get(account.id);
+    if (row?.source === 'manual') continue;
+
+    const territoryId = resolveTerritory(account, tree)?.id ?? null;
+    if (territoryId) assigned++;
+    if (row && row.territory_id === territoryId) continue;
+
+    changedIds.push(account.id);
+    changedTerritories.push(territoryId);
+  }
+
+  if (changedIds.length > 0) {
+    await query(
+      `INSERT INTO account_territories (account_id, workspace_id, territory_id, source, assigned_at)
+       SELECT account_id, $1, territory_id, 'rule', NOW()
+       FROM unnest($2::uuid[], $3::uuid[]) AS t(account_id, territory_id)
+       ON CONFLICT (account_id) DO UPDATE
+         SET territory_id = EXCLUDED.territory_id, assigned_at = NOW()
+         WHERE account_territories.source = 'rule'`,
+      [workspaceId, changedIds, changedTerritories]
+    );
+  }
+
+  return {
+    evaluated: accounts.length,
+    assigned,
+    unassigned: accounts.filter(a => current.get(a.id)?.source !== 'manual').length - assigned,
+    changed: changedIds.length,
+  };
+}
+
+/**
+ * Pin an account to a territory, or pass null to release it back to rule resolution
+ */
+export async function assignAccountTerritory(
+  workspaceId: string,
+  accountId: string,
+  territoryId: string | null
+): Promise<void> {
+  const account = await query(
+    `SELECT id FROM accounts WHERE workspace_id = $1 AND id = $2`,
+    [workspaceId, accountId]
+  );
+  if (account.rows.length === 0) throw new TerritoryValidationError('Account not found');
+
+  if (territoryId === null) {
+    await query(
+      `UPDATE account_territories SET source = 'rule' WHERE workspace_id = $1 AND account_id = $2`,
+      [workspaceId, accountId]
+    );
+    await resolveAccountTerritories(workspaceId, [accountId]);
+    return;
+  }
+
+  if (!(await getTerritory(workspaceId, territoryId))) {
+    throw new TerritoryValidationError('Territory not found');
+  }
+
+  await query(
+    `INSERT INTO account_territories (account_id, workspace_id, territory_id, source, assigned_at)
+     VALUES ($1, $2, $3, 'manual', NOW())
+     ON CONFLICT (account_id) DO UPDATE
+       SET territory_id = EXCLUDED.territory_id, source = 'manual', assigned_at = NOW()`,
+    [accountId, workspaceId, territoryId]
+  );
+}
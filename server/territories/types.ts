@@ -0,0 +1,83 @@
+export type TerritoryRuleOp =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'gte'
+  | 'lte'
+  | 'between'
+  | 'is_null'
+  | 'not_null';
+
+/**
+ * A condition over an account field. Fields: name, domain, industry,
+ * employee_count, employee_band, annual_revenue, owner, country, state, city,
+ * account_id, icp_grade, or custom_fields.<key>. Named account lists are an
+ * `in` over domain, name or account_id.
+ */
+export interface TerritoryCondition {
+  field: string;
+  op: TerritoryRuleOp;
+  value?: any;
+}
+
+export interface TerritoryRules {
+  match?: 'all' | 'any';
+  conditions?: TerritoryCondition[];
+}
+
+export interface Territory {
+  id: string;
+  workspace_id: string;
+  parent_id: string | null;
+  name: string;
+  description: string | null;
+  rules: TerritoryRules;
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TerritoryRep {
+  territory_id: string;
+  rep_name: string;
+  role: 'owner' | 'overlay';
+}
+
+export interface TerritoryNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  rules: TerritoryRules;
+  priority: number;
+  children: TerritoryNode[];
+}
+
+/** Account attributes territory rules can look at */
+export interface TerritoryAccount {
+  id: string;
+  name: string | null;
+  domain: string | null;
+  industry: string | null;
+  employee_count: number | null;
+  annual_revenue: number | null;
+  owner: string | null;
+  country: string | null;
+  state: string | null;
+  city: string | null;
+  custom_fields: Record<string, any>;
+  icp_score: number | null;
+  icp_grade: string | null;
+}
+
+export interface CreateTerritoryInput {
+  name: string;
+  description?: string | null;
+  parent_id?: string | null;
+  rules?: TerritoryRules;
+  priority?: number;
+}
+
+export type UpdateTerritoryInput = Partial<CreateTerritoryInput> & { is_active?: boolean };
@@ -1,4 +1,5 @@
 import { query } from '../db.js';
+import { configLoader } from '../config/workspace-config-loader.js';
 
 export interface Deal {
   id: string;
@@ -7,7 +8,10 @@ export interface Deal {
   source_id: string;
   source_data: Record<string, unknown>;
   name: string;
-  amount: number;
+  amount: number;               // reporting currency
+  amount_original: number | null;
+  currency_code: string | null;
+  fx_rate: number | null;
   stage: string;
   stage_normalized: string;
   close_date: string;
@@ -266,6 +270,7 @@ export async function getPipelineSummary(
   avgDealSize: number;
   weightedPipeline: number;
   byForecastCategory: { category: string; count: number; totalAmount: number }[];
+  currency: string;
 }> {
   // Build WHERE clause with optional scope filter
   let summaryWhere = 'workspace_id = $1';
@@ -305,5 +310,6 @@ export async function getPipelineSummary(
       count: parseInt(r.count, 10),
       totalAmount: parseFloat(r.total_amount) || 0,
     })),
+    currency: await configLoader.getReportingCurrency(workspaceId),
   };
 }
@@ -6,9 +6,14 @@
  *
  * Every function catches its own errors — training logging must NEVER
  * break skill execution.
+ *
+ * Prompts and responses are stored PII-scrubbed (see llm/pii-scrubber.ts):
+ * values already replaced before the provider call keep their placeholders,
+ * anything else the workspace policy detects is replaced here.
  */
 
 import { query } from '../db.js';
+import { createPiiScrubber } from '../llm/pii-scrubber.js';
 
 // ============================================================================
 // Types
@@ -69,7 +74,9 @@ function tryParseJson(text: string): any | null {
  */
 export async function logTrainingPair(input: TrainingPairInput): Promise<void> {
   try {
-    const outputSchema = input.outputSchema ?? tryParseJson(input.assistantResponse);
+    const { scrubber } = await createPiiScrubber(input.workspaceId);
+    const assistantResponse = scrubber.scrub(input.assistantResponse);
+    const outputSchema = scrubber.scrubValue(input.outputSchema ?? tryParseJson(input.assistantResponse));
 
     await query(
       `INSERT INTO training_pairs
@@ -85,10 +92,10 @@ export async function logTrainingPair(input: TrainingPairInput): Promise<void> {
         input.skillId ?? null,
         input.skillRunId ?? null,
         input.sourceContext ?? null,
-        input.systemPrompt ?? null,
-        input.userPrompt,
-        input.assistantResponse,
-        input.inputSchema ? JSON.stringify(input.inputSchema) : null,
+        input.systemPrompt ? scrubber.scrub(input.systemPrompt) : null,
+        scrubber.scrub(input.userPrompt),
+        assistantResponse,
+        input.inputSchema ? JSON.stringify(scrubber.scrubValue(input.inputSchema)) : null,
         outputSchema ? JSON.stringify(outputSchema) : null,
         input.inputTokens ?? null,
         input.outputTokens ?? null,
@@ -171,6 +178,7 @@ export async function logOverride(
   provider: string
 ): Promise<void> {
   try {
+    const { scrubber } = await createPiiScrubber(workspaceId);
     await query(
       `INSERT INTO training_pairs
         (workspace_id, capability, provider, source_context,
@@ -183,10 +191,10 @@ export async function logOverride(
         capability,
         provider,
         sourceContext,
-        originalInput.systemPrompt ?? null,
-        originalInput.userPrompt,
-        originalOutput,
-        JSON.stringify(correctedOutput),
+        originalInput.systemPrompt ? scrubber.scrub(originalInput.systemPrompt) : null,
+        scrubber.scrub(originalInput.userPrompt),
+        scrubber.scrub(originalOutput),
+        JSON.stringify(scrubber.scrubValue(correctedOutput)),
       ]
     );
   } catch (err) {
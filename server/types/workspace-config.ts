@@ -198,6 +198,9 @@ export interface WorkspaceConfig {
   /** System character avatar overrides (Pandora, Bull Case, Bear Case) */
   system_avatars?: SystemAvatarsConfig;
 
+  /** Reporting currency that deal amounts are converted into */
+  currency?: CurrencyConfig;
+
   /** Business configuration — WHO THEY ARE (WorkspaceIntelligence) */
   business?: BusinessConfig;
 }
@@ -208,6 +211,13 @@ export interface SystemAvatarsConfig {
   bear?: string;
 }
 
+// ===== CURRENCY CONFIG =====
+
+export interface CurrencyConfig {
+  /** ISO 4217 code, e.g. 'USD', 'EUR'. deals.amount is stored in this currency. */
+  reporting_currency: string;
+}
+
 // ===== BUSINESS CONFIG — WHO THEY ARE =====
 
 export interface BusinessConfig {
@@ -553,6 +563,9 @@ export interface ThresholdConfig {
 
   /** Required fields by object type */
   required_fields: RequiredFieldConfig[];
+
+  /** Discount % above which a deal needs approval (discount guardrail) */
+  discount_guardrail_pct?: number;
 }
 
 export interface RequiredFieldConfig {
@@ -1,5 +1,52 @@
-export function formatCurrency(amount: number): string {
-  if (amount >= 1_000_000) return `$${(amount / 1_000_000).toFixed(1)}M`;
-  if (amount >= 1_000) return `$${Math.round(amount / 1_000)}K`;
-  return `$${amount}`;
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  JPY: '¥',
+  CNY: '¥',
+  INR: '₹',
+  KRW: '₩',
+  BRL: 'R$',
+  CAD: 'CA$',
+  AUD: 'A$',
+  NZD: 'NZ$',
+  SGD: 'S$',
+  HKD: 'HK$',
+  MXN: 'MX$',
+  ILS: '₪',
+};
+
+/**
+ * Display prefix for an ISO 4217 code. Codes without a common symbol
+ * (CHF, SEK, ...) render as "CHF 12K".
+ */
+export function currencySymbol(currency: string = 'USD'): string {
+  const code = currency.toUpperCase();
+  return CURRENCY_SYMBOLS[code] ?? `${code} `;
+}
+
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
+  const symbol = currencySymbol(currency);
+  if (amount >= 1_000_000) return `${symbol}${(amount / 1_000_000).toFixed(1)}M`;
+  if (amount >= 1_000) return `${symbol}${Math.round(amount / 1_000)}K`;
+  return `${symbol}${amount}`;
+}
+
+/**
+ * Full-precision variant for tables: "€1,234,567".
+ */
+export function formatCurrencyFull(amount: number, currency: string = 'USD'): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${currencySymbol(currency)}${Math.round(Math.abs(amount)).toLocaleString('en-US')}`;
+}
+
+/**
+ * Excel number format for a currency column, e.g. '"€"#,##0'.
+ */
+export function excelCurrencyFormat(currency: string = 'USD', signed = false): string {
+  const symbol = currencySymbol(currency).replace(/"/g, '');
+  const quoted = `"${symbol}"`;
+  return signed
+    ? `+${quoted}#,##0;-${quoted}#,##0;${quoted}0`
+    : `${quoted}#,##0`;
 }
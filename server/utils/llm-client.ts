@@ -1,16 +1,31 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { callLLM, type LLMCapability } from "./llm-router.js";
 
 export interface ClaudeConfig {
   apiKey?: string;
   model?: string;
   baseURL?: string;
+  /**
+   * Route calls through the workspace's LLM router (routing, PII policy,
+   * local-only, token tracking) instead of calling Anthropic directly.
+   * Required whenever prompts carry workspace data.
+   */
+  workspaceId?: string;
+  capability?: LLMCapability;
 }
 
 export class ClaudeClient {
-  private client: Anthropic;
+  private client?: Anthropic;
   private model: string;
+  private workspaceId?: string;
+  private capability: LLMCapability;
 
   constructor(config: ClaudeConfig = {}) {
+    this.model = config.model || "claude-sonnet-4-5";
+    this.workspaceId = config.workspaceId;
+    this.capability = config.capability || "reason";
+    if (this.workspaceId) return;
+
     const apiKey =
       config.apiKey ||
       process.env.ANTHROPIC_API_KEY ||
@@ -29,8 +44,6 @@ export class ClaudeClient {
       apiKey,
       ...(baseURL ? { baseURL } : {}),
     });
-
-    this.model = config.model || "claude-sonnet-4-5";
   }
 
   async call(
@@ -41,7 +54,18 @@ export class ClaudeClient {
       maxTokens?: number;
     },
   ): Promise<string> {
-    const response = await this.client.messages.create({
+    if (this.workspaceId) {
+      const routed = await callLLM(this.workspaceId, this.capability, {
+        systemPrompt,
+        messages: [{ role: "user", content: userPrompt }],
+        temperature: options?.temperature ?? 0.7,
+        maxTokens: options?.maxTokens ?? 8192,
+        _tracking: { workspaceId: this.workspaceId, phase: "chat", stepName: "claude-client" },
+      });
+      return routed.content || "";
+    }
+
+    const response = await this.client!.messages.create({
       model: this.model,
       system: systemPrompt,
       messages: [{ role: "user", content: userPrompt }],
@@ -10,6 +10,20 @@ import {
 import { logTrainingPair } from '../training/index.js';
 import { TOKEN_THRESHOLDS } from '../chat/token-estimator.js';
 import { getDeployedFineTunedModel } from '../llm/fireworks-trainer.js';
+import {
+  getLocalBaseURL,
+  detectLocalModelCapabilities,
+  markLocalFeatureUnsupported,
+  clearLocalCapabilityCache,
+  isUnsupportedFeatureError,
+  toolsToPrompt,
+  parsePromptedToolCalls,
+  flattenToolMessages,
+  normalizeLocalCompletion,
+  type LocalModelConfig,
+  type LocalFeature,
+} from '../llm/local-provider.js';
+import { createPiiScrubber, normalizePiiPolicy, clearPiiCache, type PiiPolicy, type PiiScrubber } from '../llm/pii-scrubber.js';
 
 // Context window limits per model (in tokens)
 export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
@@ -39,8 +53,13 @@ export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
   'sonar-pro': 127_072,
   'sonar-reasoning': 127_072,
   'sonar-reasoning-pro': 127_072,
+  // Local models register their window on first use (see registerModelContextWindow)
 };
 
+export function registerModelContextWindow(model: string, tokens: number): void {
+  MODEL_CONTEXT_WINDOWS[model] = tokens;
+}
+
 export type LLMCapability = 'extract' | 'reason' | 'generate' | 'classify' | 'intent_classify' | 'compress';
 
 export interface ToolDef {
@@ -94,6 +113,11 @@ interface ProviderConfig {
   apiKey: string;
   baseURL?: string;
   enabled: boolean;
+  // local provider only
+  models?: Record<string, LocalModelConfig>;
+  defaultModel?: string;
+  embeddingModel?: string;
+  localOnly?: boolean;
 }
 
 type RoutingEntry = string | { primary: string; fallback?: string | null };
@@ -103,6 +127,7 @@ interface LLMConfig {
   routing: Record<string, RoutingEntry>;
   default_token_budget: number;
   tokens_used_this_month: number;
+  pii_policy?: any;
 }
 
 interface CacheEntry {
@@ -124,8 +149,9 @@ async function loadConfig(workspaceId: string): Promise<LLMConfig> {
     routing: any;
     default_token_budget: number;
     tokens_used_this_month: number;
+    pii_policy: any;
   }>(
-    `SELECT providers, routing, default_token_budget, tokens_used_this_month
+    `SELECT providers, routing, default_token_budget, tokens_used_this_month, pii_policy
      FROM llm_configs WHERE workspace_id = $1`,
     [workspaceId]
   );
@@ -154,6 +180,7 @@ async function loadConfig(workspaceId: string): Promise<LLMConfig> {
     routing: row.routing || {},
     default_token_budget: row.default_token_budget,
     tokens_used_this_month: row.tokens_used_this_month,
+    pii_policy: row.pii_policy,
   };
 
   configCache.set(workspaceId, { config, loadedAt: Date.now() });
@@ -199,6 +226,21 @@ async function resolveProvider(workspaceId: string, config: LLMConfig, capabilit
     }
   }
 
+  // On-prem workspaces: every capability stays on the local provider
+  const local = config.providers.local;
+  if (local?.enabled && local.localOnly) {
+    if (route.provider !== 'local') {
+      if (!local.defaultModel) {
+        throw new Error(`Workspace is restricted to the local LLM provider but '${capability}' routes to ${route.provider}/${route.model}`);
+      }
+      route = { provider: 'local', model: local.defaultModel };
+    }
+    if (route.fallbackProvider && route.fallbackProvider !== 'local') {
+      route = { provider: route.provider, model: route.model };
+    }
+    return route;
+  }
+
   // Check for fine-tuned model injection
   // Map capability to model_purpose: { reason: 'document_synthesis', classify: 'classification', intent_classify: 'classification' }
   const fineTuneEligible: Record<string, string> = {
@@ -207,7 +249,8 @@ async function resolveProvider(workspaceId: string, config: LLMConfig, capabilit
     intent_classify: 'classification',
   };
 
-  if (fineTuneEligible[capability]) {
+  // Local routes never get swapped for a hosted fine-tune
+  if (fineTuneEligible[capability] && route.provider !== 'local') {
     // BYOK workspace routing override takes priority over fine-tuned model (existing behavior preserved)
     const providerName = route.provider;
     const workspaceProvider = config.providers[providerName];
@@ -235,12 +278,22 @@ function isRetryableError(err: unknown): boolean {
   if (typeof status === 'number') {
     return status >= 500 || status === 429;
   }
-  const code = e?.code;
+  // fetch() wraps socket errors: TypeError('fetch failed', { cause: { code } })
+  const code = e?.code ?? e?.cause?.code;
   return code === 'ECONNABORTED' || code === 'ETIMEDOUT' || code === 'ECONNREFUSED';
 }
 
 function getApiKey(config: LLMConfig, provider: string): { apiKey: string; baseURL?: string } {
   const workspaceProvider = config.providers[provider];
+
+  // Local servers usually need no key; the base URL is what matters
+  if (provider === 'local') {
+    const workspaceLocal = workspaceProvider?.enabled ? workspaceProvider : undefined;
+    return {
+      apiKey: workspaceLocal?.apiKey || process.env.LOCAL_LLM_API_KEY || '',
+      baseURL: getLocalBaseURL(workspaceLocal?.baseURL) || undefined,
+    };
+  }
   if (workspaceProvider?.enabled && workspaceProvider?.apiKey) {
     return { apiKey: workspaceProvider.apiKey, baseURL: workspaceProvider.baseURL };
   }
@@ -365,6 +418,16 @@ function messagesToOpenAI(
         }));
       }
       result.push(assistantMsg);
+    } else if (msg.role === 'user' && Array.isArray(msg.content)) {
+      // Anthropic-style text/image blocks → OpenAI content parts
+      result.push({
+        role: 'user',
+        content: msg.content.map((b: any) =>
+          b.type === 'image' && b.source?.type === 'base64'
+            ? { type: 'image_url', image_url: { url: `data:${b.source.media_type};base64,${b.source.data}` } }
+            : { type: 'text', text: typeof b.text === 'string' ? b.text : JSON.stringify(b) }
+        ),
+      });
     } else {
       result.push({
         role: msg.role,
@@ -532,6 +595,83 @@ async function callOpenAICompatible(
   return parseOpenAIResponse(data);
 }
 
+/**
+ * Call a local OpenAI-compatible server. Tools and JSON-schema output are sent
+ * natively when the model supports them; when the server rejects either, the
+ * feature is marked unsupported and the call retried with prompted tool use
+ * or json_object mode.
+ */
+async function callLocal(
+  model: string,
+  options: LLMCallOptions,
+  apiKey: string,
+  baseURL: string,
+  providerConfig?: ProviderConfig,
+  downgraded: LocalFeature[] = []
+): Promise<LLMResponse> {
+  const capabilities = await detectLocalModelCapabilities(baseURL, model, apiKey, providerConfig?.models?.[model]);
+  const hasTools = !!options.tools && options.tools.length > 0;
+  const nativeTools = hasTools && capabilities.supportsTools;
+  const promptedTools = hasTools && !capabilities.supportsTools;
+
+  const systemPrompt = promptedTools
+    ? [options.systemPrompt, toolsToPrompt(options.tools!)].filter(Boolean).join('\n\n')
+    : options.systemPrompt;
+  const messages = messagesToOpenAI(options.messages, systemPrompt);
+
+  const requestBody: any = {
+    model,
+    messages: promptedTools ? flattenToolMessages(messages) : messages,
+    max_tokens: options.maxTokens || 4096,
+    temperature: options.temperature ?? 0.1,
+  };
+
+  if (nativeTools) {
+    requestBody.tools = toolsToOpenAI(options.tools!);
+  }
+
+  if (options.schema) {
+    requestBody.response_format = capabilities.supportsJsonSchema
+      ? { type: 'json_schema', json_schema: { name: 'response', schema: options.schema } }
+      : { type: 'json_object' };
+  }
+
+  const response = await fetch(`${baseURL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    // Downgrade and retry at most once per feature
+    if (nativeTools && !downgraded.includes('tools') && isUnsupportedFeatureError(response.status, errorText, 'tools')) {
+      markLocalFeatureUnsupported(baseURL, model, 'tools');
+      return callLocal(model, options, apiKey, baseURL, providerConfig, [...downgraded, 'tools']);
+    }
+    if (options.schema && capabilities.supportsJsonSchema && !downgraded.includes('json_schema')
+      && isUnsupportedFeatureError(response.status, errorText, 'json_schema')) {
+      markLocalFeatureUnsupported(baseURL, model, 'json_schema');
+      return callLocal(model, options, apiKey, baseURL, providerConfig, [...downgraded, 'json_schema']);
+    }
+    throw new Error(`local API error ${response.status}: ${errorText}`);
+  }
+
+  const parsed = parseOpenAIResponse(normalizeLocalCompletion(await response.json()));
+
+  if (promptedTools) {
+    const toolCalls = parsePromptedToolCalls(parsed.content);
+    if (toolCalls) {
+      return { ...parsed, content: '', toolCalls, stopReason: 'tool_use' };
+    }
+  }
+
+  return parsed;
+}
+
 async function trackUsage(workspaceId: string, tokens: number): Promise<void> {
   try {
     await query(
@@ -560,6 +700,8 @@ export function clearConfigCache(workspaceId?: string): void {
   } else {
     configCache.clear();
   }
+  clearPiiCache(workspaceId);
+  clearLocalCapabilityCache();
 }
 
 export function assistantMessageFromResponse(response: LLMResponse): any {
@@ -584,6 +726,19 @@ export function toolResultMessage(toolCallId: string, result: any): LLMCallOptio
   };
 }
 
+function defaultBaseURL(providerName: string): string {
+  switch (providerName) {
+    case 'fireworks':
+      return 'https://api.fireworks.ai/inference/v1';
+    case 'google':
+      return 'https://generativelanguage.googleapis.com/v1beta/openai/';
+    case 'perplexity':
+      return 'https://api.perplexity.ai';
+    default:
+      return 'https://api.openai.com/v1';
+  }
+}
+
 /**
  * Call a specific provider/model. Used by callLLM for both primary and fallback.
  */
@@ -595,6 +750,15 @@ async function callProviderByName(
 ): Promise<LLMResponse> {
   const { apiKey, baseURL } = getApiKey(config, providerName);
 
+  if (providerName === 'local') {
+    if (!baseURL) {
+      throw new Error(
+        `No base URL for provider 'local' — set providers.local.baseURL in workspace LLM config or LOCAL_LLM_BASE_URL`
+      );
+    }
+    return await callLocal(modelName, options, apiKey, baseURL, config.providers.local);
+  }
+
   if (!apiKey) {
     throw new Error(
       `No API key for provider '${providerName}' — add a key to workspace LLM config or set platform env var`
@@ -612,13 +776,7 @@ async function callProviderByName(
         modelName,
         options,
         apiKey,
-        baseURL || (providerName === 'fireworks'
-          ? 'https://api.fireworks.ai/inference/v1'
-          : providerName === 'google'
-          ? 'https://generativelanguage.googleapis.com/v1beta/openai/'
-          : providerName === 'perplexity'
-          ? 'https://api.perplexity.ai'
-          : 'https://api.openai.com/v1'),
+        baseURL || defaultBaseURL(providerName),
         providerName
       );
     default:
@@ -684,7 +842,7 @@ async function callLLMWithLog(
   await trackUsage(workspaceId, totalTokens);
 
   const tracking = options._tracking;
-  const costUsd = estimateCost(usedModel, response.usage.input, response.usage.output);
+  const costUsd = estimateCost(usedModel, response.usage.input, response.usage.output, usedProvider);
   const recommendations = generateRecommendations(totalTokens, costUsd, payloadSummary);
 
   trackTokenUsage({
@@ -792,6 +950,10 @@ export async function callLLM(
   const promptChars = payloadSummary.totalChars;
   const inputTokenEstimate = Math.ceil(promptChars / 4);
 
+  if (provider === 'local') {
+    await registerLocalContextWindow(config, model);
+  }
+
   // Context window guardrail: check if the configured model can handle this input
   const modelWindow = MODEL_CONTEXT_WINDOWS[model] ?? 128_000;
   const safeLimit = Math.floor(modelWindow * 0.85); // leave 15% headroom for output
@@ -802,7 +964,8 @@ export async function callLLM(
     let overrideModel = model;
     let bestWindow = modelWindow;
 
-    const candidates: Array<{ provider: string; model: string; window: number }> = [
+    // Never move a local call to a hosted model — the data must stay on-prem
+    const candidates: Array<{ provider: string; model: string; window: number }> = provider === 'local' ? [] : [
       { provider: 'google', model: 'gemini-2.5-pro', window: 1_048_576 },
       { provider: 'openai', model: 'gpt-4.1', window: 1_048_576 },
       { provider: 'anthropic', model: 'claude-sonnet-4-20250514', window: 200_000 },
@@ -842,32 +1005,217 @@ export async function callLLM(
 
   console.log(`[LLM Router] ${capability} → ${provider}/${model}${fallbackProvider ? ` (fallback: ${fallbackProvider}/${fallbackModel})` : ''}`);
 
-  // Determine if this call uses a workspace (BYOK) key or the platform key
+  // Determine if this call uses a workspace (BYOK) key or the platform key.
+  // Local servers are always customer infrastructure.
   const workspaceProviderCfg = config.providers[provider];
-  const isUsingByok = !!(workspaceProviderCfg?.enabled && workspaceProviderCfg?.apiKey);
+  const isUsingByok = provider === 'local' || !!(workspaceProviderCfg?.enabled && workspaceProviderCfg?.apiKey);
   const keySource: 'byok' | 'pandora' = isUsingByok ? 'byok' : 'pandora';
 
-  return await callLLMWithLog(workspaceId, capability, options, resolved, config, payloadSummary, promptChars, keySource);
+  // PII policy: hosted providers (primary or fallback) only ever see placeholders
+  const piiPolicy = normalizePiiPolicy(config.pii_policy);
+  const routeProviders = [resolved.provider, resolved.fallbackProvider, resolved.fallbackRoute?.provider];
+  const scrubPrompt = piiPolicy.enabled &&
+    (piiPolicy.scrubLocal || routeProviders.some(p => p && p !== 'local'));
+
+  if (!scrubPrompt) {
+    return await callLLMWithLog(workspaceId, capability, options, resolved, config, payloadSummary, promptChars, keySource);
+  }
+
+  const { scrubber } = await createPiiScrubber(workspaceId, piiPolicy);
+  const response = await callLLMWithLog(
+    workspaceId, capability, scrubCallOptions(scrubber, options), resolved, config, payloadSummary, promptChars, keySource
+  );
+  if (scrubber.size > 0) {
+    console.log(`[LLM Router] PII: ${scrubber.size} values replaced with placeholders for ${capability}`);
+  }
+  return restoreResponse(scrubber, response);
+}
+
+function scrubCallOptions(scrubber: PiiScrubber, options: LLMCallOptions): LLMCallOptions {
+  return {
+    ...options,
+    systemPrompt: options.systemPrompt ? scrubber.scrub(options.systemPrompt) : options.systemPrompt,
+    messages: options.messages.map(m => ({ ...m, content: scrubber.scrubValue(m.content) })),
+    metadata: options.metadata && {
+      ...options.metadata,
+      structuredInput: scrubber.scrubValue(options.metadata.structuredInput),
+    },
+  };
+}
+
+function restoreResponse(scrubber: PiiScrubber, response: LLMResponse): LLMResponse {
+  return {
+    ...response,
+    content: scrubber.restore(response.content),
+    toolCalls: response.toolCalls?.map(tc => ({ ...tc, input: scrubber.restoreValue(tc.input) })),
+  };
+}
+
+/**
+ * Register a local model's context window (configured or detected) so the
+ * guardrail above uses the real limit instead of the 128k default
+ */
+async function registerLocalContextWindow(config: LLMConfig, model: string): Promise<void> {
+  const { apiKey, baseURL } = getApiKey(config, 'local');
+  if (!baseURL) return;
+
+  const { contextWindow } = await detectLocalModelCapabilities(baseURL, model, apiKey, config.providers.local?.models?.[model]);
+  if (contextWindow && MODEL_CONTEXT_WINDOWS[model] !== contextWindow) {
+    registerModelContextWindow(model, contextWindow);
+  }
+}
+
+// ─── Embeddings ───
+
+const DEFAULT_EMBEDDING_ROUTE = 'openai/text-embedding-3-small';
+const EMBEDDING_BATCH_SIZE = 96;
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  provider: string;
+  model: string;
+  dimensions: number;
+  usage: { input: number };
+}
+
+/**
+ * Resolve the embedding model from routing.embed. On-prem workspaces must
+ * embed locally: a hosted route is replaced by providers.local.embeddingModel.
+ */
+export async function getEmbeddingRoute(workspaceId: string): Promise<{ provider: string; model: string }> {
+  const config = await loadConfig(workspaceId);
+  return resolveEmbeddingRoute(config);
+}
+
+function resolveEmbeddingRoute(config: LLMConfig): { provider: string; model: string } {
+  const entry = config.routing.embed;
+  const route = parseRoute((typeof entry === 'string' ? entry : entry?.primary) || DEFAULT_EMBEDDING_ROUTE);
+
+  const local = config.providers.local;
+  if (local?.enabled && local.localOnly && route.provider !== 'local') {
+    if (!local.embeddingModel) {
+      throw new Error('Workspace is restricted to the local LLM provider but no providers.local.embeddingModel is configured');
+    }
+    return { provider: 'local', model: local.embeddingModel };
+  }
+  return route;
+}
+
+/**
+ * Embed texts with the workspace's embedding route via the OpenAI-compatible
+ * /embeddings endpoint (OpenAI, Google, Fireworks, local servers).
+ * Vectors are returned in input order.
+ */
+export async function embed(
+  workspaceId: string,
+  texts: string[],
+  tracking?: TrackingContext
+): Promise<EmbeddingResponse> {
+  const config = await loadConfig(workspaceId);
+  const { provider, model } = resolveEmbeddingRoute(config);
+
+  if (provider === 'anthropic' || provider === 'perplexity') {
+    throw new Error(`Provider '${provider}' does not offer embeddings — route 'embed' to openai, google, fireworks or local`);
+  }
+
+  const { apiKey, baseURL } = getApiKey(config, provider);
+  if (provider === 'local' && !baseURL) {
+    throw new Error(`No base URL for provider 'local' — set providers.local.baseURL in workspace LLM config or LOCAL_LLM_BASE_URL`);
+  }
+  if (provider !== 'local' && !apiKey) {
+    throw new Error(`No API key for provider '${provider}' — add a key to workspace LLM config or set platform env var`);
+  }
+  const endpoint = `${(baseURL || defaultBaseURL(provider)).replace(/\/+$/, '')}/embeddings`;
+
+  const startTime = Date.now();
+  const embeddings: number[][] = [];
+  let inputTokens = 0;
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, input: batch }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${provider} embeddings error ${response.status}: ${errorText}`);
+    }
+
+    const data: any = await response.json();
+    const rows: any[] = Array.isArray(data?.data) ? [...data.data] : [];
+    if (rows.length !== batch.length) {
+      throw new Error(`${provider} embeddings returned ${rows.length} vectors for ${batch.length} inputs`);
+    }
+    rows.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    embeddings.push(...rows.map(r => r.embedding as number[]));
+    inputTokens += data?.usage?.prompt_tokens ?? data?.usage?.total_tokens ?? Math.ceil(batch.join('').length / 4);
+  }
+
+  await trackUsage(workspaceId, inputTokens);
+
+  const promptChars = texts.reduce((sum, t) => sum + t.length, 0);
+  const workspaceProviderCfg = config.providers[provider];
+  const isUsingByok = provider === 'local' || !!(workspaceProviderCfg?.enabled && workspaceProviderCfg?.apiKey);
+
+  trackTokenUsage({
+    workspaceId: tracking?.workspaceId || workspaceId,
+    skillId: tracking?.skillId,
+    skillRunId: tracking?.skillRunId,
+    phase: tracking?.phase,
+    stepName: tracking?.stepName || 'embed',
+    provider,
+    model,
+    inputTokens,
+    outputTokens: 0,
+    estimatedCostUsd: estimateCost(model, inputTokens, 0, provider),
+    promptChars,
+    responseChars: 0,
+    truncated: false,
+    payloadSummary: {
+      totalChars: promptChars,
+      largestField: 'input',
+      largestFieldChars: texts.reduce((max, t) => Math.max(max, t.length), 0),
+      estimatedTokens: Math.ceil(promptChars / 4),
+      sections: [],
+    },
+    latencyMs: Date.now() - startTime,
+    keySource: tracking?.keySource || (isUsingByok ? 'byok' : 'pandora'),
+  }).catch(err => console.warn('[Token Tracker] Fire-and-forget failed:', err.message));
+
+  return {
+    embeddings,
+    provider,
+    model,
+    dimensions: embeddings[0]?.length ?? 0,
+    usage: { input: inputTokens },
+  };
 }
 
 export async function getLLMConfig(workspaceId: string): Promise<{
   routing: Record<string, RoutingEntry>;
   providers: Record<string, { connected: boolean }>;
   budget: { total: number; used: number; remaining: number };
+  pii_policy: PiiPolicy;
 }> {
   const config = await loadConfig(workspaceId);
 
   const providers: Record<string, { connected: boolean }> = {};
   for (const [name, p] of Object.entries(config.providers)) {
-    providers[name] = { connected: p.enabled && !!p.apiKey };
+    providers[name] = { connected: p.enabled && !!(name === 'local' ? getLocalBaseURL(p.baseURL) : p.apiKey) };
   }
 
-  const platformProviders = ['anthropic', 'fireworks', 'openai', 'google', 'perplexity'];
+  const platformProviders = ['anthropic', 'fireworks', 'openai', 'google', 'perplexity', 'local'];
   for (const name of platformProviders) {
     if (!providers[name]) {
       try {
-        const { apiKey } = getApiKey(config, name);
-        providers[name] = { connected: !!apiKey };
+        const { apiKey, baseURL } = getApiKey(config, name);
+        providers[name] = { connected: name === 'local' ? !!baseURL : !!apiKey };
       } catch {
         providers[name] = { connected: false };
       }
@@ -882,6 +1230,7 @@ export async function getLLMConfig(workspaceId: string): Promise<{
       used: config.tokens_used_this_month,
       remaining: Math.max(0, config.default_token_budget - config.tokens_used_this_month),
     },
+    pii_policy: normalizePiiPolicy(config.pii_policy),
   };
 }
 
@@ -891,6 +1240,7 @@ export async function updateLLMConfig(
     routing?: Record<string, RoutingEntry>;
     providers?: Record<string, { apiKey?: string; baseURL?: string; enabled?: boolean }>;
     default_token_budget?: number;
+    pii_policy?: PiiPolicy;
   }
 ): Promise<void> {
   const setClauses: string[] = ['updated_at = NOW()'];
@@ -915,6 +1265,12 @@ export async function updateLLMConfig(
     paramIdx++;
   }
 
+  if (updates.pii_policy) {
+    setClauses.push(`pii_policy = $${paramIdx}`);
+    values.push(JSON.stringify(updates.pii_policy));
+    paramIdx++;
+  }
+
   await query(
     `UPDATE llm_configs SET ${setClauses.join(', ')} WHERE workspace_id = $1`,
     values
@@ -0,0 +1,118 @@
+/**
+ * Tests for the win-probability model: evaluation metrics, calibration,
+ * as-of feature construction and the small-sample fallback
+ */
+
+import { describe, it, expect } from 'vitest';
+import { auc, brierScore, fitPlatt, applyPlatt, groupedFolds, reliabilityCurve } from '../evaluation.js';
+import { buildFeatures, featureNames, type DealHistory } from '../features.js';
+import { scoreWithModel, trainWinModel, type TrainingSample } from '../model.js';
+
+const DAY = 86400000;
+
+describe('evaluation', () => {
+  it('computes AUC with ties averaged', () => {
+    expect(auc([0.1, 0.4, 0.35, 0.8], [0, 0, 1, 1])).toBeCloseTo(0.75);
+    expect(auc([0.5, 0.5], [0, 1])).toBeCloseTo(0.5);
+    expect(auc([0.2, 0.3], [1, 1])).toBeNull();
+  });
+
+  it('bins predictions into a reliability curve', () => {
+    const curve = reliabilityCurve([0.05, 0.08, 0.92], [0, 1, 1]);
+    expect(curve).toHaveLength(2);
+    expect(curve[0]).toMatchObject({ count: 2, observed_rate: 0.5 });
+    expect(brierScore([1, 0], [1, 0])).toBe(0);
+  });
+
+  it('Platt scaling pulls overconfident scores toward the observed rate', () => {
+    // Always predicts 0.9 but only half are won
+    const raw = Array(40).fill(0.9);
+    const labels = raw.map((_, i) => (i % 2 === 0 ? 1 : 0));
+    const platt = fitPlatt(raw, labels);
+    expect(applyPlatt(platt, 0.9)).toBeCloseTo(0.5, 1);
+  });
+
+  it('keeps every snapshot of a deal in the same fold', () => {
+    const groups = ['a', 'a', 'b', 'c', 'c', 'd', 'e'];
+    const folds = groupedFolds(groups, 3);
+    expect(folds[0]).toBe(folds[1]);
+    expect(folds[3]).toBe(folds[4]);
+    expect(groupedFolds(groups, 3)).toEqual(folds);
+  });
+});
+
+describe('buildFeatures', () => {
+  it('only sees history up to the snapshot date', () => {
+    const created = new Date('2026-01-01T00:00:00Z');
+    const deal: DealHistory = {
+      id: 'd1',
+      amount: 50000,
+      createdAt: created,
+      closeDate: new Date('2026-04-01'),
+      customFields: { seats: 25 },
+      stages: [
+        { stageNormalized: 'qualification', changedAt: created },
+        { stageNormalized: 'negotiation', changedAt: new Date(created.getTime() + 60 * DAY) },
+      ],
+      activities: [{ timestamp: new Date(created.getTime() + 20 * DAY), type: 'meeting' }],
+      contacts: [{ role: 'champion', createdAt: new Date(created.getTime() + 50 * DAY) }],
+      fields: [{ fieldName: 'forecastcategory', value: 'Commit', changedAt: new Date(created.getTime() + 70 * DAY) }],
+    };
+
+    const early = buildFeatures(deal, new Date(created.getTime() + 30 * DAY), ['seats']);
+    expect(early.stage_rank).toBe(1);
+    expect(early.meetings_30d).toBe(1);
+    expect(early.has_champion).toBe(0);
+    expect(early.forecast_commit).toBe(0);
+    expect(early['cf:seats']).toBe(25);
+
+    const late = buildFeatures(deal, new Date(created.getTime() + 75 * DAY), ['seats']);
+    expect(late.stage_rank).toBe(4);
+    expect(late.has_champion).toBe(1);
+    expect(late.forecast_commit).toBe(1);
+  });
+});
+
+describe('trainWinModel', () => {
+  const features = featureNames([]);
+
+  function samples(deals: number, separable: boolean): TrainingSample[] {
+    const out: TrainingSample[] = [];
+    for (let i = 0; i < deals; i++) {
+      const won = i % 2 === 0 ? 1 : 0;
+      for (let s = 0; s < 3; s++) {
+        out.push({
+          dealId: `deal-${i}`,
+          won,
+          features: {
+            stage_rank: separable ? (won ? 3 : 1) + (s % 2) : s,
+            activities_30d: won ? 2 + (i % 3) * 0.1 : 0.5 + (i % 3) * 0.1,
+            has_champion: won,
+            log_amount: null,
+          },
+        });
+      }
+    }
+    return out;
+  }
+
+  it('falls back when there are too few closed deals', () => {
+    const result = trainWinModel(samples(20, true), features);
+    expect(result.status).toBe('insufficient_data');
+  });
+
+  it('learns a separable signal and explains each score', () => {
+    const result = trainWinModel(samples(60, true), features);
+    expect(result.status).toBe('active');
+    if (result.status !== 'active') return;
+
+    expect(result.metrics.cv_auc).toBeGreaterThan(0.9);
+    expect(result.metrics.calibration_curve.length).toBeGreaterThan(0);
+
+    const strong = scoreWithModel(result.model, { stage_rank: 4, activities_30d: 2.2, has_champion: 1 });
+    const weak = scoreWithModel(result.model, { stage_rank: 1, activities_30d: 0.5, has_champion: 0 });
+    expect(strong.probability).toBeGreaterThan(weak.probability);
+    expect(strong.drivers.length).toBeGreaterThan(0);
+    expect(strong.drivers.every(d => d.contribution > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Model evaluation: ranking quality (AUC), probability quality (Brier,
+ * reliability curve), Platt calibration and grouped cross-validation folds.
+ */
+
+import { fitLogistic, sigmoid, logit } from './logistic.js';
+
+export interface ReliabilityBin {
+  bin_start: number;
+  bin_end: number;
+  count: number;
+  mean_predicted: number;
+  observed_rate: number;
+}
+
+export interface PlattScaling {
+  a: number;
+  b: number;
+}
+
+/** Area under the ROC curve via the rank-sum statistic, with ties averaged */
+export function auc(predictions: number[], labels: number[]): number | null {
+  const order = predictions.map((p, i) => ({ p, y: labels[i] })).sort((a, b) => a.p - b.p);
+  const positives = order.filter(o => o.y === 1).length;
+  const negatives = order.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  let rankSum = 0;
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].p === order[i].p) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (order[k].y === 1) rankSum += avgRank;
+    i = j + 1;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function brierScore(predictions: number[], labels: number[]): number {
+  if (predictions.length === 0) return 0;
+  return predictions.reduce((s, p, i) => s + (p - labels[i]) ** 2, 0) / predictions.length;
+}
+
+/** Equal-width bins; empty bins are omitted */
+export function reliabilityCurve(predictions: number[], labels: number[], bins = 10): ReliabilityBin[] {
+  const acc = Array.from({ length: bins }, () => ({ count: 0, sumP: 0, sumY: 0 }));
+  predictions.forEach((p, i) => {
+    const idx = Math.min(bins - 1, Math.floor(p * bins));
+    acc[idx].count++;
+    acc[idx].sumP += p;
+    acc[idx].sumY += labels[i];
+  });
+  return acc
+    .map((b, idx) => ({
+      bin_start: idx / bins,
+      bin_end: (idx + 1) / bins,
+      count: b.count,
+      mean_predicted: b.count ? b.sumP / b.count : 0,
+      observed_rate: b.count ? b.sumY / b.count : 0,
+    }))
+    .filter(b => b.count > 0);
+}
+
+/**
+ * Platt scaling on out-of-fold scores: a one-feature logistic fit on the raw
+ * log-odds, so a model that is over- or under-confident gets pulled back.
+ */
+export function fitPlatt(rawProbabilities: number[], labels: number[]): PlattScaling {
+  const x = rawProbabilities.map(p => [logit(p)]);
+  const fit = fitLogistic(x, labels, { l2: 0.01, learningRate: 0.5, iterations: 300 });
+  return { a: fit.weights[0], b: fit.bias };
+}
+
+export function applyPlatt(platt: PlattScaling, rawProbability: number): number {
+  return sigmoid(platt.a * logit(rawProbability) + platt.b);
+}
+
+/**
+ * Assign each group (deal) to a fold so snapshots of the same deal never land
+ * on both sides of a split. Deterministic for a given seed.
+ */
+export function groupedFolds(groups: string[], k: number, seed = 42): number[] {
+  const unique = [...new Set(groups)];
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  for (let i = unique.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [unique[i], unique[j]] = [unique[j], unique[i]];
+  }
+  const foldOf = new Map(unique.map((g, i) => [g, i % k]));
+  return groups.map(g => foldOf.get(g)!);
+}
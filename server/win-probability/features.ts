@@ -0,0 +1,186 @@
+/**
+ * Win-probability features, computed as of a point in time.
+ *
+ * Training uses snapshots of closed deals taken partway through their life,
+ * so every feature must only see what was known on the snapshot date: stage
+ * history, activities, contact associations and field history up to that
+ * moment. Current deal values are used only where no history exists.
+ */
+
+export interface DealHistory {
+  id: string;
+  amount: number | null;
+  createdAt: Date;
+  closeDate: Date | null;
+  customFields: Record<string, unknown>;
+  /** Ordered by changedAt */
+  stages: Array<{ stageNormalized: string | null; changedAt: Date }>;
+  activities: Array<{ timestamp: Date; type: string | null }>;
+  contacts: Array<{ role: string | null; createdAt: Date | null }>;
+  /** deal_field_history rows, ordered by changedAt */
+  fields: Array<{ fieldName: string; value: string; changedAt: Date }>;
+}
+
+export type FeatureValues = Record<string, number | null>;
+
+const DAY_MS = 86400000;
+
+const STAGE_RANK: Record<string, number> = {
+  awareness: 0,
+  discovery: 1,
+  qualification: 1,
+  evaluation: 2,
+  decision: 3,
+  proposal: 3,
+  negotiation: 4,
+};
+
+export const BASE_FEATURES: Record<string, string> = {
+  stage_rank: 'Stage',
+  days_in_stage: 'Days in current stage',
+  deal_age_days: 'Deal age',
+  stage_changes: 'Stage changes',
+  stage_regressions: 'Stage regressions',
+  log_amount: 'Deal size',
+  activities_14d: 'Activities (14d)',
+  activities_30d: 'Activities (30d)',
+  meetings_30d: 'Meetings (30d)',
+  days_since_activity: 'Days since last activity',
+  contact_count: 'Contacts on deal',
+  has_economic_buyer: 'Economic buyer identified',
+  has_champion: 'Champion identified',
+  has_technical_evaluator: 'Technical evaluator identified',
+  days_to_close: 'Days to close date',
+  close_date_pushes: 'Close date pushes',
+  forecast_commit: 'Forecast: commit',
+  forecast_best_case: 'Forecast: best case',
+};
+
+const CUSTOM_PREFIX = 'cf:';
+const MIN_CUSTOM_FIELD_COVERAGE = 0.3;
+const MAX_CUSTOM_FIELDS = 10;
+const DAYS_SINCE_ACTIVITY_CAP = 120;
+
+export function featureLabel(name: string): string {
+  return BASE_FEATURES[name] ?? (name.startsWith(CUSTOM_PREFIX) ? name.slice(CUSTOM_PREFIX.length) : name);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const v = value.trim().toLowerCase();
+    if (v === 'true' || v === 'yes') return 1;
+    if (v === 'false' || v === 'no') return 0;
+    if (v !== '' && !isNaN(Number(v))) return Number(v);
+  }
+  return null;
+}
+
+/**
+ * Custom fields usable as features: numeric or boolean on enough deals.
+ * Free-text and picklist fields are skipped.
+ */
+export function selectCustomFieldKeys(deals: DealHistory[]): string[] {
+  const counts = new Map<string, number>();
+  for (const deal of deals) {
+    for (const [key, value] of Object.entries(deal.customFields || {})) {
+      if (toNumber(value) !== null) counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .filter(([, n]) => deals.length > 0 && n / deals.length >= MIN_CUSTOM_FIELD_COVERAGE)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CUSTOM_FIELDS)
+    .map(([key]) => key);
+}
+
+export function featureNames(customFieldKeys: string[]): string[] {
+  return [...Object.keys(BASE_FEATURES), ...customFieldKeys.map(k => `${CUSTOM_PREFIX}${k}`)];
+}
+
+function fieldAsOf(deal: DealHistory, fieldName: string, asOf: Date): string | null {
+  let value: string | null = null;
+  for (const f of deal.fields) {
+    if (f.changedAt > asOf) break;
+    if (f.fieldName === fieldName) value = f.value;
+  }
+  return value;
+}
+
+function hasFieldHistory(deal: DealHistory, fieldName: string): boolean {
+  return deal.fields.some(f => f.fieldName === fieldName);
+}
+
+export function buildFeatures(deal: DealHistory, asOf: Date, customFieldKeys: string[]): FeatureValues {
+  const asOfMs = asOf.getTime();
+  const days = (from: Date) => Math.max(0, (asOfMs - from.getTime()) / DAY_MS);
+
+  const stagesSoFar = deal.stages.filter(s => s.changedAt <= asOf);
+  const current = stagesSoFar[stagesSoFar.length - 1];
+  const currentRank = current?.stageNormalized ? STAGE_RANK[current.stageNormalized] ?? null : null;
+
+  let regressions = 0;
+  for (let i = 1; i < stagesSoFar.length; i++) {
+    const prev = STAGE_RANK[stagesSoFar[i - 1].stageNormalized ?? ''];
+    const next = STAGE_RANK[stagesSoFar[i].stageNormalized ?? ''];
+    if (prev !== undefined && next !== undefined && next < prev) regressions++;
+  }
+
+  const activitiesSoFar = deal.activities.filter(a => a.timestamp <= asOf);
+  const within = (d: number) => activitiesSoFar.filter(a => asOfMs - a.timestamp.getTime() <= d * DAY_MS);
+  const lastActivity = activitiesSoFar.reduce<Date | null>(
+    (latest, a) => (!latest || a.timestamp > latest ? a.timestamp : latest), null
+  );
+
+  // Contact roles have no history; an association counts once it existed
+  const contactsSoFar = deal.contacts.filter(c => !c.createdAt || c.createdAt <= asOf);
+  const hasRole = (role: string) => contactsSoFar.some(c => c.role === role) ? 1 : 0;
+
+  // Close date and forecast category only from history, never the final values
+  const closeDateRaw = fieldAsOf(deal, 'closedate', asOf);
+  const closeDate = closeDateRaw ? new Date(closeDateRaw) : null;
+  const closePushes = deal.fields.filter(f => f.fieldName === 'closedate' && f.changedAt <= asOf).length;
+  const forecast = (fieldAsOf(deal, 'forecastcategory', asOf) || '').toLowerCase().replace(/\s+/g, '_');
+  const hasForecastHistory = hasFieldHistory(deal, 'forecastcategory');
+
+  const amountRaw = fieldAsOf(deal, 'amount', asOf);
+  const amount = amountRaw !== null ? toNumber(amountRaw) : deal.amount;
+
+  const values: FeatureValues = {
+    stage_rank: currentRank,
+    days_in_stage: current ? Math.log1p(days(current.changedAt)) : null,
+    deal_age_days: Math.log1p(days(deal.createdAt)),
+    stage_changes: stagesSoFar.length,
+    stage_regressions: regressions,
+    log_amount: amount !== null && amount > 0 ? Math.log10(amount) : null,
+    activities_14d: Math.log1p(within(14).length),
+    activities_30d: Math.log1p(within(30).length),
+    meetings_30d: within(30).filter(a => a.type === 'meeting').length,
+    days_since_activity: lastActivity ? Math.min(DAYS_SINCE_ACTIVITY_CAP, days(lastActivity)) : DAYS_SINCE_ACTIVITY_CAP,
+    contact_count: contactsSoFar.length,
+    has_economic_buyer: hasRole('economic_buyer'),
+    has_champion: hasRole('champion'),
+    has_technical_evaluator: hasRole('technical_evaluator'),
+    days_to_close: closeDate && !isNaN(closeDate.getTime()) ? (closeDate.getTime() - asOfMs) / DAY_MS : null,
+    close_date_pushes: Math.max(0, closePushes - 1),
+    forecast_commit: hasForecastHistory ? (forecast === 'commit' ? 1 : 0) : null,
+    forecast_best_case: hasForecastHistory ? (forecast === 'best_case' || forecast === 'bestcase' ? 1 : 0) : null,
+  };
+
+  for (const key of customFieldKeys) {
+    const historical = fieldAsOf(deal, key, asOf);
+    values[`${CUSTOM_PREFIX}${key}`] = historical !== null
+      ? toNumber(historical)
+      : hasFieldHistory(deal, key) ? null : toNumber(deal.customFields?.[key]);
+  }
+
+  return values;
+}
+
+/** Snapshot dates for a closed deal: a quarter, half and three quarters of the way to close */
+export function trainingSnapshots(createdAt: Date, closedAt: Date): Date[] {
+  const span = closedAt.getTime() - createdAt.getTime();
+  if (span < 2 * DAY_MS) return [];
+  return [0.25, 0.5, 0.75].map(f => new Date(createdAt.getTime() + span * f));
+}
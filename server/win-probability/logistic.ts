@@ -0,0 +1,65 @@
+/**
+ * L2-regularized logistic regression, fit by full-batch gradient descent on
+ * standardized features. Sample sizes here are hundreds to low thousands of
+ * rows with a couple dozen features, so nothing fancier is needed.
+ */
+
+export interface LogisticFit {
+  weights: number[];
+  bias: number;
+}
+
+export interface LogisticOptions {
+  l2?: number;
+  learningRate?: number;
+  iterations?: number;
+}
+
+export function sigmoid(z: number): number {
+  if (z >= 0) return 1 / (1 + Math.exp(-z));
+  const e = Math.exp(z);
+  return e / (1 + e);
+}
+
+export function logit(p: number): number {
+  const clamped = Math.min(1 - 1e-6, Math.max(1e-6, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+export function fitLogistic(x: number[][], y: number[], options: LogisticOptions = {}): LogisticFit {
+  const l2 = options.l2 ?? 1.0;
+  const learningRate = options.learningRate ?? 0.1;
+  const iterations = options.iterations ?? 500;
+  const n = x.length;
+  const d = n > 0 ? x[0].length : 0;
+
+  const weights = new Array(d).fill(0);
+  // Start at the base rate so early iterations aren't spent finding it
+  const positives = y.reduce((s, v) => s + v, 0);
+  let bias = n > 0 ? logit((positives + 0.5) / (n + 1)) : 0;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const grad = new Array(d).fill(0);
+    let gradBias = 0;
+    for (let i = 0; i < n; i++) {
+      const row = x[i];
+      let z = bias;
+      for (let j = 0; j < d; j++) z += weights[j] * row[j];
+      const err = sigmoid(z) - y[i];
+      gradBias += err;
+      for (let j = 0; j < d; j++) grad[j] += err * row[j];
+    }
+    for (let j = 0; j < d; j++) {
+      weights[j] -= learningRate * (grad[j] / n + (l2 / n) * weights[j]);
+    }
+    bias -= learningRate * (gradBias / n);
+  }
+
+  return { weights, bias };
+}
+
+export function linearPredictor(fit: LogisticFit, row: number[]): number {
+  let z = fit.bias;
+  for (let j = 0; j < fit.weights.length; j++) z += fit.weights[j] * row[j];
+  return z;
+}
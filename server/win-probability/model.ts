@@ -0,0 +1,167 @@
+/**
+ * Win-probability model: training with grouped cross-validation and Platt
+ * calibration, and per-deal scoring with feature contributions.
+ *
+ * Pure — no database access. store.ts loads the history and persists the
+ * result.
+ */
+
+import { featureLabel, type FeatureValues } from './features.js';
+import { fitLogistic, linearPredictor, sigmoid } from './logistic.js';
+import {
+  applyPlatt,
+  auc,
+  brierScore,
+  fitPlatt,
+  groupedFolds,
+  reliabilityCurve,
+  type PlattScaling,
+  type ReliabilityBin,
+} from './evaluation.js';
+
+export const MIN_CLOSED_DEALS = 40;
+export const MIN_DEALS_PER_CLASS = 10;
+const CV_FOLDS = 5;
+const L2 = 1.0;
+const TOP_DRIVERS = 5;
+
+export interface TrainingSample {
+  dealId: string;
+  features: FeatureValues;
+  won: 0 | 1;
+}
+
+export interface WinModel {
+  features: string[];
+  means: number[];
+  stds: number[];
+  weights: number[];
+  bias: number;
+  platt: PlattScaling;
+}
+
+export interface WinModelMetrics {
+  closed_deals: number;
+  won_deals: number;
+  lost_deals: number;
+  samples: number;
+  cv_auc: number | null;
+  brier: number;
+  calibration_curve: ReliabilityBin[];
+}
+
+export type TrainingResult =
+  | { status: 'active'; model: WinModel; metrics: WinModelMetrics }
+  | { status: 'insufficient_data'; reason: string; metrics: Pick<WinModelMetrics, 'closed_deals' | 'won_deals' | 'lost_deals' | 'samples'> };
+
+export interface FeatureContribution {
+  feature: string;
+  label: string;
+  value: number | null;
+  /** Log-odds contribution relative to an average deal */
+  contribution: number;
+}
+
+export interface WinScore {
+  probability: number;
+  drivers: FeatureContribution[];
+}
+
+interface Standardizer {
+  means: number[];
+  stds: number[];
+}
+
+function fitStandardizer(features: string[], rows: FeatureValues[]): Standardizer {
+  const means: number[] = [];
+  const stds: number[] = [];
+  for (const name of features) {
+    const values = rows.map(r => r[name]).filter((v): v is number => v !== null && v !== undefined);
+    const mean = values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+    const variance = values.length ? values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length : 0;
+    means.push(mean);
+    stds.push(variance > 1e-12 ? Math.sqrt(variance) : 1);
+  }
+  return { means, stds };
+}
+
+/** Missing values are imputed with the training mean, i.e. z = 0 */
+function standardize(features: string[], s: Standardizer, row: FeatureValues): number[] {
+  return features.map((name, j) => {
+    const v = row[name];
+    return v === null || v === undefined ? 0 : (v - s.means[j]) / s.stds[j];
+  });
+}
+
+function classCounts(samples: TrainingSample[]) {
+  const outcomes = new Map<string, 0 | 1>();
+  for (const s of samples) outcomes.set(s.dealId, s.won);
+  const won = [...outcomes.values()].filter(v => v === 1).length;
+  return { closed_deals: outcomes.size, won_deals: won, lost_deals: outcomes.size - won, samples: samples.length };
+}
+
+export function trainWinModel(samples: TrainingSample[], features: string[]): TrainingResult {
+  const counts = classCounts(samples);
+  if (counts.closed_deals < MIN_CLOSED_DEALS) {
+    return { status: 'insufficient_data', reason: `${counts.closed_deals} closed deals with usable history; need ${MIN_CLOSED_DEALS}`, metrics: counts };
+  }
+  if (counts.won_deals < MIN_DEALS_PER_CLASS || counts.lost_deals < MIN_DEALS_PER_CLASS) {
+    return { status: 'insufficient_data', reason: `Need at least ${MIN_DEALS_PER_CLASS} won and ${MIN_DEALS_PER_CLASS} lost deals (have ${counts.won_deals} won, ${counts.lost_deals} lost)`, metrics: counts };
+  }
+
+  const labels = samples.map(s => s.won);
+
+  // Out-of-fold predictions: every sample is scored by a model that never saw its deal
+  const folds = groupedFolds(samples.map(s => s.dealId), CV_FOLDS);
+  const oof = new Array<number>(samples.length).fill(0);
+  for (let k = 0; k < CV_FOLDS; k++) {
+    const trainIdx = samples.map((_, i) => i).filter(i => folds[i] !== k);
+    const testIdx = samples.map((_, i) => i).filter(i => folds[i] === k);
+    if (testIdx.length === 0) continue;
+    const std = fitStandardizer(features, trainIdx.map(i => samples[i].features));
+    const fit = fitLogistic(
+      trainIdx.map(i => standardize(features, std, samples[i].features)),
+      trainIdx.map(i => labels[i]),
+      { l2: L2 }
+    );
+    for (const i of testIdx) {
+      oof[i] = sigmoid(linearPredictor(fit, standardize(features, std, samples[i].features)));
+    }
+  }
+
+  const platt = fitPlatt(oof, labels);
+  const calibrated = oof.map(p => applyPlatt(platt, p));
+
+  const std = fitStandardizer(features, samples.map(s => s.features));
+  const fit = fitLogistic(samples.map(s => standardize(features, std, s.features)), labels, { l2: L2 });
+
+  return {
+    status: 'active',
+    model: { features, means: std.means, stds: std.stds, weights: fit.weights, bias: fit.bias, platt },
+    metrics: {
+      ...counts,
+      cv_auc: auc(oof, labels),
+      brier: brierScore(calibrated, labels),
+      calibration_curve: reliabilityCurve(calibrated, labels),
+    },
+  };
+}
+
+export function scoreWithModel(model: WinModel, values: FeatureValues): WinScore {
+  const z = standardize(model.features, model, values);
+  const raw = sigmoid(linearPredictor(model, z));
+
+  const drivers = model.features
+    .map((feature, j) => ({
+      feature,
+      label: featureLabel(feature),
+      value: values[feature] ?? null,
+      contribution: model.weights[j] * z[j],
+    }))
+    .filter(d => Math.abs(d.contribution) > 1e-3)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, TOP_DRIVERS)
+    .map(d => ({ ...d, contribution: Math.round(d.contribution * 1000) / 1000 }));
+
+  return { probability: applyPlatt(model.platt, raw), drivers };
+}
@@ -0,0 +1,194 @@
+/**
+ * Win-probability persistence: load deal history, train and store a model
+ * per workspace, and score open deals with the latest one.
+ */
+
+import { query } from '../db.js';
+import {
+  buildFeatures,
+  featureNames,
+  selectCustomFieldKeys,
+  trainingSnapshots,
+  type DealHistory,
+} from './features.js';
+import {
+  scoreWithModel,
+  trainWinModel,
+  type TrainingSample,
+  type WinModel,
+  type WinModelMetrics,
+  type WinScore,
+} from './model.js';
+
+export interface WinModelRecord {
+  id: string;
+  workspace_id: string;
+  status: 'active' | 'insufficient_data';
+  reason: string | null;
+  closed_deals: number;
+  won_deals: number;
+  lost_deals: number;
+  samples: number;
+  cv_auc: number | null;
+  brier: number | null;
+  calibration_curve: WinModelMetrics['calibration_curve'] | null;
+  model: (WinModel & { custom_fields: string[] }) | null;
+  trained_at: string;
+}
+
+const TRAINING_LOOKBACK_MONTHS = 24;
+const MAX_TRAINING_DEALS = 2000;
+export const MODEL_MAX_AGE_DAYS = 7;
+
+const RECORD_COLUMNS = `id, workspace_id, status, reason, closed_deals, won_deals, lost_deals, samples,
+  cv_auc::float AS cv_auc, brier::float AS brier, calibration_curve, model, trained_at`;
+
+/** Everything buildFeatures needs for each deal, in five queries */
+export async function loadDealHistories(workspaceId: string, dealIds: string[]): Promise<Map<string, DealHistory>> {
+  const histories = new Map<string, DealHistory>();
+  if (dealIds.length === 0) return histories;
+
+  const deals = await query<{ id: string; amount: string | null; created_at: Date; close_date: Date | null; custom_fields: Record<string, unknown> | null }>(
+    `SELECT id, amount, created_at, close_date, custom_fields
+     FROM deals WHERE workspace_id = $1 AND id = ANY($2)`,
+    [workspaceId, dealIds]
+  );
+  for (const d of deals.rows) {
+    histories.set(d.id, {
+      id: d.id,
+      amount: d.amount !== null ? parseFloat(d.amount) : null,
+      createdAt: new Date(d.created_at),
+      closeDate: d.close_date ? new Date(d.close_date) : null,
+      customFields: d.custom_fields || {},
+      stages: [],
+      activities: [],
+      contacts: [],
+      fields: [],
+    });
+  }
+
+  const [stages, activities, contacts, fields] = await Promise.all([
+    query<{ deal_id: string; to_stage_normalized: string | null; changed_at: Date }>(
+      `SELECT deal_id, to_stage_normalized, changed_at FROM deal_stage_history
+       WHERE workspace_id = $1 AND deal_id = ANY($2) ORDER BY changed_at`,
+      [workspaceId, dealIds]
+    ),
+    query<{ deal_id: string; timestamp: Date; activity_type: string | null }>(
+      `SELECT deal_id, timestamp, activity_type FROM activities
+       WHERE workspace_id = $1 AND deal_id = ANY($2) AND timestamp IS NOT NULL`,
+      [workspaceId, dealIds]
+    ),
+    query<{ deal_id: string; role: string | null; created_at: Date | null }>(
+      `SELECT deal_id, role, created_at FROM deal_contacts
+       WHERE workspace_id = $1 AND deal_id = ANY($2)`,
+      [workspaceId, dealIds]
+    ),
+    query<{ deal_id: string; field_name: string; to_value: string; changed_at: Date }>(
+      `SELECT deal_id, field_name, to_value, changed_at FROM deal_field_history
+       WHERE workspace_id = $1 AND deal_id = ANY($2) ORDER BY changed_at`,
+      [workspaceId, dealIds]
+    ),
+  ]);
+
+  for (const r of stages.rows) histories.get(r.deal_id)?.stages.push({ stageNormalized: r.to_stage_normalized, changedAt: new Date(r.changed_at) });
+  for (const r of activities.rows) histories.get(r.deal_id)?.activities.push({ timestamp: new Date(r.timestamp), type: r.activity_type });
+  for (const r of contacts.rows) histories.get(r.deal_id)?.contacts.push({ role: r.role, createdAt: r.created_at ? new Date(r.created_at) : null });
+  for (const r of fields.rows) histories.get(r.deal_id)?.fields.push({ fieldName: r.field_name, value: r.to_value, changedAt: new Date(r.changed_at) });
+
+  return histories;
+}
+
+export async function getLatestWinModel(workspaceId: string): Promise<WinModelRecord | null> {
+  const result = await query<WinModelRecord>(
+    `SELECT ${RECORD_COLUMNS} FROM win_probability_models
+     WHERE workspace_id = $1 ORDER BY trained_at DESC LIMIT 1`,
+    [workspaceId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Fit on deals closed in the last two years. Each deal contributes snapshots
+ * at 25/50/75% of its lifetime, labelled with how it eventually closed.
+ */
+export async function trainWorkspaceWinModel(workspaceId: string): Promise<WinModelRecord> {
+  const closed = await query<{ id: string; won: boolean; created_at: Date; closed_at: Date | null }>(
+    `SELECT d.id, d.stage_normalized = 'closed_won' AS won, d.created_at,
+            COALESCE(
+              (SELECT MIN(h.changed_at) FROM deal_stage_history h
+               WHERE h.deal_id = d.id AND h.to_stage_normalized IN ('closed_won', 'closed_lost')),
+              d.close_date::timestamptz
+            ) AS closed_at
+     FROM deals d
+     WHERE d.workspace_id = $1
+       AND d.stage_normalized IN ('closed_won', 'closed_lost')
+       AND d.close_date >= NOW() - make_interval(months => $2)
+     ORDER BY d.close_date DESC
+     LIMIT $3`,
+    [workspaceId, TRAINING_LOOKBACK_MONTHS, MAX_TRAINING_DEALS]
+  );
+
+  const histories = await loadDealHistories(workspaceId, closed.rows.map(r => r.id));
+  const customFields = selectCustomFieldKeys([...histories.values()]);
+  const features = featureNames(customFields);
+
+  const samples: TrainingSample[] = [];
+  for (const row of closed.rows) {
+    const history = histories.get(row.id);
+    if (!history || !row.closed_at) continue;
+    for (const asOf of trainingSnapshots(history.createdAt, new Date(row.closed_at))) {
+      samples.push({ dealId: row.id, features: buildFeatures(history, asOf, customFields), won: row.won ? 1 : 0 });
+    }
+  }
+
+  const result = trainWinModel(samples, features);
+  const inserted = await query<WinModelRecord>(
+    `INSERT INTO win_probability_models (
+       workspace_id, status, reason, closed_deals, won_deals, lost_deals, samples,
+       cv_auc, brier, calibration_curve, model
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING ${RECORD_COLUMNS}`,
+    result.status === 'active'
+      ? [
+          workspaceId, 'active', null, result.metrics.closed_deals, result.metrics.won_deals,
+          result.metrics.lost_deals, result.metrics.samples, result.metrics.cv_auc, result.metrics.brier,
+          JSON.stringify(result.metrics.calibration_curve), JSON.stringify({ ...result.model, custom_fields: customFields }),
+        ]
+      : [
+          workspaceId, 'insufficient_data', result.reason, result.metrics.closed_deals, result.metrics.won_deals,
+          result.metrics.lost_deals, result.metrics.samples, null, null, null, null,
+        ]
+  );
+
+  console.log(
+    `[win-probability] Trained ${workspaceId}: ${result.status}` +
+    (result.status === 'active' ? ` (AUC ${result.metrics.cv_auc?.toFixed(3) ?? 'n/a'}, ${result.metrics.samples} samples)` : ` — ${result.reason}`)
+  );
+  return inserted.rows[0];
+}
+
+/** The latest model, retrained when missing or older than MODEL_MAX_AGE_DAYS */
+export async function getOrTrainWinModel(workspaceId: string): Promise<WinModelRecord> {
+  const latest = await getLatestWinModel(workspaceId);
+  if (latest && Date.now() - new Date(latest.trained_at).getTime() < MODEL_MAX_AGE_DAYS * 86400000) {
+    return latest;
+  }
+  return trainWorkspaceWinModel(workspaceId);
+}
+
+/** Current win probability per deal, or an empty map when there is no active model */
+export async function scoreDealsWithModel(
+  workspaceId: string,
+  record: WinModelRecord,
+  dealIds: string[]
+): Promise<Map<string, WinScore>> {
+  const scores = new Map<string, WinScore>();
+  if (record.status !== 'active' || !record.model) return scores;
+
+  const histories = await loadDealHistories(workspaceId, dealIds);
+  const now = new Date();
+  for (const [dealId, history] of histories) {
+    scores.set(dealId, scoreWithModel(record.model, buildFeatures(history, now, record.model.custom_fields)));
+  }
+  return scores;
+}
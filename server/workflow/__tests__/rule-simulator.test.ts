@@ -0,0 +1,96 @@
+/**
+ * Tests for change operators and the workflow rule simulator
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db.js', () => ({ query: vi.fn(), getClient: vi.fn() }));
+
+import { query } from '../../db.js';
+import { RuleEvaluator, type RuleContext } from '../rule-evaluator.js';
+import { simulateRule } from '../rule-simulator.js';
+
+const mockQuery = query as unknown as ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  mockQuery.mockReset();
+});
+
+describe('RuleEvaluator change operators', () => {
+  const evaluator = new RuleEvaluator();
+  const context: RuleContext = {
+    deal: { id: 'd1', amount: 70000 },
+    change: { field: 'amount', from: '100000', to: '70000', changed_at: '2026-05-20T10:00:00.000Z' },
+    history: {
+      close_date: [
+        { field: 'close_date', from: '2026-03-31', to: '2026-04-30', changed_at: '2026-04-02T00:00:00.000Z' },
+        { field: 'close_date', from: '2026-04-30', to: '2026-06-30', changed_at: '2026-05-10T00:00:00.000Z' },
+        { field: 'close_date', from: '2026-06-30', to: '2026-06-15', changed_at: '2026-05-15T00:00:00.000Z' },
+      ],
+    },
+    as_of: '2026-05-20T12:00:00.000Z',
+  };
+
+  it('matches drops by percentage and old/new values', () => {
+    expect(evaluator.evaluate({ field: 'deal.amount', op: 'delta_pct', value: -20 }, context)).toBe(true);
+    expect(evaluator.evaluate({ field: 'deal.amount', op: 'delta_pct', value: -40 }, context)).toBe(false);
+    expect(evaluator.evaluate({ field: 'deal.amount', op: 'changed_from', value: 100000 }, context)).toBe(true);
+    expect(evaluator.evaluate({ field: 'deal.close_date', op: 'changed_to', value: '2026-06-15' }, context)).toBe(true);
+  });
+
+  it('counts pushes within a window and this quarter', () => {
+    const pushedTwice = { days: 'quarter', count: 2, direction: 'increase' };
+    expect(evaluator.evaluate({ field: 'deal.close_date', op: 'within_days', value: pushedTwice }, context)).toBe(true);
+    expect(evaluator.evaluate({ field: 'deal.close_date', op: 'within_days', value: { days: 30, count: 2, direction: 'increase' } }, context)).toBe(false);
+    expect(evaluator.validateCondition({ field: 'deal.close_date', op: 'within_days', value: { days: -1 } }).valid).toBe(false);
+  });
+});
+
+describe('simulateRule', () => {
+  it('replays field history and reports the deals that would have fired', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM deals')) {
+        return {
+          rows: [
+            { id: 'd1', name: 'Acme', amount: 60000, stage_normalized: 'proposal', created_at: '2026-01-01' },
+            { id: 'd2', name: 'Globex', amount: 95000, stage_normalized: 'proposal', created_at: '2026-01-01' },
+          ],
+        };
+      }
+      if (sql.includes('FROM deal_stage_history')) return { rows: [] };
+      if (sql.includes('FROM deal_field_history')) {
+        return {
+          rows: [
+            { deal_id: 'd1', field_name: 'amount', from_value: '100000', to_value: '60000', changed_at: '2026-05-10T09:00:00.000Z' },
+            { deal_id: 'd2', field_name: 'amount', from_value: '100000', to_value: '95000', changed_at: '2026-05-12T09:00:00.000Z' },
+            { deal_id: 'd1', field_name: 'closedate', from_value: '2026-06-30', to_value: '2026-07-31', changed_at: '2026-05-11T09:00:00.000Z' },
+          ],
+        };
+      }
+      return { rows: [] };
+    });
+
+    const result = await simulateRule('ws-1', {
+      trigger_type: 'deal_field_changed',
+      trigger_config: { fields: ['amount'] },
+      condition_json: { field: 'deal.amount', op: 'delta_pct', value: -20 },
+      action_type: 'slack_notify',
+      action_payload: {},
+      execution_mode: 'queue',
+      scope: 'all',
+      scope_filter: {},
+    }, { days: 30, now: new Date('2026-05-20T00:00:00.000Z') });
+
+    expect(result.evaluated).toBe(2);
+    expect(result.matches).toEqual([
+      expect.objectContaining({
+        deal_id: 'd1',
+        fired_at: '2026-05-10T09:00:00.000Z',
+        trigger: { type: 'deal_field_changed', field: 'amount', from: '100000', to: '60000' },
+        action_type: 'slack_notify',
+      }),
+    ]);
+    expect(result.deals).toEqual([{ deal_id: 'd1', deal_name: 'Acme', fire_count: 1 }]);
+    expect(mockQuery.mock.calls.some(([sql]) => /INSERT|UPDATE/.test(sql))).toBe(false);
+  });
+});
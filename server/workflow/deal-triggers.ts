@@ -0,0 +1,340 @@
+/**
+ * Deal Triggers
+ * Shared plumbing for workflow rules that fire on deal changes or on a clock:
+ * trigger config validation, trigger matching, change history loading and
+ * point-in-time deal reconstruction (used by the trigger manager and the simulator)
+ */
+
+import cron from 'node-cron';
+import { query } from '../db.js';
+import { TRACKED_DEAL_FIELDS } from '../connectors/hubspot/field-tracker.js';
+import type { ConditionJSON, DealFieldChange, RuleContext } from './rule-evaluator.js';
+
+export const CHANGE_TRIGGER_TYPES = ['deal_field_changed', 'stage_entered', 'stage_exited'] as const;
+export const SWEEP_TRIGGER_TYPES = ['no_activity', 'scheduled'] as const;
+
+export type ChangeTriggerType = typeof CHANGE_TRIGGER_TYPES[number];
+export type SweepTriggerType = typeof SWEEP_TRIGGER_TYPES[number];
+export type DealTriggerType = ChangeTriggerType | SweepTriggerType;
+
+export const DEFAULT_NO_ACTIVITY_SCHEDULE = '0 8 * * *';
+
+const DEFAULT_HISTORY_DAYS = 90;
+const CLOSED_STAGES = ['closed_won', 'closed_lost'];
+
+export interface DealTriggerConfig {
+  fields?: string[];      // deal_field_changed
+  stages?: string[];      // stage_entered / stage_exited
+  days?: number;          // no_activity
+  schedule?: string;      // no_activity / scheduled
+  timezone?: string;
+}
+
+export interface DealWorkflowRule {
+  id: string;
+  workspace_id: string;
+  name: string;
+  trigger_type: string;
+  trigger_config: DealTriggerConfig;
+  condition_json: ConditionJSON;
+  action_type: string;
+  action_payload: Record<string, any>;
+  execution_mode: 'auto' | 'queue' | 'manual';
+  scope: string;
+  scope_filter: Record<string, any>;
+}
+
+/**
+ * A single deal change. Stage changes use field "stage" and carry the
+ * normalized stage names alongside the raw ones.
+ */
+export interface DealChangeEvent {
+  deal_id: string;
+  change: DealFieldChange;
+  from_normalized?: string | null;
+  to_normalized?: string | null;
+}
+
+export function isDealTriggerType(type: string): type is DealTriggerType {
+  return (CHANGE_TRIGGER_TYPES as readonly string[]).includes(type)
+    || (SWEEP_TRIGGER_TYPES as readonly string[]).includes(type);
+}
+
+export function isChangeTriggerType(type: string): type is ChangeTriggerType {
+  return (CHANGE_TRIGGER_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Validate trigger_config for deal trigger types. Other trigger types ignore it.
+ */
+export function validateTriggerConfig(
+  triggerType: string,
+  config: DealTriggerConfig | undefined
+): { valid: boolean; error?: string } {
+  if (!isDealTriggerType(triggerType)) return { valid: true };
+  const tc = config || {};
+
+  switch (triggerType) {
+    case 'deal_field_changed': {
+      if (!Array.isArray(tc.fields) || tc.fields.length === 0) {
+        return { valid: false, error: 'deal_field_changed needs trigger_config.fields' };
+      }
+      const unknown = tc.fields.filter(f => !(f in TRACKED_DEAL_FIELDS));
+      if (unknown.length > 0) {
+        return {
+          valid: false,
+          error: `Untracked field(s): ${unknown.join(', ')} — tracked: ${Object.keys(TRACKED_DEAL_FIELDS).join(', ')}`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case 'stage_entered':
+    case 'stage_exited':
+      if (tc.stages !== undefined && (!Array.isArray(tc.stages) || tc.stages.some(s => typeof s !== 'string'))) {
+        return { valid: false, error: 'trigger_config.stages must be an array of stage names' };
+      }
+      return { valid: true };
+
+    case 'no_activity':
+      if (!Number.isInteger(tc.days) || (tc.days as number) <= 0) {
+        return { valid: false, error: 'no_activity needs a positive integer trigger_config.days' };
+      }
+      return validateSchedule(tc.schedule ?? DEFAULT_NO_ACTIVITY_SCHEDULE, tc.timezone);
+
+    case 'scheduled':
+      if (!tc.schedule) {
+        return { valid: false, error: 'scheduled needs trigger_config.schedule (cron expression)' };
+      }
+      return validateSchedule(tc.schedule, tc.timezone);
+  }
+
+  return { valid: true };
+}
+
+function validateSchedule(schedule: string, timezone?: string): { valid: boolean; error?: string } {
+  if (!cron.validate(schedule)) {
+    return { valid: false, error: `Invalid cron schedule: ${schedule}` };
+  }
+  if (timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      return { valid: false, error: `Invalid timezone: ${timezone}` };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Does this change fire a change-triggered rule?
+ */
+export function matchesChangeTrigger(
+  rule: Pick<DealWorkflowRule, 'trigger_type' | 'trigger_config'>,
+  event: DealChangeEvent
+): boolean {
+  const tc = rule.trigger_config || {};
+  const { change } = event;
+  const stageListed = (raw: string | null, normalized: string | null | undefined) =>
+    !tc.stages?.length || tc.stages.some(s => s === raw || s === normalized);
+
+  switch (rule.trigger_type) {
+    case 'deal_field_changed':
+      return change.field !== 'stage' && (tc.fields || []).includes(change.field);
+
+    case 'stage_entered':
+      return change.field === 'stage' && stageListed(change.to, event.to_normalized);
+
+    case 'stage_exited':
+      return change.field === 'stage' && change.from !== null && stageListed(change.from, event.from_normalized);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Dedup key recorded in workflow_rule_firings for a change
+ */
+export function changeEventKey(event: DealChangeEvent): string {
+  return `${event.change.field}@${event.change.changed_at}`;
+}
+
+/**
+ * Dedup key for a no_activity firing — one per quiet period
+ */
+export function noActivityEventKey(lastActivityAt: Date | null): string {
+  return `no_activity@${lastActivityAt ? lastActivityAt.toISOString() : 'never'}`;
+}
+
+/**
+ * Is the deal inside the rule's scope?
+ *   single  — scope_filter.deal_id
+ *   segment — scope_filter.pipeline
+ */
+export function dealInScope(rule: Pick<DealWorkflowRule, 'scope' | 'scope_filter'>, deal: Record<string, any>): boolean {
+  const filter = rule.scope_filter || {};
+  if (rule.scope === 'single') return !filter.deal_id || filter.deal_id === deal.id;
+  if (rule.scope === 'segment') return !filter.pipeline || filter.pipeline === deal.pipeline;
+  return true;
+}
+
+export function isOpenDeal(deal: Record<string, any>): boolean {
+  return !CLOSED_STAGES.includes(deal.stage_normalized);
+}
+
+/**
+ * How far back change history must reach for a condition — the longest
+ * within_days window it uses, or 90 days
+ */
+export function historyWindowDays(condition: ConditionJSON | undefined): number {
+  if (!condition) return DEFAULT_HISTORY_DAYS;
+  const nested = [...(condition.and || []), ...(condition.or || [])];
+  let days = nested.reduce((max, c) => Math.max(max, historyWindowDays(c)), DEFAULT_HISTORY_DAYS);
+
+  if (condition.op === 'within_days') {
+    const spec = typeof condition.value === 'object' && condition.value !== null ? condition.value : { days: condition.value };
+    days = Math.max(days, spec.days === 'quarter' ? 92 : Number(spec.days) || 0);
+  }
+  return days;
+}
+
+/**
+ * Load stage and field changes for a workspace (optionally a set of deals)
+ * between two instants, oldest first
+ */
+export async function loadDealChanges(
+  workspaceId: string,
+  since: Date,
+  until: Date,
+  dealIds?: string[]
+): Promise<DealChangeEvent[]> {
+  const params: any[] = [workspaceId, since.toISOString(), until.toISOString()];
+  const dealFilter = dealIds ? `AND deal_id = ANY($4)` : '';
+  if (dealIds) params.push(dealIds);
+
+  const [stageResult, fieldResult] = await Promise.all([
+    query<{
+      deal_id: string;
+      stage: string;
+      stage_normalized: string | null;
+      from_stage: string | null;
+      from_stage_normalized: string | null;
+      entered_at: string | Date;
+    }>(
+      `SELECT deal_id, stage, stage_normalized, from_stage, from_stage_normalized, entered_at
+       FROM (
+         SELECT deal_id, stage, stage_normalized, entered_at,
+                LAG(stage) OVER (PARTITION BY deal_id ORDER BY entered_at) AS from_stage,
+                LAG(stage_normalized) OVER (PARTITION BY deal_id ORDER BY entered_at) AS from_stage_normalized
+         FROM deal_stage_history
+         WHERE workspace_id = $1 AND entered_at <= $3 ${dealFilter}
+       ) h
+       WHERE entered_at > $2`,
+      params
+    ),
+    query<{
+      deal_id: string;
+      field_name: string;
+      from_value: string | null;
+      to_value: string;
+      changed_at: string | Date;
+    }>(
+      `SELECT deal_id, field_name, from_value, to_value, changed_at
+       FROM deal_field_history
+       WHERE workspace_id = $1 AND changed_at > $2 AND changed_at <= $3 ${dealFilter}`,
+      params
+    ),
+  ]);
+
+  const columnFor = new Map<string, string>(
+    Object.entries(TRACKED_DEAL_FIELDS).map(([column, historyName]) => [historyName, column])
+  );
+
+  const events: DealChangeEvent[] = [
+    ...stageResult.rows.map(row => ({
+      deal_id: row.deal_id,
+      change: {
+        field: 'stage',
+        from: row.from_stage,
+        to: row.stage,
+        changed_at: new Date(row.entered_at).toISOString(),
+      },
+      from_normalized: row.from_stage_normalized,
+      to_normalized: row.stage_normalized,
+    })),
+    ...fieldResult.rows.map(row => ({
+      deal_id: row.deal_id,
+      change: {
+        field: columnFor.get(row.field_name) ?? row.field_name,
+        from: row.from_value,
+        to: row.to_value,
+        changed_at: new Date(row.changed_at).toISOString(),
+      },
+    })),
+  ];
+
+  return events.sort((a, b) => a.change.changed_at.localeCompare(b.change.changed_at));
+}
+
+/**
+ * Group change events into per-deal history keyed by field (oldest first).
+ * Stage changes are listed under both "stage" and "stage_normalized".
+ */
+export function groupHistory(events: DealChangeEvent[]): Map<string, Record<string, DealFieldChange[]>> {
+  const byDeal = new Map<string, Record<string, DealFieldChange[]>>();
+
+  const push = (dealId: string, change: DealFieldChange) => {
+    if (!byDeal.has(dealId)) byDeal.set(dealId, {});
+    const history = byDeal.get(dealId)!;
+    (history[change.field] ||= []).push(change);
+  };
+
+  for (const event of events) {
+    push(event.deal_id, event.change);
+    if (event.change.field === 'stage') {
+      push(event.deal_id, {
+        field: 'stage_normalized',
+        from: event.from_normalized ?? null,
+        to: event.to_normalized ?? null,
+        changed_at: event.change.changed_at,
+      });
+    }
+  }
+
+  return byDeal;
+}
+
+/**
+ * Reconstruct a deal as it stood at `asOf` by rolling back every recorded
+ * change made after that instant
+ */
+export function dealAsOf(
+  deal: Record<string, any>,
+  history: Record<string, DealFieldChange[]> | undefined,
+  asOf: Date
+): Record<string, any> {
+  const snapshot = { ...deal };
+  for (const [field, changes] of Object.entries(history || {})) {
+    const firstLater = changes.find(c => new Date(c.changed_at) > asOf);
+    if (firstLater) snapshot[field] = firstLater.from;
+  }
+  return snapshot;
+}
+
+/**
+ * Build the evaluation context for a deal-triggered rule
+ */
+export function buildDealContext(
+  deal: Record<string, any>,
+  trigger: { type: string; source_id: string },
+  options: { event?: DealChangeEvent; history?: Record<string, DealFieldChange[]>; asOf?: Date } = {}
+): RuleContext {
+  return {
+    deal,
+    trigger,
+    change: options.event?.change,
+    history: options.history || {},
+    as_of: (options.asOf || new Date()).toISOString(),
+  };
+}
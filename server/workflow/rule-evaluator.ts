@@ -6,7 +6,8 @@
 export interface ConditionJSON {
   // Simple condition
   field?: string;
-  op?: 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'contains' | 'not_null' | 'is_null' | 'in' | 'not_in';
+  op?: 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'contains' | 'not_null' | 'is_null' | 'in' | 'not_in'
+    | ChangeOperator;
   value?: any;
 
   // Complex conditions
@@ -14,6 +15,31 @@ export interface ConditionJSON {
   or?: ConditionJSON[];
 }
 
+/**
+ * Operators that look at how a deal field changed rather than its current value.
+ * `field` names a deal column ("deal.amount" or "amount").
+ *   changed_from / changed_to — the triggering (or latest) change had this old / new value
+ *   delta_pct                — that change moved a numeric field by at least value% (negative = drop)
+ *   within_days              — the field changed at least `count` times in the last `days`;
+ *                              value is a day count or { days: number | 'quarter', count?, direction? }
+ */
+export type ChangeOperator = 'changed_from' | 'changed_to' | 'delta_pct' | 'within_days';
+
+const CHANGE_OPERATORS: string[] = ['changed_from', 'changed_to', 'delta_pct', 'within_days'];
+
+export interface DealFieldChange {
+  field: string;           // deal column: amount, close_date, forecast_category, owner, stage, stage_normalized
+  from: string | null;
+  to: string | null;
+  changed_at: string;      // ISO timestamp
+}
+
+export interface WithinDaysValue {
+  days: number | 'quarter';
+  count?: number;
+  direction?: 'increase' | 'decrease';
+}
+
 export interface RuleContext {
   // Finding metadata
   finding?: {
@@ -43,6 +69,15 @@ export interface RuleContext {
     type: string;
     source_id: string;
   };
+
+  // The deal change that fired the rule (field and stage triggers)
+  change?: DealFieldChange;
+
+  // Deal change history keyed by field, oldest first
+  history?: Record<string, DealFieldChange[]>;
+
+  // Evaluation time (ISO) — defaults to now; the simulator sets it to the replayed event
+  as_of?: string;
 }
 
 export class RuleEvaluator {
@@ -64,10 +99,83 @@ export class RuleEvaluator {
       return true; // Empty condition always passes
     }
 
+    if (CHANGE_OPERATORS.includes(condition.op)) {
+      return this.evaluateChangeOperator(condition.op as ChangeOperator, condition.field, condition.value, context);
+    }
+
     const fieldValue = this.resolveField(condition.field, context);
     return this.evaluateOperator(condition.op, fieldValue, condition.value);
   }
 
+  /**
+   * Evaluate a change operator against the triggering change or the deal's history
+   */
+  private evaluateChangeOperator(
+    op: ChangeOperator,
+    fieldPath: string,
+    compareValue: any,
+    context: RuleContext
+  ): boolean {
+    const field = fieldPath.startsWith('deal.') ? fieldPath.slice('deal.'.length) : fieldPath;
+    const asOf = context.as_of ? new Date(context.as_of) : new Date();
+
+    if (op === 'within_days') {
+      const spec: WithinDaysValue = typeof compareValue === 'object' && compareValue !== null
+        ? compareValue
+        : { days: Number(compareValue) };
+      const since = spec.days === 'quarter'
+        ? new Date(Date.UTC(asOf.getUTCFullYear(), Math.floor(asOf.getUTCMonth() / 3) * 3, 1))
+        : new Date(asOf.getTime() - Number(spec.days) * 24 * 60 * 60 * 1000);
+
+      const changes = (context.history?.[field] || []).filter(c => {
+        const at = new Date(c.changed_at);
+        if (at <= since || at > asOf) return false;
+        if (spec.direction === 'increase') return compareChangeValues(c.from, c.to) > 0;
+        if (spec.direction === 'decrease') return compareChangeValues(c.from, c.to) < 0;
+        return true;
+      });
+      return changes.length >= (spec.count ?? 1);
+    }
+
+    const change = this.latestChange(field, context, asOf);
+    if (!change) return false;
+
+    switch (op) {
+      case 'changed_from':
+        return compareValue === undefined || changeValueMatches(change.from, compareValue);
+
+      case 'changed_to':
+        return compareValue === undefined || changeValueMatches(change.to, compareValue);
+
+      case 'delta_pct': {
+        const from = Number(change.from);
+        const to = Number(change.to);
+        const threshold = Number(compareValue);
+        if (change.from === null || change.to === null || isNaN(from) || isNaN(to) || from === 0 || isNaN(threshold)) {
+          return false;
+        }
+        const pct = ((to - from) / Math.abs(from)) * 100;
+        return threshold < 0 ? pct <= threshold : pct >= threshold;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * The triggering change when it is for this field, otherwise the most recent
+   * recorded change at or before the evaluation time
+   */
+  private latestChange(field: string, context: RuleContext, asOf: Date): DealFieldChange | null {
+    if (context.change?.field === field) return context.change;
+
+    const history = context.history?.[field] || [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (new Date(history[i].changed_at) <= asOf) return history[i];
+    }
+    return null;
+  }
+
   /**
    * Resolve a field path from context
    * Supports dot notation: "deal.amount", "finding.metadata.stage_age_ratio"
@@ -339,11 +447,61 @@ export class RuleEvaluator {
       return { valid: false, error: 'Condition must have "op"' };
     }
 
-    const validOps = ['gt', 'lt', 'eq', 'gte', 'lte', 'contains', 'not_null', 'is_null', 'in', 'not_in'];
+    const validOps = ['gt', 'lt', 'eq', 'gte', 'lte', 'contains', 'not_null', 'is_null', 'in', 'not_in', ...CHANGE_OPERATORS];
     if (!validOps.includes(condition.op)) {
       return { valid: false, error: `Invalid operator: ${condition.op}` };
     }
 
+    if (condition.op === 'delta_pct' && (typeof condition.value !== 'number' || condition.value === 0)) {
+      return { valid: false, error: '"delta_pct" needs a non-zero numeric value' };
+    }
+
+    if (condition.op === 'within_days') {
+      const spec = typeof condition.value === 'object' && condition.value !== null
+        ? condition.value
+        : { days: condition.value };
+      if (spec.days !== 'quarter' && !(Number(spec.days) > 0)) {
+        return { valid: false, error: '"within_days" needs a positive day count or "quarter"' };
+      }
+      if (spec.count !== undefined && !(Number.isInteger(spec.count) && spec.count > 0)) {
+        return { valid: false, error: '"within_days" count must be a positive integer' };
+      }
+      if (spec.direction !== undefined && spec.direction !== 'increase' && spec.direction !== 'decrease') {
+        return { valid: false, error: '"within_days" direction must be "increase" or "decrease"' };
+      }
+    }
+
     return { valid: true };
   }
 }
+
+/**
+ * Compare a change's old and new values: > 0 when the value went up (later
+ * date, larger number), < 0 when it went down, 0 when not comparable
+ */
+function compareChangeValues(from: string | null, to: string | null): number {
+  if (from === null || to === null) return 0;
+
+  const fromNum = Number(from);
+  const toNum = Number(to);
+  if (from.trim() !== '' && to.trim() !== '' && !isNaN(fromNum) && !isNaN(toNum)) {
+    return Math.sign(toNum - fromNum);
+  }
+
+  const fromDate = Date.parse(from);
+  const toDate = Date.parse(to);
+  if (!isNaN(fromDate) && !isNaN(toDate)) {
+    return Math.sign(toDate - fromDate);
+  }
+
+  return 0;
+}
+
+function changeValueMatches(value: string | null, compareValue: any): boolean {
+  if (Array.isArray(compareValue)) {
+    return compareValue.some(v => changeValueMatches(value, v));
+  }
+  if (value === null || compareValue === null) return value === compareValue;
+  if (typeof compareValue === 'number') return Number(value) === compareValue;
+  return value === String(compareValue);
+}
@@ -0,0 +1,228 @@
+/**
+ * Rule Simulator
+ * Replays a draft workflow rule against the last N days of deal stage and
+ * field history and reports which deals would have fired which action —
+ * without executing, queueing or recording anything
+ */
+
+import { query } from '../db.js';
+import { RuleEvaluator } from './rule-evaluator.js';
+import {
+  buildDealContext,
+  changeEventKey,
+  dealAsOf,
+  dealInScope,
+  groupHistory,
+  historyWindowDays,
+  isChangeTriggerType,
+  isOpenDeal,
+  loadDealChanges,
+  matchesChangeTrigger,
+  noActivityEventKey,
+  type DealWorkflowRule,
+} from './deal-triggers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SIMULATION_DAYS = 180;
+const DEFAULT_MAX_MATCHES = 500;
+
+export type DraftRule = Omit<DealWorkflowRule, 'id' | 'workspace_id' | 'name'> & { name?: string };
+
+export interface SimulatedFiring {
+  deal_id: string;
+  deal_name: string | null;
+  fired_at: string;
+  trigger: {
+    type: string;
+    field?: string;
+    from?: string | null;
+    to?: string | null;
+    last_activity_at?: string | null;
+  };
+  action_type: string;
+  execution_mode: string;
+}
+
+export interface SimulationResult {
+  trigger_type: string;
+  window: { from: string; to: string; days: number };
+  /** change events replayed, or daily checkpoints for no_activity / scheduled rules */
+  evaluated: number;
+  matches: SimulatedFiring[];
+  deals: Array<{ deal_id: string; deal_name: string | null; fire_count: number }>;
+  truncated: boolean;
+}
+
+export class RuleSimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSimulationError';
+  }
+}
+
+/**
+ * Simulate a rule over the trailing window.
+ *
+ * Change triggers replay each recorded stage/field change in order against the
+ * deal as it stood right after that change. no_activity and scheduled rules are
+ * checked once per day — a weekly schedule would fire less often than shown,
+ * but against the same deals.
+ */
+export async function simulateRule(
+  workspaceId: string,
+  rule: DraftRule,
+  options: { days?: number; maxMatches?: number; now?: Date } = {}
+): Promise<SimulationResult> {
+  const days = Math.min(Math.max(Math.floor(options.days ?? 30), 1), MAX_SIMULATION_DAYS);
+  const maxMatches = options.maxMatches ?? DEFAULT_MAX_MATCHES;
+  const until = options.now ?? new Date();
+  const since = new Date(until.getTime() - days * DAY_MS);
+
+  if (!isChangeTriggerType(rule.trigger_type) && rule.trigger_type !== 'no_activity' && rule.trigger_type !== 'scheduled') {
+    throw new RuleSimulationError(`Simulation is not supported for trigger type "${rule.trigger_type}"`);
+  }
+
+  const dealsResult = await query<Record<string, any>>(
+    `SELECT * FROM deals WHERE workspace_id = $1`,
+    [workspaceId]
+  );
+  const deals = new Map(dealsResult.rows.filter(d => dealInScope(rule, d)).map(d => [d.id, d]));
+
+  const historyStart = new Date(since.getTime() - historyWindowDays(rule.condition_json) * DAY_MS);
+  const events = (await loadDealChanges(workspaceId, historyStart, until)).filter(e => deals.has(e.deal_id));
+  const history = groupHistory(events);
+
+  const evaluator = new RuleEvaluator();
+  const fired = new Set<string>();
+  const matches: SimulatedFiring[] = [];
+  let evaluated = 0;
+  let truncated = false;
+
+  const record = (deal: Record<string, any>, firedAt: Date, trigger: SimulatedFiring['trigger']) => {
+    if (matches.length >= maxMatches) {
+      truncated = true;
+      return;
+    }
+    matches.push({
+      deal_id: deal.id,
+      deal_name: deal.name ?? null,
+      fired_at: firedAt.toISOString(),
+      trigger,
+      action_type: rule.action_type,
+      execution_mode: rule.execution_mode,
+    });
+  };
+
+  if (isChangeTriggerType(rule.trigger_type)) {
+    for (const event of events) {
+      const at = new Date(event.change.changed_at);
+      if (at <= since || !matchesChangeTrigger(rule, event)) continue;
+      evaluated++;
+
+      const dealHistory = history.get(event.deal_id);
+      const deal = dealAsOf(deals.get(event.deal_id)!, dealHistory, at);
+      const context = buildDealContext(deal, { type: rule.trigger_type, source_id: 'simulation' }, {
+        event,
+        history: dealHistory,
+        asOf: at,
+      });
+      if (!evaluator.evaluate(rule.condition_json, context)) continue;
+
+      const key = `${event.deal_id}|${changeEventKey(event)}`;
+      if (fired.has(key)) continue;
+      fired.add(key);
+
+      record(deal, at, {
+        type: rule.trigger_type,
+        field: event.change.field,
+        from: event.change.from,
+        to: event.change.to,
+      });
+    }
+  } else {
+    const activity = rule.trigger_type === 'no_activity'
+      ? await loadActivityTimes(workspaceId, new Date(historyStart.getTime() - (rule.trigger_config.days ?? 0) * DAY_MS), until)
+      : new Map<string, Date[]>();
+
+    for (let day = days - 1; day >= 0; day--) {
+      const checkpoint = new Date(until.getTime() - day * DAY_MS);
+      evaluated++;
+
+      for (const current of deals.values()) {
+        if (new Date(current.created_at) > checkpoint) continue;
+        const dealHistory = history.get(current.id);
+        const deal = dealAsOf(current, dealHistory, checkpoint);
+        if (!isOpenDeal(deal)) continue;
+
+        let key = `${deal.id}|${checkpoint.toISOString()}`;
+        let lastActivityAt: Date | null = null;
+        if (rule.trigger_type === 'no_activity') {
+          lastActivityAt = lastActivityBefore(activity.get(deal.id), current.last_activity_date, checkpoint);
+          const quietSince = lastActivityAt ?? new Date(current.created_at);
+          if (checkpoint.getTime() - quietSince.getTime() < (rule.trigger_config.days ?? 0) * DAY_MS) continue;
+          key = `${deal.id}|${noActivityEventKey(lastActivityAt)}`;
+        }
+        if (fired.has(key)) continue;
+
+        const context = buildDealContext(deal, { type: rule.trigger_type, source_id: 'simulation' }, {
+          history: dealHistory,
+          asOf: checkpoint,
+        });
+        if (!evaluator.evaluate(rule.condition_json, context)) continue;
+        fired.add(key);
+
+        record(deal, checkpoint, rule.trigger_type === 'no_activity'
+          ? { type: rule.trigger_type, last_activity_at: lastActivityAt?.toISOString() ?? null }
+          : { type: rule.trigger_type });
+      }
+    }
+  }
+
+  const byDeal = new Map<string, { deal_id: string; deal_name: string | null; fire_count: number }>();
+  for (const match of matches) {
+    const entry = byDeal.get(match.deal_id) ?? { deal_id: match.deal_id, deal_name: match.deal_name, fire_count: 0 };
+    entry.fire_count++;
+    byDeal.set(match.deal_id, entry);
+  }
+
+  return {
+    trigger_type: rule.trigger_type,
+    window: { from: since.toISOString(), to: until.toISOString(), days },
+    evaluated,
+    matches,
+    deals: [...byDeal.values()].sort((a, b) => b.fire_count - a.fire_count),
+    truncated,
+  };
+}
+
+async function loadActivityTimes(workspaceId: string, since: Date, until: Date): Promise<Map<string, Date[]>> {
+  const result = await query<{ deal_id: string; timestamp: string | Date }>(
+    `SELECT deal_id, timestamp
+     FROM activities
+     WHERE workspace_id = $1 AND deal_id IS NOT NULL AND timestamp > $2 AND timestamp <= $3
+     ORDER BY timestamp`,
+    [workspaceId, since.toISOString(), until.toISOString()]
+  );
+
+  const byDeal = new Map<string, Date[]>();
+  for (const row of result.rows) {
+    if (!byDeal.has(row.deal_id)) byDeal.set(row.deal_id, []);
+    byDeal.get(row.deal_id)!.push(new Date(row.timestamp));
+  }
+  return byDeal;
+}
+
+/**
+ * Latest activity at or before the checkpoint; falls back to the deal's
+ * last_activity_date when that is itself before the checkpoint
+ */
+function lastActivityBefore(times: Date[] | undefined, lastActivityDate: string | Date | null, checkpoint: Date): Date | null {
+  let latest: Date | null = null;
+  for (const t of times || []) {
+    if (t <= checkpoint) latest = t;
+  }
+  if (latest) return latest;
+
+  const fallback = lastActivityDate ? new Date(lastActivityDate) : null;
+  return fallback && fallback <= checkpoint ? fallback : null;
+}
@@ -7,6 +7,24 @@ import { query } from '../db.js';
 import { createLogger } from '../utils/logger.js';
 import { RuleEvaluator, type RuleContext, type ConditionJSON } from './rule-evaluator.js';
 import { ActionExecutor, type WorkflowRule, type ActionResult } from './action-executor.js';
+import { scheduleJob, type ClusterJob } from '../scheduling/cluster-scheduler.js';
+import type { StageChange } from '../connectors/hubspot/stage-tracker.js';
+import type { FieldChange } from '../connectors/hubspot/field-tracker.js';
+import {
+  CHANGE_TRIGGER_TYPES,
+  SWEEP_TRIGGER_TYPES,
+  DEFAULT_NO_ACTIVITY_SCHEDULE,
+  buildDealContext,
+  changeEventKey,
+  dealInScope,
+  groupHistory,
+  historyWindowDays,
+  loadDealChanges,
+  matchesChangeTrigger,
+  noActivityEventKey,
+  type DealChangeEvent,
+  type DealWorkflowRule,
+} from './deal-triggers.js';
 
 const logger = createLogger('WorkflowTriggerManager');
 
@@ -21,9 +39,13 @@ interface Finding {
   deal_id?: string;
 }
 
+const DEAL_RULE_COLUMNS = `id, workspace_id, name, trigger_type, trigger_config, condition_json,
+  action_type, action_payload, execution_mode, scope, scope_filter`;
+
 export class WorkflowTriggerManager {
   private evaluator: RuleEvaluator;
   private executor: ActionExecutor;
+  private scheduledJobs: ClusterJob[] = [];
 
   constructor() {
     this.evaluator = new RuleEvaluator();
@@ -220,6 +242,19 @@ export class WorkflowTriggerManager {
       trigger,
     };
 
+    return this.applyRule(rule, context);
+  }
+
+  /**
+   * Evaluate a rule's condition against a built context and execute or queue
+   * its action. With a firing key, a matching (rule, deal, event) firing is
+   * claimed before acting so a change seen twice acts once.
+   */
+  private async applyRule(
+    rule: any,
+    context: RuleContext,
+    firing?: { dealId: string; eventKey: string }
+  ): Promise<{ matched: boolean; executed: boolean }> {
     // Evaluate condition
     const conditionMet = this.evaluator.evaluate(rule.condition_json, context);
 
@@ -227,6 +262,10 @@ export class WorkflowTriggerManager {
       return { matched: false, executed: false };
     }
 
+    if (firing && !(await this.claimFiring(rule.id, firing.dealId, firing.eventKey))) {
+      return { matched: false, executed: false };
+    }
+
     // Condition met - execute or queue action
     const workflowRule: WorkflowRule = {
       id: rule.id,
@@ -257,6 +296,203 @@ export class WorkflowTriggerManager {
     return { matched: true, executed: false };
   }
 
+  /**
+   * Record that a rule fired for a deal event; false when it already had
+   */
+  private async claimFiring(ruleId: string, dealId: string, eventKey: string): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO workflow_rule_firings (workflow_rule_id, deal_id, event_key)
+       VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING
+       RETURNING workflow_rule_id`,
+      [ruleId, dealId, eventKey]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Called by CRM sync after stage and tracked-field changes are recorded and
+   * the deals upserted. Fires deal_field_changed, stage_entered and
+   * stage_exited rules for each change.
+   */
+  async onDealChanges(workspaceId: string, stageChanges: StageChange[], fieldChanges: FieldChange[]): Promise<void> {
+    const events: DealChangeEvent[] = [
+      ...stageChanges.map(c => ({
+        deal_id: c.dealId,
+        change: { field: 'stage', from: c.fromStage, to: c.toStage, changed_at: c.changedAt.toISOString() },
+        from_normalized: c.fromStageNormalized,
+        to_normalized: c.toStageNormalized,
+      })),
+      ...fieldChanges.map(c => ({
+        deal_id: c.dealId,
+        change: { field: c.field, from: c.fromValue, to: c.toValue, changed_at: c.changedAt.toISOString() },
+      })),
+    ];
+    if (events.length === 0) return;
+
+    try {
+      const rulesResult = await query<DealWorkflowRule>(
+        `SELECT ${DEAL_RULE_COLUMNS}
+         FROM workflow_rules
+         WHERE workspace_id = $1
+           AND trigger_type = ANY($2)
+           AND is_active = true`,
+        [workspaceId, [...CHANGE_TRIGGER_TYPES]]
+      );
+      if (rulesResult.rows.length === 0) return;
+
+      logger.info('Deal changes detected, evaluating workflow rules', {
+        workspace_id: workspaceId,
+        changes: events.length,
+        rules: rulesResult.rows.length,
+      });
+
+      const dealIds = [...new Set(events.map(e => e.deal_id))];
+      const dealsResult = await query<Record<string, any>>(
+        `SELECT * FROM deals WHERE workspace_id = $1 AND id = ANY($2)`,
+        [workspaceId, dealIds]
+      );
+      const deals = new Map(dealsResult.rows.map(d => [d.id, d]));
+
+      const now = new Date();
+      const lookbackDays = Math.max(...rulesResult.rows.map(r => historyWindowDays(r.condition_json)));
+      const since = new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+      const history = groupHistory(await loadDealChanges(workspaceId, since, now, dealIds));
+
+      for (const rule of rulesResult.rows) {
+        const startTime = Date.now();
+        let matched = 0;
+        let executed = 0;
+        let failed = 0;
+
+        for (const event of events) {
+          const deal = deals.get(event.deal_id);
+          if (!deal || !dealInScope(rule, deal) || !matchesChangeTrigger(rule, event)) continue;
+
+          const trigger = { type: rule.trigger_type, source_id: `${event.deal_id}:${changeEventKey(event)}` };
+          const context = buildDealContext(deal, trigger, { event, history: history.get(event.deal_id), asOf: now });
+          try {
+            const result = await this.applyRule(rule, context, { dealId: event.deal_id, eventKey: changeEventKey(event) });
+            if (result.matched) {
+              matched++;
+              if (result.executed) executed++;
+            }
+          } catch (error: any) {
+            failed++;
+            logger.error('Rule evaluation failed', { rule_id: rule.id, deal_id: event.deal_id, error: error.message });
+          }
+        }
+
+        if (matched > 0 || failed > 0) {
+          await this.logExecution(rule.id, workspaceId, { type: rule.trigger_type, source_id: 'crm_sync' },
+            matched, executed, failed, Date.now() - startTime);
+        }
+      }
+    } catch (error: any) {
+      logger.error('Failed to process deal change workflow triggers', {
+        workspace_id: workspaceId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Evaluate a no_activity or scheduled rule across the workspace's open deals
+   */
+  async runDealSweep(rule: DealWorkflowRule, fireTime: Date = new Date()): Promise<void> {
+    const startTime = Date.now();
+    let matched = 0;
+    let executed = 0;
+    let failed = 0;
+
+    const dealsResult = await query<Record<string, any>>(
+      `SELECT * FROM deals
+       WHERE workspace_id = $1
+         AND (stage_normalized IS NULL OR stage_normalized NOT IN ('closed_won', 'closed_lost'))`,
+      [rule.workspace_id]
+    );
+
+    let deals = dealsResult.rows.filter(d => dealInScope(rule, d));
+    const cutoff = rule.trigger_type === 'no_activity'
+      ? new Date(fireTime.getTime() - (rule.trigger_config.days ?? 0) * 24 * 60 * 60 * 1000)
+      : null;
+    if (cutoff) {
+      deals = deals.filter(d => new Date(d.last_activity_date ?? d.created_at) <= cutoff);
+    }
+    if (deals.length === 0) return;
+
+    const since = new Date(fireTime.getTime() - historyWindowDays(rule.condition_json) * 24 * 60 * 60 * 1000);
+    const history = groupHistory(await loadDealChanges(rule.workspace_id, since, fireTime, deals.map(d => d.id)));
+    const trigger = { type: rule.trigger_type, source_id: fireTime.toISOString() };
+
+    for (const deal of deals) {
+      const context = buildDealContext(deal, trigger, { history: history.get(deal.id), asOf: fireTime });
+      const firing = cutoff
+        ? { dealId: deal.id, eventKey: noActivityEventKey(deal.last_activity_date ? new Date(deal.last_activity_date) : null) }
+        : undefined;
+      try {
+        const result = await this.applyRule(rule, context, firing);
+        if (result.matched) {
+          matched++;
+          if (result.executed) executed++;
+        }
+      } catch (error: any) {
+        failed++;
+        logger.error('Rule evaluation failed', { rule_id: rule.id, deal_id: deal.id, error: error.message });
+      }
+    }
+
+    await this.logExecution(rule.id, rule.workspace_id, trigger, matched, executed, failed, Date.now() - startTime);
+  }
+
+  /**
+   * Schedule every active no_activity / scheduled rule as a cluster job
+   */
+  async startScheduledRules(): Promise<void> {
+    try {
+      const result = await query<DealWorkflowRule>(
+        `SELECT ${DEAL_RULE_COLUMNS}
+         FROM workflow_rules
+         WHERE trigger_type = ANY($1) AND is_active = true`,
+        [[...SWEEP_TRIGGER_TYPES]]
+      );
+
+      for (const rule of result.rows) {
+        const schedule = rule.trigger_config?.schedule
+          || (rule.trigger_type === 'no_activity' ? DEFAULT_NO_ACTIVITY_SCHEDULE : null);
+        if (!schedule) {
+          logger.warn('Scheduled workflow rule has no schedule', { rule_id: rule.id });
+          continue;
+        }
+
+        this.scheduledJobs.push(scheduleJob(`workflow-rule:${rule.id}`, schedule, async () => {
+          await this.runDealSweep(rule);
+        }, {
+          workspaceId: rule.workspace_id,
+          timezone: rule.trigger_config?.timezone || 'UTC',
+          description: `Workflow rule "${rule.name}"`,
+        }));
+      }
+
+      logger.info('Scheduled workflow rules started', { count: this.scheduledJobs.length });
+    } catch (error: any) {
+      logger.error('Failed to start scheduled workflow rules', { error: error.message });
+    }
+  }
+
+  stopScheduledRules(): void {
+    for (const job of this.scheduledJobs) job.stop();
+    this.scheduledJobs = [];
+  }
+
+  /**
+   * Call after creating/updating/deleting a rule to reload schedules
+   */
+  async reloadScheduledRules(): Promise<void> {
+    this.stopScheduledRules();
+    await this.startScheduledRules();
+  }
+
   /**
    * Queue an action for human-in-the-loop approval
    */
@@ -282,6 +518,7 @@ export class WorkflowTriggerManager {
           context: {
             finding_id: context.finding?.id,
             trigger: context.trigger,
+            change: context.change,
           },
         }),
       ]
@@ -326,6 +563,10 @@ export class WorkflowTriggerManager {
       }
     }
 
+    if (context.change) {
+      parts.push(`${context.change.field} changed from ${context.change.from ?? 'empty'} to ${context.change.to ?? 'empty'}`);
+    }
+
     return parts.join(' • ');
   }
 
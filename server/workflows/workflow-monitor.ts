@@ -1,11 +1,11 @@
-import cron from 'node-cron';
 import { query } from '../db.js';
+import { scheduleJob, type ClusterJob } from '../scheduling/cluster-scheduler.js';
 import { createLogger } from '../utils/logger.js';
 import { APClientInterface } from './workflow-service.js';
 
 const logger = createLogger('WorkflowMonitor');
 
-let monitorJob: cron.ScheduledTask | null = null;
+let monitorJob: ClusterJob | null = null;
 let apClientRef: APClientInterface | undefined;
 
 export async function pollRunningWorkflows(): Promise<void> {
@@ -91,7 +91,7 @@ export async function pollRunningWorkflows(): Promise<void> {
 
 export function startWorkflowMonitor(apClient?: APClientInterface): void {
   apClientRef = apClient;
-  monitorJob = cron.schedule('* * * * *', async () => {
+  monitorJob = scheduleJob('workflows:monitor', '* * * * *', async () => {
     await pollRunningWorkflows();
   }, { timezone: 'UTC' });
 